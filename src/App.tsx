@@ -9,6 +9,8 @@ import { AuthProvider } from "@/contexts/AuthContext";
 import ProtectedRoute from "@/components/ProtectedRoute";
 import ProtectedRouteWithConsent from "@/components/ProtectedRouteWithConsent";
 import { validateConfig } from "@/config";
+import AlertMonitor from "@/components/alerts/AlertMonitor";
+import PaperTradingMonitor from "@/components/paperTrading/PaperTradingMonitor";
 import Index from "./pages/Index";
 import Login from "./pages/Login";
 import Register from "./pages/Register";
@@ -21,6 +23,16 @@ import NewStockAnalysis from "./pages/NewStockAnalysis";
 import NewOutput from "./pages/NewOutput";
 import Dashboard from "./pages/Dashboard";
 import Charts from "./pages/Charts";
+import Alerts from "./pages/Alerts";
+import Watchlists from "./pages/Watchlists";
+import BatchAnalysis from "./pages/BatchAnalysis";
+import Compare from "./pages/Compare";
+import SignalOutcomes from "./pages/SignalOutcomes";
+import Backtest from "./pages/Backtest";
+import AnalysisReplay from "./pages/AnalysisReplay";
+import PaperPortfolio from "./pages/PaperPortfolio";
+import PortfolioRisk from "./pages/PortfolioRisk";
+import SectorExplorer from "./pages/SectorExplorer";
 import NotFound from "./pages/NotFound";
 import SharedAnalysis from "./pages/SharedAnalysis";
 import Disclaimer from "./pages/Disclaimer";
@@ -39,6 +51,8 @@ const App = () => {
         <TooltipProvider>
           <Toaster />
           <Sonner />
+          <AlertMonitor />
+          <PaperTradingMonitor />
           <BrowserRouter future={{ v7_startTransition: true, v7_relativeSplatPath: true }}>
             <Routes>
               <Route path="/" element={<Index />} />
@@ -80,6 +94,86 @@ const App = () => {
                   </ProtectedRouteWithConsent>
                 } 
               />
+              <Route 
+                path="/watchlists" 
+                element={
+                  <ProtectedRouteWithConsent>
+                    <Watchlists />
+                  </ProtectedRouteWithConsent>
+                } 
+              />
+              <Route 
+                path="/analysis/batch" 
+                element={
+                  <ProtectedRouteWithConsent>
+                    <BatchAnalysis />
+                  </ProtectedRouteWithConsent>
+                } 
+              />
+              <Route 
+                path="/compare" 
+                element={
+                  <ProtectedRouteWithConsent>
+                    <Compare />
+                  </ProtectedRouteWithConsent>
+                } 
+              />
+              <Route 
+                path="/outcomes" 
+                element={
+                  <ProtectedRouteWithConsent>
+                    <SignalOutcomes />
+                  </ProtectedRouteWithConsent>
+                } 
+              />
+              <Route 
+                path="/backtest" 
+                element={
+                  <ProtectedRouteWithConsent>
+                    <Backtest />
+                  </ProtectedRouteWithConsent>
+                } 
+              />
+              <Route 
+                path="/analysis/replay" 
+                element={
+                  <ProtectedRouteWithConsent>
+                    <AnalysisReplay />
+                  </ProtectedRouteWithConsent>
+                } 
+              />
+              <Route 
+                path="/portfolio" 
+                element={
+                  <ProtectedRouteWithConsent>
+                    <PaperPortfolio />
+                  </ProtectedRouteWithConsent>
+                } 
+              />
+              <Route 
+                path="/portfolio/risk" 
+                element={
+                  <ProtectedRouteWithConsent>
+                    <PortfolioRisk />
+                  </ProtectedRouteWithConsent>
+                } 
+              />
+              <Route 
+                path="/sectors" 
+                element={
+                  <ProtectedRouteWithConsent>
+                    <SectorExplorer />
+                  </ProtectedRouteWithConsent>
+                } 
+              />
+              <Route 
+                path="/alerts" 
+                element={
+                  <ProtectedRouteWithConsent>
+                    <Alerts />
+                  </ProtectedRouteWithConsent>
+                } 
+              />
               {/* Public, shareable analysis route */}
               <Route path="/analysis/:id" element={<SharedAnalysis />} />
               <Route path="*" element={<NotFound />} />
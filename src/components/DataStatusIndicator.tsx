@@ -1,20 +1,28 @@
 import React from 'react';
 import { Badge } from './ui/badge';
 import { AlertCircle, Wifi, WifiOff, Clock, Zap } from 'lucide-react';
+import { MarketStatusBadge } from './MarketStatusBadge';
+import { useMarketSession } from '@/hooks/useMarketSession';
 
 interface DataStatusIndicatorProps {
   isConnected: boolean;
   isLive: boolean;
   connectionStatus: 'connecting' | 'connected' | 'disconnected' | 'error';
   error?: string | null;
+  isBackfilling?: boolean;
 }
 
 export const DataStatusIndicator: React.FC<DataStatusIndicatorProps> = ({
   isConnected,
   isLive,
   connectionStatus,
-  error
+  error,
+  isBackfilling = false
 }) => {
+  const { session } = useMarketSession();
+  // No socket is opened while the market is shut, so being disconnected is expected then
+  const isMarketClosed = session.phase === 'closed' && !isConnected;
+
   const getStatusInfo = () => {
     if (isConnected && isLive) {
       return {
@@ -58,7 +66,7 @@ export const DataStatusIndicator: React.FC<DataStatusIndicatorProps> = ({
 
   return (
     <div className="flex items-center gap-2">
-
+      {isMarketClosed && <MarketStatusBadge />}
       
       {error && (
         <div className="text-xs text-muted-foreground max-w-xs">
@@ -66,7 +74,13 @@ export const DataStatusIndicator: React.FC<DataStatusIndicatorProps> = ({
         </div>
       )}
       
-      {!isLive && isConnected && (
+      {isBackfilling && (
+        <div className="text-xs text-muted-foreground">
+          Syncing missed candles...
+        </div>
+      )}
+      
+      {!isLive && isConnected && session.phase !== 'closed' && (
         <div className="text-xs text-muted-foreground">
           Live data requires Zerodha credentials
         </div>
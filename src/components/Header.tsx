@@ -1,6 +1,7 @@
 import { Link, useLocation, useNavigate } from "react-router-dom";
 import { TrendingUp, LogOut, Menu, X } from "lucide-react";
 import { Button } from "@/components/ui/button";
+import { MarketStatusBadge } from "@/components/MarketStatusBadge";
 import { useAuth } from "@/contexts/AuthContext";
 import { useToast } from "@/hooks/use-toast";
 import { useState } from "react";
@@ -42,6 +43,7 @@ const Header = () => {
           
           {/* Desktop Navigation */}
           <nav className="hidden md:flex items-center space-x-6">
+            <MarketStatusBadge tone="dark" className="hidden xl:inline-flex" />
             <Link 
               to="/analysis" 
               className={`text-sm font-medium transition-colors hover:text-emerald-400 ${
@@ -58,6 +60,62 @@ const Header = () => {
             >
               Charts
             </Link>
+            <Link 
+              to="/sectors" 
+              className={`text-sm font-medium transition-colors hover:text-emerald-400 ${
+                isActive("/sectors") ? "text-emerald-400" : "text-slate-300"
+              }`}
+            >
+              Sectors
+            </Link>
+            <Link 
+              to="/watchlists" 
+              className={`text-sm font-medium transition-colors hover:text-emerald-400 ${
+                isActive("/watchlists") ? "text-emerald-400" : "text-slate-300"
+              }`}
+            >
+              Watchlists
+            </Link>
+            <Link 
+              to="/alerts" 
+              className={`text-sm font-medium transition-colors hover:text-emerald-400 ${
+                isActive("/alerts") ? "text-emerald-400" : "text-slate-300"
+              }`}
+            >
+              Alerts
+            </Link>
+            <Link 
+              to="/outcomes" 
+              className={`text-sm font-medium transition-colors hover:text-emerald-400 ${
+                isActive("/outcomes") ? "text-emerald-400" : "text-slate-300"
+              }`}
+            >
+              Outcomes
+            </Link>
+            <Link 
+              to="/backtest" 
+              className={`text-sm font-medium transition-colors hover:text-emerald-400 ${
+                isActive("/backtest") ? "text-emerald-400" : "text-slate-300"
+              }`}
+            >
+              Backtest
+            </Link>
+            <Link 
+              to="/portfolio" 
+              className={`text-sm font-medium transition-colors hover:text-emerald-400 ${
+                isActive("/portfolio") ? "text-emerald-400" : "text-slate-300"
+              }`}
+            >
+              Portfolio
+            </Link>
+            <Link 
+              to="/portfolio/risk" 
+              className={`text-sm font-medium transition-colors hover:text-emerald-400 ${
+                isActive("/portfolio/risk") ? "text-emerald-400" : "text-slate-300"
+              }`}
+            >
+              Risk
+            </Link>
             <Link 
               to="/output" 
               className={`text-sm font-medium transition-colors hover:text-emerald-400 ${
@@ -101,6 +159,7 @@ const Header = () => {
       {mobileMenuOpen && (
         <div className="md:hidden bg-slate-800 border-t border-slate-700 shadow-lg">
           <div className="container mx-auto px-4 py-3 space-y-3">
+            <MarketStatusBadge tone="dark" />
             <Link 
               to="/analysis" 
               className={`block text-sm font-medium transition-colors hover:text-emerald-400 ${
@@ -119,6 +178,69 @@ const Header = () => {
             >
               Charts
             </Link>
+            <Link 
+              to="/sectors" 
+              className={`block text-sm font-medium transition-colors hover:text-emerald-400 ${
+                isActive("/sectors") ? "text-emerald-400" : "text-slate-300"
+              }`}
+              onClick={() => setMobileMenuOpen(false)}
+            >
+              Sectors
+            </Link>
+            <Link 
+              to="/watchlists" 
+              className={`block text-sm font-medium transition-colors hover:text-emerald-400 ${
+                isActive("/watchlists") ? "text-emerald-400" : "text-slate-300"
+              }`}
+              onClick={() => setMobileMenuOpen(false)}
+            >
+              Watchlists
+            </Link>
+            <Link 
+              to="/alerts" 
+              className={`block text-sm font-medium transition-colors hover:text-emerald-400 ${
+                isActive("/alerts") ? "text-emerald-400" : "text-slate-300"
+              }`}
+              onClick={() => setMobileMenuOpen(false)}
+            >
+              Alerts
+            </Link>
+            <Link 
+              to="/outcomes" 
+              className={`block text-sm font-medium transition-colors hover:text-emerald-400 ${
+                isActive("/outcomes") ? "text-emerald-400" : "text-slate-300"
+              }`}
+              onClick={() => setMobileMenuOpen(false)}
+            >
+              Outcomes
+            </Link>
+            <Link 
+              to="/backtest" 
+              className={`block text-sm font-medium transition-colors hover:text-emerald-400 ${
+                isActive("/backtest") ? "text-emerald-400" : "text-slate-300"
+              }`}
+              onClick={() => setMobileMenuOpen(false)}
+            >
+              Backtest
+            </Link>
+            <Link 
+              to="/portfolio" 
+              className={`block text-sm font-medium transition-colors hover:text-emerald-400 ${
+                isActive("/portfolio") ? "text-emerald-400" : "text-slate-300"
+              }`}
+              onClick={() => setMobileMenuOpen(false)}
+            >
+              Portfolio
+            </Link>
+            <Link 
+              to="/portfolio/risk" 
+              className={`block text-sm font-medium transition-colors hover:text-emerald-400 ${
+                isActive("/portfolio/risk") ? "text-emerald-400" : "text-slate-300"
+              }`}
+              onClick={() => setMobileMenuOpen(false)}
+            >
+              Risk
+            </Link>
             <Link 
               to="/output" 
               className={`block text-sm font-medium transition-colors hover:text-emerald-400 ${
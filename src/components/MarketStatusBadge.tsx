@@ -0,0 +1,50 @@
+import React from 'react';
+import { useMarketSession } from '@/hooks/useMarketSession';
+import { MarketPhase, formatSessionTime, getMarketSessionLabel } from '@/utils/marketCalendar';
+
+interface MarketStatusBadgeProps {
+  // 'dark' for the header bar
+  tone?: 'light' | 'dark';
+  className?: string;
+}
+
+const DOT_CLASSES: Record<MarketPhase, string> = {
+  open: 'bg-green-500 animate-pulse',
+  'pre-open': 'bg-amber-400',
+  closed: 'bg-gray-400'
+};
+
+const TONE_CLASSES: Record<'light' | 'dark', Record<MarketPhase, string>> = {
+  light: {
+    open: 'bg-green-50 border-green-200 text-green-800',
+    'pre-open': 'bg-amber-50 border-amber-200 text-amber-800',
+    closed: 'bg-gray-100 border-gray-200 text-gray-600'
+  },
+  dark: {
+    open: 'border-emerald-500/40 text-emerald-300',
+    'pre-open': 'border-amber-400/40 text-amber-300',
+    closed: 'border-slate-600 text-slate-400'
+  }
+};
+
+// NSE session with a countdown to the next open or close
+export const MarketStatusBadge: React.FC<MarketStatusBadgeProps> = ({ tone = 'light', className = '' }) => {
+  const { session, countdown } = useMarketSession();
+  const title = session.source === 'exchange'
+    ? 'Reported by the exchange feed'
+    : session.phase === 'open'
+      ? `NSE closes at ${formatSessionTime(session.closesAt)} IST`
+      : `NSE opens ${formatSessionTime(session.opensAt)} IST`;
+
+  return (
+    <div
+      className={`inline-flex items-center gap-2 rounded-full border px-2.5 py-0.5 text-xs font-medium whitespace-nowrap ${TONE_CLASSES[tone][session.phase]} ${className}`}
+      title={title}
+    >
+      <span className={`h-2 w-2 rounded-full ${DOT_CLASSES[session.phase]}`} />
+      {getMarketSessionLabel(session, countdown)}
+    </div>
+  );
+};
+
+export default MarketStatusBadge;
@@ -0,0 +1,268 @@
+import React, { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { StockSelector } from '@/components/ui/stock-selector';
+import { Loader2, Plus } from 'lucide-react';
+import { AlertCondition, AlertConditionType, AlertTimeframe } from '@/types/alerts';
+import { NewAlertInput } from '@/stores/alertStore';
+import { apiService } from '@/services/api';
+import { buildAnalysisOverlays } from '@/utils/analysisOverlays';
+
+interface AlertFormProps {
+  userId: string | null | undefined;
+  defaultSymbol: string;
+  onCreate: (input: NewAlertInput) => void;
+  onError: (message: string) => void;
+}
+
+const CONDITION_OPTIONS: { value: AlertConditionType; label: string }[] = [
+  { value: 'price_cross', label: 'Price crosses a level' },
+  { value: 'percent_move', label: '% move from previous close' },
+  { value: 'rsi', label: 'RSI threshold' },
+  { value: 'macd_cross', label: 'MACD signal cross' },
+  { value: 'analysis_level', label: 'Touches support/resistance from my last analysis' }
+];
+
+const TIMEFRAME_OPTIONS: { value: AlertTimeframe; label: string }[] = [
+  { value: '1m', label: '1 min' },
+  { value: '5m', label: '5 min' },
+  { value: '15m', label: '15 min' },
+  { value: '1h', label: '1 hour' },
+  { value: '1d', label: '1 day' }
+];
+
+const CROSS_OPTIONS: { value: 'above' | 'below'; label: string }[] = [
+  { value: 'above', label: 'Crosses above' },
+  { value: 'below', label: 'Crosses below' }
+];
+
+const MOVE_OPTIONS: { value: 'up' | 'down' | 'either'; label: string }[] = [
+  { value: 'either', label: 'Up or down' },
+  { value: 'up', label: 'Up' },
+  { value: 'down', label: 'Down' }
+];
+
+const RSI_OPTIONS: { value: 'above' | 'below'; label: string }[] = [
+  { value: 'above', label: 'Rises above' },
+  { value: 'below', label: 'Falls below' }
+];
+
+const MACD_OPTIONS: { value: 'bullish' | 'bearish'; label: string }[] = [
+  { value: 'bullish', label: 'Bullish (crosses above signal)' },
+  { value: 'bearish', label: 'Bearish (crosses below signal)' }
+];
+
+const OptionSelect = <T extends string>({
+  value,
+  options,
+  onChange,
+  className = 'w-36'
+}: {
+  value: T;
+  options: { value: T; label: string }[];
+  onChange: (value: T) => void;
+  className?: string;
+}) => (
+  <Select value={value} onValueChange={(next) => onChange(next as T)}>
+    <SelectTrigger className={className}>
+      <SelectValue />
+    </SelectTrigger>
+    <SelectContent>
+      {options.map(option => (
+        <SelectItem key={option.value} value={option.value}>
+          {option.label}
+        </SelectItem>
+      ))}
+    </SelectContent>
+  </Select>
+);
+
+export const AlertForm: React.FC<AlertFormProps> = ({ userId, defaultSymbol, onCreate, onError }) => {
+  const [symbol, setSymbol] = useState(defaultSymbol);
+  const [type, setType] = useState<AlertConditionType>('price_cross');
+  const [direction, setDirection] = useState<'above' | 'below'>('above');
+  const [price, setPrice] = useState('');
+  const [moveDirection, setMoveDirection] = useState<'up' | 'down' | 'either'>('either');
+  const [percent, setPercent] = useState('3');
+  const [rsiOperator, setRsiOperator] = useState<'above' | 'below'>('above');
+  const [rsiValue, setRsiValue] = useState('70');
+  const [rsiPeriod, setRsiPeriod] = useState('14');
+  const [macdDirection, setMacdDirection] = useState<'bullish' | 'bearish'>('bullish');
+  const [timeframe, setTimeframe] = useState<AlertTimeframe>('1d');
+  const [tolerance, setTolerance] = useState('0.5');
+  const [repeat, setRepeat] = useState(false);
+  const [note, setNote] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  // Levels are snapshotted from the latest stored analysis so the alert keeps them after new analyses run
+  const loadAnalysisLevels = async (): Promise<AlertCondition | null> => {
+    if (!userId) {
+      onError('Sign in to use levels from your analyses');
+      return null;
+    }
+    const response = await apiService.getStockAnalysesForUser(symbol, userId, 1);
+    const latest = response.success ? response.analyses?.[0] : undefined;
+    const overlays = latest ? buildAnalysisOverlays(latest) : null;
+    const levels = (overlays?.levels || [])
+      .filter(level => level.kind === 'support' || level.kind === 'resistance')
+      .map(level => ({ price: level.price, kind: level.kind as 'support' | 'resistance', label: level.label }));
+
+    if (!overlays || levels.length === 0) {
+      onError(`No saved analysis with support/resistance levels for ${symbol}`);
+      return null;
+    }
+    return {
+      type: 'analysis_level',
+      levels,
+      tolerancePercent: parseFloat(tolerance),
+      analysisId: overlays.analysisId,
+      analysisDate: overlays.analysisDate
+    };
+  };
+
+  const buildCondition = async (): Promise<AlertCondition | null> => {
+    switch (type) {
+      case 'price_cross':
+        return { type, direction, price: parseFloat(price) };
+      case 'percent_move':
+        return { type, direction: moveDirection, percent: parseFloat(percent) };
+      case 'rsi':
+        return { type, operator: rsiOperator, value: parseFloat(rsiValue), period: parseInt(rsiPeriod, 10), timeframe };
+      case 'macd_cross':
+        return { type, direction: macdDirection, timeframe };
+      case 'analysis_level':
+        return loadAnalysisLevels();
+      default:
+        return null;
+    }
+  };
+
+  const isValid = (() => {
+    if (!symbol) return false;
+    switch (type) {
+      case 'price_cross':
+        return parseFloat(price) > 0;
+      case 'percent_move':
+        return parseFloat(percent) > 0;
+      case 'rsi': {
+        const value = parseFloat(rsiValue);
+        const period = parseInt(rsiPeriod, 10);
+        return value > 0 && value < 100 && period >= 2 && period <= 100;
+      }
+      case 'analysis_level':
+        return parseFloat(tolerance) > 0;
+      default:
+        return true;
+    }
+  })();
+
+  const handleSubmit = async (event: React.FormEvent) => {
+    event.preventDefault();
+    if (!isValid || isSubmitting) return;
+
+    setIsSubmitting(true);
+    try {
+      const condition = await buildCondition();
+      if (!condition) return;
+      onCreate({ symbol, condition, repeat, note: note.trim() || undefined });
+      setPrice('');
+      setNote('');
+    } catch (error) {
+      onError(error instanceof Error ? error.message : 'Failed to create alert');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-4">
+      <div className="grid grid-cols-1 gap-4 md:grid-cols-2">
+        <StockSelector value={symbol} onValueChange={setSymbol} placeholder="Select a stock" label="Stock Symbol" />
+        <div className="space-y-2">
+          <Label>Condition</Label>
+          <OptionSelect<AlertConditionType> value={type} options={CONDITION_OPTIONS} onChange={setType} className="w-full" />
+        </div>
+      </div>
+
+      <div className="flex flex-wrap items-end gap-3">
+        {type === 'price_cross' && (
+          <>
+            <OptionSelect<'above' | 'below'>
+              value={direction}
+              options={CROSS_OPTIONS}
+              onChange={setDirection}
+            />
+            <Input className="w-36" type="number" step="0.05" min="0" placeholder="Price" value={price} onChange={(e) => setPrice(e.target.value)} />
+          </>
+        )}
+
+        {type === 'percent_move' && (
+          <>
+            <OptionSelect<'up' | 'down' | 'either'>
+              value={moveDirection}
+              options={MOVE_OPTIONS}
+              onChange={setMoveDirection}
+            />
+            <div className="flex items-center gap-1">
+              <Input className="w-24" type="number" step="0.1" min="0" value={percent} onChange={(e) => setPercent(e.target.value)} />
+              <span className="text-sm text-gray-500">%</span>
+            </div>
+          </>
+        )}
+
+        {type === 'rsi' && (
+          <>
+            <div className="flex items-center gap-1">
+              <span className="text-sm text-gray-500">RSI</span>
+              <Input className="w-20" type="number" min="2" max="100" value={rsiPeriod} onChange={(e) => setRsiPeriod(e.target.value)} title="Period" />
+            </div>
+            <OptionSelect<'above' | 'below'>
+              value={rsiOperator}
+              options={RSI_OPTIONS}
+              onChange={setRsiOperator}
+            />
+            <Input className="w-24" type="number" min="1" max="99" value={rsiValue} onChange={(e) => setRsiValue(e.target.value)} />
+          </>
+        )}
+
+        {type === 'macd_cross' && (
+          <OptionSelect<'bullish' | 'bearish'>
+            value={macdDirection}
+            options={MACD_OPTIONS}
+            onChange={setMacdDirection}
+            className="w-72"
+          />
+        )}
+
+        {(type === 'rsi' || type === 'macd_cross') && (
+          <OptionSelect<AlertTimeframe> value={timeframe} options={TIMEFRAME_OPTIONS} onChange={setTimeframe} className="w-28" />
+        )}
+
+        {type === 'analysis_level' && (
+          <div className="flex items-center gap-1">
+            <span className="text-sm text-gray-500">Within ±</span>
+            <Input className="w-20" type="number" step="0.1" min="0" value={tolerance} onChange={(e) => setTolerance(e.target.value)} />
+            <span className="text-sm text-gray-500">% of a level</span>
+          </div>
+        )}
+      </div>
+
+      <div className="flex flex-wrap items-center gap-4">
+        <Input className="max-w-xs" placeholder="Note (optional)" value={note} onChange={(e) => setNote(e.target.value)} />
+        <label className="flex items-center gap-2 text-sm text-gray-700">
+          <Switch checked={repeat} onCheckedChange={setRepeat} />
+          Repeat after it resets
+        </label>
+        <Button type="submit" disabled={!isValid || isSubmitting} className="ml-auto">
+          {isSubmitting ? <Loader2 className="mr-1 h-4 w-4 animate-spin" /> : <Plus className="mr-1 h-4 w-4" />}
+          Create alert
+        </Button>
+      </div>
+    </form>
+  );
+};
+
+export default AlertForm;
@@ -0,0 +1,48 @@
+import { useEffect } from 'react';
+import { useAuth } from '@/contexts/AuthContext';
+import { useToast } from '@/hooks/use-toast';
+import { useAlertStore } from '@/stores/alertStore';
+import { alertEngine } from '@/services/alertEngine';
+import { showBrowserNotification } from '@/utils/browserNotifications';
+
+// Keeps the alert engine running for the signed-in user on every page.
+// Renders nothing; triggers surface as toasts, browser notifications and history entries.
+const AlertMonitor = () => {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const loadAlerts = useAlertStore(state => state.loadAlerts);
+  const recordTrigger = useAlertStore(state => state.recordTrigger);
+
+  useEffect(() => {
+    if (!user?.id) {
+      alertEngine.stop();
+      return;
+    }
+    loadAlerts(user.id);
+
+    alertEngine.setAlerts(useAlertStore.getState().alerts);
+    const unsubscribeStore = useAlertStore.subscribe(
+      state => state.alerts,
+      alerts => alertEngine.setAlerts(alerts)
+    );
+
+    return () => {
+      unsubscribeStore();
+      alertEngine.stop();
+    };
+  }, [user?.id, loadAlerts]);
+
+  useEffect(() => {
+    return alertEngine.onTrigger((trigger, alert) => {
+      recordTrigger(trigger);
+      const title = `🔔 ${trigger.symbol} alert`;
+      const description = alert.note ? `${trigger.message} — ${alert.note}` : trigger.message;
+      toast({ title, description });
+      showBrowserNotification(title, description, trigger.alertId);
+    });
+  }, [recordTrigger, toast]);
+
+  return null;
+};
+
+export default AlertMonitor;
@@ -16,14 +16,8 @@ import {
   Info
 } from 'lucide-react';
 import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from '@/components/ui/tooltip';
-
-interface StressScenario {
-  scenario_name: string;
-  impact: number;
-  probability: number;
-  risk_level: string;
-  description: string;
-}
+import { ScenarioResult, StressScenario } from '@/types/analysis';
+import { ScenarioResultGrid, StressScenarioGrid } from './StressScenarioCards';
 
 interface StressSummary {
   stress_level: string;
@@ -32,14 +26,6 @@ interface StressSummary {
   recommendations: string[];
 }
 
-interface ScenarioResult {
-  scenario_name: string;
-  outcome: string;
-  probability: number;
-  impact: number;
-  risk_level: string;
-}
-
 interface ScenarioSummary {
   best_case: string;
   worst_case: string;
@@ -78,15 +64,6 @@ const AdvancedRiskMetricsCard: React.FC<AdvancedRiskMetricsCardProps> = ({
     }
   };
 
-  const getRiskLevelColor = (level: string) => {
-    switch (level?.toLowerCase()) {
-      case 'high': return 'text-red-600';
-      case 'medium': return 'text-yellow-600';
-      case 'low': return 'text-green-600';
-      default: return 'text-gray-600';
-    }
-  };
-
   const formatPercentage = (value: number | null | undefined) => {
     if (typeof value !== 'number' || isNaN(value)) return 'N/A';
     return `${(value * 100).toFixed(1)}%`;
@@ -97,19 +74,6 @@ const AdvancedRiskMetricsCard: React.FC<AdvancedRiskMetricsCardProps> = ({
     return `₹${value.toFixed(2)}`;
   };
 
-  // Number with thousands separators
-  const formatNumberWithSeparators = (value: number) => {
-    if (typeof value !== 'number' || isNaN(value)) return 'N/A';
-    return new Intl.NumberFormat('en-IN').format(value);
-  };
-
-  // Normalize percent-like numbers whether provided as 0..1 or 0..100
-  const formatPercentAuto = (value: number, decimals: number = 1) => {
-    if (typeof value !== 'number' || isNaN(value)) return 'N/A';
-    const scaled = Math.abs(value) > 1 ? value : value * 100;
-    return `${scaled.toFixed(decimals)}%`;
-  };
-
   // Helper function to safely check if data is an array
   const isArray = (data: any): data is any[] => {
     return Array.isArray(data);
@@ -552,43 +516,7 @@ const AdvancedRiskMetricsCard: React.FC<AdvancedRiskMetricsCardProps> = ({
                     <h4 className="font-semibold text-lg">Historical Stress Scenarios</h4>
                     
                     {/* Worst Periods */}
-                    <div className="grid grid-cols-1 md:grid-cols-5 gap-4">
-                      {getStressScenarios().map((scenario, index) => {
-                        const name = (scenario.scenario_name || '').toLowerCase();
-                        const isLiquidity = name.includes('liquidity stress');
-                        const isVolumeCount = isLiquidity && (
-                          name.includes('5th percentile volume') ||
-                          name.includes('1st percentile volume') ||
-                          name.includes('current volume') ||
-                          name.includes('low volume')
-                        );
-                        const isEventCount = name.includes('2std events') || name.includes('3std events') || name.includes('events');
-                        const isPercentLike = !isVolumeCount && !isEventCount;
-
-                        const impactLabel = isVolumeCount || isEventCount ? 'Value' : 'Impact';
-                        const impactDisplay = typeof scenario.impact === 'number'
-                          ? (isPercentLike ? formatPercentAuto(scenario.impact, 2) : formatNumberWithSeparators(scenario.impact))
-                          : 'N/A';
-
-                        return (
-                          <div key={index} className="p-3 bg-gray-50 rounded-lg border border-gray-200">
-                            <h5 className="font-medium text-gray-800">{scenario.scenario_name || 'Unknown Scenario'}</h5>
-                            <p className="text-sm text-gray-600">{scenario.description || 'No description available'}</p>
-                            <div className="flex items-center gap-2 mt-2">
-                              <Badge className={getRiskLevelColor(scenario.risk_level)}>
-                                {scenario.risk_level?.toUpperCase() || 'UNKNOWN'}
-                              </Badge>
-                              <span className="text-sm text-gray-600">
-                                {impactLabel}: {impactDisplay}
-                              </span>
-                              <span className="text-sm text-gray-600">
-                                Probability: {typeof scenario.probability === 'number' ? formatPercentAuto(scenario.probability, 1) : 'N/A'}
-                              </span>
-                            </div>
-                          </div>
-                        );
-                      })}
-                    </div>
+                    <StressScenarioGrid scenarios={getStressScenarios()} />
 
                     {/* Volatility Stress */}
                     {getVolatilityStress() && (
@@ -797,37 +725,7 @@ const AdvancedRiskMetricsCard: React.FC<AdvancedRiskMetricsCardProps> = ({
                 ) && (
                   <div className="space-y-4">
                     <h4 className="font-semibold text-lg">Detailed Scenario Results</h4>
-                    <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
-                      {getScenarioResults().map((result, index) => (
-                        <div key={index} className="p-4 bg-white rounded-lg border border-gray-200">
-                          <div className="flex items-center justify-between mb-2">
-                            <h5 className="font-medium text-gray-800">{result.scenario_name || 'Unknown Scenario'}</h5>
-                            <Badge className={getRiskLevelColor(result.risk_level)}>
-                              {result.risk_level?.toUpperCase() || 'UNKNOWN'}
-                            </Badge>
-                          </div>
-                          <p className="text-sm text-gray-600 mb-3">
-                            {typeof result.outcome === 'string' ? result.outcome : 
-                             typeof result.outcome === 'object' ? JSON.stringify(result.outcome) : 
-                             'No outcome available'}
-                          </p>
-                          <div className="grid grid-cols-2 gap-2 text-xs">
-                            <div>
-                              <span className="font-medium">Probability:</span>
-                              <div className="text-gray-700">
-                                {typeof result.probability === 'number' ? formatPercentAuto(result.probability, 1) : 'N/A'}
-                              </div>
-                            </div>
-                            <div>
-                              <span className="font-medium">Impact:</span>
-                              <div className="text-gray-700">
-                                {typeof result.impact === 'number' ? formatPercentAuto(result.impact, 2) : 'N/A'}
-                              </div>
-                            </div>
-                          </div>
-                        </div>
-                      ))}
-                    </div>
+                    <ScenarioResultGrid results={getScenarioResults()} />
                   </div>
                 )}
               </>
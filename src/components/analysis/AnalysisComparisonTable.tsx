@@ -0,0 +1,138 @@
+import React, { useMemo, useState } from 'react';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Badge } from '@/components/ui/badge';
+import { Switch } from '@/components/ui/switch';
+import { Label } from '@/components/ui/label';
+import { AlertTriangle, X } from 'lucide-react';
+import {
+  ComparableAnalysis,
+  ComparisonValue,
+  ComparisonValueKind,
+  buildComparisonSections,
+  formatComparisonValue
+} from '@/utils/analysisComparison';
+import { SignalBias, getSignalBias } from '@/utils/analysisSummary';
+
+interface AnalysisComparisonTableProps {
+  analyses: ComparableAnalysis[];
+  onRemove?: (analysisId: string) => void;
+  onOpen?: (analysisId: string) => void;
+}
+
+const BIAS_CLASSES: Record<SignalBias, string> = {
+  bullish: 'bg-emerald-100 text-emerald-800 border-emerald-200',
+  bearish: 'bg-red-100 text-red-800 border-red-200',
+  neutral: 'bg-gray-100 text-gray-700 border-gray-200'
+};
+
+const formatDate = (value: string | null): string => {
+  if (!value) return '';
+  const date = new Date(value);
+  return Number.isNaN(date.getTime()) ? value : date.toLocaleDateString('en-IN', { day: 'numeric', month: 'short', year: 'numeric' });
+};
+
+const renderValue = (value: ComparisonValue, kind: ComparisonValueKind) => {
+  if (kind === 'signal' && value !== null) {
+    return (
+      <Badge variant="outline" className={BIAS_CLASSES[getSignalBias(String(value))]}>
+        {String(value)}
+      </Badge>
+    );
+  }
+  if (kind === 'longtext') {
+    return <span className="line-clamp-4 text-xs text-gray-700">{formatComparisonValue(value, kind)}</span>;
+  }
+  return <span className="tabular-nums">{formatComparisonValue(value, kind)}</span>;
+};
+
+export const AnalysisComparisonTable: React.FC<AnalysisComparisonTableProps> = ({ analyses, onRemove, onOpen }) => {
+  const [onlyDisagreements, setOnlyDisagreements] = useState(false);
+  const sections = useMemo(() => buildComparisonSections(analyses), [analyses]);
+  const disagreementCount = sections.reduce((count, section) => count + section.rows.filter(row => row.disagrees).length, 0);
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <p className="text-sm text-gray-600">
+          {disagreementCount > 0 ? (
+            <span className="inline-flex items-center gap-1 text-amber-700">
+              <AlertTriangle className="h-4 w-4" /> {disagreementCount} fields disagree
+            </span>
+          ) : (
+            'The analyses agree on every compared field'
+          )}
+        </p>
+        <div className="flex items-center gap-2">
+          <Switch id="only-disagreements" checked={onlyDisagreements} onCheckedChange={setOnlyDisagreements} />
+          <Label htmlFor="only-disagreements" className="text-sm">Only disagreements</Label>
+        </div>
+      </div>
+
+      <div className="overflow-x-auto rounded-md border bg-white">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead className="w-48">Field</TableHead>
+              {analyses.map(analysis => (
+                <TableHead key={analysis.id} className="min-w-[180px] align-top">
+                  <div className="flex items-start justify-between gap-2 py-2">
+                    <button
+                      type="button"
+                      className="text-left hover:underline"
+                      onClick={() => onOpen?.(analysis.id)}
+                      title="Open full analysis"
+                    >
+                      <div className="font-semibold text-gray-900">{analysis.symbol || 'Unknown'}</div>
+                      <div className="text-xs font-normal text-gray-500">
+                        {[analysis.interval, analysis.period ? `${analysis.period}d` : null, formatDate(analysis.endDate || analysis.createdAt)]
+                          .filter(Boolean)
+                          .join(' · ')}
+                      </div>
+                    </button>
+                    {onRemove && (
+                      <button type="button" className="text-gray-400 hover:text-gray-700" title="Remove from comparison" onClick={() => onRemove(analysis.id)}>
+                        <X className="h-4 w-4" />
+                      </button>
+                    )}
+                  </div>
+                </TableHead>
+              ))}
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {sections.map(section => {
+              const rows = onlyDisagreements ? section.rows.filter(row => row.disagrees) : section.rows;
+              if (rows.length === 0) return null;
+              return (
+                <React.Fragment key={section.key}>
+                  <TableRow className="bg-slate-50 hover:bg-slate-50">
+                    <TableCell colSpan={analyses.length + 1} className="py-2 text-xs font-semibold uppercase tracking-wide text-slate-600">
+                      {section.title}
+                    </TableCell>
+                  </TableRow>
+                  {rows.map(row => (
+                    <TableRow key={`${section.key}-${row.label}`} className={row.disagrees ? 'bg-amber-50 hover:bg-amber-100' : undefined}>
+                      <TableCell className="text-sm font-medium text-gray-700">
+                        <span className="inline-flex items-center gap-1">
+                          {row.disagrees && <AlertTriangle className="h-3.5 w-3.5 text-amber-600" />}
+                          {row.label}
+                        </span>
+                      </TableCell>
+                      {row.values.map((value, index) => (
+                        <TableCell key={analyses[index].id} className="align-top">
+                          {renderValue(value, row.kind)}
+                        </TableCell>
+                      ))}
+                    </TableRow>
+                  ))}
+                </React.Fragment>
+              );
+            })}
+          </TableBody>
+        </Table>
+      </div>
+    </div>
+  );
+};
+
+export default AnalysisComparisonTable;
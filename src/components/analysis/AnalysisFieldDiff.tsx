@@ -0,0 +1,60 @@
+import React, { useMemo, useState } from 'react';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Input } from '@/components/ui/input';
+import { ComparableAnalysis, diffAnalysisFields } from '@/utils/analysisComparison';
+
+interface AnalysisFieldDiffProps {
+  analyses: ComparableAnalysis[];
+}
+
+// Raw field-level differences between runs of the same symbol
+export const AnalysisFieldDiff: React.FC<AnalysisFieldDiffProps> = ({ analyses }) => {
+  const [query, setQuery] = useState('');
+  const diffs = useMemo(() => diffAnalysisFields(analyses), [analyses]);
+  const filtered = useMemo(() => {
+    const q = query.trim().toLowerCase();
+    return q ? diffs.filter(diff => diff.path.toLowerCase().includes(q)) : diffs;
+  }, [diffs, query]);
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <p className="text-sm text-gray-600">{diffs.length} fields changed between runs</p>
+        <Input className="h-9 max-w-xs" placeholder="Filter fields (e.g. rsi, stop_loss)" value={query} onChange={(e) => setQuery(e.target.value)} />
+      </div>
+      <div className="max-h-[600px] overflow-auto rounded-md border bg-white">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead className="w-1/3">Field</TableHead>
+              {analyses.map((analysis, index) => (
+                <TableHead key={analysis.id}>Run {index + 1}</TableHead>
+              ))}
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {filtered.length === 0 && (
+              <TableRow>
+                <TableCell colSpan={analyses.length + 1} className="py-6 text-center text-sm text-gray-500">
+                  {diffs.length === 0 ? 'No field differs between these analyses.' : 'No changed field matches the filter.'}
+                </TableCell>
+              </TableRow>
+            )}
+            {filtered.map(diff => (
+              <TableRow key={diff.path}>
+                <TableCell className="break-all font-mono text-xs text-gray-700">{diff.path}</TableCell>
+                {diff.values.map((value, index) => (
+                  <TableCell key={analyses[index].id} className="max-w-[280px] break-words text-xs tabular-nums">
+                    {value === null ? <span className="text-gray-400">—</span> : String(value)}
+                  </TableCell>
+                ))}
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </div>
+    </div>
+  );
+};
+
+export default AnalysisFieldDiff;
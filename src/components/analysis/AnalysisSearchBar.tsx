@@ -0,0 +1,109 @@
+import React from 'react';
+import { Input } from '@/components/ui/input';
+import { Button } from '@/components/ui/button';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Search, X } from 'lucide-react';
+import { AnalysisFacets, AnalysisSearchQuery } from '@/types/analysisMirror';
+import { SignalBias } from '@/utils/analysisSummary';
+import { EMPTY_SEARCH_QUERY, isSearchActive } from '@/utils/analysisSearch';
+
+interface AnalysisSearchBarProps {
+  query: AnalysisSearchQuery;
+  facets: AnalysisFacets;
+  onChange: (query: AnalysisSearchQuery) => void;
+}
+
+// Select items cannot carry an empty value
+const ANY = '__any';
+
+const CONFIDENCE_OPTIONS = [50, 60, 70, 80, 90];
+
+const BIAS_LABELS: Record<SignalBias, string> = {
+  bullish: 'Bullish',
+  bearish: 'Bearish',
+  neutral: 'Neutral'
+};
+
+// Full-text box plus symbol / signal / sector / confidence / date facets over the local analysis mirror
+const AnalysisSearchBar: React.FC<AnalysisSearchBarProps> = ({ query, facets, onChange }) => {
+  const update = (patch: Partial<AnalysisSearchQuery>) => onChange({ ...query, ...patch });
+
+  return (
+    <div className="space-y-2 pt-2">
+      <div className="relative">
+        <Search className="absolute left-2.5 top-1/2 h-3.5 w-3.5 -translate-y-1/2 text-slate-400" />
+        <Input
+          value={query.text}
+          onChange={event => update({ text: event.target.value })}
+          placeholder="Search symbol, sector, signal or report text"
+          className="h-8 pl-8 text-xs"
+        />
+      </div>
+      <div className="grid grid-cols-2 gap-1.5 sm:grid-cols-4">
+        <Select value={query.symbol ?? ANY} onValueChange={value => update({ symbol: value === ANY ? null : value })}>
+          <SelectTrigger className="h-8 text-xs"><SelectValue placeholder="Symbol" /></SelectTrigger>
+          <SelectContent>
+            <SelectItem value={ANY}>Any symbol</SelectItem>
+            {facets.symbols.map(facet => (
+              <SelectItem key={facet.value} value={facet.value}>{facet.value} ({facet.count})</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Select value={query.bias ?? ANY} onValueChange={value => update({ bias: value === ANY ? null : value as SignalBias })}>
+          <SelectTrigger className="h-8 text-xs"><SelectValue placeholder="Signal" /></SelectTrigger>
+          <SelectContent>
+            <SelectItem value={ANY}>Any signal</SelectItem>
+            {facets.biases.map(facet => (
+              <SelectItem key={facet.value} value={facet.value}>{BIAS_LABELS[facet.value as SignalBias] ?? facet.value} ({facet.count})</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Select value={query.sector ?? ANY} onValueChange={value => update({ sector: value === ANY ? null : value })}>
+          <SelectTrigger className="h-8 text-xs"><SelectValue placeholder="Sector" /></SelectTrigger>
+          <SelectContent>
+            <SelectItem value={ANY}>Any sector</SelectItem>
+            {facets.sectors.map(facet => (
+              <SelectItem key={facet.value} value={facet.value}>{facet.value} ({facet.count})</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Select
+          value={query.minConfidence !== null ? String(query.minConfidence) : ANY}
+          onValueChange={value => update({ minConfidence: value === ANY ? null : Number(value) })}
+        >
+          <SelectTrigger className="h-8 text-xs"><SelectValue placeholder="Confidence" /></SelectTrigger>
+          <SelectContent>
+            <SelectItem value={ANY}>Any confidence</SelectItem>
+            {CONFIDENCE_OPTIONS.map(option => (
+              <SelectItem key={option} value={String(option)}>{option}%+</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+      <div className="flex items-center gap-1.5 text-xs text-slate-500">
+        <Input
+          type="date"
+          value={query.from ?? ''}
+          onChange={event => update({ from: event.target.value || null })}
+          className="h-8 text-xs"
+          aria-label="From date"
+        />
+        <span>to</span>
+        <Input
+          type="date"
+          value={query.to ?? ''}
+          onChange={event => update({ to: event.target.value || null })}
+          className="h-8 text-xs"
+          aria-label="To date"
+        />
+        {isSearchActive(query) && (
+          <Button type="button" variant="ghost" size="sm" className="h-8 px-2" onClick={() => onChange(EMPTY_SEARCH_QUERY)} title="Clear search">
+            <X className="h-3.5 w-3.5" />
+          </Button>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default AnalysisSearchBar;
@@ -0,0 +1,142 @@
+import React, { useEffect, useState } from 'react';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { ExternalLink, Loader2, RotateCcw } from 'lucide-react';
+import { BatchItem, BatchItemStatus } from '@/types/batchAnalysis';
+import { SignalBias, getSignalBias } from '@/utils/analysisSummary';
+
+interface BatchResultsTableProps {
+  items: BatchItem[];
+  onOpenAnalysis: (analysisId: string) => void;
+  onRetry: (itemId: string) => void;
+}
+
+const STATUS_LABELS: Record<BatchItemStatus, string> = {
+  queued: 'Queued',
+  running: 'Running',
+  retrying: 'Retrying',
+  success: 'Done',
+  error: 'Failed',
+  cancelled: 'Cancelled'
+};
+
+const STATUS_CLASSES: Record<BatchItemStatus, string> = {
+  queued: 'bg-gray-100 text-gray-700 border-gray-200',
+  running: 'bg-blue-100 text-blue-800 border-blue-200',
+  retrying: 'bg-amber-100 text-amber-800 border-amber-200',
+  success: 'bg-emerald-100 text-emerald-800 border-emerald-200',
+  error: 'bg-red-100 text-red-800 border-red-200',
+  cancelled: 'bg-gray-100 text-gray-500 border-gray-200'
+};
+
+const BIAS_CLASSES: Record<SignalBias, string> = {
+  bullish: 'bg-emerald-100 text-emerald-800 border-emerald-200',
+  bearish: 'bg-red-100 text-red-800 border-red-200',
+  neutral: 'bg-gray-100 text-gray-700 border-gray-200'
+};
+
+const formatElapsed = (ms: number): string => {
+  const seconds = Math.max(0, Math.floor(ms / 1000));
+  return `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')}`;
+};
+
+const formatLevels = (levels: number[]): string =>
+  levels.length > 0 ? levels.map(level => level.toFixed(2)).join(' / ') : '—';
+
+export const BatchResultsTable: React.FC<BatchResultsTableProps> = ({ items, onOpenAnalysis, onRetry }) => {
+  // Local clock for elapsed times and retry countdowns
+  const [now, setNow] = useState(Date.now());
+  const hasLiveItems = items.some(item => item.status === 'running' || item.status === 'retrying');
+
+  useEffect(() => {
+    if (!hasLiveItems) return;
+    const interval = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(interval);
+  }, [hasLiveItems]);
+
+  const renderStatus = (item: BatchItem) => {
+    let detail: string | null = null;
+    if (item.status === 'running' && item.startedAt) detail = formatElapsed(now - item.startedAt);
+    if (item.status === 'retrying' && item.nextRetryAt) detail = `in ${formatElapsed(item.nextRetryAt - now)}`;
+    if (item.status === 'success' && item.startedAt && item.finishedAt) detail = formatElapsed(item.finishedAt - item.startedAt);
+
+    return (
+      <div className="space-y-0.5">
+        <div className="flex items-center gap-1.5">
+          <Badge variant="outline" className={STATUS_CLASSES[item.status]}>
+            {item.status === 'running' && <Loader2 className="mr-1 h-3 w-3 animate-spin" />}
+            {STATUS_LABELS[item.status]}
+          </Badge>
+          {detail && <span className="text-xs tabular-nums text-gray-500">{detail}</span>}
+        </div>
+        {item.attempts > 1 && <div className="text-xs text-gray-500">Attempt {item.attempts}</div>}
+        {item.error && item.status !== 'success' && (
+          <div className="max-w-[220px] truncate text-xs text-red-600" title={item.error}>{item.error}</div>
+        )}
+      </div>
+    );
+  };
+
+  return (
+    <div className="overflow-x-auto rounded-md border bg-white">
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead>Symbol</TableHead>
+            <TableHead>Status</TableHead>
+            <TableHead>Signal</TableHead>
+            <TableHead className="text-right">Confidence</TableHead>
+            <TableHead className="text-right">Support</TableHead>
+            <TableHead className="text-right">Resistance</TableHead>
+            <TableHead className="text-right">Stop</TableHead>
+            <TableHead className="text-right">Target</TableHead>
+            <TableHead className="w-24 text-right">Actions</TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {items.map(item => {
+            const { result } = item;
+            const bias = result ? getSignalBias(result.signal) : 'neutral';
+            return (
+              <TableRow key={item.id}>
+                <TableCell className="font-semibold">{item.symbol}</TableCell>
+                <TableCell>{renderStatus(item)}</TableCell>
+                <TableCell>
+                  {result ? (
+                    <Badge variant="outline" className={BIAS_CLASSES[bias]}>{result.signal || 'n/a'}</Badge>
+                  ) : (
+                    <span className="text-gray-400">—</span>
+                  )}
+                </TableCell>
+                <TableCell className="text-right tabular-nums">
+                  {result?.confidence != null ? `${Math.round(result.confidence)}%` : '—'}
+                </TableCell>
+                <TableCell className="text-right tabular-nums text-emerald-700">{result ? formatLevels(result.supports) : '—'}</TableCell>
+                <TableCell className="text-right tabular-nums text-red-700">{result ? formatLevels(result.resistances) : '—'}</TableCell>
+                <TableCell className="text-right tabular-nums">{result?.stopLoss != null ? result.stopLoss.toFixed(2) : '—'}</TableCell>
+                <TableCell className="text-right tabular-nums">{result?.target != null ? result.target.toFixed(2) : '—'}</TableCell>
+                <TableCell className="text-right">
+                  <div className="flex justify-end gap-1">
+                    {result?.analysisId && (
+                      <Button variant="ghost" size="sm" className="h-7 w-7 p-0" title="Open analysis" onClick={() => onOpenAnalysis(result.analysisId)}>
+                        <ExternalLink className="h-4 w-4" />
+                      </Button>
+                    )}
+                    {(item.status === 'error' || item.status === 'cancelled') && (
+                      <Button variant="ghost" size="sm" className="h-7 w-7 p-0" title="Retry" onClick={() => onRetry(item.id)}>
+                        <RotateCcw className="h-4 w-4" />
+                      </Button>
+                    )}
+                  </div>
+                </TableCell>
+              </TableRow>
+            );
+          })}
+        </TableBody>
+      </Table>
+    </div>
+  );
+};
+
+export default BatchResultsTable;
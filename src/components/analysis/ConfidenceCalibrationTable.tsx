@@ -0,0 +1,75 @@
+import React from 'react';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { CalibrationBucket } from '@/types/signalOutcomes';
+import { formatOutcomePct } from '@/utils/signalOutcomes';
+
+interface ConfidenceCalibrationTableProps {
+  buckets: CalibrationBucket[];
+}
+
+// Gap between realised hit rate and stated confidence beyond which a bucket is called out
+const CALIBRATION_TOLERANCE = 10;
+
+const describeGap = (bucket: CalibrationBucket): { text: string; className: string } | null => {
+  if (bucket.hitRate === null || bucket.avgConfidence === null) return null;
+  const gap = bucket.hitRate - bucket.avgConfidence;
+  if (Math.abs(gap) <= CALIBRATION_TOLERANCE) return { text: 'Calibrated', className: 'text-emerald-700' };
+  return gap < 0
+    ? { text: `Overconfident by ${Math.round(-gap)} pts`, className: 'text-red-700' }
+    : { text: `Underconfident by ${Math.round(gap)} pts`, className: 'text-amber-700' };
+};
+
+export const ConfidenceCalibrationTable: React.FC<ConfidenceCalibrationTableProps> = ({ buckets }) => {
+  const populated = buckets.filter(bucket => bucket.count > 0);
+  if (populated.length === 0) {
+    return <p className="py-6 text-center text-sm text-gray-500">No directional signals with a confidence score yet.</p>;
+  }
+
+  return (
+    <div className="overflow-x-auto rounded-md border bg-white">
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead>Stated confidence</TableHead>
+            <TableHead className="text-right">Analyses</TableHead>
+            <TableHead className="min-w-[220px]">Stated vs realised</TableHead>
+            <TableHead className="text-right">20-bar win rate</TableHead>
+            <TableHead>Verdict</TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {populated.map(bucket => {
+            const gap = describeGap(bucket);
+            return (
+              <TableRow key={bucket.label}>
+                <TableCell className="font-medium text-gray-900">{bucket.label}</TableCell>
+                <TableCell className="text-right tabular-nums">{bucket.count}</TableCell>
+                <TableCell>
+                  {/* Two bars on the same scale: stated confidence above, realised target-first rate below */}
+                  <div className="space-y-1 text-xs tabular-nums">
+                    <div className="flex items-center gap-2">
+                      <div className="h-1.5 flex-1 rounded bg-slate-100">
+                        <div className="h-1.5 rounded bg-blue-400" style={{ width: `${Math.min(100, bucket.avgConfidence ?? 0)}%` }} />
+                      </div>
+                      <span className="w-10 text-right text-gray-600">{formatOutcomePct(bucket.avgConfidence, false)}</span>
+                    </div>
+                    <div className="flex items-center gap-2">
+                      <div className="h-1.5 flex-1 rounded bg-slate-100">
+                        <div className="h-1.5 rounded bg-emerald-500" style={{ width: `${Math.min(100, bucket.hitRate ?? 0)}%` }} />
+                      </div>
+                      <span className="w-10 text-right font-medium">{formatOutcomePct(bucket.hitRate, false)}</span>
+                    </div>
+                  </div>
+                </TableCell>
+                <TableCell className="text-right tabular-nums">{formatOutcomePct(bucket.winRate, false)}</TableCell>
+                <TableCell className={`text-sm ${gap?.className ?? 'text-gray-400'}`}>{gap?.text ?? 'Not enough outcomes'}</TableCell>
+              </TableRow>
+            );
+          })}
+        </TableBody>
+      </Table>
+    </div>
+  );
+};
+
+export default ConfidenceCalibrationTable;
@@ -0,0 +1,69 @@
+import React from 'react';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Progress } from '@/components/ui/progress';
+import { OutcomeGroupSummary } from '@/types/signalOutcomes';
+import { OUTCOME_HORIZONS, formatOutcomePct, outcomePctClass } from '@/utils/signalOutcomes';
+
+interface OutcomeRollupTableProps {
+  groups: OutcomeGroupSummary[];
+  groupLabel: string;
+}
+
+// Hit rate and average path of the directional outcomes in each signal / sector / timeframe group
+export const OutcomeRollupTable: React.FC<OutcomeRollupTableProps> = ({ groups, groupLabel }) => {
+  if (groups.length === 0) {
+    return <p className="py-6 text-center text-sm text-gray-500">No scored analyses yet.</p>;
+  }
+
+  return (
+    <div className="overflow-x-auto rounded-md border bg-white">
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead>{groupLabel}</TableHead>
+            <TableHead className="text-right">Analyses</TableHead>
+            <TableHead className="min-w-[160px]">Target first</TableHead>
+            {OUTCOME_HORIZONS.map(horizon => (
+              <TableHead key={horizon} className="text-right">{horizon} bar{horizon > 1 ? 's' : ''}</TableHead>
+            ))}
+            <TableHead className="text-right">Avg MFE</TableHead>
+            <TableHead className="text-right">Avg MAE</TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {groups.map(group => (
+            <TableRow key={group.key}>
+              <TableCell className="font-medium text-gray-900">{group.key}</TableCell>
+              <TableCell className="text-right tabular-nums">
+                {group.total}
+                {group.neutral > 0 && <span className="block text-xs text-gray-400">{group.neutral} neutral</span>}
+              </TableCell>
+              <TableCell>
+                {group.hitRate === null ? (
+                  <span className="text-xs text-gray-400">No target or stop reached</span>
+                ) : (
+                  <div className="space-y-1">
+                    <div className="flex justify-between text-xs tabular-nums">
+                      <span className="font-medium">{formatOutcomePct(group.hitRate, false)}</span>
+                      <span className="text-gray-500">{group.targetHits} / {group.decided}</span>
+                    </div>
+                    <Progress value={group.hitRate} className="h-1.5" />
+                  </div>
+                )}
+              </TableCell>
+              {OUTCOME_HORIZONS.map(horizon => (
+                <TableCell key={horizon} className={`text-right tabular-nums ${outcomePctClass(group.avgReturns[horizon])}`}>
+                  {formatOutcomePct(group.avgReturns[horizon])}
+                </TableCell>
+              ))}
+              <TableCell className="text-right tabular-nums text-emerald-700">{formatOutcomePct(group.avgMfePct)}</TableCell>
+              <TableCell className="text-right tabular-nums text-red-700">{formatOutcomePct(group.avgMaePct)}</TableCell>
+            </TableRow>
+          ))}
+        </TableBody>
+      </Table>
+    </div>
+  );
+};
+
+export default OutcomeRollupTable;
@@ -0,0 +1,220 @@
+import React, { useMemo } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { AlertTriangle, PieChart } from 'lucide-react';
+import { PortfolioContext } from '@/types/portfolio';
+import { PAPER_HORIZON_LABELS, getPaperPlanQuantity, getPaperTradePlan } from '@/utils/paperTrading';
+import { UNKNOWN_SECTOR, getConcentrationImpact } from '@/utils/portfolioHoldings';
+import { getAnalysisPayload } from '@/utils/analysisOverlays';
+
+interface PortfolioImpactCardProps {
+  context: PortfolioContext;
+  analysisData: unknown;
+}
+
+// Above these the card flags the book as concentrated
+const MAX_POSITION_WEIGHT = 10;
+const MAX_SECTOR_WEIGHT = 25;
+const MAX_LISTED_SECTORS = 6;
+const MAX_LISTED_CORRELATIONS = 5;
+
+const formatPct = (value: number | null, digits = 1): string => (value === null ? '—' : `${value.toFixed(digits)}%`);
+
+const formatRupees = (value: number): string =>
+  `${value < 0 ? '-' : ''}₹${Math.abs(value).toLocaleString('en-IN', { maximumFractionDigits: 0 })}`;
+
+const correlationClass = (value: number | null): string =>
+  value === null ? 'text-gray-400' : value >= 0.7 ? 'text-red-700' : value >= 0.4 ? 'text-amber-700' : 'text-emerald-700';
+
+// The analysed stock against the holdings sent with the request: what the recommended position
+// (sized by the analysis' own position sizing on the book) does to concentration and volatility.
+const PortfolioImpactCard: React.FC<PortfolioImpactCardProps> = ({ context, analysisData }) => {
+  const { candidate } = context;
+
+  const proposal = useMemo(() => {
+    const plan = getPaperTradePlan(analysisData, 'short_term') ?? getPaperTradePlan(analysisData, 'medium_term');
+    if (!plan) return null;
+    const payload = getAnalysisPayload(analysisData);
+    const held = context.holdings.find(holding => holding.symbol === candidate.symbol);
+    const price = plan.entryRange
+      ? (plan.entryRange[0] + plan.entryRange[1]) / 2
+      : payload?.stock_data?.current_price ?? held?.price ?? null;
+    if (!price) return null;
+    // Sized on the free part of the book, like a new order would be
+    const grossValue = context.holdings.reduce((sum, holding) => sum + Math.abs(holding.value), 0);
+    const quantity = getPaperPlanQuantity(plan, price, context.book_value, Math.max(0, context.book_value - grossValue));
+    return quantity > 0 ? { plan, price, quantity } : null;
+  }, [analysisData, context, candidate.symbol]);
+
+  const impact = useMemo(
+    () => (proposal ? getConcentrationImpact(context, { side: proposal.plan.side, quantity: proposal.quantity, price: proposal.price }) : null),
+    [context, proposal]
+  );
+
+  const candidateSector = candidate.sector || UNKNOWN_SECTOR;
+  const correlated = context.holdings
+    .filter(holding => holding.symbol !== candidate.symbol && holding.correlation !== null)
+    .sort((a, b) => (b.correlation as number) - (a.correlation as number))
+    .slice(0, MAX_LISTED_CORRELATIONS);
+  const warnings = impact
+    ? [
+        impact.after.positionWeight > MAX_POSITION_WEIGHT &&
+          `${candidate.symbol} would be ${formatPct(impact.after.positionWeight)} of the book (above ${MAX_POSITION_WEIGHT}%).`,
+        impact.after.sectorWeight > MAX_SECTOR_WEIGHT &&
+          `${candidateSector} would be ${formatPct(impact.after.sectorWeight)} of the book (above ${MAX_SECTOR_WEIGHT}%).`,
+        (candidate.average_correlation ?? 0) >= 0.7 &&
+          `${candidate.symbol} moves closely with what you already hold (average correlation ${candidate.average_correlation?.toFixed(2)}).`
+      ].filter((warning): warning is string => Boolean(warning))
+    : [];
+
+  const rows = impact
+    ? [
+        { label: `${candidate.symbol} weight`, before: formatPct(impact.before.positionWeight), after: formatPct(impact.after.positionWeight) },
+        { label: `${candidateSector} sector weight`, before: formatPct(impact.before.sectorWeight), after: formatPct(impact.after.sectorWeight) },
+        {
+          label: 'Largest position',
+          before: impact.before.largestSymbol ? `${impact.before.largestSymbol} ${formatPct(impact.before.largestWeight)}` : '—',
+          after: impact.after.largestSymbol ? `${impact.after.largestSymbol} ${formatPct(impact.after.largestWeight)}` : '—'
+        },
+        {
+          label: 'Effective positions',
+          before: impact.before.effectivePositions?.toFixed(1) ?? '—',
+          after: impact.after.effectivePositions?.toFixed(1) ?? '—'
+        },
+        { label: 'Book volatility (annualised)', before: formatPct(impact.before.volatility), after: formatPct(impact.after.volatility) },
+        { label: 'Gross exposure', before: formatPct(impact.before.grossExposure), after: formatPct(impact.after.grossExposure) }
+      ]
+    : [];
+
+  const sectors = impact
+    ? impact.sectorAfter.slice(0, MAX_LISTED_SECTORS).map(after => ({
+        sector: after.sector,
+        before: impact.sectorBefore.find(before => before.sector === after.sector)?.weight ?? 0,
+        after: after.weight
+      }))
+    : context.sector_exposure.slice(0, MAX_LISTED_SECTORS).map(exposure => ({
+        sector: exposure.sector,
+        before: exposure.weight,
+        after: exposure.weight
+      }));
+  const maxSectorWeight = Math.max(1, ...sectors.map(sector => Math.max(Math.abs(sector.before), Math.abs(sector.after))));
+
+  return (
+    <Card className="shadow-xl border-0 bg-white/90 backdrop-blur-sm">
+      <CardHeader>
+        <CardTitle className="flex items-center text-slate-800">
+          <PieChart className="h-5 w-5 mr-2 text-indigo-500" />
+          Portfolio Impact
+        </CardTitle>
+        <CardDescription>
+          {context.holdings.length} holdings as of {new Date(context.as_of).toLocaleDateString('en-IN')} · book of {formatRupees(context.book_value)}
+          {proposal && ` · ${PAPER_HORIZON_LABELS[proposal.plan.horizon].toLowerCase()} recommendation sized at ${proposal.plan.riskPct}% risk`}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {proposal && impact ? (
+          <div className="flex flex-wrap items-center gap-2 text-sm text-slate-700">
+            <Badge variant="outline" className={proposal.plan.side === 'long' ? 'bg-emerald-100 text-emerald-800 border-emerald-200' : 'bg-red-100 text-red-800 border-red-200'}>
+              {proposal.plan.side === 'long' ? 'Buy' : 'Sell short'}
+            </Badge>
+            <span>
+              {proposal.quantity} {candidate.symbol} at about ₹{proposal.price.toFixed(2)} = {formatRupees(Math.abs(impact.proposedValue))}
+              {' '}({formatPct(Math.abs(impact.proposedWeight))} of the book)
+            </span>
+          </div>
+        ) : (
+          <p className="text-sm text-slate-500">
+            The analysis has no sized entry to add, so only the current exposure is shown.
+          </p>
+        )}
+
+        {warnings.length > 0 && (
+          <div className="space-y-1 rounded-md border border-amber-200 bg-amber-50 p-3 text-sm text-amber-800">
+            {warnings.map(warning => (
+              <div key={warning} className="flex items-start gap-2">
+                <AlertTriangle className="h-4 w-4 mt-0.5 shrink-0" /> {warning}
+              </div>
+            ))}
+          </div>
+        )}
+
+        <div className="grid grid-cols-1 gap-6 lg:grid-cols-2">
+          {impact && (
+            <div className="overflow-x-auto rounded-md border bg-white">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Book</TableHead>
+                    <TableHead className="text-right">Now</TableHead>
+                    <TableHead className="text-right">With position</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {rows.map(row => (
+                    <TableRow key={row.label}>
+                      <TableCell className="text-sm">{row.label}</TableCell>
+                      <TableCell className="text-right tabular-nums">{row.before}</TableCell>
+                      <TableCell className="text-right tabular-nums font-medium">{row.after}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          )}
+
+          <div className="space-y-2">
+            <h3 className="text-sm font-semibold text-slate-700">Sector exposure{impact && ' (now → with position)'}</h3>
+            {sectors.map(sector => (
+              <div key={sector.sector} className="space-y-1">
+                <div className="flex justify-between text-xs">
+                  <span className={sector.sector === candidateSector ? 'font-semibold text-indigo-700' : 'text-slate-600'}>{sector.sector}</span>
+                  <span className="tabular-nums text-slate-600">
+                    {impact && sector.before !== sector.after ? `${formatPct(sector.before)} → ${formatPct(sector.after)}` : formatPct(sector.after)}
+                  </span>
+                </div>
+                <div className="relative h-2 rounded bg-slate-100">
+                  <div className="absolute inset-y-0 left-0 rounded bg-slate-300" style={{ width: `${(Math.abs(sector.before) / maxSectorWeight) * 100}%` }} />
+                  {impact && sector.after !== sector.before && (
+                    <div
+                      className="absolute inset-y-0 left-0 rounded bg-indigo-500/70"
+                      style={{ width: `${(Math.abs(sector.after) / maxSectorWeight) * 100}%` }}
+                    />
+                  )}
+                </div>
+              </div>
+            ))}
+            {sectors.length === 0 && <p className="text-sm text-slate-500">No holdings with a known value.</p>}
+          </div>
+        </div>
+
+        <div className="space-y-2">
+          <h3 className="text-sm font-semibold text-slate-700">
+            Correlation with your holdings
+            <span className="ml-2 font-normal text-slate-500">
+              value-weighted average{' '}
+              <span className={correlationClass(candidate.average_correlation)}>
+                {candidate.average_correlation?.toFixed(2) ?? '—'}
+              </span>
+              {' '}over {context.lookback_days} sessions
+            </span>
+          </h3>
+          {correlated.length > 0 ? (
+            <div className="flex flex-wrap gap-2">
+              {correlated.map(holding => (
+                <Badge key={holding.symbol} variant="outline" className="gap-1">
+                  {holding.symbol}
+                  <span className={correlationClass(holding.correlation)}>{holding.correlation?.toFixed(2)}</span>
+                </Badge>
+              ))}
+            </div>
+          ) : (
+            <p className="text-sm text-slate-500">Not enough shared price history to correlate.</p>
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default PortfolioImpactCard;
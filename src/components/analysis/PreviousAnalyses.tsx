@@ -1,42 +1,112 @@
-import React, { useEffect, useState } from 'react';
+import React, { useEffect, useMemo, useState } from 'react';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
-import { TrendingUp, TrendingDown, Minus, Clock, History, Loader2, Activity } from 'lucide-react';
-import { StoredAnalysis } from '@/hooks/useStockAnalyses';
+import { TrendingUp, TrendingDown, Minus, Clock, History, Loader2, Activity, RotateCcw, X, GitCompare, Search, RefreshCw, WifiOff } from 'lucide-react';
+import { StoredAnalysis, toStoredAnalysis } from '@/hooks/useStockAnalyses';
 import { format } from "date-fns";
+import { Link } from 'react-router-dom';
 import { Button } from '@/components/ui/button';
+import { AnalysisJob, AnalysisJobStatus } from '@/types/analysisJobs';
+import { StoredAnalysisMode } from '@/types/analysis';
+import { ANALYSIS_MODE_LABELS, DEFAULT_ANALYSIS_MODE, isStoredAnalysisMode } from '@/utils/analysisModes';
+import { AnalysisMirrorState, AnalysisSearchQuery, MirroredAnalysis } from '@/types/analysisMirror';
+import { EMPTY_SEARCH_QUERY, getAnalysisFacets, isSearchActive, searchAnalyses } from '@/utils/analysisSearch';
+import AnalysisSearchBar from './AnalysisSearchBar';
 
-export interface RunningAnalysisItem {
-  id: string;
-  stock: string;
-  exchange: string;
-  period: number;
-  interval: string;
-  sector: string | null;
-  startedAt: number; // epoch ms
-  status?: 'running' | 'success' | 'error';
-  error?: string;
-}
+// Completed jobs overlap the stored list below, so they only stay pinned briefly
+const COMPLETED_JOB_VISIBLE_MS = 30 * 60 * 1000;
+
+const JOB_BADGES: Record<AnalysisJobStatus, { label: string; className: string }> = {
+  queued: { label: 'Queued', className: 'bg-slate-100 text-slate-700 border-slate-200' },
+  running: { label: 'Running', className: 'bg-blue-100 text-blue-700 border-blue-200' },
+  failed: { label: 'Failed', className: 'bg-red-100 text-red-700 border-red-200' },
+  completed: { label: 'Completed', className: 'bg-green-100 text-green-700 border-green-200' }
+};
+
+const JOB_ROW_CLASSES: Record<AnalysisJobStatus, string> = {
+  queued: 'bg-slate-50 hover:bg-slate-100',
+  running: 'bg-amber-50/80 hover:bg-amber-100',
+  failed: 'bg-red-50/80 hover:bg-red-100',
+  completed: 'bg-green-50/80 hover:bg-green-100'
+};
+
+type ModeFilter = 'all' | StoredAnalysisMode;
+
+const MODE_FILTERS: ModeFilter[] = ['all', 'standard', 'enhanced', 'enhanced_mtf', 'indicator_snapshot'];
+
+const getStoredMode = (analysis: StoredAnalysis): StoredAnalysisMode =>
+  isStoredAnalysisMode(analysis.analysis_type) ? analysis.analysis_type : DEFAULT_ANALYSIS_MODE;
+
+const formatElapsed = (ms: number) => {
+  const elapsedSec = Math.max(0, Math.floor(ms / 1000));
+  return `${String(Math.floor(elapsedSec / 60)).padStart(2, '0')}:${String(elapsedSec % 60).padStart(2, '0')}`;
+};
 
 interface PreviousAnalysesProps {
   analyses: StoredAnalysis[];
   onAnalysisSelect?: (analysis: StoredAnalysis) => void;
   loading?: boolean;
   error?: string | null;
-  runningAnalyses?: RunningAnalysisItem[];
+  jobs?: AnalysisJob[];
+  onRetryJob?: (job: AnalysisJob) => void;
+  onDismissJob?: (job: AnalysisJob) => void;
+  onOpenJob?: (job: AnalysisJob) => void;
   loadMoreAnalyses?: () => void; // New prop for loading more analyses
   hasMore?: boolean; // New prop to indicate if more analyses are available
+  // Local mirror of every stored analysis; search runs over it so it works offline
+  mirroredAnalyses?: MirroredAnalysis[];
+  mirrorState?: AnalysisMirrorState | null;
+  isMirrorSyncing?: boolean;
+  isServedFromMirror?: boolean;
+  onSyncMirror?: () => void;
 }
 
-const PreviousAnalyses = ({ analyses, onAnalysisSelect, loading = false, error = null, runningAnalyses = [], loadMoreAnalyses, hasMore = false }: PreviousAnalysesProps) => {
+const PreviousAnalyses = ({
+  analyses,
+  onAnalysisSelect,
+  loading = false,
+  error = null,
+  jobs = [],
+  onRetryJob,
+  onDismissJob,
+  onOpenJob,
+  loadMoreAnalyses,
+  hasMore = false,
+  mirroredAnalyses = [],
+  mirrorState = null,
+  isMirrorSyncing = false,
+  isServedFromMirror = false,
+  onSyncMirror
+}: PreviousAnalysesProps) => {
   // local clock to tick running timers
   const [now, setNow] = useState<number>(Date.now());
+  const [modeFilter, setModeFilter] = useState<ModeFilter>('all');
+  const [showSearch, setShowSearch] = useState(false);
+  const [searchQuery, setSearchQuery] = useState<AnalysisSearchQuery>(EMPTY_SEARCH_QUERY);
+  const hasActiveJobs = jobs.some(job => job.status === 'queued' || job.status === 'running');
 
   useEffect(() => {
-    if (!runningAnalyses || runningAnalyses.length === 0) return;
+    if (!hasActiveJobs) return;
     const interval = setInterval(() => setNow(Date.now()), 1000);
     return () => clearInterval(interval);
-  }, [runningAnalyses?.length]);
+  }, [hasActiveJobs]);
+
+  const visibleJobs = jobs.filter(job => job.status !== 'completed' || !job.finishedAt || now - job.finishedAt < COMPLETED_JOB_VISIBLE_MS);
+  // An active search replaces the paginated list with matches from the whole mirror
+  const isSearching = showSearch && isSearchActive(searchQuery);
+  const facets = useMemo(() => getAnalysisFacets(mirroredAnalyses, searchQuery.text), [mirroredAnalyses, searchQuery.text]);
+  const searchResults = useMemo(
+    () => (isSearching ? searchAnalyses(mirroredAnalyses, searchQuery).map(toStoredAnalysis) : []),
+    [isSearching, mirroredAnalyses, searchQuery]
+  );
+  const listedAnalyses = isSearching ? searchResults : analyses;
+  // Filters the loaded page of history; Load More keeps the filter
+  const visibleAnalyses = modeFilter === 'all' ? listedAnalyses : listedAnalyses.filter(analysis => getStoredMode(analysis) === modeFilter);
+  const modeCounts = listedAnalyses.reduce<Record<string, number>>((counts, analysis) => {
+    const mode = getStoredMode(analysis);
+    counts[mode] = (counts[mode] || 0) + 1;
+    return counts;
+  }, {});
 
   return (
     <Card className="shadow-lg border-0 bg-white/90 backdrop-blur-sm grid grid-rows-[auto,1fr] h-[400px] sm:h-[500px] md:h-[600px] xl:h-[800px] overflow-hidden">
@@ -44,10 +114,80 @@ const PreviousAnalyses = ({ analyses, onAnalysisSelect, loading = false, error =
         <CardTitle className="flex items-center text-slate-800">
           <History className="h-5 w-5 mr-2 text-blue-500" />
           Previous Analyses
+          <div className="ml-auto flex items-center gap-3">
+            {analyses.length > 1 && (
+              <Link to="/compare" className="flex items-center text-xs font-medium text-blue-600 hover:text-blue-700">
+                <GitCompare className="h-3.5 w-3.5 mr-1" /> Compare
+              </Link>
+            )}
+            {mirroredAnalyses.length > 0 && (
+              <Button
+                type="button"
+                size="sm"
+                variant={showSearch ? 'default' : 'outline'}
+                className="h-7 px-2 text-xs"
+                onClick={() => setShowSearch(prev => !prev)}
+              >
+                <Search className="h-3.5 w-3.5 mr-1" /> Search
+              </Button>
+            )}
+          </div>
         </CardTitle>
         <CardDescription>
           View your past stock analysis reports
         </CardDescription>
+        {(isServedFromMirror || mirrorState) && (
+          <div className="flex items-center gap-2 text-xs text-slate-500">
+            {isServedFromMirror ? (
+              <span className="flex items-center text-amber-600">
+                <WifiOff className="h-3.5 w-3.5 mr-1" /> Offline - showing analyses saved on this device
+              </span>
+            ) : (
+              <span>
+                {mirroredAnalyses.length} saved on this device
+                {mirrorState?.lastSyncedAt && ` · synced ${format(new Date(mirrorState.lastSyncedAt), 'p')}`}
+              </span>
+            )}
+            {onSyncMirror && (
+              <button
+                type="button"
+                onClick={onSyncMirror}
+                disabled={isMirrorSyncing}
+                className="text-slate-400 hover:text-slate-700 disabled:opacity-50"
+                title="Sync now"
+              >
+                <RefreshCw className={`h-3.5 w-3.5 ${isMirrorSyncing ? 'animate-spin' : ''}`} />
+              </button>
+            )}
+          </div>
+        )}
+        {showSearch && (
+          <>
+            <AnalysisSearchBar query={searchQuery} facets={facets} onChange={setSearchQuery} />
+            {isSearching && (
+              <p className="text-xs text-slate-500">
+                {searchResults.length} of {mirroredAnalyses.length} saved analyses match
+              </p>
+            )}
+          </>
+        )}
+        {listedAnalyses.length > 0 && (
+          <div className="flex flex-wrap gap-1.5 pt-2">
+            {/* Only users who pin snapshots get their filter */}
+            {MODE_FILTERS.filter(filter => filter !== 'indicator_snapshot' || modeCounts[filter]).map(filter => (
+              <Button
+                key={filter}
+                type="button"
+                size="sm"
+                variant={modeFilter === filter ? 'default' : 'outline'}
+                className="h-7 px-2 text-xs"
+                onClick={() => setModeFilter(filter)}
+              >
+                {filter === 'all' ? `All (${listedAnalyses.length})` : `${ANALYSIS_MODE_LABELS[filter]} (${modeCounts[filter] || 0})`}
+              </Button>
+            ))}
+          </div>
+        )}
       </CardHeader>
       <CardContent className="p-4 min-h-0 scrollbar-always-visible-light relative" style={{ overflowY: 'scroll', scrollbarWidth: 'thin', position: 'relative' }}>
         {loading ? (
@@ -61,7 +201,12 @@ const PreviousAnalyses = ({ analyses, onAnalysisSelect, loading = false, error =
             <p className="text-red-600 mb-2">Error loading analyses</p>
             <p className="text-sm text-slate-500 break-words">{error}</p>
           </div>
-        ) : analyses.length === 0 && (runningAnalyses?.length ?? 0) === 0 ? (
+        ) : isSearching && searchResults.length === 0 ? (
+          <div className="text-center py-8">
+            <Search className="h-12 w-12 text-slate-300 mx-auto mb-4" />
+            <p className="text-slate-500">No saved analyses match this search</p>
+          </div>
+        ) : analyses.length === 0 && visibleJobs.length === 0 ? (
           <div className="text-center py-8">
             <TrendingUp className="h-12 w-12 text-slate-300 mx-auto mb-4" />
             <p className="text-slate-500">No previous analyses found</p>
@@ -69,27 +214,73 @@ const PreviousAnalyses = ({ analyses, onAnalysisSelect, loading = false, error =
           </div>
         ) : (
           <div className="space-y-3">
-            {/* Running analyses at the top */}
-            {runningAnalyses && runningAnalyses.length > 0 && (
+            {/* Tracked jobs at the top */}
+            {visibleJobs.length > 0 && (
               <div className="space-y-2">
-                {runningAnalyses.map((run) => {
-                  const elapsedSec = Math.max(0, Math.floor((now - run.startedAt) / 1000));
+                {visibleJobs.map((job) => {
+                  const badge = JOB_BADGES[job.status];
+                  const elapsed =
+                    job.status === 'queued' ? `Waiting ${formatElapsed(now - job.submittedAt)}` :
+                    job.status === 'running' ? `Elapsed ${formatElapsed(now - (job.startedAt ?? job.submittedAt))}` :
+                    job.startedAt && job.finishedAt ? `Took ${formatElapsed(job.finishedAt - job.startedAt)}` :
+                    null;
                   return (
-                    <div key={run.id} className="rounded-lg p-3 bg-amber-50/80 hover:bg-amber-100 transition-colors">
+                    <div key={job.id} className={`rounded-lg p-3 transition-colors ${JOB_ROW_CLASSES[job.status]}`}>
                       <div className="flex items-start justify-between gap-2">
                         <div className="min-w-0">
                           <div className="flex items-center space-x-2 mb-1">
-                            <h3 className="font-semibold text-slate-800 truncate">{run.stock}</h3>
-                            <Badge variant="outline" className="text-xs flex-shrink-0 bg-blue-100 text-blue-700 border-blue-200 flex items-center">
-                              <Loader2 className="h-3 w-3 mr-1 animate-spin" /> Running
+                            <h3 className="font-semibold text-slate-800 truncate">{job.stock}</h3>
+                            <Badge variant="outline" className={`text-xs flex-shrink-0 flex items-center ${badge.className}`}>
+                              {job.status === 'running' && <Loader2 className="h-3 w-3 mr-1 animate-spin" />}
+                              {badge.label}
                             </Badge>
                           </div>
-                          <div className="flex items-center text-xs text-slate-600">
-                            <Clock className="h-3 w-3 mr-1 flex-shrink-0" />
-                            <span className="truncate">
-                              Elapsed {String(Math.floor(elapsedSec / 60)).padStart(2, '0')}:{String(elapsedSec % 60).padStart(2, '0')}
-                            </span>
+                          <div className="flex flex-wrap items-center gap-3 text-xs text-slate-600">
+                            {elapsed && (
+                              <div className="flex items-center">
+                                <Clock className="h-3 w-3 mr-1 flex-shrink-0" />
+                                <span className="truncate">{elapsed}</span>
+                              </div>
+                            )}
+                            {job.interval && (
+                              <div className="flex items-center">
+                                <Activity className="h-3 w-3 mr-1 flex-shrink-0" />
+                                <span className="truncate">{job.period ? `${job.period} days · ` : ''}{job.interval}</span>
+                              </div>
+                            )}
+                            <span>{ANALYSIS_MODE_LABELS[job.request?.analysis_mode ?? DEFAULT_ANALYSIS_MODE]}</span>
+                            {job.attempts > 1 && <span>Attempt {job.attempts}</span>}
                           </div>
+                          {job.status === 'failed' && job.error && (
+                            <p className="mt-1 text-xs text-red-600 break-words">{job.error}</p>
+                          )}
+                        </div>
+                        <div className="flex flex-shrink-0 items-center gap-1">
+                          {job.status === 'completed' && job.analysisId && onOpenJob && (
+                            <button
+                              onClick={() => onOpenJob(job)}
+                              className="px-2 py-1 bg-blue-500 text-white text-xs rounded-md hover:bg-blue-600 transition-colors whitespace-nowrap"
+                            >
+                              View
+                            </button>
+                          )}
+                          {job.status === 'failed' && job.request && onRetryJob && (
+                            <button
+                              onClick={() => onRetryJob(job)}
+                              className="px-2 py-1 bg-blue-500 text-white text-xs rounded-md hover:bg-blue-600 transition-colors flex items-center whitespace-nowrap"
+                            >
+                              <RotateCcw className="h-3 w-3 mr-1" /> Retry
+                            </button>
+                          )}
+                          {(job.status === 'failed' || job.status === 'completed') && onDismissJob && (
+                            <button
+                              onClick={() => onDismissJob(job)}
+                              className="p-1 text-slate-400 hover:text-slate-700 transition-colors"
+                              title="Dismiss"
+                            >
+                              <X className="h-3.5 w-3.5" />
+                            </button>
+                          )}
                         </div>
                       </div>
                     </div>
@@ -98,7 +289,13 @@ const PreviousAnalyses = ({ analyses, onAnalysisSelect, loading = false, error =
               </div>
             )}
 
-            {analyses.map((analysis) => (
+            {modeFilter !== 'all' && visibleAnalyses.length === 0 && (
+              <p className="py-6 text-center text-sm text-slate-500">
+                No {ANALYSIS_MODE_LABELS[modeFilter].toLowerCase()} analyses loaded{hasMore ? ' yet - load more to search further back' : ''}.
+              </p>
+            )}
+
+            {visibleAnalyses.map((analysis) => (
               <div key={analysis.id} className="rounded-lg p-3 bg-slate-50 hover:bg-slate-100 transition-colors">
                 <div className="space-y-2">
                   {/* Header with stock symbol and signal */}
@@ -131,6 +328,9 @@ const PreviousAnalyses = ({ analyses, onAnalysisSelect, loading = false, error =
                             </Badge>
                           );
                         })()}
+                        <Badge variant="outline" className="text-xs flex-shrink-0 bg-white text-slate-600 border-slate-200">
+                          {ANALYSIS_MODE_LABELS[getStoredMode(analysis)]}
+                        </Badge>
                       </div>
                       <div className="flex flex-wrap items-center gap-3 text-xs text-slate-600">
                         <div className="flex items-center">
@@ -182,7 +382,7 @@ const PreviousAnalyses = ({ analyses, onAnalysisSelect, loading = false, error =
             ))}
           </div>
         )}
-        {hasMore && !loading && loadMoreAnalyses && (
+        {hasMore && !loading && !isSearching && loadMoreAnalyses && (
           <div className="flex justify-center mt-4">
             <Button
               onClick={loadMoreAnalyses}
@@ -0,0 +1,121 @@
+import React from 'react';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { ExternalLink, Loader2 } from 'lucide-react';
+import { CandleData } from '@/services/api';
+import { BatchItemStatus } from '@/types/batchAnalysis';
+import { ReplayPoint } from '@/types/analysisReplay';
+import { SignalBias, getSignalBias } from '@/utils/analysisSummary';
+import { formatOutcomePct, outcomePctClass } from '@/utils/signalOutcomes';
+
+interface ReplayPointsTableProps {
+  points: ReplayPoint[];
+  pointCandles: Map<string, CandleData>;
+  latestClose: number | null;
+  onOpenAnalysis: (analysisId: string) => void;
+}
+
+const STATUS_LABELS: Record<BatchItemStatus, string> = {
+  queued: 'Queued',
+  running: 'Running',
+  retrying: 'Retrying',
+  success: 'Done',
+  error: 'Failed',
+  cancelled: 'Cancelled'
+};
+
+const STATUS_CLASSES: Record<BatchItemStatus, string> = {
+  queued: 'bg-gray-100 text-gray-700 border-gray-200',
+  running: 'bg-blue-100 text-blue-800 border-blue-200',
+  retrying: 'bg-amber-100 text-amber-800 border-amber-200',
+  success: 'bg-emerald-100 text-emerald-800 border-emerald-200',
+  error: 'bg-red-100 text-red-800 border-red-200',
+  cancelled: 'bg-gray-100 text-gray-500 border-gray-200'
+};
+
+const BIAS_CLASSES: Record<SignalBias, string> = {
+  bullish: 'bg-emerald-100 text-emerald-800 border-emerald-200',
+  bearish: 'bg-red-100 text-red-800 border-red-200',
+  neutral: 'bg-gray-100 text-gray-700 border-gray-200'
+};
+
+const formatPrice = (value: number | null | undefined): string => (value == null ? '—' : value.toFixed(2));
+
+// One row per end date. "Until next" is the price move while the call was the latest one:
+// from its bar to the next replay date's bar (or the latest close for the last one).
+export const ReplayPointsTable: React.FC<ReplayPointsTableProps> = ({ points, pointCandles, latestClose, onOpenAnalysis }) => {
+  const getMove = (index: number): number | null => {
+    const start = pointCandles.get(points[index].id)?.close;
+    const next = index + 1 < points.length ? pointCandles.get(points[index + 1].id)?.close : latestClose;
+    return start && next ? ((next - start) / start) * 100 : null;
+  };
+
+  return (
+    <div className="overflow-x-auto rounded-md border bg-white">
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead>End date</TableHead>
+            <TableHead>Status</TableHead>
+            <TableHead className="text-right">Close</TableHead>
+            <TableHead>Signal</TableHead>
+            <TableHead className="text-right">Confidence</TableHead>
+            <TableHead className="text-right">Support</TableHead>
+            <TableHead className="text-right">Resistance</TableHead>
+            <TableHead className="text-right">Stop</TableHead>
+            <TableHead className="text-right">Target</TableHead>
+            <TableHead className="text-right">Until next</TableHead>
+            <TableHead className="w-12" />
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {points.map((point, index) => {
+            const { result } = point;
+            const bias = result ? getSignalBias(result.signal) : 'neutral';
+            const move = getMove(index);
+            return (
+              <TableRow key={point.id}>
+                <TableCell className="whitespace-nowrap font-medium">{point.endDate}</TableCell>
+                <TableCell>
+                  <Badge variant="outline" className={STATUS_CLASSES[point.status]}>
+                    {point.status === 'running' && <Loader2 className="mr-1 h-3 w-3 animate-spin" />}
+                    {STATUS_LABELS[point.status]}
+                  </Badge>
+                  {point.error && point.status !== 'success' && (
+                    <div className="max-w-[200px] truncate text-xs text-red-600" title={point.error}>{point.error}</div>
+                  )}
+                </TableCell>
+                <TableCell className="text-right tabular-nums">{formatPrice(pointCandles.get(point.id)?.close)}</TableCell>
+                <TableCell>
+                  {result ? (
+                    <Badge variant="outline" className={BIAS_CLASSES[bias]}>{result.signal || 'n/a'}</Badge>
+                  ) : (
+                    <span className="text-gray-400">—</span>
+                  )}
+                </TableCell>
+                <TableCell className="text-right tabular-nums">
+                  {result?.confidence != null ? `${Math.round(result.confidence)}%` : '—'}
+                </TableCell>
+                <TableCell className="text-right tabular-nums text-emerald-700">{formatPrice(result?.supports[0])}</TableCell>
+                <TableCell className="text-right tabular-nums text-red-700">{formatPrice(result?.resistances[0])}</TableCell>
+                <TableCell className="text-right tabular-nums">{formatPrice(result?.stopLoss)}</TableCell>
+                <TableCell className="text-right tabular-nums">{formatPrice(result?.target)}</TableCell>
+                <TableCell className={`text-right tabular-nums ${outcomePctClass(move)}`}>{formatOutcomePct(move)}</TableCell>
+                <TableCell className="text-right">
+                  {result?.analysisId && (
+                    <Button variant="ghost" size="sm" className="h-7 w-7 p-0" title="Open analysis" onClick={() => onOpenAnalysis(result.analysisId)}>
+                      <ExternalLink className="h-4 w-4" />
+                    </Button>
+                  )}
+                </TableCell>
+              </TableRow>
+            );
+          })}
+        </TableBody>
+      </Table>
+    </div>
+  );
+};
+
+export default ReplayPointsTable;
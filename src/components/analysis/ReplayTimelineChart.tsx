@@ -0,0 +1,156 @@
+import React, { useEffect, useRef } from 'react';
+import { createChart, LineType, SeriesMarker, UTCTimestamp } from 'lightweight-charts';
+import { CandleData } from '@/services/api';
+import { ReplayPoint } from '@/types/analysisReplay';
+import { getSignalBias } from '@/utils/analysisSummary';
+
+interface ReplayTimelineChartProps {
+  candles: CandleData[];
+  points: ReplayPoint[];
+  // Candle each point's analysis ended on, from getReplayPointCandles
+  pointCandles: Map<string, CandleData>;
+  height?: number;
+}
+
+interface LevelSeries {
+  key: 'stopLoss' | 'target' | 'support' | 'resistance';
+  title: string;
+  color: string;
+  lineStyle: number;
+}
+
+const LEVEL_SERIES: LevelSeries[] = [
+  { key: 'target', title: 'Target', color: '#10b981', lineStyle: 2 },
+  { key: 'resistance', title: 'Resistance', color: '#f97316', lineStyle: 1 },
+  { key: 'support', title: 'Support', color: '#3b82f6', lineStyle: 1 },
+  { key: 'stopLoss', title: 'Stop', color: '#ef4444', lineStyle: 2 }
+];
+
+const getLevel = (point: ReplayPoint, key: LevelSeries['key']): number | null => {
+  const result = point.result;
+  if (!result) return null;
+  if (key === 'support') return result.supports[0] ?? null;
+  if (key === 'resistance') return result.resistances[0] ?? null;
+  return result[key];
+};
+
+// Price since the first replay date, with each analysis' call marked on the bar it ended on and
+// its levels held as steps until the next one. Confidence sits in a band along the bottom.
+export const ReplayTimelineChart: React.FC<ReplayTimelineChartProps> = ({ candles, points, pointCandles, height = 420 }) => {
+  const chartContainerRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    if (!chartContainerRef.current || candles.length === 0) return;
+
+    const chart = createChart(chartContainerRef.current, {
+      width: chartContainerRef.current.clientWidth,
+      height,
+      layout: {
+        background: { color: '#ffffff' },
+        textColor: '#333333',
+      },
+      grid: {
+        vertLines: { color: '#f0f0f0' },
+        horzLines: { color: '#f0f0f0' },
+      },
+      crosshair: {
+        mode: 1,
+      },
+      rightPriceScale: {
+        borderColor: '#cccccc',
+        scaleMargins: { top: 0.05, bottom: 0.25 },
+      },
+      timeScale: {
+        borderColor: '#cccccc',
+        timeVisible: false,
+        secondsVisible: false,
+      },
+    });
+
+    const priceSeries = chart.addLineSeries({
+      color: '#334155',
+      lineWidth: 2,
+      title: 'Close',
+    });
+    priceSeries.setData(candles.map(candle => ({ time: candle.time as UTCTimestamp, value: candle.close })));
+
+    // One entry per bar; a later point on the same bar replaces an earlier one
+    const byTime = new Map<number, ReplayPoint>();
+    points.forEach(point => {
+      const candle = pointCandles.get(point.id);
+      if (point.status === 'success' && point.result && candle) byTime.set(candle.time, point);
+    });
+    const timeline = Array.from(byTime.entries()).sort((a, b) => a[0] - b[0]);
+
+    const markers: SeriesMarker<UTCTimestamp>[] = timeline.map(([time, point]) => {
+      const bias = getSignalBias(point.result?.signal);
+      const confidence = point.result?.confidence;
+      const text = `${point.result?.signal || '?'}${confidence !== null && confidence !== undefined ? ` ${Math.round(confidence)}%` : ''}`;
+      if (bias === 'bullish') return { time: time as UTCTimestamp, position: 'belowBar', color: '#10b981', shape: 'arrowUp', text };
+      if (bias === 'bearish') return { time: time as UTCTimestamp, position: 'aboveBar', color: '#ef4444', shape: 'arrowDown', text };
+      return { time: time as UTCTimestamp, position: 'inBar', color: '#6b7280', shape: 'circle', text };
+    });
+    priceSeries.setMarkers(markers);
+
+    LEVEL_SERIES.forEach(level => {
+      const data = timeline
+        .map(([time, point]) => ({ time: time as UTCTimestamp, value: getLevel(point, level.key) }))
+        .filter((entry): entry is { time: UTCTimestamp; value: number } => entry.value !== null);
+      if (data.length === 0) return;
+      const series = chart.addLineSeries({
+        color: level.color,
+        lineWidth: 1,
+        lineStyle: level.lineStyle,
+        lineType: LineType.WithSteps,
+        title: level.title,
+        lastValueVisible: false,
+        priceLineVisible: false,
+        crosshairMarkerVisible: false,
+      });
+      series.setData(data);
+    });
+
+    const confidenceSeries = chart.addHistogramSeries({
+      priceScaleId: 'confidence',
+      title: 'Confidence',
+      lastValueVisible: false,
+      priceLineVisible: false,
+      priceFormat: { type: 'custom', formatter: (value: number) => `${Math.round(value)}%` },
+    });
+    confidenceSeries.priceScale().applyOptions({ scaleMargins: { top: 0.8, bottom: 0 } });
+    confidenceSeries.setData(
+      timeline
+        .filter(([, point]) => point.result?.confidence !== null && point.result?.confidence !== undefined)
+        .map(([time, point]) => {
+          const bias = getSignalBias(point.result?.signal);
+          return {
+            time: time as UTCTimestamp,
+            value: point.result?.confidence as number,
+            color: bias === 'bullish' ? 'rgba(16, 185, 129, 0.5)' : bias === 'bearish' ? 'rgba(239, 68, 68, 0.5)' : 'rgba(107, 114, 128, 0.5)'
+          };
+        })
+    );
+
+    chart.timeScale().fitContent();
+
+    // Handle resize
+    const handleResize = () => {
+      if (chartContainerRef.current) {
+        chart.applyOptions({
+          width: chartContainerRef.current.clientWidth,
+        });
+      }
+    };
+
+    window.addEventListener('resize', handleResize);
+
+    return () => {
+      window.removeEventListener('resize', handleResize);
+      chart.remove();
+    };
+  }, [candles, points, pointCandles, height]);
+
+  return <div ref={chartContainerRef} className="w-full" style={{ height }} />;
+};
+
+export default ReplayTimelineChart;
@@ -3,42 +3,7 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/com
 import { Badge } from '@/components/ui/badge';
 import { Progress } from '@/components/ui/progress';
 import { TrendingUp, TrendingDown, Minus, AlertTriangle, CheckCircle } from 'lucide-react';
-
-interface SectorRotationData {
-  timeframe: string;
-  sector_performance: Record<string, {
-    total_return: number;
-    momentum: number;
-    relative_strength: number;
-    current_price: number;
-    start_price: number;
-  }>;
-  sector_rankings: Record<string, {
-    rank: number;
-    // OPTIMIZED: performance data removed to eliminate duplication
-    // Performance data is available in sector_performance[sector]
-  }>;
-  rotation_patterns: {
-    leading_sectors: Array<{
-      sector: string;
-      relative_strength: number;
-      momentum: number;
-    }>;
-    lagging_sectors: Array<{
-      sector: string;
-      relative_strength: number;
-      momentum: number;
-    }>;
-    rotation_strength: string;
-  };
-  recommendations: Array<{
-    type: string;
-    sector?: string;
-    reason?: string;
-    confidence: string;
-    message?: string;
-  }>;
-}
+import { SectorRotationData } from '@/types/analysis';
 
 interface SectorRotationCardProps {
   data: SectorRotationData;
@@ -177,7 +142,7 @@ const SectorRotationCard: React.FC<SectorRotationCardProps> = ({ data, currentSe
                     {sector.relative_strength.toFixed(1)}%
                   </span>
                   <Badge variant="outline" className="text-xs">
-                    #{data.rotation_patterns.leading_sectors.length + index + 1}
+                    #{data.sector_rankings[sector.sector]?.rank ?? data.rotation_patterns.leading_sectors.length + index + 1}
                   </Badge>
                 </div>
               </div>
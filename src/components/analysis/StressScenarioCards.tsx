@@ -0,0 +1,116 @@
+import React from 'react';
+import { Badge } from '@/components/ui/badge';
+import { ScenarioResult, StressScenario } from '@/types/analysis';
+
+interface StressScenarioGridProps {
+  scenarios: StressScenario[];
+  className?: string;
+}
+
+interface ScenarioResultGridProps {
+  results: ScenarioResult[];
+  className?: string;
+}
+
+const getRiskLevelColor = (level: string) => {
+  switch (level?.toLowerCase()) {
+    case 'high': return 'text-red-600';
+    case 'medium': return 'text-yellow-600';
+    case 'low': return 'text-green-600';
+    default: return 'text-gray-600';
+  }
+};
+
+// Number with thousands separators
+const formatNumberWithSeparators = (value: number) => {
+  if (typeof value !== 'number' || isNaN(value)) return 'N/A';
+  return new Intl.NumberFormat('en-IN').format(value);
+};
+
+// Normalize percent-like numbers whether provided as 0..1 or 0..100
+const formatPercentAuto = (value: number, decimals: number = 1) => {
+  if (typeof value !== 'number' || isNaN(value)) return 'N/A';
+  const scaled = Math.abs(value) > 1 ? value : value * 100;
+  return `${scaled.toFixed(decimals)}%`;
+};
+
+// Stress scenario cards shared by the single-stock risk card and the portfolio risk page
+export const StressScenarioGrid: React.FC<StressScenarioGridProps> = ({
+  scenarios,
+  className = 'grid grid-cols-1 md:grid-cols-5 gap-4'
+}) => (
+  <div className={className}>
+    {scenarios.map((scenario, index) => {
+      const name = (scenario.scenario_name || '').toLowerCase();
+      const isLiquidity = name.includes('liquidity stress');
+      const isVolumeCount = isLiquidity && (
+        name.includes('5th percentile volume') ||
+        name.includes('1st percentile volume') ||
+        name.includes('current volume') ||
+        name.includes('low volume')
+      );
+      const isEventCount = name.includes('2std events') || name.includes('3std events') || name.includes('events');
+      const isPercentLike = !isVolumeCount && !isEventCount;
+
+      const impactLabel = isVolumeCount || isEventCount ? 'Value' : 'Impact';
+      const impactDisplay = typeof scenario.impact === 'number'
+        ? (isPercentLike ? formatPercentAuto(scenario.impact, 2) : formatNumberWithSeparators(scenario.impact))
+        : 'N/A';
+
+      return (
+        <div key={index} className="p-3 bg-gray-50 rounded-lg border border-gray-200">
+          <h5 className="font-medium text-gray-800">{scenario.scenario_name || 'Unknown Scenario'}</h5>
+          <p className="text-sm text-gray-600">{scenario.description || 'No description available'}</p>
+          <div className="flex items-center gap-2 mt-2">
+            <Badge className={getRiskLevelColor(scenario.risk_level)}>
+              {scenario.risk_level?.toUpperCase() || 'UNKNOWN'}
+            </Badge>
+            <span className="text-sm text-gray-600">
+              {impactLabel}: {impactDisplay}
+            </span>
+            <span className="text-sm text-gray-600">
+              Probability: {typeof scenario.probability === 'number' ? formatPercentAuto(scenario.probability, 1) : 'N/A'}
+            </span>
+          </div>
+        </div>
+      );
+    })}
+  </div>
+);
+
+export const ScenarioResultGrid: React.FC<ScenarioResultGridProps> = ({
+  results,
+  className = 'grid grid-cols-1 md:grid-cols-4 gap-4'
+}) => (
+  <div className={className}>
+    {results.map((result, index) => (
+      <div key={index} className="p-4 bg-white rounded-lg border border-gray-200">
+        <div className="flex items-center justify-between mb-2">
+          <h5 className="font-medium text-gray-800">{result.scenario_name || 'Unknown Scenario'}</h5>
+          <Badge className={getRiskLevelColor(result.risk_level)}>
+            {result.risk_level?.toUpperCase() || 'UNKNOWN'}
+          </Badge>
+        </div>
+        <p className="text-sm text-gray-600 mb-3">
+          {typeof result.outcome === 'string' ? result.outcome :
+           typeof result.outcome === 'object' ? JSON.stringify(result.outcome) :
+           'No outcome available'}
+        </p>
+        <div className="grid grid-cols-2 gap-2 text-xs">
+          <div>
+            <span className="font-medium">Probability:</span>
+            <div className="text-gray-700">
+              {typeof result.probability === 'number' ? formatPercentAuto(result.probability, 1) : 'N/A'}
+            </div>
+          </div>
+          <div>
+            <span className="font-medium">Impact:</span>
+            <div className="text-gray-700">
+              {typeof result.impact === 'number' ? formatPercentAuto(result.impact, 2) : 'N/A'}
+            </div>
+          </div>
+        </div>
+      </div>
+    ))}
+  </div>
+);
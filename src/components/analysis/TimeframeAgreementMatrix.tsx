@@ -0,0 +1,98 @@
+import React, { useMemo } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Grid3x3 } from 'lucide-react';
+import { SignalBias } from '@/utils/analysisSummary';
+import { TimeframeAgreementCell, buildTimeframeAgreement, getTimeframeSignals } from '@/utils/timeframeAgreement';
+
+interface TimeframeAgreementMatrixProps {
+  // Any multi-timeframe payload the backend sends
+  analysis: unknown;
+  className?: string;
+}
+
+const BIAS_CLASSES: Record<SignalBias, string> = {
+  bullish: 'bg-emerald-100 text-emerald-800 border-emerald-200',
+  bearish: 'bg-red-100 text-red-800 border-red-200',
+  neutral: 'bg-gray-100 text-gray-700 border-gray-200'
+};
+
+const CELL_STYLES: Record<TimeframeAgreementCell, { className: string; symbol: string; title: string }> = {
+  agree: { className: 'bg-emerald-100 text-emerald-700', symbol: '✓', title: 'Same call' },
+  partial: { className: 'bg-amber-50 text-amber-700', symbol: '~', title: 'One side neutral' },
+  conflict: { className: 'bg-red-100 text-red-700', symbol: '✗', title: 'Opposite calls' }
+};
+
+const formatTimeframe = (timeframe: string) => timeframe.replace(/_/g, ' ');
+
+// Every timeframe's call against every other: a solid green block means the timeframes line up,
+// red cells show where a shorter timeframe is fighting the longer trend
+const TimeframeAgreementMatrix: React.FC<TimeframeAgreementMatrixProps> = ({ analysis, className = '' }) => {
+  const agreement = useMemo(() => buildTimeframeAgreement(getTimeframeSignals(analysis)), [analysis]);
+  const { signals, matrix, agreementPct, conflicts, dominantBias } = agreement;
+
+  if (signals.length < 2) return null;
+
+  return (
+    <Card className={`shadow-xl border-0 bg-white/90 backdrop-blur-sm ${className}`}>
+      <CardHeader>
+        <CardTitle className="flex items-center text-slate-800 text-lg">
+          <Grid3x3 className="h-5 w-5 mr-2 text-blue-500" />
+          Timeframe Agreement
+        </CardTitle>
+        <CardDescription>
+          {agreementPct !== null && `${Math.round(agreementPct)}% of timeframe pairs agree`}
+          {conflicts > 0 && ` · ${conflicts} opposing pair${conflicts === 1 ? '' : 's'}`}
+          {dominantBias ? ` · mostly ${dominantBias}` : ' · no dominant call'}
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <div className="overflow-x-auto">
+          <table className="text-sm">
+            <thead>
+              <tr>
+                <th />
+                {signals.map(signal => (
+                  <th key={signal.timeframe} className="px-2 py-1 text-center text-xs font-medium capitalize text-slate-600">
+                    {formatTimeframe(signal.timeframe)}
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {signals.map((row, rowIndex) => (
+                <tr key={row.timeframe}>
+                  <th className="whitespace-nowrap py-1 pr-3 text-left text-xs font-medium">
+                    <div className="flex items-center gap-2">
+                      <span className="capitalize text-slate-700">{formatTimeframe(row.timeframe)}</span>
+                      <Badge variant="outline" className={`text-[10px] capitalize ${BIAS_CLASSES[row.bias]}`}>
+                        {row.bias}
+                        {row.confidence !== null && ` ${Math.round(row.confidence)}%`}
+                      </Badge>
+                    </div>
+                  </th>
+                  {matrix[rowIndex].map((cell, columnIndex) => {
+                    const style = CELL_STYLES[cell];
+                    const isDiagonal = rowIndex === columnIndex;
+                    return (
+                      <td key={signals[columnIndex].timeframe} className="p-0.5">
+                        <div
+                          className={`flex h-8 w-12 items-center justify-center rounded text-xs font-semibold ${isDiagonal ? 'bg-slate-50 text-slate-300' : style.className}`}
+                          title={isDiagonal ? undefined : `${formatTimeframe(row.timeframe)} vs ${formatTimeframe(signals[columnIndex].timeframe)}: ${style.title}`}
+                        >
+                          {isDiagonal ? '—' : style.symbol}
+                        </div>
+                      </td>
+                    );
+                  })}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default TimeframeAgreementMatrix;
@@ -0,0 +1,92 @@
+import React, { useEffect, useRef } from 'react';
+import { createChart, UTCTimestamp } from 'lightweight-charts';
+import { BacktestEquityPoint } from '@/types/backtest';
+
+interface BacktestEquityChartProps {
+  equity: BacktestEquityPoint[];
+  initialCapital: number;
+  height?: number;
+}
+
+// Equity curve with the drawdown from its running peak in a band along the bottom
+export const BacktestEquityChart: React.FC<BacktestEquityChartProps> = ({ equity, initialCapital, height = 360 }) => {
+  const chartContainerRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    if (!chartContainerRef.current || equity.length === 0) return;
+
+    const chart = createChart(chartContainerRef.current, {
+      width: chartContainerRef.current.clientWidth,
+      height,
+      layout: {
+        background: { color: '#ffffff' },
+        textColor: '#333333',
+      },
+      grid: {
+        vertLines: { color: '#f0f0f0' },
+        horzLines: { color: '#f0f0f0' },
+      },
+      crosshair: {
+        mode: 1,
+      },
+      rightPriceScale: {
+        borderColor: '#cccccc',
+        scaleMargins: { top: 0.05, bottom: 0.3 },
+      },
+      timeScale: {
+        borderColor: '#cccccc',
+        timeVisible: true,
+        secondsVisible: false,
+      },
+    });
+
+    const equitySeries = chart.addLineSeries({
+      color: '#3b82f6',
+      lineWidth: 2,
+      title: 'Equity',
+    });
+    equitySeries.setData(equity.map(point => ({ time: point.time as UTCTimestamp, value: point.equity })));
+    equitySeries.createPriceLine({
+      price: initialCapital,
+      color: '#94a3b8',
+      lineWidth: 1,
+      lineStyle: 2,
+      axisLabelVisible: false,
+      title: 'Start',
+    });
+
+    const drawdownSeries = chart.addAreaSeries({
+      priceScaleId: 'drawdown',
+      lineColor: '#ef4444',
+      topColor: 'rgba(239, 68, 68, 0.05)',
+      bottomColor: 'rgba(239, 68, 68, 0.35)',
+      lineWidth: 1,
+      title: 'Drawdown %',
+      priceFormat: { type: 'custom', formatter: (value: number) => `${value.toFixed(1)}%` },
+    });
+    drawdownSeries.priceScale().applyOptions({ scaleMargins: { top: 0.75, bottom: 0 } });
+    drawdownSeries.setData(equity.map(point => ({ time: point.time as UTCTimestamp, value: point.drawdownPct })));
+
+    chart.timeScale().fitContent();
+
+    // Handle resize
+    const handleResize = () => {
+      if (chartContainerRef.current) {
+        chart.applyOptions({
+          width: chartContainerRef.current.clientWidth,
+        });
+      }
+    };
+
+    window.addEventListener('resize', handleResize);
+
+    return () => {
+      window.removeEventListener('resize', handleResize);
+      chart.remove();
+    };
+  }, [equity, initialCapital, height]);
+
+  return <div ref={chartContainerRef} className="w-full" style={{ height }} />;
+};
+
+export default BacktestEquityChart;
@@ -0,0 +1,127 @@
+import React, { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Select, SelectContent, SelectGroup, SelectItem, SelectLabel, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Plus, Trash2 } from 'lucide-react';
+import { BacktestRule, BacktestRuleKind, BacktestRuleMode } from '@/types/backtest';
+import { BACKTEST_RULE_DEFINITIONS, createBacktestRule } from '@/utils/backtestRules';
+
+interface BacktestRuleEditorProps {
+  title: string;
+  rules: BacktestRule[];
+  mode: BacktestRuleMode;
+  onRulesChange: (rules: BacktestRule[]) => void;
+  onModeChange: (mode: BacktestRuleMode) => void;
+  emptyText: string;
+}
+
+const RULE_GROUPS: { key: 'indicator' | 'pattern'; label: string }[] = [
+  { key: 'indicator', label: 'Indicators' },
+  { key: 'pattern', label: 'Patterns' }
+];
+
+// Entry or exit rule set: one card per rule with its parameters, combined with AND / OR
+export const BacktestRuleEditor: React.FC<BacktestRuleEditorProps> = ({
+  title,
+  rules,
+  mode,
+  onRulesChange,
+  onModeChange,
+  emptyText
+}) => {
+  const [newKind, setNewKind] = useState<BacktestRuleKind>('sma_cross_above');
+
+  const handleParamChange = (rule: BacktestRule, key: string, rawValue: string) => {
+    const param = BACKTEST_RULE_DEFINITIONS[rule.kind].params.find(p => p.key === key);
+    const value = parseFloat(rawValue);
+    if (!param || isNaN(value)) return;
+
+    const clamped = Math.min(param.max, Math.max(param.min, value));
+    onRulesChange(rules.map(r => (r.id === rule.id ? { ...r, params: { ...r.params, [key]: clamped } } : r)));
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between gap-2">
+        <span className="text-sm font-semibold text-gray-900">{title}</span>
+        <Select value={mode} onValueChange={(value) => onModeChange(value as BacktestRuleMode)}>
+          <SelectTrigger className="h-7 w-36 text-xs">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">All rules (AND)</SelectItem>
+            <SelectItem value="any">Any rule (OR)</SelectItem>
+          </SelectContent>
+        </Select>
+      </div>
+
+      {rules.length === 0 && <p className="text-sm text-slate-500">{emptyText}</p>}
+      {rules.map(rule => {
+        const definition = BACKTEST_RULE_DEFINITIONS[rule.kind];
+        return (
+          <div key={rule.id} className="rounded-md border bg-white p-3 space-y-2">
+            <div className="flex items-center justify-between gap-2">
+              <span className="text-sm font-medium">{definition.label}</span>
+              <Button
+                variant="ghost"
+                size="sm"
+                className="h-7 w-7 p-0 text-slate-500 hover:text-red-600"
+                onClick={() => onRulesChange(rules.filter(r => r.id !== rule.id))}
+                title="Remove rule"
+              >
+                <Trash2 className="h-3.5 w-3.5" />
+              </Button>
+            </div>
+
+            {definition.params.length > 0 && (
+              <div className="grid grid-cols-3 gap-2">
+                {definition.params.map(param => (
+                  <label key={param.key} className="text-xs text-slate-600 space-y-1">
+                    <span>{param.label}</span>
+                    <Input
+                      type="number"
+                      className="h-7 px-2 text-xs"
+                      min={param.min}
+                      max={param.max}
+                      step={param.step ?? 1}
+                      value={rule.params[param.key] ?? param.defaultValue}
+                      onChange={(e) => handleParamChange(rule, param.key, e.target.value)}
+                    />
+                  </label>
+                ))}
+              </div>
+            )}
+          </div>
+        );
+      })}
+
+      <div className="flex items-center gap-2">
+        <Select value={newKind} onValueChange={(value) => setNewKind(value as BacktestRuleKind)}>
+          <SelectTrigger className="h-8 flex-1 text-sm">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {RULE_GROUPS.map(group => (
+              <SelectGroup key={group.key}>
+                <SelectLabel>{group.label}</SelectLabel>
+                {Object.values(BACKTEST_RULE_DEFINITIONS)
+                  .filter(definition => definition.group === group.key)
+                  .map(definition => (
+                    <SelectItem key={definition.kind} value={definition.kind}>
+                      {definition.label}
+                    </SelectItem>
+                  ))}
+              </SelectGroup>
+            ))}
+          </SelectContent>
+        </Select>
+        <Button size="sm" variant="outline" className="h-8" onClick={() => onRulesChange([...rules, createBacktestRule(newKind)])}>
+          <Plus className="h-4 w-4 mr-1" />
+          Add
+        </Button>
+      </div>
+    </div>
+  );
+};
+
+export default BacktestRuleEditor;
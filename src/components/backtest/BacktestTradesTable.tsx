@@ -0,0 +1,88 @@
+import React from 'react';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Badge } from '@/components/ui/badge';
+import { BacktestExitReason, BacktestTrade } from '@/types/backtest';
+import { isDailyOrHigherTimeframe } from '@/utils/candleResampler';
+import { formatOutcomePct, outcomePctClass } from '@/utils/signalOutcomes';
+
+interface BacktestTradesTableProps {
+  trades: BacktestTrade[];
+  timeframe: string;
+}
+
+const EXIT_LABELS: Record<BacktestExitReason, string> = {
+  signal: 'Exit rule',
+  stop: 'Stop loss',
+  target: 'Target',
+  time: 'Max bars',
+  session_end: 'Square-off',
+  end_of_data: 'End of data'
+};
+
+const EXIT_CLASSES: Record<BacktestExitReason, string> = {
+  signal: 'bg-blue-100 text-blue-800 border-blue-200',
+  stop: 'bg-red-100 text-red-800 border-red-200',
+  target: 'bg-emerald-100 text-emerald-800 border-emerald-200',
+  time: 'bg-gray-100 text-gray-700 border-gray-200',
+  session_end: 'bg-amber-100 text-amber-800 border-amber-200',
+  end_of_data: 'bg-gray-100 text-gray-700 border-gray-200'
+};
+
+const formatRupees = (value: number): string =>
+  `${value < 0 ? '-' : ''}₹${Math.abs(value).toLocaleString('en-IN', { maximumFractionDigits: 0 })}`;
+
+export const BacktestTradesTable: React.FC<BacktestTradesTableProps> = ({ trades, timeframe }) => {
+  if (trades.length === 0) {
+    return <p className="py-6 text-center text-sm text-gray-500">The entry rules never fired on this history.</p>;
+  }
+
+  const formatTime = (time: number) => {
+    const date = new Date(time * 1000);
+    return isDailyOrHigherTimeframe(timeframe)
+      ? date.toLocaleDateString('en-IN')
+      : date.toLocaleString('en-IN', { timeZone: 'Asia/Kolkata', dateStyle: 'short', timeStyle: 'short' });
+  };
+
+  return (
+    <div className="max-h-[480px] overflow-auto rounded-md border bg-white">
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead className="text-right">#</TableHead>
+            <TableHead>Entry</TableHead>
+            <TableHead>Exit</TableHead>
+            <TableHead className="text-right">Qty</TableHead>
+            <TableHead className="text-right">Entry price</TableHead>
+            <TableHead className="text-right">Exit price</TableHead>
+            <TableHead className="text-right">Bars</TableHead>
+            <TableHead>Reason</TableHead>
+            <TableHead className="text-right">Costs</TableHead>
+            <TableHead className="text-right">Net P&amp;L</TableHead>
+            <TableHead className="text-right">Return</TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {trades.map(trade => (
+            <TableRow key={trade.id}>
+              <TableCell className="text-right tabular-nums text-gray-500">{trade.id}</TableCell>
+              <TableCell className="whitespace-nowrap text-sm">{formatTime(trade.entryTime)}</TableCell>
+              <TableCell className="whitespace-nowrap text-sm">{formatTime(trade.exitTime)}</TableCell>
+              <TableCell className="text-right tabular-nums">{trade.quantity}</TableCell>
+              <TableCell className="text-right tabular-nums">{trade.entryPrice.toFixed(2)}</TableCell>
+              <TableCell className="text-right tabular-nums">{trade.exitPrice.toFixed(2)}</TableCell>
+              <TableCell className="text-right tabular-nums">{trade.barsHeld}</TableCell>
+              <TableCell>
+                <Badge variant="outline" className={EXIT_CLASSES[trade.exitReason]}>{EXIT_LABELS[trade.exitReason]}</Badge>
+              </TableCell>
+              <TableCell className="text-right tabular-nums text-gray-500">{formatRupees(trade.costs)}</TableCell>
+              <TableCell className={`text-right tabular-nums ${outcomePctClass(trade.netPnl)}`}>{formatRupees(trade.netPnl)}</TableCell>
+              <TableCell className={`text-right tabular-nums ${outcomePctClass(trade.returnPct)}`}>{formatOutcomePct(trade.returnPct)}</TableCell>
+            </TableRow>
+          ))}
+        </TableBody>
+      </Table>
+    </div>
+  );
+};
+
+export default BacktestTradesTable;
@@ -0,0 +1,152 @@
+import {
+  IChartApi,
+  ISeriesApi,
+  ISeriesPrimitive,
+  ISeriesPrimitivePaneRenderer,
+  ISeriesPrimitivePaneView,
+  Logical,
+  SeriesAttachedParameter,
+  SeriesType,
+  Time
+} from 'lightweight-charts';
+import { AnalysisOverlaySet } from '@/types/analysisOverlays';
+import { Point, TimeIndexMapper } from '@/utils/drawingGeometry';
+import {
+  ANALYSIS_PATTERN_COLOR,
+  ANALYSIS_ZONE_COLORS
+} from '@/utils/analysisOverlays';
+
+// ===== TYPES & INTERFACES =====
+
+type RenderTarget = Parameters<ISeriesPrimitivePaneRenderer['draw']>[0];
+
+const BEARISH_COLOR = '#dc2626';
+const BULLISH_COLOR = '#16a34a';
+
+// ===== PRIMITIVE =====
+
+// Shaded zones and pattern outlines from a stored analysis. Flat levels are plain
+// price lines on the candle series; this primitive only draws what price lines can't.
+export class AnalysisOverlayPrimitive implements ISeriesPrimitive<Time> {
+  private chart: IChartApi | null = null;
+  private series: ISeriesApi<SeriesType> | null = null;
+  private requestUpdate: (() => void) | null = null;
+  private mapper = new TimeIndexMapper([]);
+  private overlays: AnalysisOverlaySet | null = null;
+  private readonly paneView: ISeriesPrimitivePaneView;
+
+  constructor() {
+    this.paneView = {
+      // Behind the candles so zones tint the background instead of covering bars
+      zOrder: () => 'bottom',
+      renderer: () => ({ draw: (target: RenderTarget) => this.draw(target) })
+    };
+  }
+
+  // ===== LIGHTWEIGHT-CHARTS HOOKS =====
+
+  attached({ chart, series, requestUpdate }: SeriesAttachedParameter<Time>): void {
+    this.chart = chart as IChartApi;
+    this.series = series;
+    this.requestUpdate = requestUpdate;
+  }
+
+  detached(): void {
+    this.chart = null;
+    this.series = null;
+    this.requestUpdate = null;
+  }
+
+  paneViews(): readonly ISeriesPrimitivePaneView[] {
+    return [this.paneView];
+  }
+
+  // ===== STATE =====
+
+  setBarTimes(times: number[]): void {
+    this.mapper = new TimeIndexMapper(times);
+    this.requestUpdate?.();
+  }
+
+  setOverlays(overlays: AnalysisOverlaySet | null): void {
+    this.overlays = overlays;
+    this.requestUpdate?.();
+  }
+
+  // ===== RENDERING =====
+
+  private toPoint(time: number, price: number): Point | null {
+    if (!this.chart || !this.series) return null;
+    const logical = this.mapper.timeToLogical(time);
+    if (logical === null) return null;
+    const x = this.chart.timeScale().logicalToCoordinate(logical as Logical);
+    const y = this.series.priceToCoordinate(price);
+    return x === null || y === null ? null : { x, y };
+  }
+
+  private draw(target: RenderTarget): void {
+    const overlays = this.overlays;
+    const chart = this.chart;
+    const series = this.series;
+    if (!overlays || !chart || !series) return;
+
+    target.useMediaCoordinateSpace(({ context: ctx }) => {
+      const width = chart.timeScale().width();
+      ctx.save();
+      ctx.font = '10px sans-serif';
+
+      // Zones span the whole pane like price lines do
+      overlays.zones.forEach(zone => {
+        const top = series.priceToCoordinate(zone.to);
+        const bottom = series.priceToCoordinate(zone.from);
+        if (top === null || bottom === null) return;
+        const color = ANALYSIS_ZONE_COLORS[zone.kind];
+        ctx.globalAlpha = 0.08;
+        ctx.fillStyle = color;
+        ctx.fillRect(0, top, width, Math.max(1, bottom - top));
+        ctx.globalAlpha = 0.8;
+        ctx.textBaseline = 'top';
+        ctx.fillText(`${zone.label} · ${overlays.shortDate}`, 44, top + 2);
+      });
+
+      overlays.patterns.forEach(pattern => {
+        const points = pattern.points
+          .map(p => this.toPoint(p.time, p.price))
+          .filter((p): p is Point => p !== null);
+        if (points.length < 2) return;
+
+        const color = pattern.sentiment === 'bearish'
+          ? BEARISH_COLOR
+          : pattern.sentiment === 'bullish' ? BULLISH_COLOR : ANALYSIS_PATTERN_COLOR;
+        ctx.globalAlpha = 0.9;
+        ctx.strokeStyle = color;
+        ctx.fillStyle = color;
+        ctx.lineWidth = 1.5;
+        ctx.setLineDash(pattern.kind === 'divergence' ? [5, 3] : []);
+        ctx.beginPath();
+        points.forEach((p, i) => (i === 0 ? ctx.moveTo(p.x, p.y) : ctx.lineTo(p.x, p.y)));
+        if (pattern.closed) ctx.closePath();
+        ctx.stroke();
+        ctx.setLineDash([]);
+
+        const last = points[points.length - 1];
+        ctx.textBaseline = 'bottom';
+        ctx.fillText(pattern.label, last.x + 4, last.y - 4);
+      });
+
+      ctx.globalAlpha = 0.9;
+      ctx.fillStyle = ANALYSIS_PATTERN_COLOR;
+      overlays.markers.forEach(marker => {
+        const point = this.toPoint(marker.time, marker.price);
+        if (!point) return;
+        ctx.beginPath();
+        ctx.arc(point.x, point.y, 3, 0, Math.PI * 2);
+        ctx.fill();
+        ctx.textBaseline = 'bottom';
+        ctx.fillText(marker.label, point.x + 4, point.y - 3);
+      });
+
+      ctx.restore();
+    });
+  }
+}
@@ -0,0 +1,131 @@
+import React from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from '@/components/ui/tooltip';
+import {
+  AlignJustify,
+  Equal,
+  Eraser,
+  Layers,
+  Magnet,
+  MousePointer2,
+  MoveRight,
+  Slash,
+  Square,
+  Trash2,
+  Type
+} from 'lucide-react';
+import { ChartDrawing, DrawingType } from '@/types/drawings';
+
+interface DrawingToolbarProps {
+  activeTool: DrawingType | null;
+  onToolChange: (tool: DrawingType | null) => void;
+  magnet: boolean;
+  onMagnetChange: (magnet: boolean) => void;
+  selectedDrawing: ChartDrawing | null;
+  onUpdateSelected: (update: Partial<Pick<ChartDrawing, 'color' | 'text'>>) => void;
+  onDeleteSelected: () => void;
+  onClear: () => void;
+  hasDrawings: boolean;
+}
+
+const TOOLS: { type: DrawingType; label: string; icon: React.ElementType }[] = [
+  { type: 'trendline', label: 'Trendline', icon: Slash },
+  { type: 'horizontal_ray', label: 'Horizontal ray', icon: MoveRight },
+  { type: 'rectangle', label: 'Rectangle', icon: Square },
+  { type: 'fib_retracement', label: 'Fibonacci retracement', icon: AlignJustify },
+  { type: 'fib_extension', label: 'Fibonacci extension (3 points)', icon: Layers },
+  { type: 'parallel_channel', label: 'Parallel channel (3 points)', icon: Equal },
+  { type: 'text', label: 'Text note', icon: Type }
+];
+
+const ToolButton: React.FC<{
+  label: string;
+  active?: boolean;
+  disabled?: boolean;
+  onClick: () => void;
+  children: React.ReactNode;
+}> = ({ label, active, disabled, onClick, children }) => (
+  <Tooltip>
+    <TooltipTrigger asChild>
+      <Button
+        variant={active ? 'default' : 'ghost'}
+        size="sm"
+        className="h-7 w-7 p-0"
+        onClick={onClick}
+        disabled={disabled}
+        aria-label={label}
+      >
+        {children}
+      </Button>
+    </TooltipTrigger>
+    <TooltipContent side="right">{label}</TooltipContent>
+  </Tooltip>
+);
+
+export const DrawingToolbar: React.FC<DrawingToolbarProps> = ({
+  activeTool,
+  onToolChange,
+  magnet,
+  onMagnetChange,
+  selectedDrawing,
+  onUpdateSelected,
+  onDeleteSelected,
+  onClear,
+  hasDrawings
+}) => {
+  return (
+    <TooltipProvider delayDuration={300}>
+      <div className="absolute left-2 top-2 z-10 flex items-start gap-2">
+        <div className="flex flex-col gap-1 rounded-md border bg-white/90 p-1 shadow-sm backdrop-blur-sm">
+          <ToolButton label="Select" active={!activeTool} onClick={() => onToolChange(null)}>
+            <MousePointer2 className="h-4 w-4" />
+          </ToolButton>
+          {TOOLS.map(({ type, label, icon: Icon }) => (
+            <ToolButton
+              key={type}
+              label={label}
+              active={activeTool === type}
+              onClick={() => onToolChange(activeTool === type ? null : type)}
+            >
+              <Icon className="h-4 w-4" />
+            </ToolButton>
+          ))}
+          <div className="my-0.5 border-t" />
+          <ToolButton label={magnet ? 'Snap to OHLC: on' : 'Snap to OHLC: off'} active={magnet} onClick={() => onMagnetChange(!magnet)}>
+            <Magnet className="h-4 w-4" />
+          </ToolButton>
+          <ToolButton label="Remove all drawings" disabled={!hasDrawings} onClick={onClear}>
+            <Eraser className="h-4 w-4" />
+          </ToolButton>
+        </div>
+
+        {/* Selected drawing editor */}
+        {selectedDrawing && (
+          <div className="flex items-center gap-1 rounded-md border bg-white/90 p-1 shadow-sm backdrop-blur-sm">
+            <input
+              type="color"
+              title="Colour"
+              className="h-7 w-7 cursor-pointer rounded border"
+              value={selectedDrawing.color}
+              onChange={(e) => onUpdateSelected({ color: e.target.value })}
+            />
+            {selectedDrawing.type === 'text' && (
+              <Input
+                className="h-7 w-40 px-2 text-xs"
+                value={selectedDrawing.text ?? ''}
+                placeholder="Note"
+                onChange={(e) => onUpdateSelected({ text: e.target.value })}
+              />
+            )}
+            <ToolButton label="Delete drawing" onClick={onDeleteSelected}>
+              <Trash2 className="h-4 w-4 text-red-600" />
+            </ToolButton>
+          </div>
+        )}
+      </div>
+    </TooltipProvider>
+  );
+};
+
+export default DrawingToolbar;
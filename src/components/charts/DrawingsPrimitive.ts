@@ -0,0 +1,250 @@
+import {
+  IChartApi,
+  ISeriesApi,
+  ISeriesPrimitive,
+  ISeriesPrimitivePaneRenderer,
+  ISeriesPrimitivePaneView,
+  Logical,
+  PrimitiveHoveredItem,
+  SeriesAttachedParameter,
+  SeriesType,
+  Time
+} from 'lightweight-charts';
+import { ChartDrawing } from '@/types/drawings';
+import {
+  DrawingProjector,
+  DrawingShape,
+  NOTE_FONT,
+  Point,
+  TimeIndexMapper,
+  getDrawingShapes,
+  getNoteBox,
+  hitTestShapes
+} from '@/utils/drawingGeometry';
+
+// ===== TYPES & INTERFACES =====
+
+type RenderTarget = Parameters<ISeriesPrimitivePaneRenderer['draw']>[0];
+
+export interface DrawingHit {
+  drawingId: string;
+  anchorIndex: number | null; // null when the body was hit rather than a handle
+}
+
+const HANDLE_RADIUS = 5;
+
+// ===== PRIMITIVE =====
+
+// Renders user drawings on top of the candlestick pane.
+// Attached to the candle series so it repaints with every pan, zoom and price scale change.
+export class DrawingsPrimitive implements ISeriesPrimitive<Time> {
+  private chart: IChartApi | null = null;
+  private series: ISeriesApi<SeriesType> | null = null;
+  private requestUpdate: (() => void) | null = null;
+  private mapper = new TimeIndexMapper([]);
+  private drawings: ChartDrawing[] = [];
+  private preview: ChartDrawing | null = null;
+  private selectedId: string | null = null;
+  private readonly paneView: ISeriesPrimitivePaneView;
+
+  constructor() {
+    this.paneView = {
+      zOrder: () => 'top',
+      renderer: () => ({ draw: (target: RenderTarget) => this.draw(target) })
+    };
+  }
+
+  // ===== LIGHTWEIGHT-CHARTS HOOKS =====
+
+  attached({ chart, series, requestUpdate }: SeriesAttachedParameter<Time>): void {
+    this.chart = chart as IChartApi;
+    this.series = series;
+    this.requestUpdate = requestUpdate;
+  }
+
+  detached(): void {
+    this.chart = null;
+    this.series = null;
+    this.requestUpdate = null;
+  }
+
+  paneViews(): readonly ISeriesPrimitivePaneView[] {
+    return [this.paneView];
+  }
+
+  hitTest(x: number, y: number): PrimitiveHoveredItem | null {
+    const hit = this.hitTestDrawings(x, y);
+    if (!hit) return null;
+    return {
+      cursorStyle: hit.anchorIndex !== null ? 'grab' : 'move',
+      externalId: hit.drawingId,
+      zOrder: 'top'
+    };
+  }
+
+  // ===== STATE =====
+
+  setBarTimes(times: number[]): void {
+    this.mapper = new TimeIndexMapper(times);
+    this.requestUpdate?.();
+  }
+
+  setDrawings(drawings: ChartDrawing[]): void {
+    this.drawings = drawings;
+    this.requestUpdate?.();
+  }
+
+  // In-progress drawing or drag; replaces the saved drawing with the same id while set
+  setPreview(preview: ChartDrawing | null): void {
+    this.preview = preview;
+    this.requestUpdate?.();
+  }
+
+  setSelected(drawingId: string | null): void {
+    this.selectedId = drawingId;
+    this.requestUpdate?.();
+  }
+
+  getMapper(): TimeIndexMapper {
+    return this.mapper;
+  }
+
+  // ===== COORDINATES =====
+
+  createProjector(): DrawingProjector | null {
+    const chart = this.chart;
+    const series = this.series;
+    if (!chart || !series) return null;
+
+    const timeScale = chart.timeScale();
+    return {
+      toPoint: anchor => {
+        const logical = this.mapper.timeToLogical(anchor.time);
+        if (logical === null) return null;
+        const x = timeScale.logicalToCoordinate(logical as Logical);
+        const y = series.priceToCoordinate(anchor.price);
+        return x === null || y === null ? null : { x, y };
+      },
+      priceToY: price => series.priceToCoordinate(price),
+      paneWidth: timeScale.width()
+    };
+  }
+
+  hitTestDrawings(x: number, y: number): DrawingHit | null {
+    const projector = this.createProjector();
+    if (!projector) return null;
+    const point = { x, y };
+
+    // Handles of the selected drawing win over any body underneath them
+    const selected = this.drawings.find(drawing => drawing.id === this.selectedId);
+    if (selected) {
+      const anchorIndex = selected.anchors.findIndex(anchor => {
+        const anchorPoint = projector.toPoint(anchor);
+        return anchorPoint !== null && Math.hypot(anchorPoint.x - x, anchorPoint.y - y) <= HANDLE_RADIUS + 3;
+      });
+      if (anchorIndex >= 0) return { drawingId: selected.id, anchorIndex };
+    }
+
+    // Last drawn is on top
+    for (let i = this.drawings.length - 1; i >= 0; i--) {
+      const drawing = this.drawings[i];
+      if (hitTestShapes(getDrawingShapes(drawing, projector), point)) {
+        return { drawingId: drawing.id, anchorIndex: null };
+      }
+    }
+    return null;
+  }
+
+  // ===== RENDERING =====
+
+  private draw(target: RenderTarget): void {
+    target.useMediaCoordinateSpace(({ context }) => {
+      const projector = this.createProjector();
+      if (!projector) return;
+
+      const preview = this.preview;
+      const drawings = preview
+        ? [...this.drawings.filter(drawing => drawing.id !== preview.id), preview]
+        : this.drawings;
+
+      drawings.forEach(drawing => {
+        const isSelected = drawing.id === this.selectedId || drawing === preview;
+        this.drawDrawing(context, drawing, projector, isSelected);
+      });
+    });
+  }
+
+  private drawDrawing(
+    ctx: CanvasRenderingContext2D,
+    drawing: ChartDrawing,
+    projector: DrawingProjector,
+    isSelected: boolean
+  ): void {
+    const shapes = getDrawingShapes(drawing, projector);
+
+    ctx.save();
+    ctx.strokeStyle = drawing.color;
+    ctx.fillStyle = drawing.color;
+    ctx.lineWidth = isSelected ? 2 : 1.5;
+    shapes.forEach(shape => this.drawShape(ctx, shape, drawing.color));
+
+    if (isSelected) {
+      drawing.anchors.forEach(anchor => {
+        const point = projector.toPoint(anchor);
+        if (point) this.drawHandle(ctx, point, drawing.color);
+      });
+    }
+    ctx.restore();
+  }
+
+  private drawShape(ctx: CanvasRenderingContext2D, shape: DrawingShape, color: string): void {
+    switch (shape.kind) {
+      case 'segment':
+        ctx.setLineDash(shape.dashed ? [4, 4] : []);
+        ctx.beginPath();
+        ctx.moveTo(shape.from.x, shape.from.y);
+        ctx.lineTo(shape.to.x, shape.to.y);
+        ctx.stroke();
+        ctx.setLineDash([]);
+        break;
+
+      case 'polygon':
+        ctx.save();
+        ctx.globalAlpha = 0.1;
+        ctx.beginPath();
+        shape.points.forEach((point, i) => (i === 0 ? ctx.moveTo(point.x, point.y) : ctx.lineTo(point.x, point.y)));
+        ctx.closePath();
+        ctx.fill();
+        ctx.restore();
+        break;
+
+      case 'label':
+        ctx.font = '11px sans-serif';
+        ctx.textBaseline = 'bottom';
+        ctx.fillText(shape.text, shape.at.x, shape.at.y);
+        break;
+
+      case 'note': {
+        const box = getNoteBox(shape.at, shape.text);
+        ctx.fillStyle = color;
+        ctx.fillRect(box.x, box.y, box.width, box.height);
+        ctx.fillStyle = '#ffffff';
+        ctx.font = NOTE_FONT;
+        ctx.textBaseline = 'middle';
+        ctx.fillText(shape.text, box.x + 6, shape.at.y);
+        ctx.fillStyle = color;
+        break;
+      }
+    }
+  }
+
+  private drawHandle(ctx: CanvasRenderingContext2D, point: Point, color: string): void {
+    ctx.beginPath();
+    ctx.arc(point.x, point.y, HANDLE_RADIUS, 0, Math.PI * 2);
+    ctx.fillStyle = '#ffffff';
+    ctx.fill();
+    ctx.strokeStyle = color;
+    ctx.lineWidth = 1.5;
+    ctx.stroke();
+  }
+}
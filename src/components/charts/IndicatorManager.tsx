@@ -0,0 +1,169 @@
+import React, { useState } from 'react';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Switch } from '@/components/ui/switch';
+import { Plus, Trash2, SlidersHorizontal, RotateCcw } from 'lucide-react';
+import { IndicatorInstance, IndicatorPane, IndicatorType } from '@/types/indicators';
+import { INDICATOR_DEFINITIONS, getIndicatorLabel } from '@/utils/indicatorRegistry';
+
+interface IndicatorManagerProps {
+  instances: IndicatorInstance[];
+  onAdd: (type: IndicatorType) => void;
+  onUpdate: (id: string, update: Partial<Omit<IndicatorInstance, 'id' | 'type'>>) => void;
+  onRemove: (id: string) => void;
+  onReset: () => void;
+}
+
+const PANE_OPTIONS: { value: IndicatorPane; label: string }[] = [
+  { value: 'price', label: 'Price' },
+  { value: 'lower', label: 'Lower pane' },
+  { value: 'volume', label: 'Volume' }
+];
+
+export const IndicatorManager: React.FC<IndicatorManagerProps> = ({
+  instances,
+  onAdd,
+  onUpdate,
+  onRemove,
+  onReset
+}) => {
+  const [newType, setNewType] = useState<IndicatorType>('sma');
+
+  const handleParamChange = (instance: IndicatorInstance, key: string, rawValue: string) => {
+    const param = INDICATOR_DEFINITIONS[instance.type].params.find(p => p.key === key);
+    const value = parseFloat(rawValue);
+    if (!param || isNaN(value)) return;
+
+    const clamped = Math.min(param.max, Math.max(param.min, value));
+    onUpdate(instance.id, { params: { [key]: clamped } });
+  };
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <Button
+          variant="outline"
+          size="sm"
+          className="bg-white/90 backdrop-blur-sm h-8 w-8 p-0 sm:h-9 sm:w-auto sm:px-3"
+          title="Indicators"
+        >
+          <SlidersHorizontal className="h-4 w-4" />
+          <span className="hidden sm:inline ml-1">Indicators</span>
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent align="end" className="w-96 p-0">
+        <div className="flex items-center justify-between border-b px-4 py-3">
+          <span className="text-sm font-semibold">Indicators</span>
+          <Button variant="ghost" size="sm" className="h-7 px-2" onClick={onReset} title="Restore defaults">
+            <RotateCcw className="h-3.5 w-3.5" />
+          </Button>
+        </div>
+
+        <div className="max-h-80 overflow-y-auto">
+          <div className="space-y-3 p-4">
+            {instances.length === 0 && (
+              <p className="text-sm text-slate-500">No indicators on this chart yet.</p>
+            )}
+            {instances.map(instance => {
+              const definition = INDICATOR_DEFINITIONS[instance.type];
+              return (
+                <div key={instance.id} className="rounded-md border p-3 space-y-2">
+                  <div className="flex items-center justify-between gap-2">
+                    <div className="flex items-center gap-2">
+                      <Switch
+                        checked={instance.visible}
+                        onCheckedChange={(checked) => onUpdate(instance.id, { visible: checked })}
+                      />
+                      <span className="text-sm font-medium">{getIndicatorLabel(instance)}</span>
+                    </div>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      className="h-7 w-7 p-0 text-slate-500 hover:text-red-600"
+                      onClick={() => onRemove(instance.id)}
+                      title="Remove indicator"
+                    >
+                      <Trash2 className="h-3.5 w-3.5" />
+                    </Button>
+                  </div>
+
+                  {definition.params.length > 0 && (
+                    <div className="grid grid-cols-3 gap-2">
+                      {definition.params.map(param => (
+                        <label key={param.key} className="text-xs text-slate-600 space-y-1">
+                          <span>{param.label}</span>
+                          <Input
+                            type="number"
+                            className="h-7 px-2 text-xs"
+                            min={param.min}
+                            max={param.max}
+                            step={param.step ?? 1}
+                            value={instance.params[param.key]}
+                            onChange={(e) => handleParamChange(instance, param.key, e.target.value)}
+                          />
+                        </label>
+                      ))}
+                    </div>
+                  )}
+
+                  <div className="flex items-center justify-between gap-2">
+                    <div className="flex items-center gap-2">
+                      {definition.lines.map(line => (
+                        <input
+                          key={line.key}
+                          type="color"
+                          title={line.label}
+                          className="h-6 w-6 cursor-pointer rounded border"
+                          value={instance.colors[line.key] || line.color}
+                          onChange={(e) => onUpdate(instance.id, { colors: { [line.key]: e.target.value } })}
+                        />
+                      ))}
+                    </div>
+                    <Select
+                      value={instance.pane}
+                      onValueChange={(value) => onUpdate(instance.id, { pane: value as IndicatorPane })}
+                    >
+                      <SelectTrigger className="h-7 w-32 text-xs">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {PANE_OPTIONS.map(option => (
+                          <SelectItem key={option.value} value={option.value}>
+                            {option.label}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        </div>
+
+        <div className="flex items-center gap-2 border-t px-4 py-3">
+          <Select value={newType} onValueChange={(value) => setNewType(value as IndicatorType)}>
+            <SelectTrigger className="h-8 flex-1 text-sm">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {Object.values(INDICATOR_DEFINITIONS).map(definition => (
+                <SelectItem key={definition.type} value={definition.type}>
+                  {definition.name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Button size="sm" className="h-8" onClick={() => onAdd(newType)}>
+            <Plus className="h-4 w-4 mr-1" />
+            Add
+          </Button>
+        </div>
+      </PopoverContent>
+    </Popover>
+  );
+};
+
+export default IndicatorManager;
@@ -1,12 +1,22 @@
 import React, { useEffect, useRef, useState, useCallback, useMemo } from 'react';
-import { createChart, IChartApi, ISeriesApi, CandlestickData, LineData, HistogramData } from 'lightweight-charts';
+import { createChart, IChartApi, ISeriesApi, IPriceLine, LineStyle, CandlestickData, LineData, HistogramData, SeriesMarker, UTCTimestamp } from 'lightweight-charts';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { Button } from '@/components/ui/button';
 import { formatCurrency, formatPercentage } from '@/utils/numberFormatter';
 import { Alert, AlertDescription } from '@/components/ui/alert';
 import { TrendingUp, TrendingDown, Minus, Activity, Wifi, WifiOff, RefreshCw, Settings, ZoomIn, AlertTriangle } from 'lucide-react';
-import { toUTCTimestamp, validateChartDataForTradingView, initializeChartWithRetry, createChartTheme, safeChartCleanup, type ChartContainer, calcSMA } from '@/utils/chartUtils';
+import { toUTCTimestamp, validateChartDataForTradingView, initializeChartWithRetry, createChartTheme, createTickMarkFormatter, safeChartCleanup, type ChartContainer, calcSMA } from '@/utils/chartUtils';
+import { isDailyOrHigherTimeframe } from '@/utils/candleResampler';
+import { IndicatorBar, IndicatorInstance, IndicatorValues } from '@/types/indicators';
+import { INDICATOR_DEFINITIONS, IndicatorStream, createIndicatorStream, getIndicatorLabel } from '@/utils/indicatorRegistry';
+import { ChartDrawing } from '@/types/drawings';
+import { useChartDrawings } from '@/hooks/useChartDrawings';
+import DrawingToolbar from './DrawingToolbar';
+import { AnalysisOverlaySet, AnalysisLevelKind } from '@/types/analysisOverlays';
+import { ANALYSIS_LEVEL_COLORS } from '@/utils/analysisOverlays';
+import { AnalysisOverlayPrimitive } from './AnalysisOverlayPrimitive';
+import { SignalFlip } from '@/utils/realtimeSignals';
 
 interface ChartData {
   date: string;
@@ -18,6 +28,30 @@ interface ChartData {
   volume: number;
 }
 
+// Series drawn for one configured indicator instance
+interface IndicatorSeriesEntry {
+  signature: string;
+  chart: IChartApi;
+  stream: IndicatorStream;
+  series: { key: string; api: ISeriesApi<'Line' | 'Histogram'> }[];
+  firstTime: number | null;
+  lastTime: number | null;
+  length: number;
+  benchmark: BenchmarkPoint[] | undefined;
+}
+
+// Benchmark closes used by relative strength indicators
+export interface BenchmarkPoint {
+  time: number;
+  close: number;
+}
+
+const EMPTY_INDICATORS: IndicatorInstance[] = [];
+
+// Anything that changes how an instance is computed or drawn forces its series to be rebuilt
+const getIndicatorSignature = (instance: IndicatorInstance): string =>
+  JSON.stringify({ type: instance.type, params: instance.params, colors: instance.colors, pane: instance.pane });
+
 interface ChartState {
   timeScale: {
     rightOffset: number;
@@ -74,9 +108,26 @@ interface LiveSimpleChartProps {
   onStatsCalculated?: (stats: any) => void;
   onResetScale?: () => void;
   onRegisterReset?: (resetFn: () => void) => void;
-  activeIndicators?: Record<string, boolean>;
+  activeIndicators?: IndicatorInstance[];
+  benchmarkData?: BenchmarkPoint[];
+  drawings?: ChartDrawing[];
+  onDrawingsChange?: (drawings: ChartDrawing[]) => void; // Drawing tools are shown only when set
+  analysisOverlays?: AnalysisOverlaySet | null;
+  signalFlips?: SignalFlip[]; // Realtime analysis call changes, marked on the bar they happened
 }
 
+const EMPTY_DRAWINGS: ChartDrawing[] = [];
+const EMPTY_FLIPS: SignalFlip[] = [];
+
+const ANALYSIS_LINE_STYLES: Record<AnalysisLevelKind, LineStyle> = {
+  support: LineStyle.Solid,
+  resistance: LineStyle.Solid,
+  entry: LineStyle.Solid,
+  stop: LineStyle.Dashed,
+  target: LineStyle.Dotted,
+  critical: LineStyle.LargeDashed
+};
+
 const LiveSimpleChart: React.FC<LiveSimpleChartProps> = ({ 
   symbol,
   timeframe,
@@ -107,7 +158,12 @@ const LiveSimpleChart: React.FC<LiveSimpleChartProps> = ({
   onStatsCalculated,
   onResetScale,
   onRegisterReset,
-  activeIndicators = {}
+  activeIndicators = EMPTY_INDICATORS,
+  benchmarkData,
+  drawings = EMPTY_DRAWINGS,
+  onDrawingsChange,
+  analysisOverlays = null,
+  signalFlips = EMPTY_FLIPS
 }) => {
   // Refs
   const chartContainerRef = useRef<HTMLDivElement>(null);
@@ -134,6 +190,12 @@ const LiveSimpleChart: React.FC<LiveSimpleChartProps> = ({
   const initializationTimeoutRef = useRef<NodeJS.Timeout | null>(null);
   const initializationAttemptsRef = useRef(0);
   const isSyncingTimeScaleRef = useRef(false);
+  const indicatorSeriesRef = useRef<Map<string, IndicatorSeriesEntry>>(new Map());
+  const analysisOverlayRef = useRef<{
+    series: ISeriesApi<"Candlestick">;
+    primitive: AnalysisOverlayPrimitive;
+    priceLines: IPriceLine[];
+  } | null>(null);
 
   // State
   const [isChartReady, setIsChartReady] = useState(false);
@@ -141,6 +203,27 @@ const LiveSimpleChart: React.FC<LiveSimpleChartProps> = ({
   const [lastChartUpdate, setLastChartUpdate] = useState(0);
   const [containerReady, setContainerReady] = useState(false);
 
+  // Drawing tools (anchored to the candles as they are displayed)
+  const drawingBars = useMemo(
+    () => validateChartDataForTradingView(data || []).map(d => ({
+      time: d.time ?? toUTCTimestamp(d.date),
+      open: d.open,
+      high: d.high,
+      low: d.low,
+      close: d.close
+    })),
+    [data]
+  );
+  const drawingTools = useChartDrawings({
+    chartRef,
+    seriesRef: candlestickSeriesRef,
+    containerRef: chartContainerRef,
+    isChartReady,
+    bars: drawingBars,
+    drawings,
+    onDrawingsChange
+  });
+
   // Chart state management for preserving zoom/pan
   const hasUserInteractedRef = useRef<boolean>(false);
 
@@ -636,39 +719,7 @@ const LiveSimpleChart: React.FC<LiveSimpleChartProps> = ({
           rightOffset: 12,
           barSpacing: 3,
           borderColor: theme === 'dark' ? '#2a2a2a' : '#e1e1e1',
-          tickMarkFormatter: (time: number) => {
-            const date = new Date(time * 1000);
-            
-            // For 1-day interval, show only date
-            if (timeframe === '1d' || timeframe === '1day') {
-              return date.toLocaleDateString('en-IN', { 
-                timeZone: 'Asia/Kolkata',
-                month: 'short', 
-                day: 'numeric',
-                year: 'numeric'
-              });
-            } else if (timeframe === '1h' || timeframe === '60min' || timeframe === '60minute') {
-              // For hourly intervals, show date and full time
-              return date.toLocaleDateString('en-IN', { 
-                timeZone: 'Asia/Kolkata',
-                month: 'short', 
-                day: 'numeric',
-                hour: '2-digit',
-                minute: '2-digit',
-                hour12: false
-              });
-            } else {
-              // For minute intervals, show date and time
-              return date.toLocaleDateString('en-IN', { 
-                timeZone: 'Asia/Kolkata',
-                month: 'short', 
-                day: 'numeric',
-                hour: '2-digit',
-                minute: '2-digit',
-                hour12: false
-              });
-            }
-          },
+          tickMarkFormatter: createTickMarkFormatter(timeframe),
         },
         rightPriceScale: {
           autoScale: true,
@@ -708,7 +759,7 @@ const LiveSimpleChart: React.FC<LiveSimpleChartProps> = ({
             const utcDate = new Date(time * 1000);
             
             // For 1-day interval, show only date
-            if (timeframe === '1d' || timeframe === '1day') {
+            if (isDailyOrHigherTimeframe(timeframe)) {
               return utcDate.toLocaleDateString('en-IN', { 
                 timeZone: 'Asia/Kolkata',
                 day: '2-digit',
@@ -777,35 +828,7 @@ const LiveSimpleChart: React.FC<LiveSimpleChartProps> = ({
           barSpacing: 3,
           borderColor: theme === 'dark' ? '#2a2a2a' : '#e1e1e1',
           visible: true,
-          tickMarkFormatter: (time: number) => {
-            const date = new Date(time * 1000);
-            if (timeframe === '1d' || timeframe === '1day') {
-              return date.toLocaleDateString('en-IN', { 
-                timeZone: 'Asia/Kolkata',
-                month: 'short', 
-                day: 'numeric',
-                year: 'numeric'
-              });
-            } else if (timeframe === '1h' || timeframe === '60min' || timeframe === '60minute') {
-              return date.toLocaleDateString('en-IN', { 
-                timeZone: 'Asia/Kolkata',
-                month: 'short', 
-                day: 'numeric',
-                hour: '2-digit',
-                minute: '2-digit',
-                hour12: false
-              });
-            } else {
-              return date.toLocaleDateString('en-IN', { 
-                timeZone: 'Asia/Kolkata',
-                month: 'short', 
-                day: 'numeric',
-                hour: '2-digit',
-                minute: '2-digit',
-                hour12: false
-              });
-            }
-          },
+          tickMarkFormatter: createTickMarkFormatter(timeframe),
         },
         rightPriceScale: {
           visible: true, // Show right scale for volume plot
@@ -856,7 +879,7 @@ const LiveSimpleChart: React.FC<LiveSimpleChartProps> = ({
         localization: {
           timeFormatter: (time: number) => {
             const utcDate = new Date(time * 1000);
-            if (timeframe === '1d' || timeframe === '1day') {
+            if (isDailyOrHigherTimeframe(timeframe)) {
               return utcDate.toLocaleDateString('en-IN', { 
                 timeZone: 'Asia/Kolkata',
                 day: '2-digit',
@@ -1136,6 +1159,237 @@ const LiveSimpleChart: React.FC<LiveSimpleChartProps> = ({
     }
   }, [isChartReady, data, initializeChart]);
 
+  // ===== CONFIGURED INDICATORS =====
+  // Each instance keeps its own stream: ticks revise the forming bar, new candles append, anything else rebuilds
+  useEffect(() => {
+    const chart = chartRef.current;
+    const volumeChart = volumeChartRef.current;
+    const entries = indicatorSeriesRef.current;
+    if (!isChartReady || !chart) return;
+
+    const instances = showIndicators ? activeIndicators.filter(instance => instance.visible) : [];
+    const wanted = new Map(instances.map(instance => [instance.id, instance]));
+
+    // Drop series of removed or reconfigured instances, and forget ones from a chart that has been rebuilt
+    entries.forEach((entry, id) => {
+      const instance = wanted.get(id);
+      const isStale = entry.chart !== chart && entry.chart !== volumeChart;
+      if (instance && !isStale && entry.signature === getIndicatorSignature(instance)) return;
+
+      if (!isStale) {
+        entry.series.forEach(({ api }) => {
+          try {
+            entry.chart.removeSeries(api);
+          } catch (error) {
+            // console.warn('Error removing indicator series:', error);
+          }
+        });
+      }
+      entries.delete(id);
+    });
+
+    // Oscillators share a band at the bottom of the price chart
+    const hasLowerPane = instances.some(instance => instance.pane === 'lower');
+    chart.priceScale('right').applyOptions({
+      scaleMargins: { top: 0.1, bottom: hasLowerPane ? 0.3 : 0.1 }
+    });
+
+    instances.forEach(instance => {
+      if (entries.has(instance.id)) return;
+
+      const targetChart = instance.pane === 'volume' ? volumeChart : chart;
+      if (!targetChart) return;
+
+      const definition = INDICATOR_DEFINITIONS[instance.type];
+      const label = getIndicatorLabel(instance);
+      const priceScaleId = instance.pane === 'price' ? 'right' : `indicator-${instance.id}`;
+
+      const series = definition.lines.map(line => {
+        const options = {
+          priceScaleId,
+          color: instance.colors[line.key] || line.color,
+          title: definition.lines.length > 1 ? `${label} ${line.label}` : label,
+          priceLineVisible: false
+        };
+        const api = line.style === 'histogram'
+          ? targetChart.addHistogramSeries(options)
+          : targetChart.addLineSeries({
+              ...options,
+              lineWidth: 1,
+              lineVisible: line.style !== 'dots',
+              pointMarkersVisible: line.style === 'dots'
+            });
+        return { key: line.key, api: api as ISeriesApi<'Line' | 'Histogram'> };
+      });
+
+      if (instance.pane === 'lower') {
+        targetChart.priceScale(priceScaleId).applyOptions({ scaleMargins: { top: 0.75, bottom: 0 } });
+      }
+
+      entries.set(instance.id, {
+        signature: getIndicatorSignature(instance),
+        chart: targetChart,
+        stream: createIndicatorStream(instance),
+        series,
+        firstTime: null,
+        lastTime: null,
+        length: 0,
+        benchmark: benchmarkData
+      });
+    });
+
+    // Align benchmark closes to chart bars; bars without one carry the previous close forward in the stream
+    const benchmarkByTime = new Map<number, number>((benchmarkData || []).map(point => [point.time, point.close]));
+
+    const bars: IndicatorBar[] = validateChartDataForTradingView(data || []).map(d => ({
+      time: d.time ?? toUTCTimestamp(d.date),
+      open: d.open,
+      high: d.high,
+      low: d.low,
+      close: d.close,
+      volume: d.volume || 0,
+      benchmark: benchmarkByTime.get(d.time ?? toUTCTimestamp(d.date)) ?? null
+    }));
+
+    // Missing values become whitespace so lines break instead of bridging gaps (e.g. SuperTrend flips)
+    const toPoint = (time: number, value: number | null | undefined) =>
+      value !== null && value !== undefined && isFinite(value) ? { time: time as any, value } : { time: time as any };
+
+    const writeLatest = (entry: IndicatorSeriesEntry, values: IndicatorValues, time: number) => {
+      entry.series.forEach(({ key, api }) => api.update(toPoint(time, values[key])));
+    };
+
+    entries.forEach((entry, id) => {
+      const instance = wanted.get(id);
+      if (!instance) return;
+
+      try {
+        if (bars.length === 0) {
+          entry.series.forEach(({ api }) => api.setData([]));
+          entry.stream = createIndicatorStream(instance);
+          entry.firstTime = null;
+          entry.lastTime = null;
+          entry.length = 0;
+          return;
+        }
+
+        const lastBar = bars[bars.length - 1];
+        // A benchmark that arrives or changes later invalidates everything computed against the old one
+        const usesBenchmark = INDICATOR_DEFINITIONS[instance.type].usesBenchmark;
+        const isSameStart = entry.firstTime === bars[0].time && (!usesBenchmark || entry.benchmark === benchmarkData);
+
+        if (isSameStart && entry.length === bars.length && entry.lastTime === lastBar.time) {
+          // Tick on the forming bar
+          writeLatest(entry, entry.stream.revise(lastBar), lastBar.time);
+        } else if (isSameStart && entry.length + 1 === bars.length && bars[bars.length - 2].time === entry.lastTime) {
+          // New candle
+          writeLatest(entry, entry.stream.append(lastBar), lastBar.time);
+        } else {
+          // New dataset, trimmed window or backfill - replay the whole series
+          entry.stream = createIndicatorStream(instance);
+          const points = new Map<string, { time: any; value?: number }[]>(entry.series.map(({ key }) => [key, []]));
+          bars.forEach(bar => {
+            const values = entry.stream.append(bar);
+            entry.series.forEach(({ key }) => points.get(key)!.push(toPoint(bar.time, values[key])));
+          });
+          entry.series.forEach(({ key, api }) => api.setData(points.get(key) || []));
+        }
+
+        entry.firstTime = bars[0].time;
+        entry.lastTime = lastBar.time;
+        entry.length = bars.length;
+        entry.benchmark = benchmarkData;
+      } catch (error) {
+        console.warn(`⚠️ [LiveSimpleChart] Failed to update indicator ${getIndicatorLabel(instance)}:`, error);
+      }
+    });
+  }, [isChartReady, data, activeIndicators, showIndicators, benchmarkData]);
+
+  // Stored analysis overlays: flat levels become price lines, zones and patterns go through a primitive
+  useEffect(() => {
+    const series = candlestickSeriesRef.current;
+    if (!isChartReady || !series) return;
+
+    const current = analysisOverlayRef.current;
+    if (current && current.series !== series) {
+      // Candle series was recreated; its price lines and primitive went with it
+      analysisOverlayRef.current = null;
+    }
+
+    if (!analysisOverlays) {
+      const existing = analysisOverlayRef.current;
+      if (existing) {
+        existing.priceLines.forEach(line => existing.series.removePriceLine(line));
+        existing.series.detachPrimitive(existing.primitive);
+        analysisOverlayRef.current = null;
+      }
+      return;
+    }
+
+    if (!analysisOverlayRef.current) {
+      const primitive = new AnalysisOverlayPrimitive();
+      series.attachPrimitive(primitive);
+      analysisOverlayRef.current = { series, primitive, priceLines: [] };
+    }
+
+    const entry = analysisOverlayRef.current;
+    entry.priceLines.forEach(line => series.removePriceLine(line));
+    entry.priceLines = analysisOverlays.levels.map(level => series.createPriceLine({
+      price: level.price,
+      color: ANALYSIS_LEVEL_COLORS[level.kind],
+      lineWidth: 1,
+      lineStyle: ANALYSIS_LINE_STYLES[level.kind],
+      axisLabelVisible: true,
+      title: analysisOverlays.shortDate ? `${level.label} · ${analysisOverlays.shortDate}` : level.label
+    }));
+    entry.primitive.setOverlays(analysisOverlays);
+  }, [isChartReady, analysisOverlays]);
+
+  useEffect(() => {
+    analysisOverlayRef.current?.primitive.setBarTimes(drawingBars.map(bar => bar.time));
+  }, [drawingBars, analysisOverlays, isChartReady]);
+
+  useEffect(() => {
+    return () => {
+      const entry = analysisOverlayRef.current;
+      if (!entry) return;
+      try {
+        entry.priceLines.forEach(line => entry.series.removePriceLine(line));
+        entry.series.detachPrimitive(entry.primitive);
+      } catch (error) {
+        // Series already removed together with its chart
+      }
+      analysisOverlayRef.current = null;
+    };
+  }, []);
+
+  // Signal flips snap to the bar that contains them, so resampled timeframes still show them
+  useEffect(() => {
+    const series = candlestickSeriesRef.current;
+    if (!isChartReady || !series) return;
+
+    const barTimes = drawingBars.map(bar => bar.time);
+    const markers: SeriesMarker<UTCTimestamp>[] = [];
+    signalFlips.forEach(flip => {
+      let index = barTimes.length - 1;
+      while (index >= 0 && barTimes[index] > flip.time) index--;
+      if (index < 0) return;
+      const time = barTimes[index] as UTCTimestamp;
+      const text = `${flip.signal.toUpperCase()} ${flip.confidence}%`;
+      // Several flips inside one bar: the last one wins
+      if (markers.length > 0 && markers[markers.length - 1].time === time) markers.pop();
+      if (flip.to === 'bullish') markers.push({ time, position: 'belowBar', color: '#10b981', shape: 'arrowUp', text });
+      else if (flip.to === 'bearish') markers.push({ time, position: 'aboveBar', color: '#ef4444', shape: 'arrowDown', text });
+      else markers.push({ time, position: 'inBar', color: '#6b7280', shape: 'circle', text });
+    });
+
+    try {
+      series.setMarkers(markers);
+    } catch (error) {
+      console.warn('⚠️ [LiveSimpleChart] Failed to set signal markers:', error);
+    }
+  }, [isChartReady, drawingBars, signalFlips]);
+
   // Handle resize events with better dimension detection
   useEffect(() => {
     if (!chartRef.current || !chartContainerRef.current) return;
@@ -1717,6 +1971,32 @@ const LiveSimpleChart: React.FC<LiveSimpleChartProps> = ({
           data-symbol={symbol}
           data-timeframe={timeframe}
         />
+
+        {/* Drawing Tools */}
+        {onDrawingsChange && isChartReady && (
+          <DrawingToolbar
+            activeTool={drawingTools.activeTool}
+            onToolChange={drawingTools.setActiveTool}
+            magnet={drawingTools.magnet}
+            onMagnetChange={drawingTools.setMagnet}
+            selectedDrawing={drawingTools.selectedDrawing}
+            onUpdateSelected={drawingTools.updateSelected}
+            onDeleteSelected={drawingTools.deleteSelected}
+            onClear={drawingTools.clearDrawings}
+            hasDrawings={drawings.length > 0}
+          />
+        )}
+
+        {/* Source of the analysis overlays */}
+        {analysisOverlays && isChartReady && (
+          <div
+            className="absolute z-10 rounded border bg-white/90 px-2 py-0.5 text-[11px] text-gray-600 shadow-sm"
+            style={{ left: onDrawingsChange ? 48 : 8, top: 'calc(70% - 26px)' }}
+          >
+            {analysisOverlays.sourceLabel} · {analysisOverlays.levels.length} levels
+            {analysisOverlays.patterns.length > 0 && ` · ${analysisOverlays.patterns.length} patterns`}
+          </div>
+        )}
         
         {/* Volume Chart Container - Takes 30% of height */}
         <div 
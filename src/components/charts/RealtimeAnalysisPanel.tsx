@@ -0,0 +1,192 @@
+import React, { useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Activity, ArrowRight, Loader2, Pin, RefreshCw } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { SignalBias, getSignalBias } from '@/utils/analysisSummary';
+import { RealtimeSnapshot, SignalFlip } from '@/utils/realtimeSignals';
+
+interface RealtimeAnalysisPanelProps {
+  symbol: string;
+  timeframeLabel: string;
+  current: RealtimeSnapshot | null;
+  history: RealtimeSnapshot[];
+  flips: SignalFlip[];
+  loading: boolean;
+  error: string | null;
+  onRefresh: () => void;
+  onPin: (snapshot: RealtimeSnapshot) => Promise<string | null>;
+  className?: string;
+}
+
+const BIAS_CLASSES: Record<SignalBias, string> = {
+  bullish: 'bg-emerald-100 text-emerald-800 border-emerald-200',
+  bearish: 'bg-red-100 text-red-800 border-red-200',
+  neutral: 'bg-gray-100 text-gray-700 border-gray-200'
+};
+
+const BIAS_DOT_CLASSES: Record<SignalBias, string> = {
+  bullish: 'bg-emerald-500',
+  bearish: 'bg-red-500',
+  neutral: 'bg-gray-300'
+};
+
+// Readings shown under the current call, in display order
+const KEY_INDICATORS: { key: string; label: string }[] = [
+  { key: 'rsi', label: 'RSI' },
+  { key: 'macd_histogram', label: 'MACD hist' },
+  { key: 'ema_12', label: 'EMA 12' },
+  { key: 'ema_26', label: 'EMA 26' },
+  { key: 'sma_50', label: 'SMA 50' },
+  { key: 'sma_200', label: 'SMA 200' }
+];
+
+const MAX_FLIPS_SHOWN = 8;
+
+const formatSnapshotTime = (value: string | number): string => {
+  const date = typeof value === 'number' ? new Date(value * 1000) : new Date(value);
+  if (Number.isNaN(date.getTime())) return String(value);
+  return date.toLocaleString('en-IN', {
+    timeZone: 'Asia/Kolkata',
+    day: 'numeric',
+    month: 'short',
+    hour: '2-digit',
+    minute: '2-digit'
+  });
+};
+
+// Indicator-vote call for the chart's symbol and timeframe, refreshed on each closed candle,
+// with the calls of recent bars and where they flipped. Labelled as a vote so it isn't read as a pipeline analysis.
+const RealtimeAnalysisPanel: React.FC<RealtimeAnalysisPanelProps> = ({
+  symbol,
+  timeframeLabel,
+  current,
+  history,
+  flips,
+  loading,
+  error,
+  onRefresh,
+  onPin,
+  className = ''
+}) => {
+  const { toast } = useToast();
+  const [pinning, setPinning] = useState(false);
+  const currentBias = current ? getSignalBias(current.signal) : 'neutral';
+  const recentFlips = flips.slice(-MAX_FLIPS_SHOWN).reverse();
+
+  const handlePin = async () => {
+    if (!current) return;
+    setPinning(true);
+    try {
+      await onPin(current);
+      toast({
+        title: 'Snapshot pinned',
+        description: `${symbol} ${current.signal.toUpperCase()} (${current.confidence}%) saved to your analyses`
+      });
+    } catch (err) {
+      toast({
+        title: 'Could not pin snapshot',
+        description: err instanceof Error ? err.message : 'Failed to store the analysis',
+        variant: 'destructive'
+      });
+    } finally {
+      setPinning(false);
+    }
+  };
+
+  return (
+    <Card className={`shadow-xl border-0 bg-white/90 backdrop-blur-sm ${className}`}>
+      <CardHeader className="pb-3">
+        <CardTitle className="flex items-center justify-between text-base text-slate-800">
+          <span className="flex items-center">
+            <Activity className="h-4 w-4 mr-2 text-blue-500" />
+            Indicator Vote
+          </span>
+          <Button variant="ghost" size="sm" className="h-7 w-7 p-0" onClick={onRefresh} disabled={loading} title="Refresh now">
+            {loading ? <Loader2 className="h-4 w-4 animate-spin" /> : <RefreshCw className="h-4 w-4" />}
+          </Button>
+        </CardTitle>
+        <CardDescription>
+          {symbol} · {timeframeLabel} · RSI, MACD and moving averages voting in your browser, updated on each closed candle.
+          Not a full analysis.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {error && !current && <p className="text-sm text-red-600">{error}</p>}
+        {!error && !current && (
+          <p className="text-sm text-slate-500">{loading ? 'Scoring indicators...' : 'No indicator vote yet'}</p>
+        )}
+
+        {current && (
+          <div className="space-y-3">
+            <div className="flex items-center justify-between gap-2">
+              <div className="flex items-center gap-2">
+                <Badge variant="outline" className={`text-sm uppercase ${BIAS_CLASSES[currentBias]}`}>
+                  {current.signal}
+                </Badge>
+                <span className="text-sm font-medium text-slate-700">{current.confidence}%</span>
+              </div>
+              <Button size="sm" variant="outline" className="h-7" onClick={handlePin} disabled={pinning}>
+                {pinning ? <Loader2 className="h-3 w-3 mr-1 animate-spin" /> : <Pin className="h-3 w-3 mr-1" />}
+                Pin
+              </Button>
+            </div>
+            <p className="text-xs text-slate-500">Bar of {formatSnapshotTime(current.timestamp)} IST</p>
+            <div className="grid grid-cols-2 gap-x-4 gap-y-1 text-xs">
+              {KEY_INDICATORS.filter(indicator => current.indicators[indicator.key] !== undefined).map(indicator => (
+                <div key={indicator.key} className="flex justify-between">
+                  <span className="text-slate-500">{indicator.label}</span>
+                  <span className="font-medium text-slate-700">{current.indicators[indicator.key].toFixed(2)}</span>
+                </div>
+              ))}
+            </div>
+            {error && <p className="text-xs text-amber-600">Last refresh failed: {error}</p>}
+          </div>
+        )}
+
+        {history.length > 1 && (
+          <div>
+            <div className="mb-1 text-xs font-medium text-slate-600">Last {history.length} bars</div>
+            <div className="flex flex-wrap gap-0.5">
+              {history.map(snapshot => {
+                const bias = getSignalBias(snapshot.signal);
+                return (
+                  <span
+                    key={snapshot.timestamp}
+                    className={`h-3 w-2 rounded-sm ${BIAS_DOT_CLASSES[bias]}`}
+                    title={`${formatSnapshotTime(snapshot.timestamp)}: ${snapshot.signal} ${snapshot.confidence}%`}
+                  />
+                );
+              })}
+            </div>
+          </div>
+        )}
+
+        {history.length > 1 && (
+          <div>
+            <div className="mb-1 text-xs font-medium text-slate-600">Signal changes</div>
+            {recentFlips.length === 0 ? (
+              <p className="text-xs text-slate-500">No change of call in the loaded bars</p>
+            ) : (
+              <ul className="space-y-1">
+                {recentFlips.map(flip => (
+                  <li key={flip.time} className="flex items-center justify-between gap-2 text-xs">
+                    <span className="text-slate-500">{formatSnapshotTime(flip.time)}</span>
+                    <span className="flex items-center gap-1">
+                      <Badge variant="outline" className={`text-[10px] capitalize ${BIAS_CLASSES[flip.from]}`}>{flip.from}</Badge>
+                      <ArrowRight className="h-3 w-3 text-slate-400" />
+                      <Badge variant="outline" className={`text-[10px] capitalize ${BIAS_CLASSES[flip.to]}`}>{flip.to}</Badge>
+                    </span>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default RealtimeAnalysisPanel;
@@ -6,6 +6,9 @@ import { Button } from '@/components/ui/button';
 import { Alert, AlertDescription } from '@/components/ui/alert';
 import { TrendingUp, TrendingDown, Minus, Activity, Wifi, WifiOff, RefreshCw } from 'lucide-react';
 import { formatCurrency, formatPercentage, formatPriceChange } from '@/utils/numberFormatter';
+import { createTickMarkFormatter } from '@/utils/chartUtils';
+import { useMarketSession } from '@/hooks/useMarketSession';
+import { MarketStatusBadge } from '@/components/MarketStatusBadge';
 
 interface ChartData {
   date: string;
@@ -66,6 +69,7 @@ const SimpleChart: React.FC<SimpleChartProps> = ({
   const [isChartReady, setIsChartReady] = useState(false);
   const [chartError, setChartError] = useState<string | null>(null);
   const [lastChartUpdate, setLastChartUpdate] = useState(0);
+  const { session: marketSession } = useMarketSession();
 
   // Convert data to candlestick format
   const convertToCandlestickData = useCallback((chartData: ChartData[]): CandlestickData[] => {
@@ -151,39 +155,7 @@ const SimpleChart: React.FC<SimpleChartProps> = ({
           secondsVisible: false,
           rightOffset: 12,
           barSpacing: 3,
-          tickMarkFormatter: (time: number) => {
-            const date = new Date(time * 1000);
-            
-            // For 1-day interval, show only date
-            if (timeframe === '1d' || timeframe === '1day') {
-              return date.toLocaleDateString('en-IN', { 
-                timeZone: 'Asia/Kolkata',
-                month: 'short', 
-                day: 'numeric',
-                year: 'numeric'
-              });
-            } else if (timeframe === '1h' || timeframe === '60min' || timeframe === '60minute') {
-              // For hourly intervals, show date and full time
-              return date.toLocaleDateString('en-IN', { 
-                timeZone: 'Asia/Kolkata',
-                month: 'short', 
-                day: 'numeric',
-                hour: '2-digit',
-                minute: '2-digit',
-                hour12: false
-              });
-            } else {
-              // For minute intervals, show date and time
-              return date.toLocaleDateString('en-IN', { 
-                timeZone: 'Asia/Kolkata',
-                month: 'short', 
-                day: 'numeric',
-                hour: '2-digit',
-                minute: '2-digit',
-                hour12: false
-              });
-            }
-          },
+          tickMarkFormatter: createTickMarkFormatter(timeframe),
         },
         rightPriceScale: {
           autoScale: true,
@@ -386,7 +358,15 @@ const SimpleChart: React.FC<SimpleChartProps> = ({
 
   // Connection Status Component
   const ConnectionStatus = () => {
-    if (!isConnected) return null;
+    if (!isConnected) {
+      // The stream stays down outside market hours; say why rather than showing nothing
+      if (marketSession.phase !== 'closed') return null;
+      return (
+        <div className="absolute top-2 right-2 z-10">
+          <MarketStatusBadge />
+        </div>
+      );
+    }
 
     const getStatusIcon = () => {
       if (isLive) return <Activity className="h-4 w-4 text-green-500" />;
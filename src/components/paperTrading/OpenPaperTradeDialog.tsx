@@ -0,0 +1,204 @@
+import React, { useMemo, useState } from 'react';
+import { Link } from 'react-router-dom';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Briefcase } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { useLiveQuotes } from '@/hooks/useLiveQuotes';
+import { usePaperTradingStore } from '@/stores/paperTradingStore';
+import { PaperHorizon } from '@/types/paperTrading';
+import {
+  PAPER_HORIZON_LABELS,
+  getPaperPlanQuantity,
+  getPaperTradePlan,
+  summarizePaperPortfolio
+} from '@/utils/paperTrading';
+
+interface OpenPaperTradeDialogProps {
+  symbol: string;
+  analysisData: unknown;
+  analysisId?: string | null;
+}
+
+const HORIZONS: PaperHorizon[] = ['short_term', 'medium_term'];
+
+const formatPrice = (value: number | null | undefined): string => (value == null ? '—' : `₹${value.toFixed(2)}`);
+
+// Opens a simulated position that follows one horizon of the analysis' trading strategy.
+// Size defaults to the analysis' position sizing against current paper equity.
+const OpenPaperTradeDialog: React.FC<OpenPaperTradeDialogProps> = ({ symbol, analysisData, analysisId }) => {
+  const { toast } = useToast();
+  const portfolio = usePaperTradingStore(state => state.portfolio);
+  const openPosition = usePaperTradingStore(state => state.openPosition);
+  const [open, setOpen] = useState(false);
+
+  const plans = useMemo(
+    () => HORIZONS.map(horizon => getPaperTradePlan(analysisData, horizon)).filter(plan => plan !== null),
+    [analysisData]
+  );
+  const [horizon, setHorizon] = useState<PaperHorizon | null>(null);
+  const plan = plans.find(p => p.horizon === horizon) ?? plans[0] ?? null;
+
+  const quotes = useLiveQuotes(open && symbol ? [symbol] : []);
+  const ltp = quotes[symbol.toUpperCase()]?.ltp ?? null;
+
+  // The size is worked out against where the order is expected to fill: the live price
+  // clamped into the entry range, or the middle of the range until a price arrives
+  const expectedEntry = useMemo(() => {
+    if (!plan) return null;
+    if (!plan.entryRange) return ltp;
+    const [low, high] = plan.entryRange;
+    return ltp === null ? (low + high) / 2 : Math.min(Math.max(ltp, low), high);
+  }, [plan, ltp]);
+
+  const summary = useMemo(() => summarizePaperPortfolio(portfolio), [portfolio]);
+  const suggestedQuantity = plan && expectedEntry
+    ? getPaperPlanQuantity(plan, expectedEntry, summary.equity, summary.cash)
+    : 0;
+  // null follows the suggestion until the user types a size
+  const [quantity, setQuantity] = useState<string | null>(null);
+  const quantityValue = quantity ?? (suggestedQuantity > 0 ? String(suggestedQuantity) : '');
+
+  if (plans.length === 0 || !symbol) return null;
+
+  const parsedQuantity = Math.floor(Number(quantityValue));
+  const canSubmit = plan !== null && parsedQuantity > 0;
+
+  const handleSubmit = () => {
+    if (!plan || !canSubmit) return;
+    const position = openPosition(
+      {
+        symbol,
+        side: plan.side,
+        quantity: parsedQuantity,
+        entryRange: plan.entryRange,
+        stopLoss: plan.stopLoss,
+        targets: plan.targets,
+        analysisId: analysisId ?? null,
+        horizon: plan.horizon,
+        horizonDays: plan.horizonDays
+      },
+      ltp
+    );
+    toast({
+      title: position.status === 'open' ? 'Paper position opened' : 'Paper order placed',
+      description: position.status === 'open'
+        ? `${plan.side === 'long' ? 'Bought' : 'Sold short'} ${position.quantity} ${position.symbol} at ${formatPrice(position.entryPrice)}`
+        : plan.entryRange
+          ? `${position.symbol} fills when the price enters ${formatPrice(plan.entryRange[0])} – ${formatPrice(plan.entryRange[1])}`
+          : `${position.symbol} fills at the next live price`
+    });
+    setOpen(false);
+  };
+
+  return (
+    <>
+      <Button variant="outline" className="w-full" onClick={() => { setQuantity(null); setOpen(true); }}>
+        <Briefcase className="h-4 w-4 mr-2" />
+        Paper Trade This Analysis
+      </Button>
+      <Dialog open={open} onOpenChange={setOpen}>
+        <DialogContent className="sm:max-w-[520px]">
+          <DialogHeader>
+            <DialogTitle>Paper trade {symbol.toUpperCase()}</DialogTitle>
+            <DialogDescription>
+              Opens a simulated position that closes itself at the analysis' stop-loss or targets.
+            </DialogDescription>
+          </DialogHeader>
+
+          {plan && (
+            <div className="space-y-4">
+              {plans.length > 1 && (
+                <div className="space-y-1">
+                  <Label>Strategy horizon</Label>
+                  <Select value={plan.horizon} onValueChange={(value) => { setHorizon(value as PaperHorizon); setQuantity(null); }}>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {plans.map(p => (
+                        <SelectItem key={p.horizon} value={p.horizon}>{PAPER_HORIZON_LABELS[p.horizon]}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              )}
+
+              <div className="grid grid-cols-2 gap-3 rounded-md border bg-slate-50 p-3 text-sm">
+                <div>
+                  <div className="text-xs text-gray-500">Side</div>
+                  <Badge variant="outline" className={plan.side === 'long' ? 'bg-emerald-100 text-emerald-800 border-emerald-200' : 'bg-red-100 text-red-800 border-red-200'}>
+                    {plan.side === 'long' ? 'Long' : 'Short'}
+                  </Badge>
+                </div>
+                <div>
+                  <div className="text-xs text-gray-500">Live price</div>
+                  <div className="tabular-nums">{formatPrice(ltp)}</div>
+                </div>
+                <div>
+                  <div className="text-xs text-gray-500">Entry range</div>
+                  <div className="tabular-nums">
+                    {plan.entryRange ? `${formatPrice(plan.entryRange[0])} – ${formatPrice(plan.entryRange[1])}` : 'At market'}
+                  </div>
+                </div>
+                <div>
+                  <div className="text-xs text-gray-500">Stop-loss</div>
+                  <div className="tabular-nums text-red-700">{formatPrice(plan.stopLoss)}</div>
+                </div>
+                <div className="col-span-2">
+                  <div className="text-xs text-gray-500">Targets</div>
+                  <div className="tabular-nums text-emerald-700">
+                    {plan.targets.length > 0 ? plan.targets.map(target => formatPrice(target)).join(' → ') : 'None; close manually'}
+                  </div>
+                </div>
+                <div className="col-span-2 text-xs text-gray-500">
+                  Risking {plan.riskPct}% of equity, capped at {plan.maxPositionPct}% per position.
+                  Unfilled orders lapse after {plan.horizonDays} days.
+                </div>
+              </div>
+
+              <div className="space-y-1">
+                <Label htmlFor="paper-quantity">Quantity</Label>
+                <Input
+                  id="paper-quantity"
+                  type="number"
+                  min="1"
+                  step="1"
+                  value={quantityValue}
+                  onChange={(e) => setQuantity(e.target.value)}
+                />
+                <p className="text-xs text-gray-500">
+                  Paper equity {formatPrice(summary.equity)}, cash {formatPrice(summary.cash)}.
+                  {suggestedQuantity === 0 && ' No size fits the available cash at this price.'}
+                </p>
+              </div>
+            </div>
+          )}
+
+          <DialogFooter className="flex-col sm:flex-row gap-2">
+            <Link to="/portfolio" className="text-sm text-blue-600 hover:underline self-center sm:mr-auto">
+              View paper portfolio
+            </Link>
+            <Button variant="outline" onClick={() => setOpen(false)}>Cancel</Button>
+            <Button onClick={handleSubmit} disabled={!canSubmit}>
+              {plan?.side === 'short' ? 'Sell short' : 'Buy'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+};
+
+export default OpenPaperTradeDialog;
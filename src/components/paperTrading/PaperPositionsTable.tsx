@@ -0,0 +1,182 @@
+import React from 'react';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { ExternalLink, Trash2, X } from 'lucide-react';
+import { PaperPosition, PaperPositionStatus } from '@/types/paperTrading';
+import { PAPER_HORIZON_LABELS, getPaperUnrealizedPnl } from '@/utils/paperTrading';
+import { outcomePctClass } from '@/utils/signalOutcomes';
+
+interface PaperPositionsTableProps {
+  positions: PaperPosition[];
+  // 'active' lists pending and open positions against live prices; 'closed' lists finished ones
+  mode: 'active' | 'closed';
+  prices?: Record<string, number | null>;
+  onClose?: (position: PaperPosition) => void;
+  onRemove?: (position: PaperPosition) => void;
+  onOpenAnalysis?: (analysisId: string) => void;
+}
+
+const STATUS_CLASSES: Record<PaperPositionStatus, string> = {
+  pending: 'bg-amber-100 text-amber-800 border-amber-200',
+  open: 'bg-blue-100 text-blue-800 border-blue-200',
+  closed: 'bg-gray-100 text-gray-700 border-gray-200',
+  cancelled: 'bg-gray-100 text-gray-500 border-gray-200'
+};
+
+const STATUS_LABELS: Record<PaperPositionStatus, string> = {
+  pending: 'Pending',
+  open: 'Open',
+  closed: 'Closed',
+  cancelled: 'Cancelled'
+};
+
+const formatPrice = (value: number | null | undefined): string => (value == null ? '—' : value.toFixed(2));
+
+const formatPnl = (value: number): string =>
+  `${value > 0 ? '+' : value < 0 ? '-' : ''}₹${Math.abs(value).toLocaleString('en-IN', { maximumFractionDigits: 0 })}`;
+
+const formatDate = (iso: string | null): string =>
+  iso ? new Date(iso).toLocaleDateString('en-IN', { day: 'numeric', month: 'short', year: 'numeric' }) : '—';
+
+// Exits so far, e.g. "T1 50 @ 512.40, Stop 50 @ 488.00"
+const describeExits = (position: PaperPosition): string =>
+  position.fills
+    .filter(fill => fill.kind === 'exit')
+    .map(fill => `${fill.label} ${fill.quantity} @ ${fill.price.toFixed(2)}`)
+    .join(', ');
+
+export const PaperPositionsTable: React.FC<PaperPositionsTableProps> = ({
+  positions,
+  mode,
+  prices = {},
+  onClose,
+  onRemove,
+  onOpenAnalysis
+}) => {
+  if (positions.length === 0) {
+    return (
+      <p className="text-sm text-gray-500">
+        {mode === 'active'
+          ? 'No open positions. Open one from an analysis result with "Paper Trade This Analysis".'
+          : 'No closed trades yet.'}
+      </p>
+    );
+  }
+
+  return (
+    <div className="overflow-x-auto rounded-md border bg-white">
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead>Symbol</TableHead>
+            <TableHead>Status</TableHead>
+            <TableHead className="text-right">Qty</TableHead>
+            <TableHead className="text-right">Entry</TableHead>
+            {mode === 'active' ? (
+              <>
+                <TableHead className="text-right">LTP</TableHead>
+                <TableHead className="text-right">Stop</TableHead>
+                <TableHead className="text-right">Targets</TableHead>
+                <TableHead className="text-right">Unrealised</TableHead>
+              </>
+            ) : (
+              <>
+                <TableHead>Exits</TableHead>
+                <TableHead>Closed</TableHead>
+              </>
+            )}
+            <TableHead className="text-right">Realised</TableHead>
+            <TableHead className="w-20" />
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {positions.map(position => {
+            const price = prices[position.symbol] ?? position.lastPrice;
+            const unrealized = getPaperUnrealizedPnl(position, price);
+            return (
+              <TableRow key={position.id}>
+                <TableCell className="whitespace-nowrap">
+                  <div className="font-semibold">{position.symbol}</div>
+                  <div className="text-xs text-gray-500">
+                    {position.side === 'long' ? 'Long' : 'Short'}
+                    {position.horizon && ` · ${PAPER_HORIZON_LABELS[position.horizon]}`}
+                  </div>
+                </TableCell>
+                <TableCell>
+                  <Badge variant="outline" className={STATUS_CLASSES[position.status]}>{STATUS_LABELS[position.status]}</Badge>
+                </TableCell>
+                <TableCell className="text-right tabular-nums">
+                  {mode === 'active' && position.status === 'open' && position.openQuantity !== position.quantity
+                    ? `${position.openQuantity} / ${position.quantity}`
+                    : position.quantity}
+                </TableCell>
+                <TableCell className="text-right tabular-nums">
+                  {position.entryPrice !== null
+                    ? formatPrice(position.entryPrice)
+                    : position.entryRange
+                      ? `${formatPrice(position.entryRange[0])}–${formatPrice(position.entryRange[1])}`
+                      : 'Market'}
+                </TableCell>
+                {mode === 'active' ? (
+                  <>
+                    <TableCell className="text-right tabular-nums">{formatPrice(price)}</TableCell>
+                    <TableCell className="text-right tabular-nums text-red-700">{formatPrice(position.stopLoss)}</TableCell>
+                    <TableCell className="text-right tabular-nums text-emerald-700">
+                      {position.targets.length === 0
+                        ? '—'
+                        : position.targets.map((target, i) => (
+                            <span key={i} className={`ml-2 ${target.filled ? 'line-through text-gray-400' : ''}`}>
+                              {formatPrice(target.price)}
+                            </span>
+                          ))}
+                    </TableCell>
+                    <TableCell className={`text-right tabular-nums ${outcomePctClass(unrealized)}`}>
+                      {position.status === 'open' ? formatPnl(unrealized) : '—'}
+                    </TableCell>
+                  </>
+                ) : (
+                  <>
+                    <TableCell className="max-w-[260px] truncate text-xs text-gray-600" title={describeExits(position)}>
+                      {describeExits(position) || '—'}
+                    </TableCell>
+                    <TableCell className="whitespace-nowrap text-sm">{formatDate(position.closedAt)}</TableCell>
+                  </>
+                )}
+                <TableCell className={`text-right tabular-nums ${outcomePctClass(position.realizedPnl)}`}>
+                  {position.status === 'cancelled' ? '—' : formatPnl(position.realizedPnl)}
+                </TableCell>
+                <TableCell className="text-right whitespace-nowrap">
+                  {position.analysisId && onOpenAnalysis && (
+                    <Button variant="ghost" size="sm" className="h-7 w-7 p-0" title="Open analysis" onClick={() => onOpenAnalysis(position.analysisId)}>
+                      <ExternalLink className="h-4 w-4" />
+                    </Button>
+                  )}
+                  {mode === 'active' && onClose && (
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      className="h-7 w-7 p-0"
+                      title={position.status === 'pending' ? 'Cancel order' : 'Close at live price'}
+                      disabled={position.status === 'open' && price === null}
+                      onClick={() => onClose(position)}
+                    >
+                      <X className="h-4 w-4 text-red-600" />
+                    </Button>
+                  )}
+                  {mode === 'closed' && onRemove && (
+                    <Button variant="ghost" size="sm" className="h-7 w-7 p-0" title="Delete trade" onClick={() => onRemove(position)}>
+                      <Trash2 className="h-4 w-4 text-red-600" />
+                    </Button>
+                  )}
+                </TableCell>
+              </TableRow>
+            );
+          })}
+        </TableBody>
+      </Table>
+    </div>
+  );
+};
+
+export default PaperPositionsTable;
@@ -0,0 +1,55 @@
+import { useEffect } from 'react';
+import { useAuth } from '@/contexts/AuthContext';
+import { useToast } from '@/hooks/use-toast';
+import { usePaperTradingStore } from '@/stores/paperTradingStore';
+import { paperTradingEngine } from '@/services/paperTradingEngine';
+import { PaperPosition } from '@/types/paperTrading';
+
+const getWatchedSymbols = (positions: PaperPosition[]): string =>
+  Array.from(new Set(
+    positions
+      .filter(position => position.status === 'pending' || position.status === 'open')
+      .map(position => position.symbol)
+  )).sort().join(',');
+
+// Keeps paper positions marked to the live price on every page, filling pending orders and
+// closing positions at their stop or targets. Renders nothing; fills surface as toasts.
+const PaperTradingMonitor = () => {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const loadPortfolio = usePaperTradingStore(state => state.loadPortfolio);
+  const applyPrice = usePaperTradingStore(state => state.applyPrice);
+
+  useEffect(() => {
+    if (!user?.id) {
+      paperTradingEngine.stop();
+      return;
+    }
+    loadPortfolio(user.id);
+
+    // Compared as a joined string so price-only updates don't resubscribe
+    const syncSymbols = (symbols: string) => paperTradingEngine.setSymbols(symbols ? symbols.split(',') : []);
+    syncSymbols(getWatchedSymbols(usePaperTradingStore.getState().portfolio.positions));
+    const unsubscribeStore = usePaperTradingStore.subscribe(
+      state => getWatchedSymbols(state.portfolio.positions),
+      syncSymbols
+    );
+
+    return () => {
+      unsubscribeStore();
+      paperTradingEngine.stop();
+    };
+  }, [user?.id, loadPortfolio]);
+
+  useEffect(() => {
+    return paperTradingEngine.onPrice((symbol, price) => {
+      applyPrice(symbol, price).forEach(event => {
+        toast({ title: `📈 Paper trade: ${event.symbol}`, description: event.message });
+      });
+    });
+  }, [applyPrice, toast]);
+
+  return null;
+};
+
+export default PaperTradingMonitor;
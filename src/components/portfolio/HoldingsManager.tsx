@@ -0,0 +1,213 @@
+import React, { useRef, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import { Switch } from '@/components/ui/switch';
+import { Label } from '@/components/ui/label';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Briefcase, FileUp, Plus, Trash2 } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { useHoldingsStore } from '@/stores/holdingsStore';
+import { usePaperTradingStore } from '@/stores/paperTradingStore';
+import { HoldingSide, HoldingSource } from '@/types/portfolio';
+import { getPaperHoldingInputs, normalizeHoldingSymbol, parseHoldingsCsv } from '@/utils/portfolioHoldings';
+
+interface HoldingsManagerProps {
+  // Without these the switch for sending holdings with an analysis is hidden
+  includeContext?: boolean;
+  onIncludeContextChange?: (include: boolean) => void;
+  description?: string;
+}
+
+const SOURCE_LABELS: Record<HoldingSource, string> = {
+  manual: 'Manual',
+  csv: 'CSV',
+  paper: 'Paper'
+};
+
+const MAX_LISTED_ERRORS = 5;
+
+const formatRupees = (value: number): string =>
+  `₹${value.toLocaleString('en-IN', { maximumFractionDigits: 0 })}`;
+
+// The user's full book for the request form: typed in, imported from a broker holdings CSV or copied
+// from the paper portfolio. Sector exposure and correlations are worked out from it when the analysis starts.
+const HoldingsManager: React.FC<HoldingsManagerProps> = ({
+  includeContext = false,
+  onIncludeContextChange,
+  description = 'Your whole book, so the analysis can weigh sector exposure and correlation with what you already hold.'
+}) => {
+  const { toast } = useToast();
+  const holdings = useHoldingsStore(state => state.holdings);
+  const addHolding = useHoldingsStore(state => state.addHolding);
+  const removeHolding = useHoldingsStore(state => state.removeHolding);
+  const importHoldings = useHoldingsStore(state => state.importHoldings);
+  const clearHoldings = useHoldingsStore(state => state.clearHoldings);
+  // Only the count is needed here, so price ticks don't re-render the form
+  const paperPositionCount = usePaperTradingStore(state => getPaperHoldingInputs(state.portfolio.positions).length);
+
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [importErrors, setImportErrors] = useState<string[]>([]);
+  const [symbol, setSymbol] = useState('');
+  const [quantity, setQuantity] = useState('');
+  const [averagePrice, setAveragePrice] = useState('');
+  const [side, setSide] = useState<HoldingSide>('long');
+
+  const costValue = holdings.reduce((sum, holding) => sum + holding.quantity * holding.averagePrice, 0);
+  const sectorCount = new Set(holdings.map(holding => holding.sector).filter(Boolean)).size;
+
+  const handleAdd = () => {
+    const parsedQuantity = parseFloat(quantity);
+    const parsedPrice = parseFloat(averagePrice);
+    if (!normalizeHoldingSymbol(symbol) || !(parsedQuantity > 0) || !(parsedPrice > 0)) {
+      toast({ title: 'Incomplete holding', description: 'Enter a symbol, a quantity and an average price.', variant: 'destructive' });
+      return;
+    }
+    addHolding({ symbol, quantity: parsedQuantity, averagePrice: parsedPrice, side });
+    setSymbol('');
+    setQuantity('');
+    setAveragePrice('');
+    setSide('long');
+  };
+
+  // Enter in the row adds the holding instead of submitting the analysis form
+  const handleRowKeyDown = (event: React.KeyboardEvent) => {
+    if (event.key !== 'Enter') return;
+    event.preventDefault();
+    handleAdd();
+  };
+
+  const handleCsvFile = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+    try {
+      const { holdings: parsed, errors } = parseHoldingsCsv(await file.text());
+      setImportErrors(errors);
+      if (parsed.length === 0) {
+        toast({ title: 'Nothing imported', description: errors[0] || 'The file has no holdings.', variant: 'destructive' });
+        return;
+      }
+      const count = importHoldings(parsed, 'csv');
+      toast({
+        title: 'Holdings imported',
+        description: `${count} holdings from ${file.name}${errors.length > 0 ? `; ${errors.length} lines skipped` : ''}. Earlier CSV imports were replaced.`
+      });
+    } catch (error) {
+      toast({ title: 'Could not read file', description: error instanceof Error ? error.message : String(error), variant: 'destructive' });
+    }
+  };
+
+  const handleImportPaper = () => {
+    const count = importHoldings(getPaperHoldingInputs(usePaperTradingStore.getState().portfolio.positions), 'paper');
+    toast({ title: 'Paper positions imported', description: `${count} open paper positions added as holdings.` });
+  };
+
+  return (
+    <div className="space-y-3 p-3 bg-slate-50 rounded-lg border border-slate-200">
+      <div className="flex flex-wrap items-start justify-between gap-3">
+        <div>
+          <h3 className="text-base font-semibold text-slate-800 flex items-center">
+            <Briefcase className="h-4 w-4 mr-2 text-slate-500" />
+            Portfolio Holdings{onIncludeContextChange && ' (Optional)'}
+          </h3>
+          <p className="text-sm text-slate-600">{description}</p>
+        </div>
+        {onIncludeContextChange && (
+          <div className="flex items-center gap-2">
+            <Switch
+              id="include-portfolio-context"
+              checked={includeContext && holdings.length > 0}
+              disabled={holdings.length === 0}
+              onCheckedChange={onIncludeContextChange}
+            />
+            <Label htmlFor="include-portfolio-context" className="text-sm text-slate-700">Send with analysis</Label>
+          </div>
+        )}
+      </div>
+
+      <div className="flex flex-wrap gap-2">
+        <input ref={fileInputRef} type="file" accept=".csv,text/csv" className="hidden" onChange={handleCsvFile} />
+        <Button type="button" variant="outline" size="sm" onClick={() => fileInputRef.current?.click()}>
+          <FileUp className="h-4 w-4 mr-1" /> Import broker CSV
+        </Button>
+        <Button type="button" variant="outline" size="sm" onClick={handleImportPaper} disabled={paperPositionCount === 0}>
+          <Briefcase className="h-4 w-4 mr-1" /> Import paper positions{paperPositionCount > 0 && ` (${paperPositionCount})`}
+        </Button>
+        {holdings.length > 0 && (
+          <Button type="button" variant="ghost" size="sm" className="text-red-600" onClick={clearHoldings}>
+            Clear all
+          </Button>
+        )}
+      </div>
+
+      {importErrors.length > 0 && (
+        <div className="rounded-md border border-amber-200 bg-amber-50 p-2 text-xs text-amber-800">
+          {importErrors.slice(0, MAX_LISTED_ERRORS).map(error => <div key={error}>{error}</div>)}
+          {importErrors.length > MAX_LISTED_ERRORS && <div>…and {importErrors.length - MAX_LISTED_ERRORS} more</div>}
+        </div>
+      )}
+
+      <div className="flex flex-wrap items-end gap-2" onKeyDown={handleRowKeyDown}>
+        <Input className="w-32 bg-white" placeholder="Symbol" value={symbol} onChange={(e) => setSymbol(e.target.value.toUpperCase())} />
+        <Input className="w-24 bg-white" placeholder="Qty" inputMode="numeric" value={quantity} onChange={(e) => setQuantity(e.target.value.replace(/[^0-9]/g, ''))} />
+        <Input className="w-32 bg-white" placeholder="Avg price (₹)" inputMode="decimal" value={averagePrice} onChange={(e) => setAveragePrice(e.target.value.replace(/[^0-9.]/g, ''))} />
+        <select
+          value={side}
+          onChange={(e) => setSide(e.target.value as HoldingSide)}
+          className="h-10 px-3 border border-gray-300 rounded-md bg-white text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+        >
+          <option value="long">Long</option>
+          <option value="short">Short</option>
+        </select>
+        <Button type="button" size="sm" className="h-10" onClick={handleAdd}>
+          <Plus className="h-4 w-4 mr-1" /> Add
+        </Button>
+      </div>
+
+      {holdings.length > 0 && (
+        <>
+          <div className="max-h-64 overflow-y-auto rounded-md border bg-white">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Symbol</TableHead>
+                  <TableHead className="text-right">Qty</TableHead>
+                  <TableHead className="text-right">Avg price</TableHead>
+                  <TableHead>Sector</TableHead>
+                  <TableHead>Source</TableHead>
+                  <TableHead className="w-10" />
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {holdings.map(holding => (
+                  <TableRow key={holding.id}>
+                    <TableCell className="font-medium">
+                      {holding.symbol}
+                      {holding.side === 'short' && <Badge variant="outline" className="ml-2 text-red-700 border-red-200">Short</Badge>}
+                    </TableCell>
+                    <TableCell className="text-right tabular-nums">{holding.quantity}</TableCell>
+                    <TableCell className="text-right tabular-nums">{holding.averagePrice.toFixed(2)}</TableCell>
+                    <TableCell className="text-sm text-slate-600">{holding.sector || '—'}</TableCell>
+                    <TableCell><Badge variant="secondary">{SOURCE_LABELS[holding.source]}</Badge></TableCell>
+                    <TableCell>
+                      <Button type="button" variant="ghost" size="sm" className="h-7 w-7 p-0" title="Remove holding" onClick={() => removeHolding(holding.id)}>
+                        <Trash2 className="h-4 w-4 text-red-600" />
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+          <p className="text-xs text-slate-500">
+            {holdings.length} holdings · {formatRupees(costValue)} at cost
+            {sectorCount > 0 && ` · ${sectorCount} sectors`}. Sectors missing here are looked up when they are first needed.
+          </p>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default HoldingsManager;
@@ -0,0 +1,89 @@
+import React, { useEffect, useRef } from 'react';
+import { createChart, UTCTimestamp } from 'lightweight-charts';
+import { SectorReturnPoint } from '@/utils/sectorRotation';
+
+export interface SectorPerformanceSeries {
+  name: string;
+  color: string;
+  points: SectorReturnPoint[];
+}
+
+interface SectorPerformanceChartProps {
+  series: SectorPerformanceSeries[];
+  height?: number;
+}
+
+// Sector indices rebased to 0% at the start of the period so their paths compare directly
+export const SectorPerformanceChart: React.FC<SectorPerformanceChartProps> = ({ series, height = 360 }) => {
+  const chartContainerRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    if (!chartContainerRef.current || series.length === 0) return;
+
+    const chart = createChart(chartContainerRef.current, {
+      width: chartContainerRef.current.clientWidth,
+      height,
+      layout: {
+        background: { color: '#ffffff' },
+        textColor: '#333333',
+      },
+      grid: {
+        vertLines: { color: '#f0f0f0' },
+        horzLines: { color: '#f0f0f0' },
+      },
+      crosshair: {
+        mode: 1,
+      },
+      rightPriceScale: {
+        borderColor: '#cccccc',
+      },
+      timeScale: {
+        borderColor: '#cccccc',
+        timeVisible: false,
+        secondsVisible: false,
+      },
+    });
+
+    series.forEach((sector, index) => {
+      const line = chart.addLineSeries({
+        color: sector.color,
+        lineWidth: 2,
+        title: sector.name,
+        priceFormat: { type: 'custom', formatter: (value: number) => `${value.toFixed(1)}%` },
+      });
+      line.setData(sector.points.map(point => ({ time: point.time as UTCTimestamp, value: point.value })));
+      if (index === 0) {
+        line.createPriceLine({
+          price: 0,
+          color: '#94a3b8',
+          lineWidth: 1,
+          lineStyle: 2,
+          axisLabelVisible: false,
+          title: '',
+        });
+      }
+    });
+
+    chart.timeScale().fitContent();
+
+    // Handle resize
+    const handleResize = () => {
+      if (chartContainerRef.current) {
+        chart.applyOptions({
+          width: chartContainerRef.current.clientWidth,
+        });
+      }
+    };
+
+    window.addEventListener('resize', handleResize);
+
+    return () => {
+      window.removeEventListener('resize', handleResize);
+      chart.remove();
+    };
+  }, [series, height]);
+
+  return <div ref={chartContainerRef} className="w-full" style={{ height }} />;
+};
+
+export default SectorPerformanceChart;
@@ -0,0 +1,90 @@
+import React from 'react';
+import { SectorRotationData } from '@/types/analysis';
+
+interface SectorRotationHeatmapProps {
+  // One rotation per timeframe, in column order
+  rotations: SectorRotationData[];
+  activeTimeframe: string;
+  selectedSector?: string | null;
+  onSelectSector?: (sector: string) => void;
+}
+
+// Relative strength this far from the average gets the full colour
+const FULL_SCALE = 10;
+
+const cellStyle = (relativeStrength: number | undefined): React.CSSProperties => {
+  if (relativeStrength === undefined) return {};
+  const intensity = Math.min(1, Math.abs(relativeStrength) / FULL_SCALE) * 0.55;
+  return {
+    backgroundColor: relativeStrength >= 0 ? `rgba(16, 185, 129, ${intensity})` : `rgba(239, 68, 68, ${intensity})`
+  };
+};
+
+const formatSigned = (value: number): string => `${value >= 0 ? '+' : ''}${value.toFixed(1)}%`;
+
+// Sectors down the side, timeframes across: green for ahead of the sector average, red for behind.
+// Rows follow the ranking of the active timeframe, so a sector climbing from right to left is rotating in.
+const SectorRotationHeatmap: React.FC<SectorRotationHeatmapProps> = ({
+  rotations,
+  activeTimeframe,
+  selectedSector,
+  onSelectSector
+}) => {
+  const active = rotations.find(rotation => rotation.timeframe === activeTimeframe) ?? rotations[0];
+  if (!active) return null;
+
+  const sectors = Object.keys(active.sector_rankings)
+    .sort((a, b) => active.sector_rankings[a].rank - active.sector_rankings[b].rank);
+
+  return (
+    <div className="overflow-x-auto">
+      <table className="w-full text-sm tabular-nums">
+        <thead>
+          <tr className="text-xs text-gray-500">
+            <th className="px-2 py-1 text-left font-medium">#</th>
+            <th className="px-2 py-1 text-left font-medium">Sector</th>
+            {rotations.map(rotation => (
+              <th
+                key={rotation.timeframe}
+                className={`px-2 py-1 text-center font-medium ${rotation.timeframe === active.timeframe ? 'text-gray-900' : ''}`}
+              >
+                {rotation.timeframe}
+              </th>
+            ))}
+            <th className="px-2 py-1 text-right font-medium">1M momentum</th>
+          </tr>
+        </thead>
+        <tbody>
+          {sectors.map(sector => (
+            <tr
+              key={sector}
+              className={`border-t ${onSelectSector ? 'cursor-pointer hover:bg-slate-50' : ''} ${sector === selectedSector ? 'bg-indigo-50' : ''}`}
+              onClick={() => onSelectSector?.(sector)}
+            >
+              <td className="px-2 py-1 text-gray-500">{active.sector_rankings[sector].rank}</td>
+              <td className="px-2 py-1 font-medium text-gray-800">{sector}</td>
+              {rotations.map(rotation => {
+                const performance = rotation.sector_performance[sector];
+                return (
+                  <td
+                    key={rotation.timeframe}
+                    className="px-2 py-1 text-center"
+                    style={cellStyle(performance?.relative_strength)}
+                    title={performance ? `${formatSigned(performance.relative_strength)} vs sector average` : undefined}
+                  >
+                    {performance ? formatSigned(performance.total_return) : '—'}
+                  </td>
+                );
+              })}
+              <td className={`px-2 py-1 text-right ${active.sector_performance[sector].momentum >= 0 ? 'text-emerald-600' : 'text-red-600'}`}>
+                {formatSigned(active.sector_performance[sector].momentum)}
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+};
+
+export default SectorRotationHeatmap;
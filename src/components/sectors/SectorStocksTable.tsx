@@ -0,0 +1,128 @@
+import React, { useMemo, useState } from 'react';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { BarChart3, LineChart } from 'lucide-react';
+import { AnalysisSignalSummary, SignalBias, getSignalBias } from '@/utils/analysisSummary';
+
+interface SectorStocksTableProps {
+  stocks: string[];
+  signals: Record<string, AnalysisSignalSummary | null>;
+  onOpenChart: (symbol: string) => void;
+  onAnalyze: (symbol: string) => void;
+}
+
+type BiasFilter = 'all' | SignalBias | 'unanalysed';
+
+const BIAS_CLASSES: Record<SignalBias, string> = {
+  bullish: 'bg-emerald-100 text-emerald-800 border-emerald-200',
+  bearish: 'bg-red-100 text-red-800 border-red-200',
+  neutral: 'bg-gray-100 text-gray-700 border-gray-200'
+};
+
+const FILTER_LABELS: Record<BiasFilter, string> = {
+  all: 'All',
+  bullish: 'Bullish',
+  bearish: 'Bearish',
+  neutral: 'Neutral',
+  unanalysed: 'Not analysed'
+};
+
+// Constituents of one sector with the latest call from the user's own stored analyses
+const SectorStocksTable: React.FC<SectorStocksTableProps> = ({ stocks, signals, onOpenChart, onAnalyze }) => {
+  const [filter, setFilter] = useState<BiasFilter>('all');
+
+  const rows = useMemo(
+    () => stocks.map(symbol => {
+      const signal = signals[symbol];
+      return { symbol, signal, bias: signal ? getSignalBias(signal.signal) : null };
+    }),
+    [stocks, signals]
+  );
+
+  // Breadth of the user's calls across the sector; lookups still in flight count as neither
+  const counts: Record<BiasFilter, number> = {
+    all: rows.length,
+    bullish: rows.filter(row => row.bias === 'bullish').length,
+    bearish: rows.filter(row => row.bias === 'bearish').length,
+    neutral: rows.filter(row => row.bias === 'neutral').length,
+    unanalysed: rows.filter(row => row.signal === null).length
+  };
+
+  const visible = rows.filter(row =>
+    filter === 'all' || (filter === 'unanalysed' ? row.signal === null : row.bias === filter)
+  );
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap gap-2">
+        {(Object.keys(FILTER_LABELS) as BiasFilter[]).map(key => (
+          <Button
+            key={key}
+            type="button"
+            size="sm"
+            variant={filter === key ? 'default' : 'outline'}
+            className="h-7"
+            onClick={() => setFilter(key)}
+          >
+            {FILTER_LABELS[key]} ({counts[key]})
+          </Button>
+        ))}
+      </div>
+
+      <div className="max-h-[28rem] overflow-y-auto rounded-md border bg-white">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Symbol</TableHead>
+              <TableHead>Last analysis</TableHead>
+              <TableHead>Analysed</TableHead>
+              <TableHead className="w-24 text-right">Actions</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {visible.length === 0 && (
+              <TableRow>
+                <TableCell colSpan={4} className="py-8 text-center text-sm text-gray-500">
+                  {stocks.length === 0 ? 'No constituents listed for this sector.' : 'No stocks match the filter.'}
+                </TableCell>
+              </TableRow>
+            )}
+            {visible.map(({ symbol, signal, bias }) => (
+              <TableRow key={symbol}>
+                <TableCell className="font-semibold">{symbol}</TableCell>
+                <TableCell>
+                  {signal ? (
+                    <div className="flex items-center gap-2">
+                      <Badge variant="outline" className={BIAS_CLASSES[bias || 'neutral']}>
+                        {signal.signal || 'n/a'}
+                      </Badge>
+                      {signal.confidence !== null && <span className="text-xs text-gray-600">{Math.round(signal.confidence)}%</span>}
+                    </div>
+                  ) : (
+                    <span className="text-xs text-gray-400">{signal === null ? 'Not analysed' : '…'}</span>
+                  )}
+                </TableCell>
+                <TableCell className="text-xs text-gray-500">
+                  {signal?.analysisDate ? new Date(signal.analysisDate).toLocaleDateString('en-IN') : '—'}
+                </TableCell>
+                <TableCell className="text-right">
+                  <div className="flex justify-end gap-1">
+                    <Button variant="ghost" size="sm" className="h-7 w-7 p-0" title="Open chart" onClick={() => onOpenChart(symbol)}>
+                      <LineChart className="h-4 w-4" />
+                    </Button>
+                    <Button variant="ghost" size="sm" className="h-7 w-7 p-0" title="New analysis" onClick={() => onAnalyze(symbol)}>
+                      <BarChart3 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </div>
+    </div>
+  );
+};
+
+export default SectorStocksTable;
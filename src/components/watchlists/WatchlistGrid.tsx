@@ -0,0 +1,255 @@
+import React, { useMemo, useState } from 'react';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { ArrowDown, ArrowUp, ArrowUpDown, BarChart3, ChevronDown, ChevronUp, LineChart, Trash2 } from 'lucide-react';
+import { LiveQuote } from '@/hooks/useLiveQuotes';
+import { AnalysisSignalSummary, SignalBias, getSignalBias } from '@/utils/analysisSummary';
+import { formatCurrency } from '@/utils/numberFormatter';
+
+interface WatchlistGridProps {
+  symbols: string[];
+  quotes: Record<string, LiveQuote>;
+  signals: Record<string, AnalysisSignalSummary | null>;
+  onOpenChart: (symbol: string) => void;
+  onAnalyze: (symbol: string) => void;
+  onRemove: (symbol: string) => void;
+  onMove: (fromIndex: number, toIndex: number) => void;
+}
+
+type SortKey = 'order' | 'symbol' | 'ltp' | 'changePercent' | 'volumeRatio' | 'confidence';
+
+interface GridRow {
+  symbol: string;
+  index: number;
+  quote: LiveQuote | undefined;
+  signal: AnalysisSignalSummary | null | undefined;
+  bias: SignalBias | null;
+}
+
+const BIAS_CLASSES: Record<SignalBias, string> = {
+  bullish: 'bg-emerald-100 text-emerald-800 border-emerald-200',
+  bearish: 'bg-red-100 text-red-800 border-red-200',
+  neutral: 'bg-gray-100 text-gray-700 border-gray-200'
+};
+
+const formatVolume = (volume: number | null | undefined): string => {
+  if (volume === null || volume === undefined) return '—';
+  if (volume >= 1e7) return `${(volume / 1e7).toFixed(2)} Cr`;
+  if (volume >= 1e5) return `${(volume / 1e5).toFixed(2)} L`;
+  return volume.toLocaleString('en-IN');
+};
+
+const getSortValue = (row: GridRow, key: SortKey): number | string | null => {
+  switch (key) {
+    case 'symbol':
+      return row.symbol;
+    case 'ltp':
+      return row.quote?.ltp ?? null;
+    case 'changePercent':
+      return row.quote?.changePercent ?? null;
+    case 'volumeRatio':
+      return row.quote?.volumeRatio ?? null;
+    case 'confidence':
+      return row.signal?.confidence ?? null;
+    default:
+      return row.index;
+  }
+};
+
+// Day range bar: where the LTP sits between the day's low and high
+const DayRange: React.FC<{ quote: LiveQuote | undefined }> = ({ quote }) => {
+  if (!quote || quote.dayLow === null || quote.dayHigh === null || quote.ltp === null) {
+    return <span className="text-gray-400">—</span>;
+  }
+  const span = quote.dayHigh - quote.dayLow;
+  const position = span > 0 ? ((quote.ltp - quote.dayLow) / span) * 100 : 50;
+  return (
+    <div className="flex min-w-[140px] items-center gap-2 text-xs text-gray-500">
+      <span>{quote.dayLow.toFixed(2)}</span>
+      <div className="relative h-1.5 flex-1 rounded bg-gray-200">
+        <div className="absolute top-1/2 h-2.5 w-1 -translate-y-1/2 rounded bg-blue-600" style={{ left: `${Math.min(100, Math.max(0, position))}%` }} />
+      </div>
+      <span>{quote.dayHigh.toFixed(2)}</span>
+    </div>
+  );
+};
+
+export const WatchlistGrid: React.FC<WatchlistGridProps> = ({
+  symbols,
+  quotes,
+  signals,
+  onOpenChart,
+  onAnalyze,
+  onRemove,
+  onMove
+}) => {
+  const [sortKey, setSortKey] = useState<SortKey>('order');
+  const [sortDirection, setSortDirection] = useState<'asc' | 'desc'>('asc');
+  const [filter, setFilter] = useState('');
+  const [biasFilter, setBiasFilter] = useState<'all' | SignalBias>('all');
+
+  const rows = useMemo(() => {
+    const query = filter.trim().toUpperCase();
+    const filtered: GridRow[] = symbols
+      .map((symbol, index) => {
+        const signal = signals[symbol];
+        return { symbol, index, quote: quotes[symbol], signal, bias: signal ? getSignalBias(signal.signal) : null };
+      })
+      .filter(row => !query || row.symbol.includes(query))
+      .filter(row => biasFilter === 'all' || row.bias === biasFilter);
+
+    // Missing values always sink to the bottom regardless of direction
+    return filtered.sort((a, b) => {
+      const av = getSortValue(a, sortKey);
+      const bv = getSortValue(b, sortKey);
+      if (av === null && bv === null) return 0;
+      if (av === null) return 1;
+      if (bv === null) return -1;
+      const result = typeof av === 'string' ? av.localeCompare(bv as string) : av - (bv as number);
+      return sortDirection === 'asc' ? result : -result;
+    });
+  }, [symbols, quotes, signals, filter, biasFilter, sortKey, sortDirection]);
+
+  const handleSort = (key: SortKey) => {
+    if (sortKey === key) {
+      // Third click returns to the list's own order
+      if (sortDirection === 'desc') {
+        setSortKey('order');
+        setSortDirection('asc');
+      } else {
+        setSortDirection('desc');
+      }
+    } else {
+      setSortKey(key);
+      setSortDirection(key === 'symbol' ? 'asc' : 'desc');
+    }
+  };
+
+  const renderSortHeader = (label: string, sort: SortKey, className?: string) => (
+    <TableHead className={className}>
+      <button type="button" className="inline-flex items-center gap-1 hover:text-gray-900" onClick={() => handleSort(sort)}>
+        {label}
+        {sortKey === sort ? (
+          sortDirection === 'asc' ? <ArrowUp className="h-3 w-3" /> : <ArrowDown className="h-3 w-3" />
+        ) : (
+          <ArrowUpDown className="h-3 w-3 opacity-40" />
+        )}
+      </button>
+    </TableHead>
+  );
+
+  const canReorder = sortKey === 'order' && !filter && biasFilter === 'all';
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap items-center gap-2">
+        <Input className="h-9 max-w-xs" placeholder="Filter symbols" value={filter} onChange={(e) => setFilter(e.target.value)} />
+        <Select value={biasFilter} onValueChange={(value) => setBiasFilter(value as 'all' | SignalBias)}>
+          <SelectTrigger className="h-9 w-40">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">All signals</SelectItem>
+            <SelectItem value="bullish">Bullish</SelectItem>
+            <SelectItem value="bearish">Bearish</SelectItem>
+            <SelectItem value="neutral">Neutral</SelectItem>
+          </SelectContent>
+        </Select>
+        <span className="ml-auto text-xs text-gray-500">Click a row to open it on the chart</span>
+      </div>
+
+      <div className="overflow-x-auto rounded-md border bg-white">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              {renderSortHeader('Symbol', 'symbol')}
+              {renderSortHeader('LTP', 'ltp', 'text-right')}
+              {renderSortHeader('Change', 'changePercent', 'text-right')}
+              <TableHead>Day range</TableHead>
+              {renderSortHeader('Volume vs avg', 'volumeRatio', 'text-right')}
+              {renderSortHeader('Last analysis', 'confidence')}
+              <TableHead className="w-40 text-right">Actions</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {rows.length === 0 && (
+              <TableRow>
+                <TableCell colSpan={7} className="py-8 text-center text-sm text-gray-500">
+                  {symbols.length === 0 ? 'This watchlist is empty - add a symbol above.' : 'No symbols match the filter.'}
+                </TableCell>
+              </TableRow>
+            )}
+            {rows.map(row => {
+              const { quote, signal } = row;
+              const change = quote?.changePercent ?? null;
+              const changeClass = change === null ? 'text-gray-400' : change >= 0 ? 'text-emerald-600' : 'text-red-600';
+              return (
+                <TableRow key={row.symbol} className="cursor-pointer" onClick={() => onOpenChart(row.symbol)}>
+                  <TableCell className="font-semibold">{row.symbol}</TableCell>
+                  <TableCell className="text-right tabular-nums">{quote?.ltp != null ? formatCurrency(quote.ltp) : '—'}</TableCell>
+                  <TableCell className={`text-right tabular-nums ${changeClass}`}>
+                    {change === null ? '—' : (
+                      <>
+                        {quote?.change != null && `${quote.change >= 0 ? '+' : ''}${quote.change.toFixed(2)} `}
+                        ({change >= 0 ? '+' : ''}{change.toFixed(2)}%)
+                      </>
+                    )}
+                  </TableCell>
+                  <TableCell><DayRange quote={quote} /></TableCell>
+                  <TableCell className="text-right tabular-nums">
+                    <div>{formatVolume(quote?.volume)}</div>
+                    {quote?.volumeRatio != null && (
+                      <div className={`text-xs ${quote.volumeRatio >= 1.5 ? 'font-semibold text-amber-600' : 'text-gray-500'}`}>
+                        {quote.volumeRatio.toFixed(2)}× avg
+                      </div>
+                    )}
+                  </TableCell>
+                  <TableCell>
+                    {signal ? (
+                      <div className="flex items-center gap-2">
+                        <Badge variant="outline" className={BIAS_CLASSES[row.bias || 'neutral']}>
+                          {signal.signal || 'n/a'}
+                        </Badge>
+                        {signal.confidence !== null && <span className="text-xs text-gray-600">{Math.round(signal.confidence)}%</span>}
+                      </div>
+                    ) : (
+                      <span className="text-xs text-gray-400">{signal === null ? 'Not analysed' : '…'}</span>
+                    )}
+                  </TableCell>
+                  <TableCell className="text-right" onClick={(e) => e.stopPropagation()}>
+                    <div className="flex justify-end gap-1">
+                      {canReorder && (
+                        <>
+                          <Button variant="ghost" size="sm" className="h-7 w-7 p-0" title="Move up" disabled={row.index === 0} onClick={() => onMove(row.index, row.index - 1)}>
+                            <ChevronUp className="h-4 w-4" />
+                          </Button>
+                          <Button variant="ghost" size="sm" className="h-7 w-7 p-0" title="Move down" disabled={row.index === symbols.length - 1} onClick={() => onMove(row.index, row.index + 1)}>
+                            <ChevronDown className="h-4 w-4" />
+                          </Button>
+                        </>
+                      )}
+                      <Button variant="ghost" size="sm" className="h-7 w-7 p-0" title="Open chart" onClick={() => onOpenChart(row.symbol)}>
+                        <LineChart className="h-4 w-4" />
+                      </Button>
+                      <Button variant="ghost" size="sm" className="h-7 w-7 p-0" title="New analysis" onClick={() => onAnalyze(row.symbol)}>
+                        <BarChart3 className="h-4 w-4" />
+                      </Button>
+                      <Button variant="ghost" size="sm" className="h-7 w-7 p-0" title="Remove from watchlist" onClick={() => onRemove(row.symbol)}>
+                        <Trash2 className="h-4 w-4 text-red-600" />
+                      </Button>
+                    </div>
+                  </TableCell>
+                </TableRow>
+              );
+            })}
+          </TableBody>
+        </Table>
+      </div>
+    </div>
+  );
+};
+
+export default WatchlistGrid;
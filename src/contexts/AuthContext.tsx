@@ -2,6 +2,7 @@
 import React, { useState, useEffect, useContext } from 'react';
 import { AuthContext, User, Session, AuthError } from './auth-context';
 import { supabase } from '@/integrations/supabase/client';
+import { analysisMirrorService } from '@/services/analysisMirrorService';
 
 // Export the useAuth hook from this file to maintain compatibility
 export const useAuth = () => {
@@ -188,6 +189,8 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
       localStorage.removeItem('jwt_token');
       localStorage.removeItem('user_email');
       localStorage.removeItem('user_id');
+      // The analysis mirror holds the whole history; don't leave it for the next person on this device
+      await analysisMirrorService.clear();
       return { error: null };
     } catch (error: any) {
       return { error: { message: error.message || 'Failed to sign out' } };
@@ -0,0 +1,17 @@
+import { useEffect, useState } from 'react';
+import { analysisReplayRunner } from '@/services/analysisReplayService';
+import { ReplaySeries } from '@/types/analysisReplay';
+
+// Stored replays for the user; the runner outlives the page, so navigating away doesn't stop a replay
+export const useAnalysisReplays = (userId: string | null | undefined): ReplaySeries[] => {
+  const [series, setSeries] = useState<ReplaySeries[]>(() => analysisReplayRunner.getSeries());
+
+  useEffect(() => {
+    const unsubscribe = analysisReplayRunner.subscribe(setSeries);
+    analysisReplayRunner.load(userId);
+    setSeries(analysisReplayRunner.getSeries());
+    return unsubscribe;
+  }, [userId]);
+
+  return series;
+};
@@ -0,0 +1,15 @@
+import { useEffect, useState } from 'react';
+import { batchAnalysisQueue } from '@/services/batchAnalysisQueue';
+import { BatchRun } from '@/types/batchAnalysis';
+
+// Current batch from the shared queue; the queue outlives the page, so navigating away doesn't stop it
+export const useBatchAnalysisQueue = (): BatchRun | null => {
+  const [batch, setBatch] = useState<BatchRun | null>(() => batchAnalysisQueue.getBatch());
+
+  useEffect(() => {
+    setBatch(batchAnalysisQueue.getBatch());
+    return batchAnalysisQueue.subscribe(setBatch);
+  }, []);
+
+  return batch;
+};
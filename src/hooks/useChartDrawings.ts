@@ -0,0 +1,361 @@
+import { RefObject, useCallback, useEffect, useRef, useState } from 'react';
+import { IChartApi, ISeriesApi } from 'lightweight-charts';
+import { ChartDrawing, DrawingAnchor, DrawingType } from '@/types/drawings';
+import { DRAWING_ANCHOR_COUNTS } from '@/utils/drawingGeometry';
+import { DrawingsPrimitive } from '@/components/charts/DrawingsPrimitive';
+
+// ===== TYPES & INTERFACES =====
+
+interface DrawingBar {
+  time: number;
+  open: number;
+  high: number;
+  low: number;
+  close: number;
+}
+
+interface UseChartDrawingsOptions {
+  chartRef: RefObject<IChartApi | null>;
+  seriesRef: RefObject<ISeriesApi<'Candlestick'> | null>;
+  containerRef: RefObject<HTMLDivElement>;
+  isChartReady: boolean;
+  bars: DrawingBar[];
+  drawings: ChartDrawing[];
+  onDrawingsChange?: (drawings: ChartDrawing[]) => void;
+}
+
+interface DragState {
+  drawing: ChartDrawing;
+  anchorIndex: number | null;
+  startLogical: number;
+  startPrice: number;
+  current: ChartDrawing;
+}
+
+export const DEFAULT_DRAWING_COLOR = '#2962ff';
+
+const createDrawingId = (type: DrawingType): string =>
+  `${type}-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 7)}`;
+
+const isEditableTarget = (target: EventTarget | null): boolean =>
+  target instanceof HTMLElement && (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName));
+
+// ===== HOOK =====
+
+// Drawing tools for LiveSimpleChart: placing anchors, hit-testing, drag-editing and snapping to OHLC.
+// Pointer handling runs in the capture phase on the chart container so the chart doesn't pan
+// while a drawing is being placed or dragged.
+export function useChartDrawings({
+  chartRef,
+  seriesRef,
+  containerRef,
+  isChartReady,
+  bars,
+  drawings,
+  onDrawingsChange
+}: UseChartDrawingsOptions) {
+  const [activeTool, setActiveTool] = useState<DrawingType | null>(null);
+  const [magnet, setMagnet] = useState(true);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+
+  const primitiveRef = useRef<DrawingsPrimitive | null>(null);
+  const attachedSeriesRef = useRef<ISeriesApi<'Candlestick'> | null>(null);
+  const barsRef = useRef<DrawingBar[]>(bars);
+  const drawingsRef = useRef<ChartDrawing[]>(drawings);
+  const onChangeRef = useRef(onDrawingsChange);
+  const pendingAnchorsRef = useRef<DrawingAnchor[]>([]);
+  const dragRef = useRef<DragState | null>(null);
+
+  barsRef.current = bars;
+  drawingsRef.current = drawings;
+  onChangeRef.current = onDrawingsChange;
+
+  const isEnabled = !!onDrawingsChange;
+
+  // ===== PRIMITIVE LIFECYCLE =====
+
+  // The candle series is replaced whenever the chart is rebuilt, so re-attach lazily
+  const ensureAttached = useCallback((): DrawingsPrimitive | null => {
+    const series = seriesRef.current;
+    if (!series) return null;
+    if (attachedSeriesRef.current === series && primitiveRef.current) return primitiveRef.current;
+
+    const primitive = new DrawingsPrimitive();
+    series.attachPrimitive(primitive);
+    primitiveRef.current = primitive;
+    attachedSeriesRef.current = series;
+    return primitive;
+  }, [seriesRef]);
+
+  useEffect(() => {
+    if (!isChartReady || !isEnabled) return;
+    const primitive = ensureAttached();
+    if (!primitive) return;
+
+    primitive.setBarTimes(bars.map(bar => bar.time));
+    primitive.setDrawings(drawings);
+    primitive.setSelected(selectedId);
+  }, [isChartReady, isEnabled, ensureAttached, bars, drawings, selectedId]);
+
+  useEffect(() => {
+    return () => {
+      const series = attachedSeriesRef.current;
+      const primitive = primitiveRef.current;
+      if (series && primitive) {
+        try {
+          series.detachPrimitive(primitive);
+        } catch (error) {
+          // Series already removed together with its chart
+        }
+      }
+      primitiveRef.current = null;
+      attachedSeriesRef.current = null;
+    };
+  }, []);
+
+  // Drop the selection when the selected drawing goes away (deleted, or switched symbol)
+  useEffect(() => {
+    if (selectedId && !drawings.some(drawing => drawing.id === selectedId)) {
+      setSelectedId(null);
+    }
+  }, [drawings, selectedId]);
+
+  // The chart must not pan while anchors are being placed
+  useEffect(() => {
+    chartRef.current?.applyOptions({ handleScroll: { pressedMouseMove: !activeTool } });
+    pendingAnchorsRef.current = [];
+    primitiveRef.current?.setPreview(null);
+  }, [activeTool, chartRef, isChartReady]);
+
+  // ===== POINTER → ANCHOR =====
+
+  const toAnchor = useCallback((x: number, y: number, snap: boolean): DrawingAnchor | null => {
+    const chart = chartRef.current;
+    const series = seriesRef.current;
+    const primitive = primitiveRef.current;
+    if (!chart || !series || !primitive) return null;
+
+    const logical = chart.timeScale().coordinateToLogical(x);
+    const price = series.coordinateToPrice(y);
+    if (logical === null || price === null) return null;
+
+    const currentBars = barsRef.current;
+    if (snap && currentBars.length > 0) {
+      // Magnet: lock onto the nearest bar and whichever of its OHLC values is closest on screen
+      const bar = currentBars[Math.max(0, Math.min(currentBars.length - 1, Math.round(logical)))];
+      const nearest = [bar.open, bar.high, bar.low, bar.close].reduce((best, value) => {
+        const distance = Math.abs((series.priceToCoordinate(value) ?? Infinity) - y);
+        return distance < best.distance ? { value, distance } : best;
+      }, { value: price, distance: Infinity });
+      return { time: bar.time, price: nearest.value };
+    }
+
+    const time = primitive.getMapper().logicalToTime(logical);
+    return time === null ? null : { time, price };
+  }, [chartRef, seriesRef]);
+
+  const commitDrawings = useCallback((next: ChartDrawing[]) => {
+    onChangeRef.current?.(next);
+  }, []);
+
+  // ===== POINTER HANDLING =====
+
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!isChartReady || !isEnabled || !container) return;
+
+    const getLocalPoint = (event: MouseEvent) => {
+      const rect = container.getBoundingClientRect();
+      const x = event.clientX - rect.left;
+      const y = event.clientY - rect.top;
+      const paneWidth = chartRef.current?.timeScale().width() ?? rect.width;
+      // Ignore the price axis
+      return x >= 0 && x <= paneWidth ? { x, y } : null;
+    };
+
+    const buildPreview = (anchors: DrawingAnchor[]): ChartDrawing => {
+      const now = new Date().toISOString();
+      return {
+        id: 'preview',
+        type: activeTool!,
+        anchors,
+        color: DEFAULT_DRAWING_COLOR,
+        createdAt: now,
+        updatedAt: now
+      };
+    };
+
+    const handleMouseDown = (event: MouseEvent) => {
+      if (event.button !== 0) return;
+      const point = getLocalPoint(event);
+      const primitive = primitiveRef.current;
+      if (!point || !primitive) return;
+
+      if (activeTool) {
+        event.preventDefault();
+        event.stopPropagation();
+
+        const anchor = toAnchor(point.x, point.y, magnet);
+        if (!anchor) return;
+        const anchors = [...pendingAnchorsRef.current, anchor];
+
+        if (anchors.length < DRAWING_ANCHOR_COUNTS[activeTool]) {
+          pendingAnchorsRef.current = anchors;
+          primitive.setPreview(buildPreview([...anchors, anchor]));
+          return;
+        }
+
+        const now = new Date().toISOString();
+        const drawing: ChartDrawing = {
+          id: createDrawingId(activeTool),
+          type: activeTool,
+          anchors,
+          color: DEFAULT_DRAWING_COLOR,
+          ...(activeTool === 'text' ? { text: 'Note' } : {}),
+          createdAt: now,
+          updatedAt: now
+        };
+        pendingAnchorsRef.current = [];
+        primitive.setPreview(null);
+        commitDrawings([...drawingsRef.current, drawing]);
+        setSelectedId(drawing.id);
+        setActiveTool(null);
+        return;
+      }
+
+      const hit = primitive.hitTestDrawings(point.x, point.y);
+      if (!hit) {
+        setSelectedId(null);
+        return;
+      }
+
+      const drawing = drawingsRef.current.find(item => item.id === hit.drawingId);
+      const logical = chartRef.current?.timeScale().coordinateToLogical(point.x);
+      const price = seriesRef.current?.coordinateToPrice(point.y);
+      if (!drawing || logical === null || logical === undefined || price === null || price === undefined) return;
+
+      event.preventDefault();
+      event.stopPropagation();
+      setSelectedId(drawing.id);
+      dragRef.current = { drawing, anchorIndex: hit.anchorIndex, startLogical: logical, startPrice: price, current: drawing };
+      chartRef.current?.applyOptions({ handleScroll: { pressedMouseMove: false } });
+    };
+
+    const handleMouseMove = (event: MouseEvent) => {
+      const primitive = primitiveRef.current;
+      if (!primitive) return;
+
+      const rect = container.getBoundingClientRect();
+      const x = event.clientX - rect.left;
+      const y = event.clientY - rect.top;
+      const drag = dragRef.current;
+
+      if (drag) {
+        const { drawing, anchorIndex } = drag;
+        let anchors: DrawingAnchor[];
+
+        if (anchorIndex !== null) {
+          const anchor = toAnchor(x, y, magnet);
+          if (!anchor) return;
+          anchors = drawing.anchors.map((existing, i) => (i === anchorIndex ? anchor : existing));
+        } else {
+          // Move the whole drawing by the pointer delta in bars and price
+          const logical = chartRef.current?.timeScale().coordinateToLogical(x);
+          const price = seriesRef.current?.coordinateToPrice(y);
+          if (logical === null || logical === undefined || price === null || price === undefined) return;
+
+          const mapper = primitive.getMapper();
+          const deltaLogical = logical - drag.startLogical;
+          const deltaPrice = price - drag.startPrice;
+          anchors = drawing.anchors.map(anchor => {
+            const anchorLogical = mapper.timeToLogical(anchor.time);
+            const time = anchorLogical === null ? null : mapper.logicalToTime(anchorLogical + deltaLogical);
+            return { time: time ?? anchor.time, price: anchor.price + deltaPrice };
+          });
+        }
+
+        drag.current = { ...drawing, anchors, updatedAt: new Date().toISOString() };
+        primitive.setPreview(drag.current);
+        return;
+      }
+
+      const pending = pendingAnchorsRef.current;
+      if (activeTool && pending.length > 0) {
+        const anchor = toAnchor(x, y, magnet);
+        if (anchor) primitive.setPreview(buildPreview([...pending, anchor]));
+      }
+    };
+
+    const handleMouseUp = () => {
+      const drag = dragRef.current;
+      if (!drag) return;
+
+      dragRef.current = null;
+      primitiveRef.current?.setPreview(null);
+      chartRef.current?.applyOptions({ handleScroll: { pressedMouseMove: !activeTool } });
+      if (drag.current !== drag.drawing) {
+        commitDrawings(drawingsRef.current.map(item => (item.id === drag.current.id ? drag.current : item)));
+      }
+    };
+
+    container.addEventListener('mousedown', handleMouseDown, true);
+    window.addEventListener('mousemove', handleMouseMove);
+    window.addEventListener('mouseup', handleMouseUp);
+
+    return () => {
+      container.removeEventListener('mousedown', handleMouseDown, true);
+      window.removeEventListener('mousemove', handleMouseMove);
+      window.removeEventListener('mouseup', handleMouseUp);
+    };
+  }, [isChartReady, isEnabled, activeTool, magnet, containerRef, chartRef, seriesRef, toAnchor, commitDrawings]);
+
+  // ===== ACTIONS =====
+
+  const updateSelected = useCallback((update: Partial<Pick<ChartDrawing, 'color' | 'text'>>) => {
+    if (!selectedId) return;
+    commitDrawings(drawingsRef.current.map(drawing =>
+      drawing.id === selectedId ? { ...drawing, ...update, updatedAt: new Date().toISOString() } : drawing
+    ));
+  }, [selectedId, commitDrawings]);
+
+  const deleteSelected = useCallback(() => {
+    if (!selectedId) return;
+    commitDrawings(drawingsRef.current.filter(drawing => drawing.id !== selectedId));
+    setSelectedId(null);
+  }, [selectedId, commitDrawings]);
+
+  const clearDrawings = useCallback(() => {
+    commitDrawings([]);
+    setSelectedId(null);
+  }, [commitDrawings]);
+
+  // Escape cancels the current tool, Delete/Backspace removes the selected drawing
+  useEffect(() => {
+    if (!isEnabled) return;
+
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (isEditableTarget(event.target)) return;
+      if (event.key === 'Escape') {
+        setActiveTool(null);
+        setSelectedId(null);
+      } else if ((event.key === 'Delete' || event.key === 'Backspace') && selectedId) {
+        event.preventDefault();
+        deleteSelected();
+      }
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [isEnabled, selectedId, deleteSelected]);
+
+  return {
+    activeTool,
+    setActiveTool,
+    magnet,
+    setMagnet,
+    selectedDrawing: drawings.find(drawing => drawing.id === selectedId) || null,
+    updateSelected,
+    deleteSelected,
+    clearDrawings
+  };
+}
@@ -0,0 +1,59 @@
+import { useEffect, useState } from 'react';
+import { apiService } from '@/services/api';
+import { AnalysisOverlaySet } from '@/types/analysisOverlays';
+import { buildAnalysisOverlays } from '@/utils/analysisOverlays';
+
+interface UseLatestAnalysisOverlaysResult {
+  overlays: AnalysisOverlaySet | null;
+  loading: boolean;
+  error: string | null;
+}
+
+// Loads the user's most recent stored analysis for a symbol and converts it into chart overlays.
+// Does nothing until enabled so the chart page doesn't hit the database on every symbol change.
+export const useLatestAnalysisOverlays = (
+  symbol: string,
+  userId: string | null | undefined,
+  enabled: boolean
+): UseLatestAnalysisOverlaysResult => {
+  const [overlays, setOverlays] = useState<AnalysisOverlaySet | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    setOverlays(null);
+    setError(null);
+    if (!enabled || !symbol) return;
+    if (!userId) {
+      setError('Sign in to show your saved analyses');
+      return;
+    }
+
+    let cancelled = false;
+    setLoading(true);
+
+    apiService.getStockAnalysesForUser(symbol, userId, 1)
+      .then(response => {
+        if (cancelled) return;
+        const latest = response.success ? response.analyses?.[0] : undefined;
+        const built = latest ? buildAnalysisOverlays(latest) : null;
+        setOverlays(built);
+        if (!built) setError(`No saved analysis with levels for ${symbol}`);
+      })
+      .catch(err => {
+        if (cancelled) return;
+        console.warn(`⚠️ [useLatestAnalysisOverlays] Failed to load analysis for ${symbol}:`, err);
+        setError(err instanceof Error ? err.message : 'Failed to load analysis');
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+      setLoading(false);
+    };
+  }, [symbol, userId, enabled]);
+
+  return { overlays, loading, error };
+};
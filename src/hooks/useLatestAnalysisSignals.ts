@@ -0,0 +1,52 @@
+import { useEffect, useState } from 'react';
+import { apiService } from '@/services/api';
+import { AnalysisSignalSummary, getAnalysisSignalSummary } from '@/utils/analysisSummary';
+
+// Stored analyses only change when the user runs a new one, so lookups are cached for the session
+const signalCache = new Map<string, Promise<AnalysisSignalSummary | null>>();
+
+const fetchLatestSignal = (symbol: string, userId: string): Promise<AnalysisSignalSummary | null> => {
+  const key = `${userId}:${symbol}`;
+  let pending = signalCache.get(key);
+  if (!pending) {
+    pending = apiService.getStockAnalysesForUser(symbol, userId, 1)
+      .then(response => {
+        const latest = response.success ? response.analyses?.[0] : undefined;
+        return latest ? getAnalysisSignalSummary(latest) : null;
+      })
+      .catch(error => {
+        console.warn(`⚠️ [useLatestAnalysisSignals] Failed to load analysis for ${symbol}:`, error);
+        signalCache.delete(key);
+        return null;
+      });
+    signalCache.set(key, pending);
+  }
+  return pending;
+};
+
+// Latest stored analysis signal / confidence per symbol for the signed-in user
+export const useLatestAnalysisSignals = (
+  symbols: string[],
+  userId: string | null | undefined
+): Record<string, AnalysisSignalSummary | null> => {
+  const [signals, setSignals] = useState<Record<string, AnalysisSignalSummary | null>>({});
+  const symbolKey = Array.from(new Set(symbols.map(symbol => symbol.toUpperCase()))).sort().join(',');
+
+  useEffect(() => {
+    if (!userId || !symbolKey) return;
+    let cancelled = false;
+
+    symbolKey.split(',').forEach(symbol => {
+      fetchLatestSignal(symbol, userId).then(summary => {
+        if (cancelled) return;
+        setSignals(prev => ({ ...prev, [symbol]: summary }));
+      });
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [symbolKey, userId]);
+
+  return signals;
+};
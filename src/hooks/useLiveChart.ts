@@ -1,5 +1,8 @@
-import { useState, useEffect, useRef, useCallback } from 'react';
+import { useState, useEffect, useRef, useCallback, useMemo } from 'react';
 import { liveDataService, StockInfo, INTERVAL_MAPPING } from '@/services/liveDataService';
+import { liveStreamManager, LiveStreamMessage } from '@/services/liveStreamManager';
+import { candleCacheService } from '@/services/candleCacheService';
+import { CandleResampler, getSourceDataPoints, getSourceTimeframe } from '@/utils/candleResampler';
 import { toUTCTimestamp } from '@/utils/chartUtils';
 import { performanceMonitor } from '@/utils/performanceMonitor';
 
@@ -25,6 +28,7 @@ export interface LiveChartState {
   reconnectAttempts: number;
   lastTickPrice?: number;
   lastTickTime?: number;
+  isBackfilling?: boolean;
 }
 
 export interface UseLiveChartOptions {
@@ -95,6 +99,14 @@ interface WebSocketHeartbeatMessage {
 
 type WebSocketMessage = WebSocketCandleMessage | WebSocketTickMessage | WebSocketSubscribedMessage | WebSocketErrorMessage | WebSocketHeartbeatMessage;
 
+// Merge candles by start time - entries from `incoming` replace existing ones with the same time
+const mergeCandles = (existing: LiveChartData[], incoming: LiveChartData[]): LiveChartData[] => {
+  const byTime = new Map<number, LiveChartData>();
+  existing.forEach(candle => byTime.set(candle.time, candle));
+  incoming.forEach(candle => byTime.set(candle.time, candle));
+  return Array.from(byTime.values()).sort((a, b) => a.time - b.time);
+};
+
 export function useLiveChart({
   symbol,
   timeframe,
@@ -115,22 +127,31 @@ export function useLiveChart({
     connectionStatus: 'disconnected',
     reconnectAttempts: 0,
     lastTickPrice: undefined,
-    lastTickTime: undefined
+    lastTickTime: undefined,
+    isBackfilling: false
   });
 
   // Refs
-  const wsRef = useRef<WebSocket | null>(null);
+  const unsubscribeRef = useRef<(() => void) | null>(null);
   const reconnectTimeoutRef = useRef<NodeJS.Timeout | null>(null);
   const dataRef = useRef<LiveChartData[]>([]);
   const symbolRef = useRef(symbol);
-  const timeframeRef = useRef(timeframe);
+  // Native timeframe that is fetched and streamed; resampled timeframes are built from it
+  const timeframeRef = useRef(getSourceTimeframe(timeframe));
+  const [displayTimeframe, setDisplayTimeframe] = useState(timeframe);
+  const displayTimeframeRef = useRef(timeframe);
+  const maxSourcePointsRef = useRef(getSourceDataPoints(maxDataPoints, timeframe));
+  const resamplerRef = useRef(new CandleResampler<LiveChartData>());
   const isConnectingRef = useRef(false);
   const lastTickRef = useRef<{ price: number; time: number } | null>(null);
-  
+  const isBackfillingRef = useRef(false);
+  const pendingMessagesRef = useRef<WebSocketMessage[]>([]);
+
   // Function refs to avoid dependency issues
   const connectRef = useRef<(() => Promise<void>) | null>(null);
   const disconnectRef = useRef<(() => void) | null>(null);
   const loadHistoricalDataRef = useRef<((retryCount?: number) => Promise<void>) | null>(null);
+  const backfillGapRef = useRef<(() => Promise<void>) | null>(null);
 
   // Remove this useEffect - let the prop change handler manage refs
   // useEffect(() => {
@@ -201,12 +222,33 @@ export function useLiveChart({
         console.log(`📅 [useLiveChart] Note: For intraday, backend automatically uses latest available candle (including today) when no end_date is provided`);
       }
 
-      const response = await liveDataService.getHistoricalData(
+      const response = await candleCacheService.getHistoricalData(
         currentSymbol,
         currentTimeframe,
         exchange,
         daysLimit,  // Send number of days as limit
-        endDate
+        {
+          endDate,
+          // Paint persisted candles straight away while the missing tail is fetched
+          onCachedData: (cachedResponse) => {
+            if (symbolRef.current !== currentSymbol || timeframeRef.current !== currentTimeframe) return;
+
+            const cachedData = liveDataService
+              .convertToChartData(cachedResponse.candles)
+              .sort((a, b) => a.time - b.time)
+              .slice(-maxSourcePointsRef.current);
+            if (cachedData.length === 0) return;
+
+            dataRef.current = cachedData;
+            setState(prev => ({
+              ...prev,
+              data: cachedData,
+              isLoading: false,
+              lastUpdate: Date.now(),
+              lastTickPrice: cachedData[cachedData.length - 1]?.close
+            }));
+          }
+        }
       );
 
       // Detailed analysis of received data
@@ -401,12 +443,12 @@ export function useLiveChart({
       
       // Limit data points for performance - take the MOST RECENT candles
       // Since data is sorted chronologically (oldest first), slice(-N) gives us the newest N
-      const limitedData = convertedData.slice(-maxDataPoints);
+      const limitedData = convertedData.slice(-maxSourcePointsRef.current);
       
       // Log what we're keeping vs discarding
-      if (convertedData.length > maxDataPoints) {
-        const discardedCount = convertedData.length - maxDataPoints;
-        console.log(`⚠️ [useLiveChart] Discarding ${discardedCount} older candles, keeping ${maxDataPoints} most recent`);
+      if (convertedData.length > maxSourcePointsRef.current) {
+        const discardedCount = convertedData.length - maxSourcePointsRef.current;
+        console.log(`⚠️ [useLiveChart] Discarding ${discardedCount} older candles, keeping ${maxSourcePointsRef.current} most recent`);
         console.log(`📊 [useLiveChart] Data range after limiting:`, {
           firstKept: {
             time: limitedData[0].time,
@@ -425,7 +467,7 @@ export function useLiveChart({
           }
         });
       } else {
-        console.log(`✅ [useLiveChart] All ${convertedData.length} candles fit within limit of ${maxDataPoints}`);
+        console.log(`✅ [useLiveChart] All ${convertedData.length} candles fit within limit of ${maxSourcePointsRef.current}`);
       }
       
       // Final gap analysis after limiting data
@@ -529,11 +571,69 @@ export function useLiveChart({
         data: [] // Clear data on error
       }));
     }
-  }, [exchange, maxDataPoints]);
+  }, [exchange]);
 
   // Store the function in ref
   loadHistoricalDataRef.current = loadHistoricalData;
 
+  // Backfill candles missed while the stream was down
+  // The last candle in dataRef is the last start time this subscription saw before the drop
+  const backfillGap = useCallback(async () => {
+    const currentSymbol = symbolRef.current;
+    const currentTimeframe = timeframeRef.current;
+    const lastCandle = dataRef.current[dataRef.current.length - 1];
+
+    if (!currentSymbol || !lastCandle) return;
+
+    const gapStart = lastCandle.time;
+    const nowTimestamp = Math.floor(Date.now() / 1000);
+    // Limit is a number of days - cover the outage plus the day it started in
+    const gapDays = Math.max(1, Math.ceil((nowTimestamp - gapStart) / 86400) + 1);
+
+    const today = new Date();
+    const year = today.getFullYear();
+    const month = String(today.getMonth() + 1).padStart(2, '0');
+    const day = String(today.getDate()).padStart(2, '0');
+    const endDate = `${year}-${month}-${day}`;
+
+    try {
+      // Goes through the candle cache so the persisted series picks up the missed range too
+      const response = await candleCacheService.getHistoricalData(
+        currentSymbol,
+        currentTimeframe,
+        exchange,
+        gapDays,
+        { endDate }
+      );
+
+      // Symbol or timeframe may have changed while the request was in flight
+      if (symbolRef.current !== currentSymbol || timeframeRef.current !== currentTimeframe) return;
+      if (!response.success || !response.candles || response.candles.length === 0) return;
+
+      const missedCandles = liveDataService
+        .convertToChartData(response.candles)
+        .filter(candle => candle.time >= gapStart);
+
+      if (missedCandles.length === 0) return;
+
+      const mergedData = mergeCandles(dataRef.current, missedCandles).slice(-maxSourcePointsRef.current);
+
+      dataRef.current = mergedData;
+      setState(prev => ({
+        ...prev,
+        data: mergedData,
+        lastUpdate: Date.now(),
+        lastTickPrice: mergedData[mergedData.length - 1]?.close
+      }));
+    } catch (error) {
+      // Live updates resume either way; a manual refetch can still fill the hole
+      console.warn(`⚠️ [useLiveChart] Gap backfill failed for ${currentSymbol}:`, error);
+    }
+  }, [exchange]);
+
+  // Store the function in ref
+  backfillGapRef.current = backfillGap;
+
   // Enhanced WebSocket connection with better error handling
   const connect = useCallback(async () => {
     if (isConnectingRef.current) {
@@ -544,8 +644,9 @@ export function useLiveChart({
     // console.log('🔌 Starting WebSocket connection for:', symbolRef.current, timeframeRef.current);
     isConnectingRef.current = true;
 
-    // Disconnect any existing connection first
-    liveDataService.disconnectWebSocket();
+    // Release any existing subscription first
+    unsubscribeRef.current?.();
+    unsubscribeRef.current = null;
 
     setState(prev => ({ 
       ...prev, 
@@ -582,104 +683,166 @@ export function useLiveChart({
         timeframes: [backendTimeframe]
       });
 
-      wsRef.current = await liveDataService.connectWebSocket(
-        [symbolRef.current], // Send symbol instead of token
-        (wsData: WebSocketMessage) => {
-          // console.log('📨 useLiveChart received WebSocket message:', wsData.type);
-          // console.log('📨 Full wsData structure:', wsData);
-          // console.log('📨 wsData.data exists:', !!wsData.data);
-          // console.log('📨 wsData.data type:', typeof wsData.data);
-          
-          // Enhanced message handling with better validation
-          // Log all WebSocket messages for debugging
-          console.log('📨 [useLiveChart] WebSocket message received:', {
-            type: wsData.type,
-            hasData: !!wsData.data,
+      const handleStreamMessage = (wsData: WebSocketMessage) => {
+        // console.log('📨 useLiveChart received WebSocket message:', wsData.type);
+        // console.log('📨 Full wsData structure:', wsData);
+        // console.log('📨 wsData.data exists:', !!wsData.data);
+        // console.log('📨 wsData.data type:', typeof wsData.data);
+        
+        // Enhanced message handling with better validation
+        // Log all WebSocket messages for debugging
+        console.log('📨 [useLiveChart] WebSocket message received:', {
+          type: wsData.type,
+          hasData: !!wsData.data,
+          timeframe: timeframeRef.current,
+          timestamp: new Date().toISOString()
+        });
+        
+        if (wsData.type === 'candle' && wsData.data) {
+          console.log('🕯️ [useLiveChart] Processing candle data:', {
+            candleData: wsData.data,
             timeframe: timeframeRef.current,
-            timestamp: new Date().toISOString()
+            candleTime: wsData.data.start
           });
-          
-          if (wsData.type === 'candle' && wsData.data) {
-            console.log('🕯️ [useLiveChart] Processing candle data:', {
-              candleData: wsData.data,
-              timeframe: timeframeRef.current,
-              candleTime: wsData.data.start
-            });
-            try {
-              const candleData = wsData.data;
-              // WebSocketCandleMessage.data uses 'start' property, not 'time'
-              const candleTime = candleData.start;
-              
-              if (candleData && typeof candleData.open === 'number' && typeof candleTime === 'number') {
-                setState(prev => {
-                  const newData = [...prev.data];
-                  
-                  // Calculate expected interval in seconds based on current timeframe
-                  const intervalSeconds: Record<string, number> = {
-                    '1min': 60,
-                    '5min': 300,
-                    '15min': 900,
-                    '60min': 3600,
-                    '1day': 86400
+          try {
+            const candleData = wsData.data;
+            // WebSocketCandleMessage.data uses 'start' property, not 'time'
+            const candleTime = candleData.start;
+            
+            if (candleData && typeof candleData.open === 'number' && typeof candleTime === 'number') {
+              setState(prev => {
+                const newData = [...prev.data];
+                
+                // Calculate expected interval in seconds based on current timeframe
+                const intervalSeconds: Record<string, number> = {
+                  '1min': 60,
+                  '5min': 300,
+                  '15min': 900,
+                  '60min': 3600,
+                  '1day': 86400
+                };
+                
+                // Map timeframe to backend format (handle both frontend and backend formats)
+                const currentTimeframe = timeframeRef.current;
+                let currentBackendTimeframe: string;
+                if (INTERVAL_MAPPING[currentTimeframe as keyof typeof INTERVAL_MAPPING]) {
+                  currentBackendTimeframe = INTERVAL_MAPPING[currentTimeframe as keyof typeof INTERVAL_MAPPING];
+                } else {
+                  const backendFormats = ['1min', '5min', '15min', '60min', '1day'];
+                  currentBackendTimeframe = backendFormats.includes(currentTimeframe) ? currentTimeframe : '1day';
+                }
+                const expectedInterval = intervalSeconds[currentBackendTimeframe] || 86400;
+                
+                // Convert WebSocket candle data to LiveChartData format
+                // Map 'start' to 'time' for consistency with chart data format
+                const liveChartData: LiveChartData = {
+                  date: new Date(candleTime * 1000).toISOString(),
+                  time: candleTime,
+                  open: candleData.open,
+                  high: candleData.high,
+                  low: candleData.low,
+                  close: candleData.close,
+                  volume: candleData.volume
+                };
+                
+                // Get the last historical candle for comparison
+                const lastHistoricalCandle = newData.length > 0 ? newData[newData.length - 1] : null;
+                
+                // Check gap between last historical candle and this WebSocket candle
+                let gapInfo: any = {};
+                if (lastHistoricalCandle) {
+                  const timeDiff = candleTime - lastHistoricalCandle.time;
+                  gapInfo = {
+                    lastHistoricalTimestamp: lastHistoricalCandle.time,
+                    lastHistoricalDate: new Date(lastHistoricalCandle.time * 1000).toISOString(),
+                    websocketCandleTimestamp: candleTime,
+                    websocketCandleDate: new Date(candleTime * 1000).toISOString(),
+                    gapSeconds: timeDiff,
+                    gapMinutes: Math.round(timeDiff / 60),
+                    gapHours: Math.round(timeDiff / 3600 * 10) / 10,
+                    expectedInterval,
+                    isExactMatch: timeDiff === 0,
+                    isNewer: timeDiff > 0,
+                    isOlder: timeDiff < 0
                   };
+                }
+                
+                // Smart candle matching logic:
+                // 1. If exact timestamp match with last candle: Update/merge (discard duplicate)
+                // 2. If WebSocket candle is newer: Append (during market hours, new candle)
+                // 3. Otherwise: Use interval-based matching for other cases
+                
+                if (lastHistoricalCandle && candleTime === lastHistoricalCandle.time) {
+                  // Exact timestamp match: Update the last candle with WebSocket data (more recent)
+                  // This handles the case where historical data and WebSocket both have the same candle
+                  // Use WebSocket data as it's more up-to-date
+                  newData[newData.length - 1] = liveChartData;
+                  console.log('🔄 [useLiveChart] Exact timestamp match - Updated last candle with WebSocket data (duplicate handling):', {
+                    timestamp: candleTime,
+                    candle: liveChartData,
+                    timeframe: timeframeRef.current,
+                    dataLength: newData.length,
+                    gapInfo
+                  });
                   
-                  // Map timeframe to backend format (handle both frontend and backend formats)
-                  const currentTimeframe = timeframeRef.current;
-                  let currentBackendTimeframe: string;
-                  if (INTERVAL_MAPPING[currentTimeframe as keyof typeof INTERVAL_MAPPING]) {
-                    currentBackendTimeframe = INTERVAL_MAPPING[currentTimeframe as keyof typeof INTERVAL_MAPPING];
-                  } else {
-                    const backendFormats = ['1min', '5min', '15min', '60min', '1day'];
-                    currentBackendTimeframe = backendFormats.includes(currentTimeframe) ? currentTimeframe : '1day';
-                  }
-                  const expectedInterval = intervalSeconds[currentBackendTimeframe] || 86400;
+                  // Update dataRef to keep it in sync
+                  dataRef.current = newData;
                   
-                  // Convert WebSocket candle data to LiveChartData format
-                  // Map 'start' to 'time' for consistency with chart data format
-                  const liveChartData: LiveChartData = {
-                    date: new Date(candleTime * 1000).toISOString(),
-                    time: candleTime,
-                    open: candleData.open,
-                    high: candleData.high,
-                    low: candleData.low,
-                    close: candleData.close,
-                    volume: candleData.volume
+                  return {
+                    ...prev,
+                    data: newData,
+                    lastUpdate: Date.now(),
+                    isLive: true,
+                    lastTickPrice: liveChartData.close,
+                    lastTickTime: candleTime
                   };
+                } else if (lastHistoricalCandle && candleTime > lastHistoricalCandle.time) {
+                  // WebSocket candle is newer: Append it (new candle during market hours)
+                  newData.push(liveChartData);
+                  // Sort by time to maintain chronological order (should already be sorted, but ensure it)
+                  newData.sort((a, b) => a.time - b.time);
                   
-                  // Get the last historical candle for comparison
-                  const lastHistoricalCandle = newData.length > 0 ? newData[newData.length - 1] : null;
+                  // Limit to maxDataPoints to prevent unbounded growth
+                  // Keep the most recent candles
+                  const limitedData = newData.length > maxSourcePointsRef.current 
+                    ? newData.slice(-maxSourcePointsRef.current) 
+                    : newData;
                   
-                  // Check gap between last historical candle and this WebSocket candle
-                  let gapInfo: any = {};
-                  if (lastHistoricalCandle) {
-                    const timeDiff = candleTime - lastHistoricalCandle.time;
-                    gapInfo = {
-                      lastHistoricalTimestamp: lastHistoricalCandle.time,
-                      lastHistoricalDate: new Date(lastHistoricalCandle.time * 1000).toISOString(),
-                      websocketCandleTimestamp: candleTime,
-                      websocketCandleDate: new Date(candleTime * 1000).toISOString(),
-                      gapSeconds: timeDiff,
-                      gapMinutes: Math.round(timeDiff / 60),
-                      gapHours: Math.round(timeDiff / 3600 * 10) / 10,
-                      expectedInterval,
-                      isExactMatch: timeDiff === 0,
-                      isNewer: timeDiff > 0,
-                      isOlder: timeDiff < 0
-                    };
-                  }
+                  console.log('➕ [useLiveChart] WebSocket candle is newer - Appended new candle:', {
+                    candle: liveChartData,
+                    timeframe: timeframeRef.current,
+                    dataLength: limitedData.length,
+                    expectedInterval,
+                    maxDataPoints: maxSourcePointsRef.current,
+                    gapInfo
+                  });
+                  
+                  // Update dataRef to keep it in sync
+                  dataRef.current = limitedData;
                   
-                  // Smart candle matching logic:
-                  // 1. If exact timestamp match with last candle: Update/merge (discard duplicate)
-                  // 2. If WebSocket candle is newer: Append (during market hours, new candle)
-                  // 3. Otherwise: Use interval-based matching for other cases
+                  return {
+                    ...prev,
+                    data: limitedData,
+                    lastUpdate: Date.now(),
+                    isLive: true,
+                    lastTickPrice: liveChartData.close,
+                    lastTickTime: candleTime
+                  };
+                } else {
+                  // Use interval-based matching for other cases (candle might be older or in middle of data)
+                  // Find candles within the same interval window (allows for small timestamp differences)
+                  const existingIndex = newData.findIndex(d => {
+                    const timeDiff = Math.abs(d.time - candleTime);
+                    // Match if timestamps are within the same interval window
+                    // Use 80% of interval as tolerance to account for rounding differences
+                    return timeDiff < expectedInterval * 0.8;
+                  });
                   
-                  if (lastHistoricalCandle && candleTime === lastHistoricalCandle.time) {
-                    // Exact timestamp match: Update the last candle with WebSocket data (more recent)
-                    // This handles the case where historical data and WebSocket both have the same candle
-                    // Use WebSocket data as it's more up-to-date
-                    newData[newData.length - 1] = liveChartData;
-                    console.log('🔄 [useLiveChart] Exact timestamp match - Updated last candle with WebSocket data (duplicate handling):', {
-                      timestamp: candleTime,
+                  if (existingIndex >= 0) {
+                    // Update existing candle - use the WebSocket timestamp to maintain consistency
+                    newData[existingIndex] = liveChartData;
+                    console.log('🔄 [useLiveChart] Interval-based match - Updated existing candle:', {
+                      index: existingIndex,
                       candle: liveChartData,
                       timeframe: timeframeRef.current,
                       dataLength: newData.length,
@@ -697,24 +860,24 @@ export function useLiveChart({
                       lastTickPrice: liveChartData.close,
                       lastTickTime: candleTime
                     };
-                  } else if (lastHistoricalCandle && candleTime > lastHistoricalCandle.time) {
-                    // WebSocket candle is newer: Append it (new candle during market hours)
+                  } else {
+                    // No match found: Add new candle
                     newData.push(liveChartData);
-                    // Sort by time to maintain chronological order (should already be sorted, but ensure it)
+                    // Sort by time to maintain chronological order
                     newData.sort((a, b) => a.time - b.time);
                     
                     // Limit to maxDataPoints to prevent unbounded growth
                     // Keep the most recent candles
-                    const limitedData = newData.length > maxDataPoints 
-                      ? newData.slice(-maxDataPoints) 
+                    const limitedData = newData.length > maxSourcePointsRef.current 
+                      ? newData.slice(-maxSourcePointsRef.current) 
                       : newData;
                     
-                    console.log('➕ [useLiveChart] WebSocket candle is newer - Appended new candle:', {
+                    console.log('➕ [useLiveChart] No match found - Added new candle:', {
                       candle: liveChartData,
                       timeframe: timeframeRef.current,
                       dataLength: limitedData.length,
                       expectedInterval,
-                      maxDataPoints,
+                      maxDataPoints: maxSourcePointsRef.current,
                       gapInfo
                     });
                     
@@ -729,156 +892,132 @@ export function useLiveChart({
                       lastTickPrice: liveChartData.close,
                       lastTickTime: candleTime
                     };
-                  } else {
-                    // Use interval-based matching for other cases (candle might be older or in middle of data)
-                    // Find candles within the same interval window (allows for small timestamp differences)
-                    const existingIndex = newData.findIndex(d => {
-                      const timeDiff = Math.abs(d.time - candleTime);
-                      // Match if timestamps are within the same interval window
-                      // Use 80% of interval as tolerance to account for rounding differences
-                      return timeDiff < expectedInterval * 0.8;
-                    });
-                    
-                    if (existingIndex >= 0) {
-                      // Update existing candle - use the WebSocket timestamp to maintain consistency
-                      newData[existingIndex] = liveChartData;
-                      console.log('🔄 [useLiveChart] Interval-based match - Updated existing candle:', {
-                        index: existingIndex,
-                        candle: liveChartData,
-                        timeframe: timeframeRef.current,
-                        dataLength: newData.length,
-                        gapInfo
-                      });
-                      
-                      // Update dataRef to keep it in sync
-                      dataRef.current = newData;
-                      
-                      return {
-                        ...prev,
-                        data: newData,
-                        lastUpdate: Date.now(),
-                        isLive: true,
-                        lastTickPrice: liveChartData.close,
-                        lastTickTime: candleTime
-                      };
-                    } else {
-                      // No match found: Add new candle
-                      newData.push(liveChartData);
-                      // Sort by time to maintain chronological order
-                      newData.sort((a, b) => a.time - b.time);
-                      
-                      // Limit to maxDataPoints to prevent unbounded growth
-                      // Keep the most recent candles
-                      const limitedData = newData.length > maxDataPoints 
-                        ? newData.slice(-maxDataPoints) 
-                        : newData;
-                      
-                      console.log('➕ [useLiveChart] No match found - Added new candle:', {
-                        candle: liveChartData,
-                        timeframe: timeframeRef.current,
-                        dataLength: limitedData.length,
-                        expectedInterval,
-                        maxDataPoints,
-                        gapInfo
-                      });
-                      
-                      // Update dataRef to keep it in sync
-                      dataRef.current = limitedData;
-                      
-                      return {
-                        ...prev,
-                        data: limitedData,
-                        lastUpdate: Date.now(),
-                        isLive: true,
-                        lastTickPrice: liveChartData.close,
-                        lastTickTime: candleTime
-                      };
-                    }
                   }
-                });
-              }
-            } catch (error) {
-              // console.error('Error processing candle data:', error);
+                }
+              });
             }
-          } else if (wsData.type === 'tick') {
-            console.log('🔍 [useLiveChart] Processing tick data:', {
-              tickData: wsData,
-              timeframe: timeframeRef.current
-            });
+          } catch (error) {
+            // console.error('Error processing candle data:', error);
+          }
+        } else if (wsData.type === 'tick') {
+          console.log('🔍 [useLiveChart] Processing tick data:', {
+            tickData: wsData,
+            timeframe: timeframeRef.current
+          });
+          
+          try {
+            // Handle both direct tick data and nested data structure
+            const tickData = (wsData as any).data || wsData;
+            const price = parseFloat(tickData.price || tickData.close || tickData.last_price || '0');
+            let tickTime = parseFloat(tickData.timestamp || tickData.time || Date.now() / 1000);
+            const tickVolume = parseFloat(tickData.volume || tickData.volume_traded || '0') || 0;
             
-            try {
-              // Handle both direct tick data and nested data structure
-              const tickData = (wsData as any).data || wsData;
-              const price = parseFloat(tickData.price || tickData.close || tickData.last_price || '0');
-              let tickTime = parseFloat(tickData.timestamp || tickData.time || Date.now() / 1000);
-              const tickVolume = parseFloat(tickData.volume || tickData.volume_traded || '0') || 0;
+            // Normalize tick timestamp to seconds if it's in milliseconds
+            // Timestamps > 1e12 are likely in milliseconds, convert to seconds
+            if (tickTime > 1e12) {
+              tickTime = tickTime / 1000;
+            }
+            
+            if (price > 0 && tickTime > 0) {
+              console.log('🔄 [useLiveChart] TICK RECEIVED:', { 
+                price, 
+                tickTime, 
+                tickVolume,
+                timeframe: timeframeRef.current,
+                originalData: tickData 
+              });
               
-              // Normalize tick timestamp to seconds if it's in milliseconds
-              // Timestamps > 1e12 are likely in milliseconds, convert to seconds
-              if (tickTime > 1e12) {
-                tickTime = tickTime / 1000;
-              }
+              // Update last tick info
+              lastTickRef.current = { price, time: tickTime };
               
-              if (price > 0 && tickTime > 0) {
-                console.log('🔄 [useLiveChart] TICK RECEIVED:', { 
-                  price, 
-                  tickTime, 
-                  tickVolume,
-                  timeframe: timeframeRef.current,
-                  originalData: tickData 
-                });
+              setState(prev => {
+                const newData = [...prev.data];
                 
-                // Update last tick info
-                lastTickRef.current = { price, time: tickTime };
+                // Calculate expected interval in seconds based on current timeframe
+                const intervalSeconds: Record<string, number> = {
+                  '1min': 60,
+                  '5min': 300,
+                  '15min': 900,
+                  '60min': 3600,
+                  '1day': 86400
+                };
+                // Map timeframe to backend format (handle both frontend and backend formats)
+                const currentTimeframe = timeframeRef.current;
+                let currentBackendTimeframe: string;
+                if (INTERVAL_MAPPING[currentTimeframe as keyof typeof INTERVAL_MAPPING]) {
+                  currentBackendTimeframe = INTERVAL_MAPPING[currentTimeframe as keyof typeof INTERVAL_MAPPING];
+                } else {
+                  const backendFormats = ['1min', '5min', '15min', '60min', '1day'];
+                  currentBackendTimeframe = backendFormats.includes(currentTimeframe) ? currentTimeframe : '1day';
+                }
+                const expectedInterval = intervalSeconds[currentBackendTimeframe] || 86400;
                 
-                setState(prev => {
-                  const newData = [...prev.data];
+                if (newData.length > 0) {
+                  const lastCandle = newData[newData.length - 1];
                   
-                  // Calculate expected interval in seconds based on current timeframe
-                  const intervalSeconds: Record<string, number> = {
-                    '1min': 60,
-                    '5min': 300,
-                    '15min': 900,
-                    '60min': 3600,
-                    '1day': 86400
-                  };
-                  // Map timeframe to backend format (handle both frontend and backend formats)
-                  const currentTimeframe = timeframeRef.current;
-                  let currentBackendTimeframe: string;
-                  if (INTERVAL_MAPPING[currentTimeframe as keyof typeof INTERVAL_MAPPING]) {
-                    currentBackendTimeframe = INTERVAL_MAPPING[currentTimeframe as keyof typeof INTERVAL_MAPPING];
-                  } else {
-                    const backendFormats = ['1min', '5min', '15min', '60min', '1day'];
-                    currentBackendTimeframe = backendFormats.includes(currentTimeframe) ? currentTimeframe : '1day';
-                  }
-                  const expectedInterval = intervalSeconds[currentBackendTimeframe] || 86400;
+                  // Calculate the time window for the last candle
+                  const lastCandleStartTime = lastCandle.time;
+                  const lastCandleEndTime = lastCandleStartTime + expectedInterval;
                   
-                  if (newData.length > 0) {
-                    const lastCandle = newData[newData.length - 1];
-                    
-                    // Calculate the time window for the last candle
-                    const lastCandleStartTime = lastCandle.time;
-                    const lastCandleEndTime = lastCandleStartTime + expectedInterval;
+                  // Check if tick falls within the last candle's time window
+                  const timeDiff = tickTime - lastCandleStartTime;
+                  const isWithinWindow = tickTime >= lastCandleStartTime && tickTime < lastCandleEndTime;
+                  
+                  console.log('🔍 [useLiveChart] Checking tick against candle window:', {
+                    tickTime,
+                    tickTimeDate: new Date(tickTime * 1000).toISOString(),
+                    lastCandleStartTime,
+                    lastCandleStartDate: new Date(lastCandleStartTime * 1000).toISOString(),
+                    lastCandleEndTime,
+                    lastCandleEndDate: new Date(lastCandleEndTime * 1000).toISOString(),
+                    timeDiff,
+                    expectedInterval,
+                    isWithinWindow,
+                    timeframe: timeframeRef.current
+                  });
+                  
+                  if (isWithinWindow) {
+                    // Update the last candle with new tick data
+                    const oldClose = lastCandle.close;
                     
-                    // Check if tick falls within the last candle's time window
-                    const timeDiff = tickTime - lastCandleStartTime;
-                    const isWithinWindow = tickTime >= lastCandleStartTime && tickTime < lastCandleEndTime;
+                    newData[newData.length - 1] = {
+                      ...lastCandle,
+                      close: price,
+                      high: Math.max(lastCandle.high, price),
+                      low: Math.min(lastCandle.low, price),
+                      volume: lastCandle.volume + tickVolume // Accumulate volume
+                    };
                     
-                    console.log('🔍 [useLiveChart] Checking tick against candle window:', {
-                      tickTime,
-                      tickTimeDate: new Date(tickTime * 1000).toISOString(),
-                      lastCandleStartTime,
-                      lastCandleStartDate: new Date(lastCandleStartTime * 1000).toISOString(),
-                      lastCandleEndTime,
-                      lastCandleEndDate: new Date(lastCandleEndTime * 1000).toISOString(),
-                      timeDiff,
-                      expectedInterval,
-                      isWithinWindow,
+                    console.log('📊 [useLiveChart] Updated existing candle with tick:', {
+                      oldClose,
+                      newClose: price,
+                      high: newData[newData.length - 1].high,
+                      low: newData[newData.length - 1].low,
+                      dataLength: newData.length,
                       timeframe: timeframeRef.current
                     });
                     
-                    if (isWithinWindow) {
-                      // Update the last candle with new tick data
+                    // Update dataRef to keep it in sync
+                    dataRef.current = newData;
+                    
+                    return {
+                      ...prev,
+                      data: newData,
+                      lastUpdate: Date.now(),
+                      isLive: true,
+                      lastTickPrice: price,
+                      lastTickTime: tickTime
+                    };
+                  } else {
+                    // Tick is outside the current candle's time window - create a new candle
+                    // Calculate the start time of the interval that contains this tick
+                    // Round down to the nearest interval boundary
+                    const newCandleStartTime = Math.floor(tickTime / expectedInterval) * expectedInterval;
+                    
+                    // Check if this new candle timestamp matches the last historical candle
+                    // If it does, update the last candle instead of creating a duplicate
+                    if (newCandleStartTime === lastCandleStartTime) {
+                      // Same candle interval: Update the last candle with tick data
                       const oldClose = lastCandle.close;
                       
                       newData[newData.length - 1] = {
@@ -886,15 +1025,14 @@ export function useLiveChart({
                         close: price,
                         high: Math.max(lastCandle.high, price),
                         low: Math.min(lastCandle.low, price),
-                        volume: lastCandle.volume + tickVolume // Accumulate volume
+                        volume: lastCandle.volume + tickVolume
                       };
                       
-                      console.log('📊 [useLiveChart] Updated existing candle with tick:', {
+                      console.log('🔄 [useLiveChart] Tick in same interval as last candle - Updated (duplicate prevention):', {
+                        newCandleStartTime,
+                        lastCandleStartTime,
                         oldClose,
                         newClose: price,
-                        high: newData[newData.length - 1].high,
-                        low: newData[newData.length - 1].low,
-                        dataLength: newData.length,
                         timeframe: timeframeRef.current
                       });
                       
@@ -909,179 +1047,164 @@ export function useLiveChart({
                         lastTickPrice: price,
                         lastTickTime: tickTime
                       };
-                    } else {
-                      // Tick is outside the current candle's time window - create a new candle
-                      // Calculate the start time of the interval that contains this tick
-                      // Round down to the nearest interval boundary
-                      const newCandleStartTime = Math.floor(tickTime / expectedInterval) * expectedInterval;
-                      
-                      // Check if this new candle timestamp matches the last historical candle
-                      // If it does, update the last candle instead of creating a duplicate
-                      if (newCandleStartTime === lastCandleStartTime) {
-                        // Same candle interval: Update the last candle with tick data
-                        const oldClose = lastCandle.close;
-                        
-                        newData[newData.length - 1] = {
-                          ...lastCandle,
-                          close: price,
-                          high: Math.max(lastCandle.high, price),
-                          low: Math.min(lastCandle.low, price),
-                          volume: lastCandle.volume + tickVolume
-                        };
-                        
-                        console.log('🔄 [useLiveChart] Tick in same interval as last candle - Updated (duplicate prevention):', {
-                          newCandleStartTime,
-                          lastCandleStartTime,
-                          oldClose,
-                          newClose: price,
-                          timeframe: timeframeRef.current
-                        });
-                        
-                        // Update dataRef to keep it in sync
-                        dataRef.current = newData;
-                        
-                        return {
-                          ...prev,
-                          data: newData,
-                          lastUpdate: Date.now(),
-                          isLive: true,
-                          lastTickPrice: price,
-                          lastTickTime: tickTime
-                        };
-                      }
-                      
-                      console.log('🆕 [useLiveChart] Tick outside current candle window, creating new candle:', {
-                        tickTime,
-                        tickTimeDate: new Date(tickTime * 1000).toISOString(),
-                        lastCandleStartTime,
-                        lastCandleEndTime,
-                        lastCandleEndDate: new Date(lastCandleEndTime * 1000).toISOString(),
-                        expectedInterval,
-                        newCandleStartTime,
-                        newCandleStartDate: new Date(newCandleStartTime * 1000).toISOString(),
-                        timeframe: timeframeRef.current
-                      });
-                      
-                      // Create a new candle for the new interval
-                      const newCandle: LiveChartData = {
-                        date: new Date(newCandleStartTime * 1000).toISOString(),
-                        time: newCandleStartTime,
-                        open: price, // Use current price as open (or use last close if available)
-                        high: price,
-                        low: price,
-                        close: price,
-                        volume: tickVolume
-                      };
-                      
-                      // If we have a previous candle, use its close as the new candle's open
-                      if (newData.length > 0) {
-                        newCandle.open = lastCandle.close;
-                      }
-                      
-                      newData.push(newCandle);
-                      // Sort by time to maintain chronological order
-                      newData.sort((a, b) => a.time - b.time);
-                      
-                      // Limit to maxDataPoints to prevent unbounded growth
-                      // Keep the most recent candles
-                      const limitedData = newData.length > maxDataPoints 
-                        ? newData.slice(-maxDataPoints) 
-                        : newData;
-                      
-                      console.log('➕ [useLiveChart] Created new candle from tick:', {
-                        newCandle,
-                        tickTime,
-                        newCandleStartTime,
-                        expectedInterval,
-                        timeframe: timeframeRef.current,
-                        newDataLength: newData.length,
-                        limitedDataLength: limitedData.length,
-                        maxDataPoints,
-                        firstCandleTime: limitedData[0]?.time,
-                        lastCandleTime: limitedData[limitedData.length - 1]?.time
-                      });
-                      
-                      // Update dataRef to keep it in sync
-                      dataRef.current = limitedData;
-                      
-                      return {
-                        ...prev,
-                        data: limitedData,
-                        lastUpdate: Date.now(),
-                        isLive: true,
-                        lastTickPrice: price,
-                        lastTickTime: tickTime
-                      };
                     }
-                  } else {
-                    // No existing data - create first candle from tick
-                    const newCandleStartTime = Math.floor(tickTime / expectedInterval) * expectedInterval;
+                    
+                    console.log('🆕 [useLiveChart] Tick outside current candle window, creating new candle:', {
+                      tickTime,
+                      tickTimeDate: new Date(tickTime * 1000).toISOString(),
+                      lastCandleStartTime,
+                      lastCandleEndTime,
+                      lastCandleEndDate: new Date(lastCandleEndTime * 1000).toISOString(),
+                      expectedInterval,
+                      newCandleStartTime,
+                      newCandleStartDate: new Date(newCandleStartTime * 1000).toISOString(),
+                      timeframe: timeframeRef.current
+                    });
+                    
+                    // Create a new candle for the new interval
                     const newCandle: LiveChartData = {
                       date: new Date(newCandleStartTime * 1000).toISOString(),
                       time: newCandleStartTime,
-                      open: price,
+                      open: price, // Use current price as open (or use last close if available)
                       high: price,
                       low: price,
                       close: price,
                       volume: tickVolume
                     };
                     
+                    // If we have a previous candle, use its close as the new candle's open
+                    if (newData.length > 0) {
+                      newCandle.open = lastCandle.close;
+                    }
+                    
                     newData.push(newCandle);
-                    console.log('🆕 [useLiveChart] Created first candle from tick:', {
+                    // Sort by time to maintain chronological order
+                    newData.sort((a, b) => a.time - b.time);
+                    
+                    // Limit to maxDataPoints to prevent unbounded growth
+                    // Keep the most recent candles
+                    const limitedData = newData.length > maxSourcePointsRef.current 
+                      ? newData.slice(-maxSourcePointsRef.current) 
+                      : newData;
+                    
+                    console.log('➕ [useLiveChart] Created new candle from tick:', {
                       newCandle,
-                      timeframe: timeframeRef.current
+                      tickTime,
+                      newCandleStartTime,
+                      expectedInterval,
+                      timeframe: timeframeRef.current,
+                      newDataLength: newData.length,
+                      limitedDataLength: limitedData.length,
+                      maxDataPoints: maxSourcePointsRef.current,
+                      firstCandleTime: limitedData[0]?.time,
+                      lastCandleTime: limitedData[limitedData.length - 1]?.time
                     });
                     
                     // Update dataRef to keep it in sync
-                    dataRef.current = newData;
-                  
-                  return {
-                    ...prev,
-                    data: newData,
-                    lastUpdate: Date.now(),
-                    isLive: true,
-                    lastTickPrice: price,
-                    lastTickTime: tickTime
-                  };
+                    dataRef.current = limitedData;
+                    
+                    return {
+                      ...prev,
+                      data: limitedData,
+                      lastUpdate: Date.now(),
+                      isLive: true,
+                      lastTickPrice: price,
+                      lastTickTime: tickTime
+                    };
                   }
-                });
-              }
-            } catch (error) {
-              console.error('❌ [useLiveChart] Error processing tick data:', error);
+                } else {
+                  // No existing data - create first candle from tick
+                  const newCandleStartTime = Math.floor(tickTime / expectedInterval) * expectedInterval;
+                  const newCandle: LiveChartData = {
+                    date: new Date(newCandleStartTime * 1000).toISOString(),
+                    time: newCandleStartTime,
+                    open: price,
+                    high: price,
+                    low: price,
+                    close: price,
+                    volume: tickVolume
+                  };
+                  
+                  newData.push(newCandle);
+                  console.log('🆕 [useLiveChart] Created first candle from tick:', {
+                    newCandle,
+                    timeframe: timeframeRef.current
+                  });
+                  
+                  // Update dataRef to keep it in sync
+                  dataRef.current = newData;
+                
+                return {
+                  ...prev,
+                  data: newData,
+                  lastUpdate: Date.now(),
+                  isLive: true,
+                  lastTickPrice: price,
+                  lastTickTime: tickTime
+                };
+                }
+              });
             }
-          } else if (wsData.type === 'subscribed') {
-            // console.log('✅ Successfully subscribed to WebSocket feed');
-            setState(prev => ({
-              ...prev,
-              connectionStatus: 'connected',
-              isConnected: true,
-              reconnectAttempts: 0
-            }));
-          } else if (wsData.type === 'error') {
-            // console.error('WebSocket error:', wsData);
-            setState(prev => ({
-              ...prev,
-              connectionStatus: 'error',
-              error: `WebSocket error: ${wsData.data}`,
-              isConnected: false
-            }));
-          } else if (wsData.type === 'heartbeat') {
-            // Handle heartbeat to keep connection alive
-            // console.log('💓 WebSocket heartbeat received');
+          } catch (error) {
+            console.error('❌ [useLiveChart] Error processing tick data:', error);
           }
+        } else if (wsData.type === 'subscribed') {
+          // console.log('✅ Successfully subscribed to WebSocket feed');
+          setState(prev => ({
+            ...prev,
+            connectionStatus: 'connected',
+            isConnected: true,
+            reconnectAttempts: 0
+          }));
+        } else if (wsData.type === 'error') {
+          // console.error('WebSocket error:', wsData);
+          setState(prev => ({
+            ...prev,
+            connectionStatus: 'error',
+            error: `WebSocket error: ${wsData.data}`,
+            isConnected: false
+          }));
+        } else if (wsData.type === 'heartbeat') {
+          // Handle heartbeat to keep connection alive
+          // console.log('💓 WebSocket heartbeat received');
+        }
+      };
+
+      // The socket is shared through liveStreamManager; we only own this subscription
+      unsubscribeRef.current = liveStreamManager.subscribe(symbolRef.current, backendTimeframe, {
+        onMessage: (message: LiveStreamMessage) => {
+          const wsData = message as WebSocketMessage;
+          // Hold live updates while the outage gap is backfilled so they land on top of it
+          if (isBackfillingRef.current && (wsData.type === 'candle' || wsData.type === 'tick')) {
+            pendingMessagesRef.current.push(wsData);
+            return;
+          }
+          handleStreamMessage(wsData);
         },
-        undefined, // onError
-        undefined, // onClose
-        [backendTimeframe] // timeframes - pass the mapped timeframe
-      );
+        onResume: () => {
+          isBackfillingRef.current = true;
+          setState(prev => ({ ...prev, isBackfilling: true }));
 
-      // console.log('WebSocket connected to Data Service');
-      setState(prev => ({
-        ...prev,
-        connectionStatus: 'connected',
-        isConnected: true,
-        reconnectAttempts: 0
-      }));
+          const flushPendingMessages = () => {
+            isBackfillingRef.current = false;
+            const pending = pendingMessagesRef.current;
+            pendingMessagesRef.current = [];
+            setState(prev => ({ ...prev, isBackfilling: false }));
+            pending.forEach(handleStreamMessage);
+          };
+
+          (backfillGapRef.current?.() ?? Promise.resolve()).then(flushPendingMessages, flushPendingMessages);
+        },
+        onStatusChange: (status) => {
+          setState(prev => ({
+            ...prev,
+            connectionStatus: status,
+            isConnected: status === 'connected',
+            isLive: status === 'connected' ? prev.isLive : false,
+            reconnectAttempts: status === 'connected' ? 0 : prev.reconnectAttempts
+          }));
+        }
+      });
 
       // Reset connecting flag on successful connection
       isConnectingRef.current = false;
@@ -1115,11 +1238,9 @@ export function useLiveChart({
   const disconnect = useCallback(() => {
     // console.log('Disconnecting WebSocket...');
     
-    // Use the liveDataService disconnect method
-    liveDataService.disconnectWebSocket();
-    
-    // Clear our local reference
-    wsRef.current = null;
+    // Release our subscription - the shared socket stays up for other subscribers
+    unsubscribeRef.current?.();
+    unsubscribeRef.current = null;
 
     if (reconnectTimeoutRef.current) {
       clearTimeout(reconnectTimeoutRef.current);
@@ -1128,6 +1249,8 @@ export function useLiveChart({
 
     isConnectingRef.current = false;
     lastTickRef.current = null;
+    isBackfillingRef.current = false;
+    pendingMessagesRef.current = [];
 
     setState(prev => ({
       ...prev,
@@ -1136,7 +1259,8 @@ export function useLiveChart({
       isLive: false,
       reconnectAttempts: 0,
       lastTickPrice: undefined,
-      lastTickTime: undefined
+      lastTickTime: undefined,
+      isBackfilling: false
     }));
   }, []);
 
@@ -1207,9 +1331,19 @@ export function useLiveChart({
   const updateTimeframe = useCallback(async (newTimeframe: string) => {
     // console.log(`🔄 Updating timeframe from ${timeframeRef.current} to ${newTimeframe}`);
     
+    const newSourceTimeframe = getSourceTimeframe(newTimeframe);
+    const previousDisplayTimeframe = displayTimeframeRef.current;
+    displayTimeframeRef.current = newTimeframe;
+    maxSourcePointsRef.current = getSourceDataPoints(maxDataPoints, newTimeframe);
+    setDisplayTimeframe(newTimeframe);
+    
     // Don't update if it's the same timeframe
-    if (timeframeRef.current === newTimeframe) {
+    // Resampled timeframes sharing a source keep the stream and only resize the source window
+    if (timeframeRef.current === newSourceTimeframe) {
       // console.log('⚠️ Same timeframe, skipping update');
+      if (previousDisplayTimeframe !== newTimeframe) {
+        await loadHistoricalDataRef.current?.();
+      }
       return;
     }
     
@@ -1229,7 +1363,7 @@ export function useLiveChart({
       disconnectRef.current?.();
       
       // Update the timeframe reference
-      timeframeRef.current = newTimeframe;
+      timeframeRef.current = newSourceTimeframe;
       
       // Load new historical data
       await loadHistoricalDataRef.current?.();
@@ -1248,7 +1382,7 @@ export function useLiveChart({
         error: `Failed to update timeframe to ${newTimeframe}: ${error instanceof Error ? error.message : 'Unknown error'}`
       }));
     }
-  }, [autoConnect]);
+  }, [autoConnect, maxDataPoints]);
 
   // Initialize on mount with better error handling
   useEffect(() => {
@@ -1283,6 +1417,8 @@ export function useLiveChart({
     // Store previous values for comparison
     const previousSymbol = symbolRef.current;
     const previousTimeframe = timeframeRef.current;
+    const previousMaxSourcePoints = maxSourcePointsRef.current;
+    maxSourcePointsRef.current = getSourceDataPoints(maxDataPoints, timeframe);
     
     // console.log('🔄 Symbol comparison check:', {
     //   previousSymbol,
@@ -1328,10 +1464,15 @@ export function useLiveChart({
       // console.log('🔄 Symbol comparison failed - symbols are the same');
     }
     
+    const previousDisplayTimeframe = displayTimeframeRef.current;
+    const sourceTimeframe = getSourceTimeframe(timeframe);
+    displayTimeframeRef.current = timeframe;
+    setDisplayTimeframe(timeframe);
+    
     // Check if timeframe has changed (including initial case when previousTimeframe is undefined)
-    if (previousTimeframe !== timeframe) {
+    if (previousTimeframe !== sourceTimeframe) {
       // console.log(`🔄 Timeframe changed from ${previousTimeframe || 'undefined'} to ${timeframe}`);
-      timeframeRef.current = timeframe;
+      timeframeRef.current = sourceTimeframe;
       
       // Clear data and reload for new timeframe
       setState(prev => ({
@@ -1360,11 +1501,24 @@ export function useLiveChart({
           connectRef.current?.();
         }, 100);
       }
+    } else if (
+      previousSymbol === symbol &&
+      (previousDisplayTimeframe !== timeframe || previousMaxSourcePoints !== maxSourcePointsRef.current)
+    ) {
+      // Same source stream, different bucket size or maxDataPoints - reload so the source window matches
+      loadHistoricalDataRef.current?.();
     }
-  }, [symbol, timeframe, autoConnect]);
+  }, [symbol, timeframe, autoConnect, maxDataPoints]);
+
+  // Resampled timeframes are rebuilt from the source series; only the bar in progress is recomputed on live updates
+  const data = useMemo(() => {
+    const bars = resamplerRef.current.resample(state.data, displayTimeframe);
+    return bars.length > maxDataPoints ? bars.slice(-maxDataPoints) : bars;
+  }, [state.data, displayTimeframe, maxDataPoints]);
 
   return {
     ...state,
+    data,
     connect,
     disconnect,
     refetch,
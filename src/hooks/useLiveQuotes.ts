@@ -0,0 +1,167 @@
+import { useEffect, useRef, useState } from 'react';
+import { liveStreamManager, LiveStreamMessage } from '@/services/liveStreamManager';
+import { candleCacheService } from '@/services/candleCacheService';
+import { getISTDayKey } from '@/utils/candleResampler';
+
+export interface LiveQuote {
+  symbol: string;
+  ltp: number | null;
+  previousClose: number | null;
+  change: number | null;
+  changePercent: number | null;
+  dayOpen: number | null;
+  dayHigh: number | null;
+  dayLow: number | null;
+  volume: number | null;
+  avgVolume: number | null; // Mean of the last AVG_VOLUME_SESSIONS completed sessions
+  volumeRatio: number | null;
+  updatedAt: number | null;
+}
+
+// Days of daily history for previous close and average volume
+const HISTORY_DAYS = 45;
+const AVG_VOLUME_SESSIONS = 20;
+// Ticks can arrive many times a second per symbol; the grid re-renders at most this often
+const FLUSH_INTERVAL_MS = 1000;
+
+const emptyQuote = (symbol: string): LiveQuote => ({
+  symbol,
+  ltp: null,
+  previousClose: null,
+  change: null,
+  changePercent: null,
+  dayOpen: null,
+  dayHigh: null,
+  dayLow: null,
+  volume: null,
+  avgVolume: null,
+  volumeRatio: null,
+  updatedAt: null
+});
+
+// Derived fields are recomputed from the raw ones on every change
+const withDerived = (quote: LiveQuote): LiveQuote => {
+  const change = quote.ltp !== null && quote.previousClose ? quote.ltp - quote.previousClose : null;
+  return {
+    ...quote,
+    change,
+    changePercent: change !== null && quote.previousClose ? (change / quote.previousClose) * 100 : null,
+    volumeRatio: quote.volume !== null && quote.avgVolume ? quote.volume / quote.avgVolume : null
+  };
+};
+
+// Live LTP, day range and volume for a set of symbols, seeded from cached daily candles
+// and kept current through the shared stream. Returns quotes keyed by upper-case symbol.
+export const useLiveQuotes = (symbols: string[]): Record<string, LiveQuote> => {
+  const [quotes, setQuotes] = useState<Record<string, LiveQuote>>({});
+  const quotesRef = useRef<Map<string, LiveQuote>>(new Map());
+  const isDirtyRef = useRef(false);
+  const symbolKey = Array.from(new Set(symbols.map(symbol => symbol.toUpperCase()))).sort().join(',');
+
+  useEffect(() => {
+    const interval = setInterval(() => {
+      if (!isDirtyRef.current) return;
+      isDirtyRef.current = false;
+      setQuotes(Object.fromEntries(quotesRef.current));
+    }, FLUSH_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, []);
+
+  useEffect(() => {
+    const wanted = symbolKey ? symbolKey.split(',') : [];
+    let cancelled = false;
+
+    // Keep quotes we already have so re-subscribing after an edit doesn't blank the grid
+    const current = quotesRef.current;
+    Array.from(current.keys()).forEach(symbol => {
+      if (!wanted.includes(symbol)) current.delete(symbol);
+    });
+    wanted.forEach(symbol => {
+      if (!current.has(symbol)) current.set(symbol, emptyQuote(symbol));
+    });
+    isDirtyRef.current = true;
+
+    const update = (symbol: string, patch: Partial<LiveQuote>) => {
+      const quote = current.get(symbol);
+      if (!quote || cancelled) return;
+      current.set(symbol, withDerived({ ...quote, ...patch, updatedAt: Date.now() }));
+      isDirtyRef.current = true;
+    };
+
+    const handleMessage = (symbol: string, message: LiveStreamMessage) => {
+      const quote = current.get(symbol);
+      if (!quote) return;
+
+      if (message.type === 'candle') {
+        // The daily candle carries the session's range and volume
+        const candle = message.data;
+        if (!candle || typeof candle.close !== 'number') return;
+        update(symbol, {
+          ltp: candle.close,
+          dayOpen: candle.open ?? quote.dayOpen,
+          dayHigh: candle.high ?? quote.dayHigh,
+          dayLow: candle.low ?? quote.dayLow,
+          volume: typeof candle.volume === 'number' ? candle.volume : quote.volume
+        });
+      } else if (message.type === 'tick') {
+        const tick = message.data && typeof message.data === 'object' ? message.data : message;
+        const price = parseFloat(tick.price || tick.close || tick.last_price || '0');
+        if (!(price > 0)) return;
+        const dayVolume = parseFloat(tick.volume_traded);
+        update(symbol, {
+          ltp: price,
+          dayOpen: quote.dayOpen ?? price,
+          dayHigh: quote.dayHigh === null ? price : Math.max(quote.dayHigh, price),
+          dayLow: quote.dayLow === null ? price : Math.min(quote.dayLow, price),
+          volume: Number.isFinite(dayVolume) && dayVolume > 0 ? dayVolume : quote.volume
+        });
+      }
+    };
+
+    const seed = (symbol: string) => {
+      candleCacheService
+        .getHistoricalData(symbol, '1d', 'NSE', HISTORY_DAYS)
+        .then(response => {
+          const candles = [...(response.candles || [])].sort((a, b) => a.time - b.time);
+          if (candles.length === 0) return;
+
+          const today = getISTDayKey(Date.now() / 1000);
+          const last = candles[candles.length - 1];
+          const isTodayOpen = getISTDayKey(last.time) === today;
+          const completed = isTodayOpen ? candles.slice(0, -1) : candles;
+          const recent = completed.slice(-AVG_VOLUME_SESSIONS);
+          const quote = current.get(symbol);
+
+          update(symbol, {
+            // Live values that already arrived win over the history snapshot
+            ltp: quote?.ltp ?? last.close,
+            previousClose: completed.length > 0 ? completed[completed.length - 1].close : null,
+            dayOpen: quote?.dayOpen ?? (isTodayOpen ? last.open : null),
+            dayHigh: quote?.dayHigh ?? (isTodayOpen ? last.high : null),
+            dayLow: quote?.dayLow ?? (isTodayOpen ? last.low : null),
+            volume: quote?.volume ?? (isTodayOpen ? last.volume : null),
+            avgVolume: recent.length > 0 ? recent.reduce((sum, c) => sum + c.volume, 0) / recent.length : null
+          });
+        })
+        .catch(error => {
+          console.warn(`⚠️ [useLiveQuotes] Failed to load daily history for ${symbol}:`, error);
+        });
+    };
+
+    const unsubscribes = wanted.map(symbol => {
+      seed(symbol);
+      return liveStreamManager.subscribe(symbol, '1day', {
+        onMessage: message => handleMessage(symbol, message),
+        // Anything missed while disconnected is covered by the latest daily candle
+        onResume: () => seed(symbol)
+      });
+    });
+
+    return () => {
+      cancelled = true;
+      unsubscribes.forEach(unsubscribe => unsubscribe());
+    };
+  }, [symbolKey]);
+
+  return quotes;
+};
@@ -0,0 +1,30 @@
+import { useEffect, useState } from 'react';
+import { marketStatusService } from '@/services/marketStatusService';
+import { MarketSession, getSessionCountdown } from '@/utils/marketCalendar';
+
+// Countdowns show seconds only in the last minute, so tick slowly until then
+const SLOW_TICK_MS = 15 * 1000;
+const FAST_TICK_MS = 1000;
+const FAST_TICK_WINDOW_MS = 2 * 60 * 1000;
+
+export interface MarketSessionState {
+  session: MarketSession;
+  countdown: number; // ms until the open (closed / pre-open) or the close (open)
+}
+
+// Current NSE session, re-rendering on phase changes and as the countdown runs down
+export const useMarketSession = (): MarketSessionState => {
+  const [now, setNow] = useState(() => Date.now());
+
+  useEffect(() => marketStatusService.subscribe(() => setNow(Date.now())), []);
+
+  const session = marketStatusService.getSession(now);
+  const countdown = getSessionCountdown(session, now);
+
+  useEffect(() => {
+    const timer = setTimeout(() => setNow(Date.now()), countdown <= FAST_TICK_WINDOW_MS ? FAST_TICK_MS : SLOW_TICK_MS);
+    return () => clearTimeout(timer);
+  }, [now, countdown]);
+
+  return { session, countdown };
+};
@@ -0,0 +1,106 @@
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { apiService } from '@/services/api';
+import { analysisModeService } from '@/services/analysisModeService';
+import { indicatorVoteService } from '@/services/indicatorVoteService';
+import {
+  RealtimeSnapshot,
+  SignalFlip,
+  buildSnapshotAnalysisData,
+  findSignalFlips,
+  mergeRealtimeHistory
+} from '@/utils/realtimeSignals';
+
+// Bars of history loaded when the symbol or timeframe changes, and the most kept as candles close
+const HISTORY_SEED = 30;
+const MAX_HISTORY = 100;
+
+interface UseRealtimeAnalysisResult {
+  current: RealtimeSnapshot | null;
+  history: RealtimeSnapshot[]; // Oldest first
+  flips: SignalFlip[];
+  loading: boolean;
+  error: string | null;
+  refresh: () => void;
+  pin: (snapshot: RealtimeSnapshot) => Promise<string | null>;
+}
+
+// Indicator vote for a symbol: the vote history is loaded once per symbol / interval, then one
+// fresh snapshot is scored each time a candle closes (closedCandleTime moves on).
+export const useRealtimeAnalysis = (
+  symbol: string,
+  interval: string,
+  closedCandleTime: number | null,
+  userId: string | null | undefined
+): UseRealtimeAnalysisResult => {
+  const [history, setHistory] = useState<RealtimeSnapshot[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [refreshCount, setRefreshCount] = useState(0);
+  // symbol:interval whose history is loaded; later runs only score the latest bar
+  const loadedKeyRef = useRef<string | null>(null);
+
+  useEffect(() => {
+    if (!symbol) {
+      setHistory([]);
+      setError(null);
+      loadedKeyRef.current = null;
+      return;
+    }
+
+    let cancelled = false;
+    const key = `${symbol}:${interval}`;
+    const isNewSeries = loadedKeyRef.current !== key;
+    if (isNewSeries) {
+      setHistory([]);
+      setError(null);
+    }
+    setLoading(true);
+
+    const request = isNewSeries
+      ? indicatorVoteService.getVoteHistory(symbol, interval, HISTORY_SEED)
+      : indicatorVoteService.getLatestVote(symbol, interval).then(snapshot => [snapshot]);
+
+    request
+      .then(snapshots => {
+        if (cancelled) return;
+        loadedKeyRef.current = key;
+        setHistory(prev => mergeRealtimeHistory(isNewSeries ? [] : prev, snapshots, MAX_HISTORY));
+        setError(null);
+      })
+      .catch(err => {
+        if (cancelled) return;
+        console.warn(`⚠️ [useRealtimeAnalysis] Failed to score ${interval} indicators for ${symbol}:`, err);
+        setError(err instanceof Error ? err.message : 'Failed to score indicators');
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+      setLoading(false);
+    };
+  }, [symbol, interval, closedCandleTime, refreshCount]);
+
+  const refresh = useCallback(() => setRefreshCount(count => count + 1), []);
+
+  // Stores the snapshot as an analysis of its own so it shows up in the user's history
+  const pin = useCallback(async (snapshot: RealtimeSnapshot): Promise<string | null> => {
+    if (!userId) throw new Error('Sign in to pin snapshots');
+    const response = await apiService.storeAnalysis({
+      user_id: userId,
+      stock_symbol: symbol,
+      exchange: 'NSE',
+      interval,
+      analysis_data: buildSnapshotAnalysisData(symbol, interval, snapshot)
+    });
+    const analysisId = response.analysis_id || null;
+    analysisModeService.recordMode(analysisId, 'indicator_snapshot');
+    return analysisId;
+  }, [userId, symbol, interval]);
+
+  const flips = useMemo(() => findSignalFlips(history), [history]);
+  const current = history.length > 0 ? history[history.length - 1] : null;
+
+  return { current, history, flips, loading, error, refresh, pin };
+};
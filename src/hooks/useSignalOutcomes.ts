@@ -0,0 +1,71 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { apiService } from '@/services/api';
+import { signalOutcomeService } from '@/services/signalOutcomeService';
+import { SignalOutcome } from '@/types/signalOutcomes';
+
+// Most recent analyses scored per visit; older ones keep their cached outcome
+const ANALYSES_LIMIT = 100;
+
+interface SignalOutcomesState {
+  outcomes: SignalOutcome[];
+  isScoring: boolean;
+  progress: { done: number; total: number };
+  error: string | null;
+  rescore: () => void;
+}
+
+// Loads the user's stored analyses and scores them against the price history that followed
+export const useSignalOutcomes = (userId: string | null | undefined): SignalOutcomesState => {
+  const [outcomes, setOutcomes] = useState<SignalOutcome[]>([]);
+  const [isScoring, setIsScoring] = useState(false);
+  const [progress, setProgress] = useState({ done: 0, total: 0 });
+  const [error, setError] = useState<string | null>(null);
+  const runRef = useRef(0);
+
+  const score = useCallback(async () => {
+    if (!userId) {
+      setOutcomes([]);
+      return;
+    }
+    const run = ++runRef.current;
+    const isCancelled = () => run !== runRef.current;
+    const cached = signalOutcomeService.loadOutcomes(userId);
+
+    setIsScoring(true);
+    setError(null);
+    try {
+      const response = await apiService.getUserAnalyses(userId, ANALYSES_LIMIT, 0);
+      if (isCancelled()) return;
+      const records = response.success && Array.isArray(response.analyses) ? response.analyses : [];
+      const ids = new Set(records.map(record => record.id));
+      const pick = (map: Record<string, SignalOutcome>) => Object.values(map).filter(outcome => ids.has(outcome.analysisId));
+      // Cached outcomes show straight away while the open ones are rescored
+      setOutcomes(pick(cached));
+
+      const scored = await signalOutcomeService.scoreAnalyses(records, cached, {
+        isCancelled,
+        onProgress: (done, total) => {
+          if (!isCancelled()) setProgress({ done, total });
+        }
+      });
+      if (isCancelled()) return;
+      signalOutcomeService.saveOutcomes(userId, scored);
+      setOutcomes(pick(scored));
+    } catch (err) {
+      if (isCancelled()) return;
+      console.warn('⚠️ [useSignalOutcomes] Failed to score analyses:', err);
+      setError(err instanceof Error ? err.message : 'Failed to load analyses');
+    } finally {
+      if (!isCancelled()) setIsScoring(false);
+    }
+  }, [userId]);
+
+  useEffect(() => {
+    score();
+    return () => {
+      runRef.current += 1;
+    };
+  }, [score]);
+
+  return { outcomes, isScoring, progress, error, rescore: score };
+};
@@ -2,6 +2,9 @@
 import { useState, useCallback, useEffect, useRef } from 'react';
 import { useAuth } from '@/contexts/AuthContext';
 import { apiService } from '@/services/api';
+import { analysisModeService } from '@/services/analysisModeService';
+import { analysisMirrorService } from '@/services/analysisMirrorService';
+import { AnalysisMirrorState, MirroredAnalysis } from '@/types/analysisMirror';
 import { ApiResponse, AnalysisResponse } from '@/types/analysis';
 import { RealCandlestickData } from '@/services/liveDataService';
 
@@ -56,6 +59,33 @@ export interface SectorPerformance {
   last_analysis: string | null;
 }
 
+// Stored row from the database service (or its local mirror) with the normalized fields extracted
+export const toStoredAnalysis = (analysis: any): StoredAnalysis => ({
+  id: analysis.id,
+  stock_symbol: analysis.stock_symbol,
+  analysis_data: analysis.analysis_data,
+  created_at: analysis.created_at,
+  end_date: analysis.analysis_data?.end_date || analysis.end_date || null,
+  analysis_timestamp: analysis.analysis_data?.metadata?.analysis_timestamp || analysis.created_at || null,
+  // Extract normalized fields from analysis_data
+  overall_signal: analysis.analysis_data?.summary?.overall_signal || 
+                 analysis.analysis_data?.ai_analysis?.trend || null,
+  confidence_score: analysis.analysis_data?.summary?.confidence || 
+                   analysis.analysis_data?.ai_analysis?.confidence_pct || null,
+  risk_level: analysis.analysis_data?.ai_analysis?.risk_management?.key_risks?.[0]?.risk_level || null,
+  current_price: analysis.analysis_data?.stock_data?.current_price || null,
+  price_change_percentage: null, // Not available in current data structure
+  sector: analysis.analysis_data?.sector_benchmarking?.sector_info?.sector || null,
+  analysis_type: analysisModeService.getMode(analysis.id, analysis.analysis_data),
+  exchange: analysis.analysis_data?.exchange || 'NSE',
+  period_days: analysis.analysis_data?.metadata?.period_days || null,
+  interval: analysis.analysis_data?.metadata?.interval || null,
+  analysis_quality: 'standard',
+  mathematical_validation: true,
+  chart_paths: null,
+  metadata: analysis.analysis_data?.metadata || null
+});
+
 export const useStockAnalyses = () => {
   const [analyses, setAnalyses] = useState<StoredAnalysis[]>([]);
   const [analysisSummary, setAnalysisSummary] = useState<AnalysisSummary[]>([]);
@@ -69,6 +99,31 @@ export const useStockAnalyses = () => {
   const [hasMore, setHasMore] = useState(true); // Flag to indicate if more analyses are available
   const isInitialMount = useRef(true); // Ref to track initial mount
 
+  // Local IndexedDB mirror: every stored analysis seen so far, for instant loads and offline search
+  const [mirroredAnalyses, setMirroredAnalyses] = useState<MirroredAnalysis[]>([]);
+  const [mirrorState, setMirrorState] = useState<AnalysisMirrorState | null>(null);
+  const [isMirrorSyncing, setIsMirrorSyncing] = useState(false);
+  // The list currently shows mirrored analyses because the database service could not be reached
+  const [isServedFromMirror, setIsServedFromMirror] = useState(false);
+
+  const refreshMirror = useCallback(async () => {
+    if (!user?.id) return [];
+    const records = await analysisMirrorService.getAnalyses(user.id);
+    setMirroredAnalyses(records);
+    return records;
+  }, [user?.id]);
+
+  const syncMirror = useCallback(async () => {
+    if (!user?.id) return;
+    setIsMirrorSyncing(true);
+    try {
+      setMirrorState(await analysisMirrorService.sync(user.id));
+      await refreshMirror();
+    } finally {
+      setIsMirrorSyncing(false);
+    }
+  }, [user?.id, refreshMirror]);
+
   // Fetch user's analysis history
   const fetchAnalyses = useCallback(async (newOffset: number = 0) => {
     if (!user?.id) {
@@ -78,38 +133,25 @@ export const useStockAnalyses = () => {
       return [];
     }
 
-    setLoading(true);
     setError(null);
 
+    // The first page comes straight from the mirror while the database service answers
+    let showingMirror = false;
+    if (newOffset === 0) {
+      const mirrored = await refreshMirror();
+      if (mirrored.length > 0) {
+        setAnalyses(mirrored.slice(0, limit).map(toStoredAnalysis));
+        setHasMore(mirrored.length > limit);
+        showingMirror = true;
+      }
+    }
+    setLoading(!showingMirror);
+
     try {
       const response = await apiService.getUserAnalyses(user.id, limit, newOffset);
       
       if (response.success && response.analyses) {
-        const transformedAnalyses = response.analyses.map((analysis: any) => ({
-          id: analysis.id,
-          stock_symbol: analysis.stock_symbol,
-          analysis_data: analysis.analysis_data,
-          created_at: analysis.created_at,
-          end_date: analysis.analysis_data?.end_date || analysis.end_date || null,
-          analysis_timestamp: analysis.analysis_data?.metadata?.analysis_timestamp || analysis.created_at || null,
-          // Extract normalized fields from analysis_data
-          overall_signal: analysis.analysis_data?.summary?.overall_signal || 
-                         analysis.analysis_data?.ai_analysis?.trend || null,
-          confidence_score: analysis.analysis_data?.summary?.confidence || 
-                           analysis.analysis_data?.ai_analysis?.confidence_pct || null,
-          risk_level: analysis.analysis_data?.ai_analysis?.risk_management?.key_risks?.[0]?.risk_level || null,
-          current_price: analysis.analysis_data?.stock_data?.current_price || null,
-          price_change_percentage: null, // Not available in current data structure
-          sector: analysis.analysis_data?.sector_benchmarking?.sector_info?.sector || null,
-          analysis_type: 'standard',
-          exchange: analysis.analysis_data?.exchange || 'NSE',
-          period_days: analysis.analysis_data?.metadata?.period_days || null,
-          interval: analysis.analysis_data?.metadata?.interval || null,
-          analysis_quality: 'standard',
-          mathematical_validation: true,
-          chart_paths: null,
-          metadata: analysis.analysis_data?.metadata || null
-        }));
+        const transformedAnalyses = response.analyses.map(toStoredAnalysis);
 
         if (newOffset === 0) {
           setAnalyses(transformedAnalyses);
@@ -117,6 +159,8 @@ export const useStockAnalyses = () => {
           setAnalyses(prevAnalyses => [...prevAnalyses, ...transformedAnalyses]);
         }
         setHasMore(transformedAnalyses.length === limit); // Update hasMore based on backend response
+        setIsServedFromMirror(false);
+        analysisMirrorService.putAnalyses(user.id, response.analyses).then(refreshMirror);
         return transformedAnalyses;
       } else {
         setAnalyses(newOffset === 0 ? [] : prevAnalyses => prevAnalyses);
@@ -124,6 +168,16 @@ export const useStockAnalyses = () => {
         return [];
       }
     } catch (err) {
+      // Cold or unreachable database service: page through the mirror instead
+      const mirrored = await analysisMirrorService.getAnalyses(user.id);
+      if (mirrored.length > newOffset) {
+        const page = mirrored.slice(newOffset, newOffset + limit).map(toStoredAnalysis);
+        setAnalyses(prevAnalyses => (newOffset === 0 ? page : [...prevAnalyses, ...page]));
+        setHasMore(mirrored.length > newOffset + limit);
+        setIsServedFromMirror(true);
+        return page;
+      }
+
       const errorMessage = err instanceof Error ? err.message : 'Failed to fetch analyses';
       setError(errorMessage);
       // console.error('Error fetching analyses:', err);
@@ -133,12 +187,15 @@ export const useStockAnalyses = () => {
     } finally {
       setLoading(false);
     }
-  }, [user?.id, limit]);
+  }, [user?.id, limit, refreshMirror]);
 
   // Fetch analysis by ID
   const getAnalysisById = async (analysisId: string): Promise<StoredAnalysis | null> => {
     if (!user?.id) return null;
 
+    const mirrored = await analysisMirrorService.getAnalysis(analysisId, user.id);
+    if (mirrored) return toStoredAnalysis(mirrored);
+
     try {
       const response = await apiService.getAnalysisById(analysisId);
       if (response) {
@@ -157,7 +214,7 @@ export const useStockAnalyses = () => {
           current_price: null,
           price_change_percentage: null,
           sector: null,
-          analysis_type: 'standard',
+          analysis_type: analysisModeService.getMode(analysisId, response),
           exchange: response.exchange || 'NSE',
           period_days: null,
           interval: response.interval || null,
@@ -320,6 +377,11 @@ export const useStockAnalyses = () => {
     }
   }, [user?.id, fetchAnalyses, fetchSectorPerformance]); // Removed 'offset' from dependency array
 
+  // Pull analyses stored since the last sync (other tabs and devices) into the mirror
+  useEffect(() => {
+    if (user?.id) syncMirror();
+  }, [user?.id, syncMirror]);
+
   // Function to load more analyses
   const loadMoreAnalyses = useCallback(() => {
     if (hasMore && !loading) {
@@ -343,6 +405,11 @@ export const useStockAnalyses = () => {
     getHighConfidenceAnalyses,
     fetchAnalyses,
     loadMoreAnalyses,
-    hasMore
+    hasMore,
+    mirroredAnalyses,
+    mirrorState,
+    isMirrorSyncing,
+    isServedFromMirror,
+    syncMirror
   };
 };
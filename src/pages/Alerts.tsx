@@ -0,0 +1,171 @@
+import React, { useEffect, useState } from 'react';
+import Header from '@/components/Header';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Switch } from '@/components/ui/switch';
+import { Bell, BellOff, BellRing, History, Trash2 } from 'lucide-react';
+import { useAuth } from '@/contexts/AuthContext';
+import { useToast } from '@/hooks/use-toast';
+import { useAlertStore, NewAlertInput } from '@/stores/alertStore';
+import { useSelectedStockStore } from '@/stores/selectedStockStore';
+import AlertForm from '@/components/alerts/AlertForm';
+import { describeCondition } from '@/utils/alertConditions';
+import {
+  BrowserNotificationPermission,
+  getNotificationPermission,
+  requestNotificationPermission
+} from '@/utils/browserNotifications';
+
+const formatDateTime = (iso: string | null | undefined): string =>
+  iso ? new Date(iso).toLocaleString('en-IN', { dateStyle: 'medium', timeStyle: 'short' }) : '—';
+
+const Alerts = () => {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const selectedStock = useSelectedStockStore(state => state.selectedStock);
+  const alerts = useAlertStore(state => state.alerts);
+  const history = useAlertStore(state => state.history);
+  const isLoaded = useAlertStore(state => state.isLoaded);
+  const loadAlerts = useAlertStore(state => state.loadAlerts);
+  const addAlert = useAlertStore(state => state.addAlert);
+  const updateAlert = useAlertStore(state => state.updateAlert);
+  const removeAlert = useAlertStore(state => state.removeAlert);
+  const clearHistory = useAlertStore(state => state.clearHistory);
+  const [permission, setPermission] = useState<BrowserNotificationPermission>(getNotificationPermission);
+
+  useEffect(() => {
+    loadAlerts(user?.id);
+  }, [user?.id, loadAlerts]);
+
+  const handleCreate = (input: NewAlertInput) => {
+    const alert = addAlert(input);
+    toast({ title: 'Alert created', description: `${alert.symbol}: ${describeCondition(alert.condition)}` });
+  };
+
+  const handleError = (message: string) => {
+    toast({ title: 'Could not create alert', description: message, variant: 'destructive' });
+  };
+
+  const handleEnableNotifications = async () => {
+    setPermission(await requestNotificationPermission());
+  };
+
+  const activeCount = alerts.filter(alert => alert.enabled).length;
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-slate-50 via-blue-50 to-indigo-50">
+      <Header />
+
+      <div className="container mx-auto px-4 py-8 space-y-6">
+        <div className="flex flex-wrap items-center justify-between gap-4">
+          <div>
+            <h1 className="text-3xl font-bold text-gray-900">Price Alerts</h1>
+            <p className="text-gray-600 mt-1">
+              Alerts are checked against live prices while the app is open in this browser.
+            </p>
+          </div>
+          {permission === 'granted' ? (
+            <Badge variant="outline" className="gap-1 text-emerald-700 border-emerald-300">
+              <BellRing className="h-3.5 w-3.5" /> Browser notifications on
+            </Badge>
+          ) : permission === 'unsupported' ? (
+            <Badge variant="outline" className="gap-1 text-gray-500">
+              <BellOff className="h-3.5 w-3.5" /> Browser notifications unavailable
+            </Badge>
+          ) : (
+            <Button variant="outline" size="sm" onClick={handleEnableNotifications} disabled={permission === 'denied'}>
+              <Bell className="mr-1 h-4 w-4" />
+              {permission === 'denied' ? 'Notifications blocked in browser settings' : 'Enable browser notifications'}
+            </Button>
+          )}
+        </div>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>New alert</CardTitle>
+            <CardDescription>Price crosses, % moves, indicator thresholds or levels from your last analysis</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <AlertForm userId={user?.id} defaultSymbol={selectedStock} onCreate={handleCreate} onError={handleError} />
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Your alerts</CardTitle>
+            <CardDescription>
+              {isLoaded ? `${activeCount} active of ${alerts.length}` : 'Loading alerts...'}
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            {alerts.length === 0 ? (
+              <p className="text-sm text-gray-500">No alerts yet.</p>
+            ) : (
+              <div className="divide-y">
+                {alerts.map(alert => (
+                  <div key={alert.id} className="flex flex-wrap items-center gap-3 py-3">
+                    <Switch
+                      checked={alert.enabled}
+                      onCheckedChange={(enabled) => updateAlert(alert.id, { enabled })}
+                      aria-label={alert.enabled ? 'Disable alert' : 'Enable alert'}
+                    />
+                    <div className="min-w-0 flex-1">
+                      <div className="flex flex-wrap items-center gap-2">
+                        <span className="font-semibold">{alert.symbol}</span>
+                        <span className="text-sm text-gray-700">{describeCondition(alert.condition)}</span>
+                        {alert.repeat && <Badge variant="secondary">Repeats</Badge>}
+                        {alert.condition.type === 'analysis_level' && (
+                          <Badge variant="outline">Analysis {formatDateTime(alert.condition.analysisDate)}</Badge>
+                        )}
+                      </div>
+                      <div className="text-xs text-gray-500">
+                        {alert.note && <span className="mr-3">{alert.note}</span>}
+                        Last triggered: {formatDateTime(alert.lastTriggeredAt)}
+                        {alert.triggerCount > 0 && ` · ${alert.triggerCount}×`}
+                      </div>
+                    </div>
+                    <Button variant="ghost" size="sm" className="h-8 w-8 p-0" onClick={() => removeAlert(alert.id)} title="Delete alert">
+                      <Trash2 className="h-4 w-4 text-red-600" />
+                    </Button>
+                  </div>
+                ))}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between space-y-0">
+            <div>
+              <CardTitle className="flex items-center gap-2">
+                <History className="h-5 w-5" /> Trigger history
+              </CardTitle>
+              <CardDescription>Kept on this device</CardDescription>
+            </div>
+            <Button variant="outline" size="sm" onClick={clearHistory} disabled={history.length === 0}>
+              Clear
+            </Button>
+          </CardHeader>
+          <CardContent>
+            {history.length === 0 ? (
+              <p className="text-sm text-gray-500">Nothing has triggered yet.</p>
+            ) : (
+              <div className="divide-y">
+                {history.map(trigger => (
+                  <div key={trigger.id} className="flex flex-wrap items-baseline gap-3 py-2 text-sm">
+                    <span className="w-44 shrink-0 text-gray-500">{formatDateTime(trigger.triggeredAt)}</span>
+                    <span className="font-semibold">{trigger.symbol}</span>
+                    <span className="text-gray-700">{trigger.message}</span>
+                  </div>
+                ))}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+};
+
+export default Alerts;
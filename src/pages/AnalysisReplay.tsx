@@ -0,0 +1,405 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import Header from '@/components/Header';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Progress } from '@/components/ui/progress';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { StockSelector } from '@/components/ui/stock-selector';
+import { AlertTriangle, History, Loader2, Pause, Play, Square, Trash2 } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { useAuth } from '@/contexts/AuthContext';
+import { useAnalysisReplays } from '@/hooks/useAnalysisReplays';
+import { analysisReplayRunner } from '@/services/analysisReplayService';
+import { historicalSeriesService, MAX_HISTORY_BARS } from '@/services/historicalSeriesService';
+import { CandleData } from '@/services/api';
+import ReplayTimelineChart from '@/components/analysis/ReplayTimelineChart';
+import ReplayPointsTable from '@/components/analysis/ReplayPointsTable';
+import { ReplayCadence, ReplaySeries } from '@/types/analysisReplay';
+import { ANALYSIS_INTERVAL_OPTIONS, getMaxPeriod } from '@/utils/analysisIntervals';
+import { getSignalBias } from '@/utils/analysisSummary';
+import {
+  MAX_REPLAY_POINTS,
+  REPLAY_CADENCE_OPTIONS,
+  buildReplayDates,
+  getReplayHistoryBars,
+  getReplayPointCandles,
+  toDateString
+} from '@/utils/analysisReplay';
+
+const DAY_MS = 86400000;
+
+const getSeriesCounts = (series: ReplaySeries) => ({
+  total: series.points.length,
+  done: series.points.filter(point => point.status === 'success').length,
+  failed: series.points.filter(point => point.status === 'error').length,
+  finished: series.points.filter(point => ['success', 'error', 'cancelled'].includes(point.status)).length,
+  pending: series.points.filter(point => ['queued', 'running', 'retrying'].includes(point.status)).length
+});
+
+const AnalysisReplay = () => {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const navigate = useNavigate();
+  const allSeries = useAnalysisReplays(user?.id);
+
+  const [settings, setSettings] = useState(() => ({
+    symbol: '',
+    startDate: toDateString(new Date(Date.now() - 180 * DAY_MS)),
+    endDate: toDateString(new Date()),
+    cadence: 'weekly' as ReplayCadence,
+    period: '365',
+    interval: 'day',
+    portfolio_value: '1000000'
+  }));
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [candles, setCandles] = useState<CandleData[]>([]);
+  const [isLoadingPrices, setIsLoadingPrices] = useState(false);
+  const [priceError, setPriceError] = useState<string | null>(null);
+
+  const dates = useMemo(
+    () => buildReplayDates(settings.startDate, settings.endDate, settings.cadence),
+    [settings.startDate, settings.endDate, settings.cadence]
+  );
+  // Derived from the runner on every render; allSeries changing is what triggers those renders
+  const activeSeries = analysisReplayRunner.getActiveSeries();
+  const selected = allSeries.find(series => series.id === selectedId) ?? allSeries[0] ?? null;
+  const maxPeriod = getMaxPeriod(settings.interval);
+
+  const handleSettingChange = (field: keyof typeof settings, value: string) => {
+    setSettings(prev => {
+      if (field === 'interval') {
+        const max = getMaxPeriod(value);
+        return { ...prev, interval: value, period: max && Number(prev.period) > max ? String(max) : prev.period };
+      }
+      if (field === 'period') {
+        const max = getMaxPeriod(prev.interval);
+        return { ...prev, period: max && Number(value) > max ? String(max) : value };
+      }
+      if (field === 'portfolio_value') {
+        return { ...prev, portfolio_value: value.replace(/[^0-9]/g, '') };
+      }
+      return { ...prev, [field]: value };
+    });
+  };
+
+  const handleStart = (event: React.FormEvent) => {
+    event.preventDefault();
+    const period = parseInt(settings.period);
+    if (!Number.isFinite(period) || period < 1) {
+      toast({ title: 'Invalid period', description: 'Enter an analysis period of at least one day.', variant: 'destructive' });
+      return;
+    }
+
+    try {
+      const series = analysisReplayRunner.start(
+        {
+          symbol: settings.symbol,
+          exchange: 'NSE',
+          period,
+          interval: settings.interval,
+          startDate: settings.startDate,
+          endDate: settings.endDate,
+          cadence: settings.cadence,
+          portfolio_value: settings.portfolio_value ? parseFloat(settings.portfolio_value) : 1000000
+        },
+        dates,
+        { email: user?.email }
+      );
+      setSelectedId(series.id);
+    } catch (error) {
+      toast({
+        title: 'Could not start replay',
+        description: error instanceof Error ? error.message : 'Failed to start the replay',
+        variant: 'destructive'
+      });
+    }
+  };
+
+  const handleResume = (seriesId: string) => {
+    try {
+      analysisReplayRunner.resume(seriesId, { email: user?.email });
+    } catch (error) {
+      toast({
+        title: 'Could not resume replay',
+        description: error instanceof Error ? error.message : 'Failed to resume the replay',
+        variant: 'destructive'
+      });
+    }
+  };
+
+  // Daily closes from just before the first replay date up to today; point updates don't refetch
+  const priceSymbol = selected?.settings.symbol;
+  const priceExchange = selected?.settings.exchange;
+  const priceStartDate = selected?.settings.startDate;
+  useEffect(() => {
+    if (!priceSymbol || !priceStartDate) {
+      setCandles([]);
+      return;
+    }
+    let cancelled = false;
+    const bars = Math.min(getReplayHistoryBars(priceStartDate), MAX_HISTORY_BARS);
+    setIsLoadingPrices(true);
+    setPriceError(null);
+    historicalSeriesService
+      .getCandles(priceSymbol, priceExchange || 'NSE', '1d', bars)
+      .then(result => {
+        if (!cancelled) setCandles(result);
+      })
+      .catch(error => {
+        if (cancelled) return;
+        console.warn('⚠️ [AnalysisReplay] Failed to load price history:', error);
+        setPriceError(error instanceof Error ? error.message : 'Failed to load price history');
+        setCandles([]);
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoadingPrices(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [priceSymbol, priceExchange, priceStartDate]);
+
+  const points = useMemo(() => selected?.points ?? [], [selected]);
+  const pointCandles = useMemo(() => getReplayPointCandles(points, candles), [points, candles]);
+  const latestClose = candles.length > 0 ? candles[candles.length - 1].close : null;
+
+  // How the calls shifted across the series
+  const summary = useMemo(() => {
+    const results = points.filter(point => point.status === 'success' && point.result).map(point => point.result!);
+    const biases = results.map(result => getSignalBias(result.signal));
+    const confidences = results.map(result => result.confidence).filter((value): value is number => value !== null);
+    return {
+      calls: results.length,
+      bullish: biases.filter(bias => bias === 'bullish').length,
+      bearish: biases.filter(bias => bias === 'bearish').length,
+      neutral: biases.filter(bias => bias === 'neutral').length,
+      flips: biases.filter((bias, i) => i > 0 && bias !== biases[i - 1]).length,
+      avgConfidence: confidences.length > 0 ? confidences.reduce((sum, value) => sum + value, 0) / confidences.length : null
+    };
+  }, [points]);
+
+  const counts = selected ? getSeriesCounts(selected) : null;
+  const isSelectedActive = !!selected && activeSeries?.id === selected.id;
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-slate-50 via-blue-50 to-indigo-50">
+      <Header />
+
+      <div className="container mx-auto px-4 py-8 space-y-6">
+        <div>
+          <h1 className="text-3xl font-bold text-gray-900">Walk-forward Replay</h1>
+          <p className="text-gray-600 mt-1">
+            Re-run the analysis as of a series of past dates and see how its calls and levels moved against the actual price.
+          </p>
+        </div>
+
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <History className="h-5 w-5 text-emerald-600" />
+              New replay
+            </CardTitle>
+            <CardDescription>
+              Each date is a full analysis with its end date set to that day (2-3 minutes each). Up to {MAX_REPLAY_POINTS} dates.
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <form onSubmit={handleStart} className="space-y-5">
+              <div className="max-w-md">
+                <StockSelector
+                  value={settings.symbol}
+                  onValueChange={(value) => handleSettingChange('symbol', value)}
+                  label="Stock"
+                  placeholder="Search NSE stocks..."
+                />
+              </div>
+
+              <div className="grid grid-cols-1 md:grid-cols-3 lg:grid-cols-6 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="replay-start">First date</Label>
+                  <Input id="replay-start" type="date" value={settings.startDate} onChange={(e) => handleSettingChange('startDate', e.target.value)} required />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="replay-end">Last date</Label>
+                  <Input
+                    id="replay-end"
+                    type="date"
+                    max={toDateString(new Date())}
+                    value={settings.endDate}
+                    onChange={(e) => handleSettingChange('endDate', e.target.value)}
+                    required
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="replay-cadence">Cadence</Label>
+                  <Select value={settings.cadence} onValueChange={(value) => handleSettingChange('cadence', value)}>
+                    <SelectTrigger id="replay-cadence">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {REPLAY_CADENCE_OPTIONS.map(option => (
+                        <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="replay-period">Analysis Period (days)</Label>
+                  <Input
+                    id="replay-period"
+                    type="number"
+                    min={1}
+                    max={maxPeriod || undefined}
+                    value={settings.period}
+                    onChange={(e) => handleSettingChange('period', e.target.value)}
+                    required
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="replay-interval">Data Interval</Label>
+                  <Select value={settings.interval} onValueChange={(value) => handleSettingChange('interval', value)}>
+                    <SelectTrigger id="replay-interval">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {ANALYSIS_INTERVAL_OPTIONS.map(option => (
+                        <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="replay-portfolio">Portfolio Value (₹)</Label>
+                  <Input
+                    id="replay-portfolio"
+                    type="text"
+                    value={settings.portfolio_value}
+                    onChange={(e) => handleSettingChange('portfolio_value', e.target.value)}
+                    required
+                  />
+                </div>
+              </div>
+
+              <div className="flex flex-wrap items-center gap-3">
+                <Button
+                  type="submit"
+                  disabled={!!activeSeries || !settings.symbol || dates.length === 0 || dates.length > MAX_REPLAY_POINTS}
+                  className="bg-gradient-to-r from-emerald-500 to-blue-600 hover:from-emerald-600 hover:to-blue-700 text-white"
+                >
+                  <Play className="h-4 w-4 mr-2" />
+                  Replay {Math.min(dates.length, MAX_REPLAY_POINTS)} {dates.length === 1 ? 'date' : 'dates'}
+                </Button>
+                <span className={`text-sm ${dates.length > MAX_REPLAY_POINTS ? 'text-red-600' : 'text-gray-500'}`}>
+                  {dates.length > MAX_REPLAY_POINTS
+                    ? `Too many dates - shorten the range or use a longer cadence (max ${MAX_REPLAY_POINTS})`
+                    : dates.length > 0
+                      ? `${dates[0]} to ${dates[dates.length - 1]}`
+                      : 'The range has no trading dates'}
+                  {activeSeries && ' · another replay is running'}
+                </span>
+              </div>
+            </form>
+          </CardContent>
+        </Card>
+
+        {allSeries.length > 0 && selected && counts && (
+          <Card>
+            <CardHeader className="space-y-3">
+              <div className="flex flex-wrap items-center justify-between gap-3">
+                <div className="flex flex-wrap items-center gap-3">
+                  <Select value={selected.id} onValueChange={setSelectedId}>
+                    <SelectTrigger className="w-72">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {allSeries.map(series => (
+                        <SelectItem key={series.id} value={series.id}>
+                          {series.settings.symbol} · {series.settings.startDate} to {series.settings.endDate}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <CardDescription>
+                    {REPLAY_CADENCE_OPTIONS.find(option => option.value === selected.settings.cadence)?.label} ·{' '}
+                    {selected.settings.period} days of {selected.settings.interval} data per analysis
+                  </CardDescription>
+                </div>
+                <div className="flex gap-2">
+                  {isSelectedActive ? (
+                    <Button variant="outline" size="sm" onClick={() => analysisReplayRunner.pause(selected.id)}>
+                      <Pause className="h-4 w-4 mr-1" /> Pause
+                    </Button>
+                  ) : (
+                    counts.done < counts.total && (
+                      <Button variant="outline" size="sm" onClick={() => handleResume(selected.id)} disabled={!!activeSeries}>
+                        <Play className="h-4 w-4 mr-1" /> Resume
+                      </Button>
+                    )
+                  )}
+                  {counts.pending > 0 ? (
+                    <Button variant="outline" size="sm" className="text-red-600" onClick={() => analysisReplayRunner.cancel(selected.id)}>
+                      <Square className="h-4 w-4 mr-1" /> Cancel
+                    </Button>
+                  ) : (
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => {
+                        analysisReplayRunner.remove(selected.id);
+                        setSelectedId(null);
+                      }}
+                    >
+                      <Trash2 className="h-4 w-4 mr-1" /> Delete
+                    </Button>
+                  )}
+                </div>
+              </div>
+              <div className="space-y-1">
+                <Progress value={counts.total ? (counts.finished / counts.total) * 100 : 0} />
+                <p className="text-xs text-gray-500">
+                  {counts.done} done · {counts.failed} failed · {counts.total - counts.finished} remaining
+                  {selected.paused && counts.pending > 0 && ' · paused - resume to continue'}
+                </p>
+              </div>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              {summary.calls > 0 && (
+                <p className="text-sm text-gray-700">
+                  {summary.calls} calls: <span className="text-emerald-700">{summary.bullish} bullish</span>,{' '}
+                  <span className="text-red-700">{summary.bearish} bearish</span>, {summary.neutral} neutral ·{' '}
+                  {summary.flips} {summary.flips === 1 ? 'change' : 'changes'} of direction
+                  {summary.avgConfidence !== null && ` · average confidence ${Math.round(summary.avgConfidence)}%`}
+                </p>
+              )}
+
+              {priceError && (
+                <div className="flex items-center gap-2 rounded-md border border-red-200 bg-red-50 p-3 text-sm text-red-700">
+                  <AlertTriangle className="h-4 w-4" /> {priceError}
+                </div>
+              )}
+              {isLoadingPrices ? (
+                <div className="flex h-[420px] items-center justify-center text-sm text-gray-500">
+                  <Loader2 className="h-4 w-4 mr-2 animate-spin" /> Loading price history...
+                </div>
+              ) : (
+                candles.length > 0 && <ReplayTimelineChart candles={candles} points={points} pointCandles={pointCandles} />
+              )}
+
+              <ReplayPointsTable
+                points={points}
+                pointCandles={pointCandles}
+                latestClose={latestClose}
+                onOpenAnalysis={(analysisId) => navigate(`/analysis/${analysisId}`)}
+              />
+            </CardContent>
+          </Card>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default AnalysisReplay;
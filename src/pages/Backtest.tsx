@@ -0,0 +1,439 @@
+import React, { useRef, useState } from 'react';
+import Header from '@/components/Header';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { StockSelector } from '@/components/ui/stock-selector';
+import { AlertTriangle, FlaskConical, Loader2, Play } from 'lucide-react';
+import BacktestRuleEditor from '@/components/backtest/BacktestRuleEditor';
+import BacktestEquityChart from '@/components/backtest/BacktestEquityChart';
+import BacktestTradesTable from '@/components/backtest/BacktestTradesTable';
+import { historicalSeriesService, MAX_HISTORY_BARS } from '@/services/historicalSeriesService';
+import {
+  BacktestCosts,
+  BacktestDirection,
+  BacktestProduct,
+  BacktestResult,
+  BacktestSizingMode,
+  BacktestStrategy
+} from '@/types/backtest';
+import { BACKTEST_STRATEGY_PRESETS, DEFAULT_BACKTEST_COSTS } from '@/utils/backtestRules';
+import { MIN_BACKTEST_BARS, runBacktest } from '@/utils/backtestEngine';
+import { isDailyOrHigherTimeframe } from '@/utils/candleResampler';
+import { formatOutcomePct, outcomePctClass } from '@/utils/signalOutcomes';
+
+const TIMEFRAME_OPTIONS = [
+  { value: '5m', label: '5 Minutes' },
+  { value: '15m', label: '15 Minutes' },
+  { value: '30m', label: '30 Minutes' },
+  { value: '1h', label: '1 Hour' },
+  { value: '1d', label: '1 Day' },
+  { value: '1wk', label: '1 Week' }
+];
+
+const SIZING_OPTIONS: { value: BacktestSizingMode; label: string; unit: string }[] = [
+  { value: 'percent_equity', label: '% of equity', unit: '%' },
+  { value: 'fixed_amount', label: 'Fixed amount', unit: '₹' },
+  { value: 'risk_percent', label: 'Risk % at stop', unit: '%' }
+];
+
+const COST_FIELDS: { key: keyof BacktestCosts; label: string }[] = [
+  { key: 'brokeragePct', label: 'Brokerage %' },
+  { key: 'brokerageCap', label: 'Brokerage cap (₹)' },
+  { key: 'sttBuyPct', label: 'STT buy %' },
+  { key: 'sttSellPct', label: 'STT sell %' },
+  { key: 'slippagePct', label: 'Slippage %' }
+];
+
+const formatRupees = (value: number): string =>
+  `${value < 0 ? '-' : ''}₹${Math.abs(value).toLocaleString('en-IN', { maximumFractionDigits: 0 })}`;
+
+const formatRatio = (value: number | null): string => (value === null ? '—' : value.toFixed(2));
+
+// Empty inputs mean "off" for the optional exits
+const parseOptional = (raw: string): number | null => {
+  const value = parseFloat(raw);
+  return isNaN(value) || value <= 0 ? null : value;
+};
+
+const Backtest = () => {
+  const [symbol, setSymbol] = useState('');
+  const [timeframe, setTimeframe] = useState('1d');
+  const [bars, setBars] = useState(750);
+  const [initialCapital, setInitialCapital] = useState(100000);
+  const [product, setProduct] = useState<BacktestProduct>('delivery');
+  const [sizingMode, setSizingMode] = useState<BacktestSizingMode>('percent_equity');
+  const [sizingValue, setSizingValue] = useState(100);
+  const [costs, setCosts] = useState<BacktestCosts>(DEFAULT_BACKTEST_COSTS.delivery);
+  const [presetKey, setPresetKey] = useState(BACKTEST_STRATEGY_PRESETS[0].key);
+  const [strategy, setStrategy] = useState<BacktestStrategy>(() => BACKTEST_STRATEGY_PRESETS[0].strategy());
+  const [result, setResult] = useState<BacktestResult | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [isRunning, setIsRunning] = useState(false);
+  // Ignores a slow run's result once a newer one has started
+  const runIdRef = useRef(0);
+
+  const dailyOrHigher = isDailyOrHigherTimeframe(timeframe);
+  const canShort = product === 'intraday' && !dailyOrHigher;
+  const sizingUnit = SIZING_OPTIONS.find(option => option.value === sizingMode)?.unit;
+
+  const updateStrategy = (updates: Partial<BacktestStrategy>) => setStrategy(prev => ({ ...prev, ...updates }));
+
+  const handleProductChange = (next: BacktestProduct) => {
+    setProduct(next);
+    setCosts(DEFAULT_BACKTEST_COSTS[next]);
+    if (next === 'delivery') updateStrategy({ direction: 'long' });
+  };
+
+  const handleTimeframeChange = (next: string) => {
+    setTimeframe(next);
+    // Nothing is squared off intraday on daily bars
+    if (isDailyOrHigherTimeframe(next) && product === 'intraday') handleProductChange('delivery');
+  };
+
+  const handlePresetChange = (key: string) => {
+    const preset = BACKTEST_STRATEGY_PRESETS.find(p => p.key === key);
+    if (!preset) return;
+    setPresetKey(key);
+    setStrategy({ ...preset.strategy(), direction: strategy.direction === 'short' && canShort ? 'short' : 'long' });
+  };
+
+  const handleRun = async () => {
+    if (!symbol) {
+      setError('Choose a stock to backtest.');
+      return;
+    }
+    const runId = ++runIdRef.current;
+    setIsRunning(true);
+    setError(null);
+
+    try {
+      const candles = await historicalSeriesService.getCandles(symbol, 'NSE', timeframe, bars);
+      if (runId !== runIdRef.current) return;
+      setResult(
+        runBacktest(candles, {
+          symbol,
+          exchange: 'NSE',
+          timeframe,
+          bars,
+          initialCapital,
+          product,
+          sizing: { mode: sizingMode, value: sizingValue },
+          costs,
+          strategy
+        })
+      );
+    } catch (err) {
+      if (runId !== runIdRef.current) return;
+      console.warn('⚠️ [Backtest] Backtest failed:', err);
+      setError(err instanceof Error ? err.message : 'Backtest failed');
+      setResult(null);
+    } finally {
+      if (runId === runIdRef.current) setIsRunning(false);
+    }
+  };
+
+  const metrics = result?.metrics;
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-slate-50 via-blue-50 to-indigo-50">
+      <Header />
+
+      <div className="container mx-auto px-4 py-8 space-y-6">
+        <div>
+          <h1 className="text-3xl font-bold text-gray-900">Strategy Backtest</h1>
+          <p className="text-gray-600 mt-1">
+            Run indicator and pattern rules over historical candles, with charges, slippage and NSE session square-off.
+          </p>
+        </div>
+
+        <div className="grid gap-6 lg:grid-cols-3">
+          <Card className="lg:col-span-1">
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <FlaskConical className="h-5 w-5 text-blue-600" />
+                Setup
+              </CardTitle>
+              <CardDescription>Signals are taken on a bar's close and filled at the next bar's open.</CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <StockSelector value={symbol} onValueChange={setSymbol} label="Stock" placeholder="Search NSE stocks..." />
+
+              <div className="grid grid-cols-2 gap-3">
+                <div className="space-y-2">
+                  <Label htmlFor="backtest-timeframe">Timeframe</Label>
+                  <Select value={timeframe} onValueChange={handleTimeframeChange}>
+                    <SelectTrigger id="backtest-timeframe">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {TIMEFRAME_OPTIONS.map(option => (
+                        <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="backtest-bars">Bars</Label>
+                  <Input
+                    id="backtest-bars"
+                    type="number"
+                    min={MIN_BACKTEST_BARS}
+                    max={MAX_HISTORY_BARS}
+                    value={bars}
+                    onChange={(e) => setBars(Math.min(MAX_HISTORY_BARS, Math.max(MIN_BACKTEST_BARS, parseInt(e.target.value) || MIN_BACKTEST_BARS)))}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="backtest-capital">Capital (₹)</Label>
+                  <Input
+                    id="backtest-capital"
+                    type="number"
+                    min={1000}
+                    step={1000}
+                    value={initialCapital}
+                    onChange={(e) => setInitialCapital(Math.max(1000, parseFloat(e.target.value) || 1000))}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="backtest-product">Product</Label>
+                  <Select value={product} onValueChange={(value) => handleProductChange(value as BacktestProduct)} disabled={dailyOrHigher}>
+                    <SelectTrigger id="backtest-product">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="delivery">Delivery (CNC)</SelectItem>
+                      <SelectItem value="intraday">Intraday (MIS)</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="backtest-sizing">Position size</Label>
+                  <Select value={sizingMode} onValueChange={(value) => setSizingMode(value as BacktestSizingMode)}>
+                    <SelectTrigger id="backtest-sizing">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {SIZING_OPTIONS.map(option => (
+                        <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="backtest-sizing-value">Size ({sizingUnit})</Label>
+                  <Input
+                    id="backtest-sizing-value"
+                    type="number"
+                    min={0}
+                    step={sizingMode === 'fixed_amount' ? 1000 : 0.5}
+                    value={sizingValue}
+                    onChange={(e) => setSizingValue(Math.max(0, parseFloat(e.target.value) || 0))}
+                  />
+                </div>
+              </div>
+
+              <div className="space-y-2">
+                <Label>Charges</Label>
+                <div className="grid grid-cols-3 gap-2">
+                  {COST_FIELDS.map(field => (
+                    <label key={field.key} className="text-xs text-slate-600 space-y-1">
+                      <span>{field.label}</span>
+                      <Input
+                        type="number"
+                        className="h-7 px-2 text-xs"
+                        min={0}
+                        step={0.005}
+                        value={costs[field.key]}
+                        onChange={(e) => setCosts(prev => ({ ...prev, [field.key]: Math.max(0, parseFloat(e.target.value) || 0) }))}
+                      />
+                    </label>
+                  ))}
+                </div>
+              </div>
+
+              <Button className="w-full" onClick={handleRun} disabled={isRunning || !symbol}>
+                {isRunning ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Play className="h-4 w-4 mr-2" />}
+                {isRunning ? 'Running...' : 'Run Backtest'}
+              </Button>
+            </CardContent>
+          </Card>
+
+          <Card className="lg:col-span-2">
+            <CardHeader className="flex flex-row flex-wrap items-start justify-between gap-3 space-y-0">
+              <div className="space-y-1.5">
+                <CardTitle>Strategy</CardTitle>
+                <CardDescription>Start from a preset and adjust the rules, exits and direction.</CardDescription>
+              </div>
+              <Select value={presetKey} onValueChange={handlePresetChange}>
+                <SelectTrigger className="w-56">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {BACKTEST_STRATEGY_PRESETS.map(preset => (
+                    <SelectItem key={preset.key} value={preset.key}>{preset.strategy().name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </CardHeader>
+            <CardContent className="space-y-6">
+              <div className="grid grid-cols-2 gap-3 md:grid-cols-4">
+                <div className="space-y-2">
+                  <Label htmlFor="backtest-direction">Direction</Label>
+                  <Select
+                    value={strategy.direction}
+                    onValueChange={(value) => updateStrategy({ direction: value as BacktestDirection })}
+                  >
+                    <SelectTrigger id="backtest-direction">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="long">Long</SelectItem>
+                      <SelectItem value="short" disabled={!canShort}>Short (intraday only)</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="backtest-stop">Stop loss %</Label>
+                  <Input
+                    id="backtest-stop"
+                    type="number"
+                    min={0}
+                    step={0.5}
+                    placeholder="Off"
+                    value={strategy.stopLossPct ?? ''}
+                    onChange={(e) => updateStrategy({ stopLossPct: parseOptional(e.target.value) })}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="backtest-target">Take profit %</Label>
+                  <Input
+                    id="backtest-target"
+                    type="number"
+                    min={0}
+                    step={0.5}
+                    placeholder="Off"
+                    value={strategy.takeProfitPct ?? ''}
+                    onChange={(e) => updateStrategy({ takeProfitPct: parseOptional(e.target.value) })}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="backtest-max-bars">Max bars held</Label>
+                  <Input
+                    id="backtest-max-bars"
+                    type="number"
+                    min={0}
+                    placeholder="Off"
+                    value={strategy.maxBarsInTrade ?? ''}
+                    onChange={(e) => {
+                      const value = parseOptional(e.target.value);
+                      updateStrategy({ maxBarsInTrade: value === null ? null : Math.round(value) });
+                    }}
+                  />
+                </div>
+              </div>
+
+              <div className="grid gap-6 md:grid-cols-2">
+                <BacktestRuleEditor
+                  title="Entry rules"
+                  rules={strategy.entryRules}
+                  mode={strategy.entryMode}
+                  onRulesChange={(entryRules) => updateStrategy({ entryRules })}
+                  onModeChange={(entryMode) => updateStrategy({ entryMode })}
+                  emptyText="Add at least one entry rule."
+                />
+                <BacktestRuleEditor
+                  title="Exit rules"
+                  rules={strategy.exitRules}
+                  mode={strategy.exitMode}
+                  onRulesChange={(exitRules) => updateStrategy({ exitRules })}
+                  onModeChange={(exitMode) => updateStrategy({ exitMode })}
+                  emptyText="No exit rules; trades close on the stop, target, max bars or square-off."
+                />
+              </div>
+            </CardContent>
+          </Card>
+        </div>
+
+        {error && (
+          <div className="flex items-center gap-2 rounded-md border border-red-200 bg-red-50 p-3 text-sm text-red-700">
+            <AlertTriangle className="h-4 w-4" /> {error}
+          </div>
+        )}
+
+        {result && metrics && (
+          <>
+            <div className="grid grid-cols-2 gap-4 lg:grid-cols-4">
+              <Card>
+                <CardContent className="pt-6">
+                  <p className="text-sm text-gray-500">Final equity</p>
+                  <p className="text-2xl font-bold text-gray-900">{formatRupees(metrics.finalEquity)}</p>
+                  <p className={`text-xs ${outcomePctClass(metrics.totalReturnPct)}`}>
+                    {formatOutcomePct(metrics.totalReturnPct)} total{metrics.cagrPct !== null && ` · ${formatOutcomePct(metrics.cagrPct)} CAGR`}
+                  </p>
+                </CardContent>
+              </Card>
+              <Card>
+                <CardContent className="pt-6">
+                  <p className="text-sm text-gray-500">Sharpe / Sortino</p>
+                  <p className="text-2xl font-bold text-gray-900">
+                    {formatRatio(metrics.sharpe)}
+                    <span className="text-gray-400"> / </span>
+                    {formatRatio(metrics.sortino)}
+                  </p>
+                  <p className="text-xs text-gray-500">Annualised, risk-free rate of zero</p>
+                </CardContent>
+              </Card>
+              <Card>
+                <CardContent className="pt-6">
+                  <p className="text-sm text-gray-500">Max drawdown</p>
+                  <p className="text-2xl font-bold text-red-700">{formatOutcomePct(metrics.maxDrawdownPct)}</p>
+                  <p className="text-xs text-gray-500">In the market {formatOutcomePct(metrics.exposurePct, false)} of bars</p>
+                </CardContent>
+              </Card>
+              <Card>
+                <CardContent className="pt-6">
+                  <p className="text-sm text-gray-500">Trades</p>
+                  <p className="text-2xl font-bold text-gray-900">{metrics.tradeCount}</p>
+                  <p className="text-xs text-gray-500">
+                    {formatOutcomePct(metrics.winRatePct, false)} won · PF {formatRatio(metrics.profitFactor)} · {formatRupees(metrics.totalCosts)} charges
+                  </p>
+                </CardContent>
+              </Card>
+            </div>
+
+            <Card>
+              <CardHeader>
+                <CardTitle>Equity curve</CardTitle>
+                <CardDescription>
+                  {result.config.symbol} · {TIMEFRAME_OPTIONS.find(option => option.value === result.config.timeframe)?.label} ·{' '}
+                  {result.equity.length} bars from {new Date(result.startTime * 1000).toLocaleDateString('en-IN')} to{' '}
+                  {new Date(result.endTime * 1000).toLocaleDateString('en-IN')}. Open positions are marked at each close.
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                <BacktestEquityChart equity={result.equity} initialCapital={result.config.initialCapital} />
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardHeader>
+                <CardTitle>Trades</CardTitle>
+                <CardDescription>
+                  Average trade {formatOutcomePct(metrics.avgTradePct)} after charges. Fills include slippage; targets fill at their price.
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                <BacktestTradesTable trades={result.trades} timeframe={result.config.timeframe} />
+              </CardContent>
+            </Card>
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default Backtest;
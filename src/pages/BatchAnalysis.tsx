@@ -0,0 +1,345 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { useNavigate, useSearchParams } from 'react-router-dom';
+import Header from '@/components/Header';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Progress } from '@/components/ui/progress';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Layers, Loader2, Pause, Play, Square, Trash2 } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { useAuth } from '@/contexts/AuthContext';
+import { useWatchlistStore } from '@/stores/watchlistStore';
+import { usePaperTradingStore } from '@/stores/paperTradingStore';
+import { useBatchAnalysisQueue } from '@/hooks/useBatchAnalysisQueue';
+import {
+  DEFAULT_BATCH_CONCURRENCY,
+  MAX_BATCH_CONCURRENCY,
+  MAX_BATCH_SYMBOLS,
+  batchAnalysisQueue,
+  parseSymbolList
+} from '@/services/batchAnalysisQueue';
+import BatchResultsTable from '@/components/analysis/BatchResultsTable';
+import { ANALYSIS_INTERVAL_OPTIONS, getMaxPeriod } from '@/utils/analysisIntervals';
+import { isPastISTDate } from '@/utils/marketCalendar';
+import { getPaperHolding } from '@/utils/paperTrading';
+
+type SymbolSource = 'watchlist' | 'paste';
+
+const CONCURRENCY_OPTIONS = Array.from({ length: MAX_BATCH_CONCURRENCY }, (_, i) => String(i + 1));
+
+const todayString = (): string => {
+  const today = new Date();
+  return `${today.getFullYear()}-${String(today.getMonth() + 1).padStart(2, '0')}-${String(today.getDate()).padStart(2, '0')}`;
+};
+
+const BatchAnalysis = () => {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const navigate = useNavigate();
+  const [searchParams] = useSearchParams();
+  const batch = useBatchAnalysisQueue();
+
+  const lists = useWatchlistStore(state => state.lists);
+  const isWatchlistsLoaded = useWatchlistStore(state => state.isLoaded);
+  const loadWatchlists = useWatchlistStore(state => state.loadWatchlists);
+
+  // ?list=<id> preselects a watchlist (from the Watchlists page)
+  const [source, setSource] = useState<SymbolSource>('watchlist');
+  const [listId, setListId] = useState<string>(searchParams.get('list') || '');
+  const [pasted, setPasted] = useState('');
+  const [settings, setSettings] = useState({
+    period: '365',
+    interval: 'day',
+    end_date: todayString(),
+    portfolio_value: '1000000',
+    concurrency: String(DEFAULT_BATCH_CONCURRENCY)
+  });
+
+  useEffect(() => {
+    loadWatchlists(user?.id);
+  }, [user?.id, loadWatchlists]);
+
+  useEffect(() => {
+    if (isWatchlistsLoaded && !lists.some(list => list.id === listId) && lists.length > 0) {
+      setListId(lists[0].id);
+    }
+  }, [isWatchlistsLoaded, lists, listId]);
+
+  const selectedList = lists.find(list => list.id === listId);
+  const symbols = useMemo(
+    () => (source === 'watchlist' ? selectedList?.symbols ?? [] : parseSymbolList(pasted)),
+    [source, selectedList, pasted]
+  );
+
+  const isActive = !!batch && batch.items.some(item => ['queued', 'running', 'retrying'].includes(item.status));
+  const counts = useMemo(() => {
+    const items = batch?.items ?? [];
+    return {
+      total: items.length,
+      done: items.filter(item => item.status === 'success').length,
+      failed: items.filter(item => item.status === 'error').length,
+      finished: items.filter(item => ['success', 'error', 'cancelled'].includes(item.status)).length
+    };
+  }, [batch]);
+
+  const handleSettingChange = (field: keyof typeof settings, value: string) => {
+    setSettings(prev => {
+      if (field === 'interval') {
+        const max = getMaxPeriod(value);
+        return { ...prev, interval: value, period: max && Number(prev.period) > max ? String(max) : prev.period };
+      }
+      if (field === 'period') {
+        const max = getMaxPeriod(prev.interval);
+        return { ...prev, period: max && Number(value) > max ? String(max) : value };
+      }
+      if (field === 'portfolio_value') {
+        return { ...prev, portfolio_value: value.replace(/[^0-9]/g, '') };
+      }
+      return { ...prev, [field]: value };
+    });
+  };
+
+  const handleStart = (event: React.FormEvent) => {
+    event.preventDefault();
+    const period = parseInt(settings.period);
+    if (!Number.isFinite(period) || period < 1) {
+      toast({ title: 'Invalid period', description: 'Enter an analysis period of at least one day.', variant: 'destructive' });
+      return;
+    }
+
+    try {
+      batchAnalysisQueue.start(
+        symbols,
+        {
+          exchange: 'NSE',
+          period,
+          interval: settings.interval,
+          end_date: settings.end_date.trim() || undefined,
+          portfolio_value: settings.portfolio_value ? parseFloat(settings.portfolio_value) : 1000000
+        },
+        {
+          name: source === 'watchlist' && selectedList ? selectedList.name : 'Pasted symbols',
+          concurrency: Number(settings.concurrency),
+          email: user?.email,
+          // Open paper positions are today's holdings, so they don't apply to a past end date
+          getHolding: isPastISTDate(settings.end_date)
+            ? undefined
+            : (symbol) => getPaperHolding(usePaperTradingStore.getState().portfolio.positions, symbol)
+        }
+      );
+    } catch (error) {
+      toast({
+        title: 'Could not start batch',
+        description: error instanceof Error ? error.message : 'Failed to start the batch',
+        variant: 'destructive'
+      });
+    }
+  };
+
+  // Toast once when the running batch drains, not when opening the page on a finished one
+  const wasActiveRef = useRef(isActive);
+  useEffect(() => {
+    const wasActive = wasActiveRef.current;
+    wasActiveRef.current = isActive;
+    if (!wasActive || isActive || !batch || batch.cancelled) return;
+    toast({
+      title: 'Batch complete',
+      description: `${counts.done} of ${counts.total} analyses finished${counts.failed ? `, ${counts.failed} failed` : ''}`
+    });
+  }, [isActive, batch, counts, toast]);
+
+  const maxPeriod = getMaxPeriod(settings.interval);
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-slate-50 via-blue-50 to-indigo-50">
+      <Header />
+
+      <div className="container mx-auto px-4 py-8 space-y-6">
+        <div>
+          <h1 className="text-3xl font-bold text-gray-900">Batch Analysis</h1>
+          <p className="text-gray-600 mt-1">Run the same analysis over a watchlist or a list of symbols and compare the results side by side.</p>
+        </div>
+
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <Layers className="h-5 w-5 text-emerald-600" />
+              New batch
+            </CardTitle>
+            <CardDescription>
+              Up to {MAX_BATCH_SYMBOLS} symbols. Each analysis takes 2-3 minutes; failed requests are retried automatically.
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <form onSubmit={handleStart} className="space-y-5">
+              <div className="space-y-3">
+                <div className="flex gap-2">
+                  <Button type="button" size="sm" variant={source === 'watchlist' ? 'default' : 'outline'} onClick={() => setSource('watchlist')}>
+                    From watchlist
+                  </Button>
+                  <Button type="button" size="sm" variant={source === 'paste' ? 'default' : 'outline'} onClick={() => setSource('paste')}>
+                    Paste symbols
+                  </Button>
+                </div>
+
+                {source === 'watchlist' ? (
+                  !isWatchlistsLoaded ? (
+                    <div className="flex items-center gap-2 text-sm text-gray-600">
+                      <Loader2 className="h-4 w-4 animate-spin" /> Loading watchlists...
+                    </div>
+                  ) : (
+                    <div className="flex flex-wrap items-center gap-3">
+                      <Select value={selectedList?.id || ''} onValueChange={setListId}>
+                        <SelectTrigger className="w-64">
+                          <SelectValue placeholder="Select a watchlist" />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {lists.map(list => (
+                            <SelectItem key={list.id} value={list.id}>
+                              {list.name} ({list.symbols.length})
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <span className="text-sm text-gray-500 truncate max-w-xl">{symbols.join(', ') || 'This watchlist is empty.'}</span>
+                    </div>
+                  )
+                ) : (
+                  <div className="space-y-1">
+                    <Textarea
+                      rows={3}
+                      value={pasted}
+                      onChange={(e) => setPasted(e.target.value)}
+                      placeholder="RELIANCE, TCS, INFY or one symbol per line"
+                    />
+                    <p className="text-xs text-gray-500">{symbols.length} symbols</p>
+                  </div>
+                )}
+              </div>
+
+              <div className="grid grid-cols-1 md:grid-cols-5 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="batch-period">Analysis Period (days)</Label>
+                  <Input
+                    id="batch-period"
+                    type="number"
+                    min={1}
+                    max={maxPeriod || undefined}
+                    value={settings.period}
+                    onChange={(e) => handleSettingChange('period', e.target.value)}
+                    required
+                  />
+                  {maxPeriod && <p className="text-xs text-gray-500">Maximum {maxPeriod} days</p>}
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="batch-interval">Data Interval</Label>
+                  <Select value={settings.interval} onValueChange={(value) => handleSettingChange('interval', value)}>
+                    <SelectTrigger id="batch-interval">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {ANALYSIS_INTERVAL_OPTIONS.map(option => (
+                        <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="batch-end-date">End Date</Label>
+                  <Input id="batch-end-date" type="date" value={settings.end_date} onChange={(e) => handleSettingChange('end_date', e.target.value)} />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="batch-portfolio">Portfolio Value (₹)</Label>
+                  <Input
+                    id="batch-portfolio"
+                    type="text"
+                    value={settings.portfolio_value}
+                    onChange={(e) => handleSettingChange('portfolio_value', e.target.value)}
+                    required
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="batch-concurrency">Run at once</Label>
+                  <Select value={settings.concurrency} onValueChange={(value) => handleSettingChange('concurrency', value)}>
+                    <SelectTrigger id="batch-concurrency">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {CONCURRENCY_OPTIONS.map(option => (
+                        <SelectItem key={option} value={option}>{option}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              </div>
+
+              <Button
+                type="submit"
+                disabled={isActive || symbols.length === 0}
+                className="bg-gradient-to-r from-emerald-500 to-blue-600 hover:from-emerald-600 hover:to-blue-700 text-white"
+              >
+                <Play className="h-4 w-4 mr-2" />
+                Analyse {symbols.length} {symbols.length === 1 ? 'symbol' : 'symbols'}
+              </Button>
+            </form>
+          </CardContent>
+        </Card>
+
+        {batch && (
+          <Card>
+            <CardHeader className="space-y-3">
+              <div className="flex flex-wrap items-center justify-between gap-3">
+                <div>
+                  <CardTitle>{batch.name}</CardTitle>
+                  <CardDescription>
+                    {batch.settings.period} days · {batch.settings.interval}
+                    {batch.settings.end_date ? ` · to ${batch.settings.end_date}` : ''} · started {new Date(batch.createdAt).toLocaleTimeString('en-IN')}
+                  </CardDescription>
+                </div>
+                <div className="flex gap-2">
+                  {isActive && (batch.paused ? (
+                    <Button variant="outline" size="sm" onClick={() => batchAnalysisQueue.resume()}>
+                      <Play className="h-4 w-4 mr-1" /> Resume
+                    </Button>
+                  ) : (
+                    <Button variant="outline" size="sm" onClick={() => batchAnalysisQueue.pause()}>
+                      <Pause className="h-4 w-4 mr-1" /> Pause
+                    </Button>
+                  ))}
+                  {isActive ? (
+                    <Button variant="outline" size="sm" className="text-red-600" onClick={() => batchAnalysisQueue.cancel()}>
+                      <Square className="h-4 w-4 mr-1" /> Cancel
+                    </Button>
+                  ) : (
+                    <Button variant="outline" size="sm" onClick={() => batchAnalysisQueue.clear()}>
+                      <Trash2 className="h-4 w-4 mr-1" /> Clear
+                    </Button>
+                  )}
+                </div>
+              </div>
+              <div className="space-y-1">
+                <Progress value={counts.total ? (counts.finished / counts.total) * 100 : 0} />
+                <p className="text-xs text-gray-500">
+                  {counts.done} done · {counts.failed} failed · {counts.total - counts.finished} remaining
+                  {batch.paused && ' · paused - running analyses will finish, nothing new starts'}
+                </p>
+              </div>
+            </CardHeader>
+            <CardContent>
+              <BatchResultsTable
+                items={batch.items}
+                onOpenAnalysis={(analysisId) => navigate(`/analysis/${analysisId}`)}
+                onRetry={(itemId) => batchAnalysisQueue.retryItem(itemId)}
+              />
+            </CardContent>
+          </Card>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default BatchAnalysis;
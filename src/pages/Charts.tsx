@@ -14,9 +14,20 @@ import { authService } from '@/services/authService';
 import { apiService } from '@/services/api';
 import { useLiveChart } from '@/hooks/useLiveChart';
 import { useStockAnalyses } from '@/hooks/useStockAnalyses';
+import { useLatestAnalysisOverlays } from '@/hooks/useLatestAnalysisOverlays';
+import { useRealtimeAnalysis } from '@/hooks/useRealtimeAnalysis';
 import { useDataStore } from '@/stores/dataStore';
-import LiveSimpleChart from '@/components/charts/LiveSimpleChart';
+import LiveSimpleChart, { BenchmarkPoint } from '@/components/charts/LiveSimpleChart';
 import { useSelectedStockStore } from '@/stores/selectedStockStore';
+import { getIndicatorKey, useIndicatorStore } from '@/stores/indicatorStore';
+import IndicatorManager from '@/components/charts/IndicatorManager';
+import RealtimeAnalysisPanel from '@/components/charts/RealtimeAnalysisPanel';
+import { getDrawingKey, useDrawingStore } from '@/stores/drawingStore';
+import { ChartDrawing } from '@/types/drawings';
+import { getSourceTimeframe, resampleCandles } from '@/utils/candleResampler';
+import { INDICATOR_DEFINITIONS } from '@/utils/indicatorRegistry';
+import { candleCacheService } from '@/services/candleCacheService';
+import { liveDataService } from '@/services/liveDataService';
 
 // Analysis Components
 import PriceStatisticsCardCharts from '@/components/analysis/PriceStatisticsCardCharts';
@@ -29,6 +40,7 @@ import {
 import { Switch } from '@/components/ui/switch';
 import { Label } from '@/components/ui/label';
 import { DataStatusIndicator } from '@/components/DataStatusIndicator';
+import { useMarketSession } from '@/hooks/useMarketSession';
 import Header from '@/components/Header';
 import { Drawer, DrawerContent, DrawerHeader, DrawerTitle, DrawerTrigger } from '@/components/ui/drawer';
 
@@ -159,20 +171,42 @@ const mapTimeframeToInterval = (timeframe: string): string => {
     '1h': '1h',
     '1d': '1day'
   };
-  return mapping[timeframe] || '1day';
+  // Resampled timeframes are analysed on the series they are built from
+  return mapping[getSourceTimeframe(timeframe)] || '1day';
 };
 
 
 
+// Relative strength indicators are measured against the broad market
+const BENCHMARK_SYMBOL = 'NIFTY 50';
+
+// Indicator layouts are saved per chart view
+const INDICATOR_CHART_ID = 'charts';
+
+// Days of benchmark history per source interval, in line with the chart's own history
+const BENCHMARK_HISTORY_DAYS: Record<string, number> = {
+  '1m': 30,
+  '5m': 90,
+  '15m': 180,
+  '1h': 365,
+  '1d': 2000
+};
+
 // Global variable to persist price across component re-mounts
 let globalLastPrice: number | null = null;
 
 const TIMEFRAMES = [
   { label: '1 Minute', value: '1m' },
+  { label: '2 Minutes', value: '2m' },
   { label: '5 Minutes', value: '5m' },
+  { label: '10 Minutes', value: '10m' },
   { label: '15 Minutes', value: '15m' },
+  { label: '30 Minutes', value: '30m' },
   { label: '1 Hour', value: '1h' },
-  { label: '1 Day', value: '1d' }
+  { label: '4 Hours', value: '4h' },
+  { label: '1 Day', value: '1d' },
+  { label: '1 Week', value: '1wk' },
+  { label: '1 Month', value: '1mo' }
 ];
 
 const Charts = React.memo(function Charts() {
@@ -203,7 +237,80 @@ const Charts = React.memo(function Charts() {
   const [lastCandleCount, setLastCandleCount] = useState(0);
   const [isPriceStatsUpdating, setIsPriceStatsUpdating] = useState(false);
   const chartResetRef = useRef<(() => void) | null>(null);
+
+  // Configured indicators, saved per user for this chart
+  const { user } = useAuth();
+  const indicatorKey = getIndicatorKey(user?.id, INDICATOR_CHART_ID);
+  const indicatorInstances = useIndicatorStore(state => state.instances[indicatorKey]);
+  const loadIndicators = useIndicatorStore(state => state.loadInstances);
+  const addIndicator = useIndicatorStore(state => state.addIndicator);
+  const updateIndicator = useIndicatorStore(state => state.updateIndicator);
+  const removeIndicator = useIndicatorStore(state => state.removeIndicator);
+  const resetIndicators = useIndicatorStore(state => state.resetIndicators);
+
+  useEffect(() => {
+    loadIndicators(user?.id, INDICATOR_CHART_ID);
+  }, [user?.id, loadIndicators]);
+
+  // Chart drawings, saved per user and symbol
+  const drawingKey = getDrawingKey(user?.id, stockSymbol);
+  const chartDrawings = useDrawingStore(state => state.drawings[drawingKey]);
+  const loadDrawings = useDrawingStore(state => state.loadDrawings);
+  const setDrawings = useDrawingStore(state => state.setDrawings);
+
+  useEffect(() => {
+    if (stockSymbol) loadDrawings(user?.id, stockSymbol);
+  }, [user?.id, stockSymbol, loadDrawings]);
+
+  const handleDrawingsChange = useCallback((drawings: ChartDrawing[]) => {
+    setDrawings(user?.id, stockSymbol, drawings);
+  }, [user?.id, stockSymbol, setDrawings]);
+
+  // Levels and patterns from the latest stored analysis for this symbol
+  const [showAnalysisOverlays, setShowAnalysisOverlays] = useState(false);
+  const {
+    overlays: analysisOverlays,
+    loading: isAnalysisOverlayLoading,
+    error: analysisOverlayError
+  } = useLatestAnalysisOverlays(stockSymbol, user?.id, showAnalysisOverlays);
+
+  // Benchmark closes are only fetched while a relative strength indicator is shown
+  const [benchmarkData, setBenchmarkData] = useState<BenchmarkPoint[] | undefined>(undefined);
+  const needsBenchmark = useMemo(
+    () => (indicatorInstances || []).some(instance => instance.visible && INDICATOR_DEFINITIONS[instance.type].usesBenchmark),
+    [indicatorInstances]
+  );
+
+  useEffect(() => {
+    if (!needsBenchmark) {
+      setBenchmarkData(undefined);
+      return;
+    }
+
+    let cancelled = false;
+    const sourceTimeframe = getSourceTimeframe(selectedTimeframe);
+    candleCacheService
+      .getHistoricalData(BENCHMARK_SYMBOL, sourceTimeframe, 'NSE', BENCHMARK_HISTORY_DAYS[sourceTimeframe] || 365)
+      .then(response => {
+        if (cancelled) return;
+        const candles = liveDataService.convertToChartData(response.candles).sort((a, b) => a.time - b.time);
+        setBenchmarkData(resampleCandles(candles, selectedTimeframe).map(candle => ({ time: candle.time, close: candle.close })));
+      })
+      .catch(error => {
+        if (cancelled) return;
+        console.warn(`⚠️ [Charts] Failed to load ${BENCHMARK_SYMBOL} for relative strength:`, error);
+        setBenchmarkData(undefined);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [needsBenchmark, selectedTimeframe]);
   
+  // Outside market hours the stream is never opened, so "disconnected" reads as "market closed"
+  const { session: marketSession } = useMarketSession();
+  const isMarketClosed = marketSession.phase === 'closed';
+
   // Live chart hook for real-time data
   // This hook provides real-time WebSocket data streaming with auto-reconnection
   // and handles all live chart functionality including data updates, connection status,
@@ -218,6 +325,7 @@ const Charts = React.memo(function Charts() {
     connectionStatus,
     lastTickPrice,
     lastTickTime,
+    isBackfilling,
     connect,
     disconnect,
     refetch,
@@ -231,6 +339,23 @@ const Charts = React.memo(function Charts() {
     autoConnect: true
   });
 
+  // The indicator vote refreshes when a candle closes, i.e. when the second-to-last bar changes
+  const closedCandleTime = liveData && liveData.length > 1 ? liveData[liveData.length - 2].time : null;
+  const realtimeAnalysis = useRealtimeAnalysis(stockSymbol, mapTimeframeToInterval(selectedTimeframe), closedCandleTime, user?.id);
+  const realtimePanel = (
+    <RealtimeAnalysisPanel
+      symbol={stockSymbol}
+      timeframeLabel={TIMEFRAMES.find(tf => tf.value === selectedTimeframe)?.label || selectedTimeframe}
+      current={realtimeAnalysis.current}
+      history={realtimeAnalysis.history}
+      flips={realtimeAnalysis.flips}
+      loading={realtimeAnalysis.loading}
+      error={realtimeAnalysis.error}
+      onRefresh={realtimeAnalysis.refresh}
+      onPin={realtimeAnalysis.pin}
+    />
+  );
+
   // Debug lastTickPrice changes
   useEffect(() => {
     // console.log('🔄 lastTickPrice changed:', lastTickPrice, 'at', new Date().toLocaleTimeString());
@@ -619,12 +744,13 @@ const Charts = React.memo(function Charts() {
   );
 
   // Live Price Label Component - Optimized to reduce flickering
-  const LivePriceLabel = React.memo(({ price, isConnected, isLive, liveData, lastTickTime }: { 
+  const LivePriceLabel = React.memo(({ price, isConnected, isLive, liveData, lastTickTime, isMarketClosed }: { 
     price?: number; 
     isConnected: boolean; 
     isLive: boolean; 
     liveData: any[];
     lastTickTime?: number;
+    isMarketClosed?: boolean;
   }) => {
     const [isUpdating, setIsUpdating] = useState(false);
     const [previousPrice, setPreviousPrice] = useState<number | null>(null);
@@ -710,6 +836,8 @@ const Charts = React.memo(function Charts() {
 
     // Handle different connection states
     if (!isConnected) {
+      // DataStatusIndicator already shows the market-closed badge
+      if (isMarketClosed) return null;
       return (
         <div className="flex items-center gap-2 px-3 py-1.5 bg-gray-100 rounded-lg border">
           <div className="w-2 h-2 bg-gray-400 rounded-full"></div>
@@ -859,8 +987,8 @@ const Charts = React.memo(function Charts() {
                 <div>
                   <label className="block text-sm font-medium mb-2">Connection</label>
                   <div className="flex items-center gap-1 sm:gap-2">
-                    <div className={`w-2 h-2 rounded-full ${isLiveConnected ? 'bg-green-500' : 'bg-red-500'}`}></div>
-                    <span className="hidden sm:inline text-sm">{isLiveConnected ? 'Connected' : 'Disconnected'}</span>
+                    <div className={`w-2 h-2 rounded-full ${isLiveConnected ? 'bg-green-500' : isMarketClosed ? 'bg-gray-400' : 'bg-red-500'}`}></div>
+                    <span className="hidden sm:inline text-sm">{isLiveConnected ? 'Connected' : isMarketClosed ? 'Market closed' : 'Disconnected'}</span>
                   </div>
                 </div>
               </div>
@@ -881,6 +1009,7 @@ const Charts = React.memo(function Charts() {
                         isLive={isLive}
                         connectionStatus={connectionStatus}
                         error={liveError}
+                        isBackfilling={isBackfilling}
                       />
                       <LivePriceLabel
                         price={lastTickPrice}
@@ -888,6 +1017,7 @@ const Charts = React.memo(function Charts() {
                         isLive={isLive}
                         liveData={liveData}
                         lastTickTime={lastTickTime}
+                        isMarketClosed={isMarketClosed}
                       />
                       <Button 
                         onClick={() => {
@@ -903,6 +1033,33 @@ const Charts = React.memo(function Charts() {
                         <ZoomIn className="h-4 w-4" />
                         <span className="hidden sm:inline ml-1">Reset Scale</span>
                       </Button>
+                      <IndicatorManager
+                        instances={indicatorInstances || []}
+                        onAdd={(type) => addIndicator(user?.id, INDICATOR_CHART_ID, type)}
+                        onUpdate={(id, update) => updateIndicator(user?.id, INDICATOR_CHART_ID, id, update)}
+                        onRemove={(id) => removeIndicator(user?.id, INDICATOR_CHART_ID, id)}
+                        onReset={() => resetIndicators(user?.id, INDICATOR_CHART_ID)}
+                      />
+                      <Button
+                        onClick={() => setShowAnalysisOverlays(prev => !prev)}
+                        variant={showAnalysisOverlays ? 'default' : 'outline'}
+                        size="sm"
+                        className={`h-8 w-8 p-0 sm:h-9 sm:w-auto sm:px-3 ${showAnalysisOverlays ? '' : 'bg-white/90 backdrop-blur-sm'}`}
+                        title={
+                          analysisOverlayError
+                            ? analysisOverlayError
+                            : analysisOverlays
+                              ? `Showing levels from ${analysisOverlays.sourceLabel}`
+                              : 'Show levels and patterns from your latest analysis'
+                        }
+                      >
+                        {isAnalysisOverlayLoading ? (
+                          <Loader2 className="h-4 w-4 animate-spin" />
+                        ) : (
+                          <Target className="h-4 w-4" />
+                        )}
+                        <span className="hidden sm:inline ml-1">Analysis Levels</span>
+                      </Button>
                     </div>
                     {/* Mobile-only Price Stats Drawer Trigger */}
                     <Drawer>
@@ -951,6 +1108,12 @@ const Charts = React.memo(function Charts() {
                       showConnectionStatus={true}
                       showLiveIndicator={true}
                       showIndicators={showIndicators}
+                      activeIndicators={indicatorInstances}
+                      benchmarkData={benchmarkData}
+                      drawings={chartDrawings}
+                      onDrawingsChange={handleDrawingsChange}
+                      analysisOverlays={showAnalysisOverlays ? analysisOverlays : null}
+                      signalFlips={realtimeAnalysis.flips}
                       showPatterns={showPatterns}
                       showVolume={showVolume}
                       debug={debugMode}
@@ -990,32 +1153,40 @@ const Charts = React.memo(function Charts() {
               </Card>
             </div>
 
-            {/* Price Statistics Card - hidden on small screens (available via Drawer) */}
-            <div className="hidden xl:block xl:col-span-1 h-full" style={{ minHeight: 'clamp(280px, 60vh, 800px)' }}>
-              {!liveData || liveData.length === 0 ? (
-                <div className="h-full">
-                  <AnalysisCardSkeleton 
-                    title="Price Statistics" 
-                    description="Waiting for live data..." 
-                  />
-                </div>
-              ) : (
-                <div className={`h-full transition-all duration-300 ${isPriceStatsUpdating ? 'ring-2 ring-blue-500 ring-opacity-50' : ''}`}>
-                  <PriceStatisticsCardCharts 
-                    summaryStats={transformChartStatsForPriceCard(memoizedLiveChartStats, liveData)}
-                    latestPrice={liveData[liveData.length - 1].close || liveData[liveData.length - 1].price}
-                    timeframe={selectedTimeframe === 'all' ? 'All Time' : selectedTimeframe}
-                  />
-                  {isPriceStatsUpdating && (
-                    <div className="absolute top-2 right-2 z-10">
-                      <Badge variant="secondary" className="bg-blue-500 text-white animate-pulse">
-                        <Activity className="h-3 w-3 mr-1" />
-                        New Candle
-                      </Badge>
-                    </div>
-                  )}
-                </div>
-              )}
+            {/* Price Statistics Card and indicator vote - hidden on small screens (available via Drawer / below the chart) */}
+            <div className="hidden xl:flex xl:flex-col xl:col-span-1 gap-6">
+              <div className="h-full" style={{ minHeight: 'clamp(280px, 60vh, 800px)' }}>
+                {!liveData || liveData.length === 0 ? (
+                  <div className="h-full">
+                    <AnalysisCardSkeleton 
+                      title="Price Statistics" 
+                      description="Waiting for live data..." 
+                    />
+                  </div>
+                ) : (
+                  <div className={`h-full transition-all duration-300 ${isPriceStatsUpdating ? 'ring-2 ring-blue-500 ring-opacity-50' : ''}`}>
+                    <PriceStatisticsCardCharts 
+                      summaryStats={transformChartStatsForPriceCard(memoizedLiveChartStats, liveData)}
+                      latestPrice={liveData[liveData.length - 1].close || liveData[liveData.length - 1].price}
+                      timeframe={selectedTimeframe === 'all' ? 'All Time' : selectedTimeframe}
+                    />
+                    {isPriceStatsUpdating && (
+                      <div className="absolute top-2 right-2 z-10">
+                        <Badge variant="secondary" className="bg-blue-500 text-white animate-pulse">
+                          <Activity className="h-3 w-3 mr-1" />
+                          New Candle
+                        </Badge>
+                      </div>
+                    )}
+                  </div>
+                )}
+              </div>
+              {realtimePanel}
+            </div>
+
+            {/* Indicator vote below the chart on smaller screens */}
+            <div className="col-span-1 md:col-span-2 lg:col-span-3 xl:hidden">
+              {realtimePanel}
             </div>
           </div>
         </div>
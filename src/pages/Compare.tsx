@@ -0,0 +1,235 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { useNavigate, useSearchParams } from 'react-router-dom';
+import Header from '@/components/Header';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import { AlertTriangle, Check, GitCompare, Loader2 } from 'lucide-react';
+import { useAuth } from '@/contexts/AuthContext';
+import { apiService } from '@/services/api';
+import AnalysisComparisonTable from '@/components/analysis/AnalysisComparisonTable';
+import AnalysisFieldDiff from '@/components/analysis/AnalysisFieldDiff';
+import { ComparableAnalysis, toComparableAnalysis } from '@/utils/analysisComparison';
+import { getAnalysisSignalSummary, getSignalBias } from '@/utils/analysisSummary';
+
+type LoadState =
+  | { status: 'loading' }
+  | { status: 'ready'; analysis: ComparableAnalysis }
+  | { status: 'not_found' }
+  | { status: 'error'; message: string };
+
+interface RecentAnalysis {
+  id: string;
+  symbol: string;
+  createdAt: string | null;
+  interval: string | null;
+  signal: string | null;
+}
+
+const MAX_COMPARED = 4;
+const RECENT_LIMIT = 30;
+
+const BIAS_TEXT: Record<string, string> = {
+  bullish: 'text-emerald-700',
+  bearish: 'text-red-700',
+  neutral: 'text-gray-600'
+};
+
+const Compare = () => {
+  const { user } = useAuth();
+  const navigate = useNavigate();
+  const [searchParams, setSearchParams] = useSearchParams();
+  const idsParam = searchParams.get('ids') || '';
+  const ids = useMemo(() => Array.from(new Set(idsParam.split(',').map(id => id.trim()).filter(Boolean))).slice(0, MAX_COMPARED), [idsParam]);
+
+  const [loaded, setLoaded] = useState<Record<string, LoadState>>({});
+  const [recent, setRecent] = useState<RecentAnalysis[]>([]);
+  const [recentLoading, setRecentLoading] = useState(false);
+  const [recentFilter, setRecentFilter] = useState('');
+
+  // Fetch each selected analysis once; removing and re-adding reuses the loaded copy
+  useEffect(() => {
+    ids.forEach(id => {
+      if (loaded[id]) return;
+      setLoaded(prev => ({ ...prev, [id]: { status: 'loading' } }));
+      apiService
+        .getStoredAnalysisRecord(id)
+        .then(record => {
+          setLoaded(prev => ({ ...prev, [id]: record ? { status: 'ready', analysis: toComparableAnalysis(record) } : { status: 'not_found' } }));
+        })
+        .catch(error => {
+          setLoaded(prev => ({ ...prev, [id]: { status: 'error', message: error instanceof Error ? error.message : 'Failed to load analysis' } }));
+        });
+    });
+  }, [ids, loaded]);
+
+  useEffect(() => {
+    if (!user?.id) return;
+    let cancelled = false;
+    setRecentLoading(true);
+    apiService
+      .getUserAnalyses(user.id, RECENT_LIMIT, 0)
+      .then(response => {
+        if (cancelled || !response.success) return;
+        setRecent(response.analyses.map((record: any) => ({
+          id: record.id,
+          symbol: String(record.stock_symbol || '').toUpperCase(),
+          createdAt: record.created_at || null,
+          interval: record.analysis_data?.metadata?.interval || record.interval || null,
+          signal: getAnalysisSignalSummary(record).signal
+        })));
+      })
+      .catch(error => {
+        console.warn('⚠️ [Compare] Failed to load recent analyses:', error);
+      })
+      .finally(() => {
+        if (!cancelled) setRecentLoading(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [user?.id]);
+
+  const setIds = (next: string[]) => {
+    setSearchParams(next.length > 0 ? { ids: next.join(',') } : {}, { replace: true });
+  };
+
+  const toggleId = (id: string) => {
+    if (ids.includes(id)) {
+      setIds(ids.filter(existing => existing !== id));
+    } else if (ids.length < MAX_COMPARED) {
+      setIds([...ids, id]);
+    }
+  };
+
+  const readyAnalyses = useMemo(
+    () => ids
+      .map(id => loaded[id])
+      .filter((state): state is Extract<LoadState, { status: 'ready' }> => state?.status === 'ready')
+      .map(state => state.analysis),
+    [ids, loaded]
+  );
+  const sameSymbol = readyAnalyses.length >= 2 && new Set(readyAnalyses.map(analysis => analysis.symbol)).size === 1;
+  const pending = ids.filter(id => loaded[id]?.status === 'loading' || !loaded[id]);
+  const failed = ids.filter(id => loaded[id] && (loaded[id].status === 'error' || loaded[id].status === 'not_found'));
+
+  const filteredRecent = useMemo(() => {
+    const q = recentFilter.trim().toUpperCase();
+    return q ? recent.filter(item => item.symbol.includes(q)) : recent;
+  }, [recent, recentFilter]);
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-slate-50 via-blue-50 to-indigo-50">
+      <Header />
+
+      <div className="container mx-auto px-4 py-8 space-y-6">
+        <div>
+          <h1 className="text-3xl font-bold text-gray-900">Compare Analyses</h1>
+          <p className="text-gray-600 mt-1">
+            Line up to {MAX_COMPARED} stored analyses - the same stock on different intervals, or peers in a sector.
+          </p>
+        </div>
+
+        <div className="grid grid-cols-1 gap-6 xl:grid-cols-[320px,1fr]">
+          <Card className="self-start">
+            <CardHeader>
+              <CardTitle className="text-lg">Your analyses</CardTitle>
+              <CardDescription>{ids.length} of {MAX_COMPARED} selected</CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-3">
+              <Input className="h-9" placeholder="Filter by symbol" value={recentFilter} onChange={(e) => setRecentFilter(e.target.value)} />
+              {recentLoading ? (
+                <div className="flex items-center gap-2 text-sm text-gray-600">
+                  <Loader2 className="h-4 w-4 animate-spin" /> Loading analyses...
+                </div>
+              ) : filteredRecent.length === 0 ? (
+                <p className="text-sm text-gray-500">No stored analyses found.</p>
+              ) : (
+                <div className="max-h-[520px] space-y-1 overflow-y-auto pr-1">
+                  {filteredRecent.map(item => {
+                    const selected = ids.includes(item.id);
+                    const disabled = !selected && ids.length >= MAX_COMPARED;
+                    return (
+                      <button
+                        key={item.id}
+                        type="button"
+                        disabled={disabled}
+                        onClick={() => toggleId(item.id)}
+                        className={`flex w-full items-center justify-between rounded-md border px-3 py-2 text-left text-sm transition-colors ${
+                          selected ? 'border-blue-300 bg-blue-50' : 'border-transparent hover:bg-slate-100'
+                        } ${disabled ? 'cursor-not-allowed opacity-50' : ''}`}
+                      >
+                        <div className="min-w-0">
+                          <div className="font-semibold text-gray-900">{item.symbol}</div>
+                          <div className="truncate text-xs text-gray-500">
+                            {[item.interval, item.createdAt ? new Date(item.createdAt).toLocaleDateString('en-IN') : null].filter(Boolean).join(' · ')}
+                            {item.signal && <span className={`ml-1 ${BIAS_TEXT[getSignalBias(item.signal)]}`}>· {item.signal}</span>}
+                          </div>
+                        </div>
+                        {selected && <Check className="h-4 w-4 flex-shrink-0 text-blue-600" />}
+                      </button>
+                    );
+                  })}
+                </div>
+              )}
+            </CardContent>
+          </Card>
+
+          <div className="space-y-6 min-w-0">
+            {failed.length > 0 && (
+              <div className="flex flex-wrap items-center gap-2 rounded-md border border-red-200 bg-red-50 p-3 text-sm text-red-700">
+                <AlertTriangle className="h-4 w-4" />
+                Could not load:
+                {failed.map(id => (
+                  <Badge key={id} variant="outline" className="cursor-pointer border-red-300 text-red-700" onClick={() => toggleId(id)} title="Remove">
+                    {id.slice(0, 8)}
+                  </Badge>
+                ))}
+              </div>
+            )}
+
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2">
+                  <GitCompare className="h-5 w-5 text-blue-600" />
+                  Side by side
+                </CardTitle>
+                <CardDescription>Rows where the analyses disagree are highlighted.</CardDescription>
+              </CardHeader>
+              <CardContent>
+                {pending.length > 0 && (
+                  <div className="mb-3 flex items-center gap-2 text-sm text-gray-600">
+                    <Loader2 className="h-4 w-4 animate-spin" /> Loading {pending.length} {pending.length === 1 ? 'analysis' : 'analyses'}...
+                  </div>
+                )}
+                {readyAnalyses.length < 2 ? (
+                  <p className="py-8 text-center text-sm text-gray-500">Select at least two analyses to compare.</p>
+                ) : (
+                  <AnalysisComparisonTable
+                    analyses={readyAnalyses}
+                    onRemove={toggleId}
+                    onOpen={(id) => navigate(`/analysis/${id}`)}
+                  />
+                )}
+              </CardContent>
+            </Card>
+
+            {sameSymbol && (
+              <Card>
+                <CardHeader>
+                  <CardTitle>Field-level diff · {readyAnalyses[0].symbol}</CardTitle>
+                  <CardDescription>Every stored field that changed between these runs.</CardDescription>
+                </CardHeader>
+                <CardContent>
+                  <AnalysisFieldDiff analyses={readyAnalyses} />
+                </CardContent>
+              </Card>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default Compare;
@@ -53,6 +53,12 @@ import SectorBenchmarkingCard from "@/components/analysis/SectorBenchmarkingCard
 import EnhancedPatternRecognitionCard from "@/components/analysis/EnhancedPatternRecognitionCard";
 import PriceStatisticsCardOutput from "@/components/analysis/PriceStatisticsCardOutput";
 import ActionButtonsSection from "@/components/analysis/ActionButtonsSection";
+import OpenPaperTradeDialog from "@/components/paperTrading/OpenPaperTradeDialog";
+import PortfolioImpactCard from "@/components/analysis/PortfolioImpactCard";
+import { portfolioContextService } from "@/services/portfolioContextService";
+import { PortfolioContext } from "@/types/portfolio";
+import { analysisModeService } from "@/services/analysisModeService";
+import TimeframeAgreementMatrix from "@/components/analysis/TimeframeAgreementMatrix";
 import DisclaimerCard from "@/components/analysis/DisclaimerCard";
 import TradingLevelsCard from "@/components/analysis/TradingLevelsCard";
 import AnalysisResultBanner from "@/components/analysis/AnalysisResultBanner";
@@ -66,7 +72,7 @@ import CorrelationMatrixCard from "@/components/analysis/CorrelationMatrixCard";
 
 // Services and Utils
 import { apiService } from "@/services/api";
-import { AnalysisData, EnhancedOverlays, MultiTimeframeAnalysis, AdvancedRiskMetrics, StressTestingData, ScenarioAnalysisData, AnalysisResults } from "@/types/analysis";
+import { AnalysisData, StoredAnalysisMode, EnhancedOverlays, MultiTimeframeAnalysis, AdvancedRiskMetrics, StressTestingData, ScenarioAnalysisData, AnalysisResults } from "@/types/analysis";
 import { transformDatabaseRecord, extractPriceStatisticsFromEnhanced } from "@/utils/databaseDataTransformer";
 import Header from "@/components/Header";
 
@@ -170,6 +176,12 @@ const NewOutput: React.FC = () => {
   const [requestInterval, setRequestInterval] = useState<string | undefined>(undefined);
   const [requestPeriod, setRequestPeriod] = useState<string | undefined>(undefined);
   const [analysisEndDate, setAnalysisEndDate] = useState<string>('');
+  // Stored analysis id, when known, so paper trades can link back to it
+  const [analysisId, setAnalysisId] = useState<string | null>(null);
+  // Holdings sent with the request, for the portfolio impact card
+  const [portfolioContext, setPortfolioContext] = useState<PortfolioContext | null>(null);
+  // Mode that produced the run; multi-timeframe runs show every timeframe card plus the agreement matrix
+  const [analysisMode, setAnalysisMode] = useState<StoredAnalysisMode | null>(null);
   
   // Refs for sliding bubble positioning
   const tabRefs = useRef<{ [key: string]: HTMLButtonElement | null }>({});
@@ -228,6 +240,9 @@ const NewOutput: React.FC = () => {
         // Check if the response has a 'results' field (new backend structure)
         const analysisData = parsed.results || parsed;
         const stockSymbol = parsed.stock_symbol || "RELIANCE";
+        setAnalysisId(parsed.analysis_id || null);
+        setPortfolioContext(parsed.portfolio_context || portfolioContextService.getSnapshot(parsed.analysis_id));
+        setAnalysisMode(analysisModeService.getMode(parsed.analysis_id, parsed));
         
         // console.log('Analysis data after extraction:', analysisData);
         // console.log('Stock symbol:', stockSymbol);
@@ -1566,6 +1581,33 @@ const NewOutput: React.FC = () => {
                     const allAgentSummaries = decisionStory?.agent_summaries || {};
                     const multiTimeframeAgentSummary = allAgentSummaries["Multi-Timeframe Analysis"];
 
+                    const indicatorMultiTimeframe = (indicators as ExtendedIndicators)?.multi_timeframe;
+                    // indicators.multi_timeframe falls back to the enhanced payload; the term breakdown card only reads its own shape
+                    const hasIndicatorMultiTimeframe = indicatorMultiTimeframe && !indicatorMultiTimeframe.error &&
+                      indicatorMultiTimeframe !== enhancedMultiTimeframe;
+
+                    if (analysisMode === 'enhanced_mtf') {
+                      return (
+                        <>
+                          <TimeframeAgreementMatrix analysis={enhancedMultiTimeframe || indicatorMultiTimeframe} />
+                          {enhancedMultiTimeframe && (
+                            <EnhancedMultiTimeframeCard 
+                              multiTimeframeAnalysis={enhancedMultiTimeframe}
+                              symbol={stockSymbol}
+                              agentSummary={multiTimeframeAgentSummary}
+                            />
+                          )}
+                          {hasIndicatorMultiTimeframe && (
+                            <MultiTimeframeAnalysisCard 
+                              analysis={indicatorMultiTimeframe} 
+                              symbol={stockSymbol}
+                              agentSummary={multiTimeframeAgentSummary}
+                            />
+                          )}
+                        </>
+                      );
+                    }
+
                     return (
                       <>
                         {enhancedMultiTimeframe ? (
@@ -1630,6 +1672,10 @@ const NewOutput: React.FC = () => {
                 </>
               )
             )}
+
+            {!analysisLoading && portfolioContext && (
+              <PortfolioImpactCard context={portfolioContext} analysisData={enhancedData} />
+            )}
           </TabsContent>
 
           {/* Advanced Tab */}
@@ -1701,6 +1747,9 @@ const NewOutput: React.FC = () => {
         {/* Action Buttons and Disclaimer */}
         <div className="space-y-6 mt-8 mb-8">
           <ActionButtonsSection />
+          {enhancedData && (
+            <OpenPaperTradeDialog symbol={stockSymbol} analysisData={enhancedData} analysisId={analysisId} />
+          )}
           <DisclaimerCard 
             analysisDate={enhancedData?.analysis_timestamp || analysisData?.metadata?.analysis_date || null}
           />
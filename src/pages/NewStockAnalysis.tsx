@@ -9,17 +9,36 @@ import { Separator } from "@/components/ui/separator";
 import { Badge } from "@/components/ui/badge";
 import { useToast } from "@/hooks/use-toast";
 import Header from "@/components/Header";
-import PreviousAnalyses, { RunningAnalysisItem } from "@/components/analysis/PreviousAnalyses";
+import PreviousAnalyses from "@/components/analysis/PreviousAnalyses";
 import PreviousAnalysesSelector from "@/components/analysis/PreviousAnalysesSelector";
-import { Play, Settings, TrendingUp, Clock, BarChart3, Target, AlertTriangle } from "lucide-react";
+import { Play, Settings, TrendingUp, Clock, BarChart3, Target, AlertTriangle, Layers, History } from "lucide-react";
 import { useStockAnalyses, StoredAnalysis } from "@/hooks/useStockAnalyses";
 import { useAuth } from "@/contexts/AuthContext";
-import { AnalysisResponse, ErrorResponse, isAnalysisResponse, isErrorResponse } from "@/types/analysis";
+import { AnalysisMode, AnalysisResponse, ErrorResponse, isAnalysisResponse, isErrorResponse } from "@/types/analysis";
 import { apiService } from "@/services/api";
 import { authService } from "@/services/authService";
 import { StockSelector } from "@/components/ui/stock-selector";
 import type { StockSelectorHandle } from "@/components/ui/stock-selector";
 import { useSelectedStockStore } from "@/stores/selectedStockStore";
+import { useAnalysisJobStore } from "@/stores/analysisJobStore";
+import { usePaperTradingStore } from "@/stores/paperTradingStore";
+import { useHoldingsStore } from "@/stores/holdingsStore";
+import { portfolioContextService } from "@/services/portfolioContextService";
+import HoldingsManager from "@/components/portfolio/HoldingsManager";
+import { AnalysisJob } from "@/types/analysisJobs";
+import { getMaxPeriod } from "@/utils/analysisIntervals";
+import {
+  ANALYSIS_MODE_OPTIONS,
+  DEFAULT_ANALYSIS_MODE,
+  DEFAULT_MTF_TIMEFRAMES,
+  MIN_MTF_TIMEFRAMES,
+  MTF_TIMEFRAME_OPTIONS,
+  sortMtfTimeframes
+} from "@/utils/analysisModes";
+import { isPastISTDate } from "@/utils/marketCalendar";
+import { getPaperHolding } from "@/utils/paperTrading";
+import { getHoldingForSymbol } from "@/utils/portfolioHoldings";
+import { PortfolioContext } from "@/types/portfolio";
 
 
 // Type definitions
@@ -35,23 +54,6 @@ interface ApiValidationError {
   type: string;
 }
 
-// Interval to max period mapping
-const intervalMaxPeriod: Record<string, number | undefined> = {
-  "1minute": 30,
-  "3minute": 90,
-  "5minute": 90,
-  "10minute": 90,
-  "15minute": 180,
-  "30minute": 180,
-  "60minute": 365,
-  "day": 2000,
-  "Daily": 2000,
-  "week": 2000,
-  "month": 2000,
-};
-
-const getMaxPeriod = (interval: string) => intervalMaxPeriod[interval];
-
 // Debounce hook
 function useDebounce<T>(value: T, delay: number): T {
   const [debouncedValue, setDebouncedValue] = useState<T>(value);
@@ -84,17 +86,23 @@ const NewStockAnalysis = () => {
     portfolio_value: "1000000"
   });
 
+  // Which endpoint runs the analysis; the multi-timeframe mode also takes the timeframes to cross-check
+  const [analysisMode, setAnalysisMode] = useState<AnalysisMode>(DEFAULT_ANALYSIS_MODE);
+  const [mtfTimeframes, setMtfTimeframes] = useState<string[]>(DEFAULT_MTF_TIMEFRAMES);
+
   // UI state
-  const [isLoading, setIsLoading] = useState(false);
   const [formError, setFormError] = useState<string | null>(null);
-  const [runningAnalyses, setRunningAnalyses] = useState<RunningAnalysisItem[]>([]);
-  const [isAnalysisRunning, setIsAnalysisRunning] = useState(false);
   const [hasCurrentHolding, setHasCurrentHolding] = useState<boolean>(false);
   const [holdingData, setHoldingData] = useState({
     quantity: "",
     entry_price: "",
     position_type: "long" as "long" | "short"
   });
+  // Where the holding fields came from: the paper portfolio or saved holdings fill them in until the user edits them
+  const [holdingSource, setHoldingSource] = useState<"paper" | "holdings" | "manual" | null>(null);
+  // Portfolio context (sector exposure, correlations) is worked out from the holdings when the analysis starts
+  const [includePortfolioContext, setIncludePortfolioContext] = useState<boolean>(true);
+  const [isPreparingContext, setIsPreparingContext] = useState<boolean>(false);
 
   // Previous analyses state
   const [selectedPreviousAnalyses, setSelectedPreviousAnalyses] = useState<string[]>([]);
@@ -165,40 +173,62 @@ const NewStockAnalysis = () => {
   // Hooks
   const navigate = useNavigate();
   const { toast } = useToast();
-  const { saveAnalysis, analyses, loading, error, loadMoreAnalyses, hasMore } = useStockAnalyses();
+  const {
+    saveAnalysis,
+    analyses,
+    loading,
+    error,
+    loadMoreAnalyses,
+    hasMore,
+    mirroredAnalyses,
+    mirrorState,
+    isMirrorSyncing,
+    isServedFromMirror,
+    syncMirror
+  } = useStockAnalyses();
   const { user } = useAuth();
 
   // Debounce stock symbol for fetching previous analyses
   const debouncedStock = useDebounce(formData.stock, 300);
 
-  // Persistence helpers for running analyses
-  const STORAGE_KEY = 'runningAnalyses_v1';
-  const loadRunningFromStorage = (): RunningAnalysisItem[] => {
-    try {
-      const raw = localStorage.getItem(STORAGE_KEY);
-      if (!raw) return [];
-      const parsed = JSON.parse(raw) as RunningAnalysisItem[];
-      // Optional prune: drop very old entries (> 2 hours)
-      const twoHoursMs = 2 * 60 * 60 * 1000;
-      const now = Date.now();
-      return parsed.filter(item => now - item.startedAt < twoHoursMs);
-    } catch {
-      return [];
+  // Open paper positions in the selected stock, serialised so price ticks don't re-render the form
+  const paperHolding = usePaperTradingStore(state =>
+    debouncedStock ? JSON.stringify(getPaperHolding(state.portfolio.positions, debouncedStock)) : "null"
+  );
+  const holdings = useHoldingsStore(state => state.holdings);
+  const loadHoldings = useHoldingsStore(state => state.loadHoldings);
+  const setHoldingSectors = useHoldingsStore(state => state.setSectors);
+  const savedHolding = debouncedStock ? JSON.stringify(getHoldingForSymbol(holdings, debouncedStock)) : "null";
+
+  // Paper positions and holdings are today's book, so an analysis ending in the past gets neither
+  const isHistoricalRun = isPastISTDate(formData.end_date);
+
+  useEffect(() => {
+    if (holdingSource === "manual") return;
+    const fromPaper = isHistoricalRun ? null : JSON.parse(paperHolding);
+    const holding = fromPaper ?? (isHistoricalRun ? null : JSON.parse(savedHolding));
+    if (holding) {
+      setHasCurrentHolding(true);
+      setHoldingData({
+        quantity: String(holding.quantity),
+        entry_price: String(holding.entry_price),
+        position_type: holding.position_type
+      });
+      setHoldingSource(fromPaper ? "paper" : "holdings");
+    } else if (holdingSource) {
+      setHasCurrentHolding(false);
+      setHoldingData({ quantity: "", entry_price: "", position_type: "long" });
+      setHoldingSource(null);
     }
-  };
-  const saveRunningToStorage = (items: RunningAnalysisItem[]) => {
-    try { localStorage.setItem(STORAGE_KEY, JSON.stringify(items)); } catch {}
-  };
-  const addRunningToStorage = (item: RunningAnalysisItem) => {
-    const current = loadRunningFromStorage();
-    const updated = [item, ...current.filter(r => r.id !== item.id)];
-    saveRunningToStorage(updated);
-  };
-  const removeRunningFromStorage = (id: string) => {
-    const current = loadRunningFromStorage();
-    const updated = current.filter(r => r.id !== id);
-    saveRunningToStorage(updated);
-  };
+  }, [paperHolding, savedHolding, holdingSource, isHistoricalRun]);
+
+  // Analysis jobs survive reloads; results finished elsewhere are picked up here
+  const jobs = useAnalysisJobStore(state => state.jobs);
+  const loadJobs = useAnalysisJobStore(state => state.loadJobs);
+  const submitJob = useAnalysisJobStore(state => state.submitJob);
+  const retryJob = useAnalysisJobStore(state => state.retryJob);
+  const dismissJob = useAnalysisJobStore(state => state.dismissJob);
+  const acknowledgeJob = useAnalysisJobStore(state => state.acknowledgeJob);
 
   // API functions
   const fetchSectors = async () => {
@@ -291,13 +321,35 @@ const NewStockAnalysis = () => {
     fetchSectors();
   }, []);
 
-  // Rehydrate running analyses from storage on mount
   useEffect(() => {
-    const hydrated = loadRunningFromStorage();
-    if (hydrated.length) {
-      setRunningAnalyses(hydrated);
-    }
-  }, []);
+    loadJobs(user?.id);
+  }, [user?.id, loadJobs]);
+
+  useEffect(() => {
+    loadHoldings(user?.id);
+  }, [user?.id, loadHoldings]);
+
+  // Jobs that finished after a reload or in another tab have no caller waiting on them
+  useEffect(() => {
+    jobs
+      .filter(job => !job.acknowledged && (job.status === 'completed' || job.status === 'failed'))
+      .forEach(job => {
+        acknowledgeJob(job.id);
+        if (job.status === 'failed') {
+          toast({ title: 'Analysis Failed', description: `${job.stock}: ${job.error || 'The analysis did not finish'}`, variant: 'destructive' });
+          return;
+        }
+        toast({ title: 'Analysis Complete', description: `Analysis completed for ${job.stock}` });
+        if (job.analysisId && job.request?.portfolio_context) {
+          portfolioContextService.saveSnapshot(job.analysisId, job.request.portfolio_context);
+        }
+        if (user && job.analysisId) {
+          apiService.getAnalysisById(job.analysisId).then(data => {
+            if (data) saveAnalysis(job.stock, data);
+          });
+        }
+      });
+  }, [jobs, acknowledgeJob, toast, user, saveAnalysis]);
 
   useEffect(() => {
     if (formData.stock) {
@@ -374,6 +426,7 @@ const NewStockAnalysis = () => {
   };
 
   const handleHoldingToggle = (hasHolding: boolean) => {
+    setHoldingSource("manual");
     setHasCurrentHolding(hasHolding);
     if (!hasHolding) {
       setHoldingData({
@@ -385,6 +438,7 @@ const NewStockAnalysis = () => {
   };
 
   const handleHoldingChange = (field: "quantity" | "entry_price" | "position_type", value: string) => {
+    setHoldingSource("manual");
     setHoldingData(prev => ({
       ...prev,
       [field]: field === "position_type" 
@@ -395,15 +449,60 @@ const NewStockAnalysis = () => {
     }));
   };
 
+  const toggleMtfTimeframe = (timeframe: string) => {
+    setMtfTimeframes(prev => sortMtfTimeframes(
+      prev.includes(timeframe) ? prev.filter(value => value !== timeframe) : [...prev, timeframe]
+    ));
+  };
+
   const handleSelectAnalysis = (analysis: StoredAnalysis) => {
     // Navigate to shareable URL for this saved analysis
     navigate(`/analysis/${analysis.id}`);
   };
 
+  const handleJobResult = (result: Promise<AnalysisResponse>, portfolioContext: PortfolioContext | null = null) => {
+    result
+      .then(async (data) => {
+        if (user) {
+          try {
+            await saveAnalysis(data.stock_symbol, data);
+          } catch (_) {}
+        }
+        // Kept beside the result so the output can show how the recommendation changes the book
+        const analysisId = (data as any)?.analysis_id;
+        if (portfolioContext && analysisId) portfolioContextService.saveSnapshot(analysisId, portfolioContext);
+        localStorage.setItem('analysisResult', JSON.stringify(portfolioContext ? { ...data, portfolio_context: portfolioContext } : data));
+        try {
+          const userId = user?.id || 'anonymous';
+          const { token } = await authService.createToken(userId);
+          if (token) localStorage.setItem('jwt_token', token);
+        } catch (_) {}
+
+        toast({
+          title: "Analysis Complete",
+          description: `Analysis completed for ${data.stock_symbol}`,
+        });
+        // Only navigate if still on analysis page
+        if (window.location.pathname.includes('/analysis')) {
+          const shareId = (data as any)?.analysis_id;
+          navigate(shareId ? `/analysis/${shareId}` : '/output');
+        }
+      })
+      .catch((err: unknown) => {
+        const errorMessage = err instanceof Error ? err.message : 'An error occurred during analysis';
+        setFormError(errorMessage);
+        toast({ title: 'Analysis Failed', description: errorMessage, variant: 'destructive' });
+      });
+  };
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     setFormError(null);
-    setIsAnalysisRunning(true);
+
+    if (analysisMode === "enhanced_mtf" && mtfTimeframes.length < MIN_MTF_TIMEFRAMES) {
+      toast({ title: 'Not Enough Timeframes', description: `Pick at least ${MIN_MTF_TIMEFRAMES} timeframes for a multi-timeframe analysis.`, variant: 'destructive' });
+      return;
+    }
 
     try {
       const payload: any = {
@@ -413,8 +512,12 @@ const NewStockAnalysis = () => {
         interval: formData.interval,
         sector: formData.sector,
         email: user?.email, // Include user email for backend user ID mapping
-        portfolio_value: formData.portfolio_value ? parseFloat(formData.portfolio_value) : 1000000
+        portfolio_value: formData.portfolio_value ? parseFloat(formData.portfolio_value) : 1000000,
+        analysis_mode: analysisMode
       };
+      if (analysisMode === "enhanced_mtf") {
+        payload.timeframes = mtfTimeframes;
+      }
       if (formData.end_date && formData.end_date.trim().length > 0) {
         payload.end_date = formData.end_date.trim(); // YYYY-MM-DD
       }
@@ -438,64 +541,35 @@ const NewStockAnalysis = () => {
         console.log("[FRONTEND] Including previous analysis IDs in request:", payload.previous_analysis_ids);
       }
 
-      // Create a running item and start async request
-      const runId = `${payload.stock}-${Date.now()}`;
-      const runningItem: RunningAnalysisItem = {
-        id: runId,
-        stock: payload.stock,
-        exchange: payload.exchange,
-        period: payload.period,
-        interval: payload.interval,
-        sector: payload.sector ?? null,
-        startedAt: Date.now(),
-        status: 'running',
-      };
-      setRunningAnalyses((prev) => [runningItem, ...prev]);
-      addRunningToStorage(runningItem);
-
-      setIsLoading(true);
-      apiService
-        .enhancedAnalyzeStock(payload)
-        .then(async (data) => {
-          if (user) {
-            try {
-              await saveAnalysis(data.stock_symbol, data);
-            } catch (_) {}
-          }
-          localStorage.setItem('analysisResult', JSON.stringify(data));
-          try {
-            const userId = user?.id || 'anonymous';
-            const { token } = await authService.createToken(userId);
-            if (token) localStorage.setItem('jwt_token', token);
-          } catch (_) {}
+      // Guard against double submits of the same analysis
+      const duplicate = jobs.find(job =>
+        (job.status === 'queued' || job.status === 'running') &&
+        job.stock === payload.stock &&
+        job.period === payload.period &&
+        job.interval === payload.interval &&
+        (job.request?.analysis_mode ?? DEFAULT_ANALYSIS_MODE) === payload.analysis_mode &&
+        (job.endDate || null) === (payload.end_date || null)
+      );
+      if (duplicate) {
+        toast({ title: 'Already Running', description: `An analysis for ${payload.stock} with these settings is already ${duplicate.status}.` });
+        return;
+      }
 
-          setRunningAnalyses((prev) => prev.filter((r) => r.id !== runId));
-          removeRunningFromStorage(runId);
+      // Holdings are today's book, so they don't apply to an analysis ending in the past
+      if (includePortfolioContext && holdings.length > 0 && !isPastISTDate(payload.end_date)) {
+        setIsPreparingContext(true);
+        try {
+          const resolvedSectors = await portfolioContextService.attachContext(payload, holdings);
+          if (resolvedSectors) setHoldingSectors(resolvedSectors);
+        } catch (error) {
+          console.warn("[FRONTEND] Portfolio context unavailable, sending the request without it:", error);
+        } finally {
+          setIsPreparingContext(false);
+        }
+      }
 
-          toast({
-            title: "Analysis Complete",
-            description: `Analysis completed for ${data.stock_symbol}`,
-          });
-          // Only navigate if still on analysis page
-          if (window.location.pathname.includes('/analysis')) {
-            const shareId = (data as any)?.analysis_id;
-            navigate(shareId ? `/analysis/${shareId}` : '/output');
-          }
-        })
-        .catch((err: unknown) => {
-          const errorMessage = err instanceof Error ? err.message : 'An error occurred during analysis';
-          setFormError(errorMessage);
-          setRunningAnalyses((prev) => prev.map((r) => (r.id === runId ? { ...r, status: 'error', error: errorMessage } : r)));
-          setTimeout(() => {
-            setRunningAnalyses((prev) => prev.filter((r) => r.id !== runId));
-            removeRunningFromStorage(runId);
-          }, 2000);
-          toast({ title: 'Analysis Failed', description: errorMessage, variant: 'destructive' });
-        })
-        .finally(() => {
-          setIsLoading(false);
-          setIsAnalysisRunning(false);
-        });
+      const { result } = submitJob(payload);
+      handleJobResult(result, payload.portfolio_context ?? null);
     } catch (error) {
       const errorMessage = error instanceof Error ? error.message : "An error occurred during analysis";
       setFormError(errorMessage);
@@ -507,6 +581,11 @@ const NewStockAnalysis = () => {
     }
   };
 
+  const handleRetryJob = (job: AnalysisJob) => {
+    const result = retryJob(job.id);
+    if (result) handleJobResult(result, job.request?.portfolio_context ?? null);
+  };
+
   return (
     <div className="min-h-screen bg-gradient-to-br from-slate-50 via-blue-50 to-indigo-50">
       <Header />
@@ -543,6 +622,26 @@ const NewStockAnalysis = () => {
                         </CardDescription>
                       </div>
                     </div>
+                    <div className="flex items-center gap-1">
+                      <Button
+                        type="button"
+                        variant="ghost"
+                        onClick={() => navigate('/analysis/replay')}
+                        className="text-white hover:bg-white/20 hover:text-white"
+                      >
+                        <History className="h-4 w-4 mr-2" />
+                        Replay
+                      </Button>
+                      <Button
+                        type="button"
+                        variant="ghost"
+                        onClick={() => navigate('/analysis/batch')}
+                        className="text-white hover:bg-white/20 hover:text-white"
+                      >
+                        <Layers className="h-4 w-4 mr-2" />
+                        Batch analysis
+                      </Button>
+                    </div>
                   </div>
                 </CardHeader>
                 
@@ -615,6 +714,61 @@ const NewStockAnalysis = () => {
 
                     <Separator />
 
+                    {/* Analysis Mode */}
+                    <div className="space-y-3">
+                      <h3 className="text-base font-semibold text-slate-800 flex items-center">
+                        <Layers className="h-4 w-4 mr-2 text-blue-500" />
+                        Analysis Mode
+                      </h3>
+                      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                        <div className="space-y-2">
+                          <Label htmlFor="analysis_mode" className="text-slate-700 font-medium">
+                            Mode
+                          </Label>
+                          <Select value={analysisMode} onValueChange={(value) => setAnalysisMode(value as AnalysisMode)}>
+                            <SelectTrigger id="analysis_mode" className="border-slate-300 focus:ring-0 focus:ring-offset-0">
+                              <SelectValue placeholder="Select mode" />
+                            </SelectTrigger>
+                            <SelectContent>
+                              {ANALYSIS_MODE_OPTIONS.map(option => (
+                                <SelectItem key={option.value} value={option.value}>
+                                  {option.label}
+                                </SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                          <p className="text-xs text-slate-500">
+                            {ANALYSIS_MODE_OPTIONS.find(option => option.value === analysisMode)?.description}
+                          </p>
+                        </div>
+
+                        {analysisMode === "enhanced_mtf" && (
+                          <div className="space-y-2 md:col-span-2">
+                            <Label className="text-slate-700 font-medium">Timeframes</Label>
+                            <div className="flex flex-wrap gap-2">
+                              {MTF_TIMEFRAME_OPTIONS.map(option => (
+                                <Button
+                                  key={option.value}
+                                  type="button"
+                                  size="sm"
+                                  variant={mtfTimeframes.includes(option.value) ? "default" : "outline"}
+                                  className="h-7"
+                                  onClick={() => toggleMtfTimeframe(option.value)}
+                                >
+                                  {option.label}
+                                </Button>
+                              ))}
+                            </div>
+                            <p className="text-xs text-slate-500">
+                              Each timeframe is analysed separately and the result shows where they agree. Pick at least {MIN_MTF_TIMEFRAMES}.
+                            </p>
+                          </div>
+                        )}
+                      </div>
+                    </div>
+
+                    <Separator />
+
                     {/* Time Configuration */}
                     <div className="space-y-3">
                       <h3 className="text-base font-semibold text-slate-800 flex items-center">
@@ -749,6 +903,11 @@ const NewStockAnalysis = () => {
                     {/* Current Holdings Details */}
                     {hasCurrentHolding && (
                       <div className="space-y-3 p-3 bg-blue-50 rounded-lg border border-blue-200 animate-in slide-in-from-top-2">
+                        {(holdingSource === "paper" || holdingSource === "holdings") && (
+                          <p className="text-xs text-blue-700">
+                            Filled in from your {holdingSource === "paper" ? "open paper portfolio positions" : "portfolio holdings"}. Edit the fields to override.
+                          </p>
+                        )}
                         <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
                           <div>
                             <label className="block text-sm font-medium text-gray-700 mb-1">
@@ -798,6 +957,14 @@ const NewStockAnalysis = () => {
 
                     <Separator />
 
+                    {/* Portfolio Holdings Section */}
+                    <HoldingsManager
+                      includeContext={includePortfolioContext}
+                      onIncludeContextChange={setIncludePortfolioContext}
+                    />
+
+                    <Separator />
+
                     {/* Previous Analyses Attachment Section */}
                     <div className="space-y-3 p-3 bg-purple-50 rounded-lg border border-purple-200">
                       <h3 className="text-base font-semibold text-slate-800 flex items-center">
@@ -824,12 +991,12 @@ const NewStockAnalysis = () => {
                       <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mb-2">
                         <Button 
                           type="submit" 
+                          disabled={isPreparingContext}
                           className="w-full bg-gradient-to-r from-emerald-500 to-blue-600 hover:from-emerald-600 hover:to-blue-700 text-white font-semibold py-4 text-lg rounded-xl transition-all duration-300 transform hover:scale-[1.02] shadow-lg"
-                          disabled={isAnalysisRunning}
                         >
                           <div className="flex items-center space-x-2">
                             <Play className="h-5 w-5" />
-                            <span>Start Analysis</span>
+                            <span>{isPreparingContext ? "Preparing Portfolio Context..." : "Start Analysis"}</span>
                           </div>
                         </Button>
 
@@ -867,9 +1034,17 @@ const NewStockAnalysis = () => {
                 onAnalysisSelect={handleSelectAnalysis}
                 loading={loading}
                 error={error}
-                runningAnalyses={runningAnalyses}
+                jobs={jobs}
+                onRetryJob={handleRetryJob}
+                onDismissJob={(job) => dismissJob(job.id)}
+                onOpenJob={(job) => navigate(`/analysis/${job.analysisId}`)}
                 loadMoreAnalyses={loadMoreAnalyses}
                 hasMore={hasMore}
+                mirroredAnalyses={mirroredAnalyses}
+                mirrorState={mirrorState}
+                isMirrorSyncing={isMirrorSyncing}
+                isServedFromMirror={isServedFromMirror}
+                onSyncMirror={syncMirror}
               />
             </div>
           </div>
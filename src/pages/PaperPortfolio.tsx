@@ -0,0 +1,208 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import Header from '@/components/Header';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { RotateCcw } from 'lucide-react';
+import { useAuth } from '@/contexts/AuthContext';
+import { useToast } from '@/hooks/use-toast';
+import { useLiveQuotes } from '@/hooks/useLiveQuotes';
+import { usePaperTradingStore } from '@/stores/paperTradingStore';
+import PaperPositionsTable from '@/components/paperTrading/PaperPositionsTable';
+import { PaperPosition } from '@/types/paperTrading';
+import { DEFAULT_PAPER_CAPITAL, summarizePaperPortfolio } from '@/utils/paperTrading';
+import { formatOutcomePct, outcomePctClass } from '@/utils/signalOutcomes';
+
+const formatRupees = (value: number): string =>
+  `${value < 0 ? '-' : ''}₹${Math.abs(value).toLocaleString('en-IN', { maximumFractionDigits: 0 })}`;
+
+const PaperPortfolio = () => {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const navigate = useNavigate();
+  const portfolio = usePaperTradingStore(state => state.portfolio);
+  const isLoaded = usePaperTradingStore(state => state.isLoaded);
+  const loadPortfolio = usePaperTradingStore(state => state.loadPortfolio);
+  const closePosition = usePaperTradingStore(state => state.closePosition);
+  const removePosition = usePaperTradingStore(state => state.removePosition);
+  const resetPortfolio = usePaperTradingStore(state => state.resetPortfolio);
+  const [capital, setCapital] = useState(String(DEFAULT_PAPER_CAPITAL));
+
+  useEffect(() => {
+    loadPortfolio(user?.id);
+  }, [user?.id, loadPortfolio]);
+
+  useEffect(() => {
+    if (isLoaded) setCapital(String(portfolio.startingCapital));
+  }, [isLoaded, portfolio.startingCapital]);
+
+  const activePositions = useMemo(
+    () => portfolio.positions.filter(position => position.status === 'pending' || position.status === 'open'),
+    [portfolio.positions]
+  );
+  // Most recently closed first
+  const closedPositions = useMemo(
+    () => portfolio.positions
+      .filter(position => position.status === 'closed' || position.status === 'cancelled')
+      .sort((a, b) => (b.closedAt || '').localeCompare(a.closedAt || '')),
+    [portfolio.positions]
+  );
+
+  const symbols = useMemo(
+    () => Array.from(new Set(activePositions.map(position => position.symbol))),
+    [activePositions]
+  );
+  const quotes = useLiveQuotes(symbols);
+  const prices = useMemo(() => {
+    const next: Record<string, number | null> = {};
+    symbols.forEach(symbol => {
+      next[symbol] = quotes[symbol]?.ltp ?? null;
+    });
+    return next;
+  }, [symbols, quotes]);
+
+  const summary = useMemo(() => summarizePaperPortfolio(portfolio, prices), [portfolio, prices]);
+  const returnPct = portfolio.startingCapital > 0
+    ? ((summary.equity - portfolio.startingCapital) / portfolio.startingCapital) * 100
+    : null;
+
+  const handleClose = (position: PaperPosition) => {
+    const price = prices[position.symbol] ?? position.lastPrice;
+    closePosition(position.id, price);
+    toast({
+      title: position.status === 'pending' ? 'Paper order cancelled' : 'Paper position closed',
+      description: position.status === 'pending'
+        ? position.symbol
+        : `${position.symbol}: ${position.openQuantity} at ₹${price?.toFixed(2)}`
+    });
+  };
+
+  const handleReset = () => {
+    const startingCapital = Number(capital);
+    if (!Number.isFinite(startingCapital) || startingCapital <= 0) {
+      toast({ title: 'Enter a starting capital above zero', variant: 'destructive' });
+      return;
+    }
+    if (portfolio.positions.length > 0 && !window.confirm('Reset the paper portfolio? All positions and trade history are removed.')) {
+      return;
+    }
+    resetPortfolio(startingCapital);
+    toast({ title: 'Paper portfolio reset', description: `Starting capital ${formatRupees(startingCapital)}` });
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-slate-50 via-blue-50 to-indigo-50">
+      <Header />
+
+      <div className="container mx-auto px-4 py-8 space-y-6">
+        <div>
+          <h1 className="text-3xl font-bold text-gray-900">Paper Portfolio</h1>
+          <p className="text-gray-600 mt-1">
+            Simulated positions opened from analysis recommendations. They fill, stop out and take profit against live
+            prices while the app is open, and open holdings are sent as your current holding in new analyses.
+          </p>
+        </div>
+
+        <div className="grid grid-cols-2 gap-4 lg:grid-cols-4">
+          <Card>
+            <CardContent className="pt-6">
+              <p className="text-sm text-gray-500">Equity</p>
+              <p className="text-2xl font-bold text-gray-900">{formatRupees(summary.equity)}</p>
+              <p className={`text-xs ${outcomePctClass(returnPct)}`}>
+                {formatOutcomePct(returnPct)} on {formatRupees(portfolio.startingCapital)}
+              </p>
+            </CardContent>
+          </Card>
+          <Card>
+            <CardContent className="pt-6">
+              <p className="text-sm text-gray-500">Cash</p>
+              <p className="text-2xl font-bold text-gray-900">{formatRupees(summary.cash)}</p>
+              <p className="text-xs text-gray-500">{formatRupees(summary.investedValue)} in open positions</p>
+            </CardContent>
+          </Card>
+          <Card>
+            <CardContent className="pt-6">
+              <p className="text-sm text-gray-500">Unrealised P&amp;L</p>
+              <p className={`text-2xl font-bold ${outcomePctClass(summary.unrealizedPnl)}`}>{formatRupees(summary.unrealizedPnl)}</p>
+              <p className="text-xs text-gray-500">
+                {summary.openPositions} open · {summary.pendingOrders} pending
+              </p>
+            </CardContent>
+          </Card>
+          <Card>
+            <CardContent className="pt-6">
+              <p className="text-sm text-gray-500">Realised P&amp;L</p>
+              <p className={`text-2xl font-bold ${outcomePctClass(summary.realizedPnl)}`}>{formatRupees(summary.realizedPnl)}</p>
+              <p className="text-xs text-gray-500">
+                {closedPositions.filter(position => position.status === 'closed').length} closed trades
+              </p>
+            </CardContent>
+          </Card>
+        </div>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Positions</CardTitle>
+            <CardDescription>
+              {isLoaded
+                ? 'Pending orders fill once the price enters their entry range and lapse after the analysis horizon.'
+                : 'Loading portfolio...'}
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <PaperPositionsTable
+              positions={activePositions}
+              mode="active"
+              prices={prices}
+              onClose={handleClose}
+              onOpenAnalysis={(analysisId) => navigate(`/analysis/${analysisId}`)}
+            />
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Trade history</CardTitle>
+            <CardDescription>Closed positions with each partial exit</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <PaperPositionsTable
+              positions={closedPositions}
+              mode="closed"
+              onRemove={(position) => removePosition(position.id)}
+              onOpenAnalysis={(analysisId) => navigate(`/analysis/${analysisId}`)}
+            />
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Reset</CardTitle>
+            <CardDescription>Start over with a fresh starting capital</CardDescription>
+          </CardHeader>
+          <CardContent className="flex flex-wrap items-end gap-3">
+            <div className="space-y-1">
+              <Label htmlFor="paper-capital">Starting capital (₹)</Label>
+              <Input
+                id="paper-capital"
+                className="w-48"
+                type="number"
+                min="1"
+                step="1000"
+                value={capital}
+                onChange={(e) => setCapital(e.target.value)}
+              />
+            </div>
+            <Button variant="outline" onClick={handleReset}>
+              <RotateCcw className="mr-1 h-4 w-4" /> Reset portfolio
+            </Button>
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+};
+
+export default PaperPortfolio;
@@ -0,0 +1,348 @@
+import React, { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import Header from '@/components/Header';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { AlertTriangle, Loader2, ShieldAlert } from 'lucide-react';
+import { useAuth } from '@/contexts/AuthContext';
+import { useHoldingsStore } from '@/stores/holdingsStore';
+import HoldingsManager from '@/components/portfolio/HoldingsManager';
+import BacktestEquityChart from '@/components/backtest/BacktestEquityChart';
+import { ScenarioResultGrid, StressScenarioGrid } from '@/components/analysis/StressScenarioCards';
+import { portfolioRiskService } from '@/services/portfolioRiskService';
+import { PortfolioRiskReport } from '@/types/portfolioRisk';
+import { outcomePctClass } from '@/utils/signalOutcomes';
+
+// Only the largest positions fit in the matrix
+const MAX_MATRIX_SYMBOLS = 15;
+const MARGINAL_VAR_STEP = 100000;
+
+const formatRupees = (value: number): string =>
+  `${value < 0 ? '-' : ''}₹${Math.abs(value).toLocaleString('en-IN', { maximumFractionDigits: 0 })}`;
+
+const formatPct = (value: number | null, digits = 1): string => (value === null ? '—' : `${value.toFixed(digits)}%`);
+
+// Red for moving together, blue for offsetting
+const matrixCellStyle = (value: number | null, scale: number): React.CSSProperties => {
+  if (value === null || scale <= 0) return {};
+  const intensity = Math.min(1, Math.abs(value) / scale) * 0.6;
+  return { backgroundColor: value >= 0 ? `rgba(239, 68, 68, ${intensity})` : `rgba(59, 130, 246, ${intensity})` };
+};
+
+const PortfolioRisk = () => {
+  const { user } = useAuth();
+  const holdings = useHoldingsStore(state => state.holdings);
+  const isLoaded = useHoldingsStore(state => state.isLoaded);
+  const loadHoldings = useHoldingsStore(state => state.loadHoldings);
+  const setSectors = useHoldingsStore(state => state.setSectors);
+
+  const [report, setReport] = useState<PortfolioRiskReport | null>(null);
+  const [isRunning, setIsRunning] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const runIdRef = useRef(0);
+  const hasAutoRunRef = useRef(false);
+
+  useEffect(() => {
+    loadHoldings(user?.id);
+  }, [user?.id, loadHoldings]);
+
+  const handleRun = useCallback(async () => {
+    const current = useHoldingsStore.getState().holdings;
+    if (current.length === 0) {
+      setError('Add holdings to measure portfolio risk.');
+      return;
+    }
+    const runId = ++runIdRef.current;
+    setIsRunning(true);
+    setError(null);
+
+    try {
+      const { report: next, resolvedSectors } = await portfolioRiskService.buildReport(current);
+      if (runId !== runIdRef.current) return;
+      setReport(next);
+      setSectors(resolvedSectors);
+    } catch (err) {
+      if (runId !== runIdRef.current) return;
+      console.warn('⚠️ [PortfolioRisk] Risk report failed:', err);
+      setError(err instanceof Error ? err.message : 'Risk report failed');
+      setReport(null);
+    } finally {
+      if (runId === runIdRef.current) setIsRunning(false);
+    }
+  }, [setSectors]);
+
+  // Measure once the saved holdings arrive; later edits wait for the button
+  useEffect(() => {
+    if (!isLoaded || hasAutoRunRef.current || holdings.length === 0) return;
+    hasAutoRunRef.current = true;
+    handleRun();
+  }, [isLoaded, holdings.length, handleRun]);
+
+  const var95 = report?.var.find(estimate => estimate.confidence === 0.95) ?? null;
+  const matrixSymbols = report ? report.positions.slice(0, MAX_MATRIX_SYMBOLS).map(position => position.symbol) : [];
+  const covarianceScale = report
+    ? Math.max(0, ...report.covariance.slice(0, MAX_MATRIX_SYMBOLS).map((row, i) => row[i]))
+    : 0;
+  const maxContribution = report ? Math.max(1, ...report.positions.map(position => Math.abs(position.riskContribution))) : 1;
+  const equity = useMemo(
+    () => (report ? report.drawdown.map(point => ({ time: point.time, equity: point.value, drawdownPct: point.drawdownPct })) : []),
+    [report]
+  );
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-slate-50 via-blue-50 to-indigo-50">
+      <Header />
+
+      <div className="container mx-auto px-4 py-8 space-y-6">
+        <div className="flex flex-wrap items-end justify-between gap-4">
+          <div>
+            <h1 className="text-3xl font-bold text-gray-900">Portfolio Risk</h1>
+            <p className="text-gray-600 mt-1">
+              Correlation, value at risk, beta and drawdown of your holdings taken together, from a year of daily
+              closes. Quantities are held at today's level through the whole lookback.
+            </p>
+          </div>
+          <Button onClick={handleRun} disabled={isRunning || holdings.length === 0}>
+            {isRunning ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <ShieldAlert className="h-4 w-4 mr-2" />}
+            {report ? 'Recalculate' : 'Calculate risk'}
+          </Button>
+        </div>
+
+        <HoldingsManager description="The book to measure. Edits here are saved and used by analyses too; recalculate to see their effect." />
+
+        {error && (
+          <div className="flex items-center gap-2 rounded-md border border-red-200 bg-red-50 p-3 text-sm text-red-700">
+            <AlertTriangle className="h-4 w-4" /> {error}
+          </div>
+        )}
+
+        {report && (
+          <>
+            <div className="grid grid-cols-2 gap-4 lg:grid-cols-4">
+              <Card>
+                <CardContent className="pt-6">
+                  <p className="text-sm text-gray-500">Gross exposure</p>
+                  <p className="text-2xl font-bold text-gray-900">{formatRupees(report.grossExposure)}</p>
+                  <p className="text-xs text-gray-500">
+                    {formatRupees(report.netExposure)} net · {report.positions.length} positions
+                  </p>
+                </CardContent>
+              </Card>
+              <Card>
+                <CardContent className="pt-6">
+                  <p className="text-sm text-gray-500">1-day VaR (95%, historical)</p>
+                  <p className="text-2xl font-bold text-red-600">{var95 ? formatRupees(var95.historicalVar) : '—'}</p>
+                  <p className="text-xs text-gray-500">
+                    {var95 ? `${formatPct((var95.historicalVar / report.grossExposure) * 100, 2)} of gross · CVaR ${formatRupees(var95.historicalCvar)}` : '—'}
+                  </p>
+                </CardContent>
+              </Card>
+              <Card>
+                <CardContent className="pt-6">
+                  <p className="text-sm text-gray-500">Volatility (annualised)</p>
+                  <p className="text-2xl font-bold text-gray-900">{formatPct(report.volatility)}</p>
+                  <p className={`text-xs ${outcomePctClass(report.maxDrawdown)}`}>Max drawdown {formatPct(report.maxDrawdown)}</p>
+                </CardContent>
+              </Card>
+              <Card>
+                <CardContent className="pt-6">
+                  <p className="text-sm text-gray-500">Beta to {report.benchmark}</p>
+                  <p className="text-2xl font-bold text-gray-900">{report.beta?.toFixed(2) ?? '—'}</p>
+                  <p className="text-xs text-gray-500">Correlation {report.benchmarkCorrelation?.toFixed(2) ?? '—'}</p>
+                </CardContent>
+              </Card>
+            </div>
+
+            {report.excluded.length > 0 && (
+              <div className="flex items-start gap-2 rounded-md border border-amber-200 bg-amber-50 p-3 text-sm text-amber-800">
+                <AlertTriangle className="h-4 w-4 mt-0.5 shrink-0" />
+                <span>
+                  Not modelled: {report.excluded.map(holding => `${holding.symbol} (${holding.reason.toLowerCase()})`).join(', ')}.
+                </span>
+              </div>
+            )}
+
+            <Card>
+              <CardHeader>
+                <CardTitle>Value at Risk</CardTitle>
+                <CardDescription>
+                  One-session loss on today's holdings over {report.observations} shared sessions. Historical replays the
+                  observed days; parametric assumes normally distributed returns.
+                </CardDescription>
+              </CardHeader>
+              <CardContent className="overflow-x-auto">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Confidence</TableHead>
+                      <TableHead className="text-right">Historical VaR</TableHead>
+                      <TableHead className="text-right">Historical CVaR</TableHead>
+                      <TableHead className="text-right">Parametric VaR</TableHead>
+                      <TableHead className="text-right">Parametric CVaR</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {report.var.map(estimate => (
+                      <TableRow key={estimate.confidence}>
+                        <TableCell className="font-medium">{(estimate.confidence * 100).toFixed(0)}%</TableCell>
+                        {[estimate.historicalVar, estimate.historicalCvar, estimate.parametricVar, estimate.parametricCvar].map((value, index) => (
+                          <TableCell key={index} className="text-right tabular-nums">
+                            {formatRupees(value)}
+                            <span className="ml-1 text-xs text-gray-500">{formatPct((value / report.grossExposure) * 100, 2)}</span>
+                          </TableCell>
+                        ))}
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardHeader>
+                <CardTitle>Risk Contribution</CardTitle>
+                <CardDescription>
+                  Share of the book's variance each position carries, its slice of the 95% VaR and how much that VaR moves
+                  per {formatRupees(MARGINAL_VAR_STEP)} added to it
+                </CardDescription>
+              </CardHeader>
+              <CardContent className="overflow-x-auto">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Symbol</TableHead>
+                      <TableHead>Sector</TableHead>
+                      <TableHead className="text-right">Value</TableHead>
+                      <TableHead className="text-right">Weight</TableHead>
+                      <TableHead className="text-right">Volatility</TableHead>
+                      <TableHead className="text-right">Beta</TableHead>
+                      <TableHead className="w-48">Risk contribution</TableHead>
+                      <TableHead className="text-right">Component VaR</TableHead>
+                      <TableHead className="text-right">Marginal VaR</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {report.positions.map(position => (
+                      <TableRow key={position.symbol}>
+                        <TableCell className="font-medium">
+                          {position.symbol}
+                          {position.side === 'short' && <Badge variant="outline" className="ml-2 text-red-700 border-red-200">Short</Badge>}
+                        </TableCell>
+                        <TableCell className="text-sm text-gray-600">{position.sector}</TableCell>
+                        <TableCell className="text-right tabular-nums">{formatRupees(position.value)}</TableCell>
+                        <TableCell className="text-right tabular-nums">{formatPct(position.weight)}</TableCell>
+                        <TableCell className="text-right tabular-nums">{formatPct(position.volatility)}</TableCell>
+                        <TableCell className="text-right tabular-nums">{position.beta?.toFixed(2) ?? '—'}</TableCell>
+                        <TableCell>
+                          <div className="flex items-center gap-2">
+                            <div className="relative h-2 flex-1 rounded bg-slate-100">
+                              <div
+                                className={`absolute inset-y-0 left-0 rounded ${position.riskContribution >= 0 ? 'bg-red-400' : 'bg-emerald-400'}`}
+                                style={{ width: `${(Math.abs(position.riskContribution) / maxContribution) * 100}%` }}
+                              />
+                            </div>
+                            <span className="w-14 text-right text-xs tabular-nums">{formatPct(position.riskContribution)}</span>
+                          </div>
+                        </TableCell>
+                        <TableCell className="text-right tabular-nums">{formatRupees(position.componentVar)}</TableCell>
+                        <TableCell className="text-right tabular-nums">{formatRupees(position.marginalVar * MARGINAL_VAR_STEP)}</TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+                <p className="mt-2 text-xs text-gray-500">
+                  Negative contributions are hedges: adding to them lowers the book's risk.
+                </p>
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardHeader>
+                <CardTitle>Correlation &amp; Covariance</CardTitle>
+                <CardDescription>
+                  Daily returns of the {matrixSymbols.length} largest positions over the shared sessions
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                <Tabs defaultValue="correlation">
+                  <TabsList>
+                    <TabsTrigger value="correlation">Correlation</TabsTrigger>
+                    <TabsTrigger value="covariance">Covariance (annualised, %²)</TabsTrigger>
+                  </TabsList>
+                  {(['correlation', 'covariance'] as const).map(kind => (
+                    <TabsContent key={kind} value={kind} className="overflow-x-auto">
+                      <table className="text-xs tabular-nums">
+                        <thead>
+                          <tr>
+                            <th />
+                            {matrixSymbols.map(symbol => (
+                              <th key={symbol} className="px-2 py-1 font-medium text-gray-600">{symbol}</th>
+                            ))}
+                          </tr>
+                        </thead>
+                        <tbody>
+                          {matrixSymbols.map((rowSymbol, i) => (
+                            <tr key={rowSymbol}>
+                              <th className="px-2 py-1 text-left font-medium text-gray-600">{rowSymbol}</th>
+                              {matrixSymbols.map((columnSymbol, j) => {
+                                const value = kind === 'correlation' ? report.correlation[i][j] : report.covariance[i][j];
+                                return (
+                                  <td
+                                    key={columnSymbol}
+                                    className="px-2 py-1 text-center"
+                                    style={matrixCellStyle(value, kind === 'correlation' ? 1 : covarianceScale)}
+                                  >
+                                    {value === null ? '—' : value.toFixed(kind === 'correlation' ? 2 : 0)}
+                                  </td>
+                                );
+                              })}
+                            </tr>
+                          ))}
+                        </tbody>
+                      </table>
+                    </TabsContent>
+                  ))}
+                </Tabs>
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardHeader>
+                <CardTitle>Drawdown History</CardTitle>
+                <CardDescription>
+                  Today's holdings valued on every shared session, with the drop from the running peak below
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                <BacktestEquityChart equity={equity} initialCapital={equity[0]?.equity ?? 0} />
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardHeader>
+                <CardTitle>Portfolio Stress Scenarios</CardTitle>
+                <CardDescription>
+                  Market and sector shocks passed through each position, and replays of the worst stretches in the lookback.
+                  Impact is the move in the book as a share of gross exposure.
+                </CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-6">
+                <StressScenarioGrid scenarios={report.stressScenarios} className="grid grid-cols-1 md:grid-cols-3 gap-4" />
+                {report.scenarioResults.length > 0 && (
+                  <div className="space-y-4">
+                    <h4 className="font-semibold text-lg">Monthly Outcomes</h4>
+                    <ScenarioResultGrid results={report.scenarioResults} />
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default PortfolioRisk;
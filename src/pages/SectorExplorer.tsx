@@ -0,0 +1,404 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import Header from '@/components/Header';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { AlertTriangle, Loader2 } from 'lucide-react';
+import { useAuth } from '@/contexts/AuthContext';
+import { useSelectedStockStore } from '@/stores/selectedStockStore';
+import { useLatestAnalysisSignals } from '@/hooks/useLatestAnalysisSignals';
+import { apiService, CandleData } from '@/services/api';
+import { historicalSeriesService } from '@/services/historicalSeriesService';
+import SectorRotationCard from '@/components/analysis/SectorRotationCard';
+import SectorRotationHeatmap from '@/components/sectors/SectorRotationHeatmap';
+import SectorPerformanceChart, { SectorPerformanceSeries } from '@/components/sectors/SectorPerformanceChart';
+import SectorStocksTable from '@/components/sectors/SectorStocksTable';
+import { SectorListItem, SectorPerformanceResponse, SectorStocksResponse } from '@/types/analysis';
+import {
+  MOMENTUM_PERIOD_DAYS,
+  SECTOR_PERIODS,
+  SectorComparison,
+  buildSectorRotationData,
+  getSectorReturnSeries
+} from '@/utils/sectorRotation';
+import { formatOutcomePct, outcomePctClass } from '@/utils/signalOutcomes';
+
+const DEFAULT_PERIOD_DAYS = 90;
+const MAX_COMPARED_SECTORS = 6;
+// A year of sessions covers the longest period
+const INDEX_HISTORY_BARS = 260;
+const SERIES_COLORS = ['#3b82f6', '#10b981', '#f97316', '#8b5cf6', '#ef4444', '#0ea5e9'];
+
+const SectorExplorer = () => {
+  const { user } = useAuth();
+  const navigate = useNavigate();
+  const setSelectedStock = useSelectedStockStore(state => state.setSelectedStock);
+
+  const [sectors, setSectors] = useState<SectorListItem[]>([]);
+  const [comparisons, setComparisons] = useState<Record<number, SectorComparison>>({});
+  const [isLoadingComparisons, setIsLoadingComparisons] = useState(false);
+  const [periodDays, setPeriodDays] = useState(DEFAULT_PERIOD_DAYS);
+  const [error, setError] = useState<string | null>(null);
+
+  const [compareCodes, setCompareCodes] = useState<string[]>([]);
+  const [indexCandles, setIndexCandles] = useState<Record<string, CandleData[] | null>>({});
+  const requestedIndicesRef = useRef(new Set<string>());
+
+  const [selectedCode, setSelectedCode] = useState<string | null>(null);
+  const [sectorStocks, setSectorStocks] = useState<SectorStocksResponse | null>(null);
+  const [sectorPerformance, setSectorPerformance] = useState<SectorPerformanceResponse['sector_performance'] | null>(null);
+  const [isLoadingStocks, setIsLoadingStocks] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+    apiService.getSectors()
+      .then(response => {
+        if (cancelled || !response.success) return;
+        setSectors(response.sectors);
+        setCompareCodes(response.sectors.slice(0, 3).map(sector => sector.code));
+        setSelectedCode(current => current ?? response.sectors[0]?.code ?? null);
+      })
+      .catch(err => {
+        if (cancelled) return;
+        console.warn('⚠️ [SectorExplorer] Failed to load sectors:', err);
+        setError('Could not load the sector list.');
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  // Every sector over every period feeds the heatmap; the comparison table reads the same results
+  useEffect(() => {
+    if (sectors.length === 0) return;
+    let cancelled = false;
+    const codes = sectors.map(sector => sector.code);
+    setIsLoadingComparisons(true);
+
+    Promise.allSettled(SECTOR_PERIODS.map(period => apiService.compareSectors(codes, period.days))).then(results => {
+      if (cancelled) return;
+      const next: Record<number, SectorComparison> = {};
+      results.forEach((result, i) => {
+        if (result.status === 'fulfilled' && result.value.success) {
+          next[SECTOR_PERIODS[i].days] = result.value.sector_comparison;
+        } else if (result.status === 'rejected') {
+          console.warn(`⚠️ [SectorExplorer] Sector comparison over ${SECTOR_PERIODS[i].label} failed:`, result.reason);
+        }
+      });
+      setComparisons(next);
+      setIsLoadingComparisons(false);
+      if (Object.keys(next).length === 0) setError('Sector performance is not available right now.');
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [sectors]);
+
+  // Index history for compared sectors, fetched once per sector and rebased per period
+  useEffect(() => {
+    compareCodes.forEach(code => {
+      const sector = sectors.find(item => item.code === code);
+      if (!sector?.primary_index || requestedIndicesRef.current.has(code)) return;
+      requestedIndicesRef.current.add(code);
+      historicalSeriesService.getCandles(sector.primary_index, 'NSE', '1d', INDEX_HISTORY_BARS)
+        .then(candles => setIndexCandles(prev => ({ ...prev, [code]: candles })))
+        .catch(err => {
+          console.warn(`⚠️ [SectorExplorer] No index history for ${sector.primary_index}:`, err);
+          setIndexCandles(prev => ({ ...prev, [code]: null }));
+        });
+    });
+  }, [compareCodes, sectors]);
+
+  useEffect(() => {
+    if (!selectedCode) return;
+    let cancelled = false;
+    setIsLoadingStocks(true);
+
+    Promise.allSettled([apiService.getSectorStocks(selectedCode), apiService.getSectorPerformance(selectedCode, periodDays)]).then(
+      ([stocksResult, performanceResult]) => {
+        if (cancelled) return;
+        if (stocksResult.status === 'rejected') {
+          console.warn(`⚠️ [SectorExplorer] Failed to load stocks for ${selectedCode}:`, stocksResult.reason);
+        }
+        setSectorStocks(stocksResult.status === 'fulfilled' && stocksResult.value.success ? stocksResult.value : null);
+        setSectorPerformance(
+          performanceResult.status === 'fulfilled' && performanceResult.value.success ? performanceResult.value.sector_performance : null
+        );
+        setIsLoadingStocks(false);
+      }
+    );
+
+    return () => {
+      cancelled = true;
+    };
+  }, [selectedCode, periodDays]);
+
+  const signals = useLatestAnalysisSignals(sectorStocks?.stocks ?? [], user?.id);
+
+  const activePeriod = SECTOR_PERIODS.find(period => period.days === periodDays) ?? SECTOR_PERIODS[0];
+  const rotations = useMemo(
+    () => SECTOR_PERIODS
+      .filter(period => comparisons[period.days])
+      .map(period => buildSectorRotationData(period, comparisons[period.days], comparisons[MOMENTUM_PERIOD_DAYS] ?? null)),
+    [comparisons]
+  );
+  const activeRotation = rotations.find(rotation => rotation.timeframe === activePeriod.label) ?? null;
+
+  // Rotation data is keyed by display name; the sector APIs take the code
+  const nameByCode = useMemo(() => {
+    const names: Record<string, string> = {};
+    sectors.forEach(sector => {
+      names[sector.code] = sector.name || sector.code;
+    });
+    Object.values(comparisons).forEach(comparison => {
+      Object.entries(comparison).forEach(([code, entry]) => {
+        names[code] = entry.display_name || entry.sector || names[code] || code;
+      });
+    });
+    return names;
+  }, [sectors, comparisons]);
+  const codeByName = useMemo(
+    () => Object.fromEntries(Object.entries(nameByCode).map(([code, name]) => [name, code])),
+    [nameByCode]
+  );
+
+  const chartSeries = useMemo<SectorPerformanceSeries[]>(
+    () => compareCodes
+      .map((code, index) => ({
+        name: nameByCode[code] || code,
+        color: SERIES_COLORS[index % SERIES_COLORS.length],
+        points: indexCandles[code] ? getSectorReturnSeries(indexCandles[code] as CandleData[], periodDays) : []
+      }))
+      .filter(series => series.points.length > 1),
+    [compareCodes, indexCandles, nameByCode, periodDays]
+  );
+  const isLoadingIndices = compareCodes.some(code => !(code in indexCandles));
+  const periodComparison = comparisons[periodDays];
+
+  const toggleCompared = (code: string) => {
+    setCompareCodes(current => {
+      if (current.includes(code)) return current.filter(item => item !== code);
+      return current.length >= MAX_COMPARED_SECTORS ? current : [...current, code];
+    });
+  };
+
+  const openChart = (symbol: string) => {
+    setSelectedStock(symbol, 'manual');
+    navigate('/charts');
+  };
+
+  const startAnalysis = (symbol: string) => {
+    setSelectedStock(symbol, 'manual');
+    navigate('/analysis');
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-slate-50 via-blue-50 to-indigo-50">
+      <Header />
+
+      <div className="container mx-auto px-4 py-8 space-y-6">
+        <div className="flex flex-wrap items-end justify-between gap-4">
+          <div>
+            <h1 className="text-3xl font-bold text-gray-900">Sector Explorer</h1>
+            <p className="text-gray-600 mt-1">
+              How NSE sectors have moved against each other, which are rotating in or out, and where your own
+              analyses stand on the stocks inside them.
+            </p>
+          </div>
+          <div className="flex gap-1">
+            {SECTOR_PERIODS.map(period => (
+              <Button
+                key={period.days}
+                size="sm"
+                variant={period.days === periodDays ? 'default' : 'outline'}
+                onClick={() => setPeriodDays(period.days)}
+              >
+                {period.label}
+              </Button>
+            ))}
+          </div>
+        </div>
+
+        {error && (
+          <div className="flex items-center gap-2 rounded-md border border-red-200 bg-red-50 p-3 text-sm text-red-700">
+            <AlertTriangle className="h-4 w-4" /> {error}
+          </div>
+        )}
+
+        <div className="grid grid-cols-1 gap-6 xl:grid-cols-[1fr,380px]">
+          <Card>
+            <CardHeader>
+              <CardTitle>Rotation Heatmap</CardTitle>
+              <CardDescription>
+                Sector index return per period, shaded by how far it ran ahead of (green) or behind (red) the average
+                sector. Ranked on {activePeriod.label}; click a sector to list its stocks.
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              {isLoadingComparisons ? (
+                <div className="flex items-center gap-2 text-sm text-gray-500">
+                  <Loader2 className="h-4 w-4 animate-spin" /> Comparing sectors...
+                </div>
+              ) : rotations.length > 0 ? (
+                <SectorRotationHeatmap
+                  rotations={rotations}
+                  activeTimeframe={activePeriod.label}
+                  selectedSector={selectedCode ? nameByCode[selectedCode] : null}
+                  onSelectSector={(name) => setSelectedCode(codeByName[name] ?? name)}
+                />
+              ) : (
+                <p className="text-sm text-gray-500">No sector performance to compare.</p>
+              )}
+            </CardContent>
+          </Card>
+
+          {activeRotation && (
+            <SectorRotationCard data={activeRotation} currentSector={selectedCode ? nameByCode[selectedCode] : undefined} />
+          )}
+        </div>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Performance Comparison</CardTitle>
+            <CardDescription>
+              Sector indices rebased to 0% at the start of the last {activePeriod.label}. Pick up to {MAX_COMPARED_SECTORS} sectors.
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="flex flex-wrap gap-2">
+              {sectors.map(sector => {
+                const index = compareCodes.indexOf(sector.code);
+                return (
+                  <Badge
+                    key={sector.code}
+                    variant="outline"
+                    className={`cursor-pointer select-none ${index >= 0 ? 'text-white' : 'text-gray-600 hover:bg-slate-100'}`}
+                    style={index >= 0 ? { backgroundColor: SERIES_COLORS[index % SERIES_COLORS.length], borderColor: 'transparent' } : undefined}
+                    onClick={() => toggleCompared(sector.code)}
+                  >
+                    {sector.name || sector.code}
+                  </Badge>
+                );
+              })}
+            </div>
+
+            {chartSeries.length > 0 ? (
+              <SectorPerformanceChart series={chartSeries} />
+            ) : (
+              <p className="py-8 text-center text-sm text-gray-500">
+                {isLoadingIndices ? 'Loading sector indices...' : 'No index history for the chosen sectors.'}
+              </p>
+            )}
+
+            {periodComparison && compareCodes.length > 0 && (
+              <div className="overflow-x-auto rounded-md border bg-white">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Sector</TableHead>
+                      <TableHead>Index</TableHead>
+                      <TableHead className="text-right">Return ({activePeriod.label})</TableHead>
+                      <TableHead className="text-right">Volatility (annualised)</TableHead>
+                      <TableHead className="text-right">Stocks</TableHead>
+                      <TableHead className="text-right">Index level</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {compareCodes.map(code => {
+                      const entry = periodComparison[code];
+                      const returnPct = typeof entry?.cumulative_return === 'number' ? entry.cumulative_return * 100 : null;
+                      return (
+                        <TableRow key={code}>
+                          <TableCell className="font-medium">{nameByCode[code] || code}</TableCell>
+                          <TableCell className="text-sm text-gray-600">{entry?.sector_index || '—'}</TableCell>
+                          <TableCell className={`text-right tabular-nums ${outcomePctClass(returnPct)}`}>{formatOutcomePct(returnPct)}</TableCell>
+                          <TableCell className="text-right tabular-nums">
+                            {typeof entry?.annualized_volatility === 'number' ? `${(entry.annualized_volatility * 100).toFixed(1)}%` : '—'}
+                          </TableCell>
+                          <TableCell className="text-right tabular-nums">{entry?.stock_count ?? '—'}</TableCell>
+                          <TableCell className="text-right tabular-nums">
+                            {typeof entry?.last_price === 'number' ? entry.last_price.toLocaleString('en-IN', { maximumFractionDigits: 2 }) : '—'}
+                          </TableCell>
+                        </TableRow>
+                      );
+                    })}
+                  </TableBody>
+                </Table>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader className="flex flex-row flex-wrap items-start justify-between gap-4 space-y-0">
+            <div>
+              <CardTitle>Constituents</CardTitle>
+              <CardDescription>
+                {sectorStocks
+                  ? `${sectorStocks.sector_info.stock_count} stocks in ${sectorStocks.sector_info.primary_index || sectorStocks.sector_info.display_name}, with your latest analysis of each`
+                  : 'Stocks in the sector, with your latest analysis of each'}
+              </CardDescription>
+            </div>
+            <Select value={selectedCode ?? undefined} onValueChange={setSelectedCode}>
+              <SelectTrigger className="w-56">
+                <SelectValue placeholder="Choose a sector" />
+              </SelectTrigger>
+              <SelectContent>
+                {sectors.map(sector => (
+                  <SelectItem key={sector.code} value={sector.code}>{sector.name || sector.code}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            {sectorPerformance && (
+              <div className="grid grid-cols-2 gap-4 text-sm md:grid-cols-4">
+                <div>
+                  <p className="text-gray-500">Return ({activePeriod.label})</p>
+                  <p className={`text-lg font-semibold ${outcomePctClass(sectorPerformance.cumulative_return * 100)}`}>
+                    {formatOutcomePct(sectorPerformance.cumulative_return * 100)}
+                  </p>
+                </div>
+                <div>
+                  <p className="text-gray-500">Volatility (annualised)</p>
+                  <p className="text-lg font-semibold text-gray-900">{(sectorPerformance.annualized_volatility * 100).toFixed(1)}%</p>
+                </div>
+                <div>
+                  <p className="text-gray-500">{sectorPerformance.sector_index}</p>
+                  <p className="text-lg font-semibold text-gray-900">
+                    {sectorPerformance.last_price.toLocaleString('en-IN', { maximumFractionDigits: 2 })}
+                  </p>
+                </div>
+                <div>
+                  <p className="text-gray-500">Last close</p>
+                  <p className="text-lg font-semibold text-gray-900">
+                    {sectorPerformance.last_date ? new Date(sectorPerformance.last_date).toLocaleDateString('en-IN') : '—'}
+                  </p>
+                </div>
+              </div>
+            )}
+
+            {isLoadingStocks ? (
+              <div className="flex items-center gap-2 text-sm text-gray-500">
+                <Loader2 className="h-4 w-4 animate-spin" /> Loading constituents...
+              </div>
+            ) : (
+              <SectorStocksTable
+                stocks={sectorStocks?.stocks ?? []}
+                signals={signals}
+                onOpenChart={openChart}
+                onAnalyze={startAnalysis}
+              />
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+};
+
+export default SectorExplorer;
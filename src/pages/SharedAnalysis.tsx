@@ -2,11 +2,27 @@ import React, { useEffect, useState } from "react";
 import { useParams } from "react-router-dom";
 import Header from "@/components/Header";
 import { DATABASE_ENDPOINTS } from "@/config";
+import { useAuth } from "@/contexts/AuthContext";
+import { analysisMirrorService } from "@/services/analysisMirrorService";
 import NewOutput from "./NewOutput";
 import { Loader2, AlertTriangle } from "lucide-react";
 
+// Store in localStorage in the same format NewOutput expects
+const storeForOutput = (record: { id?: string; stock_symbol?: string; analysis_data: any }) => {
+  const payload = {
+    ...(record.analysis_data || {}),
+    stock_symbol: record.stock_symbol || record.analysis_data?.stock_symbol || "",
+    analysis_id: record.id || record.analysis_data?.analysis_id || null,
+  };
+  try {
+    localStorage.setItem("analysisResult", JSON.stringify(payload));
+  } catch {}
+};
+
 const SharedAnalysis: React.FC = () => {
   const { id } = useParams<{ id: string }>();
+  const { user } = useAuth();
+  const userId = user?.id ?? null;
   const [status, setStatus] = useState<"loading" | "ready" | "error" | "not_found">("loading");
   const [message, setMessage] = useState<string>("");
 
@@ -17,6 +33,13 @@ const SharedAnalysis: React.FC = () => {
         setMessage("Missing analysis id");
         return;
       }
+      // Mirrored analyses open instantly, even with the database service down
+      const mirrored = await analysisMirrorService.getAnalysis(id, userId);
+      if (mirrored) {
+        storeForOutput(mirrored);
+        setStatus("ready");
+        return;
+      }
       try {
         const resp = await fetch(`${DATABASE_ENDPOINTS.ANALYSIS_BY_ID}/${encodeURIComponent(id)}`);
         if (resp.status === 404) {
@@ -33,14 +56,9 @@ const SharedAnalysis: React.FC = () => {
           setStatus("not_found");
           return;
         }
-        // Store in localStorage in the same format NewOutput expects
-        const payload = {
-          ...(record.analysis_data || {}),
-          stock_symbol: record.stock_symbol || record.analysis_data?.stock_symbol || "",
-        };
-        try {
-          localStorage.setItem("analysisResult", JSON.stringify(payload));
-        } catch {}
+        storeForOutput(record);
+        // Someone else's shared analysis is mirrored without an owner so it never joins this user's history
+        analysisMirrorService.putAnalyses(userId && record.user_id === userId ? userId : null, [record]);
         setStatus("ready");
       } catch (e: any) {
         setStatus("error");
@@ -48,7 +66,7 @@ const SharedAnalysis: React.FC = () => {
       }
     };
     fetchAnalysis();
-  }, [id]);
+  }, [id, userId]);
 
   if (status === "loading") {
     return (
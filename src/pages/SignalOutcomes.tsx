@@ -0,0 +1,243 @@
+import React, { useMemo, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import Header from '@/components/Header';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Tabs, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { AlertTriangle, Loader2, RefreshCw, Target } from 'lucide-react';
+import { useAuth } from '@/contexts/AuthContext';
+import { useSignalOutcomes } from '@/hooks/useSignalOutcomes';
+import OutcomeRollupTable from '@/components/analysis/OutcomeRollupTable';
+import ConfidenceCalibrationTable from '@/components/analysis/ConfidenceCalibrationTable';
+import { OutcomeDimension, OutcomeFirstHit, SignalOutcome } from '@/types/signalOutcomes';
+import { SignalBias } from '@/utils/analysisSummary';
+import {
+  OUTCOME_HORIZONS,
+  buildConfidenceCalibration,
+  formatOutcomePct,
+  getIntervalLabel,
+  outcomePctClass,
+  summarizeOutcomeGroup,
+  summarizeOutcomes
+} from '@/utils/signalOutcomes';
+
+const DIMENSION_LABELS: Record<OutcomeDimension, string> = {
+  signal: 'Signal',
+  sector: 'Sector',
+  timeframe: 'Timeframe'
+};
+
+const BIAS_CLASSES: Record<SignalBias, string> = {
+  bullish: 'bg-emerald-100 text-emerald-800 border-emerald-200',
+  bearish: 'bg-red-100 text-red-800 border-red-200',
+  neutral: 'bg-gray-100 text-gray-700 border-gray-200'
+};
+
+const HIT_LABELS: Record<OutcomeFirstHit, string> = {
+  target: 'Target',
+  stop: 'Stop',
+  both: 'Stop (same bar)',
+  none: 'Neither'
+};
+
+const HIT_CLASSES: Record<OutcomeFirstHit, string> = {
+  target: 'bg-emerald-100 text-emerald-800 border-emerald-200',
+  stop: 'bg-red-100 text-red-800 border-red-200',
+  both: 'bg-red-100 text-red-800 border-red-200',
+  none: 'bg-gray-100 text-gray-600 border-gray-200'
+};
+
+const RECENT_ROWS = 50;
+
+const formatPrice = (value: number | null): string => (value === null ? '—' : value.toFixed(2));
+
+const SignalOutcomes = () => {
+  const { user } = useAuth();
+  const navigate = useNavigate();
+  const { outcomes, isScoring, progress, error, rescore } = useSignalOutcomes(user?.id);
+  const [dimension, setDimension] = useState<OutcomeDimension>('signal');
+
+  const overall = useMemo(() => summarizeOutcomeGroup('All', outcomes), [outcomes]);
+  const groups = useMemo(() => summarizeOutcomes(outcomes, dimension), [outcomes, dimension]);
+  const calibration = useMemo(() => buildConfidenceCalibration(outcomes), [outcomes]);
+  const recent = useMemo(
+    () => [...outcomes].sort((a, b) => b.analysisTime - a.analysisTime).slice(0, RECENT_ROWS),
+    [outcomes]
+  );
+  const openCount = outcomes.filter(outcome => outcome.status === 'open').length;
+  const unscorableCount = outcomes.filter(outcome => outcome.status === 'unscorable').length;
+
+  const renderHit = (outcome: SignalOutcome) => {
+    if (outcome.status === 'unscorable') {
+      return <span className="text-xs text-gray-400" title={outcome.reason || undefined}>Unscorable</span>;
+    }
+    if (outcome.direction === 'flat') return <span className="text-xs text-gray-400">No direction</span>;
+    if (outcome.stopLoss === null && outcome.target === null) return <span className="text-xs text-gray-400">No levels</span>;
+    return (
+      <Badge variant="outline" className={HIT_CLASSES[outcome.firstHit]}>
+        {HIT_LABELS[outcome.firstHit]}
+        {outcome.barsToHit !== null && <span className="ml-1 font-normal">· {outcome.barsToHit} bars</span>}
+      </Badge>
+    );
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-slate-50 via-blue-50 to-indigo-50">
+      <Header />
+
+      <div className="container mx-auto px-4 py-8 space-y-6">
+        <div className="flex flex-wrap items-end justify-between gap-4">
+          <div>
+            <h1 className="text-3xl font-bold text-gray-900">Signal Outcomes</h1>
+            <p className="text-gray-600 mt-1">
+              How your past analyses played out: whether the target or the stop came first, and the return over the next 1, 5 and 20 bars.
+            </p>
+          </div>
+          <Button variant="outline" onClick={rescore} disabled={isScoring}>
+            {isScoring ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <RefreshCw className="h-4 w-4 mr-2" />}
+            {isScoring && progress.total > 0 ? `Scoring ${progress.done}/${progress.total}` : 'Rescore'}
+          </Button>
+        </div>
+
+        {error && (
+          <div className="flex items-center gap-2 rounded-md border border-red-200 bg-red-50 p-3 text-sm text-red-700">
+            <AlertTriangle className="h-4 w-4" /> {error}
+          </div>
+        )}
+
+        <div className="grid grid-cols-2 gap-4 lg:grid-cols-4">
+          <Card>
+            <CardContent className="pt-6">
+              <p className="text-sm text-gray-500">Scored analyses</p>
+              <p className="text-2xl font-bold text-gray-900">{overall.total}</p>
+              <p className="text-xs text-gray-500">{openCount} still maturing{overall.neutral ? `, ${overall.neutral} neutral` : ''}{unscorableCount ? `, ${unscorableCount} unscorable` : ''}</p>
+            </CardContent>
+          </Card>
+          <Card>
+            <CardContent className="pt-6">
+              <p className="text-sm text-gray-500">Target before stop</p>
+              <p className="text-2xl font-bold text-gray-900">{formatOutcomePct(overall.hitRate, false)}</p>
+              <p className="text-xs text-gray-500">{overall.targetHits} of {overall.decided} decided</p>
+            </CardContent>
+          </Card>
+          <Card>
+            <CardContent className="pt-6">
+              <p className="text-sm text-gray-500">Avg 5-bar return</p>
+              <p className={`text-2xl font-bold ${outcomePctClass(overall.avgReturns[5])}`}>{formatOutcomePct(overall.avgReturns[5])}</p>
+              <p className="text-xs text-gray-500">In the signal's direction, neutral signals excluded</p>
+            </CardContent>
+          </Card>
+          <Card>
+            <CardContent className="pt-6">
+              <p className="text-sm text-gray-500">Avg MFE / MAE</p>
+              <p className="text-2xl font-bold">
+                <span className="text-emerald-700">{formatOutcomePct(overall.avgMfePct)}</span>
+                <span className="text-gray-400"> / </span>
+                <span className="text-red-700">{formatOutcomePct(overall.avgMaePct)}</span>
+              </p>
+              <p className="text-xs text-gray-500">Until the first hit, or 20 bars</p>
+            </CardContent>
+          </Card>
+        </div>
+
+        <Card>
+          <CardHeader className="flex flex-row flex-wrap items-start justify-between gap-3 space-y-0">
+            <div className="space-y-1.5">
+              <CardTitle className="flex items-center gap-2">
+                <Target className="h-5 w-5 text-emerald-600" />
+                Hit rate by {DIMENSION_LABELS[dimension].toLowerCase()}
+              </CardTitle>
+              <CardDescription>Same-bar target and stop hits count as stops. Returns are in the signal's direction.</CardDescription>
+            </div>
+            <Tabs value={dimension} onValueChange={(value) => setDimension(value as OutcomeDimension)}>
+              <TabsList>
+                {(Object.keys(DIMENSION_LABELS) as OutcomeDimension[]).map(key => (
+                  <TabsTrigger key={key} value={key}>{DIMENSION_LABELS[key]}</TabsTrigger>
+                ))}
+              </TabsList>
+            </Tabs>
+          </CardHeader>
+          <CardContent>
+            <OutcomeRollupTable groups={groups} groupLabel={DIMENSION_LABELS[dimension]} />
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Calibration by confidence</CardTitle>
+            <CardDescription>Stated confidence against how often the target was actually reached first.</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <ConfidenceCalibrationTable buckets={calibration} />
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Recent analyses</CardTitle>
+            <CardDescription>Open outcomes are rescored until 20 bars have passed.</CardDescription>
+          </CardHeader>
+          <CardContent>
+            {recent.length === 0 ? (
+              <p className="py-6 text-center text-sm text-gray-500">
+                {isScoring ? 'Scoring your analyses...' : 'No stored analyses to score yet.'}
+              </p>
+            ) : (
+              <div className="overflow-x-auto rounded-md border bg-white">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Analysis</TableHead>
+                      <TableHead>Signal</TableHead>
+                      <TableHead className="text-right">Entry</TableHead>
+                      <TableHead className="text-right">Stop</TableHead>
+                      <TableHead className="text-right">Target</TableHead>
+                      <TableHead>First hit</TableHead>
+                      <TableHead className="text-right">MFE</TableHead>
+                      <TableHead className="text-right">MAE</TableHead>
+                      {OUTCOME_HORIZONS.map(horizon => (
+                        <TableHead key={horizon} className="text-right">{horizon}b</TableHead>
+                      ))}
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {recent.map(outcome => (
+                      <TableRow key={outcome.analysisId} className="cursor-pointer" onClick={() => navigate(`/analysis/${outcome.analysisId}`)}>
+                        <TableCell>
+                          <div className="font-semibold text-gray-900">{outcome.symbol}</div>
+                          <div className="text-xs text-gray-500">
+                            {getIntervalLabel(outcome.interval)} · {new Date(outcome.analysisTime).toLocaleDateString('en-IN')}
+                            {outcome.status === 'open' && <span className="ml-1 text-blue-600">· {outcome.barsObserved} bars so far</span>}
+                          </div>
+                        </TableCell>
+                        <TableCell>
+                          <Badge variant="outline" className={BIAS_CLASSES[outcome.bias]}>{outcome.signal || 'Unknown'}</Badge>
+                          {outcome.confidence !== null && <span className="ml-1 text-xs text-gray-500">{Math.round(outcome.confidence)}%</span>}
+                        </TableCell>
+                        <TableCell className="text-right tabular-nums">{formatPrice(outcome.entryPrice)}</TableCell>
+                        <TableCell className="text-right tabular-nums">{formatPrice(outcome.stopLoss)}</TableCell>
+                        <TableCell className="text-right tabular-nums">{formatPrice(outcome.target)}</TableCell>
+                        <TableCell>{renderHit(outcome)}</TableCell>
+                        <TableCell className="text-right tabular-nums text-emerald-700">{formatOutcomePct(outcome.mfePct)}</TableCell>
+                        <TableCell className="text-right tabular-nums text-red-700">{formatOutcomePct(outcome.maePct)}</TableCell>
+                        {OUTCOME_HORIZONS.map(horizon => (
+                          <TableCell key={horizon} className={`text-right tabular-nums ${outcomePctClass(outcome.returns[horizon])}`}>
+                            {formatOutcomePct(outcome.returns[horizon])}
+                          </TableCell>
+                        ))}
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+};
+
+export default SignalOutcomes;
@@ -0,0 +1,191 @@
+import React, { useEffect, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import Header from '@/components/Header';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { StockSelector } from '@/components/ui/stock-selector';
+import { Check, Layers, Loader2, Pencil, Plus, Trash2, X } from 'lucide-react';
+import { useAuth } from '@/contexts/AuthContext';
+import { useWatchlistStore } from '@/stores/watchlistStore';
+import { useSelectedStockStore } from '@/stores/selectedStockStore';
+import { useLiveQuotes } from '@/hooks/useLiveQuotes';
+import { useLatestAnalysisSignals } from '@/hooks/useLatestAnalysisSignals';
+import WatchlistGrid from '@/components/watchlists/WatchlistGrid';
+
+const EMPTY_SYMBOLS: string[] = [];
+
+const Watchlists = () => {
+  const { user } = useAuth();
+  const navigate = useNavigate();
+  const setSelectedStock = useSelectedStockStore(state => state.setSelectedStock);
+
+  const lists = useWatchlistStore(state => state.lists);
+  const activeListId = useWatchlistStore(state => state.activeListId);
+  const isLoaded = useWatchlistStore(state => state.isLoaded);
+  const loadWatchlists = useWatchlistStore(state => state.loadWatchlists);
+  const setActiveList = useWatchlistStore(state => state.setActiveList);
+  const createList = useWatchlistStore(state => state.createList);
+  const renameList = useWatchlistStore(state => state.renameList);
+  const deleteList = useWatchlistStore(state => state.deleteList);
+  const addSymbol = useWatchlistStore(state => state.addSymbol);
+  const removeSymbol = useWatchlistStore(state => state.removeSymbol);
+  const moveSymbol = useWatchlistStore(state => state.moveSymbol);
+
+  const [newListName, setNewListName] = useState('');
+  const [renaming, setRenaming] = useState<string | null>(null);
+  const [symbolToAdd, setSymbolToAdd] = useState('');
+
+  useEffect(() => {
+    loadWatchlists(user?.id);
+  }, [user?.id, loadWatchlists]);
+
+  const activeList = lists.find(list => list.id === activeListId) ?? lists[0];
+  const symbols = activeList?.symbols ?? EMPTY_SYMBOLS;
+  const quotes = useLiveQuotes(symbols);
+  const signals = useLatestAnalysisSignals(symbols, user?.id);
+
+  const handleAddSymbol = (symbol: string) => {
+    setSymbolToAdd(symbol);
+    if (activeList && symbol) addSymbol(activeList.id, symbol);
+  };
+
+  const handleCreateList = (event: React.FormEvent) => {
+    event.preventDefault();
+    createList(newListName);
+    setNewListName('');
+  };
+
+  const handleRename = (event: React.FormEvent) => {
+    event.preventDefault();
+    if (activeList && renaming !== null) renameList(activeList.id, renaming);
+    setRenaming(null);
+  };
+
+  const openChart = (symbol: string) => {
+    setSelectedStock(symbol, 'manual');
+    navigate('/charts');
+  };
+
+  const startAnalysis = (symbol: string) => {
+    setSelectedStock(symbol, 'manual');
+    navigate('/analysis');
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-slate-50 via-blue-50 to-indigo-50">
+      <Header />
+
+      <div className="container mx-auto px-4 py-8 space-y-6">
+        <div>
+          <h1 className="text-3xl font-bold text-gray-900">Watchlists</h1>
+          <p className="text-gray-600 mt-1">Live quotes and your latest analysis for the stocks you follow.</p>
+        </div>
+
+        {!isLoaded ? (
+          <div className="flex items-center gap-2 text-gray-600">
+            <Loader2 className="h-4 w-4 animate-spin" /> Loading watchlists...
+          </div>
+        ) : (
+          <Card>
+            <CardHeader className="space-y-4">
+              {/* List tabs */}
+              <div className="flex flex-wrap items-center gap-2">
+                {lists.map(list => (
+                  <Button
+                    key={list.id}
+                    variant={list.id === activeList?.id ? 'default' : 'outline'}
+                    size="sm"
+                    onClick={() => {
+                      setActiveList(list.id);
+                      setRenaming(null);
+                    }}
+                  >
+                    {list.name}
+                    <span className="ml-1.5 text-xs opacity-70">{list.symbols.length}</span>
+                  </Button>
+                ))}
+                <form onSubmit={handleCreateList} className="flex items-center gap-1">
+                  <Input
+                    className="h-9 w-40"
+                    placeholder="New list name"
+                    value={newListName}
+                    onChange={(e) => setNewListName(e.target.value)}
+                  />
+                  <Button type="submit" variant="ghost" size="sm" className="h-9 w-9 p-0" title="Create watchlist">
+                    <Plus className="h-4 w-4" />
+                  </Button>
+                </form>
+              </div>
+
+              {activeList && (
+                <div className="flex flex-wrap items-end justify-between gap-4">
+                  <div>
+                    {renaming !== null ? (
+                      <form onSubmit={handleRename} className="flex items-center gap-1">
+                        <Input className="h-9 w-56" value={renaming} autoFocus onChange={(e) => setRenaming(e.target.value)} />
+                        <Button type="submit" variant="ghost" size="sm" className="h-9 w-9 p-0" title="Save name">
+                          <Check className="h-4 w-4" />
+                        </Button>
+                        <Button type="button" variant="ghost" size="sm" className="h-9 w-9 p-0" title="Cancel" onClick={() => setRenaming(null)}>
+                          <X className="h-4 w-4" />
+                        </Button>
+                      </form>
+                    ) : (
+                      <div className="flex items-center gap-1">
+                        <CardTitle>{activeList.name}</CardTitle>
+                        <Button variant="ghost" size="sm" className="h-8 w-8 p-0" title="Rename watchlist" onClick={() => setRenaming(activeList.name)}>
+                          <Pencil className="h-4 w-4" />
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          className="h-8 w-8 p-0"
+                          title="Delete watchlist"
+                          onClick={() => {
+                            if (window.confirm(`Delete the watchlist "${activeList.name}"?`)) deleteList(activeList.id);
+                          }}
+                        >
+                          <Trash2 className="h-4 w-4 text-red-600" />
+                        </Button>
+                      </div>
+                    )}
+                    <CardDescription>{activeList.symbols.length} symbols</CardDescription>
+                  </div>
+                  <div className="flex w-full max-w-xl items-end gap-2">
+                    <Button
+                      variant="outline"
+                      disabled={activeList.symbols.length === 0}
+                      onClick={() => navigate(`/analysis/batch?list=${activeList.id}`)}
+                    >
+                      <Layers className="h-4 w-4 mr-2" />
+                      Analyse all
+                    </Button>
+                    <div className="flex-1">
+                      <StockSelector value={symbolToAdd} onValueChange={handleAddSymbol} placeholder="Add a stock" label="Add symbol" />
+                    </div>
+                  </div>
+                </div>
+              )}
+            </CardHeader>
+            <CardContent>
+              {activeList && (
+                <WatchlistGrid
+                  symbols={symbols}
+                  quotes={quotes}
+                  signals={signals}
+                  onOpenChart={openChart}
+                  onAnalyze={startAnalysis}
+                  onRemove={(symbol) => removeSymbol(activeList.id, symbol)}
+                  onMove={(from, to) => moveSymbol(activeList.id, from, to)}
+                />
+              )}
+            </CardContent>
+          </Card>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default Watchlists;
@@ -0,0 +1,380 @@
+// Evaluates price alerts in the browser against the shared live stream.
+// Price-based alerts run on ticks; RSI / MACD alerts keep streaming indicators seeded from cached history.
+import { liveStreamManager, LiveStreamMessage } from './liveStreamManager';
+import { candleCacheService } from './candleCacheService';
+import { INTERVAL_MAPPING } from './liveDataService';
+import { AlertTimeframe, AlertTrigger, PriceAlert } from '@/types/alerts';
+import { AlertSnapshot, evaluateCondition } from '@/utils/alertConditions';
+import { StreamingMACD, StreamingRSI } from '@/utils/streamingIndicators';
+import { getISTDayKey } from '@/utils/candleResampler';
+
+// ===== TYPES & INTERFACES =====
+
+export type AlertTriggerListener = (trigger: AlertTrigger, alert: PriceAlert) => void;
+
+interface SymbolFeed {
+  symbol: string;
+  unsubscribe: () => void;
+  lastPrice: number | null;
+  previousClose: number | null;
+  previousCloseSession: number | null; // IST session the previous close was resolved for
+  isLoadingPreviousClose: boolean;
+}
+
+interface IndicatorStreams {
+  signature: string;
+  rsi?: StreamingRSI;
+  macd?: StreamingMACD;
+  rsiValue: number | null;
+  macdValue: { macd: number | null; signal: number | null } | null;
+}
+
+interface IndicatorFeed {
+  key: string;
+  symbol: string;
+  timeframe: AlertTimeframe;
+  unsubscribe: () => void;
+  isSeeded: boolean;
+  bars: { time: number; close: number }[];
+  streams: Map<string, IndicatorStreams>; // by alert id
+}
+
+interface AlertState {
+  signature: string;
+  wasActive: boolean | null; // null until the first evaluation, so existing conditions don't fire on load
+  lastFiredAt: number;
+}
+
+// ===== CONSTANTS =====
+
+// The daily stream is the lightest subscription; ticks are routed to every timeframe of a symbol
+const PRICE_STREAM_TIMEFRAME = '1day';
+// Days of history to warm up RSI / MACD per timeframe
+const SEED_HISTORY_DAYS: Record<AlertTimeframe, number> = {
+  '1m': 3,
+  '5m': 10,
+  '15m': 20,
+  '1h': 60,
+  '1d': 365
+};
+const MAX_FEED_BARS = 1000;
+// Repeating alerts hovering around their trigger point shouldn't fire on every tick
+const REPEAT_COOLDOWN_MS = 5 * 60 * 1000;
+
+// ===== UTILITY FUNCTIONS =====
+
+const parseTickPrice = (message: LiveStreamMessage): number | null => {
+  const tick = message.data && typeof message.data === 'object' ? message.data : message;
+  const price = parseFloat(tick.price || tick.close || tick.last_price || '0');
+  return price > 0 ? price : null;
+};
+
+const parseCandle = (message: LiveStreamMessage): { time: number; close: number } | null => {
+  const candle = message.data;
+  if (!candle || typeof candle.start !== 'number' || typeof candle.close !== 'number') return null;
+  return { time: candle.start, close: candle.close };
+};
+
+// Latest price carried by a tick or candle message on any stream
+export const getStreamMessagePrice = (message: LiveStreamMessage): number | null => {
+  if (message.type === 'tick') return parseTickPrice(message);
+  if (message.type === 'candle') return parseCandle(message)?.close ?? null;
+  return null;
+};
+
+const isIndicatorAlert = (alert: PriceAlert): boolean =>
+  alert.condition.type === 'rsi' || alert.condition.type === 'macd_cross';
+
+const getIndicatorFeedKey = (symbol: string, timeframe: string): string => `${symbol}|${timeframe}`;
+
+class AlertEngine {
+  private alerts: PriceAlert[] = [];
+  private symbolFeeds = new Map<string, SymbolFeed>();
+  private indicatorFeeds = new Map<string, IndicatorFeed>();
+  private states = new Map<string, AlertState>();
+  // One-shot alerts that fired but haven't been disabled by the store yet
+  private spent = new Set<string>();
+  private listeners = new Set<AlertTriggerListener>();
+
+  // Replace the watched alert set; subscriptions are added and dropped to match
+  setAlerts(alerts: PriceAlert[]): void {
+    this.alerts = alerts.filter(alert => alert.enabled);
+    const activeIds = new Set(this.alerts.map(alert => alert.id));
+
+    // Forget state of removed or edited alerts
+    this.states.forEach((state, id) => {
+      const alert = this.alerts.find(a => a.id === id);
+      if (!alert || state.signature !== JSON.stringify(alert.condition)) this.states.delete(id);
+    });
+    this.spent.forEach(id => {
+      if (!activeIds.has(id)) this.spent.delete(id);
+    });
+
+    this.syncSymbolFeeds();
+    this.syncIndicatorFeeds();
+  }
+
+  onTrigger(listener: AlertTriggerListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  getMonitoredSymbols(): string[] {
+    return Array.from(this.symbolFeeds.keys());
+  }
+
+  getLastPrice(symbol: string): number | null {
+    return this.symbolFeeds.get(symbol.toUpperCase())?.lastPrice ?? null;
+  }
+
+  stop(): void {
+    this.setAlerts([]);
+  }
+
+  // ===== SUBSCRIPTIONS =====
+
+  private syncSymbolFeeds(): void {
+    const needed = new Set(
+      this.alerts.filter(alert => !isIndicatorAlert(alert)).map(alert => alert.symbol.toUpperCase())
+    );
+
+    this.symbolFeeds.forEach((feed, symbol) => {
+      if (needed.has(symbol)) return;
+      feed.unsubscribe();
+      this.symbolFeeds.delete(symbol);
+    });
+
+    needed.forEach(symbol => {
+      if (this.symbolFeeds.has(symbol)) return;
+      const feed: SymbolFeed = {
+        symbol,
+        unsubscribe: () => undefined,
+        lastPrice: null,
+        previousClose: null,
+        previousCloseSession: null,
+        isLoadingPreviousClose: false
+      };
+      feed.unsubscribe = liveStreamManager.subscribe(symbol, PRICE_STREAM_TIMEFRAME, {
+        onMessage: message => {
+          const price = getStreamMessagePrice(message);
+          if (price === null) return;
+          feed.lastPrice = price;
+          this.evaluateSymbol(feed);
+        }
+      });
+      this.symbolFeeds.set(symbol, feed);
+    });
+  }
+
+  private syncIndicatorFeeds(): void {
+    const indicatorAlerts = this.alerts.filter(isIndicatorAlert);
+    const neededKeys = new Set<string>();
+
+    indicatorAlerts.forEach(alert => {
+      const condition = alert.condition as { timeframe: AlertTimeframe };
+      const symbol = alert.symbol.toUpperCase();
+      const key = getIndicatorFeedKey(symbol, condition.timeframe);
+      neededKeys.add(key);
+
+      let feed = this.indicatorFeeds.get(key);
+      if (!feed) {
+        feed = this.createIndicatorFeed(key, symbol, condition.timeframe);
+        this.indicatorFeeds.set(key, feed);
+      }
+
+      const signature = JSON.stringify(alert.condition);
+      if (feed.streams.get(alert.id)?.signature !== signature) {
+        const streams = this.createStreams(alert, signature);
+        // Late additions replay the bars the feed already holds
+        feed.bars.forEach(bar => this.updateStreams(streams, bar.close, 'append'));
+        feed.streams.set(alert.id, streams);
+      }
+    });
+
+    this.indicatorFeeds.forEach((feed, key) => {
+      if (!neededKeys.has(key)) {
+        feed.unsubscribe();
+        this.indicatorFeeds.delete(key);
+        return;
+      }
+      feed.streams.forEach((_, alertId) => {
+        if (!indicatorAlerts.some(alert => alert.id === alertId)) feed.streams.delete(alertId);
+      });
+    });
+  }
+
+  private createIndicatorFeed(key: string, symbol: string, timeframe: AlertTimeframe): IndicatorFeed {
+    const feed: IndicatorFeed = {
+      key,
+      symbol,
+      timeframe,
+      unsubscribe: () => undefined,
+      isSeeded: false,
+      bars: [],
+      streams: new Map()
+    };
+
+    const backendTimeframe = INTERVAL_MAPPING[timeframe];
+    feed.unsubscribe = liveStreamManager.subscribe(symbol, backendTimeframe, {
+      onMessage: message => {
+        // Updates before the seed lands would be replayed out of order
+        if (!feed.isSeeded || this.indicatorFeeds.get(key) !== feed) return;
+
+        if (message.type === 'candle') {
+          const candle = parseCandle(message);
+          if (candle) this.applyBar(feed, candle);
+        } else if (message.type === 'tick') {
+          // Ticks only move the forming bar; the next candle message opens the new one
+          const price = parseTickPrice(message);
+          const last = feed.bars[feed.bars.length - 1];
+          if (price !== null && last) this.applyBar(feed, { time: last.time, close: price });
+        }
+      }
+    });
+
+    candleCacheService
+      .getHistoricalData(symbol, timeframe, 'NSE', SEED_HISTORY_DAYS[timeframe])
+      .then(response => {
+        if (this.indicatorFeeds.get(key) !== feed) return;
+        const candles = [...(response.candles || [])].sort((a, b) => a.time - b.time);
+        feed.bars = candles.slice(-MAX_FEED_BARS).map(candle => ({ time: candle.time, close: candle.close }));
+        feed.streams.forEach(streams => {
+          feed.bars.forEach(bar => this.updateStreams(streams, bar.close, 'append'));
+        });
+        feed.isSeeded = true;
+        this.evaluateIndicatorFeed(feed);
+      })
+      .catch(error => {
+        console.warn(`⚠️ [alertEngine] Failed to seed ${key}, indicators warm up from live candles:`, error);
+        feed.isSeeded = true;
+      });
+
+    return feed;
+  }
+
+  // ===== INDICATORS =====
+
+  private createStreams(alert: PriceAlert, signature: string): IndicatorStreams {
+    const condition = alert.condition;
+    return {
+      signature,
+      rsi: condition.type === 'rsi' ? new StreamingRSI(condition.period) : undefined,
+      macd: condition.type === 'macd_cross' ? new StreamingMACD() : undefined,
+      rsiValue: null,
+      macdValue: null
+    };
+  }
+
+  private updateStreams(streams: IndicatorStreams, close: number, mode: 'append' | 'revise'): void {
+    if (streams.rsi) streams.rsiValue = streams.rsi[mode](close);
+    if (streams.macd) {
+      const { macd, signal } = streams.macd[mode](close);
+      streams.macdValue = { macd, signal };
+    }
+  }
+
+  private applyBar(feed: IndicatorFeed, bar: { time: number; close: number }): void {
+    const last = feed.bars[feed.bars.length - 1];
+    if (last && bar.time < last.time) return;
+
+    const mode = last && bar.time === last.time ? 'revise' : 'append';
+    if (mode === 'revise') {
+      last.close = bar.close;
+    } else {
+      feed.bars.push({ ...bar });
+      if (feed.bars.length > MAX_FEED_BARS) feed.bars.shift();
+    }
+    feed.streams.forEach(streams => this.updateStreams(streams, bar.close, mode));
+    this.evaluateIndicatorFeed(feed);
+  }
+
+  // ===== EVALUATION =====
+
+  private evaluateSymbol(feed: SymbolFeed): void {
+    if (feed.lastPrice === null) return;
+    const alerts = this.alerts.filter(alert => alert.symbol.toUpperCase() === feed.symbol && !isIndicatorAlert(alert));
+
+    if (alerts.some(alert => alert.condition.type === 'percent_move')) {
+      this.ensurePreviousClose(feed);
+    }
+
+    alerts.forEach(alert => this.evaluateAlert(alert, {
+      price: feed.lastPrice as number,
+      previousClose: feed.previousClose
+    }));
+  }
+
+  private evaluateIndicatorFeed(feed: IndicatorFeed): void {
+    const last = feed.bars[feed.bars.length - 1];
+    if (!last) return;
+
+    feed.streams.forEach((streams, alertId) => {
+      const alert = this.alerts.find(a => a.id === alertId);
+      if (!alert) return;
+      this.evaluateAlert(alert, { price: last.close, rsi: streams.rsiValue, macd: streams.macdValue });
+    });
+  }
+
+  private evaluateAlert(alert: PriceAlert, snapshot: AlertSnapshot): void {
+    if (this.spent.has(alert.id)) return;
+    const result = evaluateCondition(alert.condition, snapshot);
+    if (!result) return;
+
+    const signature = JSON.stringify(alert.condition);
+    const state = this.states.get(alert.id) ?? { signature, wasActive: null, lastFiredAt: 0 };
+    const becameActive = state.wasActive === false && result.active;
+    state.wasActive = result.active;
+    this.states.set(alert.id, state);
+
+    if (!becameActive) return;
+    if (alert.repeat && Date.now() - state.lastFiredAt < REPEAT_COOLDOWN_MS) return;
+
+    state.lastFiredAt = Date.now();
+    if (!alert.repeat) this.spent.add(alert.id);
+
+    const trigger: AlertTrigger = {
+      id: `trigger-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 7)}`,
+      alertId: alert.id,
+      symbol: alert.symbol,
+      message: result.message,
+      price: snapshot.price,
+      triggeredAt: new Date().toISOString()
+    };
+    this.listeners.forEach(listener => {
+      try {
+        listener(trigger, alert);
+      } catch (error) {
+        console.warn('⚠️ [alertEngine] Trigger listener failed:', error);
+      }
+    });
+  }
+
+  // Previous session close from daily history, re-resolved when the session rolls over
+  private ensurePreviousClose(feed: SymbolFeed): void {
+    const session = getISTDayKey(Date.now() / 1000);
+    if (feed.isLoadingPreviousClose || feed.previousCloseSession === session) return;
+
+    feed.isLoadingPreviousClose = true;
+    candleCacheService
+      .getHistoricalData(feed.symbol, '1d', 'NSE', 10)
+      .then(response => {
+        const previous = [...(response.candles || [])]
+          .sort((a, b) => a.time - b.time)
+          .filter(candle => getISTDayKey(candle.time) < session)
+          .pop();
+        feed.previousClose = previous ? previous.close : null;
+      })
+      .catch(error => {
+        console.warn(`⚠️ [alertEngine] Failed to load previous close for ${feed.symbol}:`, error);
+      })
+      .finally(() => {
+        // Failures aren't retried per tick; the next session tries again
+        feed.previousCloseSession = session;
+        feed.isLoadingPreviousClose = false;
+      });
+  }
+}
+
+export const alertEngine = new AlertEngine();
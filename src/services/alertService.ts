@@ -0,0 +1,75 @@
+import { AlertTrigger, PriceAlert } from '@/types/alerts';
+import { profilePreferencesService } from './profilePreferencesService';
+
+// Alert definitions live in profiles.preferences.price_alerts so they follow the user across devices;
+// localStorage mirrors them for instant startup. Trigger history is per device and stays local.
+const PREFERENCES_KEY = 'price_alerts';
+const ALERTS_PREFIX = 'priceAlerts';
+const HISTORY_PREFIX = 'priceAlertHistory';
+const MAX_HISTORY = 200;
+
+class AlertService {
+  async loadAlerts(userId: string | null | undefined): Promise<PriceAlert[]> {
+    const local = this.readLocal<PriceAlert>(this.getKey(ALERTS_PREFIX, userId));
+    if (!userId) return local ?? [];
+
+    try {
+      const remote = await profilePreferencesService.getKey(userId, PREFERENCES_KEY);
+      if (Array.isArray(remote)) {
+        this.writeLocal(this.getKey(ALERTS_PREFIX, userId), remote);
+        return remote as unknown as PriceAlert[];
+      }
+    } catch (error) {
+      console.warn('⚠️ [alertService] Failed to load alerts, using local copy:', error);
+    }
+    return local ?? [];
+  }
+
+  async saveAlerts(userId: string | null | undefined, alerts: PriceAlert[]): Promise<void> {
+    this.writeLocal(this.getKey(ALERTS_PREFIX, userId), alerts);
+    if (!userId) return;
+
+    await profilePreferencesService.updateKey(userId, PREFERENCES_KEY, alerts);
+  }
+
+  loadHistory(userId: string | null | undefined): AlertTrigger[] {
+    return this.readLocal<AlertTrigger>(this.getKey(HISTORY_PREFIX, userId)) ?? [];
+  }
+
+  // Newest first, capped so a noisy alert can't grow storage without bound
+  saveHistory(userId: string | null | undefined, history: AlertTrigger[]): AlertTrigger[] {
+    const capped = history.slice(0, MAX_HISTORY);
+    this.writeLocal(this.getKey(HISTORY_PREFIX, userId), capped);
+    return capped;
+  }
+
+  private getKey(prefix: string, userId: string | null | undefined): string {
+    return `${prefix}:${userId || 'anonymous'}`;
+  }
+
+  private readLocal<T>(key: string): T[] | null {
+    try {
+      const stored = localStorage.getItem(key);
+      if (!stored) return null;
+      const parsed = JSON.parse(stored);
+      return Array.isArray(parsed) ? parsed : null;
+    } catch (error) {
+      console.warn(`⚠️ [alertService] Failed to read ${key}:`, error);
+      return null;
+    }
+  }
+
+  private writeLocal<T>(key: string, items: T[]): void {
+    try {
+      if (items.length > 0) {
+        localStorage.setItem(key, JSON.stringify(items));
+      } else {
+        localStorage.removeItem(key);
+      }
+    } catch (error) {
+      console.warn(`⚠️ [alertService] Failed to write ${key}:`, error);
+    }
+  }
+}
+
+export const alertService = new AlertService();
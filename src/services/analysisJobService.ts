@@ -0,0 +1,170 @@
+import { AnalysisJob } from '@/types/analysisJobs';
+
+// Jobs are per device: they only exist to bridge the gap until the backend has stored the analysis
+const JOBS_PREFIX = 'analysisJobs';
+// Pre-job tracking wrote bare running items here; they are converted once and removed
+const LEGACY_RUNNING_KEY = 'runningAnalyses_v1';
+// Finished jobs stay visible for a while, then the stored analysis list takes over
+const FINISHED_RETENTION_MS = 24 * 60 * 60 * 1000;
+// Tabs share the job list, so a tab claims a job before sending it and renews the claim while it holds it
+const CLAIMS_KEY = 'analysisJobClaims';
+export const CLAIM_HEARTBEAT_MS = 10000;
+// A claim not renewed for this long belongs to a closed tab
+const CLAIM_TTL_MS = 30000;
+
+interface JobClaim {
+  owner: string; // Tab id
+  heartbeatAt: number;
+}
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+export const createAnalysisJobId = (): string =>
+  `job-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 7)}`;
+
+// Identifies this page load in job claims
+const TAB_ID = `tab-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 7)}`;
+
+class AnalysisJobService {
+  loadJobs(userId: string | null | undefined): AnalysisJob[] {
+    const jobs = this.readLocal(this.getKey(userId)) ?? [];
+    const migrated = this.migrateLegacy();
+    const now = Date.now();
+    const merged = [...migrated, ...jobs].filter(
+      job => !job.finishedAt || now - job.finishedAt < FINISHED_RETENTION_MS
+    );
+    if (migrated.length > 0) this.saveJobs(userId, merged);
+    return merged;
+  }
+
+  saveJobs(userId: string | null | undefined, jobs: AnalysisJob[]): void {
+    const key = this.getKey(userId);
+    try {
+      if (jobs.length > 0) {
+        localStorage.setItem(key, JSON.stringify(jobs));
+      } else {
+        localStorage.removeItem(key);
+      }
+    } catch (error) {
+      console.warn(`⚠️ [analysisJobService] Failed to write ${key}:`, error);
+    }
+  }
+
+  // True when this tab owns the job afterwards: it was unclaimed, its owner stopped renewing, or it was ours
+  claimJob(jobId: string): boolean {
+    const claims = this.readClaims();
+    const claim = claims[jobId];
+    if (claim && claim.owner !== TAB_ID) return false;
+    claims[jobId] = { owner: TAB_ID, heartbeatAt: Date.now() };
+    this.writeClaims(claims);
+    // Two tabs claiming in the same instant both write; only the last writer reads its own id back
+    return this.readClaims()[jobId]?.owner === TAB_ID;
+  }
+
+  renewClaims(jobIds: string[]): void {
+    const claims = this.readClaims();
+    const now = Date.now();
+    jobIds.forEach(jobId => {
+      if (!claims[jobId] || claims[jobId].owner === TAB_ID) claims[jobId] = { owner: TAB_ID, heartbeatAt: now };
+    });
+    this.writeClaims(claims);
+  }
+
+  releaseJobs(jobIds: string[]): void {
+    const claims = this.readClaims();
+    jobIds.forEach(jobId => {
+      if (claims[jobId]?.owner === TAB_ID) delete claims[jobId];
+    });
+    this.writeClaims(claims);
+  }
+
+  // Storage key for the user's jobs, so other tabs can listen for changes
+  getKey(userId: string | null | undefined): string {
+    return `${JOBS_PREFIX}:${userId || 'anonymous'}`;
+  }
+
+  private readLocal(key: string): AnalysisJob[] | null {
+    try {
+      const stored = localStorage.getItem(key);
+      if (!stored) return null;
+      const parsed = JSON.parse(stored);
+      return Array.isArray(parsed) ? parsed.filter(job => isRecord(job) && typeof job.id === 'string') : null;
+    } catch (error) {
+      console.warn(`⚠️ [analysisJobService] Failed to read ${key}:`, error);
+      return null;
+    }
+  }
+
+  // Expired claims are dropped on read
+  private readClaims(): Record<string, JobClaim> {
+    try {
+      const stored = localStorage.getItem(CLAIMS_KEY);
+      const parsed = stored ? JSON.parse(stored) : {};
+      if (!isRecord(parsed)) return {};
+      const now = Date.now();
+      const claims: Record<string, JobClaim> = {};
+      Object.entries(parsed).forEach(([jobId, claim]) => {
+        if (isRecord(claim) && typeof claim.owner === 'string' && typeof claim.heartbeatAt === 'number' &&
+          now - claim.heartbeatAt < CLAIM_TTL_MS) {
+          claims[jobId] = { owner: claim.owner, heartbeatAt: claim.heartbeatAt };
+        }
+      });
+      return claims;
+    } catch (error) {
+      console.warn(`⚠️ [analysisJobService] Failed to read ${CLAIMS_KEY}:`, error);
+      return {};
+    }
+  }
+
+  private writeClaims(claims: Record<string, JobClaim>): void {
+    try {
+      if (Object.keys(claims).length > 0) {
+        localStorage.setItem(CLAIMS_KEY, JSON.stringify(claims));
+      } else {
+        localStorage.removeItem(CLAIMS_KEY);
+      }
+    } catch (error) {
+      console.warn(`⚠️ [analysisJobService] Failed to write ${CLAIMS_KEY}:`, error);
+    }
+  }
+
+  // Old items have no request payload, so they can be reconciled but not retried
+  private migrateLegacy(): AnalysisJob[] {
+    try {
+      const stored = localStorage.getItem(LEGACY_RUNNING_KEY);
+      if (!stored) return [];
+      localStorage.removeItem(LEGACY_RUNNING_KEY);
+      const parsed = JSON.parse(stored);
+      if (!Array.isArray(parsed)) return [];
+
+      return parsed.filter(isRecord).map((item): AnalysisJob => {
+        const startedAt = typeof item.startedAt === 'number' ? item.startedAt : Date.now();
+        const stock = String(item.stock || '').toUpperCase();
+        return {
+          id: typeof item.id === 'string' ? item.id : createAnalysisJobId(),
+          stock,
+          exchange: String(item.exchange || 'NSE'),
+          period: Number(item.period) || 0,
+          interval: String(item.interval || ''),
+          sector: typeof item.sector === 'string' ? item.sector : null,
+          endDate: null,
+          request: null,
+          status: 'running',
+          attempts: 1,
+          submittedAt: startedAt,
+          startedAt,
+          finishedAt: null,
+          analysisId: null,
+          error: null,
+          acknowledged: false
+        };
+      });
+    } catch (error) {
+      console.warn('⚠️ [analysisJobService] Failed to migrate running analyses:', error);
+      return [];
+    }
+  }
+}
+
+export const analysisJobService = new AnalysisJobService();
@@ -0,0 +1,232 @@
+// Local mirror of the user's stored analyses backed by IndexedDB
+// History lists, search and report pages read from here first, so they open instantly and keep
+// working while the database service is cold or down. Synced incrementally by created_at.
+import { apiService } from './api';
+import { openDatabase, promisifyRequest, transactionDone } from '@/utils/indexedDb';
+import { toMirroredAnalysis } from '@/utils/analysisSearch';
+import { AnalysisMirrorState, MirroredAnalysis } from '@/types/analysisMirror';
+
+// ===== CONSTANTS =====
+
+const DB_NAME = 'stock-analyzer-analyses';
+const DB_VERSION = 1;
+const ANALYSIS_STORE = 'analyses';
+const STATE_STORE = 'sync_state';
+const USER_INDEX = 'user_id';
+
+const SYNC_PAGE_SIZE = 50;
+// A first sync stops after this many pages; older analyses are mirrored as the history list pages through them
+const MAX_SYNC_PAGES = 10;
+// Oldest analyses beyond this are dropped from the mirror
+const MAX_ANALYSES_PER_USER = 1000;
+
+// ===== UTILITY FUNCTIONS =====
+
+const toTime = (iso: string | null | undefined): number => {
+  const time = iso ? Date.parse(iso) : NaN;
+  return Number.isFinite(time) ? time : 0;
+};
+
+const newestFirst = (a: MirroredAnalysis, b: MirroredAnalysis) => toTime(b.created_at) - toTime(a.created_at);
+
+class AnalysisMirrorService {
+  private dbPromise: Promise<IDBDatabase | null> | null = null;
+  private syncs = new Map<string, Promise<AnalysisMirrorState | null>>();
+
+  // Mirrored analyses for a user, newest first; empty when IndexedDB is unavailable
+  async getAnalyses(userId: string): Promise<MirroredAnalysis[]> {
+    const db = await this.getDb();
+    if (!db) return [];
+
+    try {
+      const transaction = db.transaction(ANALYSIS_STORE, 'readonly');
+      const index = transaction.objectStore(ANALYSIS_STORE).index(USER_INDEX);
+      const records = await promisifyRequest(index.getAll(userId) as IDBRequest<MirroredAnalysis[]>);
+      return records.sort(newestFirst);
+    } catch (error) {
+      console.warn('⚠️ [analysisMirrorService] Failed to read analyses:', error);
+      return [];
+    }
+  }
+
+  // Serves only the viewer's own analyses and shared ones stored without an owner; userId is null when signed out
+  async getAnalysis(analysisId: string, userId: string | null): Promise<MirroredAnalysis | null> {
+    const record = await this.readAnalysis(analysisId);
+    return record && (record.user_id === null || record.user_id === userId) ? record : null;
+  }
+
+  async getState(userId: string): Promise<AnalysisMirrorState | null> {
+    const db = await this.getDb();
+    if (!db) return null;
+
+    try {
+      const transaction = db.transaction(STATE_STORE, 'readonly');
+      const state = await promisifyRequest(transaction.objectStore(STATE_STORE).get(userId) as IDBRequest<AnalysisMirrorState | undefined>);
+      return state || null;
+    } catch (error) {
+      console.warn('⚠️ [analysisMirrorService] Failed to read sync state:', error);
+      return null;
+    }
+  }
+
+  // Mirror rows as the database service returns them ({ id, stock_symbol, created_at, analysis_data }).
+  // Without a user (shared links) an analysis already mirrored for a user stays in that user's list.
+  async putAnalyses(userId: string | null, rows: any[]): Promise<void> {
+    let records = rows.filter(row => row?.id && row.analysis_data).map(row => toMirroredAnalysis(row, userId));
+    if (records.length === 0) return;
+    const db = await this.getDb();
+    if (!db) return;
+
+    if (!userId) {
+      const existing = await Promise.all(records.map(record => this.readAnalysis(record.id)));
+      records = records.map((record, index) => ({ ...record, user_id: existing[index]?.user_id ?? null }));
+    }
+
+    try {
+      const transaction = db.transaction(ANALYSIS_STORE, 'readwrite');
+      const store = transaction.objectStore(ANALYSIS_STORE);
+      records.forEach(record => store.put(record));
+      await transactionDone(transaction);
+      if (userId) await this.evictIfNeeded(db, userId);
+    } catch (error) {
+      // Quota errors end up here - the mirror is only a cache
+      console.warn('⚠️ [analysisMirrorService] Failed to store analyses:', error);
+    }
+  }
+
+  // Fetches analyses newer than the last one mirrored. Concurrent calls for a user share one sync;
+  // resolves to null when IndexedDB is unavailable.
+  sync(userId: string): Promise<AnalysisMirrorState | null> {
+    const running = this.syncs.get(userId);
+    if (running) return running;
+
+    const promise = this.runSync(userId).finally(() => this.syncs.delete(userId));
+    this.syncs.set(userId, promise);
+    return promise;
+  }
+
+  // Remove a user's mirror, or everything when no user is given (e.g. on sign-out)
+  async clear(userId?: string): Promise<void> {
+    const db = await this.getDb();
+    if (!db) return;
+
+    try {
+      const transaction = db.transaction([ANALYSIS_STORE, STATE_STORE], 'readwrite');
+      const analysisStore = transaction.objectStore(ANALYSIS_STORE);
+      const stateStore = transaction.objectStore(STATE_STORE);
+
+      if (userId) {
+        const keys = await promisifyRequest(analysisStore.index(USER_INDEX).getAllKeys(userId));
+        keys.forEach(key => analysisStore.delete(key));
+        stateStore.delete(userId);
+      } else {
+        analysisStore.clear();
+        stateStore.clear();
+      }
+
+      await transactionDone(transaction);
+    } catch (error) {
+      console.warn('⚠️ [analysisMirrorService] Failed to clear mirror:', error);
+    }
+  }
+
+  private async readAnalysis(analysisId: string): Promise<MirroredAnalysis | null> {
+    const db = await this.getDb();
+    if (!db) return null;
+
+    try {
+      const transaction = db.transaction(ANALYSIS_STORE, 'readonly');
+      const record = await promisifyRequest(transaction.objectStore(ANALYSIS_STORE).get(analysisId) as IDBRequest<MirroredAnalysis | undefined>);
+      return record || null;
+    } catch (error) {
+      console.warn(`⚠️ [analysisMirrorService] Failed to read analysis ${analysisId}:`, error);
+      return null;
+    }
+  }
+
+  private getDb(): Promise<IDBDatabase | null> {
+    if (!this.dbPromise) {
+      const dbPromise = openDatabase(
+        DB_NAME,
+        DB_VERSION,
+        db => {
+          if (!db.objectStoreNames.contains(ANALYSIS_STORE)) {
+            const store = db.createObjectStore(ANALYSIS_STORE, { keyPath: 'id' });
+            store.createIndex(USER_INDEX, 'user_id', { unique: false });
+          }
+          if (!db.objectStoreNames.contains(STATE_STORE)) {
+            db.createObjectStore(STATE_STORE, { keyPath: 'userId' });
+          }
+        },
+        // Reopened on the next call instead of failing every transaction until reload
+        () => {
+          if (this.dbPromise === dbPromise) this.dbPromise = null;
+        }
+      );
+      this.dbPromise = dbPromise;
+    }
+    return this.dbPromise;
+  }
+
+  private async runSync(userId: string): Promise<AnalysisMirrorState | null> {
+    const db = await this.getDb();
+    if (!db) return null;
+
+    const previous = await this.getState(userId);
+    const knownTime = toTime(previous?.latestCreatedAt);
+    const fetched: any[] = [];
+    let lastError: string | null = null;
+
+    try {
+      // Pages come newest first; stop at the first page that reaches what we already have
+      for (let page = 0; page < MAX_SYNC_PAGES; page++) {
+        const response = await apiService.getUserAnalyses(userId, SYNC_PAGE_SIZE, page * SYNC_PAGE_SIZE);
+        const rows = response.success && Array.isArray(response.analyses) ? response.analyses : [];
+        const fresh = knownTime > 0 ? rows.filter(row => toTime(row.created_at) > knownTime) : rows;
+        fetched.push(...fresh);
+        if (rows.length < SYNC_PAGE_SIZE || fresh.length < rows.length) break;
+      }
+    } catch (error) {
+      console.warn(`⚠️ [analysisMirrorService] Sync for ${userId} stopped, keeping the local mirror:`, error);
+      lastError = error instanceof Error ? error.message : 'Database service unreachable';
+    }
+
+    await this.putAnalyses(userId, fetched);
+
+    const latestFetched = fetched.reduce<string | null>(
+      (latest, row) => (toTime(row.created_at) > toTime(latest) ? row.created_at : latest),
+      null
+    );
+    const state: AnalysisMirrorState = {
+      userId,
+      count: (await this.getAnalyses(userId)).length,
+      // A sync cut short may have skipped older pages, so only a complete one moves the marker
+      latestCreatedAt: !lastError && toTime(latestFetched) > knownTime ? latestFetched : previous?.latestCreatedAt ?? null,
+      lastSyncedAt: lastError ? previous?.lastSyncedAt ?? null : Date.now(),
+      lastError
+    };
+
+    try {
+      const transaction = db.transaction(STATE_STORE, 'readwrite');
+      transaction.objectStore(STATE_STORE).put(state);
+      await transactionDone(transaction);
+    } catch (error) {
+      console.warn('⚠️ [analysisMirrorService] Failed to store sync state:', error);
+    }
+
+    return state;
+  }
+
+  // Drop the oldest analyses until the user's mirror fits the budget
+  private async evictIfNeeded(db: IDBDatabase, userId: string): Promise<void> {
+    const records = await this.getAnalyses(userId);
+    if (records.length <= MAX_ANALYSES_PER_USER) return;
+
+    const transaction = db.transaction(ANALYSIS_STORE, 'readwrite');
+    const store = transaction.objectStore(ANALYSIS_STORE);
+    records.slice(MAX_ANALYSES_PER_USER).forEach(record => store.delete(record.id));
+    await transactionDone(transaction);
+  }
+}
+
+export const analysisMirrorService = new AnalysisMirrorService();
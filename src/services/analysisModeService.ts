@@ -0,0 +1,52 @@
+// Remembers which analysis mode produced each stored run. The mode is also sent with the request so the
+// backend can persist it; this device-local record covers runs the backend stored without it.
+import { StoredAnalysisMode } from '@/types/analysis';
+import { DEFAULT_ANALYSIS_MODE, isIndicatorSnapshot, isStoredAnalysisMode } from '@/utils/analysisModes';
+
+// ===== CONSTANTS =====
+
+const MODES_KEY = 'analysisModes';
+const MAX_RECORDS = 500;
+
+interface ModeRecord {
+  analysisId: string;
+  mode: StoredAnalysisMode;
+}
+
+class AnalysisModeService {
+  recordMode(analysisId: string | null | undefined, mode: StoredAnalysisMode): void {
+    if (!analysisId) return;
+    const records = this.readRecords().filter(record => record.analysisId !== analysisId);
+    records.unshift({ analysisId, mode });
+    try {
+      localStorage.setItem(MODES_KEY, JSON.stringify(records.slice(0, MAX_RECORDS)));
+    } catch (error) {
+      console.warn('⚠️ [analysisModeService] Failed to record analysis mode:', error);
+    }
+  }
+
+  // Mode persisted with the stored analysis first, then the local record, then the historic default
+  getMode(analysisId: string | null | undefined, analysisData?: any): StoredAnalysisMode {
+    if (isIndicatorSnapshot(analysisData)) return 'indicator_snapshot';
+    const stored = analysisData?.analysis_mode ?? analysisData?.results?.analysis_mode ?? analysisData?.metadata?.analysis_mode;
+    if (isStoredAnalysisMode(stored)) return stored;
+    if (analysisId) {
+      const record = this.readRecords().find(candidate => candidate.analysisId === analysisId);
+      if (record) return record.mode;
+    }
+    return DEFAULT_ANALYSIS_MODE;
+  }
+
+  private readRecords(): ModeRecord[] {
+    try {
+      const stored = localStorage.getItem(MODES_KEY);
+      const parsed = stored ? JSON.parse(stored) : [];
+      return Array.isArray(parsed) ? parsed.filter(record => record && isStoredAnalysisMode(record.mode)) : [];
+    } catch (error) {
+      console.warn('⚠️ [analysisModeService] Failed to read analysis modes:', error);
+      return [];
+    }
+  }
+}
+
+export const analysisModeService = new AnalysisModeService();
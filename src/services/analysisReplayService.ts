@@ -0,0 +1,259 @@
+// Walk-forward replay runner: re-runs the enhanced analysis for one symbol with end_date set to
+// each date in a series, so the pipeline's calls can be audited across a regime. Series are kept
+// per device; the analyses themselves are stored by the backend like any other.
+import { apiService } from './api';
+import { AnalysisRequestItemPatch, AnalysisRequestRunner, cancelPendingItems, createId, isPending } from './analysisRequestRunner';
+import { AnalysisResponse } from '@/types/analysis';
+import { ReplayPoint, ReplaySeries, ReplaySettings } from '@/types/analysisReplay';
+import { MAX_REPLAY_POINTS } from '@/utils/analysisReplay';
+
+// ===== TYPES & INTERFACES =====
+
+export type ReplayListener = (series: ReplaySeries[]) => void;
+
+export interface ReplayStartOptions {
+  email?: string; // Backend maps the request to the user by email
+}
+
+// ===== CONSTANTS =====
+
+const REPLAY_PREFIX = 'analysisReplays';
+// Same as a default batch; later points may finish before earlier ones
+const REPLAY_CONCURRENCY = 2;
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const hasPendingPoints = (series: ReplaySeries): boolean => series.points.some(isPending);
+
+// ===== RUNNER =====
+
+class AnalysisReplayRunner {
+  private userId: string | null = null;
+  private isLoaded = false;
+  private series: ReplaySeries[] = [];
+  private options: ReplayStartOptions = {};
+  private listeners = new Set<ReplayListener>();
+  private sectors = new Map<string, string | null>();
+  private runner = new AnalysisRequestRunner<ReplayPoint>({
+    source: 'analysisReplayService',
+    getRunnable: seriesId => {
+      const series = this.series.find(candidate => candidate.id === seriesId);
+      if (!series || series.paused || series.cancelled) return null;
+      return { items: series.points, concurrency: REPLAY_CONCURRENCY };
+    },
+    patchItem: (seriesId, pointId, patch) => this.patchPoint(seriesId, pointId, patch),
+    request: (seriesId, point, signal) => this.request(seriesId, point, signal)
+  });
+
+  // Requests from a previous page load are gone, so their points wait for an explicit resume
+  load(userId: string | null | undefined): void {
+    const id = userId || null;
+    if (this.isLoaded && this.userId === id) return;
+    // Switching users leaves nothing of the previous user's replays in flight
+    this.runner.abortAll();
+
+    this.userId = id;
+    this.isLoaded = true;
+    this.series = this.readLocal().map(series =>
+      hasPendingPoints(series)
+        ? {
+            ...series,
+            paused: true,
+            points: series.points.map(point =>
+              point.status === 'running' || point.status === 'retrying' ? { ...point, status: 'queued', nextRetryAt: null } : point
+            )
+          }
+        : series
+    );
+    this.emit();
+  }
+
+  getSeries(): ReplaySeries[] {
+    return this.series;
+  }
+
+  subscribe(listener: ReplayListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  // The series currently sending requests, if any
+  getActiveSeries(): ReplaySeries | null {
+    return this.series.find(series => !series.paused && !series.cancelled && hasPendingPoints(series)) ?? null;
+  }
+
+  start(settings: ReplaySettings, dates: string[], options: ReplayStartOptions = {}): ReplaySeries {
+    if (this.getActiveSeries()) {
+      throw new Error('A replay is already running - pause or cancel it before starting another');
+    }
+    if (dates.length === 0) throw new Error('The date range has no replay dates');
+    if (dates.length > MAX_REPLAY_POINTS) throw new Error(`A replay can hold at most ${MAX_REPLAY_POINTS} dates`);
+
+    this.options = options;
+    const series: ReplaySeries = {
+      id: createId('replay'),
+      createdAt: Date.now(),
+      settings: { ...settings, symbol: settings.symbol.trim().toUpperCase() },
+      points: dates.map(endDate => ({
+        id: createId('replay-point'),
+        endDate,
+        status: 'queued',
+        attempts: 0,
+        startedAt: null,
+        finishedAt: null,
+        nextRetryAt: null,
+        error: null,
+        result: null
+      })),
+      paused: false,
+      cancelled: false
+    };
+    this.setSeries([series, ...this.series]);
+    this.runner.pump(series.id);
+    return series;
+  }
+
+  // Running analyses finish; nothing new starts until resume
+  pause(seriesId: string): void {
+    this.patchSeries(seriesId, { paused: true });
+  }
+
+  // Also restarts cancelled and failed points, so a stopped series can be completed later
+  resume(seriesId: string, options: ReplayStartOptions = this.options): void {
+    const active = this.getActiveSeries();
+    if (active && active.id !== seriesId) {
+      throw new Error('Another replay is running - pause or cancel it first');
+    }
+    const series = this.series.find(candidate => candidate.id === seriesId);
+    if (!series) return;
+
+    this.options = options;
+    this.patchSeries(seriesId, {
+      paused: false,
+      cancelled: false,
+      points: series.points.map(point =>
+        point.status === 'error' || point.status === 'cancelled'
+          ? { ...point, status: 'queued', attempts: 0, error: null, finishedAt: null }
+          : point
+      )
+    });
+    this.runner.pump(seriesId);
+  }
+
+  cancel(seriesId: string): void {
+    const series = this.series.find(candidate => candidate.id === seriesId);
+    if (!series) return;
+    this.runner.abort(series.points.map(point => point.id));
+    this.patchSeries(seriesId, { cancelled: true, paused: false, points: cancelPendingItems(series.points) });
+  }
+
+  remove(seriesId: string): void {
+    const series = this.series.find(candidate => candidate.id === seriesId);
+    if (!series) return;
+    this.runner.abort(series.points.map(point => point.id));
+    this.setSeries(this.series.filter(candidate => candidate.id !== seriesId));
+  }
+
+  // ===== INTERNALS =====
+
+  private getKey(): string {
+    return `${REPLAY_PREFIX}:${this.userId || 'anonymous'}`;
+  }
+
+  private readLocal(): ReplaySeries[] {
+    const key = this.getKey();
+    try {
+      const stored = localStorage.getItem(key);
+      if (!stored) return [];
+      const parsed = JSON.parse(stored);
+      return Array.isArray(parsed)
+        ? parsed.filter(series => isRecord(series) && typeof series.id === 'string' && Array.isArray(series.points))
+        : [];
+    } catch (error) {
+      console.warn(`⚠️ [analysisReplayService] Failed to read ${key}:`, error);
+      return [];
+    }
+  }
+
+  private writeLocal(): void {
+    const key = this.getKey();
+    try {
+      if (this.series.length > 0) {
+        localStorage.setItem(key, JSON.stringify(this.series));
+      } else {
+        localStorage.removeItem(key);
+      }
+    } catch (error) {
+      console.warn(`⚠️ [analysisReplayService] Failed to write ${key}:`, error);
+    }
+  }
+
+  private emit(): void {
+    this.listeners.forEach(listener => {
+      try {
+        listener(this.series);
+      } catch (error) {
+        console.warn('⚠️ [analysisReplayService] Listener failed:', error);
+      }
+    });
+  }
+
+  // Series are replaced rather than mutated so React sees every change
+  private setSeries(series: ReplaySeries[]): void {
+    this.series = series;
+    this.writeLocal();
+    this.emit();
+  }
+
+  private patchSeries(seriesId: string, patch: Partial<ReplaySeries>): void {
+    if (!this.series.some(series => series.id === seriesId)) return;
+    this.setSeries(this.series.map(series => (series.id === seriesId ? { ...series, ...patch } : series)));
+  }
+
+  private patchPoint(seriesId: string, pointId: string, patch: AnalysisRequestItemPatch): void {
+    const series = this.series.find(candidate => candidate.id === seriesId);
+    if (!series) return;
+    this.patchSeries(seriesId, {
+      points: series.points.map(point => (point.id === pointId ? { ...point, ...patch } : point))
+    });
+  }
+
+  private async getSector(symbol: string): Promise<string | null> {
+    if (this.sectors.has(symbol)) return this.sectors.get(symbol) ?? null;
+    let sector: string | null = null;
+    try {
+      const response = await apiService.getStockSector(symbol);
+      sector = response.success ? response.sector_info?.sector || null : null;
+    } catch {
+      // Fall back to the market index
+    }
+    this.sectors.set(symbol, sector);
+    return sector;
+  }
+
+  private async request(seriesId: string, point: ReplayPoint, signal: AbortSignal): Promise<AnalysisResponse> {
+    const { settings } = this.series.find(candidate => candidate.id === seriesId)!;
+    const sector = await this.getSector(settings.symbol);
+    if (signal.aborted) throw new Error('Replay point cancelled');
+
+    return apiService.enhancedAnalyzeStock(
+      {
+        stock: settings.symbol,
+        exchange: settings.exchange,
+        period: settings.period,
+        interval: settings.interval,
+        sector,
+        email: this.options.email,
+        portfolio_value: settings.portfolio_value,
+        current_holding: null,
+        end_date: point.endDate
+      },
+      signal
+    );
+  }
+}
+
+export const analysisReplayRunner = new AnalysisReplayRunner();
@@ -0,0 +1,180 @@
+// Shared engine behind the batch queue and the replay runner: runs the queued items of a group a few
+// at a time through a per-item request, with a timeout, retries with backoff and abort on cancel.
+// Owners keep the groups themselves and say which one may start work.
+import { AnalysisResponse } from '@/types/analysis';
+import { BatchItemResult, BatchItemStatus } from '@/types/batchAnalysis';
+import { buildAnalysisOverlays } from '@/utils/analysisOverlays';
+import { getAnalysisSignalSummary } from '@/utils/analysisSummary';
+
+// ===== TYPES & INTERFACES =====
+
+// Fields shared by batch items and replay points
+export interface AnalysisRequestItem {
+  id: string;
+  status: BatchItemStatus;
+  attempts: number;
+  startedAt: number | null;
+  finishedAt: number | null;
+  nextRetryAt: number | null;
+  error: string | null;
+  result: BatchItemResult | null;
+}
+
+export type AnalysisRequestItemPatch = Partial<Omit<AnalysisRequestItem, 'id'>>;
+
+export interface AnalysisRequestRunnerConfig<TItem extends AnalysisRequestItem> {
+  source: string; // Module name for warnings
+  // The group's items, or null while it is missing, paused or cancelled
+  getRunnable: (groupId: string) => { items: TItem[]; concurrency: number } | null;
+  // Must ignore groups that no longer exist
+  patchItem: (groupId: string, itemId: string, patch: AnalysisRequestItemPatch) => void;
+  request: (groupId: string, item: TItem, signal: AbortSignal) => Promise<AnalysisResponse>;
+  onSuccess?: (groupId: string, item: TItem, data: AnalysisResponse) => void;
+}
+
+// ===== CONSTANTS =====
+
+export const MAX_ATTEMPTS = 3;
+const RETRY_BASE_DELAY_MS = 5000;
+const RETRY_MAX_DELAY_MS = 60000;
+// A single analysis typically takes 2-3 minutes; anything far beyond that is treated as a timeout
+export const REQUEST_TIMEOUT_MS = 6 * 60 * 1000;
+const LEVELS_PER_SIDE = 2;
+
+export const PENDING_STATUSES: BatchItemStatus[] = ['queued', 'running', 'retrying'];
+
+export const createId = (prefix: string): string =>
+  `${prefix}-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 7)}`;
+
+export const isPending = (item: AnalysisRequestItem): boolean => PENDING_STATUSES.includes(item.status);
+
+// Exponential backoff with jitter so parallel failures don't retry in lockstep
+export const getRetryDelay = (attempt: number): number => {
+  const delay = Math.min(RETRY_MAX_DELAY_MS, RETRY_BASE_DELAY_MS * 2 ** (attempt - 1));
+  return Math.round(delay * (0.8 + Math.random() * 0.4));
+};
+
+export const isRetryableError = (error: unknown, timedOut: boolean): boolean => {
+  if (timedOut) return true;
+  const status = (error as { status?: number })?.status;
+  if (typeof status === 'number') return status >= 500 || status === 408;
+  // fetch rejects with a TypeError when the backend drops the connection
+  return error instanceof TypeError;
+};
+
+// Signal, confidence and the nearest levels from a finished analysis
+export function summarizeBatchResult(data: AnalysisResponse): BatchItemResult {
+  const analysisId = (data as any)?.analysis_id ?? null;
+  const record = { id: analysisId || '', analysis_data: data };
+  const summary = getAnalysisSignalSummary(record);
+  const levels = buildAnalysisOverlays(record)?.levels || [];
+  const prices = (kind: string) => levels.filter(level => level.kind === kind).map(level => level.price);
+
+  return {
+    analysisId,
+    signal: summary.signal,
+    confidence: summary.confidence,
+    supports: prices('support').sort((a, b) => b - a).slice(0, LEVELS_PER_SIDE),
+    resistances: prices('resistance').sort((a, b) => a - b).slice(0, LEVELS_PER_SIDE),
+    stopLoss: prices('stop')[0] ?? null,
+    target: prices('target')[0] ?? null
+  };
+}
+
+// Marks every pending item cancelled, for owners cancelling a whole group
+export const cancelPendingItems = <TItem extends AnalysisRequestItem>(items: TItem[]): TItem[] => {
+  const finishedAt = Date.now();
+  return items.map(item =>
+    isPending(item) ? { ...item, status: 'cancelled', finishedAt, nextRetryAt: null } : item
+  );
+};
+
+// ===== RUNNER =====
+
+export class AnalysisRequestRunner<TItem extends AnalysisRequestItem> {
+  private controllers = new Map<string, AbortController>(); // by item id
+  private retryTimers = new Map<string, ReturnType<typeof setTimeout>>();
+
+  constructor(private config: AnalysisRequestRunnerConfig<TItem>) {}
+
+  // Starts queued items until the group's concurrency is used up
+  pump(groupId: string): void {
+    const runnable = this.config.getRunnable(groupId);
+    if (!runnable) return;
+
+    let running = runnable.items.filter(item => item.status === 'running').length;
+    for (const item of runnable.items) {
+      if (running >= runnable.concurrency) break;
+      if (item.status !== 'queued') continue;
+      running += 1;
+      this.run(groupId, item);
+    }
+  }
+
+  // Drops pending retries and aborts in-flight requests; their results are ignored
+  abort(itemIds: string[]): void {
+    itemIds.forEach(itemId => {
+      const timer = this.retryTimers.get(itemId);
+      if (timer) clearTimeout(timer);
+      this.retryTimers.delete(itemId);
+      const controller = this.controllers.get(itemId);
+      this.controllers.delete(itemId);
+      controller?.abort();
+    });
+  }
+
+  abortAll(): void {
+    this.abort([...this.controllers.keys(), ...this.retryTimers.keys()]);
+  }
+
+  private async run(groupId: string, item: TItem): Promise<void> {
+    const { patchItem, request, onSuccess, source } = this.config;
+    const attempt = item.attempts + 1;
+    patchItem(groupId, item.id, { status: 'running', attempts: attempt, startedAt: Date.now(), nextRetryAt: null, error: null });
+
+    const controller = new AbortController();
+    this.controllers.set(item.id, controller);
+    let timedOut = false;
+    const timeout = setTimeout(() => {
+      timedOut = true;
+      controller.abort();
+    }, REQUEST_TIMEOUT_MS);
+
+    // The item was cancelled / removed while this request was in flight
+    const isStale = () => this.controllers.get(item.id) !== controller;
+
+    try {
+      const data = await request(groupId, item, controller.signal);
+      if (isStale()) return;
+
+      patchItem(groupId, item.id, { status: 'success', finishedAt: Date.now(), result: summarizeBatchResult(data) });
+      try {
+        onSuccess?.(groupId, item, data);
+      } catch (error) {
+        console.warn(`⚠️ [${source}] onSuccess failed:`, error);
+      }
+    } catch (error) {
+      if (isStale()) return;
+
+      const message = timedOut
+        ? `Timed out after ${Math.round(REQUEST_TIMEOUT_MS / 60000)} minutes`
+        : error instanceof Error ? error.message : 'Analysis failed';
+
+      if (isRetryableError(error, timedOut) && attempt < MAX_ATTEMPTS) {
+        const delay = getRetryDelay(attempt);
+        patchItem(groupId, item.id, { status: 'retrying', error: message, nextRetryAt: Date.now() + delay });
+        this.retryTimers.set(item.id, setTimeout(() => {
+          this.retryTimers.delete(item.id);
+          patchItem(groupId, item.id, { status: 'queued', nextRetryAt: null });
+          this.pump(groupId);
+        }, delay));
+      } else {
+        patchItem(groupId, item.id, { status: 'error', error: message, finishedAt: Date.now() });
+      }
+    } finally {
+      clearTimeout(timeout);
+      if (this.controllers.get(item.id) === controller) this.controllers.delete(item.id);
+      this.pump(groupId);
+    }
+  }
+}
@@ -281,7 +281,8 @@ class ApiService {
   }
 
   // POST /analyze/enhanced - Enhanced analysis with code execution
-  async enhancedAnalyzeStock(request: AnalysisRequest & { enable_code_execution?: boolean }): Promise<AnalysisResponse> {
+  // Failed responses throw an Error carrying the HTTP `status` so callers can tell retryable 5xx apart
+  async enhancedAnalyzeStock(request: AnalysisRequest & { enable_code_execution?: boolean }, signal?: AbortSignal): Promise<AnalysisResponse> {
     try {
       // Get authentication token
       const token = localStorage.getItem('jwt_token');
@@ -292,7 +293,8 @@ class ApiService {
           'Content-Type': 'application/json',
           'Authorization': token ? `Bearer ${token}` : '' 
         },
-        body: JSON.stringify(request)
+        body: JSON.stringify(request),
+        signal
       });
       
       if (!resp.ok) {
@@ -311,7 +313,8 @@ class ApiService {
                   'Content-Type': 'application/json',
                   'Authorization': `Bearer ${authResponse.token}`
                 },
-                body: JSON.stringify(request)
+                body: JSON.stringify(request),
+                signal
               });
               
               if (retryResp.ok) {
@@ -323,7 +326,7 @@ class ApiService {
           }
         }
         
-        throw new Error(`Failed to perform enhanced analysis: ${resp.status}`);
+        throw Object.assign(new Error(`Failed to perform enhanced analysis: ${resp.status}`), { status: resp.status });
       }
       
       return await resp.json();
@@ -628,6 +631,15 @@ class ApiService {
     }
   }
 
+  // Stored row as written by the database service ({ id, stock_symbol, created_at, analysis_data }); null when missing
+  async getStoredAnalysisRecord(analysisId: string): Promise<{ id: string; stock_symbol: string; created_at: string; analysis_data: any } | null> {
+    const resp = await fetch(`${DATABASE_ENDPOINTS.ANALYSIS_BY_ID}/${encodeURIComponent(analysisId)}`);
+    if (resp.status === 404) return null;
+    if (!resp.ok) throw new Error(`Failed to fetch analysis (${resp.status})`);
+    const data = await resp.json();
+    return data?.analysis?.analysis_data ? data.analysis : null;
+  }
+
   async getAnalysesBySignal(signal: string, userId?: string, limit: number = 20): Promise<{ success: boolean; analyses: any[]; count: number }> {
     const url = userId 
       ? `${DATABASE_ENDPOINTS.ANALYSES_BY_SIGNAL}/${signal}?user_id=${userId}&limit=${limit}`
@@ -668,6 +680,20 @@ class ApiService {
     );
     return response;
   }
+
+  // POST /analyses/store - Store an analysis the analysis service did not run, e.g. a pinned realtime snapshot
+  async storeAnalysis(request: {
+    user_id: string;
+    stock_symbol: string;
+    exchange?: string;
+    interval?: string;
+    analysis_data: any;
+  }): Promise<{ success: boolean; analysis_id?: string }> {
+    return this.makeRequest<{ success: boolean; analysis_id?: string }>(DATABASE_ENDPOINTS.STORE_ANALYSIS, {
+      method: 'POST',
+      body: JSON.stringify(request)
+    });
+  }
 }
 
 // Export a singleton instance
@@ -722,4 +748,5 @@ export const {
   getHighConfidenceAnalyses,
   getUserAnalysisSummary,
   getStockAnalysesForUser,
+  storeAnalysis,
 } = apiService; 
\ No newline at end of file
@@ -0,0 +1,195 @@
+// Client-side queue for running the enhanced analysis over many symbols with shared settings.
+// Keeps a few requests in flight, retries backend 5xx / timeouts with backoff and supports pause / cancel.
+import { apiService } from './api';
+import { AnalysisRequest, AnalysisResponse } from '@/types/analysis';
+import { BatchAnalysisSettings, BatchItem, BatchRun } from '@/types/batchAnalysis';
+import { AnalysisRequestItemPatch, AnalysisRequestRunner, cancelPendingItems, createId, isPending } from './analysisRequestRunner';
+
+// ===== TYPES & INTERFACES =====
+
+export type BatchListener = (batch: BatchRun | null) => void;
+
+export interface BatchStartOptions {
+  name: string;
+  concurrency?: number;
+  email?: string; // Backend maps the request to the user by email
+  onItemComplete?: (symbol: string, data: AnalysisResponse) => void;
+  // Position already held in a symbol, sent as current_holding
+  getHolding?: (symbol: string) => AnalysisRequest['current_holding'];
+}
+
+// ===== CONSTANTS =====
+
+export const DEFAULT_BATCH_CONCURRENCY = 2;
+export const MAX_BATCH_CONCURRENCY = 3;
+export const MAX_BATCH_SYMBOLS = 50;
+
+// Split pasted text ("RELIANCE, TCS\nINFY") into unique upper-case symbols
+export function parseSymbolList(text: string): string[] {
+  const symbols = text
+    .split(/[\s,;]+/)
+    .map(symbol => symbol.trim().toUpperCase().replace(/^NSE:/, ''))
+    .filter(symbol => /^[A-Z0-9&_.-]+$/.test(symbol));
+  return Array.from(new Set(symbols));
+}
+
+// ===== QUEUE =====
+
+class BatchAnalysisQueue {
+  private batch: BatchRun | null = null;
+  private options: BatchStartOptions | null = null;
+  private listeners = new Set<BatchListener>();
+  private runner = new AnalysisRequestRunner<BatchItem>({
+    source: 'batchAnalysisQueue',
+    getRunnable: batchId => {
+      const batch = this.batch;
+      if (!batch || batch.id !== batchId || batch.paused || batch.cancelled) return null;
+      return { items: batch.items, concurrency: batch.concurrency };
+    },
+    patchItem: (batchId, itemId, patch) => {
+      if (this.batch?.id === batchId) this.patchItem(itemId, patch);
+    },
+    request: (batchId, item, signal) => this.request(item, signal),
+    onSuccess: (batchId, item, data) => this.options?.onItemComplete?.(item.symbol, data)
+  });
+
+  getBatch(): BatchRun | null {
+    return this.batch;
+  }
+
+  subscribe(listener: BatchListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  // True while any item still has work to do
+  isActive(): boolean {
+    return !!this.batch && this.batch.items.some(isPending);
+  }
+
+  start(symbols: string[], settings: BatchAnalysisSettings, options: BatchStartOptions): BatchRun {
+    if (this.isActive()) {
+      throw new Error('A batch is already running - cancel it before starting another');
+    }
+    const unique = Array.from(new Set(symbols.map(symbol => symbol.trim().toUpperCase()).filter(Boolean)));
+    if (unique.length === 0) throw new Error('Add at least one symbol to the batch');
+    if (unique.length > MAX_BATCH_SYMBOLS) throw new Error(`A batch can hold at most ${MAX_BATCH_SYMBOLS} symbols`);
+
+    this.options = options;
+    this.batch = {
+      id: createId('batch'),
+      name: options.name,
+      createdAt: Date.now(),
+      settings,
+      concurrency: Math.min(MAX_BATCH_CONCURRENCY, Math.max(1, options.concurrency ?? DEFAULT_BATCH_CONCURRENCY)),
+      items: unique.map(symbol => ({
+        id: createId('batch-item'),
+        symbol,
+        status: 'queued',
+        attempts: 0,
+        startedAt: null,
+        finishedAt: null,
+        nextRetryAt: null,
+        error: null,
+        result: null
+      })),
+      paused: false,
+      cancelled: false
+    };
+    this.emit();
+    this.runner.pump(this.batch.id);
+    return this.batch;
+  }
+
+  // Running analyses finish; nothing new starts until resume
+  pause(): void {
+    if (!this.batch || this.batch.cancelled) return;
+    this.setBatch({ paused: true });
+  }
+
+  resume(): void {
+    if (!this.batch || this.batch.cancelled) return;
+    this.setBatch({ paused: false });
+    this.runner.pump(this.batch.id);
+  }
+
+  cancel(): void {
+    if (!this.batch) return;
+    this.runner.abortAll();
+    this.setBatch({ cancelled: true, paused: false, items: cancelPendingItems(this.batch.items) });
+  }
+
+  // Put a failed or cancelled symbol back in the queue with a fresh attempt budget
+  retryItem(itemId: string): void {
+    const item = this.batch?.items.find(candidate => candidate.id === itemId);
+    if (!item || (item.status !== 'error' && item.status !== 'cancelled')) return;
+    this.setBatch({ cancelled: false });
+    this.patchItem(itemId, { status: 'queued', attempts: 0, error: null, finishedAt: null });
+    this.runner.pump(this.batch.id);
+  }
+
+  clear(): void {
+    if (this.isActive()) return;
+    this.batch = null;
+    this.options = null;
+    this.emit();
+  }
+
+  // ===== INTERNALS =====
+
+  private emit(): void {
+    this.listeners.forEach(listener => {
+      try {
+        listener(this.batch);
+      } catch (error) {
+        console.warn('⚠️ [batchAnalysisQueue] Listener failed:', error);
+      }
+    });
+  }
+
+  // Batches are replaced rather than mutated so React sees every change
+  private setBatch(patch: Partial<BatchRun>): void {
+    if (!this.batch) return;
+    this.batch = { ...this.batch, ...patch };
+    this.emit();
+  }
+
+  private patchItem(itemId: string, patch: AnalysisRequestItemPatch): void {
+    if (!this.batch) return;
+    this.setBatch({
+      items: this.batch.items.map(item => (item.id === itemId ? { ...item, ...patch } : item))
+    });
+  }
+
+  private async request(item: BatchItem, signal: AbortSignal): Promise<AnalysisResponse> {
+    const settings = this.batch!.settings;
+
+    // Each symbol is benchmarked against its own sector index, like the single-stock form
+    let sector: string | null = null;
+    try {
+      const sectorResponse = await apiService.getStockSector(item.symbol);
+      sector = sectorResponse.success ? sectorResponse.sector_info?.sector || null : null;
+    } catch {
+      // Fall back to the market index
+    }
+    if (signal.aborted) throw new Error('Analysis cancelled');
+
+    const payload: AnalysisRequest = {
+      stock: item.symbol,
+      exchange: settings.exchange,
+      period: settings.period,
+      interval: settings.interval,
+      sector,
+      email: this.options?.email,
+      portfolio_value: settings.portfolio_value,
+      current_holding: this.options?.getHolding?.(item.symbol) ?? null,
+      ...(settings.end_date ? { end_date: settings.end_date } : {})
+    };
+
+    return apiService.enhancedAnalyzeStock(payload, signal);
+  }
+}
+
+export const batchAnalysisQueue = new BatchAnalysisQueue();
@@ -0,0 +1,316 @@
+// Persistent candle history cache backed by IndexedDB
+// Keeps one merged series per symbol/interval/exchange so reloads only fetch the missing tail
+import { liveDataService, INTERVAL_MAPPING, RealCandlestickData, HistoricalDataResponse } from './liveDataService';
+import { openDatabase, promisifyRequest, transactionDone } from '@/utils/indexedDb';
+
+// ===== TYPES & INTERFACES =====
+
+export interface CandleSeriesMeta {
+  key: string;
+  symbol: string;
+  interval: string; // Backend interval, e.g. 1day / 5min
+  exchange: string;
+  candleCount: number;
+  firstTime: number;
+  lastTime: number;
+  // Largest limit ever fetched for this series; smaller requests are served from the cache
+  coveredLimit: number;
+  lastAccessed: number;
+  updatedAt: number;
+}
+
+interface CandleSeriesRecord {
+  key: string;
+  candles: RealCandlestickData[];
+}
+
+interface CachedSeries {
+  meta: CandleSeriesMeta;
+  candles: RealCandlestickData[];
+}
+
+export interface CachedHistoryOptions {
+  endDate?: string;
+  // Called with the persisted series before the network refresh starts
+  onCachedData?: (response: HistoricalDataResponse) => void;
+}
+
+// ===== CONSTANTS =====
+
+const DB_NAME = 'stock-analyzer-candles';
+const DB_VERSION = 1;
+const CANDLE_STORE = 'candles';
+const META_STORE = 'series_meta';
+
+// ===== UTILITY FUNCTIONS =====
+
+const normalizeInterval = (interval: string): string =>
+  INTERVAL_MAPPING[interval as keyof typeof INTERVAL_MAPPING] || interval;
+
+const getSeriesKey = (symbol: string, interval: string, exchange: string): string =>
+  `${symbol.toUpperCase()}|${normalizeInterval(interval)}|${exchange.toUpperCase()}`;
+
+const formatEndDate = (date: Date): string => {
+  const year = date.getFullYear();
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${year}-${month}-${day}`;
+};
+
+// The requested window: `limit` days back from the end of endDate, or from now
+const sliceToWindow = (candles: RealCandlestickData[], limit: number, endDate?: string): RealCandlestickData[] => {
+  const endOfDay = endDate ? new Date(`${endDate}T23:59:59`).getTime() : NaN;
+  const end = Math.floor((Number.isNaN(endOfDay) ? Date.now() : endOfDay) / 1000);
+  const start = end - limit * 86400;
+  return candles.filter(candle => candle.time >= start && candle.time <= end);
+};
+
+// Merge two candle ranges by start time; incoming candles win on overlap
+export const mergeCandleSeries = (
+  existing: RealCandlestickData[],
+  incoming: RealCandlestickData[]
+): RealCandlestickData[] => {
+  const byTime = new Map<number, RealCandlestickData>();
+  existing.forEach(candle => byTime.set(candle.time, candle));
+  incoming.forEach(candle => byTime.set(candle.time, candle));
+  return Array.from(byTime.values()).sort((a, b) => a.time - b.time);
+};
+
+class CandleCacheService {
+  private dbPromise: Promise<IDBDatabase | null> | null = null;
+  // Total budget across all series before least recently used ones are evicted
+  private maxTotalCandles = 300000;
+  private maxCandlesPerSeries = 50000;
+
+  // Drop-in replacement for liveDataService.getHistoricalData that reads through the cache.
+  // `limit` keeps its backend meaning (days / period): it decides whether older history is needed,
+  // and only that window of the merged series is returned.
+  async getHistoricalData(
+    symbol: string,
+    interval: string = '1d',
+    exchange: string = 'NSE',
+    limit: number = 1000,
+    options: CachedHistoryOptions = {}
+  ): Promise<HistoricalDataResponse> {
+    const key = getSeriesKey(symbol, interval, exchange);
+    const cached = await this.readSeries(key);
+
+    if (!cached || cached.candles.length === 0) {
+      const response = await liveDataService.getHistoricalData(symbol, interval, exchange, limit, options.endDate);
+      if (!response.success || !response.candles || response.candles.length === 0) {
+        return response;
+      }
+      const candles = await this.writeSeries(key, symbol, interval, exchange, [], response.candles, limit);
+      return this.buildResponse(response, sliceToWindow(candles, limit, options.endDate));
+    }
+
+    const cachedResponse = this.buildCachedResponse(cached.meta, sliceToWindow(cached.candles, limit, options.endDate));
+    // Nothing to paint when the cache only holds candles outside the requested window
+    if (cachedResponse.candles.length > 0) options.onCachedData?.(cachedResponse);
+
+    // A wider window than we have ever fetched needs the older history as well
+    const needsFullFetch = limit > cached.meta.coveredLimit;
+    const fetchLimit = needsFullFetch ? limit : this.getTailDays(cached.meta.lastTime);
+    const endDate = needsFullFetch ? options.endDate : formatEndDate(new Date());
+
+    try {
+      const response = await liveDataService.getHistoricalData(symbol, interval, exchange, fetchLimit, endDate);
+      if (!response.success || !response.candles || response.candles.length === 0) {
+        return cachedResponse;
+      }
+      const candles = await this.writeSeries(
+        key,
+        symbol,
+        interval,
+        exchange,
+        cached.candles,
+        response.candles,
+        Math.max(limit, cached.meta.coveredLimit)
+      );
+      return this.buildResponse(response, sliceToWindow(candles, limit, options.endDate));
+    } catch (error) {
+      // Stale candles beat an empty chart - the next refresh fills the tail
+      console.warn(`⚠️ [candleCacheService] Refresh failed for ${key}, serving cached candles:`, error);
+      return cachedResponse;
+    }
+  }
+
+  // Remove cached history for a symbol, or everything when no symbol is given
+  async clear(symbol?: string): Promise<void> {
+    const db = await this.getDb();
+    if (!db) return;
+
+    try {
+      const transaction = db.transaction([CANDLE_STORE, META_STORE], 'readwrite');
+      const candleStore = transaction.objectStore(CANDLE_STORE);
+      const metaStore = transaction.objectStore(META_STORE);
+
+      if (symbol) {
+        const metas = await promisifyRequest(metaStore.getAll() as IDBRequest<CandleSeriesMeta[]>);
+        metas
+          .filter(meta => meta.symbol === symbol.toUpperCase())
+          .forEach(meta => {
+            candleStore.delete(meta.key);
+            metaStore.delete(meta.key);
+          });
+      } else {
+        candleStore.clear();
+        metaStore.clear();
+      }
+
+      await transactionDone(transaction);
+    } catch (error) {
+      console.warn('⚠️ [candleCacheService] Failed to clear cache:', error);
+    }
+  }
+
+  private getDb(): Promise<IDBDatabase | null> {
+    if (!this.dbPromise) {
+      const dbPromise = openDatabase(
+        DB_NAME,
+        DB_VERSION,
+        db => {
+          if (!db.objectStoreNames.contains(CANDLE_STORE)) {
+            db.createObjectStore(CANDLE_STORE, { keyPath: 'key' });
+          }
+          if (!db.objectStoreNames.contains(META_STORE)) {
+            db.createObjectStore(META_STORE, { keyPath: 'key' });
+          }
+        },
+        // A closed connection throws InvalidStateError on every transaction; the next call reopens
+        () => {
+          if (this.dbPromise === dbPromise) this.dbPromise = null;
+        }
+      );
+      this.dbPromise = dbPromise;
+    }
+    return this.dbPromise;
+  }
+
+  // Days to request so the fetch overlaps the last cached candle
+  private getTailDays(lastTime: number): number {
+    const nowTimestamp = Math.floor(Date.now() / 1000);
+    return Math.max(1, Math.ceil((nowTimestamp - lastTime) / 86400) + 1);
+  }
+
+  private async readSeries(key: string): Promise<CachedSeries | null> {
+    const db = await this.getDb();
+    if (!db) return null;
+
+    try {
+      const transaction = db.transaction([CANDLE_STORE, META_STORE], 'readwrite');
+      const metaStore = transaction.objectStore(META_STORE);
+      const [meta, record] = await Promise.all([
+        promisifyRequest(metaStore.get(key) as IDBRequest<CandleSeriesMeta | undefined>),
+        promisifyRequest(transaction.objectStore(CANDLE_STORE).get(key) as IDBRequest<CandleSeriesRecord | undefined>)
+      ]);
+
+      if (!meta || !record) {
+        await transactionDone(transaction);
+        return null;
+      }
+
+      // Touch for LRU eviction
+      const touchedMeta = { ...meta, lastAccessed: Date.now() };
+      metaStore.put(touchedMeta);
+      await transactionDone(transaction);
+
+      return { meta: touchedMeta, candles: record.candles };
+    } catch (error) {
+      console.warn(`⚠️ [candleCacheService] Failed to read ${key}:`, error);
+      return null;
+    }
+  }
+
+  private async writeSeries(
+    key: string,
+    symbol: string,
+    interval: string,
+    exchange: string,
+    existing: RealCandlestickData[],
+    incoming: RealCandlestickData[],
+    coveredLimit: number
+  ): Promise<RealCandlestickData[]> {
+    const candles = mergeCandleSeries(existing, incoming).slice(-this.maxCandlesPerSeries);
+    const db = await this.getDb();
+    if (!db || candles.length === 0) return candles;
+
+    const now = Date.now();
+    const meta: CandleSeriesMeta = {
+      key,
+      symbol: symbol.toUpperCase(),
+      interval: normalizeInterval(interval),
+      exchange: exchange.toUpperCase(),
+      candleCount: candles.length,
+      firstTime: candles[0].time,
+      lastTime: candles[candles.length - 1].time,
+      coveredLimit,
+      lastAccessed: now,
+      updatedAt: now
+    };
+
+    try {
+      const transaction = db.transaction([CANDLE_STORE, META_STORE], 'readwrite');
+      transaction.objectStore(CANDLE_STORE).put({ key, candles } as CandleSeriesRecord);
+      transaction.objectStore(META_STORE).put(meta);
+      await transactionDone(transaction);
+      await this.evictIfNeeded(db, key);
+    } catch (error) {
+      // Quota errors end up here - the caller still gets the merged candles
+      console.warn(`⚠️ [candleCacheService] Failed to persist ${key}:`, error);
+    }
+
+    return candles;
+  }
+
+  // Evict least recently used series until the total candle count fits the budget
+  private async evictIfNeeded(db: IDBDatabase, keepKey: string): Promise<void> {
+    const transaction = db.transaction([CANDLE_STORE, META_STORE], 'readwrite');
+    const candleStore = transaction.objectStore(CANDLE_STORE);
+    const metaStore = transaction.objectStore(META_STORE);
+    const metas = await promisifyRequest(metaStore.getAll() as IDBRequest<CandleSeriesMeta[]>);
+
+    let totalCandles = metas.reduce((sum, meta) => sum + meta.candleCount, 0);
+    if (totalCandles > this.maxTotalCandles) {
+      const evictionOrder = metas
+        .filter(meta => meta.key !== keepKey)
+        .sort((a, b) => a.lastAccessed - b.lastAccessed);
+
+      for (const meta of evictionOrder) {
+        if (totalCandles <= this.maxTotalCandles) break;
+        candleStore.delete(meta.key);
+        metaStore.delete(meta.key);
+        totalCandles -= meta.candleCount;
+      }
+    }
+
+    await transactionDone(transaction);
+  }
+
+  private buildResponse(response: HistoricalDataResponse, candles: RealCandlestickData[]): HistoricalDataResponse {
+    return {
+      ...response,
+      candles,
+      count: candles.length,
+      first_candle: candles[0],
+      last_candle: candles[candles.length - 1]
+    };
+  }
+
+  private buildCachedResponse(meta: CandleSeriesMeta, candles: RealCandlestickData[]): HistoricalDataResponse {
+    return {
+      success: true,
+      symbol: meta.symbol,
+      exchange: meta.exchange,
+      interval: meta.interval,
+      token: '',
+      candles,
+      count: candles.length,
+      first_candle: candles[0],
+      last_candle: candles[candles.length - 1],
+      timestamp: new Date(meta.updatedAt).toISOString()
+    };
+  }
+}
+
+export const candleCacheService = new CandleCacheService();
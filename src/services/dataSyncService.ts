@@ -1,8 +1,11 @@
 // Remove the circular import
 // import { useDataStore } from '@/stores/dataStore';
+import { marketStatusService } from './marketStatusService';
 
 class DataSyncService {
   private syncIntervals = new Map<string, NodeJS.Timeout>();
+  // Keys whose last sync ran while the market was open; they get one more after the close
+  private pendingCloseSync = new Set<string>();
   private readonly SYNC_INTERVALS = {
     '1min': 30 * 1000,    // 30 seconds
     '5min': 2 * 60 * 1000, // 2 minutes
@@ -43,23 +46,48 @@ class DataSyncService {
     }
 
     const interval = this.SYNC_INTERVALS[timeframe as keyof typeof this.SYNC_INTERVALS] || 60 * 1000;
-    
-    const syncInterval = setInterval(async () => {
-      try {
-        await this.fetchDataCallback!({
-          symbol,
-          timeframe,
-          exchange,
-          limit: 1000,
-          forceRefresh: true
-        });
-      } catch (error) {
-        // console.error(`Background sync failed for ${key}:`, error);
+    this.scheduleSync(key, { symbol, timeframe, exchange }, interval);
+    // console.log(`🔄 Started background sync for ${key} (${interval}ms)`);
+  }
+
+  // Polls on the timeframe interval while the market is open. Once it closes, one last sync picks up
+  // the closing candle and the next one waits for the following session instead of polling a shut market.
+  private scheduleSync(
+    key: string,
+    params: { symbol: string; timeframe: string; exchange: string },
+    interval: number
+  ) {
+    const delay = marketStatusService.isMarketOpen() || this.pendingCloseSync.has(key)
+      ? interval
+      : Math.max(interval, marketStatusService.getSession().opensAt - Date.now());
+
+    const syncTimeout = setTimeout(async () => {
+      if (this.syncIntervals.get(key) !== syncTimeout) return;
+
+      const isOpen = marketStatusService.isMarketOpen();
+      if (isOpen || this.pendingCloseSync.has(key)) {
+        if (isOpen) {
+          this.pendingCloseSync.add(key);
+        } else {
+          this.pendingCloseSync.delete(key);
+        }
+        try {
+          await this.fetchDataCallback!({
+            ...params,
+            limit: 1000,
+            forceRefresh: true
+          });
+        } catch (error) {
+          // console.error(`Background sync failed for ${key}:`, error);
+        }
       }
-    }, interval);
 
-    this.syncIntervals.set(key, syncInterval);
-    // console.log(`🔄 Started background sync for ${key} (${interval}ms)`);
+      // Stopped while the fetch was in flight
+      if (this.syncIntervals.get(key) !== syncTimeout) return;
+      this.scheduleSync(key, params, interval);
+    }, delay);
+
+    this.syncIntervals.set(key, syncTimeout);
   }
 
   stopSync(symbol: string, timeframe: string, exchange: string = 'NSE') {
@@ -67,18 +95,20 @@ class DataSyncService {
     const interval = this.syncIntervals.get(key);
     
     if (interval) {
-      clearInterval(interval);
+      clearTimeout(interval);
       this.syncIntervals.delete(key);
+      this.pendingCloseSync.delete(key);
       // console.log(`⏹️ Stopped background sync for ${key}`);
     }
   }
 
   stopAllSync() {
     this.syncIntervals.forEach((interval, key) => {
-      clearInterval(interval);
+      clearTimeout(interval);
       // console.log(`⏹️ Stopped background sync for ${key}`);
     });
     this.syncIntervals.clear();
+    this.pendingCloseSync.clear();
   }
 
   getActiveSyncs(): string[] {
@@ -0,0 +1,76 @@
+import { ChartDrawing } from '@/types/drawings';
+import { isRecord, profilePreferencesService } from './profilePreferencesService';
+
+// Drawings live in profiles.preferences.chart_drawings keyed by symbol.
+// localStorage mirrors them so charts paint instantly and anonymous users keep theirs too.
+const PREFERENCES_KEY = 'chart_drawings';
+const STORAGE_PREFIX = 'chartDrawings';
+
+type DrawingsBySymbol = Record<string, ChartDrawing[]>;
+
+class DrawingService {
+  async loadDrawings(userId: string | null | undefined, symbol: string): Promise<ChartDrawing[]> {
+    const local = this.readLocal(userId, symbol);
+    if (!userId) return local ?? [];
+
+    try {
+      const stored = await profilePreferencesService.getKey(userId, PREFERENCES_KEY);
+      const remote = isRecord(stored) ? (stored as DrawingsBySymbol)[symbol] : undefined;
+
+      if (Array.isArray(remote)) {
+        this.writeLocal(userId, symbol, remote);
+        return remote;
+      }
+    } catch (error) {
+      console.warn(`⚠️ [drawingService] Failed to load drawings for ${symbol}, using local copy:`, error);
+    }
+    return local ?? [];
+  }
+
+  async saveDrawings(userId: string | null | undefined, symbol: string, drawings: ChartDrawing[]): Promise<void> {
+    this.writeLocal(userId, symbol, drawings);
+    if (!userId) return;
+
+    // Other symbols' drawings may have been saved from another chart since this one loaded
+    await profilePreferencesService.updateKey(userId, PREFERENCES_KEY, (stored: unknown) => {
+      const bySymbol: DrawingsBySymbol = isRecord(stored) ? { ...(stored as DrawingsBySymbol) } : {};
+      if (drawings.length > 0) {
+        bySymbol[symbol] = drawings;
+      } else {
+        delete bySymbol[symbol];
+      }
+      return bySymbol;
+    });
+  }
+
+  private getStorageKey(userId: string | null | undefined, symbol: string): string {
+    return `${STORAGE_PREFIX}:${userId || 'anonymous'}:${symbol}`;
+  }
+
+  private readLocal(userId: string | null | undefined, symbol: string): ChartDrawing[] | null {
+    try {
+      const stored = localStorage.getItem(this.getStorageKey(userId, symbol));
+      if (!stored) return null;
+      const parsed = JSON.parse(stored);
+      return Array.isArray(parsed) ? parsed : null;
+    } catch (error) {
+      console.warn(`⚠️ [drawingService] Failed to read local drawings for ${symbol}:`, error);
+      return null;
+    }
+  }
+
+  private writeLocal(userId: string | null | undefined, symbol: string, drawings: ChartDrawing[]): void {
+    try {
+      const key = this.getStorageKey(userId, symbol);
+      if (drawings.length > 0) {
+        localStorage.setItem(key, JSON.stringify(drawings));
+      } else {
+        localStorage.removeItem(key);
+      }
+    } catch (error) {
+      console.warn(`⚠️ [drawingService] Failed to save local drawings for ${symbol}:`, error);
+    }
+  }
+}
+
+export const drawingService = new DrawingService();
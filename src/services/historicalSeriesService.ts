@@ -0,0 +1,23 @@
+import { apiService, CandleData } from '@/services/api';
+import { INTERVAL_MAPPING } from '@/services/liveDataService';
+import { getSourceDataPoints, getSourceTimeframe, isResampledTimeframe, resampleCandles } from '@/utils/candleResampler';
+
+// The Data Service serves at most this many candles per request
+export const MAX_HISTORY_BARS = 3000;
+
+// One-off historical series for offline computations (outcome scoring, backtests). Unlike
+// candleCacheService nothing is cached, and timeframes the Data Service lacks are resampled.
+class HistoricalSeriesService {
+  async getCandles(symbol: string, exchange: string, timeframe: string, bars: number): Promise<CandleData[]> {
+    const resampled = isResampledTimeframe(timeframe);
+    const source = getSourceTimeframe(timeframe);
+    const limit = Math.min(getSourceDataPoints(bars, timeframe), MAX_HISTORY_BARS);
+    const backendInterval = INTERVAL_MAPPING[source as keyof typeof INTERVAL_MAPPING] || '1day';
+
+    const response = await apiService.getHistoricalData(symbol, backendInterval, exchange, limit);
+    const candles = [...(response.candles || [])].sort((a, b) => a.time - b.time);
+    return resampled ? resampleCandles(candles, timeframe) : candles;
+  }
+}
+
+export const historicalSeriesService = new HistoricalSeriesService();
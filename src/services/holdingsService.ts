@@ -0,0 +1,62 @@
+import { PortfolioHolding } from '@/types/portfolio';
+import { profilePreferencesService } from './profilePreferencesService';
+
+// Holdings live in profiles.preferences.portfolio_holdings so they follow the user across devices;
+// localStorage mirrors them for instant startup and for signed-out use.
+const PREFERENCES_KEY = 'portfolio_holdings';
+const STORAGE_PREFIX = 'portfolioHoldings';
+
+class HoldingsService {
+  async loadHoldings(userId: string | null | undefined): Promise<PortfolioHolding[]> {
+    const local = this.readLocal(this.getKey(userId));
+    if (!userId) return local ?? [];
+
+    try {
+      const remote = await profilePreferencesService.getKey(userId, PREFERENCES_KEY);
+      if (Array.isArray(remote)) {
+        this.writeLocal(this.getKey(userId), remote as unknown as PortfolioHolding[]);
+        return remote as unknown as PortfolioHolding[];
+      }
+    } catch (error) {
+      console.warn('⚠️ [holdingsService] Failed to load holdings, using local copy:', error);
+    }
+    return local ?? [];
+  }
+
+  async saveHoldings(userId: string | null | undefined, holdings: PortfolioHolding[]): Promise<void> {
+    this.writeLocal(this.getKey(userId), holdings);
+    if (!userId) return;
+
+    await profilePreferencesService.updateKey(userId, PREFERENCES_KEY, holdings);
+  }
+
+  private getKey(userId: string | null | undefined): string {
+    return `${STORAGE_PREFIX}:${userId || 'anonymous'}`;
+  }
+
+  private readLocal(key: string): PortfolioHolding[] | null {
+    try {
+      const stored = localStorage.getItem(key);
+      if (!stored) return null;
+      const parsed = JSON.parse(stored);
+      return Array.isArray(parsed) ? parsed : null;
+    } catch (error) {
+      console.warn(`⚠️ [holdingsService] Failed to read ${key}:`, error);
+      return null;
+    }
+  }
+
+  private writeLocal(key: string, holdings: PortfolioHolding[]): void {
+    try {
+      if (holdings.length > 0) {
+        localStorage.setItem(key, JSON.stringify(holdings));
+      } else {
+        localStorage.removeItem(key);
+      }
+    } catch (error) {
+      console.warn(`⚠️ [holdingsService] Failed to write ${key}:`, error);
+    }
+  }
+}
+
+export const holdingsService = new HoldingsService();
@@ -0,0 +1,72 @@
+import { IndicatorInstance } from '@/types/indicators';
+import { normalizeIndicatorInstance } from '@/utils/indicatorRegistry';
+import { isRecord, profilePreferencesService } from './profilePreferencesService';
+
+// Indicator layouts live in profiles.preferences.chart_indicators keyed by chart id, so they follow
+// the user across devices. localStorage mirrors them so charts paint instantly and anonymous users keep theirs.
+const PREFERENCES_KEY = 'chart_indicators';
+const STORAGE_PREFIX = 'chartIndicators';
+
+type IndicatorsByChart = Record<string, IndicatorInstance[]>;
+
+// Drops instances of indicator types this build no longer knows
+const normalizeInstances = (value: unknown): IndicatorInstance[] | null => {
+  if (!Array.isArray(value)) return null;
+  return value
+    .map((instance: IndicatorInstance) => normalizeIndicatorInstance(instance))
+    .filter((instance): instance is IndicatorInstance => instance !== null);
+};
+
+class IndicatorService {
+  // Resolves to null when nothing is saved, so the caller can apply its defaults
+  async loadIndicators(userId: string | null | undefined, chartId: string): Promise<IndicatorInstance[] | null> {
+    const local = this.readLocal(userId, chartId);
+    if (!userId) return local;
+
+    try {
+      const stored = await profilePreferencesService.getKey(userId, PREFERENCES_KEY);
+      const remote = isRecord(stored) ? normalizeInstances(stored[chartId]) : null;
+      if (remote) {
+        this.writeLocal(userId, chartId, remote);
+        return remote;
+      }
+    } catch (error) {
+      console.warn(`⚠️ [indicatorService] Failed to load indicators for ${chartId}, using local copy:`, error);
+    }
+    return local;
+  }
+
+  async saveIndicators(userId: string | null | undefined, chartId: string, instances: IndicatorInstance[]): Promise<void> {
+    this.writeLocal(userId, chartId, instances);
+    if (!userId) return;
+
+    await profilePreferencesService.updateKey(userId, PREFERENCES_KEY, (stored: unknown) => ({
+      ...(isRecord(stored) ? (stored as IndicatorsByChart) : {}),
+      [chartId]: instances
+    }));
+  }
+
+  private getStorageKey(userId: string | null | undefined, chartId: string): string {
+    return `${STORAGE_PREFIX}:${userId || 'anonymous'}:${chartId}`;
+  }
+
+  private readLocal(userId: string | null | undefined, chartId: string): IndicatorInstance[] | null {
+    try {
+      const stored = localStorage.getItem(this.getStorageKey(userId, chartId));
+      return stored ? normalizeInstances(JSON.parse(stored)) : null;
+    } catch (error) {
+      console.warn(`⚠️ [indicatorService] Failed to read local indicators for ${chartId}:`, error);
+      return null;
+    }
+  }
+
+  private writeLocal(userId: string | null | undefined, chartId: string, instances: IndicatorInstance[]): void {
+    try {
+      localStorage.setItem(this.getStorageKey(userId, chartId), JSON.stringify(instances));
+    } catch (error) {
+      console.warn(`⚠️ [indicatorService] Failed to save local indicators for ${chartId}:`, error);
+    }
+  }
+}
+
+export const indicatorService = new IndicatorService();
@@ -0,0 +1,22 @@
+import { apiService } from './api';
+import { RealtimeSnapshot, buildRealtimeHistory, scoreIndicatorsAt } from '@/utils/realtimeSignals';
+
+// Client-side indicator vote on the chart's series. The analysis service has no realtime endpoint,
+// so this scores the indicators it serves in the browser; it is not a pipeline analysis.
+class IndicatorVoteService {
+  // Vote on the latest bar
+  async getLatestVote(symbol: string, timeframe: string): Promise<RealtimeSnapshot> {
+    const response = await apiService.getIndicators(symbol, timeframe);
+    const snapshot = scoreIndicatorsAt(response.indicators || {}, response.timestamps || []);
+    if (!snapshot) throw new Error(`Not enough ${timeframe} data to score ${symbol}`);
+    return snapshot;
+  }
+
+  // The same vote for each of the last `limit` bars, oldest first
+  async getVoteHistory(symbol: string, timeframe: string, limit: number): Promise<RealtimeSnapshot[]> {
+    const response = await apiService.getIndicators(symbol, timeframe);
+    return buildRealtimeHistory(response, limit);
+  }
+}
+
+export const indicatorVoteService = new IndicatorVoteService();
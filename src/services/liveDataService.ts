@@ -4,6 +4,7 @@ import { ChartData } from '@/types/analysis';
 import { toUTCTimestamp } from '@/utils/chartUtils';
 import { ENDPOINTS } from '../config';
 import { performanceMonitor } from '@/utils/performanceMonitor';
+import { liveStreamManager, LiveStreamListener, LiveStreamMessage } from './liveStreamManager';
 import { 
   MarketStatusResponse, 
   OptimizedDataResponse, 
@@ -69,11 +70,6 @@ export interface ChartDataPoint {
 }
 
 class LiveDataService {
-  private wsConnection: WebSocket | null = null;
-  private reconnectAttempts = 0;
-  private maxReconnectAttempts = 5;
-  private reconnectDelay = 1000;
-
   constructor() {
     // Use the data service URL for WebSocket connections
     // console.log('LiveDataService initialized with split backend architecture');
@@ -478,166 +474,37 @@ class LiveDataService {
     }
   }
 
-  // Connect to WebSocket for real-time data (Data Service - Port 8000)
-  async connectWebSocket(
-    symbols: string[], // Changed from tokens to symbols
-    onData: (data: RealCandlestickData) => void,
+  // Subscribe to real-time data (Data Service - Port 8000)
+  // The socket itself is owned by liveStreamManager and shared with every other subscriber;
+  // the returned function releases only these subscriptions
+  connectWebSocket(
+    symbols: string[],
+    onData: (data: LiveStreamMessage) => void,
     onError?: (error: Error) => void,
     onClose?: () => void,
     timeframes: string[] = ['1d'] // Default to daily timeframe
-  ): Promise<WebSocket> {
-    // Close existing connection if any
-    if (this.wsConnection && this.wsConnection.readyState === WebSocket.OPEN) {
-      // console.log('Closing existing WebSocket connection');
-      this.wsConnection.close();
-      this.wsConnection = null;
-    }
-
-    // Get authentication token
-    let token: string;
-    try {
-      token = await authService.ensureAuthenticated();
-      if (!token) {
-        throw new Error('Authentication token not available for WebSocket connection');
-      }
-    } catch (error) {
-      // console.error('Failed to get authentication token:', error);
-      throw new Error('Authentication failed for WebSocket connection');
-    }
-    
-    const wsUrl = `${ENDPOINTS.DATA.WEBSOCKET}?token=${token}`;
-    // console.log('Connecting to WebSocket:', wsUrl);
-    
-    try {
-      this.wsConnection = new WebSocket(wsUrl);
-
-      // Set up connection timeout
-      const connectionTimeout = setTimeout(() => {
-        if (this.wsConnection && this.wsConnection.readyState === WebSocket.CONNECTING) {
-          // console.error('WebSocket connection timeout');
-          this.wsConnection.close();
-          onError?.(new Error('Connection timeout'));
-        }
-      }, 10000); // 10 second timeout
-
-      this.wsConnection.onopen = () => {
-        // console.log('WebSocket connected to Data Service');
-        clearTimeout(connectionTimeout);
-        this.reconnectAttempts = 0;
-        
-        // Subscribe to symbols with specific timeframes
-        if (symbols.length > 0 && this.wsConnection?.readyState === WebSocket.OPEN) {
-          try {
-            const subscriptionMessage = {
-              action: 'subscribe',
-              symbols: symbols, // Send symbols instead of tokens
-              timeframes: timeframes
-            };
-            console.log('📤 [liveDataService] Sending WebSocket subscription message:', subscriptionMessage);
-            this.wsConnection.send(JSON.stringify(subscriptionMessage));
-          } catch (error) {
-            // console.error('Error sending subscription message:', error);
-            onError?.(error as Error);
-          }
-        }
-      };
-
-      this.wsConnection.onmessage = (event) => {
-        try {
-          // Validate message data
-          if (!event.data) {
-            // console.warn('Received empty WebSocket message');
-            return;
-          }
-
-          const data = JSON.parse(event.data);
-          
-          // Validate message structure
-          if (!data || typeof data !== 'object') {
-            // console.warn('Invalid message format received:', event.data);
-            return;
-          }
-
-          console.log('📥 [liveDataService] WebSocket message received:', {
-            type: data.type,
-            timestamp: new Date().toISOString(),
-            dataLength: JSON.stringify(data).length,
-            hasData: !!data.data,
-            fullData: data // Log the full data to see structure
-          });
-
-          // Process the message
-          onData(data);
-          
-        } catch (error) {
-          // console.error('Error parsing WebSocket message:', error, 'Raw data:', event.data);
-          onError?.(error as Error);
-        }
-      };
-
-      this.wsConnection.onerror = (error) => {
-        // console.error('WebSocket error:', error);
-        clearTimeout(connectionTimeout);
-        onError?.(error as Error);
-      };
-
-      this.wsConnection.onclose = (event) => {
-        // console.log('WebSocket closed:', {
-        //   code: event.code,
-        //   reason: event.reason,
-        //   wasClean: event.wasClean,
-        //   timestamp: new Date().toISOString()
-        // });
-        
-        clearTimeout(connectionTimeout);
-        onClose?.();
-        
-        // Attempt to reconnect with exponential backoff
-        if (this.reconnectAttempts < this.maxReconnectAttempts) {
-          this.reconnectAttempts++;
-          const delay = this.reconnectDelay * Math.pow(2, this.reconnectAttempts - 1);
-          // console.log(`Attempting to reconnect (${this.reconnectAttempts}/${this.maxReconnectAttempts}) in ${delay}ms...`);
-          
-          setTimeout(() => {
-            this.connectWebSocket(symbols, onData, onError, onClose, timeframes)
-              .catch(error => {
-                // console.error('Reconnection failed:', error);
-                onError?.(error as Error);
-              });
-          }, delay);
-        } else {
-          // console.log('Max reconnection attempts reached');
-          onError?.(new Error('Max reconnection attempts reached'));
+  ): () => void {
+    let wasConnected = false;
+    const listener: LiveStreamListener = {
+      onMessage: onData,
+      onError,
+      onStatusChange: (status) => {
+        if (status === 'connected') {
+          wasConnected = true;
+        } else if (wasConnected && (status === 'disconnected' || status === 'error')) {
+          wasConnected = false;
+          onClose?.();
         }
-      };
+      }
+    };
 
-      return this.wsConnection;
-      
-    } catch (error) {
-      // console.error('Failed to create WebSocket connection:', error);
-      throw error;
-    }
-  }
+    const unsubscribers = symbols.flatMap(symbol =>
+      timeframes.map(timeframe => liveStreamManager.subscribe(symbol, timeframe, listener))
+    );
 
-  // Enhanced disconnect with better cleanup
-  disconnectWebSocket(): void {
-    if (this.wsConnection) {
-      // console.log('Disconnecting WebSocket...');
-      
-      // Remove event listeners to prevent memory leaks
-      this.wsConnection.onopen = null;
-      this.wsConnection.onmessage = null;
-      this.wsConnection.onerror = null;
-      this.wsConnection.onclose = null;
-      
-      // Close the connection
-      if (this.wsConnection.readyState === WebSocket.OPEN) {
-        this.wsConnection.close(1000, 'Client disconnect');
-      }
-      
-      this.wsConnection = null;
-      this.reconnectAttempts = 0;
-    }
+    return () => {
+      unsubscribers.forEach(unsubscribe => unsubscribe());
+    };
   }
 
   // Get WebSocket health status (Data Service - Port 8000)
@@ -854,8 +721,7 @@ export function useLiveData(token: string, timeframe: string) {
   const [error, setError] = useState<string | null>(null);
   const [lastUpdate, setLastUpdate] = useState(0);
   
-  const wsRef = useRef<WebSocket | null>(null);
-  const reconnectTimeoutRef = useRef<NodeJS.Timeout | null>(null);
+  const unsubscribeRef = useRef<(() => void) | null>(null);
   const updateIntervalRef = useRef<NodeJS.Timeout | null>(null);
 
   // Convert token to symbol (you might need to implement a mapping)
@@ -896,14 +762,14 @@ export function useLiveData(token: string, timeframe: string) {
     }
   }, [token, timeframe, getSymbolFromToken]);
 
-  // Connect to WebSocket for live data
+  // Subscribe to the shared live stream
   const connectWebSocket = useCallback(async () => {
-    if (!token || wsRef.current?.readyState === WebSocket.OPEN) return;
+    if (!token || unsubscribeRef.current) return;
     
     const symbol = getSymbolFromToken(token);
     
     try {
-      wsRef.current = await liveDataService.connectWebSocket(
+      unsubscribeRef.current = liveDataService.connectWebSocket(
         [symbol],
         (wsData) => {
         // Handle incoming WebSocket data
@@ -941,17 +807,11 @@ export function useLiveData(token: string, timeframe: string) {
       },
       () => {
         // console.log('WebSocket closed');
+        // liveStreamManager reconnects and replays the subscription on its own
         setIsConnected(false);
         setIsLive(false);
-        
-        // Attempt to reconnect
-        if (reconnectTimeoutRef.current) {
-          clearTimeout(reconnectTimeoutRef.current);
-        }
-        reconnectTimeoutRef.current = setTimeout(() => {
-          connectWebSocket();
-        }, 5000);
-      }
+      },
+      [timeframe]
     );
     
     setIsConnected(true);
@@ -960,18 +820,13 @@ export function useLiveData(token: string, timeframe: string) {
       setError('Failed to connect to WebSocket');
       setIsConnected(false);
     }
-  }, [token, getSymbolFromToken]);
+  }, [token, timeframe, getSymbolFromToken]);
 
-  // Disconnect WebSocket
+  // Release the live stream subscription
   const disconnectWebSocket = useCallback(() => {
-    if (wsRef.current) {
-      liveDataService.disconnectWebSocket();
-      wsRef.current = null;
-    }
-    
-    if (reconnectTimeoutRef.current) {
-      clearTimeout(reconnectTimeoutRef.current);
-      reconnectTimeoutRef.current = null;
+    if (unsubscribeRef.current) {
+      unsubscribeRef.current();
+      unsubscribeRef.current = null;
     }
     
     if (updateIntervalRef.current) {
@@ -0,0 +1,408 @@
+// Shared WebSocket connection manager for real-time market data
+// Multiplexes every symbol/timeframe subscription in the app over a single /ws/stream socket
+import { authService } from './authService';
+import { ENDPOINTS } from '../config';
+import { marketStatusService } from './marketStatusService';
+
+// ===== TYPES & INTERFACES =====
+
+export type LiveStreamStatus = 'connecting' | 'connected' | 'disconnected' | 'error';
+
+// Raw message as sent by the Data Service stream
+export interface LiveStreamMessage {
+  type: string;
+  symbol?: string;
+  token?: string | number;
+  timeframe?: string;
+  data?: any;
+  [key: string]: any;
+}
+
+export interface LiveStreamListener {
+  onMessage: (message: LiveStreamMessage) => void;
+  onStatusChange?: (status: LiveStreamStatus) => void;
+  onError?: (error: Error) => void;
+  // Called once the socket is back after a drop and subscriptions have been replayed;
+  // anything the listener missed during the outage has to be backfilled by the listener
+  onResume?: () => void;
+}
+
+interface StreamSubscription {
+  key: string;
+  symbol: string;
+  timeframe: string;
+  listeners: Set<LiveStreamListener>;
+}
+
+const getSubscriptionKey = (symbol: string, timeframe: string): string =>
+  `${symbol.toUpperCase()}|${timeframe}`;
+
+class LiveStreamManager {
+  private ws: WebSocket | null = null;
+  private status: LiveStreamStatus = 'disconnected';
+  private subscriptions = new Map<string, StreamSubscription>();
+  private tokenToSymbol = new Map<string, string>();
+  private isConnecting = false;
+  // Set when an open socket drops while subscribers remain
+  private needsResume = false;
+  private reconnectAttempts = 0;
+  private maxReconnectAttempts = 5;
+  private reconnectDelay = 1000;
+  private reconnectTimeout: NodeJS.Timeout | null = null;
+  private idleTimeout: NodeJS.Timeout | null = null;
+  // Keep the socket open briefly after the last unsubscribe so remounts don't reconnect
+  private idleCloseDelay = 5000;
+  // Pending connect for the next pre-open while the market is shut
+  private marketOpenTimeout: NodeJS.Timeout | null = null;
+
+  // Subscribe a listener to a symbol/timeframe pair. Returns an unsubscribe function.
+  subscribe(symbol: string, timeframe: string, listener: LiveStreamListener): () => void {
+    const key = getSubscriptionKey(symbol, timeframe);
+    let subscription = this.subscriptions.get(key);
+    const isNewSubscription = !subscription;
+
+    if (!subscription) {
+      subscription = {
+        key,
+        symbol: symbol.toUpperCase(),
+        timeframe,
+        listeners: new Set()
+      };
+      this.subscriptions.set(key, subscription);
+    }
+
+    subscription.listeners.add(listener);
+    listener.onStatusChange?.(this.status);
+
+    if (isNewSubscription) {
+      this.sendSubscription('subscribe', [subscription]);
+    }
+
+    // A fresh subscriber gets a fresh set of reconnect attempts after a give-up
+    if (this.status === 'error') {
+      this.reconnectAttempts = 0;
+    }
+    this.ensureConnected();
+
+    let isActive = true;
+    return () => {
+      if (!isActive) return;
+      isActive = false;
+      this.removeListener(key, listener);
+    };
+  }
+
+  getStatus(): LiveStreamStatus {
+    return this.status;
+  }
+
+  getSubscriptionCount(): number {
+    return this.subscriptions.size;
+  }
+
+  private removeListener(key: string, listener: LiveStreamListener): void {
+    const subscription = this.subscriptions.get(key);
+    if (!subscription) return;
+
+    subscription.listeners.delete(listener);
+    if (subscription.listeners.size > 0) return;
+
+    // Last subscriber for this symbol/timeframe is gone
+    this.subscriptions.delete(key);
+    this.sendSubscription('unsubscribe', [subscription]);
+
+    if (this.subscriptions.size === 0) {
+      this.scheduleIdleClose();
+    }
+  }
+
+  private ensureConnected(): void {
+    if (this.idleTimeout) {
+      clearTimeout(this.idleTimeout);
+      this.idleTimeout = null;
+    }
+
+    if (this.isConnecting || this.reconnectTimeout) return;
+    if (this.ws && (this.ws.readyState === WebSocket.OPEN || this.ws.readyState === WebSocket.CONNECTING)) return;
+
+    // Nothing streams while the market is shut; connect when the next pre-open starts
+    if (!marketStatusService.isLiveWindow()) {
+      this.deferUntilLiveWindow();
+      return;
+    }
+
+    this.connect().catch(error => {
+      this.notifyError(error instanceof Error ? error : new Error('Failed to connect to live stream'));
+      this.scheduleReconnect();
+    });
+  }
+
+  private async connect(): Promise<void> {
+    this.isConnecting = true;
+    this.setStatus('connecting');
+
+    let token: string;
+    try {
+      token = await authService.ensureAuthenticated();
+      if (!token) {
+        throw new Error('Authentication token not available for WebSocket connection');
+      }
+    } catch (error) {
+      this.isConnecting = false;
+      throw new Error('Authentication failed for WebSocket connection');
+    }
+
+    // Everyone may have unsubscribed while we were authenticating
+    if (this.subscriptions.size === 0) {
+      this.isConnecting = false;
+      this.setStatus('disconnected');
+      return;
+    }
+
+    const ws = new WebSocket(`${ENDPOINTS.DATA.WEBSOCKET}?token=${token}`);
+    this.ws = ws;
+    this.isConnecting = false;
+
+    const connectionTimeout = setTimeout(() => {
+      if (ws.readyState === WebSocket.CONNECTING) {
+        ws.close();
+        this.notifyError(new Error('Connection timeout'));
+      }
+    }, 10000); // 10 second timeout
+
+    ws.onopen = () => {
+      clearTimeout(connectionTimeout);
+      this.reconnectAttempts = 0;
+      this.setStatus('connected');
+      // Replay every active subscription on the fresh socket
+      this.sendSubscription('subscribe', Array.from(this.subscriptions.values()));
+
+      if (this.needsResume) {
+        this.needsResume = false;
+        this.subscriptions.forEach(subscription => {
+          subscription.listeners.forEach(listener => listener.onResume?.());
+        });
+      }
+    };
+
+    ws.onmessage = (event) => {
+      if (!event.data) return;
+
+      let message: LiveStreamMessage;
+      try {
+        message = JSON.parse(event.data);
+      } catch (error) {
+        this.notifyError(error as Error);
+        return;
+      }
+
+      if (!message || typeof message !== 'object') return;
+      this.routeMessage(message);
+    };
+
+    ws.onerror = () => {
+      clearTimeout(connectionTimeout);
+      this.notifyError(new Error('WebSocket connection error'));
+    };
+
+    ws.onclose = () => {
+      clearTimeout(connectionTimeout);
+      if (this.ws !== ws) return;
+      this.ws = null;
+
+      if (this.subscriptions.size === 0) {
+        this.setStatus('disconnected');
+        return;
+      }
+
+      if (this.status === 'connected') {
+        this.needsResume = true;
+      }
+      this.scheduleReconnect();
+    };
+  }
+
+  private scheduleReconnect(): void {
+    if (this.reconnectTimeout) return;
+
+    // Don't burn reconnect attempts on a closed market; resume (and backfill) at the next session
+    if (!marketStatusService.isLiveWindow()) {
+      this.deferUntilLiveWindow();
+      return;
+    }
+
+    if (this.reconnectAttempts >= this.maxReconnectAttempts) {
+      this.setStatus('error');
+      this.notifyError(new Error('Max reconnection attempts reached'));
+      return;
+    }
+
+    this.reconnectAttempts++;
+    const delay = this.reconnectDelay * Math.pow(2, this.reconnectAttempts - 1);
+    this.setStatus('disconnected');
+
+    this.reconnectTimeout = setTimeout(() => {
+      this.reconnectTimeout = null;
+      if (this.subscriptions.size === 0) {
+        this.setStatus('disconnected');
+        return;
+      }
+      this.ensureConnected();
+    }, delay);
+  }
+
+  private deferUntilLiveWindow(): void {
+    this.setStatus('disconnected');
+    if (this.marketOpenTimeout) return;
+
+    const delay = Math.max(1000, marketStatusService.getTimeUntilLiveWindow());
+
+    this.marketOpenTimeout = setTimeout(() => {
+      this.marketOpenTimeout = null;
+      if (this.subscriptions.size === 0) return;
+      this.reconnectAttempts = 0;
+      this.ensureConnected();
+    }, delay);
+  }
+
+  private scheduleIdleClose(): void {
+    if (this.idleTimeout) {
+      clearTimeout(this.idleTimeout);
+    }
+
+    this.idleTimeout = setTimeout(() => {
+      this.idleTimeout = null;
+      if (this.subscriptions.size === 0) {
+        this.close();
+      }
+    }, this.idleCloseDelay);
+  }
+
+  private close(): void {
+    if (this.reconnectTimeout) {
+      clearTimeout(this.reconnectTimeout);
+      this.reconnectTimeout = null;
+    }
+    if (this.marketOpenTimeout) {
+      clearTimeout(this.marketOpenTimeout);
+      this.marketOpenTimeout = null;
+    }
+
+    if (this.ws) {
+      const ws = this.ws;
+      this.ws = null;
+      ws.onopen = null;
+      ws.onmessage = null;
+      ws.onerror = null;
+      ws.onclose = null;
+      if (ws.readyState === WebSocket.OPEN || ws.readyState === WebSocket.CONNECTING) {
+        ws.close(1000, 'Client disconnect');
+      }
+    }
+
+    this.reconnectAttempts = 0;
+    this.needsResume = false;
+    this.setStatus('disconnected');
+  }
+
+  // Send subscribe/unsubscribe actions grouped by timeframe so the backend
+  // never subscribes a symbol to a timeframe nobody asked for
+  private sendSubscription(action: 'subscribe' | 'unsubscribe', subscriptions: StreamSubscription[]): void {
+    if (!this.ws || this.ws.readyState !== WebSocket.OPEN || subscriptions.length === 0) return;
+
+    const symbolsByTimeframe = new Map<string, string[]>();
+    subscriptions.forEach(subscription => {
+      const symbols = symbolsByTimeframe.get(subscription.timeframe) || [];
+      symbols.push(subscription.symbol);
+      symbolsByTimeframe.set(subscription.timeframe, symbols);
+    });
+
+    symbolsByTimeframe.forEach((symbols, timeframe) => {
+      const message = { action, symbols, timeframes: [timeframe] };
+      try {
+        this.ws?.send(JSON.stringify(message));
+      } catch (error) {
+        this.notifyError(error as Error);
+      }
+    });
+  }
+
+  private routeMessage(message: LiveStreamMessage): void {
+    switch (message.type) {
+      case 'candle':
+      case 'tick':
+        this.findTargets(message).forEach(subscription => {
+          subscription.listeners.forEach(listener => listener.onMessage(message));
+        });
+        break;
+      case 'subscribed':
+        this.rememberTokens(message);
+        this.setStatus('connected');
+        break;
+      case 'error': {
+        const targets = this.findTargets(message);
+        (targets.length > 0 ? targets : Array.from(this.subscriptions.values())).forEach(subscription => {
+          subscription.listeners.forEach(listener => listener.onMessage(message));
+        });
+        break;
+      }
+      case 'heartbeat':
+      default:
+        break;
+    }
+  }
+
+  // Learn token -> symbol pairs from subscription acknowledgements
+  private rememberTokens(message: LiveStreamMessage): void {
+    const tokens: unknown = message.tokens;
+    const symbols: unknown = message.symbols;
+    if (!Array.isArray(tokens) || !Array.isArray(symbols) || tokens.length !== symbols.length) return;
+
+    tokens.forEach((token, index) => {
+      this.tokenToSymbol.set(String(token), String(symbols[index]).toUpperCase());
+    });
+  }
+
+  private findTargets(message: LiveStreamMessage): StreamSubscription[] {
+    const payload = message.data && typeof message.data === 'object' ? message.data : {};
+    const symbol: string | undefined = message.symbol ?? payload.symbol ?? payload.tradingsymbol;
+    const token = message.token ?? payload.token ?? payload.instrument_token;
+    const timeframe: string | undefined = message.timeframe ?? payload.timeframe ?? payload.interval;
+
+    let targets = Array.from(this.subscriptions.values());
+    const resolvedSymbol = symbol
+      ? symbol.toUpperCase()
+      : token !== undefined ? this.tokenToSymbol.get(String(token)) : undefined;
+
+    if (resolvedSymbol) {
+      targets = targets.filter(subscription => subscription.symbol === resolvedSymbol);
+    } else if (new Set(targets.map(subscription => subscription.symbol)).size > 1) {
+      // Unroutable message while several symbols are live - drop it rather than mix feeds
+      console.warn('⚠️ [liveStreamManager] Dropping message without symbol/token:', message.type);
+      return [];
+    }
+
+    // Candles belong to a single timeframe; ticks feed every timeframe of the symbol
+    if (message.type === 'candle' && timeframe) {
+      targets = targets.filter(subscription => subscription.timeframe === timeframe);
+    }
+
+    return targets;
+  }
+
+  private setStatus(status: LiveStreamStatus): void {
+    if (this.status === status) return;
+    this.status = status;
+    this.subscriptions.forEach(subscription => {
+      subscription.listeners.forEach(listener => listener.onStatusChange?.(status));
+    });
+  }
+
+  private notifyError(error: Error): void {
+    this.subscriptions.forEach(subscription => {
+      subscription.listeners.forEach(listener => listener.onError?.(error));
+    });
+  }
+}
+
+export const liveStreamManager = new LiveStreamManager();
@@ -0,0 +1,130 @@
+// Market session for the whole app: the local NSE/BSE calendar, corrected by the Data Service's
+// /market/status for days the calendar can't know about (special sessions, unscheduled closures)
+import { apiService } from './api';
+import { MarketPhase, MarketSession, getMarketSession } from '@/utils/marketCalendar';
+
+// ===== TYPES & INTERFACES =====
+
+export type MarketSessionListener = (session: MarketSession) => void;
+
+interface ExchangeStatus {
+  phase: MarketPhase;
+  validUntil: number; // ms - the override never outlives the calendar's next phase change
+}
+
+// ===== CONSTANTS =====
+
+const STATUS_REFRESH_MS = 15 * 60 * 1000;
+// Fire phase-change timers slightly late so the calendar has already moved on
+const PHASE_CHANGE_SLACK_MS = 1000;
+
+// Data Service status strings vary ('OPEN', 'pre_open', 'closed', 'post-close'); unknown ones are ignored
+const toMarketPhase = (status: string | undefined): MarketPhase | null => {
+  const value = (status || '').toLowerCase();
+  if (value.includes('close') || value.includes('halt') || value.includes('suspend')) return 'closed';
+  if (value.includes('pre')) return 'pre-open';
+  if (value.includes('open')) return 'open';
+  return null;
+};
+
+class MarketStatusService {
+  private listeners = new Set<MarketSessionListener>();
+  private exchangeStatus: ExchangeStatus | null = null;
+  private lastPhase: MarketPhase | null = null;
+  private phaseTimeout: NodeJS.Timeout | null = null;
+  private refreshInterval: NodeJS.Timeout | null = null;
+  private isRefreshing = false;
+
+  getSession(now: number = Date.now()): MarketSession {
+    const session = getMarketSession(now);
+    const status = this.exchangeStatus;
+    if (!status || now >= status.validUntil || status.phase === session.phase) return session;
+
+    if (status.phase === 'closed') {
+      // Unscheduled closure: the next session is whatever the calendar has after today's close
+      return { ...getMarketSession(session.closesAt), holiday: session.holiday, isWeekend: session.isWeekend, source: 'exchange' };
+    }
+    return { ...session, phase: status.phase, nextChangeAt: status.validUntil, source: 'exchange' };
+  }
+
+  isMarketOpen(now: number = Date.now()): boolean {
+    return this.getSession(now).phase === 'open';
+  }
+
+  // Pre-open and continuous trading - the window in which live ticks can arrive
+  isLiveWindow(now: number = Date.now()): boolean {
+    return this.getSession(now).phase !== 'closed';
+  }
+
+  // ms until the next live window starts; 0 while inside one
+  getTimeUntilLiveWindow(now: number = Date.now()): number {
+    const session = this.getSession(now);
+    return session.phase === 'closed' ? Math.max(0, session.nextChangeAt - now) : 0;
+  }
+
+  // Notified whenever the phase changes. Listeners keep the exchange status refreshed while subscribed.
+  subscribe(listener: MarketSessionListener): () => void {
+    this.listeners.add(listener);
+    if (this.listeners.size === 1) {
+      this.lastPhase = this.getSession().phase;
+      this.schedulePhaseChange();
+      this.refreshExchangeStatus();
+      this.refreshInterval = setInterval(() => this.refreshExchangeStatus(), STATUS_REFRESH_MS);
+    }
+
+    return () => {
+      this.listeners.delete(listener);
+      if (this.listeners.size > 0) return;
+      if (this.phaseTimeout) {
+        clearTimeout(this.phaseTimeout);
+        this.phaseTimeout = null;
+      }
+      if (this.refreshInterval) {
+        clearInterval(this.refreshInterval);
+        this.refreshInterval = null;
+      }
+    };
+  }
+
+  async refreshExchangeStatus(): Promise<void> {
+    if (this.isRefreshing) return;
+    this.isRefreshing = true;
+    try {
+      const response = await apiService.getMarketStatus();
+      const phase = response?.success === false ? null : toMarketPhase(response?.status);
+      const calendar = getMarketSession();
+      this.exchangeStatus = phase
+        ? { phase, validUntil: Math.min(calendar.nextChangeAt, Date.now() + 2 * STATUS_REFRESH_MS) }
+        : null;
+    } catch (error) {
+      // The calendar alone is good enough; keep whatever we had until it expires
+      console.warn('⚠️ [marketStatusService] Market status unavailable, using the local calendar:', error);
+    } finally {
+      this.isRefreshing = false;
+      this.checkPhase();
+    }
+  }
+
+  private schedulePhaseChange(): void {
+    if (this.phaseTimeout) clearTimeout(this.phaseTimeout);
+    const delay = Math.max(0, this.getSession().nextChangeAt - Date.now()) + PHASE_CHANGE_SLACK_MS;
+    this.phaseTimeout = setTimeout(() => {
+      this.phaseTimeout = null;
+      this.checkPhase();
+      // Confirm every calendar transition with the exchange
+      this.refreshExchangeStatus();
+    }, delay);
+  }
+
+  private checkPhase(): void {
+    if (this.listeners.size === 0) return;
+    const session = this.getSession();
+    this.schedulePhaseChange();
+    if (session.phase === this.lastPhase) return;
+
+    this.lastPhase = session.phase;
+    this.listeners.forEach(listener => listener(session));
+  }
+}
+
+export const marketStatusService = new MarketStatusService();
@@ -0,0 +1,53 @@
+// Streams live prices for every symbol the paper portfolio has a pending or open position in.
+// The engine only watches prices; fills and exits are applied by the store.
+import { liveStreamManager } from './liveStreamManager';
+import { getStreamMessagePrice } from './alertEngine';
+
+// ===== TYPES & INTERFACES =====
+
+export type PaperPriceListener = (symbol: string, price: number) => void;
+
+// ===== CONSTANTS =====
+
+const PRICE_STREAM_TIMEFRAME = '1day';
+
+class PaperTradingEngine {
+  private feeds = new Map<string, () => void>();
+  private listeners = new Set<PaperPriceListener>();
+
+  // Replace the watched symbols; subscriptions are added and dropped to match
+  setSymbols(symbols: string[]): void {
+    const needed = new Set(symbols.map(symbol => symbol.toUpperCase()));
+
+    this.feeds.forEach((unsubscribe, symbol) => {
+      if (needed.has(symbol)) return;
+      unsubscribe();
+      this.feeds.delete(symbol);
+    });
+
+    needed.forEach(symbol => {
+      if (this.feeds.has(symbol)) return;
+      const unsubscribe = liveStreamManager.subscribe(symbol, PRICE_STREAM_TIMEFRAME, {
+        onMessage: message => {
+          const price = getStreamMessagePrice(message);
+          if (price === null) return;
+          this.listeners.forEach(listener => listener(symbol, price));
+        }
+      });
+      this.feeds.set(symbol, unsubscribe);
+    });
+  }
+
+  onPrice(listener: PaperPriceListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  stop(): void {
+    this.setSymbols([]);
+  }
+}
+
+export const paperTradingEngine = new PaperTradingEngine();
@@ -0,0 +1,68 @@
+import { PaperPortfolio } from '@/types/paperTrading';
+import { isRecord, profilePreferencesService } from './profilePreferencesService';
+
+// The paper portfolio lives in profiles.preferences.paper_portfolio so it follows the user across
+// devices; localStorage mirrors it for instant startup and for signed-out use.
+const PREFERENCES_KEY = 'paper_portfolio';
+const STORAGE_PREFIX = 'paperPortfolio';
+
+const isPortfolio = (value: unknown): value is PaperPortfolio =>
+  isRecord(value) && typeof value.startingCapital === 'number' && Array.isArray(value.positions);
+
+class PaperTradingService {
+  async loadPortfolio(userId: string | null | undefined): Promise<PaperPortfolio | null> {
+    const local = this.readLocal(this.getKey(userId));
+    if (!userId) return local;
+
+    try {
+      const remote = await profilePreferencesService.getKey(userId, PREFERENCES_KEY);
+      if (isPortfolio(remote)) {
+        // Price updates only save locally, so whichever copy changed last wins
+        if (local && Date.parse(local.updatedAt) > Date.parse(remote.updatedAt)) return local;
+        this.writeLocal(this.getKey(userId), remote);
+        return remote;
+      }
+    } catch (error) {
+      console.warn('⚠️ [paperTradingService] Failed to load portfolio, using local copy:', error);
+    }
+    return local;
+  }
+
+  async savePortfolio(userId: string | null | undefined, portfolio: PaperPortfolio): Promise<void> {
+    this.saveLocal(userId, portfolio);
+    if (!userId) return;
+
+    await profilePreferencesService.updateKey(userId, PREFERENCES_KEY, portfolio);
+  }
+
+  // Mark-to-market updates change lastPrice on every tick; those stay on the device
+  saveLocal(userId: string | null | undefined, portfolio: PaperPortfolio): void {
+    this.writeLocal(this.getKey(userId), portfolio);
+  }
+
+  private getKey(userId: string | null | undefined): string {
+    return `${STORAGE_PREFIX}:${userId || 'anonymous'}`;
+  }
+
+  private readLocal(key: string): PaperPortfolio | null {
+    try {
+      const stored = localStorage.getItem(key);
+      if (!stored) return null;
+      const parsed = JSON.parse(stored);
+      return isPortfolio(parsed) ? parsed : null;
+    } catch (error) {
+      console.warn(`⚠️ [paperTradingService] Failed to read ${key}:`, error);
+      return null;
+    }
+  }
+
+  private writeLocal(key: string, portfolio: PaperPortfolio): void {
+    try {
+      localStorage.setItem(key, JSON.stringify(portfolio));
+    } catch (error) {
+      console.warn(`⚠️ [paperTradingService] Failed to write ${key}:`, error);
+    }
+  }
+}
+
+export const paperTradingService = new PaperTradingService();
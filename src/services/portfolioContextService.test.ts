@@ -0,0 +1,70 @@
+import { describe, expect, it, vi } from 'vitest';
+import { AnalysisRequest } from '@/types/analysis';
+import { PortfolioHolding } from '@/types/portfolio';
+import { getISTDateKey } from '@/utils/marketCalendar';
+import { portfolioContextService } from './portfolioContextService';
+
+// No network here: no price history and no sector for any symbol
+vi.mock('./api', () => ({
+  apiService: { getStockSector: vi.fn().mockResolvedValue({ success: false }) }
+}));
+vi.mock('./historicalSeriesService', () => ({
+  historicalSeriesService: { getCandles: vi.fn().mockResolvedValue([]) }
+}));
+
+// ===== FIXTURES =====
+
+const NOW = Date.parse('2026-10-19T20:00:00Z'); // Already Oct 20 in IST
+const DAY_MS = 86400000;
+
+const holdings: PortfolioHolding[] = [
+  {
+    id: 'holding-1',
+    symbol: 'TCS',
+    quantity: 10,
+    averagePrice: 4000,
+    side: 'long',
+    sector: 'IT',
+    source: 'manual',
+    updatedAt: '2026-10-01T00:00:00Z'
+  }
+];
+
+const createPayload = (endDate?: string): AnalysisRequest => ({
+  stock: 'RELIANCE',
+  exchange: 'NSE',
+  period: 365,
+  interval: 'day',
+  sector: 'Energy',
+  portfolio_value: 1000000,
+  ...(endDate ? { end_date: endDate } : {})
+});
+
+// ===== CONTEXT =====
+
+describe('portfolioContextService.attachContext', () => {
+  it('attaches the context to a payload ending today (IST)', async () => {
+    const payload = createPayload(getISTDateKey(NOW));
+    await portfolioContextService.attachContext(payload, holdings, NOW);
+    expect(payload.portfolio_context?.candidate.symbol).toBe('RELIANCE');
+    expect(payload.portfolio_context?.holdings.map(holding => holding.symbol)).toContain('TCS');
+  });
+
+  it('attaches the context when no end date is set', async () => {
+    const payload = createPayload();
+    await portfolioContextService.attachContext(payload, holdings, NOW);
+    expect(payload.portfolio_context).toBeTruthy();
+  });
+
+  it('leaves a payload ending before today (IST) without context', async () => {
+    const payload = createPayload(getISTDateKey(NOW - DAY_MS));
+    expect(await portfolioContextService.attachContext(payload, holdings, NOW)).toBeNull();
+    expect(payload.portfolio_context).toBeUndefined();
+  });
+
+  it('leaves the payload alone without holdings', async () => {
+    const payload = createPayload(getISTDateKey(NOW));
+    expect(await portfolioContextService.attachContext(payload, [], NOW)).toBeNull();
+    expect(payload.portfolio_context).toBeUndefined();
+  });
+});
@@ -0,0 +1,153 @@
+// Builds the portfolio context sent with an analysis request: sector exposure of the user's holdings
+// and how the analysed stock's daily returns correlate with them. Contexts are also kept per analysis
+// on this device so the output can show the concentration impact after the request is gone.
+import { apiService } from './api';
+import { historicalSeriesService } from './historicalSeriesService';
+import { AnalysisRequest } from '@/types/analysis';
+import { PortfolioContext, PortfolioHolding } from '@/types/portfolio';
+import { isPastISTDate } from '@/utils/marketCalendar';
+import { MAX_CORRELATED_HOLDINGS, buildPortfolioContext, normalizeHoldingSymbol } from '@/utils/portfolioHoldings';
+import { ReturnSeries, getDailyReturns } from '@/utils/portfolioRisk';
+
+// ===== CONSTANTS =====
+
+// About six months of sessions
+const LOOKBACK_BARS = 126;
+const SNAPSHOT_KEY = 'analysisPortfolioContexts';
+const MAX_SNAPSHOTS = 50;
+
+interface ContextSnapshot {
+  analysisId: string;
+  savedAt: number;
+  context: PortfolioContext;
+}
+
+export interface PortfolioContextResult {
+  context: PortfolioContext;
+  // Sectors resolved for holdings that had none, to cache on the holdings
+  resolvedSectors: Record<string, string | null>;
+}
+
+class PortfolioContextService {
+  // Sector lookups rarely change within a session
+  private sectorCache = new Map<string, string | null>();
+
+  // Holdings are today's book, so an analysis ending before today (IST) gets no context.
+  // Resolves to the sectors looked up for the holdings, or null when nothing was attached.
+  async attachContext(
+    payload: AnalysisRequest,
+    holdings: PortfolioHolding[],
+    now: number = Date.now()
+  ): Promise<Record<string, string | null> | null> {
+    if (holdings.length === 0 || isPastISTDate(payload.end_date, now)) return null;
+
+    const { context, resolvedSectors } = await this.buildContext(
+      holdings,
+      { symbol: payload.stock, sector: payload.sector || null },
+      payload.portfolio_value,
+      payload.exchange
+    );
+    payload.portfolio_context = context;
+    return resolvedSectors;
+  }
+
+  async buildContext(
+    holdings: PortfolioHolding[],
+    candidate: { symbol: string; sector: string | null },
+    portfolioValue: number,
+    exchange = 'NSE'
+  ): Promise<PortfolioContextResult> {
+    const candidateSymbol = normalizeHoldingSymbol(candidate.symbol);
+
+    // Return history only for the largest holdings (by cost) and the analysed stock
+    const ranked = [...holdings].sort((a, b) => b.quantity * b.averagePrice - a.quantity * a.averagePrice);
+    const historySymbols = Array.from(new Set([
+      candidateSymbol,
+      ...ranked.slice(0, MAX_CORRELATED_HOLDINGS).map(holding => holding.symbol)
+    ]));
+    const sectorSymbols = Array.from(new Set([
+      ...holdings.filter(holding => !holding.sector).map(holding => holding.symbol),
+      ...(candidate.sector ? [] : [candidateSymbol])
+    ]));
+
+    const [histories, sectorResults] = await Promise.all([
+      Promise.allSettled(historySymbols.map(symbol =>
+        historicalSeriesService.getCandles(symbol, exchange, '1d', LOOKBACK_BARS + 1)
+      )),
+      Promise.all(sectorSymbols.map(symbol => this.getSector(symbol)))
+    ]);
+
+    const prices: Record<string, number> = {};
+    const returns: Record<string, ReturnSeries> = {};
+    histories.forEach((result, i) => {
+      if (result.status !== 'fulfilled' || result.value.length === 0) {
+        if (result.status === 'rejected') {
+          console.warn(`⚠️ [portfolioContextService] No history for ${historySymbols[i]}:`, result.reason);
+        }
+        return;
+      }
+      const candles = result.value;
+      prices[historySymbols[i]] = candles[candles.length - 1].close;
+      returns[historySymbols[i]] = getDailyReturns(candles);
+    });
+
+    const resolvedSectors: Record<string, string | null> = {};
+    sectorSymbols.forEach((symbol, i) => {
+      resolvedSectors[symbol] = sectorResults[i];
+    });
+
+    return {
+      context: buildPortfolioContext({
+        holdings,
+        candidate: { symbol: candidateSymbol, sector: candidate.sector },
+        portfolioValue,
+        lookbackDays: LOOKBACK_BARS,
+        prices,
+        sectors: resolvedSectors,
+        returns
+      }),
+      resolvedSectors
+    };
+  }
+
+  saveSnapshot(analysisId: string, context: PortfolioContext): void {
+    const snapshots = this.readSnapshots().filter(snapshot => snapshot.analysisId !== analysisId);
+    snapshots.unshift({ analysisId, savedAt: Date.now(), context });
+    try {
+      localStorage.setItem(SNAPSHOT_KEY, JSON.stringify(snapshots.slice(0, MAX_SNAPSHOTS)));
+    } catch (error) {
+      console.warn('⚠️ [portfolioContextService] Failed to save context snapshot:', error);
+    }
+  }
+
+  getSnapshot(analysisId: string | null | undefined): PortfolioContext | null {
+    if (!analysisId) return null;
+    return this.readSnapshots().find(snapshot => snapshot.analysisId === analysisId)?.context ?? null;
+  }
+
+  async getSector(symbol: string): Promise<string | null> {
+    if (this.sectorCache.has(symbol)) return this.sectorCache.get(symbol) ?? null;
+    try {
+      const response = await apiService.getStockSector(symbol);
+      const sector = response.success ? response.sector_info?.sector || null : null;
+      this.sectorCache.set(symbol, sector);
+      return sector;
+    } catch {
+      // Left unclassified; not cached so the next request tries again
+      return null;
+    }
+  }
+
+  private readSnapshots(): ContextSnapshot[] {
+    try {
+      const stored = localStorage.getItem(SNAPSHOT_KEY);
+      const parsed = stored ? JSON.parse(stored) : [];
+      return Array.isArray(parsed) ? parsed : [];
+    } catch (error) {
+      console.warn('⚠️ [portfolioContextService] Failed to read context snapshots:', error);
+      return [];
+    }
+  }
+}
+
+export const portfolioContextService = new PortfolioContextService();
@@ -0,0 +1,69 @@
+// Fetches aligned daily history for the user's holdings and the benchmark index and turns it into
+// the portfolio risk report: VaR, betas, risk contributions, drawdown and portfolio-wide shocks.
+import { CandleData } from './api';
+import { historicalSeriesService } from './historicalSeriesService';
+import { portfolioContextService } from './portfolioContextService';
+import { PortfolioHolding } from '@/types/portfolio';
+import { PortfolioRiskReport } from '@/types/portfolioRisk';
+import { MAX_RISK_HOLDINGS, buildPortfolioRiskReport } from '@/utils/portfolioRiskReport';
+
+// ===== CONSTANTS =====
+
+// A year of sessions
+const LOOKBACK_BARS = 252;
+const BENCHMARK_SYMBOL = 'NIFTY 50';
+
+export interface PortfolioRiskResult {
+  report: PortfolioRiskReport;
+  // Sectors resolved for holdings that had none, to cache on the holdings
+  resolvedSectors: Record<string, string | null>;
+}
+
+class PortfolioRiskService {
+  async buildReport(holdings: PortfolioHolding[], exchange = 'NSE'): Promise<PortfolioRiskResult> {
+    // Candles only for the largest holdings by cost
+    const ranked = [...holdings].sort((a, b) => b.quantity * b.averagePrice - a.quantity * a.averagePrice);
+    const symbols = Array.from(new Set(ranked.map(holding => holding.symbol))).slice(0, MAX_RISK_HOLDINGS);
+    const sectorSymbols = Array.from(new Set(holdings.filter(holding => !holding.sector).map(holding => holding.symbol)));
+
+    const [histories, benchmarkResult, sectorResults] = await Promise.all([
+      Promise.allSettled(symbols.map(symbol => historicalSeriesService.getCandles(symbol, exchange, '1d', LOOKBACK_BARS + 1))),
+      historicalSeriesService.getCandles(BENCHMARK_SYMBOL, 'NSE', '1d', LOOKBACK_BARS + 1).then(
+        candles => candles,
+        error => {
+          console.warn(`⚠️ [portfolioRiskService] Failed to load ${BENCHMARK_SYMBOL}, betas will be missing:`, error);
+          return null;
+        }
+      ),
+      Promise.all(sectorSymbols.map(symbol => portfolioContextService.getSector(symbol)))
+    ]);
+
+    const candles: Record<string, CandleData[]> = {};
+    histories.forEach((result, i) => {
+      if (result.status === 'rejected') {
+        console.warn(`⚠️ [portfolioRiskService] No history for ${symbols[i]}:`, result.reason);
+      }
+      candles[symbols[i]] = result.status === 'fulfilled' ? result.value : [];
+    });
+
+    const resolvedSectors: Record<string, string | null> = {};
+    sectorSymbols.forEach((symbol, i) => {
+      resolvedSectors[symbol] = sectorResults[i];
+    });
+
+    const report = buildPortfolioRiskReport({
+      holdings,
+      candles,
+      benchmark: BENCHMARK_SYMBOL,
+      benchmarkCandles: benchmarkResult && benchmarkResult.length > 0 ? benchmarkResult : null,
+      sectors: resolvedSectors,
+      lookbackDays: LOOKBACK_BARS
+    });
+    if (!report) {
+      throw new Error('Your holdings share too little daily price history to estimate portfolio risk.');
+    }
+    return { report, resolvedSectors };
+  }
+}
+
+export const portfolioRiskService = new PortfolioRiskService();
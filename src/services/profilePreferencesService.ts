@@ -0,0 +1,67 @@
+import { supabase } from '@/integrations/supabase/client';
+import { Json, TablesUpdate } from '@/integrations/supabase/types';
+
+// profiles.preferences is one jsonb column shared by drawings, alerts, watchlists, the paper portfolio,
+// holdings and chart indicators. Every write goes through updateKey: writes for a user run one at a
+// time, and each re-reads the column and replaces only its own key, so no feature reverts another's.
+
+// Other profile columns a preferences write may update alongside its key
+type ProfileColumns = Omit<TablesUpdate<'profiles'>, 'preferences' | 'id'>;
+
+// Returning undefined removes the key
+type PreferenceUpdater = (current: unknown) => unknown;
+
+export const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+class ProfilePreferencesService {
+  private queues = new Map<string, Promise<void>>();
+
+  async getPreferences(userId: string): Promise<Record<string, unknown>> {
+    const { data, error } = await supabase
+      .from('profiles')
+      .select('preferences')
+      .eq('id', userId)
+      .maybeSingle();
+
+    if (error) throw error;
+    return isRecord(data?.preferences) ? data.preferences : {};
+  }
+
+  async getKey(userId: string, key: string): Promise<unknown> {
+    const preferences = await this.getPreferences(userId);
+    return preferences[key];
+  }
+
+  // value may be a function of the key's latest stored value, for features that keep a map under their key
+  updateKey(userId: string, key: string, value: unknown, columns: ProfileColumns = {}): Promise<void> {
+    const write = async () => {
+      const preferences = await this.getPreferences(userId);
+      const next = typeof value === 'function' ? (value as PreferenceUpdater)(preferences[key]) : value;
+      const patched = { ...preferences };
+      if (next === undefined) {
+        delete patched[key];
+      } else {
+        patched[key] = next;
+      }
+
+      const { error } = await supabase
+        .from('profiles')
+        .update({ ...columns, preferences: patched as unknown as Json })
+        .eq('id', userId);
+
+      if (error) throw error;
+    };
+
+    // A failed write must not block the ones queued behind it
+    const previous = this.queues.get(userId) ?? Promise.resolve();
+    const queued = previous.catch(() => undefined).then(write);
+    this.queues.set(userId, queued);
+    queued.catch(() => undefined).finally(() => {
+      if (this.queues.get(userId) === queued) this.queues.delete(userId);
+    });
+    return queued;
+  }
+}
+
+export const profilePreferencesService = new ProfilePreferencesService();
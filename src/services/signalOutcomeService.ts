@@ -0,0 +1,90 @@
+import { historicalSeriesService } from '@/services/historicalSeriesService';
+import { SignalOutcome } from '@/types/signalOutcomes';
+import { OutcomeInputs, getBarsNeeded, getOutcomeInputs, getOutcomeTimeframe, scoreSignalOutcome } from '@/utils/signalOutcomes';
+
+// Scored outcomes are cached per device; complete ones never change, open ones are rescored
+const OUTCOMES_PREFIX = 'signalOutcomes';
+
+type OutcomeMap = Record<string, SignalOutcome>;
+
+export interface ScoreOutcomesOptions {
+  onProgress?: (done: number, total: number) => void;
+  isCancelled?: () => boolean;
+}
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+class SignalOutcomeService {
+  loadOutcomes(userId: string | null | undefined): OutcomeMap {
+    const key = this.getKey(userId);
+    try {
+      const stored = localStorage.getItem(key);
+      if (!stored) return {};
+      const parsed = JSON.parse(stored);
+      if (!isRecord(parsed)) return {};
+      return Object.fromEntries(
+        Object.entries(parsed).filter(([, outcome]) => isRecord(outcome) && typeof outcome.analysisId === 'string')
+      ) as OutcomeMap;
+    } catch (error) {
+      console.warn(`⚠️ [signalOutcomeService] Failed to read ${key}:`, error);
+      return {};
+    }
+  }
+
+  saveOutcomes(userId: string | null | undefined, outcomes: OutcomeMap): void {
+    const key = this.getKey(userId);
+    try {
+      localStorage.setItem(key, JSON.stringify(outcomes));
+    } catch (error) {
+      console.warn(`⚠️ [signalOutcomeService] Failed to write ${key}:`, error);
+    }
+  }
+
+  // Scores every record without a complete outcome. Analyses of the same symbol and interval
+  // share one history request, sized for the oldest of them.
+  async scoreAnalyses(records: any[], existing: OutcomeMap, options: ScoreOutcomesOptions = {}): Promise<OutcomeMap> {
+    const outcomes: OutcomeMap = { ...existing };
+    const groups = new Map<string, OutcomeInputs[]>();
+
+    records.forEach(record => {
+      if (!record?.id || outcomes[record.id]?.status === 'complete') return;
+      const inputs = getOutcomeInputs(record);
+      if (!inputs) return;
+      const key = `${inputs.exchange}:${inputs.symbol}:${inputs.interval}`;
+      groups.set(key, [...(groups.get(key) || []), inputs]);
+    });
+
+    const total = groups.size;
+    let done = 0;
+    options.onProgress?.(done, total);
+
+    for (const group of groups.values()) {
+      if (options.isCancelled?.()) break;
+      const { symbol, exchange, interval } = group[0];
+      const now = Date.now();
+      const bars = Math.max(...group.map(inputs => getBarsNeeded(inputs, now)));
+
+      try {
+        const candles = await historicalSeriesService.getCandles(symbol, exchange, getOutcomeTimeframe(interval), bars);
+        group.forEach(inputs => {
+          outcomes[inputs.analysisId] = scoreSignalOutcome(inputs, candles, now);
+        });
+      } catch (error) {
+        // Left unscored so the next run tries again
+        console.warn(`⚠️ [signalOutcomeService] Failed to score ${symbol} (${interval}):`, error);
+      }
+
+      done += 1;
+      options.onProgress?.(done, total);
+    }
+
+    return outcomes;
+  }
+
+  private getKey(userId: string | null | undefined): string {
+    return `${OUTCOMES_PREFIX}:${userId || 'anonymous'}`;
+  }
+}
+
+export const signalOutcomeService = new SignalOutcomeService();
@@ -6,13 +6,25 @@
  */
 
 import { supabase } from '@/integrations/supabase/client';
-import { transformDatabaseRecord, SimplifiedDatabaseRecord } from '@/utils/databaseDataTransformer';
+import { transformDatabaseRecord, SimplifiedDatabaseRecord, TransformedAnalysisData } from '@/utils/databaseDataTransformer';
 import { AnalysisData } from '@/types/analysis';
+import { analysisMirrorService } from './analysisMirrorService';
+import { MirroredAnalysis } from '@/types/analysisMirror';
+
+// Mirrored rows keep the table's columns; shared ones have no owner and the mirror never tracks updates
+const toDatabaseRecord = (record: MirroredAnalysis): SimplifiedDatabaseRecord => ({
+  id: record.id,
+  user_id: record.user_id ?? '',
+  stock_symbol: record.stock_symbol,
+  analysis_data: record.analysis_data,
+  created_at: record.created_at,
+  updated_at: record.created_at
+});
 
 export interface SimplifiedAnalysisService {
-  getAnalysisById(analysisId: string): Promise<AnalysisData | null>;
-  getUserAnalyses(userId: string, limit?: number): Promise<AnalysisData[]>;
-  getStockAnalyses(stockSymbol: string, limit?: number): Promise<AnalysisData[]>;
+  getAnalysisById(analysisId: string): Promise<TransformedAnalysisData | null>;
+  getUserAnalyses(userId: string, limit?: number): Promise<TransformedAnalysisData[]>;
+  getStockAnalyses(stockSymbol: string, limit?: number): Promise<TransformedAnalysisData[]>;
   getAnalysesBySignal(signal: string, userId?: string, limit?: number): Promise<AnalysisData[]>;
   getAnalysesBySector(sector: string, userId?: string, limit?: number): Promise<AnalysisData[]>;
   getHighConfidenceAnalyses(minConfidence: number, userId?: string, limit?: number): Promise<AnalysisData[]>;
@@ -20,7 +32,11 @@ export interface SimplifiedAnalysisService {
 }
 
 class SimplifiedAnalysisServiceImpl implements SimplifiedAnalysisService {
-  async getAnalysisById(analysisId: string): Promise<AnalysisData | null> {
+  async getAnalysisById(analysisId: string): Promise<TransformedAnalysisData | null> {
+    const { data: { session } } = await supabase.auth.getSession();
+    const mirrored = await analysisMirrorService.getAnalysis(analysisId, session?.user?.id ?? null);
+    if (mirrored) return transformDatabaseRecord(toDatabaseRecord(mirrored));
+
     try {
       const { data, error } = await supabase
         .from('stock_analyses_simple')
@@ -38,7 +54,7 @@ class SimplifiedAnalysisServiceImpl implements SimplifiedAnalysisService {
     }
   }
 
-  async getUserAnalyses(userId: string, limit: number = 20): Promise<AnalysisData[]> {
+  async getUserAnalyses(userId: string, limit: number = 20): Promise<TransformedAnalysisData[]> {
     try {
       const { data, error } = await supabase
         .from('stock_analyses_simple')
@@ -53,11 +69,13 @@ class SimplifiedAnalysisServiceImpl implements SimplifiedAnalysisService {
       return data.map(record => transformDatabaseRecord(record as SimplifiedDatabaseRecord));
     } catch (error) {
       // console.error('Error fetching user analyses:', error);
-      return [];
+      // Offline: whatever the local mirror holds
+      const mirrored = await analysisMirrorService.getAnalyses(userId);
+      return mirrored.slice(0, limit).map(record => transformDatabaseRecord(toDatabaseRecord(record)));
     }
   }
 
-  async getStockAnalyses(stockSymbol: string, limit: number = 20): Promise<AnalysisData[]> {
+  async getStockAnalyses(stockSymbol: string, limit: number = 20): Promise<TransformedAnalysisData[]> {
     try {
       const { data, error } = await supabase
         .from('stock_analyses_simple')
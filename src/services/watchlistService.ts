@@ -0,0 +1,83 @@
+import { supabase } from '@/integrations/supabase/client';
+import { Watchlist } from '@/types/watchlists';
+import { isRecord, profilePreferencesService } from './profilePreferencesService';
+
+// Watchlists live in profiles.preferences.watchlists. profiles.favorite_stocks predates them and
+// stays in sync with the first list, so anything reading the column still sees the user's favourites.
+const PREFERENCES_KEY = 'watchlists';
+const STORAGE_PREFIX = 'watchlists';
+export const DEFAULT_WATCHLIST_NAME = 'Favorites';
+
+export const createWatchlistId = (): string =>
+  `watchlist-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 7)}`;
+
+export const createWatchlist = (name: string, symbols: string[] = []): Watchlist => {
+  const now = new Date().toISOString();
+  return { id: createWatchlistId(), name, symbols, createdAt: now, updatedAt: now };
+};
+
+class WatchlistService {
+  async loadWatchlists(userId: string | null | undefined): Promise<Watchlist[]> {
+    const local = this.readLocal(userId);
+    if (!userId) return local ?? [createWatchlist(DEFAULT_WATCHLIST_NAME)];
+
+    try {
+      const { data, error } = await supabase
+        .from('profiles')
+        .select('preferences, favorite_stocks')
+        .eq('id', userId)
+        .maybeSingle();
+      if (error) throw error;
+
+      const preferences = isRecord(data?.preferences) ? data.preferences : {};
+      const remote = preferences[PREFERENCES_KEY];
+      if (Array.isArray(remote) && remote.length > 0) {
+        const lists = remote as unknown as Watchlist[];
+        this.writeLocal(userId, lists);
+        return lists;
+      }
+
+      // First visit since watchlists were added - start from the existing favourites
+      const favourites = (data?.favorite_stocks || []).map(symbol => symbol.toUpperCase());
+      return [createWatchlist(DEFAULT_WATCHLIST_NAME, favourites)];
+    } catch (error) {
+      console.warn('⚠️ [watchlistService] Failed to load watchlists, using local copy:', error);
+    }
+    return local ?? [createWatchlist(DEFAULT_WATCHLIST_NAME)];
+  }
+
+  async saveWatchlists(userId: string | null | undefined, lists: Watchlist[]): Promise<void> {
+    this.writeLocal(userId, lists);
+    if (!userId) return;
+
+    await profilePreferencesService.updateKey(userId, PREFERENCES_KEY, lists, {
+      favorite_stocks: lists[0]?.symbols ?? []
+    });
+  }
+
+  private getStorageKey(userId: string | null | undefined): string {
+    return `${STORAGE_PREFIX}:${userId || 'anonymous'}`;
+  }
+
+  private readLocal(userId: string | null | undefined): Watchlist[] | null {
+    try {
+      const stored = localStorage.getItem(this.getStorageKey(userId));
+      if (!stored) return null;
+      const parsed = JSON.parse(stored);
+      return Array.isArray(parsed) && parsed.length > 0 ? parsed : null;
+    } catch (error) {
+      console.warn('⚠️ [watchlistService] Failed to read local watchlists:', error);
+      return null;
+    }
+  }
+
+  private writeLocal(userId: string | null | undefined, lists: Watchlist[]): void {
+    try {
+      localStorage.setItem(this.getStorageKey(userId), JSON.stringify(lists));
+    } catch (error) {
+      console.warn('⚠️ [watchlistService] Failed to save local watchlists:', error);
+    }
+  }
+}
+
+export const watchlistService = new WatchlistService();
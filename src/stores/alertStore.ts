@@ -0,0 +1,129 @@
+import { create } from 'zustand';
+import { subscribeWithSelector } from 'zustand/middleware';
+import { AlertCondition, AlertTrigger, PriceAlert } from '@/types/alerts';
+import { alertService } from '@/services/alertService';
+
+type AlertUpdate = Partial<Pick<PriceAlert, 'condition' | 'enabled' | 'repeat' | 'note'>>;
+
+export interface NewAlertInput {
+  symbol: string;
+  condition: AlertCondition;
+  repeat?: boolean;
+  note?: string;
+}
+
+interface AlertStoreState {
+  // Alerts belong to the signed-in user; loading another user replaces them
+  userId: string | null;
+  alerts: PriceAlert[];
+  history: AlertTrigger[];
+  isLoaded: boolean;
+
+  // Actions
+  loadAlerts: (userId: string | null | undefined) => Promise<void>;
+  addAlert: (input: NewAlertInput) => PriceAlert;
+  updateAlert: (id: string, update: AlertUpdate) => void;
+  removeAlert: (id: string) => void;
+  recordTrigger: (trigger: AlertTrigger) => void;
+  clearHistory: () => void;
+}
+
+const createAlertId = (): string =>
+  `alert-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 7)}`;
+
+// Several alerts can fire on one tick; only the settled list is written to Supabase
+const SAVE_DEBOUNCE_MS = 800;
+let pendingSave: ReturnType<typeof setTimeout> | null = null;
+
+export const useAlertStore = create<AlertStoreState>()(
+  subscribeWithSelector((set, get) => {
+    const scheduleSave = () => {
+      const { userId } = get();
+      if (pendingSave) clearTimeout(pendingSave);
+      pendingSave = setTimeout(() => {
+        pendingSave = null;
+        // Another user signed in meanwhile; their list is not this one
+        if (get().userId !== userId) return;
+        alertService.saveAlerts(userId, get().alerts).catch(error => {
+          console.warn('⚠️ [alertStore] Failed to save alerts:', error);
+        });
+      }, SAVE_DEBOUNCE_MS);
+    };
+
+    const setAlerts = (alerts: PriceAlert[]) => {
+      set({ alerts });
+      // Until the stored list has loaded, saving would overwrite it; loadAlerts saves these edits once merged
+      if (get().isLoaded) scheduleSave();
+    };
+
+    return {
+      userId: null,
+      alerts: [],
+      history: [],
+      isLoaded: false,
+
+      loadAlerts: async (userId) => {
+        const id = userId || null;
+        if (get().isLoaded && get().userId === id) return;
+
+        set({ userId: id, alerts: [], history: alertService.loadHistory(id), isLoaded: false });
+        const alerts = await alertService.loadAlerts(id);
+        // A different user signed in while this load was in flight
+        if (get().userId !== id) return;
+
+        // Alerts added while the load was in flight go after the stored ones
+        const added = get().alerts.filter(alert => !alerts.some(stored => stored.id === alert.id));
+        set({ alerts: [...alerts, ...added], isLoaded: true });
+        if (added.length > 0) scheduleSave();
+      },
+
+      addAlert: (input) => {
+        const now = new Date().toISOString();
+        const alert: PriceAlert = {
+          id: createAlertId(),
+          symbol: input.symbol.toUpperCase(),
+          condition: input.condition,
+          enabled: true,
+          repeat: input.repeat ?? false,
+          note: input.note,
+          createdAt: now,
+          updatedAt: now,
+          lastTriggeredAt: null,
+          triggerCount: 0
+        };
+        setAlerts([...get().alerts, alert]);
+        return alert;
+      },
+
+      updateAlert: (id, update) => {
+        const now = new Date().toISOString();
+        setAlerts(get().alerts.map(alert => (alert.id === id ? { ...alert, ...update, updatedAt: now } : alert)));
+      },
+
+      removeAlert: (id) => {
+        setAlerts(get().alerts.filter(alert => alert.id !== id));
+      },
+
+      recordTrigger: (trigger) => {
+        const { userId } = get();
+        set({ history: alertService.saveHistory(userId, [trigger, ...get().history]) });
+
+        // One-shot alerts are done once they fire
+        setAlerts(get().alerts.map(alert =>
+          alert.id === trigger.alertId
+            ? {
+                ...alert,
+                enabled: alert.repeat ? alert.enabled : false,
+                lastTriggeredAt: trigger.triggeredAt,
+                triggerCount: alert.triggerCount + 1
+              }
+            : alert
+        ));
+      },
+
+      clearHistory: () => {
+        set({ history: alertService.saveHistory(get().userId, []) });
+      }
+    };
+  })
+);
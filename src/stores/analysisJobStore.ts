@@ -0,0 +1,308 @@
+import { create } from 'zustand';
+import { subscribeWithSelector } from 'zustand/middleware';
+import { AnalysisJob } from '@/types/analysisJobs';
+import { AnalysisRequest, AnalysisResponse } from '@/types/analysis';
+import { apiService } from '@/services/api';
+import { analysisService } from '@/services/analysisService';
+import { CLAIM_HEARTBEAT_MS, analysisJobService, createAnalysisJobId } from '@/services/analysisJobService';
+import { analysisModeService } from '@/services/analysisModeService';
+import { DEFAULT_ANALYSIS_MODE } from '@/utils/analysisModes';
+
+interface AnalysisJobStoreState {
+  // Jobs belong to the signed-in user; loading another user replaces them
+  userId: string | null;
+  jobs: AnalysisJob[];
+  isLoaded: boolean;
+
+  // Actions
+  loadJobs: (userId: string | null | undefined) => void;
+  // result settles when this tab sees the job finish; jobs finished elsewhere stay unacknowledged
+  submitJob: (request: AnalysisRequest) => { job: AnalysisJob; result: Promise<AnalysisResponse> };
+  retryJob: (jobId: string) => Promise<AnalysisResponse> | null;
+  dismissJob: (jobId: string) => void;
+  acknowledgeJob: (jobId: string) => void;
+  reconcileJobs: () => Promise<void>;
+}
+
+// The backend handles a couple of analyses per user comfortably; more wait as queued
+const MAX_RUNNING_JOBS = 2;
+const RECONCILE_INTERVAL_MS = 20000;
+// Analyses take 2-3 minutes; an orphaned job with no stored result after this long was lost
+const STALE_AFTER_MS = 20 * 60 * 1000;
+// Stored created_at comes from the backend clock
+const CLOCK_SKEW_MS = 2 * 60 * 1000;
+const RECONCILE_FETCH_LIMIT = 20;
+
+interface Waiter {
+  resolve: (data: AnalysisResponse) => void;
+  reject: (error: unknown) => void;
+}
+
+// Requests in flight in this tab; running jobs not in here are orphans (reloaded / other tab)
+const inFlight = new Set<string>();
+// Queued and running jobs this tab has claimed; only these are sent from here
+const owned = new Set<string>();
+const waiters = new Map<string, Waiter>();
+let reconcileTimer: ReturnType<typeof setInterval> | null = null;
+let claimTimer: ReturnType<typeof setInterval> | null = null;
+
+const syncClaimTimer = () => {
+  if (owned.size > 0 && !claimTimer) {
+    claimTimer = setInterval(() => {
+      analysisJobService.renewClaims(Array.from(owned));
+    }, CLAIM_HEARTBEAT_MS);
+  } else if (owned.size === 0 && claimTimer) {
+    clearInterval(claimTimer);
+    claimTimer = null;
+  }
+};
+
+const claimJob = (jobId: string): boolean => {
+  if (owned.has(jobId)) return true;
+  if (!analysisJobService.claimJob(jobId)) return false;
+  owned.add(jobId);
+  syncClaimTimer();
+  return true;
+};
+
+const releaseJob = (jobId: string) => {
+  if (!owned.delete(jobId)) return;
+  analysisJobService.releaseJobs([jobId]);
+  syncClaimTimer();
+};
+
+const isOrphan = (job: AnalysisJob) => job.status === 'running' && !inFlight.has(job.id);
+
+const getJobMode = (job: AnalysisJob) => job.request?.analysis_mode ?? DEFAULT_ANALYSIS_MODE;
+
+// Each mode has its own endpoint; the request is sent as-is so the backend can store the mode too
+const runAnalysis = (request: AnalysisRequest): Promise<AnalysisResponse> => {
+  switch (request.analysis_mode ?? DEFAULT_ANALYSIS_MODE) {
+    case 'standard':
+      return analysisService.analyzeStock(request);
+    case 'enhanced_mtf':
+      return analysisService.enhancedMtfAnalyzeStock(request);
+    default:
+      return apiService.enhancedAnalyzeStock(request);
+  }
+};
+
+export const useAnalysisJobStore = create<AnalysisJobStoreState>()(
+  subscribeWithSelector((set, get) => {
+    const setJobs = (jobs: AnalysisJob[]) => {
+      set({ jobs });
+      analysisJobService.saveJobs(get().userId, jobs);
+      syncReconcileTimer();
+    };
+
+    const updateJob = (jobId: string, patch: Partial<AnalysisJob>) => {
+      setJobs(get().jobs.map(job => (job.id === jobId ? { ...job, ...patch } : job)));
+    };
+
+    const createWaiter = (jobId: string): Promise<AnalysisResponse> =>
+      new Promise<AnalysisResponse>((resolve, reject) => {
+        waiters.set(jobId, { resolve, reject });
+      });
+
+    const syncReconcileTimer = () => {
+      const hasOrphans = get().jobs.some(isOrphan);
+      if (hasOrphans && !reconcileTimer) {
+        reconcileTimer = setInterval(() => {
+          get().reconcileJobs();
+        }, RECONCILE_INTERVAL_MS);
+      } else if (!hasOrphans && reconcileTimer) {
+        clearInterval(reconcileTimer);
+        reconcileTimer = null;
+      }
+    };
+
+    const startJob = (job: AnalysisJob) => {
+      if (!job.request) return;
+      inFlight.add(job.id);
+      updateJob(job.id, { status: 'running', attempts: job.attempts + 1, startedAt: Date.now(), error: null });
+
+      runAnalysis(job.request)
+        .then(data => {
+          const waiter = waiters.get(job.id);
+          const analysisId = (data as any)?.analysis_id ?? null;
+          analysisModeService.recordMode(analysisId, getJobMode(job));
+          updateJob(job.id, {
+            status: 'completed',
+            finishedAt: Date.now(),
+            analysisId,
+            acknowledged: !!waiter
+          });
+          waiter?.resolve(data);
+        })
+        .catch((error: unknown) => {
+          const waiter = waiters.get(job.id);
+          updateJob(job.id, {
+            status: 'failed',
+            finishedAt: Date.now(),
+            error: error instanceof Error ? error.message : 'An error occurred during analysis',
+            acknowledged: !!waiter
+          });
+          waiter?.reject(error);
+        })
+        .finally(() => {
+          inFlight.delete(job.id);
+          waiters.delete(job.id);
+          releaseJob(job.id);
+          pump();
+        });
+    };
+
+    const pump = () => {
+      const queued = get().jobs
+        .filter(job => job.status === 'queued' && job.request)
+        .sort((a, b) => a.submittedAt - b.submittedAt);
+      let free = MAX_RUNNING_JOBS - inFlight.size;
+      for (const job of queued) {
+        if (free <= 0) break;
+        // Another open tab is sending (or holding) this one
+        if (!claimJob(job.id)) continue;
+        free -= 1;
+        startJob(job);
+      }
+    };
+
+    // Another tab changed the jobs; adopt its copy but keep our own in-flight jobs authoritative
+    if (typeof window !== 'undefined') {
+      window.addEventListener('storage', (event) => {
+        if (!get().isLoaded || event.key !== analysisJobService.getKey(get().userId)) return;
+        const local = get().jobs;
+        const external = analysisJobService.loadJobs(get().userId);
+        const merged = external.map(job => (inFlight.has(job.id) ? local.find(l => l.id === job.id) ?? job : job));
+        local.forEach(job => {
+          if (inFlight.has(job.id) && !merged.some(m => m.id === job.id)) merged.unshift(job);
+        });
+        set({ jobs: merged });
+        syncReconcileTimer();
+        // Queued jobs left by a closed tab are free to claim
+        pump();
+      });
+
+      // Hand queued jobs to the other tabs straight away instead of after the claim expires
+      window.addEventListener('pagehide', () => {
+        analysisJobService.releaseJobs(Array.from(owned).filter(jobId => !inFlight.has(jobId)));
+      });
+    }
+
+    return {
+      userId: null,
+      jobs: [],
+      isLoaded: false,
+
+      loadJobs: (userId) => {
+        const id = userId || null;
+        if (get().isLoaded && get().userId === id) return;
+
+        set({ userId: id, jobs: analysisJobService.loadJobs(id), isLoaded: true });
+        syncReconcileTimer();
+        // Submitted just before the last reload but never sent
+        pump();
+        get().reconcileJobs();
+      },
+
+      submitJob: (request) => {
+        const now = Date.now();
+        const job: AnalysisJob = {
+          id: createAnalysisJobId(),
+          stock: request.stock.toUpperCase(),
+          exchange: request.exchange || 'NSE',
+          period: request.period ?? 0,
+          interval: request.interval || '',
+          sector: request.sector ?? null,
+          endDate: request.end_date || null,
+          request,
+          status: 'queued',
+          attempts: 0,
+          submittedAt: now,
+          startedAt: null,
+          finishedAt: null,
+          analysisId: null,
+          error: null,
+          acknowledged: false
+        };
+        const result = createWaiter(job.id);
+        claimJob(job.id);
+        setJobs([job, ...get().jobs]);
+        pump();
+        return { job, result };
+      },
+
+      retryJob: (jobId) => {
+        const job = get().jobs.find(candidate => candidate.id === jobId);
+        if (!job || job.status !== 'failed' || !job.request) return null;
+        const result = createWaiter(jobId);
+        claimJob(jobId);
+        updateJob(jobId, { status: 'queued', error: null, finishedAt: null, acknowledged: false, submittedAt: Date.now() });
+        pump();
+        return result;
+      },
+
+      dismissJob: (jobId) => {
+        if (inFlight.has(jobId)) return;
+        releaseJob(jobId);
+        setJobs(get().jobs.filter(job => job.id !== jobId));
+      },
+
+      acknowledgeJob: (jobId) => {
+        updateJob(jobId, { acknowledged: true });
+      },
+
+      // Orphaned jobs are matched to analyses the backend stored after they started;
+      // ones with nothing stored well past the usual duration are marked failed
+      reconcileJobs: async () => {
+        const { userId } = get();
+        const orphans = get().jobs.filter(isOrphan);
+        if (orphans.length === 0) return;
+
+        let stored: any[] = [];
+        if (userId) {
+          try {
+            const response = await apiService.getUserAnalyses(userId, RECONCILE_FETCH_LIMIT, 0);
+            stored = response.success && Array.isArray(response.analyses) ? response.analyses : [];
+          } catch (error) {
+            console.warn('⚠️ [analysisJobStore] Failed to reconcile analysis jobs:', error);
+            return;
+          }
+        }
+        // A different user signed in while the lookup was in flight
+        if (get().userId !== userId) return;
+
+        const now = Date.now();
+        const claimed = new Set(get().jobs.map(job => job.analysisId).filter(Boolean));
+        let changed = false;
+        const jobs = get().jobs.map(job => {
+          if (!isOrphan(job)) return job;
+          const since = (job.startedAt ?? job.submittedAt) - CLOCK_SKEW_MS;
+          const match = stored
+            .filter(record => !claimed.has(record.id) && String(record.stock_symbol || '').toUpperCase() === job.stock)
+            .map(record => ({ record, createdAt: Date.parse(record.created_at) }))
+            .filter(({ createdAt }) => Number.isFinite(createdAt) && createdAt >= since)
+            .sort((a, b) => a.createdAt - b.createdAt)[0];
+
+          if (match) {
+            claimed.add(match.record.id);
+            analysisModeService.recordMode(match.record.id, getJobMode(job));
+            changed = true;
+            return { ...job, status: 'completed' as const, analysisId: match.record.id, finishedAt: match.createdAt, acknowledged: false };
+          }
+          if (now - (job.startedAt ?? job.submittedAt) > STALE_AFTER_MS) {
+            changed = true;
+            return {
+              ...job,
+              status: 'failed' as const,
+              finishedAt: now,
+              error: 'No stored result was found - the analysis was interrupted',
+              acknowledged: false
+            };
+          }
+          return job;
+        });
+        if (changed) setJobs(jobs);
+      }
+    };
+  })
+);
@@ -1,6 +1,7 @@
 import { create } from 'zustand';
 import { subscribeWithSelector } from 'zustand/middleware';
-import { liveDataService, RealCandlestickData, ChartDataPoint } from '@/services/liveDataService';
+import { RealCandlestickData, HistoricalDataResponse } from '@/services/liveDataService';
+import { candleCacheService } from '@/services/candleCacheService';
 
 interface DataState {
   // Historical data cache
@@ -24,7 +25,7 @@ interface DataState {
 }
 
 interface HistoricalDataCache {
-  data: RealCandlestickData[];
+  data: HistoricalDataResponse;
   timestamp: number;
   timeframe: string;
   symbol: string;
@@ -76,10 +77,7 @@ export const useDataStore = create<DataState>()(
         return { loadingStates: newLoadingStates };
       });
       
-      try {
-        const data = await liveDataService.getHistoricalData(symbol, timeframe, exchange, limit);
-        
-        // Update cache
+      const storeHistoricalData = (data: HistoricalDataResponse) => {
         set(state => {
           const newHistoricalData = new Map(state.historicalData);
           newHistoricalData.set(cacheKey, {
@@ -102,6 +100,14 @@ export const useDataStore = create<DataState>()(
             errors: newErrors
           };
         });
+      };
+      
+      try {
+        // Persisted candles render immediately; the tail refresh replaces them when it lands
+        const data = await candleCacheService.getHistoricalData(symbol, timeframe, exchange, limit, {
+          onCachedData: storeHistoricalData
+        });
+        storeHistoricalData(data);
         
       } catch (error) {
         set(state => {
@@ -132,6 +138,9 @@ export const useDataStore = create<DataState>()(
     },
 
     clearCache: (symbol) => {
+      // Drop the persisted candles too, otherwise the next fetch is served from IndexedDB
+      candleCacheService.clear(symbol);
+      
       set(state => {
         const newHistoricalData = new Map(state.historicalData);
         const newLiveData = new Map(state.liveData);
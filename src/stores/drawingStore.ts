@@ -0,0 +1,50 @@
+import { create } from 'zustand';
+import { subscribeWithSelector } from 'zustand/middleware';
+import { ChartDrawing } from '@/types/drawings';
+import { drawingService } from '@/services/drawingService';
+
+interface DrawingStoreState {
+  // Drawings keyed by user + symbol (see getDrawingKey)
+  drawings: Record<string, ChartDrawing[]>;
+
+  // Actions
+  loadDrawings: (userId: string | null | undefined, symbol: string) => Promise<void>;
+  setDrawings: (userId: string | null | undefined, symbol: string, drawings: ChartDrawing[]) => void;
+}
+
+// Drag edits fire in bursts; only the settled state is written to Supabase
+const SAVE_DEBOUNCE_MS = 800;
+const pendingSaves = new Map<string, ReturnType<typeof setTimeout>>();
+
+export const getDrawingKey = (userId: string | null | undefined, symbol: string): string =>
+  `${userId || 'anonymous'}:${symbol}`;
+
+export const useDrawingStore = create<DrawingStoreState>()(
+  subscribeWithSelector((set, get) => ({
+    drawings: {},
+
+    loadDrawings: async (userId, symbol) => {
+      const key = getDrawingKey(userId, symbol);
+      if (get().drawings[key]) return;
+
+      const drawings = await drawingService.loadDrawings(userId, symbol);
+      // Keep edits made while the load was in flight
+      if (get().drawings[key]) return;
+      set(state => ({ drawings: { ...state.drawings, [key]: drawings } }));
+    },
+
+    setDrawings: (userId, symbol, drawings) => {
+      const key = getDrawingKey(userId, symbol);
+      set(state => ({ drawings: { ...state.drawings, [key]: drawings } }));
+
+      const pending = pendingSaves.get(key);
+      if (pending) clearTimeout(pending);
+      pendingSaves.set(key, setTimeout(() => {
+        pendingSaves.delete(key);
+        drawingService.saveDrawings(userId, symbol, drawings).catch(error => {
+          console.warn(`⚠️ [drawingStore] Failed to save drawings for ${symbol}:`, error);
+        });
+      }, SAVE_DEBOUNCE_MS));
+    }
+  }))
+);
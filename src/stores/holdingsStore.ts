@@ -0,0 +1,89 @@
+import { create } from 'zustand';
+import { subscribeWithSelector } from 'zustand/middleware';
+import { HoldingSource, PortfolioHolding } from '@/types/portfolio';
+import { holdingsService } from '@/services/holdingsService';
+import { HoldingInput, MAX_HOLDINGS, toPortfolioHoldings } from '@/utils/portfolioHoldings';
+
+type HoldingUpdate = Partial<Pick<PortfolioHolding, 'quantity' | 'averagePrice' | 'side' | 'sector'>>;
+
+interface HoldingsStoreState {
+  // Holdings belong to the signed-in user; loading another user replaces them
+  userId: string | null;
+  holdings: PortfolioHolding[];
+  isLoaded: boolean;
+
+  // Actions
+  loadHoldings: (userId: string | null | undefined) => Promise<void>;
+  addHolding: (input: HoldingInput) => void;
+  updateHolding: (id: string, update: HoldingUpdate) => void;
+  removeHolding: (id: string) => void;
+  // Replaces every holding from the same source, so re-importing a CSV doesn't double up
+  importHoldings: (inputs: HoldingInput[], source: HoldingSource) => number;
+  setSectors: (sectors: Record<string, string | null>) => void;
+  clearHoldings: () => void;
+}
+
+export const useHoldingsStore = create<HoldingsStoreState>()(
+  subscribeWithSelector((set, get) => {
+    const setHoldings = (holdings: PortfolioHolding[]) => {
+      const capped = holdings.slice(0, MAX_HOLDINGS);
+      set({ holdings: capped });
+      const { userId } = get();
+      holdingsService.saveHoldings(userId, capped).catch(error => {
+        console.warn('⚠️ [holdingsStore] Failed to save holdings:', error);
+      });
+    };
+
+    return {
+      userId: null,
+      holdings: [],
+      isLoaded: false,
+
+      loadHoldings: async (userId) => {
+        const id = userId || null;
+        if (get().isLoaded && get().userId === id) return;
+
+        set({ userId: id, holdings: [], isLoaded: false });
+        const holdings = await holdingsService.loadHoldings(id);
+        // A different user signed in while this load was in flight
+        if (get().userId !== id) return;
+        set({ holdings, isLoaded: true });
+      },
+
+      addHolding: (input) => {
+        const [holding] = toPortfolioHoldings([input], 'manual');
+        if (holding) setHoldings([...get().holdings, holding]);
+      },
+
+      updateHolding: (id, update) => {
+        const now = new Date().toISOString();
+        setHoldings(get().holdings.map(holding => (holding.id === id ? { ...holding, ...update, updatedAt: now } : holding)));
+      },
+
+      removeHolding: (id) => {
+        setHoldings(get().holdings.filter(holding => holding.id !== id));
+      },
+
+      importHoldings: (inputs, source) => {
+        const imported = toPortfolioHoldings(inputs, source);
+        // Keep sectors already resolved for symbols that come back
+        const knownSectors = new Map(get().holdings.map(holding => [holding.symbol, holding.sector]));
+        const withSectors = imported.map(holding => ({ ...holding, sector: holding.sector ?? knownSectors.get(holding.symbol) ?? null }));
+        setHoldings([...get().holdings.filter(holding => holding.source !== source), ...withSectors]);
+        return withSectors.length;
+      },
+
+      setSectors: (sectors) => {
+        const holdings = get().holdings;
+        if (!holdings.some(holding => !holding.sector && sectors[holding.symbol])) return;
+        setHoldings(holdings.map(holding =>
+          !holding.sector && sectors[holding.symbol] ? { ...holding, sector: sectors[holding.symbol] } : holding
+        ));
+      },
+
+      clearHoldings: () => {
+        setHoldings([]);
+      }
+    };
+  })
+);
@@ -0,0 +1,93 @@
+import { create } from 'zustand';
+import { subscribeWithSelector } from 'zustand/middleware';
+import { IndicatorInstance, IndicatorType } from '@/types/indicators';
+import { indicatorService } from '@/services/indicatorService';
+import { createDefaultIndicatorInstances, createIndicatorInstance } from '@/utils/indicatorRegistry';
+
+type IndicatorUpdate = Partial<Omit<IndicatorInstance, 'id' | 'type'>>;
+
+interface IndicatorStoreState {
+  // Configured indicators keyed by user + chart (see getIndicatorKey)
+  instances: Record<string, IndicatorInstance[]>;
+
+  // Actions
+  loadInstances: (userId: string | null | undefined, chartId: string) => Promise<void>;
+  addIndicator: (userId: string | null | undefined, chartId: string, type: IndicatorType) => IndicatorInstance;
+  updateIndicator: (userId: string | null | undefined, chartId: string, id: string, update: IndicatorUpdate) => void;
+  removeIndicator: (userId: string | null | undefined, chartId: string, id: string) => void;
+  resetIndicators: (userId: string | null | undefined, chartId: string) => void;
+}
+
+// Parameter edits fire per keystroke; only the settled layout is written to Supabase
+const SAVE_DEBOUNCE_MS = 800;
+const pendingSaves = new Map<string, ReturnType<typeof setTimeout>>();
+
+// Indicators are saved per user and per chart so /charts and other chart views don't share layouts
+export const getIndicatorKey = (userId: string | null | undefined, chartId: string): string =>
+  `${userId || 'anonymous'}:${chartId}`;
+
+export const useIndicatorStore = create<IndicatorStoreState>()(
+  subscribeWithSelector((set, get) => {
+    const getInstances = (key: string): IndicatorInstance[] =>
+      get().instances[key] ?? createDefaultIndicatorInstances();
+
+    const setInstances = (userId: string | null | undefined, chartId: string, instances: IndicatorInstance[]) => {
+      const key = getIndicatorKey(userId, chartId);
+      set(state => ({ instances: { ...state.instances, [key]: instances } }));
+
+      const pending = pendingSaves.get(key);
+      if (pending) clearTimeout(pending);
+      pendingSaves.set(key, setTimeout(() => {
+        pendingSaves.delete(key);
+        indicatorService.saveIndicators(userId, chartId, instances).catch(error => {
+          console.warn(`⚠️ [indicatorStore] Failed to save indicators for ${chartId}:`, error);
+        });
+      }, SAVE_DEBOUNCE_MS));
+    };
+
+    return {
+      instances: {},
+
+      loadInstances: async (userId, chartId) => {
+        const key = getIndicatorKey(userId, chartId);
+        if (get().instances[key]) return;
+
+        const instances = await indicatorService.loadIndicators(userId, chartId);
+        // Keep edits made while the load was in flight
+        if (get().instances[key]) return;
+        set(state => ({ instances: { ...state.instances, [key]: instances ?? createDefaultIndicatorInstances() } }));
+      },
+
+      addIndicator: (userId, chartId, type) => {
+        const instance = createIndicatorInstance(type);
+        setInstances(userId, chartId, [...getInstances(getIndicatorKey(userId, chartId)), instance]);
+        return instance;
+      },
+
+      updateIndicator: (userId, chartId, id, update) => {
+        setInstances(
+          userId,
+          chartId,
+          getInstances(getIndicatorKey(userId, chartId)).map(instance =>
+            instance.id === id
+              ? {
+                  ...instance,
+                  ...update,
+                  params: { ...instance.params, ...update.params },
+                  colors: { ...instance.colors, ...update.colors }
+                }
+              : instance
+          )
+        );
+      },
+
+      removeIndicator: (userId, chartId, id) => {
+        setInstances(userId, chartId, getInstances(getIndicatorKey(userId, chartId)).filter(instance => instance.id !== id));
+      },
+
+      resetIndicators: (userId, chartId) => {
+        setInstances(userId, chartId, createDefaultIndicatorInstances());
+      }
+    };
+  })
+);
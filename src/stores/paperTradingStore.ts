@@ -0,0 +1,125 @@
+import { create } from 'zustand';
+import { subscribeWithSelector } from 'zustand/middleware';
+import { PaperPortfolio, PaperPosition, PaperTradeEvent } from '@/types/paperTrading';
+import { paperTradingService } from '@/services/paperTradingService';
+import {
+  DEFAULT_PAPER_CAPITAL,
+  NewPaperPositionInput,
+  applyPaperPrice,
+  closePaperPosition,
+  createPaperPosition
+} from '@/utils/paperTrading';
+
+interface PaperTradingStoreState {
+  // The portfolio belongs to the signed-in user; loading another user replaces it
+  userId: string | null;
+  portfolio: PaperPortfolio;
+  isLoaded: boolean;
+
+  // Actions
+  loadPortfolio: (userId: string | null | undefined) => Promise<void>;
+  openPosition: (input: NewPaperPositionInput, price?: number | null) => PaperPosition;
+  closePosition: (id: string, price: number | null) => void;
+  removePosition: (id: string) => void;
+  applyPrice: (symbol: string, price: number) => PaperTradeEvent[];
+  resetPortfolio: (startingCapital: number) => void;
+}
+
+const createPortfolio = (startingCapital: number = DEFAULT_PAPER_CAPITAL): PaperPortfolio => {
+  const now = new Date().toISOString();
+  return { startingCapital, positions: [], createdAt: now, updatedAt: now };
+};
+
+// Fills and exits arrive with ticks, often several a second; only the settled portfolio is written to Supabase
+const SAVE_DEBOUNCE_MS = 1500;
+let pendingSave: ReturnType<typeof setTimeout> | null = null;
+
+export const usePaperTradingStore = create<PaperTradingStoreState>()(
+  subscribeWithSelector((set, get) => {
+    const setPortfolio = (portfolio: PaperPortfolio) => {
+      set({ portfolio });
+      const { userId } = get();
+      paperTradingService.saveLocal(userId, portfolio);
+      if (pendingSave) clearTimeout(pendingSave);
+      pendingSave = setTimeout(() => {
+        pendingSave = null;
+        // Price-only ticks since then changed the live copy, which is the one to keep
+        const latest = get().userId === userId ? get().portfolio : portfolio;
+        paperTradingService.savePortfolio(userId, latest).catch(error => {
+          console.warn('⚠️ [paperTradingStore] Failed to save portfolio:', error);
+        });
+      }, SAVE_DEBOUNCE_MS);
+    };
+
+    const setPositions = (positions: PaperPosition[]) => {
+      const portfolio = { ...get().portfolio, positions, updatedAt: new Date().toISOString() };
+      setPortfolio(portfolio);
+    };
+
+    return {
+      userId: null,
+      portfolio: createPortfolio(),
+      isLoaded: false,
+
+      loadPortfolio: async (userId) => {
+        const id = userId || null;
+        if (get().isLoaded && get().userId === id) return;
+
+        set({ userId: id, portfolio: createPortfolio(), isLoaded: false });
+        const portfolio = await paperTradingService.loadPortfolio(id);
+        // A different user signed in while this load was in flight
+        if (get().userId !== id) return;
+        set({ portfolio: portfolio ?? createPortfolio(), isLoaded: true });
+      },
+
+      // With a price the order is checked against it straight away, so a market entry fills at once
+      openPosition: (input, price) => {
+        let position = createPaperPosition(input);
+        if (price) position = applyPaperPrice(position, price).position;
+        setPositions([...get().portfolio.positions, position]);
+        return position;
+      },
+
+      closePosition: (id, price) => {
+        setPositions(get().portfolio.positions.map(position =>
+          position.id === id ? closePaperPosition(position, price) : position
+        ));
+      },
+
+      removePosition: (id) => {
+        setPositions(get().portfolio.positions.filter(position => position.id !== id));
+      },
+
+      // Runs on every tick. Only fills, exits and expiries are saved to the profile;
+      // the last price on its own is kept on the device.
+      applyPrice: (symbol, price) => {
+        const { portfolio, userId } = get();
+        const events: PaperTradeEvent[] = [];
+        let changed = false;
+        const positions = portfolio.positions.map(position => {
+          if (position.symbol !== symbol || (position.status !== 'pending' && position.status !== 'open')) {
+            return position;
+          }
+          changed = true;
+          const update = applyPaperPrice(position, price);
+          events.push(...update.events);
+          return update.position;
+        });
+        if (!changed) return events;
+
+        if (events.length > 0) {
+          setPositions(positions);
+        } else {
+          const next = { ...portfolio, positions };
+          set({ portfolio: next });
+          paperTradingService.saveLocal(userId, next);
+        }
+        return events;
+      },
+
+      resetPortfolio: (startingCapital) => {
+        setPortfolio(createPortfolio(startingCapital));
+      }
+    };
+  })
+);
@@ -0,0 +1,108 @@
+import { create } from 'zustand';
+import { subscribeWithSelector } from 'zustand/middleware';
+import { Watchlist } from '@/types/watchlists';
+import { DEFAULT_WATCHLIST_NAME, createWatchlist, watchlistService } from '@/services/watchlistService';
+
+interface WatchlistStoreState {
+  // Watchlists belong to the signed-in user; loading another user replaces them
+  userId: string | null;
+  lists: Watchlist[];
+  activeListId: string | null;
+  isLoaded: boolean;
+
+  // Actions
+  loadWatchlists: (userId: string | null | undefined) => Promise<void>;
+  setActiveList: (listId: string) => void;
+  createList: (name: string) => Watchlist;
+  renameList: (listId: string, name: string) => void;
+  deleteList: (listId: string) => void;
+  addSymbol: (listId: string, symbol: string) => void;
+  removeSymbol: (listId: string, symbol: string) => void;
+  moveSymbol: (listId: string, fromIndex: number, toIndex: number) => void;
+}
+
+// Reordering fires a save per click; only the settled order is written to Supabase
+const SAVE_DEBOUNCE_MS = 600;
+let pendingSave: ReturnType<typeof setTimeout> | null = null;
+
+export const useWatchlistStore = create<WatchlistStoreState>()(
+  subscribeWithSelector((set, get) => {
+    const setLists = (lists: Watchlist[]) => {
+      set({ lists });
+      const { userId } = get();
+      if (pendingSave) clearTimeout(pendingSave);
+      pendingSave = setTimeout(() => {
+        pendingSave = null;
+        watchlistService.saveWatchlists(userId, lists).catch(error => {
+          console.warn('⚠️ [watchlistStore] Failed to save watchlists:', error);
+        });
+      }, SAVE_DEBOUNCE_MS);
+    };
+
+    const updateList = (listId: string, update: (list: Watchlist) => Watchlist) => {
+      const now = new Date().toISOString();
+      setLists(get().lists.map(list => (list.id === listId ? { ...update(list), updatedAt: now } : list)));
+    };
+
+    return {
+      userId: null,
+      lists: [],
+      activeListId: null,
+      isLoaded: false,
+
+      loadWatchlists: async (userId) => {
+        const id = userId || null;
+        if (get().isLoaded && get().userId === id) return;
+
+        set({ userId: id, lists: [], activeListId: null, isLoaded: false });
+        const lists = await watchlistService.loadWatchlists(id);
+        // A different user signed in while this load was in flight
+        if (get().userId !== id) return;
+        set({ lists, activeListId: lists[0]?.id ?? null, isLoaded: true });
+      },
+
+      setActiveList: (listId) => {
+        set({ activeListId: listId });
+      },
+
+      createList: (name) => {
+        const list = createWatchlist(name.trim() || `Watchlist ${get().lists.length + 1}`);
+        setLists([...get().lists, list]);
+        set({ activeListId: list.id });
+        return list;
+      },
+
+      renameList: (listId, name) => {
+        if (!name.trim()) return;
+        updateList(listId, list => ({ ...list, name: name.trim() }));
+      },
+
+      deleteList: (listId) => {
+        let lists = get().lists.filter(list => list.id !== listId);
+        // There is always at least one list to add symbols to
+        if (lists.length === 0) lists = [createWatchlist(DEFAULT_WATCHLIST_NAME)];
+        setLists(lists);
+        if (get().activeListId === listId) set({ activeListId: lists[0].id });
+      },
+
+      addSymbol: (listId, symbol) => {
+        const upper = symbol.toUpperCase();
+        updateList(listId, list => (list.symbols.includes(upper) ? list : { ...list, symbols: [...list.symbols, upper] }));
+      },
+
+      removeSymbol: (listId, symbol) => {
+        updateList(listId, list => ({ ...list, symbols: list.symbols.filter(s => s !== symbol) }));
+      },
+
+      moveSymbol: (listId, fromIndex, toIndex) => {
+        updateList(listId, list => {
+          if (toIndex < 0 || toIndex >= list.symbols.length) return list;
+          const symbols = [...list.symbols];
+          const [moved] = symbols.splice(fromIndex, 1);
+          symbols.splice(toIndex, 0, moved);
+          return { ...list, symbols };
+        });
+      }
+    };
+  })
+);
@@ -0,0 +1,72 @@
+// Price alerts evaluated in the browser against the live tick/candle stream
+
+export type AlertConditionType = 'price_cross' | 'percent_move' | 'rsi' | 'macd_cross' | 'analysis_level';
+
+// Timeframes the live stream serves candles for (frontend keys, see INTERVAL_MAPPING)
+export type AlertTimeframe = '1m' | '5m' | '15m' | '1h' | '1d';
+
+export interface PriceCrossCondition {
+  type: 'price_cross';
+  direction: 'above' | 'below';
+  price: number;
+}
+
+// Move from the previous session's close
+export interface PercentMoveCondition {
+  type: 'percent_move';
+  direction: 'up' | 'down' | 'either';
+  percent: number;
+}
+
+export interface RsiCondition {
+  type: 'rsi';
+  operator: 'above' | 'below';
+  value: number;
+  period: number;
+  timeframe: AlertTimeframe;
+}
+
+export interface MacdCrossCondition {
+  type: 'macd_cross';
+  direction: 'bullish' | 'bearish'; // MACD crossing above / below its signal line
+  timeframe: AlertTimeframe;
+}
+
+// Support/resistance snapshot taken from the analysis the alert was created from
+export interface AnalysisLevelCondition {
+  type: 'analysis_level';
+  levels: { price: number; kind: 'support' | 'resistance'; label: string }[];
+  tolerancePercent: number;
+  analysisId: string;
+  analysisDate: string;
+}
+
+export type AlertCondition =
+  | PriceCrossCondition
+  | PercentMoveCondition
+  | RsiCondition
+  | MacdCrossCondition
+  | AnalysisLevelCondition;
+
+export interface PriceAlert {
+  id: string;
+  symbol: string;
+  condition: AlertCondition;
+  enabled: boolean;
+  // Re-arm after firing once the condition has cleared; one-shot alerts disable themselves
+  repeat: boolean;
+  note?: string;
+  createdAt: string;
+  updatedAt: string;
+  lastTriggeredAt?: string | null;
+  triggerCount: number;
+}
+
+export interface AlertTrigger {
+  id: string;
+  alertId: string;
+  symbol: string;
+  message: string;
+  price: number;
+  triggeredAt: string;
+}
@@ -1,3 +1,10 @@
+import { PortfolioContext } from '@/types/portfolio';
+
+// Which analysis endpoint produced a run; recorded with it so history can be filtered by mode
+export type AnalysisMode = 'standard' | 'enhanced' | 'enhanced_mtf';
+// A stored run can also be a pinned realtime indicator vote, which no analysis endpoint produced
+export type StoredAnalysisMode = AnalysisMode | 'indicator_snapshot';
+
 export interface AnalysisRequest {
   stock: string;
   exchange?: string;
@@ -15,6 +22,9 @@ export interface AnalysisRequest {
     position_type: "long" | "short";
   } | null;
   previous_analysis_ids?: string[]; // IDs of selected previous analyses (max 5)
+  portfolio_context?: PortfolioContext | null; // Sector exposure and correlation of the user's other holdings
+  analysis_mode?: AnalysisMode; // Endpoint to run against; enhanced when missing
+  timeframes?: string[]; // enhanced_mtf only - timeframes to analyse and cross-check
 }
 
 export interface ChartData {
@@ -406,6 +416,23 @@ export interface Risk {
   mitigation: string;
 }
 
+// Stress-test rows as the risk cards render them; impact and probability are fractions
+export interface StressScenario {
+  scenario_name: string;
+  impact: number;
+  probability: number;
+  risk_level: string;
+  description: string;
+}
+
+export interface ScenarioResult {
+  scenario_name: string;
+  outcome: string;
+  probability: number;
+  impact: number;
+  risk_level: string;
+}
+
 export interface StopLossLevel {
   level: number;
   type: string;
@@ -982,9 +1009,15 @@ export interface EnhancedAnalysisResponse extends AnalysisResponse {
 }
 
 // Sector API Response Types
+export interface SectorListItem {
+  code: string;
+  name: string;
+  primary_index: string;
+}
+
 export interface SectorListResponse {
   success: boolean;
-  sectors: string[];
+  sectors: SectorListItem[];
   total_sectors: number;
   timestamp: string;
 }
@@ -1033,6 +1066,43 @@ export interface SectorComparisonResponse {
   timestamp: string;
 }
 
+// Sector returns ranked over one timeframe; returns, momentum and relative strength are in %
+export interface SectorRotationData {
+  timeframe: string;
+  sector_performance: Record<string, {
+    total_return: number;
+    momentum: number;
+    relative_strength: number;
+    current_price: number;
+    start_price: number;
+  }>;
+  sector_rankings: Record<string, {
+    rank: number;
+    // OPTIMIZED: performance data removed to eliminate duplication
+    // Performance data is available in sector_performance[sector]
+  }>;
+  rotation_patterns: {
+    leading_sectors: Array<{
+      sector: string;
+      relative_strength: number;
+      momentum: number;
+    }>;
+    lagging_sectors: Array<{
+      sector: string;
+      relative_strength: number;
+      momentum: number;
+    }>;
+    rotation_strength: string;
+  };
+  recommendations: Array<{
+    type: string;
+    sector?: string;
+    reason?: string;
+    confidence: string;
+    message?: string;
+  }>;
+}
+
 export interface StockSectorResponse {
   success: boolean;
   sector_info: {
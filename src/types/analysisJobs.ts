@@ -0,0 +1,27 @@
+// Analysis submissions tracked as jobs so they survive a reload or closed tab
+
+import { AnalysisRequest } from '@/types/analysis';
+
+// queued: waiting for a free slot in the tab that claimed it (or submitted just before a reload)
+// running: request in flight here, or orphaned and being reconciled against stored analyses
+export type AnalysisJobStatus = 'queued' | 'running' | 'failed' | 'completed';
+
+export interface AnalysisJob {
+  id: string;
+  stock: string;
+  exchange: string;
+  period: number;
+  interval: string;
+  sector: string | null;
+  endDate: string | null;
+  request: AnalysisRequest | null; // Replayed as-is on retry; null for items tracked before jobs existed
+  status: AnalysisJobStatus;
+  attempts: number;
+  submittedAt: number; // epoch ms
+  startedAt: number | null; // Current / last attempt
+  finishedAt: number | null;
+  analysisId: string | null;
+  error: string | null;
+  // Completion has been surfaced to the user (toast + list refresh)
+  acknowledged: boolean;
+}
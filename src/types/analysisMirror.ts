@@ -0,0 +1,47 @@
+// Local IndexedDB mirror of the user's stored analyses, searchable offline
+
+import { SignalBias } from '@/utils/analysisSummary';
+
+// A stored analysis row as the database service returns it, plus facets derived once when mirrored
+export interface MirroredAnalysis {
+  id: string;
+  user_id: string | null; // null for shared analyses opened by link
+  stock_symbol: string;
+  created_at: string;
+  analysis_data: any;
+  signal: string | null;
+  bias: SignalBias;
+  confidence: number | null; // 0-100
+  sector: string | null;
+  search_text: string; // Lower-cased symbol, sector, signal and report text
+  mirrored_at: number; // epoch ms
+}
+
+export interface AnalysisMirrorState {
+  userId: string;
+  count: number;
+  latestCreatedAt: string | null; // Newest created_at seen; the next sync only fetches past it
+  lastSyncedAt: number | null; // epoch ms of the last successful sync
+  lastError: string | null; // Set when the last sync could not reach the database service
+}
+
+export interface AnalysisSearchQuery {
+  text: string;
+  symbol: string | null;
+  bias: SignalBias | null;
+  sector: string | null;
+  minConfidence: number | null;
+  from: string | null; // yyyy-mm-dd, inclusive
+  to: string | null; // yyyy-mm-dd, inclusive
+}
+
+export interface AnalysisFacetCount {
+  value: string;
+  count: number;
+}
+
+export interface AnalysisFacets {
+  symbols: AnalysisFacetCount[];
+  biases: AnalysisFacetCount[];
+  sectors: AnalysisFacetCount[];
+}
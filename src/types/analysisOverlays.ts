@@ -0,0 +1,45 @@
+// Levels, zones and patterns from a stored analysis, ready to draw on the live chart
+
+export type AnalysisLevelKind = 'support' | 'resistance' | 'entry' | 'stop' | 'target' | 'critical';
+
+export interface AnalysisPriceLevel {
+  price: number;
+  kind: AnalysisLevelKind;
+  label: string; // e.g. "T1 short" - the source date is appended when drawn
+}
+
+export type AnalysisZoneKind = 'entry' | 'accumulation' | 'distribution';
+
+export interface AnalysisZone {
+  from: number;
+  to: number;
+  kind: AnalysisZoneKind;
+  label: string;
+}
+
+export type AnalysisPatternKind = 'triangle' | 'flag' | 'double_top' | 'double_bottom' | 'divergence';
+
+export interface AnalysisPatternShape {
+  kind: AnalysisPatternKind;
+  points: { time: number; price: number }[];
+  label: string;
+  closed?: boolean; // Triangles are drawn as closed outlines
+  sentiment?: 'bullish' | 'bearish';
+}
+
+export interface AnalysisMarker {
+  time: number;
+  price: number;
+  label: string;
+}
+
+export interface AnalysisOverlaySet {
+  analysisId: string;
+  analysisDate: string; // ISO timestamp of the analysis
+  sourceLabel: string; // e.g. "Analysis · 12 Oct 2026"
+  shortDate: string; // e.g. "12 Oct"
+  levels: AnalysisPriceLevel[];
+  zones: AnalysisZone[];
+  patterns: AnalysisPatternShape[];
+  markers: AnalysisMarker[];
+}
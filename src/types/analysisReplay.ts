@@ -0,0 +1,37 @@
+// Walk-forward replays: the same analysis re-run at a series of past end dates for one symbol
+
+import { BatchItemResult, BatchItemStatus } from '@/types/batchAnalysis';
+
+export type ReplayCadence = 'daily' | 'weekly' | 'monthly';
+
+export interface ReplaySettings {
+  symbol: string;
+  exchange: string;
+  period: number; // Lookback in days before each end date
+  interval: string;
+  startDate: string; // YYYY-MM-DD, first end date
+  endDate: string; // YYYY-MM-DD, last end date
+  cadence: ReplayCadence;
+  portfolio_value: number;
+}
+
+export interface ReplayPoint {
+  id: string;
+  endDate: string; // YYYY-MM-DD sent as the analysis end_date
+  status: BatchItemStatus;
+  attempts: number;
+  startedAt: number | null; // epoch ms of the current / last attempt
+  finishedAt: number | null;
+  nextRetryAt: number | null;
+  error: string | null;
+  result: BatchItemResult | null;
+}
+
+export interface ReplaySeries {
+  id: string;
+  createdAt: number;
+  settings: ReplaySettings;
+  points: ReplayPoint[]; // Oldest end date first
+  paused: boolean;
+  cancelled: boolean;
+}
@@ -0,0 +1,128 @@
+// Rule-based strategy backtests over historical candles
+
+// Indicator rules compare values on the signal bar; pattern rules fire on the bar a pattern is confirmed
+export type BacktestRuleKind =
+  | 'sma_cross_above'
+  | 'sma_cross_below'
+  | 'ema_cross_above'
+  | 'ema_cross_below'
+  | 'close_above_sma'
+  | 'close_below_sma'
+  | 'rsi_below'
+  | 'rsi_above'
+  | 'macd_cross_above'
+  | 'macd_cross_below'
+  | 'bollinger_below_lower'
+  | 'bollinger_above_upper'
+  | 'stochastic_below'
+  | 'stochastic_above'
+  | 'double_bottom'
+  | 'double_top'
+  | 'bullish_divergence'
+  | 'bearish_divergence'
+  | 'hammer'
+  | 'shooting_star'
+  | 'volume_spike';
+
+export interface BacktestRule {
+  id: string;
+  kind: BacktestRuleKind;
+  params: Record<string, number>;
+}
+
+export type BacktestDirection = 'long' | 'short';
+
+// all: every rule must fire on the same bar; any: one is enough
+export type BacktestRuleMode = 'all' | 'any';
+
+export interface BacktestStrategy {
+  name: string;
+  direction: BacktestDirection;
+  entryRules: BacktestRule[];
+  entryMode: BacktestRuleMode;
+  exitRules: BacktestRule[];
+  exitMode: BacktestRuleMode;
+  stopLossPct: number | null;
+  takeProfitPct: number | null;
+  maxBarsInTrade: number | null;
+}
+
+// intraday positions are squared off at the end of every NSE session; delivery positions carry over
+export type BacktestProduct = 'intraday' | 'delivery';
+
+export type BacktestSizingMode = 'percent_equity' | 'fixed_amount' | 'risk_percent';
+
+export interface BacktestSizing {
+  mode: BacktestSizingMode;
+  // percent_equity: % of equity per trade; fixed_amount: ₹ per trade; risk_percent: % of equity lost at the stop
+  value: number;
+}
+
+// All percentages are of traded value
+export interface BacktestCosts {
+  brokeragePct: number;
+  brokerageCap: number; // ₹ per order, 0 for no cap
+  sttBuyPct: number;
+  sttSellPct: number;
+  slippagePct: number; // Applied against us on every fill
+}
+
+export interface BacktestConfig {
+  symbol: string;
+  exchange: string;
+  timeframe: string; // Chart timeframe, e.g. "1d" or "15m"
+  bars: number;
+  initialCapital: number;
+  product: BacktestProduct;
+  sizing: BacktestSizing;
+  costs: BacktestCosts;
+  strategy: BacktestStrategy;
+}
+
+export type BacktestExitReason = 'signal' | 'stop' | 'target' | 'time' | 'session_end' | 'end_of_data';
+
+export interface BacktestTrade {
+  id: number;
+  direction: BacktestDirection;
+  entryTime: number; // Unix seconds
+  entryPrice: number; // Fill price including slippage
+  exitTime: number;
+  exitPrice: number;
+  quantity: number;
+  grossPnl: number;
+  costs: number; // Brokerage + STT for both legs
+  netPnl: number;
+  returnPct: number; // Net P&L on the capital deployed
+  barsHeld: number;
+  exitReason: BacktestExitReason;
+}
+
+export interface BacktestEquityPoint {
+  time: number;
+  equity: number;
+  drawdownPct: number; // <= 0
+}
+
+export interface BacktestMetrics {
+  finalEquity: number;
+  totalReturnPct: number;
+  cagrPct: number | null;
+  sharpe: number | null;
+  sortino: number | null;
+  maxDrawdownPct: number;
+  tradeCount: number;
+  winRatePct: number | null;
+  profitFactor: number | null;
+  avgTradePct: number | null;
+  exposurePct: number; // Share of bars with an open position
+  totalCosts: number;
+}
+
+export interface BacktestResult {
+  config: BacktestConfig;
+  trades: BacktestTrade[];
+  equity: BacktestEquityPoint[];
+  metrics: BacktestMetrics;
+  startTime: number;
+  endTime: number;
+}
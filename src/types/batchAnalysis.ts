@@ -0,0 +1,45 @@
+// Batch analysis runs: many symbols submitted together with shared settings
+
+export interface BatchAnalysisSettings {
+  exchange: string;
+  period: number;
+  interval: string;
+  end_date?: string; // YYYY-MM-DD
+  portfolio_value: number;
+}
+
+export type BatchItemStatus = 'queued' | 'running' | 'retrying' | 'success' | 'error' | 'cancelled';
+
+// What the results table needs from a finished analysis
+export interface BatchItemResult {
+  analysisId: string | null;
+  signal: string | null;
+  confidence: number | null; // 0-100
+  supports: number[];
+  resistances: number[];
+  stopLoss: number | null;
+  target: number | null;
+}
+
+export interface BatchItem {
+  id: string;
+  symbol: string;
+  status: BatchItemStatus;
+  attempts: number;
+  startedAt: number | null; // epoch ms of the current / last attempt
+  finishedAt: number | null;
+  nextRetryAt: number | null;
+  error: string | null;
+  result: BatchItemResult | null;
+}
+
+export interface BatchRun {
+  id: string;
+  name: string;
+  createdAt: number;
+  settings: BatchAnalysisSettings;
+  concurrency: number; // Analyses in flight at once
+  items: BatchItem[];
+  paused: boolean;
+  cancelled: boolean;
+}
@@ -0,0 +1,26 @@
+// Types for user drawings on the live chart
+
+export type DrawingType =
+  | 'trendline'
+  | 'horizontal_ray'
+  | 'rectangle'
+  | 'fib_retracement'
+  | 'fib_extension'
+  | 'parallel_channel'
+  | 'text';
+
+// Drawings are anchored to time/price (not pixels) so they survive zooming and timeframe switches
+export interface DrawingAnchor {
+  time: number; // Unix seconds
+  price: number;
+}
+
+export interface ChartDrawing {
+  id: string;
+  type: DrawingType;
+  anchors: DrawingAnchor[];
+  color: string;
+  text?: string; // Text notes only
+  createdAt: string;
+  updatedAt: string;
+}
@@ -0,0 +1,57 @@
+// Types for user-configurable chart indicators
+
+export type IndicatorType =
+  | 'sma'
+  | 'ema'
+  | 'rsi'
+  | 'macd'
+  | 'bollinger'
+  | 'stochastic'
+  | 'atr'
+  | 'obv'
+  | 'adx'
+  | 'ichimoku'
+  | 'keltner'
+  | 'donchian'
+  | 'dpo'
+  | 'williams_r'
+  | 'stochrsi'
+  | 'ad_line'
+  | 'efficiency_ratio'
+  | 'relative_strength'
+  | 'vwap'
+  | 'supertrend'
+  | 'psar'
+  | 'cci'
+  | 'mfi'
+  | 'pivots';
+
+// Where an indicator is drawn:
+// price  - overlaid on the candles, sharing their price scale
+// lower  - own scale in a band at the bottom of the price chart (oscillators)
+// volume - own scale overlaid on the volume chart
+export type IndicatorPane = 'price' | 'lower' | 'volume';
+
+// One configured indicator on a chart, e.g. SMA(100) in blue on the price pane
+export interface IndicatorInstance {
+  id: string;
+  type: IndicatorType;
+  params: Record<string, number>;
+  colors: Record<string, string>; // Keyed by output line, e.g. macd / signal / histogram
+  pane: IndicatorPane;
+  visible: boolean;
+}
+
+// OHLCV bar fed to indicator streams
+export interface IndicatorBar {
+  time: number;
+  open: number;
+  high: number;
+  low: number;
+  close: number;
+  volume: number;
+  benchmark?: number | null; // Benchmark (index) close at the same time, for relative strength
+}
+
+// Latest value of every output line of an indicator
+export type IndicatorValues = Record<string, number | null>;
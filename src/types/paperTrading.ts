@@ -0,0 +1,62 @@
+// Simulated positions opened from analysis recommendations and tracked against live prices
+
+export type PaperSide = 'long' | 'short';
+
+// Which trading_strategy horizon of the analysis the position follows
+export type PaperHorizon = 'short_term' | 'medium_term';
+
+// pending: waiting for the price to reach the entry range; cancelled: expired or dropped before filling
+export type PaperPositionStatus = 'pending' | 'open' | 'closed' | 'cancelled';
+
+export type PaperExitReason = 'target' | 'stop' | 'manual';
+
+export interface PaperTarget {
+  price: number;
+  quantity: number; // Slice of the position closed at this target
+  filled: boolean;
+}
+
+export interface PaperFill {
+  time: string; // ISO
+  price: number;
+  quantity: number;
+  kind: 'entry' | 'exit';
+  reason: PaperExitReason | null; // null for the entry
+  label: string; // e.g. "Entry", "T1", "Stop"
+}
+
+export interface PaperPosition {
+  id: string;
+  symbol: string;
+  side: PaperSide;
+  status: PaperPositionStatus;
+  quantity: number; // Planned, then filled size
+  openQuantity: number; // Still held after partial exits
+  entryRange: [number, number] | null; // Fills only inside this range; null enters at market
+  entryPrice: number | null; // Average fill
+  stopLoss: number | null;
+  targets: PaperTarget[];
+  fills: PaperFill[];
+  realizedPnl: number;
+  analysisId: string | null;
+  horizon: PaperHorizon | null;
+  createdAt: string;
+  openedAt: string | null;
+  closedAt: string | null;
+  expiresAt: string | null; // Pending orders lapse after the horizon
+  lastPrice: number | null; // Last price the position was evaluated against
+}
+
+export interface PaperPortfolio {
+  startingCapital: number;
+  positions: PaperPosition[];
+  createdAt: string;
+  updatedAt: string;
+}
+
+// Something that happened to a position on a price update, for toasts
+export interface PaperTradeEvent {
+  positionId: string;
+  symbol: string;
+  message: string;
+}
@@ -0,0 +1,60 @@
+// The user's holdings across the whole book, and the portfolio context sent with analysis requests
+
+export type HoldingSide = 'long' | 'short';
+
+// Where a holding was entered: by hand, from a broker CSV or copied from the paper portfolio
+export type HoldingSource = 'manual' | 'csv' | 'paper';
+
+export interface PortfolioHolding {
+  id: string;
+  symbol: string;
+  quantity: number; // Always positive; side carries the direction
+  averagePrice: number;
+  side: HoldingSide;
+  sector: string | null; // Resolved from the sector API and cached here
+  source: HoldingSource;
+  updatedAt: string;
+}
+
+// Snake case from here on: these travel in the analysis request as portfolio_context
+
+export interface SectorExposure {
+  sector: string;
+  value: number; // Net market value; shorts count negative
+  weight: number; // % of the book
+}
+
+export interface HoldingExposure {
+  symbol: string;
+  sector: string | null;
+  side: HoldingSide;
+  quantity: number;
+  price: number; // Latest close, or the average price when none was available
+  value: number; // Net market value
+  weight: number; // % of the book
+  correlation: number | null; // Of daily returns with the analysed stock
+  volatility: number | null; // Annualised, %
+}
+
+export interface PortfolioContext {
+  as_of: string; // ISO
+  book_value: number; // Larger of the portfolio value and gross holdings value; weights are % of this
+  gross_exposure: number; // Sum of |value|, % of the book
+  net_exposure: number; // Longs minus shorts, % of the book
+  lookback_days: number;
+  holdings: HoldingExposure[];
+  sector_exposure: SectorExposure[];
+  candidate: {
+    symbol: string;
+    sector: string | null;
+    volatility: number | null;
+    // Value-weighted correlation with the rest of the book
+    average_correlation: number | null;
+    sector_weight: number; // % of the book already in the analysed stock's sector
+  };
+  // Pairwise correlations of daily returns for the holdings and the analysed stock (null where the series were too short)
+  correlation_matrix: {
+    symbols: string[];
+    values: (number | null)[][];
+  };
+}
@@ -0,0 +1,61 @@
+// Portfolio-level risk of the user's holdings, worked out on this device from aligned daily candles
+import { ScenarioResult, StressScenario } from '@/types/analysis';
+import { HoldingSide } from '@/types/portfolio';
+
+export type RiskConfidence = 0.95 | 0.99;
+
+export interface DrawdownPoint {
+  time: number;
+  value: number;
+  drawdownPct: number; // <= 0, from the running peak
+}
+
+export interface PositionRisk {
+  symbol: string;
+  sector: string;
+  side: HoldingSide;
+  quantity: number;
+  price: number; // Latest close
+  value: number; // Net market value; shorts count negative
+  weight: number; // % of gross exposure, signed
+  volatility: number | null; // Annualised, %
+  beta: number | null; // To the benchmark
+  marginalVar: number; // 95% one-day VaR added per extra rupee in the position
+  componentVar: number; // Rupees of the parametric 95% one-day VaR owed to this position
+  riskContribution: number; // % of the book's P&L variance
+}
+
+export interface VarEstimate {
+  confidence: RiskConfidence;
+  historicalVar: number; // One-day loss in rupees, positive
+  historicalCvar: number;
+  parametricVar: number;
+  parametricCvar: number;
+}
+
+export interface ExcludedHolding {
+  symbol: string;
+  reason: string;
+}
+
+export interface PortfolioRiskReport {
+  asOf: string; // ISO
+  benchmark: string;
+  lookbackDays: number;
+  observations: number; // Sessions every modelled holding traded
+  grossExposure: number; // Sum of |value|; percentages below are of this
+  netExposure: number;
+  positions: PositionRisk[];
+  excluded: ExcludedHolding[];
+  // Daily return statistics over the aligned sessions, same order as positions
+  correlation: (number | null)[][];
+  covariance: number[][]; // Annualised, in % squared
+  volatility: number | null; // Annualised, % of gross
+  beta: number | null;
+  benchmarkCorrelation: number | null;
+  var: VarEstimate[];
+  drawdown: DrawdownPoint[]; // Today's holdings valued over the lookback
+  maxDrawdown: number; // %, <= 0
+  stressScenarios: StressScenario[];
+  scenarioResults: ScenarioResult[];
+}
@@ -0,0 +1,65 @@
+// What the price did after a stored analysis, scored against its signal, stop and target
+
+import { SignalBias } from '@/utils/analysisSummary';
+
+export type OutcomeHorizon = 1 | 5 | 20;
+
+// long / short follow the signal bias; neutral signals are measured as long but never hit-scored
+export type OutcomeDirection = 'long' | 'short' | 'flat';
+
+// both: stop and target inside the same bar - intrabar order is unknown, so it counts as a stop
+export type OutcomeFirstHit = 'target' | 'stop' | 'both' | 'none';
+
+// open: fewer bars than the longest horizon so far, rescored on the next visit
+export type SignalOutcomeStatus = 'open' | 'complete' | 'unscorable';
+
+export type OutcomeDimension = 'signal' | 'sector' | 'timeframe';
+
+export interface SignalOutcome {
+  analysisId: string;
+  symbol: string;
+  exchange: string;
+  interval: string; // Analysis interval, e.g. "day" or "15minute"
+  sector: string | null;
+  signal: string | null;
+  bias: SignalBias;
+  confidence: number | null; // 0-100
+  analysisTime: number; // epoch ms the analysis is as of (end date for backdated runs)
+  direction: OutcomeDirection;
+  entryPrice: number | null;
+  stopLoss: number | null;
+  target: number | null;
+  status: SignalOutcomeStatus;
+  reason: string | null; // Why an outcome is unscorable
+  firstHit: OutcomeFirstHit;
+  barsToHit: number | null;
+  // Excursions and returns are % in the signal's direction, so positive is always good
+  mfePct: number | null;
+  maePct: number | null;
+  returns: Record<OutcomeHorizon, number | null>;
+  barsObserved: number;
+  scoredAt: number;
+}
+
+export interface OutcomeGroupSummary {
+  key: string;
+  total: number;
+  neutral: number; // Hold / flat signals, counted in total but left out of hit rate and averages
+  decided: number; // Target or stop reached within the horizon
+  targetHits: number;
+  stopHits: number; // Includes same-bar hits
+  hitRate: number | null; // targetHits / decided, %
+  avgReturns: Record<OutcomeHorizon, number | null>;
+  avgMfePct: number | null;
+  avgMaePct: number | null;
+}
+
+export interface CalibrationBucket {
+  label: string; // e.g. "60-70%"
+  min: number;
+  max: number;
+  count: number;
+  avgConfidence: number | null;
+  hitRate: number | null; // Realised target-first rate among decided outcomes
+  winRate: number | null; // Share of complete outcomes with a positive 20-bar return
+}
@@ -0,0 +1,9 @@
+// Named, ordered symbol lists saved per user
+
+export interface Watchlist {
+  id: string;
+  name: string;
+  symbols: string[]; // In display order
+  createdAt: string;
+  updatedAt: string;
+}
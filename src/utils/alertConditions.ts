@@ -0,0 +1,99 @@
+import { formatCurrency } from '@/utils/numberFormatter';
+import { AlertCondition } from '@/types/alerts';
+
+// Everything an alert can be evaluated against at one point in the stream
+export interface AlertSnapshot {
+  price: number;
+  previousClose?: number | null;
+  rsi?: number | null;
+  macd?: { macd: number | null; signal: number | null } | null;
+}
+
+export interface ConditionState {
+  active: boolean;
+  message: string;
+}
+
+// Every condition is reduced to a boolean "is it true right now"; the engine fires on the
+// false -> true edge, which turns "price >= X" into a cross and "MACD > signal" into a crossover.
+// Returns null while the inputs aren't available yet (e.g. RSI still warming up).
+export function evaluateCondition(condition: AlertCondition, snapshot: AlertSnapshot): ConditionState | null {
+  const { price } = snapshot;
+
+  switch (condition.type) {
+    case 'price_cross': {
+      const active = condition.direction === 'above' ? price >= condition.price : price <= condition.price;
+      return {
+        active,
+        message: `Crossed ${condition.direction} ${formatCurrency(condition.price)} (now ${formatCurrency(price)})`
+      };
+    }
+
+    case 'percent_move': {
+      if (!snapshot.previousClose) return null;
+      const change = ((price - snapshot.previousClose) / snapshot.previousClose) * 100;
+      const active =
+        condition.direction === 'up' ? change >= condition.percent :
+        condition.direction === 'down' ? change <= -condition.percent :
+        Math.abs(change) >= condition.percent;
+      return {
+        active,
+        message: `Moved ${change >= 0 ? '+' : ''}${change.toFixed(2)}% from previous close (now ${formatCurrency(price)})`
+      };
+    }
+
+    case 'rsi': {
+      if (snapshot.rsi === null || snapshot.rsi === undefined || Number.isNaN(snapshot.rsi)) return null;
+      const active = condition.operator === 'above' ? snapshot.rsi > condition.value : snapshot.rsi < condition.value;
+      return {
+        active,
+        message: `RSI(${condition.period}) ${condition.timeframe} is ${snapshot.rsi.toFixed(1)}, ${condition.operator} ${condition.value}`
+      };
+    }
+
+    case 'macd_cross': {
+      const macd = snapshot.macd;
+      if (!macd || macd.macd === null || macd.signal === null) return null;
+      const active = condition.direction === 'bullish' ? macd.macd > macd.signal : macd.macd < macd.signal;
+      return {
+        active,
+        message: `MACD ${condition.timeframe} crossed ${condition.direction === 'bullish' ? 'above' : 'below'} its signal line`
+      };
+    }
+
+    case 'analysis_level': {
+      const touched = condition.levels.find(
+        level => Math.abs(price - level.price) / level.price * 100 <= condition.tolerancePercent
+      );
+      return {
+        active: !!touched,
+        message: touched
+          ? `Touched ${touched.kind} ${touched.label} at ${formatCurrency(touched.price)} (now ${formatCurrency(price)})`
+          : ''
+      };
+    }
+
+    default:
+      return null;
+  }
+}
+
+// Short human description used on the alerts page
+export function describeCondition(condition: AlertCondition): string {
+  switch (condition.type) {
+    case 'price_cross':
+      return `Price crosses ${condition.direction} ${formatCurrency(condition.price)}`;
+    case 'percent_move':
+      return condition.direction === 'either'
+        ? `Moves ±${condition.percent}% from previous close`
+        : `Moves ${condition.direction === 'up' ? '+' : '-'}${condition.percent}% from previous close`;
+    case 'rsi':
+      return `RSI(${condition.period}) ${condition.timeframe} ${condition.operator === 'above' ? '>' : '<'} ${condition.value}`;
+    case 'macd_cross':
+      return `MACD ${condition.timeframe} ${condition.direction} crossover`;
+    case 'analysis_level':
+      return `Touches one of ${condition.levels.length} analysis levels (±${condition.tolerancePercent}%)`;
+    default:
+      return 'Unknown condition';
+  }
+}
@@ -0,0 +1,294 @@
+import { AnalysisPriceLevel } from '@/types/analysisOverlays';
+import { buildAnalysisOverlays, getAnalysisPayload } from '@/utils/analysisOverlays';
+import { getSignalBias } from '@/utils/analysisSummary';
+
+// Aligns stored analyses field by field for the /compare view
+
+export type ComparisonValueKind = 'signal' | 'number' | 'percent' | 'price' | 'text' | 'longtext';
+export type ComparisonValue = string | number | null;
+
+export interface ComparableAnalysis {
+  id: string;
+  symbol: string;
+  createdAt: string | null;
+  interval: string | null;
+  period: number | null;
+  endDate: string | null;
+  payload: any;
+  levels: AnalysisPriceLevel[];
+}
+
+export interface ComparisonRow {
+  label: string;
+  kind: ComparisonValueKind;
+  values: ComparisonValue[];
+  disagrees: boolean;
+}
+
+export interface ComparisonSection {
+  key: string;
+  title: string;
+  rows: ComparisonRow[];
+}
+
+export interface FieldDiff {
+  path: string;
+  values: ComparisonValue[];
+}
+
+interface RowDefinition {
+  label: string;
+  kind: ComparisonValueKind;
+  get: (analysis: ComparableAnalysis) => unknown;
+}
+
+// Relative spread above which numbers count as disagreeing; percentages use absolute points
+const NUMBER_TOLERANCE = 0.05;
+const PERCENT_TOLERANCE_POINTS = 5;
+// Field diff: only the analytical parts of the payload, and never the bulky series
+const DIFF_ROOTS = ['summary', 'consensus', 'indicators', 'technical_indicators', 'ai_analysis', 'sector_benchmarking', 'decision_story'];
+const DIFF_SKIP_KEYS = new Set(['charts', 'overlays', 'data', 'raw_data', 'chart_insights', 'indicator_summary_md', 'narrative']);
+const DIFF_MAX_DEPTH = 6;
+const DIFF_MAX_ARRAY_ITEMS = 5;
+const MAX_DIFF_FIELDS = 400;
+
+const toNumber = (value: unknown): number | null => {
+  const num = typeof value === 'string' ? parseFloat(value) : value;
+  return typeof num === 'number' && Number.isFinite(num) ? num : null;
+};
+
+const toText = (value: unknown): string | null => {
+  if (value === null || value === undefined || value === '') return null;
+  if (typeof value === 'boolean') return value ? 'Yes' : 'No';
+  return String(value);
+};
+
+const formatRange = (range: unknown): string | null => {
+  if (!Array.isArray(range)) return null;
+  const [low, high] = range.map(toNumber);
+  if (low === null && high === null) return null;
+  return `${low?.toFixed(2) ?? '—'} – ${high?.toFixed(2) ?? '—'}`;
+};
+
+const nearestLevel = (analysis: ComparableAnalysis, kind: 'support' | 'resistance'): number | null => {
+  const prices = analysis.levels.filter(level => level.kind === kind).map(level => level.price);
+  if (prices.length === 0) return null;
+  return kind === 'support' ? Math.max(...prices) : Math.min(...prices);
+};
+
+// ===== PAYLOAD ACCESSORS =====
+// Enhanced and legacy analyses keep the same data under different keys
+
+const consensusOf = (p: any) => p?.consensus || {};
+const indicatorsOf = (p: any) => p?.indicators || p?.technical_indicators || p?.consensus?.technical_indicators || {};
+const aiOf = (p: any) => p?.ai_analysis || {};
+const strategyOf = (p: any) => aiOf(p).trading_strategy || {};
+const riskOf = (p: any) =>
+  p?.enhanced_metadata?.advanced_risk_metrics ||
+  p?.technical_indicators?.advanced_risk_metrics ||
+  p?.advanced_risk_metrics ||
+  p?.risk_metrics ||
+  p?.indicators?.advanced_risk ||
+  {};
+const sectorOf = (p: any) => p?.sector_benchmarking || {};
+const storyOf = (p: any) => p?.decision_story || aiOf(p).decision_story || {};
+
+const SECTIONS: { key: string; title: string; rows: RowDefinition[] }[] = [
+  {
+    key: 'consensus',
+    title: 'Consensus',
+    rows: [
+      { label: 'Overall signal', kind: 'signal', get: a => consensusOf(a.payload).overall_signal ?? a.payload?.summary?.overall_signal },
+      { label: 'AI primary trend', kind: 'signal', get: a => aiOf(a.payload).market_outlook?.primary_trend?.direction ?? aiOf(a.payload).trend },
+      { label: 'Confidence', kind: 'percent', get: a => consensusOf(a.payload).confidence ?? a.payload?.summary?.confidence ?? aiOf(a.payload).meta?.overall_confidence },
+      { label: 'Signal strength', kind: 'text', get: a => consensusOf(a.payload).signal_strength ?? a.payload?.summary?.signal_strength },
+      { label: 'Bullish', kind: 'percent', get: a => consensusOf(a.payload).bullish_percentage ?? a.payload?.summary?.bullish_percentage },
+      { label: 'Bearish', kind: 'percent', get: a => consensusOf(a.payload).bearish_percentage ?? a.payload?.summary?.bearish_percentage }
+    ]
+  },
+  {
+    key: 'indicators',
+    title: 'Indicators',
+    rows: [
+      { label: 'RSI (14)', kind: 'number', get: a => indicatorsOf(a.payload).rsi?.rsi_14 },
+      { label: 'RSI status', kind: 'text', get: a => indicatorsOf(a.payload).rsi?.status },
+      { label: 'MACD line', kind: 'number', get: a => indicatorsOf(a.payload).macd?.macd_line },
+      { label: 'MACD histogram', kind: 'number', get: a => indicatorsOf(a.payload).macd?.histogram },
+      { label: 'ADX', kind: 'number', get: a => indicatorsOf(a.payload).adx?.adx ?? indicatorsOf(a.payload).trend_data?.adx },
+      { label: 'Trend direction', kind: 'signal', get: a => indicatorsOf(a.payload).adx?.trend_direction ?? indicatorsOf(a.payload).trend_data?.direction },
+      { label: 'SMA 20', kind: 'price', get: a => indicatorsOf(a.payload).moving_averages?.sma_20 },
+      { label: 'SMA 50', kind: 'price', get: a => indicatorsOf(a.payload).moving_averages?.sma_50 },
+      { label: 'SMA 200', kind: 'price', get: a => indicatorsOf(a.payload).moving_averages?.sma_200 },
+      { label: 'Price / SMA 200', kind: 'number', get: a => indicatorsOf(a.payload).moving_averages?.price_to_sma_200 },
+      { label: 'Bollinger %B', kind: 'number', get: a => indicatorsOf(a.payload).bollinger_bands?.percent_b },
+      { label: 'Volume ratio', kind: 'number', get: a => indicatorsOf(a.payload).volume?.volume_ratio },
+      { label: 'OBV trend', kind: 'signal', get: a => indicatorsOf(a.payload).volume?.obv_trend }
+    ]
+  },
+  {
+    key: 'levels',
+    title: 'Trading levels',
+    rows: [
+      { label: 'Nearest support', kind: 'price', get: a => nearestLevel(a, 'support') },
+      { label: 'Nearest resistance', kind: 'price', get: a => nearestLevel(a, 'resistance') },
+      { label: 'Short-term bias', kind: 'signal', get: a => strategyOf(a.payload).short_term?.bias },
+      { label: 'Short-term entry', kind: 'text', get: a => formatRange(strategyOf(a.payload).short_term?.entry_strategy?.entry_range) },
+      { label: 'Short-term stop', kind: 'price', get: a => strategyOf(a.payload).short_term?.exit_strategy?.stop_loss },
+      { label: 'Short-term target', kind: 'price', get: a => strategyOf(a.payload).short_term?.exit_strategy?.targets?.[0]?.price },
+      { label: 'Medium-term bias', kind: 'signal', get: a => strategyOf(a.payload).medium_term?.bias },
+      { label: 'Medium-term stop', kind: 'price', get: a => strategyOf(a.payload).medium_term?.exit_strategy?.stop_loss },
+      { label: 'Medium-term target', kind: 'price', get: a => strategyOf(a.payload).medium_term?.exit_strategy?.targets?.[0]?.price },
+      { label: 'Long-term rating', kind: 'signal', get: a => strategyOf(a.payload).long_term?.investment_rating },
+      { label: 'Fair value', kind: 'text', get: a => formatRange(strategyOf(a.payload).long_term?.fair_value_range) }
+    ]
+  },
+  {
+    key: 'risk',
+    title: 'Risk metrics',
+    rows: [
+      { label: 'Risk level', kind: 'text', get: a => riskOf(a.payload).risk_level ?? riskOf(a.payload).risk_assessment?.risk_level },
+      { label: 'Risk score', kind: 'number', get: a => riskOf(a.payload).risk_score ?? riskOf(a.payload).overall_risk_score ?? riskOf(a.payload).risk_assessment?.overall_risk_score },
+      { label: 'Annualized volatility', kind: 'number', get: a => riskOf(a.payload).annualized_volatility ?? riskOf(a.payload).basic_metrics?.annualized_volatility },
+      { label: 'VaR 95%', kind: 'number', get: a => riskOf(a.payload).var_95 ?? riskOf(a.payload).value_at_risk_95 ?? riskOf(a.payload).var_metrics?.var_95 },
+      { label: 'Max drawdown', kind: 'number', get: a => riskOf(a.payload).max_drawdown ?? riskOf(a.payload).drawdown_metrics?.max_drawdown },
+      { label: 'Sharpe ratio', kind: 'number', get: a => riskOf(a.payload).sharpe_ratio ?? riskOf(a.payload).risk_adjusted_metrics?.sharpe_ratio },
+      { label: 'Top risk', kind: 'longtext', get: a => aiOf(a.payload).risk_management?.key_risks?.[0]?.risk }
+    ]
+  },
+  {
+    key: 'sector',
+    title: 'Sector benchmarking',
+    rows: [
+      { label: 'Sector', kind: 'text', get: a => sectorOf(a.payload).sector_info?.sector_name ?? sectorOf(a.payload).sector_info?.sector },
+      { label: 'Beta vs market', kind: 'number', get: a => sectorOf(a.payload).market_benchmarking?.beta },
+      { label: 'Beta vs sector', kind: 'number', get: a => sectorOf(a.payload).sector_benchmarking?.sector_beta },
+      { label: 'Sector correlation', kind: 'number', get: a => sectorOf(a.payload).sector_benchmarking?.sector_correlation },
+      { label: 'Performance vs sector', kind: 'number', get: a => sectorOf(a.payload).relative_performance?.vs_sector?.performance_ratio },
+      { label: 'Sector percentile', kind: 'number', get: a => sectorOf(a.payload).relative_performance?.vs_sector?.sector_percentile },
+      { label: 'Sector risk level', kind: 'text', get: a => sectorOf(a.payload).sector_risk_metrics?.risk_level }
+    ]
+  },
+  {
+    key: 'story',
+    title: 'Decision story',
+    rows: [
+      { label: 'Assessment', kind: 'signal', get: a => storyOf(a.payload).decision_chain?.overall_assessment?.trend },
+      { label: 'Assessment confidence', kind: 'percent', get: a => storyOf(a.payload).decision_chain?.overall_assessment?.confidence },
+      { label: 'Primary risks', kind: 'longtext', get: a => (storyOf(a.payload).decision_chain?.risk_assessment?.primary_risks || []).slice(0, 3).join('; ') },
+      { label: 'Narrative', kind: 'longtext', get: a => storyOf(a.payload).narrative }
+    ]
+  }
+];
+
+// ===== BUILD =====
+
+export function toComparableAnalysis(record: { id: string; stock_symbol?: string; created_at?: string | null; analysis_data: any }): ComparableAnalysis {
+  const payload = getAnalysisPayload(record.analysis_data) || {};
+  const outer = typeof record.analysis_data === 'object' && record.analysis_data ? record.analysis_data : {};
+  return {
+    id: record.id,
+    symbol: (record.stock_symbol || outer.stock_symbol || aiOf(payload).meta?.symbol || '').toUpperCase(),
+    createdAt: record.created_at || outer.timestamp || null,
+    interval: payload.interval || outer.interval || payload.metadata?.interval || null,
+    period: toNumber(payload.metadata?.period_days ?? payload.analysis_period ?? outer.analysis_period),
+    endDate: payload.end_date || outer.end_date || null,
+    payload,
+    levels: buildAnalysisOverlays({ id: record.id, analysis_data: payload })?.levels || []
+  };
+}
+
+const normalizeValue = (value: unknown, kind: ComparisonValueKind): ComparisonValue => {
+  if (kind === 'text' || kind === 'longtext' || kind === 'signal') return toText(value);
+  return toNumber(value);
+};
+
+const rowDisagrees = (values: ComparisonValue[], kind: ComparisonValueKind): boolean => {
+  const present = values.filter((value): value is string | number => value !== null);
+  if (present.length < 2 || kind === 'longtext') return false;
+
+  if (kind === 'signal') {
+    return new Set(present.map(value => getSignalBias(String(value)))).size > 1;
+  }
+  if (kind === 'text') {
+    return new Set(present.map(value => String(value).trim().toLowerCase())).size > 1;
+  }
+  const numbers = present as number[];
+  const spread = Math.max(...numbers) - Math.min(...numbers);
+  if (kind === 'percent') return spread > PERCENT_TOLERANCE_POINTS;
+  const scale = Math.max(...numbers.map(Math.abs));
+  // Opposite signs always disagree (e.g. MACD histogram above vs below zero)
+  if (Math.min(...numbers) < 0 && Math.max(...numbers) > 0) return true;
+  return scale > 0 && spread / scale > NUMBER_TOLERANCE;
+};
+
+// Sections with every row filled in for at least one analysis
+export function buildComparisonSections(analyses: ComparableAnalysis[]): ComparisonSection[] {
+  return SECTIONS.map(section => ({
+    key: section.key,
+    title: section.title,
+    rows: section.rows
+      .map(row => {
+        const values = analyses.map(analysis => normalizeValue(row.get(analysis), row.kind));
+        return { label: row.label, kind: row.kind, values, disagrees: rowDisagrees(values, row.kind) };
+      })
+      .filter(row => row.values.some(value => value !== null))
+  })).filter(section => section.rows.length > 0);
+}
+
+export function formatComparisonValue(value: ComparisonValue, kind: ComparisonValueKind): string {
+  if (value === null) return '—';
+  if (typeof value === 'string') return value;
+  if (kind === 'percent') return `${value.toFixed(1)}%`;
+  if (kind === 'price') return value.toFixed(2);
+  return Math.abs(value) >= 1000 ? value.toLocaleString('en-IN', { maximumFractionDigits: 0 }) : value.toFixed(Math.abs(value) < 1 ? 4 : 2);
+}
+
+// ===== FIELD DIFF =====
+
+const flatten = (value: unknown, path: string, depth: number, out: Map<string, ComparisonValue>) => {
+  if (value === null || value === undefined) return;
+  if (typeof value === 'number') {
+    if (Number.isFinite(value)) out.set(path, Math.round(value * 10000) / 10000);
+    return;
+  }
+  if (typeof value === 'string' || typeof value === 'boolean') {
+    out.set(path, toText(value));
+    return;
+  }
+  if (depth >= DIFF_MAX_DEPTH) return;
+  if (Array.isArray(value)) {
+    if (value.every(item => item === null || typeof item !== 'object')) {
+      out.set(path, value.map(item => toText(item) ?? '—').join(', '));
+      return;
+    }
+    value.slice(0, DIFF_MAX_ARRAY_ITEMS).forEach((item, index) => flatten(item, `${path}[${index}]`, depth + 1, out));
+    return;
+  }
+  if (typeof value === 'object') {
+    Object.entries(value as Record<string, unknown>).forEach(([key, child]) => {
+      if (DIFF_SKIP_KEYS.has(key)) return;
+      flatten(child, path ? `${path}.${key}` : key, depth + 1, out);
+    });
+  }
+};
+
+// Every leaf field whose value differs between the analyses (meant for runs of the same symbol)
+export function diffAnalysisFields(analyses: ComparableAnalysis[]): FieldDiff[] {
+  const flattened = analyses.map(analysis => {
+    const out = new Map<string, ComparisonValue>();
+    DIFF_ROOTS.forEach(root => flatten(analysis.payload?.[root], root, 0, out));
+    return out;
+  });
+
+  const paths = new Set<string>();
+  flattened.forEach(map => map.forEach((_, path) => paths.add(path)));
+
+  const diffs: FieldDiff[] = [];
+  Array.from(paths).sort().forEach(path => {
+    const values = flattened.map(map => map.get(path) ?? null);
+    if (new Set(values.map(value => (value === null ? '\u0000' : String(value)))).size > 1) {
+      diffs.push({ path, values });
+    }
+  });
+  return diffs.slice(0, MAX_DIFF_FIELDS);
+}
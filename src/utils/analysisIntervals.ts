@@ -0,0 +1,29 @@
+// Intervals the analysis backend accepts, and the longest period (days) it serves for each
+
+export const ANALYSIS_INTERVAL_OPTIONS: { value: string; label: string }[] = [
+  { value: "1minute", label: "1 Minute" },
+  { value: "5minute", label: "5 Minutes" },
+  { value: "15minute", label: "15 Minutes" },
+  { value: "30minute", label: "30 Minutes" },
+  { value: "60minute", label: "1 Hour" },
+  { value: "day", label: "1 Day" },
+  { value: "week", label: "1 Week" },
+  { value: "month", label: "1 Month" },
+];
+
+// Interval to max period mapping
+const intervalMaxPeriod: Record<string, number | undefined> = {
+  "1minute": 30,
+  "3minute": 90,
+  "5minute": 90,
+  "10minute": 90,
+  "15minute": 180,
+  "30minute": 180,
+  "60minute": 365,
+  "day": 2000,
+  "Daily": 2000,
+  "week": 2000,
+  "month": 2000,
+};
+
+export const getMaxPeriod = (interval: string) => intervalMaxPeriod[interval];
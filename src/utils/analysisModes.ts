@@ -0,0 +1,47 @@
+// Analysis modes the request form offers, and the timeframes the enhanced multi-timeframe mode can combine
+import { AnalysisMode, StoredAnalysisMode } from '@/types/analysis';
+
+export const ANALYSIS_MODE_OPTIONS: { value: AnalysisMode; label: string; description: string }[] = [
+  { value: 'standard', label: 'Standard', description: 'Indicators and patterns on the selected interval' },
+  { value: 'enhanced', label: 'Enhanced', description: 'Adds the agent panel, verified calculations and the AI trade plan' },
+  { value: 'enhanced_mtf', label: 'Enhanced multi-timeframe', description: 'Enhanced analysis across several timeframes, checked for agreement' }
+];
+
+export const ANALYSIS_MODE_LABELS: Record<StoredAnalysisMode, string> = {
+  standard: 'Standard',
+  enhanced: 'Enhanced',
+  enhanced_mtf: 'Multi-timeframe',
+  indicator_snapshot: 'Indicator snapshot'
+};
+
+// Everything submitted before modes existed went through the enhanced endpoint
+export const DEFAULT_ANALYSIS_MODE: AnalysisMode = 'enhanced';
+
+export const isStoredAnalysisMode = (value: unknown): value is StoredAnalysisMode =>
+  typeof value === 'string' && Object.prototype.hasOwnProperty.call(ANALYSIS_MODE_LABELS, value);
+
+// Snapshots pinned before they had a mode of their own were stored as 'standard' and only carry the source
+export const INDICATOR_SNAPSHOT_SOURCE = 'realtime_snapshot';
+
+export const isIndicatorSnapshot = (analysisData: any): boolean =>
+  analysisData?.analysis_mode === 'indicator_snapshot' || analysisData?.source === INDICATOR_SNAPSHOT_SOURCE;
+
+// Timeframe names as the multi-timeframe endpoint reports them, shortest first
+export const MTF_TIMEFRAME_OPTIONS: { value: string; label: string }[] = [
+  { value: '1min', label: '1m' },
+  { value: '5min', label: '5m' },
+  { value: '15min', label: '15m' },
+  { value: '30min', label: '30m' },
+  { value: '1hour', label: '1h' },
+  { value: '1day', label: '1D' },
+  { value: '1week', label: '1W' },
+  { value: '1month', label: '1M' }
+];
+
+export const DEFAULT_MTF_TIMEFRAMES = ['15min', '1hour', '1day', '1week'];
+// Agreement needs at least two timeframes to compare
+export const MIN_MTF_TIMEFRAMES = 2;
+
+// Keeps the picked timeframes in option order so requests and stored runs read the same way
+export const sortMtfTimeframes = (timeframes: string[]): string[] =>
+  MTF_TIMEFRAME_OPTIONS.map(option => option.value).filter(value => timeframes.includes(value));
@@ -0,0 +1,238 @@
+import {
+  AnalysisMarker,
+  AnalysisOverlaySet,
+  AnalysisPatternShape,
+  AnalysisPriceLevel,
+  AnalysisZone
+} from '@/types/analysisOverlays';
+
+// Turns a stored analysis (as returned by the analyses-by-symbol endpoint) into
+// price lines, zones and pattern shapes for the live chart. Every field is optional
+// because older analyses predate trading_strategy / critical_levels / overlays.
+
+export const ANALYSIS_LEVEL_COLORS: Record<AnalysisPriceLevel['kind'], string> = {
+  support: '#16a34a',
+  resistance: '#dc2626',
+  entry: '#2563eb',
+  stop: '#b91c1c',
+  target: '#059669',
+  critical: '#d97706'
+};
+
+export const ANALYSIS_ZONE_COLORS: Record<AnalysisZone['kind'], string> = {
+  entry: '#2563eb',
+  accumulation: '#16a34a',
+  distribution: '#dc2626'
+};
+
+export const ANALYSIS_PATTERN_COLOR = '#7c3aed';
+
+export interface StoredAnalysisRecord {
+  id: string;
+  created_at?: string | null;
+  analysis_data: any;
+}
+
+const isPrice = (value: unknown): value is number =>
+  typeof value === 'number' && Number.isFinite(value) && value > 0;
+
+// Unix seconds, or null for dates the backend left empty / malformed
+const toSeconds = (date: unknown): number | null => {
+  if (typeof date !== 'string' && typeof date !== 'number') return null;
+  const ms = typeof date === 'number' ? date * 1000 : Date.parse(date);
+  return Number.isFinite(ms) ? Math.floor(ms / 1000) : null;
+};
+
+const formatDate = (iso: string, withYear: boolean): string => {
+  const date = new Date(iso);
+  if (Number.isNaN(date.getTime())) return iso;
+  return date.toLocaleDateString('en-IN', {
+    day: 'numeric',
+    month: 'short',
+    ...(withYear ? { year: 'numeric' } : {})
+  });
+};
+
+const titleCase = (value: string): string =>
+  value.replace(/_/g, ' ').replace(/\b\w/g, c => c.toUpperCase());
+
+// analysis_data is sometimes stored as a JSON string and sometimes wrapped in { results }
+export function getAnalysisPayload(analysisData: any): any | null {
+  let data = analysisData;
+  if (typeof data === 'string') {
+    try {
+      data = JSON.parse(data);
+    } catch {
+      return null;
+    }
+  }
+  if (!data || typeof data !== 'object') return null;
+  return data.results || data;
+}
+
+// ===== LEVELS =====
+
+function collectLevels(payload: any): AnalysisPriceLevel[] {
+  const levels: AnalysisPriceLevel[] = [];
+  const ai = payload.ai_analysis || {};
+
+  // Support / resistance - prefer the flat arrays TradingLevelsCard reads, fall back to overlays
+  const supports: unknown[] = Array.isArray(payload.support_levels)
+    ? payload.support_levels
+    : (payload.overlays?.support_resistance?.support || []).map((s: any) => s?.level);
+  const resistances: unknown[] = Array.isArray(payload.resistance_levels)
+    ? payload.resistance_levels
+    : (payload.overlays?.support_resistance?.resistance || []).map((r: any) => r?.level);
+
+  supports.filter(isPrice).forEach((price, i) => levels.push({ price, kind: 'support', label: `S${i + 1}` }));
+  resistances.filter(isPrice).forEach((price, i) => levels.push({ price, kind: 'resistance', label: `R${i + 1}` }));
+
+  // Stops and targets per timeframe strategy
+  const strategy = ai.trading_strategy || {};
+  (['short_term', 'medium_term'] as const).forEach(horizon => {
+    const exit = strategy[horizon]?.exit_strategy;
+    if (!exit) return;
+    const suffix = horizon === 'short_term' ? 'short' : 'medium';
+    if (isPrice(exit.stop_loss)) {
+      levels.push({ price: exit.stop_loss, kind: 'stop', label: `Stop ${suffix}` });
+    }
+    (exit.targets || []).forEach((target: any, i: number) => {
+      if (isPrice(target?.price)) {
+        levels.push({ price: target.price, kind: 'target', label: `T${i + 1} ${suffix}` });
+      }
+    });
+  });
+
+  (ai.risk_management?.stop_loss_levels || []).forEach((stop: any) => {
+    if (isPrice(stop?.level)) {
+      levels.push({ price: stop.level, kind: 'stop', label: stop.type ? `Stop ${stop.type}` : 'Stop' });
+    }
+  });
+
+  const critical = ai.critical_levels || {};
+  (critical.must_watch || []).forEach((level: any) => {
+    if (isPrice(level?.level)) {
+      levels.push({ price: level.level, kind: 'critical', label: level.type ? titleCase(level.type) : 'Critical' });
+    }
+  });
+  (critical.confirmation_levels || []).forEach((level: any) => {
+    if (isPrice(level?.level)) {
+      levels.push({ price: level.level, kind: 'critical', label: 'Confirmation' });
+    }
+  });
+
+  // Short and medium term strategies often share a stop or target; keep the first label
+  const seen = new Set<string>();
+  return levels.filter(level => {
+    const key = `${level.kind}:${level.price.toFixed(2)}`;
+    if (seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+}
+
+// ===== ZONES =====
+
+function collectZones(payload: any): AnalysisZone[] {
+  const zones: AnalysisZone[] = [];
+  const strategy = payload.ai_analysis?.trading_strategy || {};
+
+  const pushZone = (range: unknown, kind: AnalysisZone['kind'], label: string) => {
+    if (!Array.isArray(range) || !isPrice(range[0]) || !isPrice(range[1])) return;
+    zones.push({ from: Math.min(range[0], range[1]), to: Math.max(range[0], range[1]), kind, label });
+  };
+
+  pushZone(strategy.short_term?.entry_strategy?.entry_range, 'entry', 'Entry short');
+  pushZone(strategy.medium_term?.entry_strategy?.entry_range, 'entry', 'Entry medium');
+  pushZone(strategy.long_term?.key_levels?.accumulation_zone, 'accumulation', 'Accumulation');
+  pushZone(strategy.long_term?.key_levels?.distribution_zone, 'distribution', 'Distribution');
+  return zones;
+}
+
+// ===== PATTERNS =====
+
+function collectPatterns(payload: any): { patterns: AnalysisPatternShape[]; markers: AnalysisMarker[] } {
+  const overlays = payload.overlays || {};
+  const patterns: AnalysisPatternShape[] = [];
+  const markers: AnalysisMarker[] = [];
+
+  const point = (date: unknown, price: unknown) => {
+    const time = toSeconds(date);
+    return time !== null && isPrice(price) ? { time, price } : null;
+  };
+  const pushShape = (shape: Omit<AnalysisPatternShape, 'points'>, raw: ({ time: number; price: number } | null)[]) => {
+    const points = raw.filter((p): p is { time: number; price: number } => p !== null);
+    if (points.length >= 2) patterns.push({ ...shape, points });
+  };
+
+  (overlays.triangles || []).forEach((triangle: any) => {
+    pushShape(
+      { kind: 'triangle', label: 'Triangle', closed: true },
+      (triangle?.vertices || []).map((v: any) => point(v?.date, v?.price))
+    );
+  });
+  (overlays.flags || []).forEach((flag: any) => {
+    pushShape({ kind: 'flag', label: 'Flag' }, [
+      point(flag?.start_date, flag?.start_price),
+      point(flag?.end_date, flag?.end_price)
+    ]);
+  });
+  (overlays.double_tops || []).forEach((top: any) => {
+    pushShape({ kind: 'double_top', label: 'Double top', sentiment: 'bearish' }, [
+      point(top?.peak1?.date, top?.peak1?.price),
+      point(top?.peak2?.date, top?.peak2?.price)
+    ]);
+  });
+  (overlays.double_bottoms || []).forEach((bottom: any) => {
+    pushShape({ kind: 'double_bottom', label: 'Double bottom', sentiment: 'bullish' }, [
+      point(bottom?.bottom1?.date, bottom?.bottom1?.price),
+      point(bottom?.bottom2?.date, bottom?.bottom2?.price)
+    ]);
+  });
+  (overlays.divergences || []).forEach((divergence: any) => {
+    const sentiment = divergence?.type === 'bearish' ? 'bearish' : 'bullish';
+    pushShape({ kind: 'divergence', label: `${titleCase(sentiment)} divergence`, sentiment }, [
+      point(divergence?.start_date, divergence?.start_price),
+      point(divergence?.end_date, divergence?.end_price)
+    ]);
+  });
+
+  (overlays.volume_anomalies || []).forEach((anomaly: any) => {
+    const p = point(anomaly?.date, anomaly?.price);
+    if (p) markers.push({ ...p, label: 'Vol' });
+  });
+
+  return { patterns, markers };
+}
+
+// ===== BUILD =====
+
+export function buildAnalysisOverlays(record: StoredAnalysisRecord): AnalysisOverlaySet | null {
+  const payload = getAnalysisPayload(record?.analysis_data);
+  if (!payload) return null;
+
+  const analysisDate: string =
+    payload.ai_analysis?.meta?.analysis_date ||
+    payload.analysis_timestamp ||
+    payload.metadata?.analysis_timestamp ||
+    record.created_at ||
+    '';
+
+  const levels = collectLevels(payload);
+  const zones = collectZones(payload);
+  const { patterns, markers } = collectPatterns(payload);
+  if (levels.length === 0 && zones.length === 0 && patterns.length === 0 && markers.length === 0) {
+    return null;
+  }
+
+  return {
+    analysisId: record.id,
+    analysisDate,
+    sourceLabel: analysisDate ? `Analysis · ${formatDate(analysisDate, true)}` : 'Latest analysis',
+    shortDate: analysisDate ? formatDate(analysisDate, false) : '',
+    levels,
+    zones,
+    patterns,
+    markers
+  };
+}
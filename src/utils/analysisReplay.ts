@@ -0,0 +1,91 @@
+import { CandleData } from '@/services/api';
+import { ReplayCadence, ReplayPoint } from '@/types/analysisReplay';
+import { getISTDayKey } from '@/utils/candleResampler';
+
+// Each replay point is a full multi-agent analysis (2-3 minutes), so keep series to a manageable size
+export const MAX_REPLAY_POINTS = 60;
+
+export const REPLAY_CADENCE_OPTIONS: { value: ReplayCadence; label: string }[] = [
+  { value: 'daily', label: 'Every trading day' },
+  { value: 'weekly', label: 'Weekly' },
+  { value: 'monthly', label: 'Monthly' }
+];
+
+const DAY_MS = 86400000;
+
+export const toDateString = (date: Date): string =>
+  `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+
+const parseDateString = (value: string): Date | null => {
+  const match = /^(\d{4})-(\d{2})-(\d{2})$/.exec(value);
+  if (!match) return null;
+  const date = new Date(Number(match[1]), Number(match[2]) - 1, Number(match[3]));
+  return Number.isNaN(date.getTime()) ? null : date;
+};
+
+// Weekend end dates would repeat Friday's analysis, so they move back to Friday
+const toWeekday = (date: Date): Date => {
+  const day = date.getDay();
+  if (day === 6) return new Date(date.getFullYear(), date.getMonth(), date.getDate() - 1);
+  if (day === 0) return new Date(date.getFullYear(), date.getMonth(), date.getDate() - 2);
+  return date;
+};
+
+// End dates from start to end (inclusive) at the cadence, oldest first. Monthly steps keep the
+// start's day of month, clamped to shorter months.
+export function buildReplayDates(startDate: string, endDate: string, cadence: ReplayCadence): string[] {
+  const start = parseDateString(startDate);
+  const end = parseDateString(endDate);
+  if (!start || !end || start > end) return [];
+
+  const dates = new Set<string>();
+  for (let step = 0; ; step++) {
+    let date: Date;
+    if (cadence === 'monthly') {
+      const monthStart = new Date(start.getFullYear(), start.getMonth() + step, 1);
+      const lastDay = new Date(monthStart.getFullYear(), monthStart.getMonth() + 1, 0).getDate();
+      date = new Date(monthStart.getFullYear(), monthStart.getMonth(), Math.min(start.getDate(), lastDay));
+    } else {
+      date = new Date(start.getFullYear(), start.getMonth(), start.getDate() + step * (cadence === 'weekly' ? 7 : 1));
+    }
+    if (date > end) break;
+    if (cadence === 'daily' && (date.getDay() === 0 || date.getDay() === 6)) continue;
+
+    const weekday = toWeekday(date);
+    if (weekday >= start) dates.add(toDateString(weekday));
+    // Far more than the cap allows; stop rather than walk years of days
+    if (dates.size > MAX_REPLAY_POINTS) break;
+  }
+  return Array.from(dates);
+}
+
+// Daily bars from a little before the first end date up to today
+export const getReplayHistoryBars = (startDate: string, now: number = Date.now()): number => {
+  const start = parseDateString(startDate);
+  if (!start) return 0;
+  const calendarDays = Math.max(0, Math.ceil((now - start.getTime()) / DAY_MS));
+  return Math.ceil((calendarDays * 5) / 7) + 30;
+};
+
+// IST day key of an end date, comparable with getISTDayKey(candle.time)
+const getDateDayKey = (value: string): number | null => {
+  const date = parseDateString(value);
+  return date ? Math.floor(Date.UTC(date.getFullYear(), date.getMonth(), date.getDate()) / DAY_MS) : null;
+};
+
+// The last daily candle each point's analysis could see (at or before its end date)
+export function getReplayPointCandles(points: ReplayPoint[], candles: CandleData[]): Map<string, CandleData> {
+  const matches = new Map<string, CandleData>();
+  const keys = candles.map(candle => getISTDayKey(candle.time));
+  points.forEach(point => {
+    const dayKey = getDateDayKey(point.endDate);
+    if (dayKey === null) return;
+    for (let i = candles.length - 1; i >= 0; i--) {
+      if (keys[i] <= dayKey) {
+        matches.set(point.id, candles[i]);
+        break;
+      }
+    }
+  });
+  return matches;
+}
@@ -0,0 +1,112 @@
+// Facets and full-text search over mirrored analyses, entirely in memory so it works offline
+import { AnalysisFacetCount, AnalysisFacets, AnalysisSearchQuery, MirroredAnalysis } from '@/types/analysisMirror';
+import { getAnalysisPayload } from '@/utils/analysisOverlays';
+import { getAnalysisSignalSummary, getSignalBias } from '@/utils/analysisSummary';
+import { getISTDateKey } from '@/utils/marketCalendar';
+
+export const EMPTY_SEARCH_QUERY: AnalysisSearchQuery = {
+  text: '',
+  symbol: null,
+  bias: null,
+  sector: null,
+  minConfidence: null,
+  from: null,
+  to: null
+};
+
+// Report sections whose text is indexed; the rest is numbers and chart data
+const TEXT_ROOTS = ['summary', 'ai_analysis', 'indicator_summary', 'chart_insights', 'decision_story', 'sector_benchmarking'];
+const MAX_SEARCH_TEXT = 20000;
+
+const collectText = (value: unknown, out: string[], budget: { left: number }, depth = 0): void => {
+  if (budget.left <= 0 || depth > 6 || value === null || value === undefined) return;
+  if (typeof value === 'string') {
+    const text = value.slice(0, budget.left);
+    out.push(text);
+    budget.left -= text.length + 1;
+  } else if (Array.isArray(value)) {
+    value.forEach(item => collectText(item, out, budget, depth + 1));
+  } else if (typeof value === 'object') {
+    Object.values(value as Record<string, unknown>).forEach(item => collectText(item, out, budget, depth + 1));
+  }
+};
+
+export function getAnalysisSector(payload: any): string | null {
+  const info = payload?.sector_benchmarking?.sector_info;
+  const sector = info?.sector_name || info?.sector || payload?.sector || null;
+  return typeof sector === 'string' && sector.trim() ? sector.trim() : null;
+}
+
+// Derives the facets and search text of a stored analysis row
+export function toMirroredAnalysis(record: any, userId: string | null): MirroredAnalysis {
+  const payload = getAnalysisPayload(record.analysis_data) || {};
+  const { signal, confidence } = getAnalysisSignalSummary(record);
+  const symbol = String(record.stock_symbol || payload.stock_symbol || '').toUpperCase();
+  const sector = getAnalysisSector(payload);
+
+  const parts = [symbol, sector || '', signal || ''];
+  collectText(TEXT_ROOTS.map(root => payload[root]), parts, { left: MAX_SEARCH_TEXT });
+
+  return {
+    id: String(record.id),
+    user_id: userId,
+    stock_symbol: symbol,
+    created_at: record.created_at || payload.timestamp || new Date().toISOString(),
+    analysis_data: record.analysis_data,
+    signal,
+    bias: getSignalBias(signal),
+    confidence,
+    sector,
+    search_text: parts.join(' ').toLowerCase(),
+    mirrored_at: Date.now()
+  };
+}
+
+export const isSearchActive = (query: AnalysisSearchQuery): boolean =>
+  Boolean(query.text.trim() || query.symbol || query.bias || query.sector || query.minConfidence !== null || query.from || query.to);
+
+const matchesText = (record: MirroredAnalysis, terms: string[]): boolean =>
+  terms.every(term => record.search_text.includes(term));
+
+// created_at is compared by its IST calendar day so the date inputs include the whole day;
+// the UTC date would file analyses made before 05:30 IST under the previous day
+const dayOf = (iso: string): string => {
+  const time = Date.parse(iso);
+  return Number.isFinite(time) ? getISTDateKey(time) : iso.slice(0, 10);
+};
+
+export function searchAnalyses(records: MirroredAnalysis[], query: AnalysisSearchQuery): MirroredAnalysis[] {
+  const terms = query.text.toLowerCase().split(/\s+/).filter(Boolean);
+  return records.filter(record => {
+    if (terms.length > 0 && !matchesText(record, terms)) return false;
+    if (query.symbol && record.stock_symbol !== query.symbol) return false;
+    if (query.bias && record.bias !== query.bias) return false;
+    if (query.sector && record.sector !== query.sector) return false;
+    if (query.minConfidence !== null && (record.confidence === null || record.confidence < query.minConfidence)) return false;
+    if (query.from && dayOf(record.created_at) < query.from) return false;
+    if (query.to && dayOf(record.created_at) > query.to) return false;
+    return true;
+  });
+}
+
+const countBy = (records: MirroredAnalysis[], key: (record: MirroredAnalysis) => string | null): AnalysisFacetCount[] => {
+  const counts = new Map<string, number>();
+  records.forEach(record => {
+    const value = key(record);
+    if (value) counts.set(value, (counts.get(value) || 0) + 1);
+  });
+  return Array.from(counts.entries())
+    .map(([value, count]) => ({ value, count }))
+    .sort((a, b) => b.count - a.count || a.value.localeCompare(b.value));
+};
+
+// Facet values with their counts among the records matching the text query
+export function getAnalysisFacets(records: MirroredAnalysis[], text = ''): AnalysisFacets {
+  const terms = text.toLowerCase().split(/\s+/).filter(Boolean);
+  const matching = terms.length > 0 ? records.filter(record => matchesText(record, terms)) : records;
+  return {
+    symbols: countBy(matching, record => record.stock_symbol),
+    biases: countBy(matching, record => record.bias),
+    sectors: countBy(matching, record => record.sector)
+  };
+}
@@ -0,0 +1,33 @@
+import { getAnalysisPayload } from '@/utils/analysisOverlays';
+
+// Headline signal of a stored analysis, with the same fallbacks useStockAnalyses applies
+export interface AnalysisSignalSummary {
+  analysisId: string;
+  signal: string | null;
+  confidence: number | null; // 0-100
+  analysisDate: string | null;
+}
+
+export type SignalBias = 'bullish' | 'bearish' | 'neutral';
+
+export function getAnalysisSignalSummary(record: { id: string; created_at?: string | null; analysis_data: any }): AnalysisSignalSummary {
+  const payload = getAnalysisPayload(record?.analysis_data) || {};
+  const signal = payload.summary?.overall_signal || payload.ai_analysis?.trend || payload.consensus?.overall_signal || null;
+  const rawConfidence = payload.summary?.confidence ?? payload.ai_analysis?.confidence_pct ?? null;
+  const confidence = typeof rawConfidence === 'number' && Number.isFinite(rawConfidence) ? rawConfidence : null;
+
+  return {
+    analysisId: record.id,
+    signal: typeof signal === 'string' ? signal : null,
+    confidence,
+    analysisDate: payload.ai_analysis?.meta?.analysis_date || record.created_at || null
+  };
+}
+
+// Signals come in many spellings ("Bullish", "strong_buy", "Sell") - collapse them for filtering and colour
+export function getSignalBias(signal: string | null | undefined): SignalBias {
+  const value = (signal || '').toLowerCase();
+  if (/bull|buy|uptrend/.test(value)) return 'bullish';
+  if (/bear|sell|downtrend/.test(value)) return 'bearish';
+  return 'neutral';
+}
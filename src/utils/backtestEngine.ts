@@ -0,0 +1,249 @@
+import { CandleData } from '@/services/api';
+import {
+  BacktestConfig,
+  BacktestEquityPoint,
+  BacktestExitReason,
+  BacktestMetrics,
+  BacktestResult,
+  BacktestTrade
+} from '@/types/backtest';
+import { getISTDayKey, isDailyOrHigherTimeframe } from '@/utils/candleResampler';
+import { RuleSeries, evaluateBacktestRules } from '@/utils/backtestRules';
+
+// Bar-by-bar simulation of a rule-based strategy. Rules are evaluated on a bar's close and
+// orders fill at the next bar's open, so a signal never trades on the price that produced it.
+// Stops and targets are checked against each bar's range; when both fall inside one bar the
+// stop is assumed to have come first.
+
+export const MIN_BACKTEST_BARS = 50;
+const NSE_SESSION_MINUTES = 375; // 09:15-15:30 IST
+const TRADING_DAYS_PER_YEAR = 252;
+// CAGR over less than about a month annualises noise
+const MIN_CAGR_YEARS = 1 / 12;
+
+interface OpenPosition {
+  entryIndex: number;
+  entryPrice: number;
+  quantity: number;
+  entryCosts: number;
+  stop: number | null;
+  target: number | null;
+}
+
+// Bars per year for annualising Sharpe / Sortino
+export const getBarsPerYear = (timeframe: string): number => {
+  if (timeframe === '1wk') return 52;
+  if (timeframe === '1mo') return 12;
+  if (isDailyOrHigherTimeframe(timeframe)) return TRADING_DAYS_PER_YEAR;
+  const match = /^(\d+)(m|h)$/.exec(timeframe);
+  const minutes = match ? Number(match[1]) * (match[2] === 'h' ? 60 : 1) : 60;
+  return Math.ceil(NSE_SESSION_MINUTES / minutes) * TRADING_DAYS_PER_YEAR;
+};
+
+const mean = (values: number[]): number => values.reduce((sum, value) => sum + value, 0) / values.length;
+
+export function runBacktest(candles: CandleData[], config: BacktestConfig): BacktestResult {
+  const { strategy, costs, sizing } = config;
+  const bars = candles
+    .filter(c => Number.isFinite(c?.time) && c.open > 0 && c.high > 0 && c.low > 0 && c.close > 0)
+    .sort((a, b) => a.time - b.time);
+
+  if (bars.length < MIN_BACKTEST_BARS) {
+    throw new Error(`Not enough history to backtest (${bars.length} bars, need at least ${MIN_BACKTEST_BARS})`);
+  }
+  if (strategy.entryRules.length === 0) {
+    throw new Error('Add at least one entry rule');
+  }
+  // Intraday square-off only applies below the daily timeframe
+  const squareOffEachSession = config.product === 'intraday' && !isDailyOrHigherTimeframe(config.timeframe);
+  if (strategy.direction === 'short' && !squareOffEachSession) {
+    throw new Error('Short positions can only be held intraday in the NSE cash segment');
+  }
+  if (sizing.mode === 'risk_percent' && !strategy.stopLossPct) {
+    throw new Error('Risk-based sizing needs a stop loss');
+  }
+
+  const series = new RuleSeries(bars);
+  const entrySignals = evaluateBacktestRules(series, strategy.entryRules, strategy.entryMode);
+  const exitSignals = evaluateBacktestRules(series, strategy.exitRules, strategy.exitMode);
+  const sessionKeys = bars.map(bar => getISTDayKey(bar.time));
+  const isSessionEnd = (i: number) => i === bars.length - 1 || sessionKeys[i + 1] !== sessionKeys[i];
+
+  const isLong = strategy.direction === 'long';
+  const side = isLong ? 1 : -1;
+  const slip = costs.slippagePct / 100;
+
+  // Slippage always works against the order
+  const fillPrice = (price: number, buying: boolean) => price * (buying ? 1 + slip : 1 - slip);
+  const orderCosts = (value: number, buying: boolean) => {
+    const brokerage = (value * costs.brokeragePct) / 100;
+    const cappedBrokerage = costs.brokerageCap > 0 ? Math.min(brokerage, costs.brokerageCap) : brokerage;
+    return cappedBrokerage + (value * (buying ? costs.sttBuyPct : costs.sttSellPct)) / 100;
+  };
+
+  let cash = config.initialCapital; // Realised equity; the open position is marked to market on top
+  // Assigned inside the helpers below, so keep the compiler from narrowing it to null
+  let position = null as OpenPosition | null;
+  let pendingEntry = false;
+  let pendingExit: BacktestExitReason | null = null;
+  let barsInMarket = 0;
+  let peak = cash;
+  const trades: BacktestTrade[] = [];
+  const equity: BacktestEquityPoint[] = [];
+
+  const closePosition = (i: number, rawPrice: number, reason: BacktestExitReason, slipped = true) => {
+    if (!position) return;
+    const exitPrice = slipped ? fillPrice(rawPrice, !isLong) : rawPrice;
+    const exitCosts = orderCosts(exitPrice * position.quantity, !isLong);
+    const grossPnl = side * (exitPrice - position.entryPrice) * position.quantity;
+    const tradeCosts = position.entryCosts + exitCosts;
+    const netPnl = grossPnl - tradeCosts;
+    cash += grossPnl - exitCosts;
+    trades.push({
+      id: trades.length + 1,
+      direction: strategy.direction,
+      entryTime: bars[position.entryIndex].time,
+      entryPrice: position.entryPrice,
+      exitTime: bars[i].time,
+      exitPrice,
+      quantity: position.quantity,
+      grossPnl,
+      costs: tradeCosts,
+      netPnl,
+      returnPct: (netPnl / (position.entryPrice * position.quantity)) * 100,
+      barsHeld: i - position.entryIndex + 1,
+      exitReason: reason
+    });
+    position = null;
+  };
+
+  const openPosition = (i: number) => {
+    const entryPrice = fillPrice(bars[i].open, isLong);
+    const budget =
+      sizing.mode === 'fixed_amount'
+        ? sizing.value
+        : sizing.mode === 'risk_percent'
+          ? (cash * sizing.value) / (strategy.stopLossPct as number) // Losing stopLossPct of this costs value% of equity
+          : (cash * sizing.value) / 100;
+    // No leverage: the position plus its entry charges must fit in the account
+    const affordable = cash / (entryPrice * (1 + (costs.brokeragePct + Math.max(costs.sttBuyPct, costs.sttSellPct)) / 100));
+    const quantity = Math.floor(Math.min(budget / entryPrice, affordable));
+    if (quantity < 1) return;
+
+    const entryCosts = orderCosts(entryPrice * quantity, isLong);
+    cash -= entryCosts;
+    position = {
+      entryIndex: i,
+      entryPrice,
+      quantity,
+      entryCosts,
+      stop: strategy.stopLossPct ? entryPrice * (1 - (side * strategy.stopLossPct) / 100) : null,
+      target: strategy.takeProfitPct ? entryPrice * (1 + (side * strategy.takeProfitPct) / 100) : null
+    };
+  };
+
+  for (let i = 0; i < bars.length; i++) {
+    const bar = bars[i];
+
+    // Orders decided on the previous close fill at this open
+    if (pendingExit && position) closePosition(i, bar.open, pendingExit);
+    if (pendingEntry && !position) openPosition(i);
+    pendingEntry = false;
+    pendingExit = null;
+
+    if (position) {
+      const { stop, target } = position;
+      const stopHit = stop !== null && (isLong ? bar.low <= stop : bar.high >= stop);
+      const targetHit = target !== null && (isLong ? bar.high >= target : bar.low <= target);
+      if (stopHit) {
+        // A gap through the stop fills at the open, not the stop
+        const gapped = isLong ? bar.open < stop : bar.open > stop;
+        closePosition(i, gapped && i > position.entryIndex ? bar.open : stop, 'stop');
+      } else if (targetHit) {
+        const gapped = isLong ? bar.open > target : bar.open < target;
+        // Limit orders fill at their price, so only a gap adds to the target fill
+        closePosition(i, gapped && i > position.entryIndex ? bar.open : target, 'target', false);
+      }
+    }
+
+    if (position && squareOffEachSession && isSessionEnd(i)) closePosition(i, bar.close, 'session_end');
+    if (position && i === bars.length - 1) closePosition(i, bar.close, 'end_of_data');
+
+    if (position) {
+      barsInMarket += 1;
+      const held = i - position.entryIndex + 1;
+      if (exitSignals[i]) pendingExit = 'signal';
+      else if (strategy.maxBarsInTrade && held >= strategy.maxBarsInTrade) pendingExit = 'time';
+    } else if (i < bars.length - 1 && entrySignals[i]) {
+      // An intraday signal on the last bar of a session doesn't carry into the next one
+      pendingEntry = !(squareOffEachSession && isSessionEnd(i));
+    }
+
+    const marked = position ? cash + side * (bar.close - position.entryPrice) * position.quantity : cash;
+    peak = Math.max(peak, marked);
+    equity.push({ time: bar.time, equity: marked, drawdownPct: peak > 0 ? ((marked - peak) / peak) * 100 : 0 });
+  }
+
+  const startTime = bars[0].time;
+  const endTime = bars[bars.length - 1].time;
+  return {
+    config,
+    trades,
+    equity,
+    metrics: computeBacktestMetrics(config, trades, equity, barsInMarket / bars.length, startTime, endTime),
+    startTime,
+    endTime
+  };
+}
+
+// ===== METRICS =====
+
+function computeBacktestMetrics(
+  config: BacktestConfig,
+  trades: BacktestTrade[],
+  equity: BacktestEquityPoint[],
+  exposure: number,
+  startTime: number,
+  endTime: number
+): BacktestMetrics {
+  const initial = config.initialCapital;
+  const finalEquity = equity.length > 0 ? equity[equity.length - 1].equity : initial;
+
+  const returns: number[] = [];
+  for (let i = 1; i < equity.length; i++) {
+    if (equity[i - 1].equity > 0) returns.push(equity[i].equity / equity[i - 1].equity - 1);
+  }
+  const barsPerYear = getBarsPerYear(config.timeframe);
+  let sharpe: number | null = null;
+  let sortino: number | null = null;
+  if (returns.length > 1) {
+    const avg = mean(returns);
+    const std = Math.sqrt(mean(returns.map(r => (r - avg) ** 2)));
+    const downside = Math.sqrt(mean(returns.map(r => Math.min(r, 0) ** 2)));
+    // Risk-free rate taken as zero
+    sharpe = std > 0 ? (avg / std) * Math.sqrt(barsPerYear) : null;
+    sortino = downside > 0 ? (avg / downside) * Math.sqrt(barsPerYear) : null;
+  }
+
+  const years = (endTime - startTime) / (365.25 * 86400);
+  const cagrPct = years >= MIN_CAGR_YEARS && finalEquity > 0 ? ((finalEquity / initial) ** (1 / years) - 1) * 100 : null;
+
+  const wins = trades.filter(trade => trade.netPnl > 0);
+  const grossProfit = wins.reduce((sum, trade) => sum + trade.netPnl, 0);
+  const grossLoss = trades.filter(trade => trade.netPnl < 0).reduce((sum, trade) => sum - trade.netPnl, 0);
+
+  return {
+    finalEquity,
+    totalReturnPct: (finalEquity / initial - 1) * 100,
+    cagrPct,
+    sharpe,
+    sortino,
+    maxDrawdownPct: equity.reduce((worst, point) => Math.min(worst, point.drawdownPct), 0),
+    tradeCount: trades.length,
+    winRatePct: trades.length > 0 ? (wins.length / trades.length) * 100 : null,
+    profitFactor: grossLoss > 0 ? grossProfit / grossLoss : null,
+    avgTradePct: trades.length > 0 ? mean(trades.map(trade => trade.returnPct)) : null,
+    exposurePct: exposure * 100,
+    totalCosts: trades.reduce((sum, trade) => sum + trade.costs, 0)
+  };
+}
@@ -0,0 +1,436 @@
+import { CandleData } from '@/services/api';
+import { BacktestCosts, BacktestProduct, BacktestRule, BacktestRuleKind, BacktestRuleMode, BacktestStrategy } from '@/types/backtest';
+import { IndicatorParamDefinition } from '@/utils/indicatorRegistry';
+import {
+  calcBollingerBands,
+  calcEMA,
+  calcMACD,
+  calcRSI,
+  calcSMA,
+  calcStochastic,
+  detectDivergence,
+  detectDoubleBottom,
+  detectDoubleTop,
+  detectVolumeAnomalies
+} from '@/utils/chartUtils';
+import { detectCandlestickPatterns } from '@/utils/livePatternRecognition';
+
+// Every rule turns a candle series into a per-bar "fires" array that only looks at bars up
+// to and including the signal bar. Swing-based patterns need `order` bars after a pivot to
+// confirm it, so they fire on the confirmation bar rather than the pivot itself.
+
+// ===== TYPES & INTERFACES =====
+
+export interface BacktestRuleDefinition {
+  kind: BacktestRuleKind;
+  label: string;
+  group: 'indicator' | 'pattern';
+  bias: 'bullish' | 'bearish';
+  params: IndicatorParamDefinition[];
+  evaluate: (series: RuleSeries, params: Record<string, number>) => boolean[];
+}
+
+// Column view of the candles plus a cache, so rules sharing an indicator compute it once
+export class RuleSeries {
+  readonly candles: CandleData[];
+  readonly opens: number[];
+  readonly highs: number[];
+  readonly lows: number[];
+  readonly closes: number[];
+  readonly volumes: number[];
+  private cache = new Map<string, unknown>();
+
+  constructor(candles: CandleData[]) {
+    this.candles = candles;
+    this.opens = candles.map(c => c.open);
+    this.highs = candles.map(c => c.high);
+    this.lows = candles.map(c => c.low);
+    this.closes = candles.map(c => c.close);
+    this.volumes = candles.map(c => c.volume || 0);
+  }
+
+  get length(): number {
+    return this.candles.length;
+  }
+
+  memo<T>(key: string, compute: () => T): T {
+    if (!this.cache.has(key)) this.cache.set(key, compute());
+    return this.cache.get(key) as T;
+  }
+
+  sma(period: number) {
+    return this.memo(`sma:${period}`, () => calcSMA(this.closes, period));
+  }
+
+  ema(period: number) {
+    return this.memo(`ema:${period}`, () => calcEMA(this.closes, period));
+  }
+
+  rsi(period: number) {
+    return this.memo(`rsi:${period}`, () => calcRSI(this.closes, period));
+  }
+}
+
+// ===== HELPERS =====
+
+const none = (length: number): boolean[] => new Array(length).fill(false);
+
+const crosses = (a: (number | null)[], b: (number | null)[], direction: 'above' | 'below'): boolean[] =>
+  a.map((value, i) => {
+    if (i === 0) return false;
+    const prevA = a[i - 1];
+    const prevB = b[i - 1];
+    const currB = b[i];
+    if (value === null || prevA === null || prevB === null || currB === null) return false;
+    return direction === 'above' ? prevA <= prevB && value > currB : prevA >= prevB && value < currB;
+  });
+
+const compare = (values: (number | null)[], threshold: (i: number) => number | null, direction: 'above' | 'below'): boolean[] =>
+  values.map((value, i) => {
+    const level = threshold(i);
+    if (value === null || level === null) return false;
+    return direction === 'above' ? value > level : value < level;
+  });
+
+// Marks the bars on which events become known
+const firesAt = (length: number, indices: number[]): boolean[] => {
+  const fires = none(length);
+  indices.forEach(index => {
+    if (index >= 0 && index < length) fires[index] = true;
+  });
+  return fires;
+};
+
+const periodParam = (key: string, label: string, defaultValue: number): IndicatorParamDefinition => ({
+  key,
+  label,
+  defaultValue,
+  min: 1,
+  max: 500
+});
+
+const levelParam = (defaultValue: number, label = 'Level'): IndicatorParamDefinition => ({
+  key: 'level',
+  label,
+  defaultValue,
+  min: 0,
+  max: 100
+});
+
+const orderParam: IndicatorParamDefinition = { key: 'order', label: 'Swing bars', defaultValue: 5, min: 2, max: 20 };
+const toleranceParam: IndicatorParamDefinition = { key: 'tolerance', label: 'Tolerance %', defaultValue: 2, min: 0.5, max: 10, step: 0.5 };
+
+const maCross = (type: 'sma' | 'ema', direction: 'above' | 'below') =>
+  (series: RuleSeries, { fast, slow }: Record<string, number>) =>
+    crosses(series[type](fast), series[type](slow), direction);
+
+const macdCross = (direction: 'above' | 'below') =>
+  (series: RuleSeries, { fast, slow, signal }: Record<string, number>) => {
+    const macd = series.memo(`macd:${fast}:${slow}:${signal}`, () => calcMACD(series.closes, fast, slow, signal));
+    return crosses(macd.macd, macd.signal, direction);
+  };
+
+const bollinger = (series: RuleSeries, period: number, stdDev: number) =>
+  series.memo(`bb:${period}:${stdDev}`, () => calcBollingerBands(series.closes, period, stdDev));
+
+const stochastic = (series: RuleSeries, period: number) =>
+  series.memo(`stoch:${period}`, () => calcStochastic(series.highs, series.lows, series.closes, period));
+
+const divergence = (type: 'bullish' | 'bearish') =>
+  (series: RuleSeries, { period, order }: Record<string, number>) => {
+    const rsi = series.rsi(period).map(value => value ?? 50);
+    const found = series.memo(`div:${period}:${order}`, () => detectDivergence(series.closes, rsi, order));
+    return firesAt(series.length, found.filter(d => d.type === type).map(d => Math.max(...d.priceIndices) + order));
+  };
+
+const candlestick = (type: string) =>
+  (series: RuleSeries) => {
+    const patterns = series.memo('candlesticks', () =>
+      detectCandlestickPatterns(series.candles.map(c => ({ ...c, date: new Date(c.time * 1000).toISOString() })))
+    );
+    return firesAt(series.length, patterns.filter(p => p.type === type).map(p => p.index));
+  };
+
+// ===== DEFINITIONS =====
+
+const FAST_SLOW = (fast: number, slow: number): IndicatorParamDefinition[] => [
+  periodParam('fast', 'Fast', fast),
+  periodParam('slow', 'Slow', slow)
+];
+const MACD_PARAMS: IndicatorParamDefinition[] = [
+  periodParam('fast', 'Fast', 12),
+  periodParam('slow', 'Slow', 26),
+  periodParam('signal', 'Signal', 9)
+];
+const BB_PARAMS: IndicatorParamDefinition[] = [
+  periodParam('period', 'Period', 20),
+  { key: 'stdDev', label: 'Std Dev', defaultValue: 2, min: 0.5, max: 5, step: 0.5 }
+];
+
+export const BACKTEST_RULE_DEFINITIONS: Record<BacktestRuleKind, BacktestRuleDefinition> = {
+  sma_cross_above: {
+    kind: 'sma_cross_above',
+    label: 'Fast SMA crosses above slow SMA',
+    group: 'indicator',
+    bias: 'bullish',
+    params: FAST_SLOW(20, 50),
+    evaluate: maCross('sma', 'above')
+  },
+  sma_cross_below: {
+    kind: 'sma_cross_below',
+    label: 'Fast SMA crosses below slow SMA',
+    group: 'indicator',
+    bias: 'bearish',
+    params: FAST_SLOW(20, 50),
+    evaluate: maCross('sma', 'below')
+  },
+  ema_cross_above: {
+    kind: 'ema_cross_above',
+    label: 'Fast EMA crosses above slow EMA',
+    group: 'indicator',
+    bias: 'bullish',
+    params: FAST_SLOW(12, 26),
+    evaluate: maCross('ema', 'above')
+  },
+  ema_cross_below: {
+    kind: 'ema_cross_below',
+    label: 'Fast EMA crosses below slow EMA',
+    group: 'indicator',
+    bias: 'bearish',
+    params: FAST_SLOW(12, 26),
+    evaluate: maCross('ema', 'below')
+  },
+  close_above_sma: {
+    kind: 'close_above_sma',
+    label: 'Close above SMA',
+    group: 'indicator',
+    bias: 'bullish',
+    params: [periodParam('period', 'Period', 200)],
+    evaluate: (series, { period }) => compare(series.closes, i => series.sma(period)[i], 'above')
+  },
+  close_below_sma: {
+    kind: 'close_below_sma',
+    label: 'Close below SMA',
+    group: 'indicator',
+    bias: 'bearish',
+    params: [periodParam('period', 'Period', 200)],
+    evaluate: (series, { period }) => compare(series.closes, i => series.sma(period)[i], 'below')
+  },
+  rsi_below: {
+    kind: 'rsi_below',
+    label: 'RSI below level',
+    group: 'indicator',
+    bias: 'bullish',
+    params: [periodParam('period', 'Period', 14), levelParam(30)],
+    evaluate: (series, { period, level }) => compare(series.rsi(period), () => level, 'below')
+  },
+  rsi_above: {
+    kind: 'rsi_above',
+    label: 'RSI above level',
+    group: 'indicator',
+    bias: 'bearish',
+    params: [periodParam('period', 'Period', 14), levelParam(70)],
+    evaluate: (series, { period, level }) => compare(series.rsi(period), () => level, 'above')
+  },
+  macd_cross_above: {
+    kind: 'macd_cross_above',
+    label: 'MACD crosses above signal',
+    group: 'indicator',
+    bias: 'bullish',
+    params: MACD_PARAMS,
+    evaluate: macdCross('above')
+  },
+  macd_cross_below: {
+    kind: 'macd_cross_below',
+    label: 'MACD crosses below signal',
+    group: 'indicator',
+    bias: 'bearish',
+    params: MACD_PARAMS,
+    evaluate: macdCross('below')
+  },
+  bollinger_below_lower: {
+    kind: 'bollinger_below_lower',
+    label: 'Close below lower Bollinger band',
+    group: 'indicator',
+    bias: 'bullish',
+    params: BB_PARAMS,
+    evaluate: (series, { period, stdDev }) => compare(series.closes, i => bollinger(series, period, stdDev).lower[i], 'below')
+  },
+  bollinger_above_upper: {
+    kind: 'bollinger_above_upper',
+    label: 'Close above upper Bollinger band',
+    group: 'indicator',
+    bias: 'bearish',
+    params: BB_PARAMS,
+    evaluate: (series, { period, stdDev }) => compare(series.closes, i => bollinger(series, period, stdDev).upper[i], 'above')
+  },
+  stochastic_below: {
+    kind: 'stochastic_below',
+    label: 'Stochastic %K below level',
+    group: 'indicator',
+    bias: 'bullish',
+    params: [periodParam('period', 'Period', 14), levelParam(20)],
+    evaluate: (series, { period, level }) => compare(stochastic(series, period).k, () => level, 'below')
+  },
+  stochastic_above: {
+    kind: 'stochastic_above',
+    label: 'Stochastic %K above level',
+    group: 'indicator',
+    bias: 'bearish',
+    params: [periodParam('period', 'Period', 14), levelParam(80)],
+    evaluate: (series, { period, level }) => compare(stochastic(series, period).k, () => level, 'above')
+  },
+  double_bottom: {
+    kind: 'double_bottom',
+    label: 'Double bottom confirmed',
+    group: 'pattern',
+    bias: 'bullish',
+    params: [orderParam, toleranceParam],
+    evaluate: (series, { order, tolerance }) =>
+      firesAt(series.length, detectDoubleBottom(series.closes, tolerance / 100, order).map(p => p.indices[1] + order))
+  },
+  double_top: {
+    kind: 'double_top',
+    label: 'Double top confirmed',
+    group: 'pattern',
+    bias: 'bearish',
+    params: [orderParam, toleranceParam],
+    evaluate: (series, { order, tolerance }) =>
+      firesAt(series.length, detectDoubleTop(series.closes, tolerance / 100, order).map(p => p.indices[1] + order))
+  },
+  bullish_divergence: {
+    kind: 'bullish_divergence',
+    label: 'Bullish RSI divergence',
+    group: 'pattern',
+    bias: 'bullish',
+    params: [periodParam('period', 'RSI period', 14), orderParam],
+    evaluate: divergence('bullish')
+  },
+  bearish_divergence: {
+    kind: 'bearish_divergence',
+    label: 'Bearish RSI divergence',
+    group: 'pattern',
+    bias: 'bearish',
+    params: [periodParam('period', 'RSI period', 14), orderParam],
+    evaluate: divergence('bearish')
+  },
+  hammer: {
+    kind: 'hammer',
+    label: 'Hammer candle',
+    group: 'pattern',
+    bias: 'bullish',
+    params: [],
+    evaluate: candlestick('hammer')
+  },
+  shooting_star: {
+    kind: 'shooting_star',
+    label: 'Shooting star candle',
+    group: 'pattern',
+    bias: 'bearish',
+    params: [],
+    evaluate: candlestick('shooting_star')
+  },
+  volume_spike: {
+    kind: 'volume_spike',
+    label: 'Volume spike',
+    group: 'pattern',
+    bias: 'bullish',
+    params: [
+      { key: 'ratio', label: 'x Average', defaultValue: 2, min: 1.2, max: 10, step: 0.1 },
+      periodParam('window', 'Window', 20)
+    ],
+    evaluate: (series, { ratio, window }) =>
+      firesAt(series.length, detectVolumeAnomalies(series.volumes, ratio, window).map(a => a.index))
+  }
+};
+
+// ===== RULE SETS =====
+
+const createRuleId = (kind: BacktestRuleKind): string =>
+  `${kind}-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 7)}`;
+
+export function createBacktestRule(kind: BacktestRuleKind, params: Record<string, number> = {}): BacktestRule {
+  const definition = BACKTEST_RULE_DEFINITIONS[kind];
+  return {
+    id: createRuleId(kind),
+    kind,
+    params: {
+      ...Object.fromEntries(definition.params.map(param => [param.key, param.defaultValue])),
+      ...params
+    }
+  };
+}
+
+// Label with params, e.g. "RSI below level (14, 30)"
+export function getBacktestRuleLabel(rule: BacktestRule): string {
+  const definition = BACKTEST_RULE_DEFINITIONS[rule.kind];
+  if (!definition) return rule.kind;
+  if (definition.params.length === 0) return definition.label;
+  return `${definition.label} (${definition.params.map(param => rule.params[param.key]).join(', ')})`;
+}
+
+// Per-bar signal for a rule set; an empty set never fires
+export function evaluateBacktestRules(series: RuleSeries, rules: BacktestRule[], mode: BacktestRuleMode): boolean[] {
+  if (rules.length === 0) return none(series.length);
+  const results = rules.map(rule => {
+    const definition = BACKTEST_RULE_DEFINITIONS[rule.kind];
+    const params = { ...Object.fromEntries(definition.params.map(param => [param.key, param.defaultValue])), ...rule.params };
+    return definition.evaluate(series, params);
+  });
+  return series.candles.map((_, i) =>
+    mode === 'all' ? results.every(fires => fires[i]) : results.some(fires => fires[i])
+  );
+}
+
+// ===== PRESETS =====
+
+// Zerodha-style charges: free delivery with 0.1% STT both ways; intraday 0.03% capped at ₹20 with STT on the sell leg
+export const DEFAULT_BACKTEST_COSTS: Record<BacktestProduct, BacktestCosts> = {
+  delivery: { brokeragePct: 0, brokerageCap: 0, sttBuyPct: 0.1, sttSellPct: 0.1, slippagePct: 0.05 },
+  intraday: { brokeragePct: 0.03, brokerageCap: 20, sttBuyPct: 0, sttSellPct: 0.025, slippagePct: 0.05 }
+};
+
+export const BACKTEST_STRATEGY_PRESETS: { key: string; strategy: () => BacktestStrategy }[] = [
+  {
+    key: 'sma_trend',
+    strategy: () => ({
+      name: 'SMA 20/50 trend',
+      direction: 'long',
+      entryRules: [createBacktestRule('sma_cross_above')],
+      entryMode: 'all',
+      exitRules: [createBacktestRule('sma_cross_below')],
+      exitMode: 'any',
+      stopLossPct: 8,
+      takeProfitPct: null,
+      maxBarsInTrade: null
+    })
+  },
+  {
+    key: 'rsi_reversion',
+    strategy: () => ({
+      name: 'RSI mean reversion',
+      direction: 'long',
+      entryRules: [createBacktestRule('rsi_below', { level: 30 }), createBacktestRule('close_above_sma', { period: 200 })],
+      entryMode: 'all',
+      exitRules: [createBacktestRule('rsi_above', { level: 55 })],
+      exitMode: 'any',
+      stopLossPct: 5,
+      takeProfitPct: 10,
+      maxBarsInTrade: 20
+    })
+  },
+  {
+    key: 'double_bottom',
+    strategy: () => ({
+      name: 'Double bottom reversal',
+      direction: 'long',
+      entryRules: [createBacktestRule('double_bottom'), createBacktestRule('bullish_divergence')],
+      entryMode: 'any',
+      exitRules: [],
+      exitMode: 'any',
+      stopLossPct: 4,
+      takeProfitPct: 8,
+      maxBarsInTrade: 30
+    })
+  }
+];
@@ -0,0 +1,26 @@
+// Thin wrapper around the Notification API; every call is a no-op where it isn't available
+
+export type BrowserNotificationPermission = NotificationPermission | 'unsupported';
+
+export const getNotificationPermission = (): BrowserNotificationPermission =>
+  typeof window !== 'undefined' && 'Notification' in window ? Notification.permission : 'unsupported';
+
+export async function requestNotificationPermission(): Promise<BrowserNotificationPermission> {
+  if (getNotificationPermission() === 'unsupported') return 'unsupported';
+  try {
+    return await Notification.requestPermission();
+  } catch (error) {
+    console.warn('⚠️ [browserNotifications] Permission request failed:', error);
+    return Notification.permission;
+  }
+}
+
+export function showBrowserNotification(title: string, body: string, tag?: string): void {
+  if (getNotificationPermission() !== 'granted') return;
+  try {
+    new Notification(title, { body, tag });
+  } catch (error) {
+    // Some mobile browsers only allow notifications from a service worker
+    console.warn('⚠️ [browserNotifications] Failed to show notification:', error);
+  }
+}
@@ -0,0 +1,181 @@
+// Client-side OHLCV resampling for timeframes the Data Service doesn't serve natively
+// Bars are built from the finest native series; intraday bars are aligned to the NSE session open (09:15 IST)
+
+export interface OHLCVCandle {
+  time: number; // UTC timestamp in seconds (bar start)
+  open: number;
+  high: number;
+  low: number;
+  close: number;
+  volume: number;
+}
+
+interface ResampledTimeframeDefinition {
+  source: string; // Native timeframe the bars are built from
+  unit: 'session' | 'week' | 'month';
+  seconds?: number; // Bar length for session-aligned intraday bars
+  sourceBarsPerBar: number; // Upper bound, used to size the source window
+}
+
+export const RESAMPLED_TIMEFRAMES: Record<string, ResampledTimeframeDefinition> = {
+  '2m': { source: '1m', unit: 'session', seconds: 2 * 60, sourceBarsPerBar: 2 },
+  '10m': { source: '5m', unit: 'session', seconds: 10 * 60, sourceBarsPerBar: 2 },
+  '30m': { source: '15m', unit: 'session', seconds: 30 * 60, sourceBarsPerBar: 2 },
+  // 4h bars from 15m so both session bars (09:15-13:15, 13:15-15:30) start on a boundary
+  '4h': { source: '15m', unit: 'session', seconds: 4 * 3600, sourceBarsPerBar: 16 },
+  '1wk': { source: '1d', unit: 'week', sourceBarsPerBar: 5 },
+  '1mo': { source: '1d', unit: 'month', sourceBarsPerBar: 23 }
+};
+
+const IST_OFFSET_SECONDS = 5.5 * 3600;
+const SESSION_OPEN_SECONDS = 9 * 3600 + 15 * 60; // 09:15 IST
+const SECONDS_PER_DAY = 86400;
+const MAX_SOURCE_DATA_POINTS = 20000;
+
+export const isResampledTimeframe = (timeframe: string): boolean =>
+  Object.prototype.hasOwnProperty.call(RESAMPLED_TIMEFRAMES, timeframe);
+
+// Native timeframe to fetch and subscribe to for a (possibly resampled) timeframe
+export const getSourceTimeframe = (timeframe: string): string =>
+  isResampledTimeframe(timeframe) ? RESAMPLED_TIMEFRAMES[timeframe].source : timeframe;
+
+// How many source candles to keep so the resampled series still fills `maxDataPoints` bars
+export const getSourceDataPoints = (maxDataPoints: number, timeframe: string): number =>
+  isResampledTimeframe(timeframe)
+    ? Math.min(maxDataPoints * RESAMPLED_TIMEFRAMES[timeframe].sourceBarsPerBar, MAX_SOURCE_DATA_POINTS)
+    : maxDataPoints;
+
+export const isDailyOrHigherTimeframe = (timeframe: string): boolean =>
+  ['1d', '1day', '1wk', '1mo'].includes(timeframe);
+
+// Trading day a unix time (seconds) falls on in IST, as a day number; equal keys mean the same session
+export const getISTDayKey = (time: number): number =>
+  Math.floor((time + IST_OFFSET_SECONDS) / SECONDS_PER_DAY);
+
+// Bucket id plus the bar start time for a source candle
+const getBucket = (
+  time: number,
+  definition: ResampledTimeframeDefinition
+): { id: number; time: number | null } => {
+  const istTime = time + IST_OFFSET_SECONDS;
+  const istDayStart = istTime - (((istTime % SECONDS_PER_DAY) + SECONDS_PER_DAY) % SECONDS_PER_DAY);
+
+  if (definition.unit === 'session') {
+    const seconds = definition.seconds || 60;
+    const sessionOpen = istDayStart + SESSION_OPEN_SECONDS;
+    const bucketStart = sessionOpen + Math.floor((istTime - sessionOpen) / seconds) * seconds;
+    // Pre-open candles never spill into the previous day's bucket
+    const bucketTime = Math.max(bucketStart, istDayStart) - IST_OFFSET_SECONDS;
+    return { id: bucketTime, time: bucketTime };
+  }
+
+  const istDate = new Date(istDayStart * 1000);
+  if (definition.unit === 'week') {
+    // Weeks start on Monday
+    const daysSinceMonday = (istDate.getUTCDay() + 6) % 7;
+    return { id: istDayStart - daysSinceMonday * SECONDS_PER_DAY, time: null };
+  }
+
+  return { id: istDate.getUTCFullYear() * 12 + istDate.getUTCMonth(), time: null };
+};
+
+const createBar = <T extends OHLCVCandle & { date?: string }>(candle: T, time: number): T => ({
+  ...candle,
+  time,
+  open: candle.open,
+  high: candle.high,
+  low: candle.low,
+  close: candle.close,
+  volume: candle.volume || 0,
+  ...(candle.date !== undefined ? { date: new Date(time * 1000).toISOString() } : {})
+});
+
+// Stateful resampler that only rebuilds the bar in progress when the source series grows at the tail,
+// so live ticks/candles cost O(bar size) instead of a full pass
+export class CandleResampler<T extends OHLCVCandle & { date?: string }> {
+  private timeframe: string | null = null;
+  private bars: T[] = [];
+  private barSourceIndexes: number[] = [];
+  private firstSourceTime: number | null = null;
+  private lastBarSourceTime: number | null = null;
+  private sourceLength = 0;
+
+  resample(source: T[], timeframe: string): T[] {
+    const definition = RESAMPLED_TIMEFRAMES[timeframe];
+    if (!definition) return source;
+
+    if (source.length === 0) {
+      this.reset(timeframe);
+      return this.bars;
+    }
+
+    const lastBarIndex = this.bars.length - 1;
+    const resumeIndex = this.barSourceIndexes[lastBarIndex];
+    const canResume =
+      this.timeframe === timeframe &&
+      lastBarIndex >= 0 &&
+      source[0].time === this.firstSourceTime &&
+      source.length >= this.sourceLength &&
+      source[resumeIndex]?.time === this.lastBarSourceTime;
+
+    if (!canResume) {
+      this.reset(timeframe);
+      this.aggregate(source, 0, definition, this.bars, this.barSourceIndexes);
+    } else {
+      // Only the bar in progress (and anything after it) can have changed
+      const bars = this.bars.slice(0, lastBarIndex);
+      const barSourceIndexes = this.barSourceIndexes.slice(0, lastBarIndex);
+      this.aggregate(source, resumeIndex, definition, bars, barSourceIndexes);
+      this.bars = bars;
+      this.barSourceIndexes = barSourceIndexes;
+    }
+
+    this.firstSourceTime = source[0].time;
+    this.sourceLength = source.length;
+    this.lastBarSourceTime = source[this.barSourceIndexes[this.barSourceIndexes.length - 1]]?.time ?? null;
+    return this.bars;
+  }
+
+  private reset(timeframe: string): void {
+    this.timeframe = timeframe;
+    this.bars = [];
+    this.barSourceIndexes = [];
+    this.firstSourceTime = null;
+    this.lastBarSourceTime = null;
+    this.sourceLength = 0;
+  }
+
+  private aggregate(
+    source: T[],
+    startIndex: number,
+    definition: ResampledTimeframeDefinition,
+    bars: T[],
+    barSourceIndexes: number[]
+  ): void {
+    let currentId: number | null = null;
+    let current: T | null = null;
+
+    for (let i = startIndex; i < source.length; i++) {
+      const candle = source[i];
+      const bucket = getBucket(candle.time, definition);
+
+      if (current && bucket.id === currentId) {
+        current.high = Math.max(current.high, candle.high);
+        current.low = Math.min(current.low, candle.low);
+        current.close = candle.close;
+        current.volume += candle.volume || 0;
+        continue;
+      }
+
+      current = createBar(candle, bucket.time ?? candle.time);
+      currentId = bucket.id;
+      bars.push(current);
+      barSourceIndexes.push(i);
+    }
+  }
+}
+
+// One-shot resampling of a complete series
+export function resampleCandles<T extends OHLCVCandle & { date?: string }>(source: T[], timeframe: string): T[] {
+  return new CandleResampler<T>().resample(source, timeframe);
+}
@@ -1,5 +1,5 @@
 import { ChartData } from "@/types/analysis";
-import { createChart, IChartApi } from 'lightweight-charts';
+import { createChart, IChartApi, TickMarkType } from 'lightweight-charts';
 import { formatPrice as formatPriceUtil } from './numberFormatter';
 
 export interface ValidatedChartData {
@@ -982,7 +982,7 @@ export function formatTimestampForDisplay(utcTimestamp: number, timeframe: strin
     const normalizedTimeframe = timeframe.toLowerCase().replace(/[^a-z0-9]/g, '');
     
     // For daily intervals, show date only
-    if (normalizedTimeframe === '1d' || normalizedTimeframe === '1day' || normalizedTimeframe === 'day') {
+    if (normalizedTimeframe === '1d' || normalizedTimeframe === '1day' || normalizedTimeframe === 'day' || normalizedTimeframe === '1wk' || normalizedTimeframe === '1mo') {
       return date.toLocaleDateString('en-IN', { 
         timeZone: 'Asia/Kolkata',
         month: 'short', 
@@ -1018,43 +1018,51 @@ export function formatTimestampForDisplay(utcTimestamp: number, timeframe: strin
 
 /**
  * Create a comprehensive tick mark formatter for chart time scales
- * Handles all timeframes with appropriate formatting
+ * Intraday axes are session-aware: the first tick of each trading session carries the date,
+ * ticks inside a session carry only the IST time. Without a tick mark type (crosshair labels)
+ * the full date and time are shown.
  */
 export function createTickMarkFormatter(timeframe: string) {
-  return (time: number) => {
+  return (time: number, tickMarkType?: TickMarkType) => {
     try {
       const date = new Date(time * 1000);
       const normalizedTimeframe = timeframe.toLowerCase().replace(/[^a-z0-9]/g, '');
       
       // For daily intervals, show date only
-      if (normalizedTimeframe === '1d' || normalizedTimeframe === '1day' || normalizedTimeframe === 'day') {
+      if (normalizedTimeframe === '1d' || normalizedTimeframe === '1day' || normalizedTimeframe === 'day' || normalizedTimeframe === '1wk' || normalizedTimeframe === '1mo') {
         return date.toLocaleDateString('en-IN', { 
           timeZone: 'Asia/Kolkata',
           month: 'short', 
           day: 'numeric',
           year: 'numeric'
         });
-      } else if (normalizedTimeframe === '1h' || normalizedTimeframe === '60min' || normalizedTimeframe === '60minute') {
-        // For hourly intervals, show date and full time
-        return date.toLocaleDateString('en-IN', { 
+      }
+
+      // NSE sessions sit inside a single UTC day, so the library's day boundaries are session boundaries
+      if (tickMarkType === TickMarkType.Year || tickMarkType === TickMarkType.Month || tickMarkType === TickMarkType.DayOfMonth) {
+        return date.toLocaleDateString('en-IN', {
           timeZone: 'Asia/Kolkata',
-          month: 'short', 
-          day: 'numeric',
-          hour: '2-digit',
-          minute: '2-digit',
-          hour12: false
+          month: 'short',
+          day: 'numeric'
         });
-      } else {
-        // For minute intervals, show date and time
-        return date.toLocaleDateString('en-IN', { 
+      }
+      if (tickMarkType !== undefined) {
+        return date.toLocaleTimeString('en-IN', {
           timeZone: 'Asia/Kolkata',
-          month: 'short', 
-          day: 'numeric',
           hour: '2-digit',
           minute: '2-digit',
           hour12: false
         });
       }
+
+      return date.toLocaleDateString('en-IN', { 
+        timeZone: 'Asia/Kolkata',
+        month: 'short', 
+        day: 'numeric',
+        hour: '2-digit',
+        minute: '2-digit',
+        hour12: false
+      });
     } catch (error) {
       // console.warn(`Error formatting tick mark: ${time}`, error);
       return 'Invalid';
@@ -1209,7 +1217,6 @@ export function calcStochastic(highs: number[], lows: number[], closes: number[]
   for (let i = 0; i < closes.length; i++) {
     if (i < kPeriod - 1) {
       k.push(null);
-      d.push(null);
       continue;
     }
     const highestHigh = Math.max(...highs.slice(i - kPeriod + 1, i + 1));
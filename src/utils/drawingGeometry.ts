@@ -0,0 +1,246 @@
+// Geometry shared by the chart drawings renderer and hit-testing
+// Drawings are stored in time/price space; everything here turns them into pane pixels
+import { ChartDrawing, DrawingAnchor, DrawingType } from '@/types/drawings';
+
+// ===== TYPES & INTERFACES =====
+
+export interface Point {
+  x: number;
+  y: number;
+}
+
+export type DrawingShape =
+  | { kind: 'segment'; from: Point; to: Point; dashed?: boolean }
+  | { kind: 'polygon'; points: Point[] } // Translucent fill, also a hit area
+  | { kind: 'label'; at: Point; text: string }
+  | { kind: 'note'; at: Point; text: string };
+
+export interface DrawingProjector {
+  toPoint(anchor: DrawingAnchor): Point | null;
+  priceToY(price: number): number | null;
+  paneWidth: number;
+}
+
+// ===== CONSTANTS =====
+
+export const DRAWING_ANCHOR_COUNTS: Record<DrawingType, number> = {
+  trendline: 2,
+  horizontal_ray: 1,
+  rectangle: 2,
+  fib_retracement: 2,
+  fib_extension: 3,
+  parallel_channel: 3,
+  text: 1
+};
+
+export const FIB_RETRACEMENT_LEVELS = [0, 0.236, 0.382, 0.5, 0.618, 0.786, 1];
+export const FIB_EXTENSION_LEVELS = [0, 0.618, 1, 1.618, 2.618];
+
+export const NOTE_FONT = '12px sans-serif';
+const NOTE_PADDING = 6;
+const NOTE_HEIGHT = 20;
+
+// ===== TIME <-> LOGICAL INDEX =====
+
+// Maps timestamps to fractional bar indexes of the current series and back.
+// Times between bars interpolate and times outside the data extrapolate by the bar spacing at that end,
+// so an anchor placed on 5m bars still lands in the right place on a daily chart.
+export class TimeIndexMapper {
+  constructor(private times: number[]) {}
+
+  get length(): number {
+    return this.times.length;
+  }
+
+  timeAt(index: number): number | null {
+    return index >= 0 && index < this.times.length ? this.times[index] : null;
+  }
+
+  timeToLogical(time: number): number | null {
+    const times = this.times;
+    const last = times.length - 1;
+    if (last < 0) return null;
+    if (last === 0) return 0;
+
+    if (time <= times[0]) return (time - times[0]) / this.spacing(0);
+    if (time >= times[last]) return last + (time - times[last]) / this.spacing(last - 1);
+
+    // Last bar at or before `time`
+    let low = 0;
+    let high = last;
+    while (low < high) {
+      const mid = Math.ceil((low + high) / 2);
+      if (times[mid] <= time) {
+        low = mid;
+      } else {
+        high = mid - 1;
+      }
+    }
+    return low + (time - times[low]) / (times[low + 1] - times[low]);
+  }
+
+  logicalToTime(logical: number): number | null {
+    const times = this.times;
+    const last = times.length - 1;
+    if (last < 0) return null;
+    if (last === 0) return times[0];
+
+    if (logical <= 0) return Math.round(times[0] + logical * this.spacing(0));
+    if (logical >= last) return Math.round(times[last] + (logical - last) * this.spacing(last - 1));
+
+    const index = Math.floor(logical);
+    return Math.round(times[index] + (logical - index) * (times[index + 1] - times[index]));
+  }
+
+  private spacing(index: number): number {
+    return Math.max(1, this.times[index + 1] - this.times[index]);
+  }
+}
+
+// ===== SHAPES =====
+
+const formatLevelPrice = (price: number): string => price.toFixed(2);
+
+const fibonacciShapes = (
+  levels: number[],
+  priceAt: (level: number) => number,
+  fromX: number,
+  toX: number,
+  projector: DrawingProjector
+): DrawingShape[] => {
+  const shapes: DrawingShape[] = [];
+  levels.forEach(level => {
+    const price = priceAt(level);
+    const y = projector.priceToY(price);
+    if (y === null) return;
+    shapes.push({ kind: 'segment', from: { x: fromX, y }, to: { x: toX, y }, dashed: level !== 0 && level !== 1 });
+    shapes.push({ kind: 'label', at: { x: fromX + 4, y: y - 4 }, text: `${(level * 100).toFixed(1)}% (${formatLevelPrice(price)})` });
+  });
+  return shapes;
+};
+
+export function getDrawingShapes(drawing: ChartDrawing, projector: DrawingProjector): DrawingShape[] {
+  const points = drawing.anchors.map(anchor => projector.toPoint(anchor));
+  if (points.some(point => point === null)) return [];
+  const [a, b, c] = points as Point[];
+
+  if (points.length < DRAWING_ANCHOR_COUNTS[drawing.type]) {
+    // Three-point tools preview as a trendline until the last anchor is placed
+    return points.length === 2 ? [{ kind: 'segment', from: a, to: b }] : [];
+  }
+  const [anchorA, anchorB, anchorC] = drawing.anchors;
+
+  switch (drawing.type) {
+    case 'trendline':
+      return [{ kind: 'segment', from: a, to: b }];
+
+    case 'horizontal_ray':
+      return [
+        { kind: 'segment', from: a, to: { x: projector.paneWidth, y: a.y } },
+        { kind: 'label', at: { x: a.x + 4, y: a.y - 4 }, text: formatLevelPrice(anchorA.price) }
+      ];
+
+    case 'rectangle': {
+      const corners = [a, { x: b.x, y: a.y }, b, { x: a.x, y: b.y }];
+      return [
+        { kind: 'polygon', points: corners },
+        ...corners.map((corner, i) => ({ kind: 'segment' as const, from: corner, to: corners[(i + 1) % 4] }))
+      ];
+    }
+
+    case 'fib_retracement':
+      // 0% sits on the second anchor, 100% on the first (the swing being retraced)
+      return fibonacciShapes(
+        FIB_RETRACEMENT_LEVELS,
+        level => anchorB.price - (anchorB.price - anchorA.price) * level,
+        Math.min(a.x, b.x),
+        Math.max(a.x, b.x),
+        projector
+      );
+
+    case 'fib_extension': {
+      // Projects the A->B move from C
+      const width = Math.max(Math.abs(b.x - a.x), 40);
+      return [
+        { kind: 'segment', from: a, to: b, dashed: true },
+        { kind: 'segment', from: b, to: c, dashed: true },
+        ...fibonacciShapes(
+          FIB_EXTENSION_LEVELS,
+          level => anchorC.price + (anchorB.price - anchorA.price) * level,
+          c.x,
+          c.x + width,
+          projector
+        )
+      ];
+    }
+
+    case 'parallel_channel': {
+      // The third anchor sets the channel width; measured in pixels, which is exact on a linear price scale
+      const slope = b.x === a.x ? 0 : (b.y - a.y) / (b.x - a.x);
+      const offset = c.y - (a.y + slope * (c.x - a.x));
+      const a2 = { x: a.x, y: a.y + offset };
+      const b2 = { x: b.x, y: b.y + offset };
+      return [
+        { kind: 'polygon', points: [a, b, b2, a2] },
+        { kind: 'segment', from: a, to: b },
+        { kind: 'segment', from: a2, to: b2 },
+        { kind: 'segment', from: { x: a.x, y: a.y + offset / 2 }, to: { x: b.x, y: b.y + offset / 2 }, dashed: true }
+      ];
+    }
+
+    case 'text':
+      return drawing.text ? [{ kind: 'note', at: a, text: drawing.text }] : [];
+
+    default:
+      return [];
+  }
+}
+
+// ===== HIT TESTING =====
+
+export const getNoteBox = (at: Point, text: string) => ({
+  x: at.x,
+  y: at.y - NOTE_HEIGHT / 2,
+  // Approximate width; matches the 12px font closely enough for hit-testing
+  width: text.length * 7 + NOTE_PADDING * 2,
+  height: NOTE_HEIGHT
+});
+
+export function distanceToSegment(point: Point, from: Point, to: Point): number {
+  const dx = to.x - from.x;
+  const dy = to.y - from.y;
+  const lengthSquared = dx * dx + dy * dy;
+  const t = lengthSquared === 0
+    ? 0
+    : Math.max(0, Math.min(1, ((point.x - from.x) * dx + (point.y - from.y) * dy) / lengthSquared));
+  return Math.hypot(point.x - (from.x + t * dx), point.y - (from.y + t * dy));
+}
+
+function isInsidePolygon(point: Point, polygon: Point[]): boolean {
+  let inside = false;
+  for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
+    const a = polygon[i];
+    const b = polygon[j];
+    if ((a.y > point.y) !== (b.y > point.y) && point.x < ((b.x - a.x) * (point.y - a.y)) / (b.y - a.y) + a.x) {
+      inside = !inside;
+    }
+  }
+  return inside;
+}
+
+export function hitTestShapes(shapes: DrawingShape[], point: Point, tolerance = 6): boolean {
+  return shapes.some(shape => {
+    switch (shape.kind) {
+      case 'segment':
+        return distanceToSegment(point, shape.from, shape.to) <= tolerance;
+      case 'polygon':
+        return isInsidePolygon(point, shape.points);
+      case 'note': {
+        const box = getNoteBox(shape.at, shape.text);
+        return point.x >= box.x && point.x <= box.x + box.width && point.y >= box.y && point.y <= box.y + box.height;
+      }
+      default:
+        return false;
+    }
+  });
+}
@@ -0,0 +1,62 @@
+// Small promise wrappers around the raw IndexedDB API
+
+export const isIndexedDbAvailable = (): boolean =>
+  typeof window !== 'undefined' && typeof window.indexedDB !== 'undefined';
+
+// Open (and upgrade if needed) a database. Resolves to null when IndexedDB is unavailable
+// or blocked (private browsing, quota errors) so callers can fall back to the network.
+// onClose runs once the connection is closed under the caller, so it can drop it and reopen later.
+export const openDatabase = (
+  name: string,
+  version: number,
+  upgrade: (db: IDBDatabase, oldVersion: number) => void,
+  onClose?: () => void
+): Promise<IDBDatabase | null> => {
+  if (!isIndexedDbAvailable()) return Promise.resolve(null);
+
+  return new Promise(resolve => {
+    let request: IDBOpenDBRequest;
+    try {
+      request = window.indexedDB.open(name, version);
+    } catch (error) {
+      console.warn(`⚠️ [indexedDb] Failed to open ${name}:`, error);
+      resolve(null);
+      return;
+    }
+
+    request.onupgradeneeded = (event) => {
+      upgrade(request.result, event.oldVersion);
+    };
+    request.onsuccess = () => {
+      const db = request.result;
+      // Another tab upgraded the schema - let it proceed
+      db.onversionchange = () => {
+        db.close();
+        onClose?.();
+      };
+      // The browser closed it (storage cleared, disk error)
+      db.onclose = () => onClose?.();
+      resolve(db);
+    };
+    request.onerror = () => {
+      console.warn(`⚠️ [indexedDb] Failed to open ${name}:`, request.error);
+      resolve(null);
+    };
+    request.onblocked = () => {
+      console.warn(`⚠️ [indexedDb] Opening ${name} is blocked by another tab`);
+    };
+  });
+};
+
+export const promisifyRequest = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+export const transactionDone = (transaction: IDBTransaction): Promise<void> =>
+  new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
@@ -0,0 +1,432 @@
+// Registry of chart indicators that users can add, configure and stack on a chart
+// Every indicator is built on the streaming engine so live updates stay O(1)
+import { IndicatorBar, IndicatorInstance, IndicatorPane, IndicatorType, IndicatorValues } from '@/types/indicators';
+import {
+  StreamingIndicator,
+  StreamingSMA,
+  StreamingEMA,
+  StreamingRSI,
+  StreamingMACD,
+  StreamingBollingerBands,
+  StreamingStochastic,
+  StreamingATR,
+  StreamingOBV,
+  StreamingADX,
+  StreamingIchimoku,
+  StreamingKeltnerChannels,
+  StreamingDonchianChannels,
+  StreamingDPO,
+  StreamingWilliamsR,
+  StreamingStochRSI,
+  StreamingADLine,
+  StreamingEfficiencyRatio,
+  StreamingRelativeStrength,
+  StreamingVWAP,
+  StreamingSuperTrend,
+  StreamingParabolicSAR,
+  StreamingCCI,
+  StreamingMFI,
+  StreamingPivotPoints
+} from './streamingIndicators';
+
+// ===== TYPES & INTERFACES =====
+
+export type IndicatorStream = StreamingIndicator<IndicatorBar, IndicatorValues>;
+
+export interface IndicatorParamDefinition {
+  key: string;
+  label: string;
+  defaultValue: number;
+  min: number;
+  max: number;
+  step?: number;
+}
+
+export interface IndicatorLineDefinition {
+  key: string;
+  label: string;
+  color: string;
+  style?: 'line' | 'histogram' | 'dots';
+}
+
+export interface IndicatorDefinition {
+  type: IndicatorType;
+  label: string; // Short label used in legends, e.g. SMA
+  name: string;
+  defaultPane: IndicatorPane;
+  params: IndicatorParamDefinition[];
+  lines: IndicatorLineDefinition[];
+  usesBenchmark?: boolean; // Needs IndicatorBar.benchmark filled in
+  createStream: (params: Record<string, number>) => IndicatorStream;
+}
+
+// ===== STREAM ADAPTERS =====
+
+const fromClose = <T>(indicator: StreamingIndicator<number, T>, toValues: (output: T) => IndicatorValues): IndicatorStream => ({
+  append: bar => toValues(indicator.append(bar.close)),
+  revise: bar => toValues(indicator.revise(bar.close))
+});
+
+const fromBar = <T>(indicator: StreamingIndicator<IndicatorBar, T>, toValues: (output: T) => IndicatorValues): IndicatorStream => ({
+  append: bar => toValues(indicator.append(bar)),
+  revise: bar => toValues(indicator.revise(bar))
+});
+
+const single = (value: number | null): IndicatorValues => ({ value });
+
+const periodParam = (defaultValue: number, label = 'Period'): IndicatorParamDefinition => ({
+  key: 'period',
+  label,
+  defaultValue,
+  min: 1,
+  max: 500
+});
+
+// ===== DEFINITIONS =====
+
+export const INDICATOR_DEFINITIONS: Record<IndicatorType, IndicatorDefinition> = {
+  sma: {
+    type: 'sma',
+    label: 'SMA',
+    name: 'Simple Moving Average',
+    defaultPane: 'price',
+    params: [periodParam(20)],
+    lines: [{ key: 'value', label: 'SMA', color: '#2962ff' }],
+    createStream: ({ period }) => fromClose(new StreamingSMA(period), single)
+  },
+  ema: {
+    type: 'ema',
+    label: 'EMA',
+    name: 'Exponential Moving Average',
+    defaultPane: 'price',
+    params: [periodParam(20)],
+    lines: [{ key: 'value', label: 'EMA', color: '#ff6d00' }],
+    createStream: ({ period }) => fromClose(new StreamingEMA(period), single)
+  },
+  bollinger: {
+    type: 'bollinger',
+    label: 'BB',
+    name: 'Bollinger Bands',
+    defaultPane: 'price',
+    params: [
+      periodParam(20),
+      { key: 'stdDev', label: 'Std Dev', defaultValue: 2, min: 0.5, max: 5, step: 0.5 }
+    ],
+    lines: [
+      { key: 'upper', label: 'Upper', color: '#7e57c2' },
+      { key: 'middle', label: 'Middle', color: '#9e9e9e' },
+      { key: 'lower', label: 'Lower', color: '#7e57c2' }
+    ],
+    createStream: ({ period, stdDev }) => fromClose(new StreamingBollingerBands(period, stdDev), output => ({ ...output }))
+  },
+  rsi: {
+    type: 'rsi',
+    label: 'RSI',
+    name: 'Relative Strength Index',
+    defaultPane: 'lower',
+    params: [periodParam(14)],
+    lines: [{ key: 'value', label: 'RSI', color: '#ab47bc' }],
+    createStream: ({ period }) => fromClose(new StreamingRSI(period), single)
+  },
+  macd: {
+    type: 'macd',
+    label: 'MACD',
+    name: 'MACD',
+    defaultPane: 'lower',
+    params: [
+      { key: 'fast', label: 'Fast', defaultValue: 12, min: 1, max: 200 },
+      { key: 'slow', label: 'Slow', defaultValue: 26, min: 1, max: 200 },
+      { key: 'signal', label: 'Signal', defaultValue: 9, min: 1, max: 200 }
+    ],
+    lines: [
+      { key: 'histogram', label: 'Histogram', color: '#90a4ae', style: 'histogram' },
+      { key: 'macd', label: 'MACD', color: '#2962ff' },
+      { key: 'signal', label: 'Signal', color: '#ff6d00' }
+    ],
+    createStream: ({ fast, slow, signal }) => fromClose(new StreamingMACD(fast, slow, signal), output => ({ ...output }))
+  },
+  stochastic: {
+    type: 'stochastic',
+    label: 'Stoch',
+    name: 'Stochastic Oscillator',
+    defaultPane: 'lower',
+    params: [
+      { key: 'kPeriod', label: '%K Period', defaultValue: 14, min: 1, max: 200 },
+      { key: 'dPeriod', label: '%D Period', defaultValue: 3, min: 1, max: 50 }
+    ],
+    lines: [
+      { key: 'k', label: '%K', color: '#26a69a' },
+      { key: 'd', label: '%D', color: '#ef5350' }
+    ],
+    createStream: ({ kPeriod, dPeriod }) => fromBar(new StreamingStochastic(kPeriod, dPeriod), output => ({ ...output }))
+  },
+  atr: {
+    type: 'atr',
+    label: 'ATR',
+    name: 'Average True Range',
+    defaultPane: 'lower',
+    params: [periodParam(14)],
+    lines: [{ key: 'value', label: 'ATR', color: '#8d6e63' }],
+    createStream: ({ period }) => fromBar(new StreamingATR(period), single)
+  },
+  obv: {
+    type: 'obv',
+    label: 'OBV',
+    name: 'On-Balance Volume',
+    defaultPane: 'volume',
+    params: [],
+    lines: [{ key: 'value', label: 'OBV', color: '#9c27b0' }],
+    createStream: () => fromBar(new StreamingOBV(), single)
+  },
+  adx: {
+    type: 'adx',
+    label: 'ADX',
+    name: 'Average Directional Index',
+    defaultPane: 'lower',
+    params: [periodParam(14)],
+    lines: [
+      { key: 'adx', label: 'ADX', color: '#ff6d00' },
+      { key: 'plusDi', label: '+DI', color: '#26a69a' },
+      { key: 'minusDi', label: '-DI', color: '#ef5350' }
+    ],
+    createStream: ({ period }) => fromBar(new StreamingADX(period), output => ({ ...output }))
+  },
+  ichimoku: {
+    type: 'ichimoku',
+    label: 'Ichimoku',
+    name: 'Ichimoku Cloud',
+    defaultPane: 'price',
+    params: [
+      { key: 'tenkan', label: 'Tenkan', defaultValue: 9, min: 1, max: 200 },
+      { key: 'kijun', label: 'Kijun', defaultValue: 26, min: 1, max: 200 },
+      { key: 'senkou', label: 'Senkou B', defaultValue: 52, min: 1, max: 300 },
+      { key: 'displacement', label: 'Shift', defaultValue: 26, min: 1, max: 200 }
+    ],
+    lines: [
+      { key: 'tenkan', label: 'Tenkan', color: '#2962ff' },
+      { key: 'kijun', label: 'Kijun', color: '#b71c1c' },
+      { key: 'spanA', label: 'Span A', color: '#43a047' },
+      { key: 'spanB', label: 'Span B', color: '#e53935' }
+    ],
+    createStream: ({ tenkan, kijun, senkou, displacement }) =>
+      fromBar(new StreamingIchimoku(tenkan, kijun, senkou, displacement), output => ({ ...output }))
+  },
+  keltner: {
+    type: 'keltner',
+    label: 'KC',
+    name: 'Keltner Channels',
+    defaultPane: 'price',
+    params: [
+      periodParam(20),
+      { key: 'multiplier', label: 'ATR Mult', defaultValue: 2, min: 0.5, max: 5, step: 0.5 },
+      { key: 'atrPeriod', label: 'ATR Period', defaultValue: 10, min: 1, max: 200 }
+    ],
+    lines: [
+      { key: 'upper', label: 'Upper', color: '#00897b' },
+      { key: 'middle', label: 'Middle', color: '#9e9e9e' },
+      { key: 'lower', label: 'Lower', color: '#00897b' }
+    ],
+    createStream: ({ period, multiplier, atrPeriod }) =>
+      fromBar(new StreamingKeltnerChannels(period, multiplier, atrPeriod), output => ({ ...output }))
+  },
+  donchian: {
+    type: 'donchian',
+    label: 'DC',
+    name: 'Donchian Channels',
+    defaultPane: 'price',
+    params: [periodParam(20)],
+    lines: [
+      { key: 'upper', label: 'Upper', color: '#1e88e5' },
+      { key: 'middle', label: 'Middle', color: '#9e9e9e' },
+      { key: 'lower', label: 'Lower', color: '#1e88e5' }
+    ],
+    createStream: ({ period }) => fromBar(new StreamingDonchianChannels(period), output => ({ ...output }))
+  },
+  dpo: {
+    type: 'dpo',
+    label: 'DPO',
+    name: 'Detrended Price Oscillator',
+    defaultPane: 'lower',
+    params: [periodParam(20)],
+    lines: [{ key: 'value', label: 'DPO', color: '#5c6bc0' }],
+    createStream: ({ period }) => fromClose(new StreamingDPO(period), single)
+  },
+  williams_r: {
+    type: 'williams_r',
+    label: '%R',
+    name: 'Williams %R',
+    defaultPane: 'lower',
+    params: [periodParam(14)],
+    lines: [{ key: 'value', label: '%R', color: '#f06292' }],
+    createStream: ({ period }) => fromBar(new StreamingWilliamsR(period), single)
+  },
+  stochrsi: {
+    type: 'stochrsi',
+    label: 'StochRSI',
+    name: 'Stochastic RSI',
+    defaultPane: 'lower',
+    params: [
+      { key: 'rsiPeriod', label: 'RSI', defaultValue: 14, min: 1, max: 200 },
+      { key: 'stochPeriod', label: 'Stoch', defaultValue: 14, min: 1, max: 200 },
+      { key: 'kPeriod', label: '%K', defaultValue: 3, min: 1, max: 50 },
+      { key: 'dPeriod', label: '%D', defaultValue: 3, min: 1, max: 50 }
+    ],
+    lines: [
+      { key: 'k', label: '%K', color: '#2962ff' },
+      { key: 'd', label: '%D', color: '#ff6d00' }
+    ],
+    createStream: ({ rsiPeriod, stochPeriod, kPeriod, dPeriod }) =>
+      fromClose(new StreamingStochRSI(rsiPeriod, stochPeriod, kPeriod, dPeriod), output => ({ ...output }))
+  },
+  ad_line: {
+    type: 'ad_line',
+    label: 'A/D',
+    name: 'Accumulation/Distribution Line',
+    defaultPane: 'volume',
+    params: [],
+    lines: [{ key: 'value', label: 'A/D', color: '#6d4c41' }],
+    createStream: () => fromBar(new StreamingADLine(), single)
+  },
+  efficiency_ratio: {
+    type: 'efficiency_ratio',
+    label: 'ER',
+    name: 'Efficiency Ratio',
+    defaultPane: 'lower',
+    params: [periodParam(10)],
+    lines: [{ key: 'value', label: 'ER', color: '#00acc1' }],
+    createStream: ({ period }) => fromClose(new StreamingEfficiencyRatio(period), single)
+  },
+  relative_strength: {
+    type: 'relative_strength',
+    label: 'RS',
+    name: 'Relative Strength vs NIFTY 50',
+    defaultPane: 'lower',
+    params: [periodParam(50)],
+    lines: [{ key: 'value', label: 'RS', color: '#3949ab' }],
+    usesBenchmark: true,
+    createStream: ({ period }) => fromBar(new StreamingRelativeStrength(period), single)
+  },
+  vwap: {
+    type: 'vwap',
+    label: 'VWAP',
+    name: 'Volume Weighted Average Price',
+    defaultPane: 'price',
+    params: [],
+    lines: [{ key: 'value', label: 'VWAP', color: '#fb8c00' }],
+    createStream: () => fromBar(new StreamingVWAP(), single)
+  },
+  supertrend: {
+    type: 'supertrend',
+    label: 'SuperTrend',
+    name: 'SuperTrend',
+    defaultPane: 'price',
+    params: [
+      { key: 'period', label: 'ATR Period', defaultValue: 10, min: 1, max: 200 },
+      { key: 'multiplier', label: 'Multiplier', defaultValue: 3, min: 0.5, max: 10, step: 0.5 }
+    ],
+    lines: [
+      { key: 'up', label: 'Up', color: '#26a69a' },
+      { key: 'down', label: 'Down', color: '#ef5350' }
+    ],
+    createStream: ({ period, multiplier }) => fromBar(new StreamingSuperTrend(period, multiplier), output => ({ ...output }))
+  },
+  psar: {
+    type: 'psar',
+    label: 'PSAR',
+    name: 'Parabolic SAR',
+    defaultPane: 'price',
+    params: [
+      { key: 'step', label: 'Step', defaultValue: 0.02, min: 0.001, max: 0.2, step: 0.01 },
+      { key: 'maxStep', label: 'Max', defaultValue: 0.2, min: 0.01, max: 1, step: 0.05 }
+    ],
+    lines: [{ key: 'value', label: 'PSAR', color: '#546e7a', style: 'dots' }],
+    createStream: ({ step, maxStep }) => fromBar(new StreamingParabolicSAR(step, maxStep), single)
+  },
+  cci: {
+    type: 'cci',
+    label: 'CCI',
+    name: 'Commodity Channel Index',
+    defaultPane: 'lower',
+    params: [periodParam(20)],
+    lines: [{ key: 'value', label: 'CCI', color: '#8e24aa' }],
+    createStream: ({ period }) => fromBar(new StreamingCCI(period), single)
+  },
+  mfi: {
+    type: 'mfi',
+    label: 'MFI',
+    name: 'Money Flow Index',
+    defaultPane: 'lower',
+    params: [periodParam(14)],
+    lines: [{ key: 'value', label: 'MFI', color: '#43a047' }],
+    createStream: ({ period }) => fromBar(new StreamingMFI(period), single)
+  },
+  pivots: {
+    type: 'pivots',
+    label: 'Pivots',
+    name: 'Pivot Points (Classic)',
+    defaultPane: 'price',
+    params: [],
+    lines: [
+      { key: 'r2', label: 'R2', color: '#e53935' },
+      { key: 'r1', label: 'R1', color: '#ef9a9a' },
+      { key: 'pivot', label: 'P', color: '#757575' },
+      { key: 's1', label: 'S1', color: '#a5d6a7' },
+      { key: 's2', label: 'S2', color: '#43a047' }
+    ],
+    createStream: () => fromBar(new StreamingPivotPoints(), output => ({ ...output }))
+  }
+};
+
+// ===== HELPERS =====
+
+const createInstanceId = (type: IndicatorType): string =>
+  `${type}-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 7)}`;
+
+export function createIndicatorInstance(type: IndicatorType, params: Record<string, number> = {}): IndicatorInstance {
+  const definition = INDICATOR_DEFINITIONS[type];
+  return {
+    id: createInstanceId(type),
+    type,
+    params: {
+      ...Object.fromEntries(definition.params.map(param => [param.key, param.defaultValue])),
+      ...params
+    },
+    colors: Object.fromEntries(definition.lines.map(line => [line.key, line.color])),
+    pane: definition.defaultPane,
+    visible: true
+  };
+}
+
+// Fill in params/colours added to a definition after the instance was saved
+export function normalizeIndicatorInstance(instance: IndicatorInstance): IndicatorInstance | null {
+  const definition = INDICATOR_DEFINITIONS[instance.type];
+  if (!definition) return null;
+
+  const defaults = createIndicatorInstance(instance.type);
+  return {
+    ...defaults,
+    ...instance,
+    params: { ...defaults.params, ...instance.params },
+    colors: { ...defaults.colors, ...instance.colors }
+  };
+}
+
+// Legend label, e.g. SMA(100) or MACD(12,26,9)
+export function getIndicatorLabel(instance: IndicatorInstance): string {
+  const definition = INDICATOR_DEFINITIONS[instance.type];
+  if (!definition) return instance.type;
+  if (definition.params.length === 0) return definition.label;
+  return `${definition.label}(${definition.params.map(param => instance.params[param.key]).join(',')})`;
+}
+
+export function createIndicatorStream(instance: IndicatorInstance): IndicatorStream {
+  return INDICATOR_DEFINITIONS[instance.type].createStream(instance.params);
+}
+
+// Starting set for a chart the user hasn't configured yet
+export function createDefaultIndicatorInstances(): IndicatorInstance[] {
+  return [
+    createIndicatorInstance('sma', { period: 20 }),
+    { ...createIndicatorInstance('sma', { period: 50 }), colors: { value: '#ff9800' } }
+  ];
+}
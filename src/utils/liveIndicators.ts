@@ -1,4 +1,14 @@
 import { ChartData } from '@/types/analysis';
+import {
+  StreamingSMA,
+  StreamingEMA,
+  StreamingRSI,
+  StreamingMACD,
+  StreamingBollingerBands,
+  StreamingStochastic,
+  StreamingATR,
+  StreamingOBV
+} from './streamingIndicators';
 
 // ===== TYPES & INTERFACES =====
 
@@ -44,179 +54,43 @@ const DEFAULT_CONFIG: IndicatorConfig = {
 
 // ===== UTILITY FUNCTIONS =====
 
-function calculateSMA(prices: number[], period: number): number[] {
-  const sma: number[] = [];
-  for (let i = 0; i < prices.length; i++) {
-    if (i < period - 1) {
-      sma.push(NaN);
-    } else {
-      const sum = prices.slice(i - period + 1, i + 1).reduce((a, b) => a + b, 0);
-      sma.push(sum / period);
-    }
-  }
-  return sma;
+const SMA_PERIODS = [20, 50, 200];
+const EMA_PERIODS = [12, 26, 50];
+
+// Streaming counterparts of every indicator kept in IndicatorState
+interface IndicatorStreams {
+  sma: { [period: number]: StreamingSMA };
+  ema: { [period: number]: StreamingEMA };
+  rsi: StreamingRSI;
+  macd: StreamingMACD;
+  bollingerBands: StreamingBollingerBands;
+  stochastic: StreamingStochastic;
+  atr: StreamingATR;
+  obv: StreamingOBV;
+  volumeSma: StreamingSMA;
+  lastCandleTime: number | null;
 }
 
-function calculateEMA(prices: number[], period: number): number[] {
-  const ema: number[] = [];
-  const multiplier = 2 / (period + 1);
-  
-  for (let i = 0; i < prices.length; i++) {
-    if (i === 0) {
-      ema.push(prices[0]);
-    } else {
-      const newEMA = (prices[i] * multiplier) + (ema[i - 1] * (1 - multiplier));
-      ema.push(newEMA);
-    }
-  }
-  return ema;
-}
-
-function calculateRSI(prices: number[], period: number = 14): number[] {
-  const rsi: number[] = [];
-  const gains: number[] = [];
-  const losses: number[] = [];
-  
-  // Calculate price changes
-  for (let i = 1; i < prices.length; i++) {
-    const change = prices[i] - prices[i - 1];
-    gains.push(change > 0 ? change : 0);
-    losses.push(change < 0 ? -change : 0);
-  }
-  
-  // Calculate RSI
-  for (let i = 0; i < prices.length; i++) {
-    if (i < period) {
-      rsi.push(NaN);
-    } else {
-      const avgGain = gains.slice(i - period, i).reduce((a, b) => a + b, 0) / period;
-      const avgLoss = losses.slice(i - period, i).reduce((a, b) => a + b, 0) / period;
-      
-      if (avgLoss === 0) {
-        rsi.push(100);
-      } else {
-        const rs = avgGain / avgLoss;
-        rsi.push(100 - (100 / (1 + rs)));
-      }
-    }
-  }
-  
-  return rsi;
-}
+type UpdateMode = 'append' | 'revise';
 
-function calculateMACD(prices: number[], fastPeriod: number = 12, slowPeriod: number = 26, signalPeriod: number = 9): {
-  line: number[];
-  signal: number[];
-  histogram: number[];
-} {
-  const emaFast = calculateEMA(prices, fastPeriod);
-  const emaSlow = calculateEMA(prices, slowPeriod);
-  
-  const macdLine = emaFast.map((fast, i) => fast - emaSlow[i]);
-  const signalLine = calculateEMA(macdLine, signalPeriod);
-  const histogram = macdLine.map((line, i) => line - signalLine[i]);
-  
-  return { line: macdLine, signal: signalLine, histogram };
-}
+const getCandleTime = (candle: ChartData): number =>
+  candle.time ?? Math.floor(new Date(candle.date).getTime() / 1000);
 
-function calculateBollingerBands(prices: number[], period: number = 20, stdDev: number = 2): {
-  upper: number[];
-  middle: number[];
-  lower: number[];
-} {
-  const sma = calculateSMA(prices, period);
-  const upper: number[] = [];
-  const middle = sma;
-  const lower: number[] = [];
-  
-  for (let i = 0; i < prices.length; i++) {
-    if (i < period - 1) {
-      upper.push(NaN);
-      lower.push(NaN);
-    } else {
-      const slice = prices.slice(i - period + 1, i + 1);
-      const mean = sma[i];
-      const variance = slice.reduce((sum, price) => sum + Math.pow(price - mean, 2), 0) / period;
-      const standardDeviation = Math.sqrt(variance);
-      
-      upper.push(mean + (stdDev * standardDeviation));
-      lower.push(mean - (stdDev * standardDeviation));
-    }
-  }
-  
-  return { upper, middle, lower };
-}
-
-function calculateStochastic(highs: number[], lows: number[], closes: number[], kPeriod: number = 14, dPeriod: number = 3): {
-  k: number[];
-  d: number[];
-} {
-  const k: number[] = [];
-  
-  for (let i = 0; i < closes.length; i++) {
-    if (i < kPeriod - 1) {
-      k.push(NaN);
-    } else {
-      const slice = {
-        high: highs.slice(i - kPeriod + 1, i + 1),
-        low: lows.slice(i - kPeriod + 1, i + 1),
-        close: closes.slice(i - kPeriod + 1, i + 1)
-      };
-      
-      const highestHigh = Math.max(...slice.high);
-      const lowestLow = Math.min(...slice.low);
-      const currentClose = slice.close[slice.close.length - 1];
-      
-      k.push(((currentClose - lowestLow) / (highestHigh - lowestLow)) * 100);
-    }
-  }
-  
-  const d = calculateSMA(k, dPeriod);
-  
-  return { k, d };
-}
-
-function calculateATR(highs: number[], lows: number[], closes: number[], period: number = 14): number[] {
-  const tr: number[] = [];
-  
-  for (let i = 0; i < highs.length; i++) {
-    if (i === 0) {
-      tr.push(highs[i] - lows[i]);
-    } else {
-      const highLow = highs[i] - lows[i];
-      const highClose = Math.abs(highs[i] - closes[i - 1]);
-      const lowClose = Math.abs(lows[i] - closes[i - 1]);
-      tr.push(Math.max(highLow, highClose, lowClose));
-    }
-  }
-  
-  return calculateEMA(tr, period);
-}
-
-function calculateOBV(closes: number[], volumes: number[]): number[] {
-  const obv: number[] = [];
-  
-  for (let i = 0; i < closes.length; i++) {
-    if (i === 0) {
-      obv.push(volumes[i]);
-    } else {
-      if (closes[i] > closes[i - 1]) {
-        obv.push(obv[i - 1] + volumes[i]);
-      } else if (closes[i] < closes[i - 1]) {
-        obv.push(obv[i - 1] - volumes[i]);
-      } else {
-        obv.push(obv[i - 1]);
-      }
-    }
+// Append a value for a new bar or overwrite the value of the forming bar
+function writeValue(series: number[], value: number | null, mode: UpdateMode): void {
+  const numericValue = value ?? NaN;
+  if (mode === 'append' || series.length === 0) {
+    series.push(numericValue);
+  } else {
+    series[series.length - 1] = numericValue;
   }
-  
-  return obv;
 }
 
 // ===== LIVE INDICATOR CALCULATOR =====
 
 export class LiveIndicatorCalculator {
   private indicatorState: Map<string, IndicatorState> = new Map();
+  private indicatorStreams: Map<string, IndicatorStreams> = new Map();
   private config: IndicatorConfig;
 
   constructor(config: Partial<IndicatorConfig> = {}) {
@@ -228,11 +102,6 @@ export class LiveIndicatorCalculator {
   initializeIndicators(token: string, historicalData: ChartData[]): void {
     if (historicalData.length === 0) return;
 
-    const prices = historicalData.map(d => d.close);
-    const highs = historicalData.map(d => d.high);
-    const lows = historicalData.map(d => d.low);
-    const volumes = historicalData.map(d => d.volume);
-
     const state: IndicatorState = {
       sma: {},
       ema: {},
@@ -245,101 +114,92 @@ export class LiveIndicatorCalculator {
       volume: { sma: [] }
     };
 
-    // Calculate all indicators
-    state.sma[20] = calculateSMA(prices, 20);
-    state.sma[50] = calculateSMA(prices, 50);
-    state.sma[200] = calculateSMA(prices, 200);
-    
-    state.ema[12] = calculateEMA(prices, 12);
-    state.ema[26] = calculateEMA(prices, 26);
-    state.ema[50] = calculateEMA(prices, 50);
-    
-    state.rsi = calculateRSI(prices, this.config.rsiPeriod);
-    
-    const macd = calculateMACD(prices, this.config.macdFast, this.config.macdSlow, this.config.macdSignal);
-    state.macd = macd;
-    
-    const bollinger = calculateBollingerBands(prices, this.config.bollingerPeriod, this.config.bollingerStdDev);
-    state.bollingerBands = bollinger;
-    
-    const stochastic = calculateStochastic(highs, lows, prices, this.config.stochasticK, this.config.stochasticD);
-    state.stochastic = stochastic;
-    
-    state.atr = calculateATR(highs, lows, prices, this.config.atrPeriod);
-    state.obv = calculateOBV(prices, volumes);
-    state.volume.sma = calculateSMA(volumes, this.config.volumeSmaPeriod);
+    const streams: IndicatorStreams = {
+      sma: {},
+      ema: {},
+      rsi: new StreamingRSI(this.config.rsiPeriod),
+      macd: new StreamingMACD(this.config.macdFast, this.config.macdSlow, this.config.macdSignal),
+      bollingerBands: new StreamingBollingerBands(this.config.bollingerPeriod, this.config.bollingerStdDev),
+      stochastic: new StreamingStochastic(this.config.stochasticK, this.config.stochasticD),
+      atr: new StreamingATR(this.config.atrPeriod),
+      obv: new StreamingOBV(),
+      volumeSma: new StreamingSMA(this.config.volumeSmaPeriod),
+      lastCandleTime: null
+    };
+
+    SMA_PERIODS.forEach(period => {
+      state.sma[period] = [];
+      streams.sma[period] = new StreamingSMA(period);
+    });
+    EMA_PERIODS.forEach(period => {
+      state.ema[period] = [];
+      streams.ema[period] = new StreamingEMA(period);
+    });
+
+    // Replay history through the streams once; live updates then cost O(1)
+    historicalData.forEach(candle => this.applyCandle(state, streams, candle, 'append'));
 
     this.indicatorState.set(token, state);
+    this.indicatorStreams.set(token, streams);
   }
 
   // ===== INCREMENTAL UPDATES =====
 
+  // A candle with the same time as the last one revises the forming bar; a newer one closes it and appends
   updateIndicators(token: string, newCandle: ChartData): void {
     const state = this.indicatorState.get(token);
-    if (!state) {
+    const streams = this.indicatorStreams.get(token);
+    if (!state || !streams) {
       // console.warn('LiveIndicatorCalculator: No state found for token', token);
       return;
     }
 
-    // Add new candle data to existing arrays
-    const prices = [...state.sma[20].map((_, i) => i < state.sma[20].length ? state.sma[20][i] : NaN), newCandle.close];
-    const highs = [...state.bollingerBands.upper.map((_, i) => i < state.bollingerBands.upper.length ? state.bollingerBands.upper[i] : NaN), newCandle.high];
-    const lows = [...state.bollingerBands.lower.map((_, i) => i < state.bollingerBands.lower.length ? state.bollingerBands.lower[i] : NaN), newCandle.low];
-    const volumes = [...state.volume.sma.map((_, i) => i < state.volume.sma.length ? state.volume.sma[i] : NaN), newCandle.volume];
-
-    // Update all indicators
-    this.updateSMA(state, prices);
-    this.updateEMA(state, prices);
-    this.updateRSI(state, prices);
-    this.updateMACD(state, prices);
-    this.updateBollingerBands(state, prices);
-    this.updateStochastic(state, highs, lows, prices);
-    this.updateATR(state, highs, lows, prices);
-    this.updateOBV(state, prices, volumes);
-    this.updateVolumeSMA(state, volumes);
-  }
+    const candleTime = getCandleTime(newCandle);
+    if (streams.lastCandleTime !== null && candleTime < streams.lastCandleTime) {
+      // Out-of-order candle - history can't be rewritten incrementally
+      return;
+    }
 
-  private updateSMA(state: IndicatorState, prices: number[]): void {
-    state.sma[20] = calculateSMA(prices, 20);
-    state.sma[50] = calculateSMA(prices, 50);
-    state.sma[200] = calculateSMA(prices, 200);
+    const mode: UpdateMode = candleTime === streams.lastCandleTime ? 'revise' : 'append';
+    this.applyCandle(state, streams, newCandle, mode);
   }
 
-  private updateEMA(state: IndicatorState, prices: number[]): void {
-    state.ema[12] = calculateEMA(prices, 12);
-    state.ema[26] = calculateEMA(prices, 26);
-    state.ema[50] = calculateEMA(prices, 50);
+  getLastCandleTime(token: string): number | null {
+    return this.indicatorStreams.get(token)?.lastCandleTime ?? null;
   }
 
-  private updateRSI(state: IndicatorState, prices: number[]): void {
-    state.rsi = calculateRSI(prices, this.config.rsiPeriod);
-  }
+  private applyCandle(state: IndicatorState, streams: IndicatorStreams, candle: ChartData, mode: UpdateMode): void {
+    const close = candle.close;
+    const bar = { high: candle.high, low: candle.low, close, volume: candle.volume };
 
-  private updateMACD(state: IndicatorState, prices: number[]): void {
-    const macd = calculateMACD(prices, this.config.macdFast, this.config.macdSlow, this.config.macdSignal);
-    state.macd = macd;
-  }
+    SMA_PERIODS.forEach(period => {
+      writeValue(state.sma[period], streams.sma[period][mode](close), mode);
+    });
+    EMA_PERIODS.forEach(period => {
+      writeValue(state.ema[period], streams.ema[period][mode](close), mode);
+    });
 
-  private updateBollingerBands(state: IndicatorState, prices: number[]): void {
-    const bollinger = calculateBollingerBands(prices, this.config.bollingerPeriod, this.config.bollingerStdDev);
-    state.bollingerBands = bollinger;
-  }
+    writeValue(state.rsi, streams.rsi[mode](close), mode);
 
-  private updateStochastic(state: IndicatorState, highs: number[], lows: number[], prices: number[]): void {
-    const stochastic = calculateStochastic(highs, lows, prices, this.config.stochasticK, this.config.stochasticD);
-    state.stochastic = stochastic;
-  }
+    const macd = streams.macd[mode](close);
+    writeValue(state.macd.line, macd.macd, mode);
+    writeValue(state.macd.signal, macd.signal, mode);
+    writeValue(state.macd.histogram, macd.histogram, mode);
 
-  private updateATR(state: IndicatorState, highs: number[], lows: number[], prices: number[]): void {
-    state.atr = calculateATR(highs, lows, prices, this.config.atrPeriod);
-  }
+    const bollinger = streams.bollingerBands[mode](close);
+    writeValue(state.bollingerBands.upper, bollinger.upper, mode);
+    writeValue(state.bollingerBands.middle, bollinger.middle, mode);
+    writeValue(state.bollingerBands.lower, bollinger.lower, mode);
 
-  private updateOBV(state: IndicatorState, prices: number[], volumes: number[]): void {
-    state.obv = calculateOBV(prices, volumes);
-  }
+    const stochastic = streams.stochastic[mode](bar);
+    writeValue(state.stochastic.k, stochastic.k, mode);
+    writeValue(state.stochastic.d, stochastic.d, mode);
+
+    writeValue(state.atr, streams.atr[mode](bar), mode);
+    writeValue(state.obv, streams.obv[mode](bar), mode);
+    writeValue(state.volume.sma, streams.volumeSma[mode](candle.volume), mode);
 
-  private updateVolumeSMA(state: IndicatorState, volumes: number[]): void {
-    state.volume.sma = calculateSMA(volumes, this.config.volumeSmaPeriod);
+    streams.lastCandleTime = getCandleTime(candle);
   }
 
   // ===== DATA RETRIEVAL =====
@@ -401,10 +261,11 @@ export class LiveIndicatorCalculator {
 
   resetIndicators(token: string): void {
     this.indicatorState.delete(token);
+    this.indicatorStreams.delete(token);
   }
 
   hasIndicators(token: string): boolean {
-    return this.indicatorState.has(token);
+    return this.indicatorState.has(token) && this.indicatorStreams.has(token);
   }
 
   // ===== PERFORMANCE OPTIMIZATION =====
@@ -500,9 +361,15 @@ export function useLiveIndicators(token: string, data: ChartData[]) {
       if (!liveIndicatorCalculator.hasIndicators(token)) {
         liveIndicatorCalculator.initializeIndicators(token, data);
       } else {
-        // Update with latest candle
-        const latestCandle = data[data.length - 1];
-        liveIndicatorCalculator.updateIndicators(token, latestCandle);
+        // Feed only the candles from the forming bar onwards (usually just the last one)
+        const lastCandleTime = liveIndicatorCalculator.getLastCandleTime(token) ?? -Infinity;
+        let startIndex = data.length - 1;
+        while (startIndex > 0 && getCandleTime(data[startIndex - 1]) >= lastCandleTime) {
+          startIndex--;
+        }
+        for (let i = startIndex; i < data.length; i++) {
+          liveIndicatorCalculator.updateIndicators(token, data[i]);
+        }
       }
 
       // Get current state
@@ -380,7 +380,7 @@ function detectDoubleBottoms(prices: number[], threshold: number = 0.02): Double
   return patterns;
 }
 
-function detectCandlestickPatterns(data: ChartData[]): CandlestickPattern[] {
+export function detectCandlestickPatterns(data: ChartData[]): CandlestickPattern[] {
   const patterns: CandlestickPattern[] = [];
   
   for (let i = 1; i < data.length; i++) {
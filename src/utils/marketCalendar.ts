@@ -0,0 +1,146 @@
+// NSE/BSE equity trading calendar, evaluated locally so the app knows the session without a round trip
+// Sessions: pre-open 09:00-09:15, continuous trading 09:15-15:30 IST, Monday to Friday outside exchange holidays
+
+export type MarketPhase = 'pre-open' | 'open' | 'closed';
+
+export interface MarketSession {
+  phase: MarketPhase;
+  holiday: string | null; // Exchange holiday name when today is one
+  isWeekend: boolean;
+  opensAt: number; // ms - open of the current session, or of the next one while closed
+  closesAt: number; // ms - close of that same session
+  nextChangeAt: number; // ms - when the phase next changes
+  // 'exchange' when the Data Service overrode the calendar (special or cancelled session); times are then unknown
+  source: 'calendar' | 'exchange';
+}
+
+// Equity segment trading holidays from the exchange circulars (NSE and BSE share the list).
+// Weekend holidays are left out. Extend this every December when the next year's circular is out.
+export const MARKET_HOLIDAYS: Record<string, string> = {
+  '2025-02-26': 'Mahashivratri',
+  '2025-03-14': 'Holi',
+  '2025-03-31': 'Id-Ul-Fitr (Ramadan Eid)',
+  '2025-04-10': 'Shri Mahavir Jayanti',
+  '2025-04-14': 'Dr. Baba Saheb Ambedkar Jayanti',
+  '2025-04-18': 'Good Friday',
+  '2025-05-01': 'Maharashtra Day',
+  '2025-08-15': 'Independence Day',
+  '2025-08-27': 'Ganesh Chaturthi',
+  '2025-10-02': 'Mahatma Gandhi Jayanti / Dussehra',
+  '2025-10-21': 'Diwali Laxmi Pujan',
+  '2025-10-22': 'Diwali Balipratipada',
+  '2025-11-05': 'Prakash Gurpurb Sri Guru Nanak Dev',
+  '2025-12-25': 'Christmas',
+  '2026-01-26': 'Republic Day',
+  '2026-03-03': 'Holi',
+  '2026-03-26': 'Shri Ram Navami',
+  '2026-03-31': 'Shri Mahavir Jayanti',
+  '2026-04-03': 'Good Friday',
+  '2026-04-14': 'Dr. Baba Saheb Ambedkar Jayanti',
+  '2026-05-01': 'Maharashtra Day',
+  '2026-05-28': 'Bakri Id',
+  '2026-06-26': 'Muharram',
+  '2026-09-14': 'Ganesh Chaturthi',
+  '2026-10-02': 'Mahatma Gandhi Jayanti',
+  '2026-10-20': 'Dussehra',
+  '2026-11-10': 'Diwali Balipratipada',
+  '2026-11-24': 'Prakash Gurpurb Sri Guru Nanak Dev',
+  '2026-12-25': 'Christmas'
+};
+
+const IST_OFFSET_SECONDS = 5.5 * 3600;
+const SECONDS_PER_DAY = 86400;
+const PRE_OPEN_SECONDS = 9 * 3600; // 09:00 IST
+const OPEN_SECONDS = 9 * 3600 + 15 * 60; // 09:15 IST
+const CLOSE_SECONDS = 15 * 3600 + 30 * 60; // 15:30 IST
+// No exchange closes for longer than this; bounds the search for the next session
+const MAX_CLOSED_DAYS = 14;
+
+// IST calendar day number (days since epoch) and its YYYY-MM-DD key
+const getISTDay = (ms: number): number => Math.floor((ms / 1000 + IST_OFFSET_SECONDS) / SECONDS_PER_DAY);
+const getDayKey = (day: number): string => new Date(day * SECONDS_PER_DAY * 1000).toISOString().slice(0, 10);
+// Epoch ms of a time of day (seconds after IST midnight) on an IST day
+const getISTTime = (day: number, seconds: number): number => (day * SECONDS_PER_DAY + seconds - IST_OFFSET_SECONDS) * 1000;
+
+// YYYY-MM-DD of the IST calendar day an instant falls on
+export const getISTDateKey = (ms: number): string => getDayKey(getISTDay(ms));
+
+// True for a YYYY-MM-DD date before today's IST date; blank means today
+export const isPastISTDate = (dateKey: string | null | undefined, now: number = Date.now()): boolean =>
+  !!dateKey?.trim() && dateKey.trim() < getISTDateKey(now);
+
+const isWeekendDay = (day: number): boolean => {
+  const weekday = new Date(day * SECONDS_PER_DAY * 1000).getUTCDay();
+  return weekday === 0 || weekday === 6;
+};
+
+export const isTradingDay = (ms: number = Date.now()): boolean => {
+  const day = getISTDay(ms);
+  return !isWeekendDay(day) && !MARKET_HOLIDAYS[getDayKey(day)];
+};
+
+const getNextTradingDay = (afterDay: number): number => {
+  for (let day = afterDay + 1; day <= afterDay + MAX_CLOSED_DAYS; day++) {
+    if (!isWeekendDay(day) && !MARKET_HOLIDAYS[getDayKey(day)]) return day;
+  }
+  return afterDay + 1;
+};
+
+export function getMarketSession(now: number = Date.now()): MarketSession {
+  const today = getISTDay(now);
+  const holiday = MARKET_HOLIDAYS[getDayKey(today)] ?? null;
+  const isWeekend = isWeekendDay(today);
+  const secondsOfDay = now / 1000 + IST_OFFSET_SECONDS - today * SECONDS_PER_DAY;
+
+  const build = (phase: MarketPhase, day: number, nextChange: 'pre-open' | 'open' | 'close'): MarketSession => {
+    const opensAt = getISTTime(day, OPEN_SECONDS);
+    const closesAt = getISTTime(day, CLOSE_SECONDS);
+    const nextChangeAt = nextChange === 'pre-open' ? getISTTime(day, PRE_OPEN_SECONDS) : nextChange === 'open' ? opensAt : closesAt;
+    return { phase, holiday, isWeekend, opensAt, closesAt, nextChangeAt, source: 'calendar' };
+  };
+
+  if (!isWeekend && !holiday && secondsOfDay < CLOSE_SECONDS) {
+    if (secondsOfDay >= OPEN_SECONDS) return build('open', today, 'close');
+    if (secondsOfDay >= PRE_OPEN_SECONDS) return build('pre-open', today, 'open');
+    return build('closed', today, 'pre-open');
+  }
+  return build('closed', getNextTradingDay(today), 'pre-open');
+}
+
+// Time left until the session opens (closed / pre-open) or closes (open), in ms
+export const getSessionCountdown = (session: MarketSession, now: number = Date.now()): number =>
+  Math.max(0, (session.phase === 'open' ? session.closesAt : session.opensAt) - now);
+
+// "45s", "12m", "2h 05m", "3d 4h"
+export function formatCountdown(ms: number): string {
+  const totalSeconds = Math.max(0, Math.floor(ms / 1000));
+  if (totalSeconds < 60) return `${totalSeconds}s`;
+  const minutes = Math.floor(totalSeconds / 60) % 60;
+  const hours = Math.floor(totalSeconds / 3600) % 24;
+  const days = Math.floor(totalSeconds / SECONDS_PER_DAY);
+  if (days > 0) return `${days}d ${hours}h`;
+  if (hours > 0) return `${hours}h ${String(minutes).padStart(2, '0')}m`;
+  return `${minutes}m`;
+}
+
+// Session open/close as "Mon 09:15" in IST, or just "09:15" when it is today
+export function formatSessionTime(ms: number, now: number = Date.now()): string {
+  const time = new Date(ms).toLocaleTimeString('en-IN', { timeZone: 'Asia/Kolkata', hour: '2-digit', minute: '2-digit', hour12: false });
+  if (getISTDay(ms) === getISTDay(now)) return time;
+  const weekday = new Date(ms).toLocaleDateString('en-IN', { timeZone: 'Asia/Kolkata', weekday: 'short' });
+  return `${weekday} ${time}`;
+}
+
+const PHASE_LABELS: Record<MarketPhase, string> = {
+  'pre-open': 'Pre-open',
+  open: 'Market open',
+  closed: 'Market closed'
+};
+
+// Badge text, e.g. "Market open · closes in 2h 05m" or "Market closed (Diwali Balipratipada) · opens in 1d 18h"
+export function getMarketSessionLabel(session: MarketSession, countdown: number): string {
+  const phase = session.phase === 'closed' && session.holiday ? `${PHASE_LABELS.closed} (${session.holiday})` : PHASE_LABELS[session.phase];
+  // Exchange overrides come without reliable session times
+  if (session.source === 'exchange') return phase;
+  return `${phase} · ${session.phase === 'open' ? 'closes' : 'opens'} in ${formatCountdown(countdown)}`;
+}
@@ -0,0 +1,310 @@
+import { AnalysisRequest } from '@/types/analysis';
+import {
+  PaperExitReason,
+  PaperHorizon,
+  PaperPortfolio,
+  PaperPosition,
+  PaperSide,
+  PaperTarget,
+  PaperTradeEvent
+} from '@/types/paperTrading';
+import { getAnalysisPayload } from '@/utils/analysisOverlays';
+import { getSignalBias } from '@/utils/analysisSummary';
+
+// Positions follow the analysis' own plan: the entry range from entry_strategy, the stop and
+// targets from exit_strategy, and a size from position_sizing (risk per trade, capped by the
+// maximum position size). Each target closes an equal slice; the stop closes whatever is left.
+
+export const DEFAULT_PAPER_CAPITAL = 1000000;
+// Used when position_sizing is missing or unreadable
+const DEFAULT_RISK_PCT = 1;
+const DEFAULT_MAX_POSITION_PCT = 10;
+const DEFAULT_HORIZON_DAYS: Record<PaperHorizon, number> = { short_term: 10, medium_term: 45 };
+const DAY_MS = 86400000;
+
+export const PAPER_HORIZON_LABELS: Record<PaperHorizon, string> = {
+  short_term: 'Short term',
+  medium_term: 'Medium term'
+};
+
+const isPrice = (value: unknown): value is number =>
+  typeof value === 'number' && Number.isFinite(value) && value > 0;
+
+const createPaperPositionId = (): string =>
+  `paper-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 7)}`;
+
+// "1-2% of capital" -> 1; the lower bound keeps sizing conservative
+export const parsePercent = (value: unknown): number | null => {
+  if (typeof value === 'number') return Number.isFinite(value) && value > 0 ? value : null;
+  if (typeof value !== 'string') return null;
+  const match = /(\d+(?:\.\d+)?)\s*(?:-|to|–)?\s*(?:\d+(?:\.\d+)?)?\s*%/.exec(value);
+  const parsed = match ? parseFloat(match[1]) : NaN;
+  return parsed > 0 && parsed <= 100 ? parsed : null;
+};
+
+// ===== TRADE PLANS =====
+
+export interface PaperTradePlan {
+  horizon: PaperHorizon;
+  side: PaperSide;
+  entryRange: [number, number] | null;
+  stopLoss: number | null;
+  targets: number[];
+  riskPct: number;
+  maxPositionPct: number;
+  horizonDays: number;
+}
+
+// The plan for one horizon of an analysis, or null when it has nothing to trade on
+export function getPaperTradePlan(analysisData: any, horizon: PaperHorizon): PaperTradePlan | null {
+  const payload = getAnalysisPayload(analysisData);
+  const strategy = payload?.ai_analysis?.trading_strategy?.[horizon];
+  if (!strategy) return null;
+
+  const range = Array.isArray(strategy.entry_strategy?.entry_range)
+    ? (strategy.entry_strategy.entry_range as unknown[]).filter(isPrice)
+    : [];
+  const entryRange: [number, number] | null = range.length > 0 ? [Math.min(...range), Math.max(...range)] : null;
+  const exit = strategy.exit_strategy || {};
+  const stopLoss = isPrice(exit.stop_loss) ? exit.stop_loss : null;
+  const targets = (Array.isArray(exit.targets) ? exit.targets : [])
+    .map((target: any) => target?.price)
+    .filter(isPrice);
+
+  // The stated bias wins; a neutral one falls back to which side of the entry the stop is on
+  const bias = getSignalBias(strategy.bias);
+  const reference = entryRange ? (entryRange[0] + entryRange[1]) / 2 : targets[0];
+  let side: PaperSide | null = bias === 'bullish' ? 'long' : bias === 'bearish' ? 'short' : null;
+  if (!side && stopLoss && reference) side = stopLoss < reference ? 'long' : 'short';
+  if (!side || (!entryRange && !stopLoss && targets.length === 0)) return null;
+
+  return {
+    horizon,
+    side,
+    entryRange,
+    stopLoss,
+    // Nearest first, so partial exits happen in the order price reaches them
+    targets: [...targets].sort((a, b) => (side === 'long' ? a - b : b - a)),
+    riskPct: parsePercent(strategy.position_sizing?.risk_per_trade) ?? DEFAULT_RISK_PCT,
+    maxPositionPct: parsePercent(strategy.position_sizing?.max_position_size) ?? DEFAULT_MAX_POSITION_PCT,
+    horizonDays: isPrice(strategy.horizon_days) ? strategy.horizon_days : DEFAULT_HORIZON_DAYS[horizon]
+  };
+}
+
+// Shares for a plan: the stop distance risks riskPct of equity, capped by the maximum position size and cash
+export function getPaperPlanQuantity(plan: PaperTradePlan, entryPrice: number, equity: number, cash: number): number {
+  if (!isPrice(entryPrice) || equity <= 0) return 0;
+  const maxByPosition = (equity * plan.maxPositionPct) / 100 / entryPrice;
+  const perShareRisk = plan.stopLoss ? Math.abs(entryPrice - plan.stopLoss) : 0;
+  const maxByRisk = perShareRisk > 0 ? (equity * plan.riskPct) / 100 / perShareRisk : maxByPosition;
+  return Math.max(0, Math.floor(Math.min(maxByPosition, maxByRisk, cash / entryPrice)));
+}
+
+// Equal slices per target, the remainder going to the last one
+export function splitTargetQuantities(quantity: number, prices: number[]): PaperTarget[] {
+  if (prices.length === 0) return [];
+  const slice = Math.floor(quantity / prices.length);
+  return prices.map((price, i) => ({
+    price,
+    quantity: i === prices.length - 1 ? quantity - slice * (prices.length - 1) : slice,
+    filled: false
+  })).filter(target => target.quantity > 0);
+}
+
+export interface NewPaperPositionInput {
+  symbol: string;
+  side: PaperSide;
+  quantity: number;
+  entryRange: [number, number] | null;
+  stopLoss: number | null;
+  targets: number[];
+  analysisId?: string | null;
+  horizon?: PaperHorizon | null;
+  horizonDays?: number;
+}
+
+export function createPaperPosition(input: NewPaperPositionInput, now: Date = new Date()): PaperPosition {
+  const quantity = Math.max(1, Math.floor(input.quantity));
+  return {
+    id: createPaperPositionId(),
+    symbol: input.symbol.toUpperCase(),
+    side: input.side,
+    status: 'pending',
+    quantity,
+    openQuantity: 0,
+    entryRange: input.entryRange,
+    entryPrice: null,
+    stopLoss: input.stopLoss,
+    targets: splitTargetQuantities(quantity, input.targets),
+    fills: [],
+    realizedPnl: 0,
+    analysisId: input.analysisId ?? null,
+    horizon: input.horizon ?? null,
+    createdAt: now.toISOString(),
+    openedAt: null,
+    closedAt: null,
+    expiresAt: input.horizonDays ? new Date(now.getTime() + input.horizonDays * DAY_MS).toISOString() : null,
+    lastPrice: null
+  };
+}
+
+// ===== PRICE UPDATES =====
+
+const pnlPerShare = (position: PaperPosition, exitPrice: number): number =>
+  (position.side === 'long' ? 1 : -1) * (exitPrice - (position.entryPrice ?? exitPrice));
+
+const withExit = (
+  position: PaperPosition,
+  price: number,
+  quantity: number,
+  reason: PaperExitReason,
+  label: string,
+  time: string
+): PaperPosition => {
+  const openQuantity = position.openQuantity - quantity;
+  return {
+    ...position,
+    openQuantity,
+    realizedPnl: position.realizedPnl + pnlPerShare(position, price) * quantity,
+    fills: [...position.fills, { time, price, quantity, kind: 'exit', reason, label }],
+    status: openQuantity <= 0 ? 'closed' : position.status,
+    closedAt: openQuantity <= 0 ? time : position.closedAt
+  };
+};
+
+// Would a pending order fill at this price? Longs buy at or below the top of the range,
+// shorts sell at or above its bottom, and neither enters beyond its own stop.
+const canEnter = (position: PaperPosition, price: number): boolean => {
+  const { side, entryRange, stopLoss } = position;
+  if (side === 'long') return (!entryRange || price <= entryRange[1]) && (!stopLoss || price > stopLoss);
+  return (!entryRange || price >= entryRange[0]) && (!stopLoss || price < stopLoss);
+};
+
+// Fills, target slices and stops triggered by a new price. Fills happen at the price itself,
+// so a gap through a level is filled at the gapped price.
+export function applyPaperPrice(
+  position: PaperPosition,
+  price: number,
+  now: Date = new Date()
+): { position: PaperPosition; events: PaperTradeEvent[] } {
+  if (!isPrice(price) || position.status === 'closed' || position.status === 'cancelled') {
+    return { position, events: [] };
+  }
+  const time = now.toISOString();
+  const events: PaperTradeEvent[] = [];
+  const event = (message: string) => events.push({ positionId: position.id, symbol: position.symbol, message });
+  let next: PaperPosition = { ...position, lastPrice: price };
+
+  if (next.status === 'pending') {
+    if (next.expiresAt && Date.parse(next.expiresAt) < now.getTime()) {
+      event(`${next.symbol} paper order expired without filling`);
+      return { position: { ...next, status: 'cancelled', closedAt: time }, events };
+    }
+    if (!canEnter(next, price)) return { position: next, events };
+    next = {
+      ...next,
+      status: 'open',
+      entryPrice: price,
+      openQuantity: next.quantity,
+      openedAt: time,
+      fills: [...next.fills, { time, price, quantity: next.quantity, kind: 'entry', reason: null, label: 'Entry' }]
+    };
+    event(`${next.side === 'long' ? 'Bought' : 'Sold short'} ${next.quantity} ${next.symbol} at ₹${price.toFixed(2)}`);
+  }
+
+  const isLong = next.side === 'long';
+  if (next.stopLoss && (isLong ? price <= next.stopLoss : price >= next.stopLoss)) {
+    const quantity = next.openQuantity;
+    next = withExit(next, price, quantity, 'stop', 'Stop', time);
+    event(`${next.symbol} stop hit: closed ${quantity} at ₹${price.toFixed(2)}`);
+    return { position: next, events };
+  }
+
+  next.targets.forEach((target, i) => {
+    if (target.filled || next.status !== 'open' || !(isLong ? price >= target.price : price <= target.price)) return;
+    const quantity = Math.min(target.quantity, next.openQuantity);
+    next = withExit(next, price, quantity, 'target', `T${i + 1}`, time);
+    next = { ...next, targets: next.targets.map((t, j) => (j === i ? { ...t, filled: true } : t)) };
+    event(`${next.symbol} target ${i + 1} reached: closed ${quantity} at ₹${price.toFixed(2)}`);
+  });
+
+  return { position: next, events };
+}
+
+// Manual exit of whatever is still open, or cancellation of an unfilled order
+export function closePaperPosition(position: PaperPosition, price: number | null, now: Date = new Date()): PaperPosition {
+  const time = now.toISOString();
+  if (position.status === 'pending') return { ...position, status: 'cancelled', closedAt: time };
+  if (position.status !== 'open' || !isPrice(price)) return position;
+  return withExit(position, price, position.openQuantity, 'manual', 'Manual', time);
+}
+
+// ===== PORTFOLIO =====
+
+export interface PaperPortfolioSummary {
+  equity: number;
+  cash: number;
+  investedValue: number; // Entry value of open quantity
+  realizedPnl: number;
+  unrealizedPnl: number;
+  openPositions: number;
+  pendingOrders: number;
+}
+
+// Latest price for a position: the live quote when there is one, else the last price it saw
+const markPrice = (position: PaperPosition, prices: Record<string, number | null | undefined>): number | null =>
+  prices[position.symbol] ?? position.lastPrice ?? position.entryPrice;
+
+export const getPaperUnrealizedPnl = (position: PaperPosition, price: number | null): number =>
+  position.status === 'open' && price !== null ? pnlPerShare(position, price) * position.openQuantity : 0;
+
+// Cash is capital plus realised P&L minus what open positions tied up (shorts reserve their entry value too)
+export function summarizePaperPortfolio(
+  portfolio: PaperPortfolio,
+  prices: Record<string, number | null | undefined> = {}
+): PaperPortfolioSummary {
+  let realizedPnl = 0;
+  let unrealizedPnl = 0;
+  let investedValue = 0;
+  portfolio.positions.forEach(position => {
+    realizedPnl += position.realizedPnl;
+    if (position.status !== 'open') return;
+    investedValue += (position.entryPrice ?? 0) * position.openQuantity;
+    unrealizedPnl += getPaperUnrealizedPnl(position, markPrice(position, prices));
+  });
+  const cash = portfolio.startingCapital + realizedPnl - investedValue;
+  return {
+    equity: portfolio.startingCapital + realizedPnl + unrealizedPnl,
+    cash,
+    investedValue,
+    realizedPnl,
+    unrealizedPnl,
+    openPositions: portfolio.positions.filter(position => position.status === 'open').length,
+    pendingOrders: portfolio.positions.filter(position => position.status === 'pending').length
+  };
+}
+
+// Net open paper position in a symbol, in the shape analysis requests take for current_holding
+export function getPaperHolding(
+  positions: PaperPosition[],
+  symbol: string
+): AnalysisRequest['current_holding'] {
+  const open = positions.filter(position => position.status === 'open' && position.symbol === symbol.toUpperCase());
+  const sideTotals = (side: PaperSide) => {
+    const sided = open.filter(position => position.side === side);
+    const quantity = sided.reduce((sum, position) => sum + position.openQuantity, 0);
+    const cost = sided.reduce((sum, position) => sum + (position.entryPrice ?? 0) * position.openQuantity, 0);
+    return { quantity, cost };
+  };
+  const long = sideTotals('long');
+  const short = sideTotals('short');
+  const net = long.quantity - short.quantity;
+  if (net === 0) return null;
+
+  const side = net > 0 ? long : short;
+  return {
+    quantity: Math.abs(net),
+    entry_price: Math.round((side.cost / side.quantity) * 100) / 100,
+    position_type: net > 0 ? 'long' : 'short'
+  };
+}
@@ -0,0 +1,431 @@
+import { AnalysisRequest } from '@/types/analysis';
+import { PaperPosition } from '@/types/paperTrading';
+import {
+  HoldingExposure,
+  HoldingSide,
+  HoldingSource,
+  PortfolioContext,
+  PortfolioHolding,
+  SectorExposure
+} from '@/types/portfolio';
+import {
+  ReturnSeries,
+  getAnnualizedVolatility,
+  getEffectivePositions,
+  getPortfolioVolatility,
+  getReturnCorrelation
+} from '@/utils/portfolioRisk';
+
+export const MAX_HOLDINGS = 200;
+// Holdings beyond this many (by value) are summarised by sector but get no return history
+export const MAX_CORRELATED_HOLDINGS = 20;
+export const UNKNOWN_SECTOR = 'Unclassified';
+
+export const createHoldingId = (): string =>
+  `holding-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 7)}`;
+
+// "NSE:TCS", "TCS-EQ", "tcs" -> "TCS"
+export const normalizeHoldingSymbol = (value: string): string =>
+  value.trim().toUpperCase().replace(/^(NSE|BSE):/, '').replace(/-(EQ|BE|BZ)$/, '');
+
+export interface HoldingInput {
+  symbol: string;
+  quantity: number;
+  averagePrice: number;
+  side: HoldingSide;
+  sector?: string | null;
+}
+
+// Same symbol and side fold into one holding at the quantity-weighted average price
+export function mergeHoldingInputs(inputs: HoldingInput[]): HoldingInput[] {
+  const merged = new Map<string, HoldingInput>();
+  inputs.forEach(input => {
+    const key = `${input.symbol}|${input.side}`;
+    const existing = merged.get(key);
+    if (!existing) {
+      merged.set(key, { ...input });
+      return;
+    }
+    const quantity = existing.quantity + input.quantity;
+    merged.set(key, {
+      ...existing,
+      quantity,
+      averagePrice: (existing.averagePrice * existing.quantity + input.averagePrice * input.quantity) / quantity,
+      sector: existing.sector ?? input.sector ?? null
+    });
+  });
+  return Array.from(merged.values());
+}
+
+export function toPortfolioHoldings(inputs: HoldingInput[], source: HoldingSource): PortfolioHolding[] {
+  const now = new Date().toISOString();
+  const normalized = inputs.map(input => ({ ...input, symbol: normalizeHoldingSymbol(input.symbol) }));
+  return mergeHoldingInputs(normalized).map(input => ({
+    id: createHoldingId(),
+    symbol: input.symbol,
+    quantity: input.quantity,
+    averagePrice: Math.round(input.averagePrice * 100) / 100,
+    side: input.side,
+    sector: input.sector ?? null,
+    source,
+    updatedAt: now
+  }));
+}
+
+// ===== CSV IMPORT =====
+
+// Header names used by common broker exports (Zerodha Console, Upstox, ICICI Direct) and plain sheets.
+// Company-name columns are not accepted: they don't map reliably onto NSE symbols.
+const CSV_COLUMNS: Record<'symbol' | 'quantity' | 'price' | 'side' | 'sector', string[]> = {
+  symbol: ['symbol', 'instrument', 'tradingsymbol', 'trading symbol', 'stock', 'stock symbol', 'scrip', 'scrip name', 'ticker', 'nse symbol'],
+  quantity: ['qty', 'quantity', 'shares', 'net qty', 'net quantity', 'quantity available', 'available qty', 'holding qty'],
+  price: ['avg cost', 'avg price', 'average price', 'average cost', 'average buy price', 'avg buy price', 'buy avg', 'buy price', 'entry price', 'cost price', 'avg trading price'],
+  side: ['side', 'position', 'position type', 'type'],
+  sector: ['sector', 'industry']
+};
+
+const normalizeHeader = (value: string): string =>
+  value.trim().toLowerCase().replace(/[._]/g, ' ').replace(/\s+/g, ' ').trim();
+
+// One CSV line, honouring quoted fields with embedded commas and doubled quotes
+const splitCsvLine = (line: string): string[] => {
+  const fields: string[] = [];
+  let field = '';
+  let quoted = false;
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    if (quoted) {
+      if (char === '"' && line[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      fields.push(field.trim());
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  fields.push(field.trim());
+  return fields;
+};
+
+const parseCsvNumber = (value: string | undefined): number =>
+  value ? parseFloat(value.replace(/[₹,\s]/g, '')) : NaN;
+
+export interface HoldingsCsvResult {
+  holdings: HoldingInput[];
+  errors: string[]; // One per skipped line
+}
+
+export function parseHoldingsCsv(text: string): HoldingsCsvResult {
+  const lines = text.replace(/^\uFEFF/, '').split(/\r?\n/).filter(line => line.trim().length > 0);
+  // Some exports put a title or account line above the header, so take the first line that names a symbol column
+  const headerIndex = lines.findIndex(line =>
+    splitCsvLine(line).some(cell => CSV_COLUMNS.symbol.includes(normalizeHeader(cell)))
+  );
+  if (headerIndex === -1) {
+    return { holdings: [], errors: ['No symbol column found. Expected a header such as "Symbol", "Instrument" or "Stock".'] };
+  }
+
+  const header = splitCsvLine(lines[headerIndex]).map(normalizeHeader);
+  const columnIndex = (key: keyof typeof CSV_COLUMNS) => header.findIndex(cell => CSV_COLUMNS[key].includes(cell));
+  const columns = {
+    symbol: columnIndex('symbol'),
+    quantity: columnIndex('quantity'),
+    price: columnIndex('price'),
+    side: columnIndex('side'),
+    sector: columnIndex('sector')
+  };
+  if (columns.quantity === -1 || columns.price === -1) {
+    return { holdings: [], errors: ['The CSV needs quantity and average price columns alongside the symbol.'] };
+  }
+
+  const holdings: HoldingInput[] = [];
+  const errors: string[] = [];
+  lines.slice(headerIndex + 1).forEach((line, i) => {
+    const cells = splitCsvLine(line);
+    const lineNumber = headerIndex + i + 2;
+    const symbol = normalizeHoldingSymbol(cells[columns.symbol] || '');
+    // Totals rows at the bottom of broker exports
+    if (!symbol || /^(TOTAL|GRAND TOTAL)$/.test(symbol)) return;
+
+    const quantity = parseCsvNumber(cells[columns.quantity]);
+    const averagePrice = parseCsvNumber(cells[columns.price]);
+    if (!Number.isFinite(quantity) || quantity === 0) {
+      errors.push(`Line ${lineNumber} (${symbol}): no quantity`);
+      return;
+    }
+    if (!Number.isFinite(averagePrice) || averagePrice <= 0) {
+      errors.push(`Line ${lineNumber} (${symbol}): no average price`);
+      return;
+    }
+    const sideCell = columns.side === -1 ? '' : (cells[columns.side] || '').toLowerCase();
+    const side: HoldingSide = quantity < 0 || sideCell.startsWith('short') || sideCell === 'sell' ? 'short' : 'long';
+    holdings.push({
+      symbol,
+      quantity: Math.abs(quantity),
+      averagePrice,
+      side,
+      sector: columns.sector === -1 ? null : cells[columns.sector] || null
+    });
+  });
+
+  if (holdings.length > MAX_HOLDINGS) {
+    errors.push(`Only the first ${MAX_HOLDINGS} holdings were imported.`);
+  }
+  return { holdings: holdings.slice(0, MAX_HOLDINGS), errors };
+}
+
+// ===== PAPER PORTFOLIO =====
+
+export function getPaperHoldingInputs(positions: PaperPosition[]): HoldingInput[] {
+  return positions
+    .filter(position => position.status === 'open' && position.openQuantity > 0 && position.entryPrice !== null)
+    .map(position => ({
+      symbol: position.symbol,
+      quantity: position.openQuantity,
+      averagePrice: position.entryPrice as number,
+      side: position.side
+    }));
+}
+
+// Net holding in one symbol, in the shape analysis requests take for current_holding
+export function getHoldingForSymbol(
+  holdings: PortfolioHolding[],
+  symbol: string
+): AnalysisRequest['current_holding'] {
+  const target = normalizeHoldingSymbol(symbol);
+  const matching = holdings.filter(holding => holding.symbol === target);
+  const net = matching.reduce((sum, holding) => sum + (holding.side === 'long' ? 1 : -1) * holding.quantity, 0);
+  if (net === 0) return null;
+  const side: HoldingSide = net > 0 ? 'long' : 'short';
+  const sided = matching.filter(holding => holding.side === side);
+  const quantity = sided.reduce((sum, holding) => sum + holding.quantity, 0);
+  const cost = sided.reduce((sum, holding) => sum + holding.averagePrice * holding.quantity, 0);
+  return {
+    quantity: Math.abs(net),
+    entry_price: Math.round((cost / quantity) * 100) / 100,
+    position_type: side
+  };
+}
+
+// ===== PORTFOLIO CONTEXT =====
+
+export interface PortfolioContextInputs {
+  holdings: PortfolioHolding[];
+  candidate: { symbol: string; sector: string | null };
+  portfolioValue: number;
+  lookbackDays: number;
+  prices: Record<string, number | undefined>; // Latest close by symbol
+  sectors: Record<string, string | null | undefined>; // Resolved sectors by symbol
+  returns: Record<string, ReturnSeries | undefined>; // Daily returns by symbol
+}
+
+const round = (value: number, digits = 2): number => {
+  const factor = 10 ** digits;
+  return Math.round(value * factor) / factor;
+};
+
+const roundOrNull = (value: number | null, digits = 2): number | null => (value === null ? null : round(value, digits));
+
+// Weighted mean of correlations, by absolute value of each holding
+const weightedCorrelation = (items: { value: number; correlation: number | null }[]): number | null => {
+  const usable = items.filter(item => item.correlation !== null);
+  const total = usable.reduce((sum, item) => sum + Math.abs(item.value), 0);
+  if (total <= 0) return null;
+  return usable.reduce((sum, item) => sum + (item.correlation as number) * Math.abs(item.value), 0) / total;
+};
+
+export function buildPortfolioContext(inputs: PortfolioContextInputs): PortfolioContext {
+  const { candidate, prices, sectors, returns } = inputs;
+  const candidateSymbol = normalizeHoldingSymbol(candidate.symbol);
+  const candidateReturns = returns[candidateSymbol];
+
+  const rawExposures = inputs.holdings.map(holding => {
+    const price = prices[holding.symbol] ?? holding.averagePrice;
+    const sign = holding.side === 'long' ? 1 : -1;
+    return {
+      holding,
+      price,
+      value: sign * holding.quantity * price,
+      sector: holding.sector ?? sectors[holding.symbol] ?? null
+    };
+  });
+  const grossValue = rawExposures.reduce((sum, exposure) => sum + Math.abs(exposure.value), 0);
+  const netValue = rawExposures.reduce((sum, exposure) => sum + exposure.value, 0);
+  const bookValue = Math.max(inputs.portfolioValue, grossValue);
+  const weightOf = (value: number) => (bookValue > 0 ? (value / bookValue) * 100 : 0);
+
+  const holdings: HoldingExposure[] = rawExposures
+    .map(({ holding, price, value, sector }) => {
+      const series = returns[holding.symbol];
+      return {
+        symbol: holding.symbol,
+        sector,
+        side: holding.side,
+        quantity: holding.quantity,
+        price: round(price),
+        value: round(value),
+        weight: round(weightOf(value)),
+        correlation: holding.symbol === candidateSymbol
+          ? 1
+          : series && candidateReturns ? roundOrNull(getReturnCorrelation(series, candidateReturns), 3) : null,
+        volatility: series ? roundOrNull(getAnnualizedVolatility(series)) : null
+      };
+    })
+    .sort((a, b) => Math.abs(b.value) - Math.abs(a.value));
+
+  const bySector = new Map<string, number>();
+  holdings.forEach(holding => {
+    const sector = holding.sector || UNKNOWN_SECTOR;
+    bySector.set(sector, (bySector.get(sector) ?? 0) + holding.value);
+  });
+  const sectorExposure: SectorExposure[] = Array.from(bySector.entries())
+    .map(([sector, value]) => ({ sector, value: round(value), weight: round(weightOf(value)) }))
+    .sort((a, b) => Math.abs(b.value) - Math.abs(a.value));
+
+  const candidateSector = candidate.sector ?? sectors[candidateSymbol] ?? null;
+  const matrixSymbols = Array.from(new Set([
+    candidateSymbol,
+    ...holdings.filter(holding => returns[holding.symbol]).map(holding => holding.symbol)
+  ])).filter(symbol => returns[symbol]);
+
+  return {
+    as_of: new Date().toISOString(),
+    book_value: round(bookValue),
+    gross_exposure: round(weightOf(grossValue)),
+    net_exposure: round(weightOf(netValue)),
+    lookback_days: inputs.lookbackDays,
+    holdings,
+    sector_exposure: sectorExposure,
+    candidate: {
+      symbol: candidateSymbol,
+      sector: candidateSector,
+      volatility: candidateReturns ? roundOrNull(getAnnualizedVolatility(candidateReturns)) : null,
+      average_correlation: roundOrNull(
+        weightedCorrelation(holdings.filter(holding => holding.symbol !== candidateSymbol)),
+        3
+      ),
+      sector_weight: round(sectorExposure.find(exposure => exposure.sector === (candidateSector || UNKNOWN_SECTOR))?.weight ?? 0)
+    },
+    correlation_matrix: {
+      symbols: matrixSymbols,
+      values: matrixSymbols.map(a => matrixSymbols.map(b =>
+        a === b ? 1 : roundOrNull(getReturnCorrelation(returns[a] as ReturnSeries, returns[b] as ReturnSeries), 3)
+      ))
+    }
+  };
+}
+
+// ===== CONCENTRATION IMPACT =====
+
+export interface ProposedPosition {
+  side: HoldingSide;
+  quantity: number;
+  price: number;
+}
+
+export interface BookSnapshot {
+  positionWeight: number; // Analysed stock, % of the book
+  sectorWeight: number; // Its sector, % of the book
+  largestWeight: number; // Largest single name by absolute weight
+  largestSymbol: string | null;
+  effectivePositions: number | null;
+  volatility: number | null; // Annualised book volatility, %
+  grossExposure: number;
+}
+
+export interface ConcentrationImpact {
+  proposedValue: number;
+  proposedWeight: number;
+  before: BookSnapshot;
+  after: BookSnapshot;
+  sectorBefore: SectorExposure[];
+  sectorAfter: SectorExposure[];
+}
+
+const snapshotBook = (
+  context: PortfolioContext,
+  values: Map<string, number>,
+  sectorOf: (symbol: string) => string
+): BookSnapshot => {
+  const book = context.book_value;
+  const weight = (value: number) => (book > 0 ? (value / book) * 100 : 0);
+  const symbol = context.candidate.symbol;
+  const sector = sectorOf(symbol);
+
+  let largestSymbol: string | null = null;
+  let largestValue = 0;
+  let sectorValue = 0;
+  let grossValue = 0;
+  values.forEach((value, name) => {
+    grossValue += Math.abs(value);
+    if (sectorOf(name) === sector) sectorValue += value;
+    if (Math.abs(value) > Math.abs(largestValue)) {
+      largestValue = value;
+      largestSymbol = name;
+    }
+  });
+
+  const { symbols, values: matrix } = context.correlation_matrix;
+  const volatilities = symbols.map(name =>
+    name === symbol ? context.candidate.volatility : context.holdings.find(h => h.symbol === name)?.volatility ?? null
+  );
+  const weights = symbols.map(name => (book > 0 ? (values.get(name) ?? 0) / book : 0));
+
+  return {
+    positionWeight: weight(values.get(symbol) ?? 0),
+    sectorWeight: weight(sectorValue),
+    largestWeight: weight(Math.abs(largestValue)),
+    largestSymbol,
+    effectivePositions: getEffectivePositions(Array.from(values.values())),
+    volatility: getPortfolioVolatility(weights, volatilities, matrix),
+    grossExposure: weight(grossValue)
+  };
+};
+
+const sectorExposureOf = (
+  context: PortfolioContext,
+  values: Map<string, number>,
+  sectorOf: (symbol: string) => string
+): SectorExposure[] => {
+  const bySector = new Map<string, number>();
+  values.forEach((value, name) => bySector.set(sectorOf(name), (bySector.get(sectorOf(name)) ?? 0) + value));
+  return Array.from(bySector.entries())
+    .map(([sector, value]) => ({
+      sector,
+      value,
+      weight: context.book_value > 0 ? (value / context.book_value) * 100 : 0
+    }))
+    .sort((a, b) => Math.abs(b.value) - Math.abs(a.value));
+};
+
+// How the book's concentration and volatility change if the proposed position is added.
+// The book value stays fixed: the new position is funded from cash, so gross exposure rises.
+export function getConcentrationImpact(context: PortfolioContext, proposed: ProposedPosition): ConcentrationImpact {
+  const sectorBySymbol = new Map(context.holdings.map(holding => [holding.symbol, holding.sector || UNKNOWN_SECTOR]));
+  sectorBySymbol.set(context.candidate.symbol, context.candidate.sector || UNKNOWN_SECTOR);
+  const sectorOf = (symbol: string) => sectorBySymbol.get(symbol) ?? UNKNOWN_SECTOR;
+
+  const before = new Map<string, number>();
+  context.holdings.forEach(holding => before.set(holding.symbol, (before.get(holding.symbol) ?? 0) + holding.value));
+  const proposedValue = (proposed.side === 'long' ? 1 : -1) * proposed.quantity * proposed.price;
+  const after = new Map(before);
+  after.set(context.candidate.symbol, (after.get(context.candidate.symbol) ?? 0) + proposedValue);
+
+  return {
+    proposedValue,
+    proposedWeight: context.book_value > 0 ? (proposedValue / context.book_value) * 100 : 0,
+    before: snapshotBook(context, before, sectorOf),
+    after: snapshotBook(context, after, sectorOf),
+    sectorBefore: sectorExposureOf(context, before, sectorOf),
+    sectorAfter: sectorExposureOf(context, after, sectorOf)
+  };
+}
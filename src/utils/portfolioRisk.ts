@@ -0,0 +1,178 @@
+import { CandleData } from '@/services/api';
+import { getISTDayKey } from '@/utils/candleResampler';
+import { DrawdownPoint } from '@/types/portfolioRisk';
+
+// Daily-return statistics shared by the portfolio context and risk views. Series are aligned on
+// IST trading days so a symbol that missed a session doesn't shift every later return.
+
+export const TRADING_DAYS_PER_YEAR = 252;
+// Fewer overlapping returns than this and a correlation is mostly noise
+export const MIN_OVERLAPPING_RETURNS = 20;
+
+export type ReturnSeries = Map<number, number>; // IST day key -> simple daily return
+
+export function getDailyReturns(candles: CandleData[]): ReturnSeries {
+  const returns: ReturnSeries = new Map();
+  for (let i = 1; i < candles.length; i++) {
+    const previous = candles[i - 1].close;
+    if (previous > 0 && candles[i].close > 0) {
+      returns.set(getISTDayKey(candles[i].time), candles[i].close / previous - 1);
+    }
+  }
+  return returns;
+}
+
+// Closing price per IST trading day
+export function getDailyCloses(candles: CandleData[]): Map<number, number> {
+  const closes = new Map<number, number>();
+  candles.forEach(candle => {
+    if (candle.close > 0) closes.set(getISTDayKey(candle.time), candle.close);
+  });
+  return closes;
+}
+
+// Days present in every series, oldest first
+export function getCommonDays(series: ReturnSeries[]): number[] {
+  if (series.length === 0) return [];
+  return Array.from(series[0].keys())
+    .filter(day => series.every(s => s.has(day)))
+    .sort((a, b) => a - b);
+}
+
+const mean = (values: number[]): number => values.reduce((sum, value) => sum + value, 0) / values.length;
+
+export function getCovariance(a: number[], b: number[]): number | null {
+  if (a.length !== b.length || a.length < 2) return null;
+  const meanA = mean(a);
+  const meanB = mean(b);
+  let sum = 0;
+  for (let i = 0; i < a.length; i++) sum += (a[i] - meanA) * (b[i] - meanB);
+  return sum / (a.length - 1);
+}
+
+// Pearson correlation over the days both series traded
+export function getReturnCorrelation(a: ReturnSeries, b: ReturnSeries): number | null {
+  const days = getCommonDays([a, b]);
+  if (days.length < MIN_OVERLAPPING_RETURNS) return null;
+  const x = days.map(day => a.get(day) as number);
+  const y = days.map(day => b.get(day) as number);
+  const covariance = getCovariance(x, y);
+  const varX = getCovariance(x, x);
+  const varY = getCovariance(y, y);
+  if (covariance === null || !varX || !varY) return null;
+  return Math.max(-1, Math.min(1, covariance / Math.sqrt(varX * varY)));
+}
+
+// Annualised standard deviation of daily returns, in %
+export function getAnnualizedVolatility(series: ReturnSeries): number | null {
+  const values = Array.from(series.values());
+  if (values.length < MIN_OVERLAPPING_RETURNS) return null;
+  const variance = getCovariance(values, values);
+  return variance === null ? null : Math.sqrt(variance * TRADING_DAYS_PER_YEAR) * 100;
+}
+
+// Annualised volatility of a book from signed weights (fractions), per-name volatility (%) and
+// pairwise correlations. Names without a volatility are left out; a missing correlation counts as zero.
+export function getPortfolioVolatility(
+  weights: number[],
+  volatilities: (number | null)[],
+  correlations: (number | null)[][]
+): number | null {
+  let variance = 0;
+  let covered = 0;
+  for (let i = 0; i < weights.length; i++) {
+    const volI = volatilities[i];
+    if (volI === null) continue;
+    covered += 1;
+    for (let j = 0; j < weights.length; j++) {
+      const volJ = volatilities[j];
+      if (volJ === null) continue;
+      const correlation = i === j ? 1 : correlations[i]?.[j] ?? 0;
+      variance += weights[i] * weights[j] * (volI / 100) * (volJ / 100) * correlation;
+    }
+  }
+  return covered > 0 ? Math.sqrt(Math.max(0, variance)) * 100 : null;
+}
+
+// Herfindahl index of gross weights; 1 / HHI reads as the number of equally sized positions
+export function getEffectivePositions(values: number[]): number | null {
+  const gross = values.reduce((sum, value) => sum + Math.abs(value), 0);
+  if (gross <= 0) return null;
+  const hhi = values.reduce((sum, value) => sum + (value / gross) ** 2, 0);
+  return hhi > 0 ? 1 / hhi : null;
+}
+
+// ===== VALUE AT RISK =====
+
+// One-sided normal quantiles for the usual VaR confidence levels
+const NORMAL_QUANTILES: Record<number, number> = { 0.95: 1.6449, 0.99: 2.3263 };
+
+const normalDensity = (z: number): number => Math.exp(-0.5 * z * z) / Math.sqrt(2 * Math.PI);
+
+// Standard normal CDF (Abramowitz & Stegun 26.2.17, error below 1e-7)
+export function getNormalProbability(z: number): number {
+  const t = 1 / (1 + 0.2316419 * Math.abs(z));
+  const tail = normalDensity(z) * t * (0.31938153 + t * (-0.356563782 + t * (1.781477937 + t * (-1.821255978 + t * 1.330274429))));
+  return z >= 0 ? 1 - tail : tail;
+}
+
+export interface ValueAtRisk {
+  var: number;  // loss not exceeded at the confidence level, positive
+  cvar: number; // average loss beyond the VaR, positive
+}
+
+// Historical simulation: the loss quantile of the observed P&L and the mean of the tail past it
+export function getHistoricalVaR(pnl: number[], confidence: number): ValueAtRisk | null {
+  if (pnl.length < MIN_OVERLAPPING_RETURNS) return null;
+  const sorted = [...pnl].sort((a, b) => a - b);
+  const tailCount = Math.max(1, Math.floor(sorted.length * (1 - confidence)));
+  const tail = sorted.slice(0, tailCount);
+  return { var: -sorted[tailCount - 1], cvar: -mean(tail) };
+}
+
+// Variance-covariance VaR on a normal P&L with the given daily mean and standard deviation
+export function getParametricVaR(meanPnl: number, stdPnl: number, confidence: number): ValueAtRisk {
+  const z = NORMAL_QUANTILES[confidence] ?? 1.6449;
+  return {
+    var: z * stdPnl - meanPnl,
+    cvar: (stdPnl * normalDensity(z)) / (1 - confidence) - meanPnl
+  };
+}
+
+// ===== RISK DECOMPOSITION =====
+
+// Sample covariance of aligned return rows (one row per symbol)
+export function getCovarianceMatrix(rows: number[][]): number[][] {
+  return rows.map(a => rows.map(b => getCovariance(a, b) ?? 0));
+}
+
+// Slope of a series against the market over the same days
+export function getBeta(series: number[], market: number[]): number | null {
+  const covariance = getCovariance(series, market);
+  const variance = getCovariance(market, market);
+  return covariance === null || !variance ? null : covariance / variance;
+}
+
+export interface RiskContribution {
+  marginal: number;  // change in P&L standard deviation per rupee added to the position
+  component: number; // share of P&L variance, sums to 1 across the book
+}
+
+// Euler decomposition of the P&L standard deviation sqrt(v' Σ v) over positions with rupee values v
+export function getRiskContributions(values: number[], covariance: number[][]): RiskContribution[] {
+  const product = values.map((_, i) => values.reduce((sum, value, j) => sum + covariance[i][j] * value, 0));
+  const variance = values.reduce((sum, value, i) => sum + value * product[i], 0);
+  if (variance <= 0) return values.map(() => ({ marginal: 0, component: 0 }));
+  const std = Math.sqrt(variance);
+  return values.map((value, i) => ({ marginal: product[i] / std, component: (value * product[i]) / variance }));
+}
+
+// ===== DRAWDOWN =====
+
+export function getDrawdownSeries(points: { time: number; value: number }[]): DrawdownPoint[] {
+  let peak = -Infinity;
+  return points.map(point => {
+    peak = Math.max(peak, point.value);
+    return { ...point, drawdownPct: peak > 0 ? (point.value / peak - 1) * 100 : 0 };
+  });
+}
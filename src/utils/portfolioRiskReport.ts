@@ -0,0 +1,362 @@
+import { CandleData } from '@/services/api';
+import { ScenarioResult, StressScenario } from '@/types/analysis';
+import { PortfolioHolding } from '@/types/portfolio';
+import { ExcludedHolding, PortfolioRiskReport, PositionRisk, RiskConfidence, VarEstimate } from '@/types/portfolioRisk';
+import { UNKNOWN_SECTOR } from '@/utils/portfolioHoldings';
+import {
+  MIN_OVERLAPPING_RETURNS,
+  ReturnSeries,
+  TRADING_DAYS_PER_YEAR,
+  getBeta,
+  getCommonDays,
+  getCovariance,
+  getCovarianceMatrix,
+  getDailyCloses,
+  getDailyReturns,
+  getDrawdownSeries,
+  getHistoricalVaR,
+  getNormalProbability,
+  getParametricVaR,
+  getReturnCorrelation,
+  getRiskContributions
+} from '@/utils/portfolioRisk';
+
+// Builds the portfolio risk report from the holdings and their daily candles. Every statistic uses
+// the sessions all modelled holdings traded, with today's quantities held fixed through the lookback.
+
+// ===== CONSTANTS =====
+
+// Largest positions (by cost) that get candles; the rest are listed as not modelled
+export const MAX_RISK_HOLDINGS = 40;
+export const RISK_CONFIDENCES: RiskConfidence[] = [0.95, 0.99];
+// A holding with less history than this share of the longest series would shrink the common window
+const MIN_HISTORY_SHARE = 0.75;
+const SESSIONS_PER_MONTH = 21;
+const Z_95 = 1.6449;
+const SECTOR_SHOCK = -0.15;
+const MARKET_SHOCKS = [-0.05, -0.1, -0.2];
+const WORST_RUN_SESSIONS = 5;
+const SECONDS_PER_DAY = 86400;
+
+export interface PortfolioRiskInputs {
+  holdings: PortfolioHolding[];
+  candles: Record<string, CandleData[] | undefined>; // Daily candles by symbol; missing when not fetched
+  benchmark: string;
+  benchmarkCandles: CandleData[] | null;
+  sectors: Record<string, string | null | undefined>; // Resolved sectors by symbol
+  lookbackDays: number;
+}
+
+interface ModelledHolding {
+  symbol: string;
+  sector: string;
+  signedQuantity: number;
+  price: number;
+  value: number;
+  closes: Map<number, number>;
+  returns: ReturnSeries;
+}
+
+const round = (value: number, digits = 2): number => {
+  const factor = 10 ** digits;
+  return Math.round(value * factor) / factor;
+};
+
+const roundOrNull = (value: number | null, digits = 2): number | null => (value === null ? null : round(value, digits));
+
+const mean = (values: number[]): number => values.reduce((sum, value) => sum + value, 0) / values.length;
+
+// Same bands the single-stock risk card uses for a fractional impact
+const getImpactRiskLevel = (impact: number): string =>
+  Math.abs(impact) > 0.15 ? 'high' : Math.abs(impact) > 0.08 ? 'medium' : 'low';
+
+const formatLoss = (value: number): string =>
+  `₹${Math.abs(value).toLocaleString('en-IN', { maximumFractionDigits: 0 })} ${value < 0 ? 'loss' : 'gain'}`;
+
+const formatDay = (day: number): string =>
+  new Date(day * SECONDS_PER_DAY * 1000).toLocaleDateString('en-IN', { day: 'numeric', month: 'short', year: 'numeric', timeZone: 'UTC' });
+
+// Holdings netted per symbol and valued at their latest close; symbols without usable history are excluded
+function getModelledHoldings(inputs: PortfolioRiskInputs): { modelled: ModelledHolding[]; excluded: ExcludedHolding[] } {
+  const netted = new Map<string, { signedQuantity: number; sector: string | null }>();
+  inputs.holdings.forEach(holding => {
+    const current = netted.get(holding.symbol) ?? { signedQuantity: 0, sector: null };
+    netted.set(holding.symbol, {
+      signedQuantity: current.signedQuantity + (holding.side === 'long' ? 1 : -1) * holding.quantity,
+      sector: current.sector ?? holding.sector ?? inputs.sectors[holding.symbol] ?? null
+    });
+  });
+
+  const excluded: ExcludedHolding[] = [];
+  const candidates: ModelledHolding[] = [];
+  netted.forEach(({ signedQuantity, sector }, symbol) => {
+    if (signedQuantity === 0) return;
+    const candles = inputs.candles[symbol];
+    if (!candles || candles.length < 2) {
+      excluded.push({ symbol, reason: candles ? 'No price history' : `Outside the ${MAX_RISK_HOLDINGS} largest positions` });
+      return;
+    }
+    const price = candles[candles.length - 1].close;
+    candidates.push({
+      symbol,
+      sector: sector || UNKNOWN_SECTOR,
+      signedQuantity,
+      price,
+      value: signedQuantity * price,
+      closes: getDailyCloses(candles),
+      returns: getDailyReturns(candles)
+    });
+  });
+
+  const longest = Math.max(0, ...candidates.map(holding => holding.returns.size));
+  const modelled = candidates.filter(holding => {
+    if (holding.returns.size >= Math.max(MIN_OVERLAPPING_RETURNS, longest * MIN_HISTORY_SHARE)) return true;
+    excluded.push({ symbol: holding.symbol, reason: `Only ${holding.returns.size} sessions of history` });
+    return false;
+  });
+  return { modelled, excluded };
+}
+
+// ===== STRESS SCENARIOS =====
+
+function getStressScenarios(
+  modelled: ModelledHolding[],
+  betas: (number | null)[],
+  rows: number[][],
+  pnl: number[],
+  days: number[],
+  covariance: number[][],
+  grossExposure: number,
+  benchmark: string,
+  marketDailyStd: number | null
+): StressScenario[] {
+  const scenarios: StressScenario[] = [];
+  const monthlyProbability = (shock: number, dailyStd: number | null): number =>
+    dailyStd ? getNormalProbability(shock / (dailyStd * Math.sqrt(SESSIONS_PER_MONTH))) : 0;
+
+  // Market moves passed through each position's beta; no beta counts as moving with the market
+  MARKET_SHOCKS.forEach(shock => {
+    const change = modelled.reduce((sum, holding, i) => sum + holding.value * (betas[i] ?? 1) * shock, 0);
+    const impact = change / grossExposure;
+    scenarios.push({
+      scenario_name: `${benchmark} ${(shock * 100).toFixed(0)}%`,
+      impact: round(impact, 4),
+      probability: round(monthlyProbability(shock, marketDailyStd), 4),
+      risk_level: getImpactRiskLevel(impact),
+      description: `Market falls ${Math.abs(shock * 100).toFixed(0)}% within a month and each holding moves by its beta: ${formatLoss(change)}`
+    });
+  });
+
+  // The biggest sector exposure sells off on its own
+  const bySector = new Map<string, number[]>();
+  modelled.forEach((holding, i) => bySector.set(holding.sector, [...(bySector.get(holding.sector) ?? []), i]));
+  const [sector, members] = Array.from(bySector.entries())
+    .sort((a, b) => b[1].reduce((sum, i) => sum + Math.abs(modelled[i].value), 0) - a[1].reduce((sum, i) => sum + Math.abs(modelled[i].value), 0))[0];
+  const sectorGross = members.reduce((sum, i) => sum + Math.abs(modelled[i].value), 0);
+  const sectorPnl = days.map((_, t) => members.reduce((sum, i) => sum + modelled[i].value * rows[i][t], 0) / sectorGross);
+  const sectorChange = members.reduce((sum, i) => sum + modelled[i].value * SECTOR_SHOCK, 0);
+  const sectorVariance = getCovariance(sectorPnl, sectorPnl);
+  scenarios.push({
+    scenario_name: `${sector} ${(SECTOR_SHOCK * 100).toFixed(0)}%`,
+    impact: round(sectorChange / grossExposure, 4),
+    probability: round(monthlyProbability(SECTOR_SHOCK, sectorVariance ? Math.sqrt(sectorVariance) : null), 4),
+    risk_level: getImpactRiskLevel(sectorChange / grossExposure),
+    description: `Your largest sector (${members.length} holdings) falls ${Math.abs(SECTOR_SHOCK * 100)}% while the rest hold: ${formatLoss(sectorChange)}`
+  });
+
+  // Replays of the worst stretches the current book would have lived through
+  const worstDay = pnl.reduce((worst, value, t) => (value < pnl[worst] ? t : worst), 0);
+  scenarios.push({
+    scenario_name: 'Worst Session Replay',
+    impact: round(pnl[worstDay] / grossExposure, 4),
+    probability: round(1 / pnl.length, 4),
+    risk_level: getImpactRiskLevel(pnl[worstDay] / grossExposure),
+    description: `Today's holdings on ${formatDay(days[worstDay])}: ${formatLoss(pnl[worstDay])}`
+  });
+
+  if (pnl.length > WORST_RUN_SESSIONS) {
+    let worstStart = 0;
+    let worstRun = Infinity;
+    for (let t = 0; t + WORST_RUN_SESSIONS <= pnl.length; t++) {
+      const run = pnl.slice(t, t + WORST_RUN_SESSIONS).reduce((sum, value) => sum + value, 0);
+      if (run < worstRun) {
+        worstRun = run;
+        worstStart = t;
+      }
+    }
+    scenarios.push({
+      scenario_name: `Worst ${WORST_RUN_SESSIONS}-Session Replay`,
+      impact: round(worstRun / grossExposure, 4),
+      probability: round(1 / (pnl.length - WORST_RUN_SESSIONS + 1), 4),
+      risk_level: getImpactRiskLevel(worstRun / grossExposure),
+      description: `Sessions from ${formatDay(days[worstStart])}: ${formatLoss(worstRun)}`
+    });
+  }
+
+  // Diversification and hedges disappear: every position moves against the book at its own volatility
+  const undiversifiedStd = modelled.reduce((sum, holding, i) => sum + Math.abs(holding.value) * Math.sqrt(covariance[i][i]), 0);
+  scenarios.push({
+    scenario_name: 'Correlations Go To One',
+    impact: round(-(Z_95 * undiversifiedStd) / grossExposure, 4),
+    probability: 0.05,
+    risk_level: getImpactRiskLevel((Z_95 * undiversifiedStd) / grossExposure),
+    description: `95% one-session loss if every position moved against you at once: ${formatLoss(-Z_95 * undiversifiedStd)}`
+  });
+
+  return scenarios;
+}
+
+// Monthly outcomes on a normal P&L, shaped like the analysis' scenario results
+function getScenarioResults(meanReturn: number, dailyStd: number): ScenarioResult[] {
+  const monthlyMean = meanReturn * SESSIONS_PER_MONTH;
+  const monthlyStd = dailyStd * Math.sqrt(SESSIONS_PER_MONTH);
+  if (monthlyStd <= 0) return [];
+  const lossProbability = (loss: number) => getNormalProbability((-loss - monthlyMean) / monthlyStd);
+  const monthlyVar = Z_95 * monthlyStd - monthlyMean;
+  const loss10 = lossProbability(0.1);
+  const loss20 = lossProbability(0.2);
+  const positive = 1 - getNormalProbability(-monthlyMean / monthlyStd);
+
+  return [
+    {
+      scenario_name: '1-Month 95% VaR',
+      outcome: 'Loss not exceeded in 19 months out of 20',
+      probability: 0.05,
+      impact: round(-monthlyVar, 4),
+      risk_level: getImpactRiskLevel(monthlyVar)
+    },
+    {
+      scenario_name: '10% Monthly Loss Risk',
+      outcome: 'Probability of losing more than 10% in a month',
+      probability: round(loss10, 4),
+      impact: -0.1,
+      risk_level: loss10 > 0.15 ? 'high' : loss10 > 0.08 ? 'medium' : 'low'
+    },
+    {
+      scenario_name: '20% Monthly Loss Risk',
+      outcome: 'Probability of losing more than 20% in a month',
+      probability: round(loss20, 4),
+      impact: -0.2,
+      risk_level: loss20 > 0.1 ? 'high' : loss20 > 0.05 ? 'medium' : 'low'
+    },
+    {
+      scenario_name: 'Positive Month Odds',
+      outcome: 'Probability of a positive month',
+      probability: round(positive, 4),
+      impact: round(monthlyMean, 4),
+      risk_level: positive < 0.5 ? 'high' : positive < 0.65 ? 'medium' : 'low'
+    }
+  ];
+}
+
+// ===== REPORT =====
+
+// Null when the modelled holdings share too few sessions to estimate anything
+export function buildPortfolioRiskReport(inputs: PortfolioRiskInputs): PortfolioRiskReport | null {
+  const { modelled: eligible, excluded } = getModelledHoldings(inputs);
+  const modelled = [...eligible].sort((a, b) => Math.abs(b.value) - Math.abs(a.value));
+
+  const days = getCommonDays(modelled.map(holding => holding.returns));
+  if (modelled.length === 0 || days.length < MIN_OVERLAPPING_RETURNS) return null;
+
+  const values = modelled.map(holding => holding.value);
+  const grossExposure = values.reduce((sum, value) => sum + Math.abs(value), 0);
+  const netExposure = values.reduce((sum, value) => sum + value, 0);
+  const rows = modelled.map(holding => days.map(day => holding.returns.get(day) as number));
+  const pnl = days.map((_, t) => values.reduce((sum, value, i) => sum + value * rows[i][t], 0));
+  const portfolioReturns = pnl.map(value => value / grossExposure);
+
+  // Daily covariance of returns drives the decomposition; P&L variance is v' Σ v
+  const covariance = getCovarianceMatrix(rows);
+  const contributions = getRiskContributions(values, covariance);
+  const pnlVariance = values.reduce((sum, a, i) => sum + values.reduce((inner, b, j) => inner + a * b * covariance[i][j], 0), 0);
+  const pnlStd = Math.sqrt(Math.max(0, pnlVariance));
+  const meanPnl = mean(pnl);
+
+  // Betas over the sessions the benchmark also traded
+  const benchmarkReturns = inputs.benchmarkCandles ? getDailyReturns(inputs.benchmarkCandles) : null;
+  const marketDays = benchmarkReturns ? days.map((day, t) => ({ day, t })).filter(({ day }) => benchmarkReturns.has(day)) : [];
+  const hasMarket = benchmarkReturns !== null && marketDays.length >= MIN_OVERLAPPING_RETURNS;
+  const market = hasMarket ? marketDays.map(({ day }) => benchmarkReturns.get(day) as number) : [];
+  const betas = modelled.map((_, i) => (hasMarket ? getBeta(marketDays.map(({ t }) => rows[i][t]), market) : null));
+  const portfolioOnMarket = marketDays.map(({ t }) => portfolioReturns[t]);
+  const marketVariance = hasMarket ? getCovariance(market, market) : null;
+  const portfolioSeries: ReturnSeries = new Map(days.map((day, t) => [day, portfolioReturns[t]]));
+
+  const varEstimates: VarEstimate[] = RISK_CONFIDENCES.map(confidence => {
+    const historical = getHistoricalVaR(pnl, confidence);
+    const parametric = getParametricVaR(meanPnl, pnlStd, confidence);
+    return {
+      confidence,
+      historicalVar: round(historical?.var ?? 0),
+      historicalCvar: round(historical?.cvar ?? 0),
+      parametricVar: round(parametric.var),
+      parametricCvar: round(parametric.cvar)
+    };
+  });
+
+  // Component VaR splits the parametric 95% VaR so the positions add up to it
+  const parametricVar95 = getParametricVaR(meanPnl, pnlStd, 0.95).var;
+  const positions: PositionRisk[] = modelled.map((holding, i) => ({
+    symbol: holding.symbol,
+    sector: holding.sector,
+    side: holding.signedQuantity > 0 ? 'long' : 'short',
+    quantity: Math.abs(holding.signedQuantity),
+    price: round(holding.price),
+    value: round(holding.value),
+    weight: round((holding.value / grossExposure) * 100),
+    volatility: round(Math.sqrt(covariance[i][i] * TRADING_DAYS_PER_YEAR) * 100),
+    beta: roundOrNull(betas[i]),
+    marginalVar: round(Z_95 * contributions[i].marginal, 4),
+    componentVar: round(parametricVar95 * contributions[i].component),
+    riskContribution: round(contributions[i].component * 100)
+  }));
+
+  // Today's quantities valued on every session they all traded, starting from their gross value then
+  const allCloseDays = getCommonDays(modelled.map(holding => holding.closes));
+  const closeDays = allCloseDays.slice(Math.max(0, allCloseDays.filter(day => day < days[0]).length - 1));
+  const startCloses = modelled.map(holding => holding.closes.get(closeDays[0]) as number);
+  const startValue = modelled.reduce((sum, holding, i) => sum + Math.abs(holding.signedQuantity) * startCloses[i], 0);
+  const drawdown = getDrawdownSeries(closeDays.map(day => ({
+    time: day * SECONDS_PER_DAY,
+    value: round(modelled.reduce(
+      (sum, holding, i) => sum + holding.signedQuantity * ((holding.closes.get(day) as number) - startCloses[i]),
+      startValue
+    ))
+  })));
+
+  return {
+    asOf: new Date().toISOString(),
+    benchmark: inputs.benchmark,
+    lookbackDays: inputs.lookbackDays,
+    observations: days.length,
+    grossExposure: round(grossExposure),
+    netExposure: round(netExposure),
+    positions,
+    excluded,
+    correlation: rows.map((a, i) => rows.map((b, j) => {
+      if (i === j) return 1;
+      const scale = Math.sqrt(covariance[i][i] * covariance[j][j]);
+      return scale > 0 ? round(covariance[i][j] / scale, 3) : null;
+    })),
+    covariance: covariance.map(row => row.map(value => round(value * TRADING_DAYS_PER_YEAR * 10000, 2))),
+    volatility: round((pnlStd / grossExposure) * Math.sqrt(TRADING_DAYS_PER_YEAR) * 100),
+    beta: hasMarket ? roundOrNull(getBeta(portfolioOnMarket, market)) : null,
+    benchmarkCorrelation: hasMarket ? roundOrNull(getReturnCorrelation(portfolioSeries, benchmarkReturns), 3) : null,
+    var: varEstimates,
+    drawdown,
+    maxDrawdown: round(Math.min(0, ...drawdown.map(point => point.drawdownPct))),
+    stressScenarios: getStressScenarios(
+      modelled,
+      betas,
+      rows,
+      pnl,
+      days,
+      covariance,
+      grossExposure,
+      inputs.benchmark,
+      marketVariance ? Math.sqrt(marketVariance) : null
+    ),
+    scenarioResults: getScenarioResults(mean(portfolioReturns), pnlStd / grossExposure)
+  };
+}
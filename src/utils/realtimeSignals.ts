@@ -0,0 +1,144 @@
+// Indicator-vote signal for the latest bars of a symbol, scored in the browser by indicatorVoteService.
+// Each indicator casts a bullish (+1), bearish (-1) or neutral (0) vote; the average decides the call.
+import type { IndicatorData, IndicatorsResponse } from '@/services/api';
+import { SignalBias, getSignalBias } from '@/utils/analysisSummary';
+import { INDICATOR_SNAPSHOT_SOURCE } from '@/utils/analysisModes';
+
+export interface RealtimeSnapshot {
+  signal: string; // buy | sell | hold
+  confidence: number; // 0-100
+  indicators: Record<string, number>;
+  timestamp: string; // ISO time of the bar the snapshot was read from
+}
+
+// A change of call between two consecutive snapshots
+export interface SignalFlip {
+  time: number; // Unix seconds of the snapshot that flipped
+  from: SignalBias;
+  to: SignalBias;
+  signal: string;
+  confidence: number;
+}
+
+// Average vote needed for a buy / sell call
+const CALL_THRESHOLD = 0.5;
+
+// Indicator arrays can be shorter than the timestamps (warm-up bars dropped), so read back from the end
+const valueAt = (values: number[] | undefined, back: number): number | null => {
+  if (!Array.isArray(values)) return null;
+  const value = values[values.length - 1 - back];
+  return typeof value === 'number' && Number.isFinite(value) ? value : null;
+};
+
+const toIso = (timestamp: number | undefined): string => {
+  if (typeof timestamp !== 'number' || !Number.isFinite(timestamp)) return new Date().toISOString();
+  // The analysis service sends seconds; tolerate milliseconds
+  return new Date(timestamp > 1e12 ? timestamp : timestamp * 1000).toISOString();
+};
+
+const compare = (a: number | null, b: number | null): number | null =>
+  a === null || b === null || a === b ? null : a > b ? 1 : -1;
+
+// Snapshot of the bar `back` bars before the latest one
+export function scoreIndicatorsAt(indicators: IndicatorData, timestamps: number[], back = 0): RealtimeSnapshot | null {
+  const values: Record<string, number | null> = {
+    rsi: valueAt(indicators.rsi, back),
+    macd: valueAt(indicators.macd?.macd, back),
+    macd_signal: valueAt(indicators.macd?.signal, back),
+    macd_histogram: valueAt(indicators.macd?.histogram, back),
+    ema_12: valueAt(indicators.ema?.ema_12, back),
+    ema_26: valueAt(indicators.ema?.ema_26, back),
+    sma_20: valueAt(indicators.sma?.sma_20, back),
+    sma_50: valueAt(indicators.sma?.sma_50, back),
+    sma_200: valueAt(indicators.sma?.sma_200, back),
+    bb_upper: valueAt(indicators.bollinger_bands?.upper, back),
+    bb_lower: valueAt(indicators.bollinger_bands?.lower, back)
+  };
+
+  const votes: number[] = [];
+  if (values.rsi !== null) {
+    // Only the extremes vote; mid-range RSI says nothing about direction
+    if (values.rsi < 30) votes.push(1);
+    else if (values.rsi > 70) votes.push(-1);
+    else votes.push(0);
+  }
+  [
+    values.macd_histogram !== null ? compare(values.macd_histogram, 0) : null,
+    compare(values.ema_12, values.ema_26),
+    compare(values.sma_20, values.sma_50),
+    compare(values.sma_50, values.sma_200)
+  ].forEach(vote => {
+    if (vote !== null) votes.push(vote);
+  });
+  if (votes.length === 0) return null;
+
+  const score = votes.reduce((sum, vote) => sum + vote, 0) / votes.length;
+  const signal = score >= CALL_THRESHOLD ? 'buy' : score <= -CALL_THRESHOLD ? 'sell' : 'hold';
+  const strength = Math.abs(score) * 100;
+
+  return {
+    signal,
+    confidence: Math.round(signal === 'hold' ? 100 - strength : strength),
+    indicators: Object.fromEntries(
+      Object.entries(values).filter((entry): entry is [string, number] => entry[1] !== null)
+    ),
+    timestamp: toIso(timestamps[timestamps.length - 1 - back])
+  };
+}
+
+// Oldest first, one snapshot per bar for the last `limit` bars
+export function buildRealtimeHistory(response: IndicatorsResponse, limit: number): RealtimeSnapshot[] {
+  const timestamps = response.timestamps || [];
+  const snapshots: RealtimeSnapshot[] = [];
+  for (let back = Math.min(limit, Math.max(timestamps.length, 1)) - 1; back >= 0; back--) {
+    const snapshot = scoreIndicatorsAt(response.indicators || {}, timestamps, back);
+    if (snapshot) snapshots.push(snapshot);
+  }
+  return snapshots;
+}
+
+// Adds new snapshots to a rolling history: one entry per bar (newest wins), oldest first, at most `max`
+export function mergeRealtimeHistory(history: RealtimeSnapshot[], incoming: RealtimeSnapshot[], max: number): RealtimeSnapshot[] {
+  const byTime = new Map<string, RealtimeSnapshot>();
+  [...history, ...incoming].forEach(snapshot => byTime.set(snapshot.timestamp, snapshot));
+  return Array.from(byTime.values())
+    .sort((a, b) => Date.parse(a.timestamp) - Date.parse(b.timestamp))
+    .slice(-max);
+}
+
+export function findSignalFlips(history: RealtimeSnapshot[]): SignalFlip[] {
+  const flips: SignalFlip[] = [];
+  for (let i = 1; i < history.length; i++) {
+    const from = getSignalBias(history[i - 1].signal);
+    const to = getSignalBias(history[i].signal);
+    if (from === to) continue;
+    flips.push({
+      time: Math.floor(Date.parse(history[i].timestamp) / 1000),
+      from,
+      to,
+      signal: history[i].signal,
+      confidence: history[i].confidence
+    });
+  }
+  return flips;
+}
+
+// analysis_data for a pinned snapshot, in the fields the history list and signal summaries read
+export function buildSnapshotAnalysisData(symbol: string, interval: string, snapshot: RealtimeSnapshot) {
+  return {
+    analysis_mode: 'indicator_snapshot',
+    source: INDICATOR_SNAPSHOT_SOURCE,
+    stock_symbol: symbol,
+    interval,
+    summary: {
+      overall_signal: snapshot.signal,
+      confidence: snapshot.confidence
+    },
+    ai_analysis: {
+      trend: getSignalBias(snapshot.signal),
+      confidence_pct: snapshot.confidence,
+      meta: { analysis_date: snapshot.timestamp }
+    },
+    technical_indicators: snapshot.indicators
+  };
+}
@@ -0,0 +1,138 @@
+import { CandleData } from '@/services/api';
+import { SectorComparisonResponse, SectorRotationData } from '@/types/analysis';
+
+// Sector comparison over fixed lookbacks, folded into the SectorRotationData shape the rotation
+// card renders. Relative strength is measured against the average of the sectors compared.
+
+export interface SectorPeriod {
+  days: number; // Calendar days, as the sector API takes them
+  label: string;
+}
+
+export const SECTOR_PERIODS: SectorPeriod[] = [
+  { days: 30, label: '1M' },
+  { days: 90, label: '3M' },
+  { days: 180, label: '6M' },
+  { days: 365, label: '1Y' }
+];
+
+// Momentum is always the most recent month, whatever the ranking period
+export const MOMENTUM_PERIOD_DAYS = 30;
+const MAX_ROTATION_SECTORS = 3;
+
+export type SectorComparison = SectorComparisonResponse['sector_comparison'];
+
+export interface SectorReturnPoint {
+  time: number;
+  value: number; // % change since the first bar
+}
+
+const mean = (values: number[]): number => values.reduce((sum, value) => sum + value, 0) / values.length;
+
+// Spread of sector returns that counts as strong / moderate rotation over a year; shorter
+// periods scale it down with the square root of time
+const getRotationStrength = (returns: number[], days: number): string => {
+  if (returns.length < 2) return 'weak';
+  const average = mean(returns);
+  const dispersion = Math.sqrt(mean(returns.map(value => (value - average) ** 2)));
+  const scale = Math.sqrt(days / 365);
+  if (dispersion >= 12 * scale) return 'strong';
+  if (dispersion >= 6 * scale) return 'moderate';
+  return 'weak';
+};
+
+const ROTATION_CONFIDENCE: Record<string, string> = { strong: 'high', moderate: 'medium', weak: 'low' };
+
+export function buildSectorRotationData(
+  period: SectorPeriod,
+  comparison: SectorComparison,
+  momentum: SectorComparison | null
+): SectorRotationData {
+  const rows = Object.entries(comparison)
+    .filter(([, entry]) => typeof entry?.cumulative_return === 'number' && Number.isFinite(entry.cumulative_return))
+    .map(([key, entry]) => {
+      const name = entry.display_name || entry.sector || key;
+      const totalReturn = entry.cumulative_return * 100;
+      const recent = momentum?.[key]?.cumulative_return;
+      return {
+        name,
+        totalReturn,
+        momentum: typeof recent === 'number' && Number.isFinite(recent) ? recent * 100 : totalReturn,
+        currentPrice: entry.last_price,
+        startPrice: entry.last_price / (1 + entry.cumulative_return)
+      };
+    });
+
+  const average = rows.length > 0 ? mean(rows.map(row => row.totalReturn)) : 0;
+  const ranked = rows
+    .map(row => ({ ...row, relativeStrength: row.totalReturn - average }))
+    .sort((a, b) => b.relativeStrength - a.relativeStrength);
+
+  const sectorPerformance: SectorRotationData['sector_performance'] = {};
+  const sectorRankings: SectorRotationData['sector_rankings'] = {};
+  ranked.forEach((row, index) => {
+    sectorPerformance[row.name] = {
+      total_return: row.totalReturn,
+      momentum: row.momentum,
+      relative_strength: row.relativeStrength,
+      current_price: row.currentPrice,
+      start_price: row.startPrice
+    };
+    sectorRankings[row.name] = { rank: index + 1 };
+  });
+
+  const toPattern = (row: typeof ranked[number]) => ({
+    sector: row.name,
+    relative_strength: row.relativeStrength,
+    momentum: row.momentum
+  });
+  const leading = ranked.filter(row => row.relativeStrength > 0).slice(0, MAX_ROTATION_SECTORS);
+  const lagging = ranked.filter(row => row.relativeStrength < 0).slice(-MAX_ROTATION_SECTORS);
+  const rotationStrength = getRotationStrength(ranked.map(row => row.totalReturn), period.days);
+  const confidence = ROTATION_CONFIDENCE[rotationStrength];
+
+  // Only call a rotation where the latest month agrees with the ranking
+  const recommendations: SectorRotationData['recommendations'] = [
+    ...leading.filter(row => row.momentum > 0).map(row => ({
+      type: 'overweight',
+      sector: row.name,
+      reason: `${row.relativeStrength.toFixed(1)}% ahead of the sector average over ${period.label} and still rising (${row.momentum.toFixed(1)}% in the last month)`,
+      confidence
+    })),
+    ...lagging.filter(row => row.momentum < 0).map(row => ({
+      type: 'underweight',
+      sector: row.name,
+      reason: `${Math.abs(row.relativeStrength).toFixed(1)}% behind the sector average over ${period.label} and still falling (${row.momentum.toFixed(1)}% in the last month)`,
+      confidence
+    }))
+  ];
+  if (recommendations.length === 0 && ranked.length > 0) {
+    recommendations.push({
+      type: 'neutral',
+      confidence: 'low',
+      message: `No sector is both leading and gaining momentum over ${period.label}; rotation is not clear.`
+    });
+  }
+
+  return {
+    timeframe: period.label,
+    sector_performance: sectorPerformance,
+    sector_rankings: sectorRankings,
+    rotation_patterns: {
+      leading_sectors: leading.map(toPattern),
+      lagging_sectors: lagging.map(toPattern),
+      rotation_strength: rotationStrength
+    },
+    recommendations
+  };
+}
+
+// Daily sector index closes rebased to % change over the last `days` calendar days
+export function getSectorReturnSeries(candles: CandleData[], days: number): SectorReturnPoint[] {
+  if (candles.length === 0) return [];
+  const cutoff = candles[candles.length - 1].time - days * 86400;
+  const window = candles.filter(candle => candle.time >= cutoff && candle.close > 0);
+  if (window.length === 0) return [];
+  const base = window[0].close;
+  return window.map(candle => ({ time: candle.time, value: (candle.close / base - 1) * 100 }));
+}
@@ -0,0 +1,339 @@
+import { CandleData } from '@/services/api';
+import {
+  CalibrationBucket,
+  OutcomeDimension,
+  OutcomeDirection,
+  OutcomeFirstHit,
+  OutcomeGroupSummary,
+  OutcomeHorizon,
+  SignalOutcome
+} from '@/types/signalOutcomes';
+import { buildAnalysisOverlays, getAnalysisPayload } from '@/utils/analysisOverlays';
+import { SignalBias, getAnalysisSignalSummary, getSignalBias } from '@/utils/analysisSummary';
+import { ANALYSIS_INTERVAL_OPTIONS } from '@/utils/analysisIntervals';
+import { isIndicatorSnapshot } from '@/utils/analysisModes';
+
+// Scores a stored analysis against the candles that followed it: which of target / stop
+// was reached first, how far price ran for and against the signal, and the return after
+// 1, 5 and 20 bars of the analysis interval.
+
+export const OUTCOME_HORIZONS: OutcomeHorizon[] = [1, 5, 20];
+const MAX_HORIZON = 20;
+// Bars fetched before the analysis so the entry bar is always inside the window
+const LOOKBACK_BARS = 5;
+
+// Analysis intervals as chart timeframes (native or resampled) and the bars one trading day holds
+const OUTCOME_TIMEFRAMES: Record<string, { timeframe: string; barsPerDay: number }> = {
+  '1minute': { timeframe: '1m', barsPerDay: 375 },
+  '5minute': { timeframe: '5m', barsPerDay: 75 },
+  '15minute': { timeframe: '15m', barsPerDay: 25 },
+  '30minute': { timeframe: '30m', barsPerDay: 13 },
+  '60minute': { timeframe: '1h', barsPerDay: 7 },
+  day: { timeframe: '1d', barsPerDay: 1 },
+  week: { timeframe: '1wk', barsPerDay: 1 / 5 },
+  month: { timeframe: '1mo', barsPerDay: 1 / 21 }
+};
+
+// Older analyses stored the interval in other spellings
+const INTERVAL_ALIASES: Record<string, string> = {
+  daily: 'day',
+  '1day': 'day',
+  '1d': 'day',
+  weekly: 'week',
+  monthly: 'month'
+};
+
+const CALIBRATION_BUCKETS: { min: number; max: number }[] = [
+  { min: 0, max: 50 },
+  { min: 50, max: 60 },
+  { min: 60, max: 70 },
+  { min: 70, max: 80 },
+  { min: 80, max: 90 },
+  { min: 90, max: 101 }
+];
+
+// Everything needed to score an analysis, pulled from the stored record once
+export interface OutcomeInputs {
+  analysisId: string;
+  symbol: string;
+  exchange: string;
+  interval: string;
+  sector: string | null;
+  signal: string | null;
+  bias: SignalBias;
+  confidence: number | null;
+  analysisTime: number;
+  stops: number[];
+  targets: number[];
+}
+
+const isFiniteNumber = (value: unknown): value is number =>
+  typeof value === 'number' && Number.isFinite(value);
+
+const average = (values: (number | null)[]): number | null => {
+  const present = values.filter(isFiniteNumber);
+  return present.length > 0 ? present.reduce((sum, value) => sum + value, 0) / present.length : null;
+};
+
+const titleCase = (value: string): string =>
+  value.replace(/_/g, ' ').toLowerCase().replace(/\b\w/g, c => c.toUpperCase());
+
+export const normalizeOutcomeInterval = (interval: string | null | undefined): string => {
+  const value = String(interval || '').trim().toLowerCase();
+  return INTERVAL_ALIASES[value] || (OUTCOME_TIMEFRAMES[value] ? value : 'day');
+};
+
+export const getOutcomeTimeframe = (interval: string): string =>
+  OUTCOME_TIMEFRAMES[normalizeOutcomeInterval(interval)].timeframe;
+
+export const getIntervalLabel = (interval: string): string =>
+  ANALYSIS_INTERVAL_OPTIONS.find(option => option.value === interval)?.label || interval;
+
+// Signed for returns and excursions, whole numbers for rates
+export const formatOutcomePct = (value: number | null, signed = true): string => {
+  if (value === null) return '—';
+  return `${signed && value > 0 ? '+' : ''}${value.toFixed(signed ? 2 : 0)}%`;
+};
+
+export const outcomePctClass = (value: number | null): string =>
+  value === null || value === 0 ? 'text-gray-500' : value > 0 ? 'text-emerald-700' : 'text-red-700';
+
+// Bars from just before the analysis up to now; calendar days over-count weekends, which is the safe side
+export const getBarsNeeded = (inputs: OutcomeInputs, now: number = Date.now()): number => {
+  const { barsPerDay } = OUTCOME_TIMEFRAMES[normalizeOutcomeInterval(inputs.interval)];
+  const days = Math.max(0, Math.ceil((now - inputs.analysisTime) / 86400000)) + 1;
+  return Math.ceil(days * barsPerDay) + MAX_HORIZON + LOOKBACK_BARS;
+};
+
+// ===== INPUTS =====
+
+// Normalized columns on the stored row win over the payload, which older rows lack them for
+export interface OutcomeRecord {
+  id: string;
+  stock_symbol?: string;
+  created_at?: string | null;
+  end_date?: string | null;
+  interval?: string | null;
+  exchange?: string | null;
+  sector?: string | null;
+  analysis_data: any;
+}
+
+export function getOutcomeInputs(record: OutcomeRecord): OutcomeInputs | null {
+  const payload = getAnalysisPayload(record?.analysis_data);
+  if (!payload) return null;
+  const outer = typeof record.analysis_data === 'object' && record.analysis_data ? record.analysis_data : {};
+  // A pinned indicator vote has no stops or targets and isn't a call of the analysis pipeline
+  if (isIndicatorSnapshot(outer)) return null;
+
+  const symbol = String(record.stock_symbol || outer.stock_symbol || payload.symbol || '').toUpperCase();
+  const summary = getAnalysisSignalSummary(record);
+
+  // Backdated runs are as of their end date; same-day runs as of when they were created
+  const createdAt = Date.parse(record.created_at || summary.analysisDate || '');
+  const endDate = record.end_date || payload.end_date || outer.end_date;
+  const endOfEndDate = endDate ? Date.parse(endDate) + 86400000 - 1 : NaN;
+  const candidates = [createdAt, endOfEndDate].filter(Number.isFinite);
+  if (!symbol || candidates.length === 0) return null;
+
+  const levels = buildAnalysisOverlays({ id: record.id, analysis_data: payload })?.levels || [];
+  const sectorInfo = payload.sector_benchmarking?.sector_info || {};
+
+  return {
+    analysisId: record.id,
+    symbol,
+    exchange: record.exchange || payload.exchange || outer.exchange || 'NSE',
+    interval: normalizeOutcomeInterval(record.interval || payload.interval || outer.interval || payload.metadata?.interval),
+    sector: record.sector || sectorInfo.sector_name || sectorInfo.sector || payload.sector || null,
+    signal: summary.signal,
+    bias: getSignalBias(summary.signal),
+    confidence: summary.confidence,
+    analysisTime: Math.min(...candidates),
+    stops: levels.filter(level => level.kind === 'stop').map(level => level.price),
+    targets: levels.filter(level => level.kind === 'target').map(level => level.price)
+  };
+}
+
+// ===== SCORING =====
+
+const unscorable = (inputs: OutcomeInputs, direction: OutcomeDirection, reason: string, now: number): SignalOutcome => ({
+  analysisId: inputs.analysisId,
+  symbol: inputs.symbol,
+  exchange: inputs.exchange,
+  interval: inputs.interval,
+  sector: inputs.sector,
+  signal: inputs.signal,
+  bias: inputs.bias,
+  confidence: inputs.confidence,
+  analysisTime: inputs.analysisTime,
+  direction,
+  entryPrice: null,
+  stopLoss: null,
+  target: null,
+  status: 'unscorable',
+  reason,
+  firstHit: 'none',
+  barsToHit: null,
+  mfePct: null,
+  maePct: null,
+  returns: { 1: null, 5: null, 20: null },
+  barsObserved: 0,
+  scoredAt: now
+});
+
+// Entry is the close of the last bar that had started by the analysis time. The stop and
+// target are the nearest levels on the correct side of entry for the signal's direction.
+export function scoreSignalOutcome(inputs: OutcomeInputs, candles: CandleData[], now: number = Date.now()): SignalOutcome {
+  const direction: OutcomeDirection = inputs.bias === 'bullish' ? 'long' : inputs.bias === 'bearish' ? 'short' : 'flat';
+  const bars = candles
+    .filter(candle => isFiniteNumber(candle?.time) && isFiniteNumber(candle.close) && candle.close > 0)
+    .sort((a, b) => a.time - b.time);
+
+  const reference = inputs.analysisTime / 1000;
+  let entryIndex = -1;
+  for (let i = 0; i < bars.length && bars[i].time <= reference; i++) entryIndex = i;
+  if (entryIndex < 0) {
+    return unscorable(inputs, direction, 'Price history does not reach back to the analysis date', now);
+  }
+
+  const entry = bars[entryIndex].close;
+  const forward = bars.slice(entryIndex + 1);
+  const isShort = direction === 'short';
+  const sign = isShort ? -1 : 1;
+  const toPct = (price: number) => sign * (price / entry - 1) * 100;
+
+  let stopLoss: number | null = null;
+  let target: number | null = null;
+  if (direction === 'long') {
+    const stops = inputs.stops.filter(price => price < entry);
+    const targets = inputs.targets.filter(price => price > entry);
+    stopLoss = stops.length > 0 ? Math.max(...stops) : null;
+    target = targets.length > 0 ? Math.min(...targets) : null;
+  } else if (direction === 'short') {
+    const stops = inputs.stops.filter(price => price > entry);
+    const targets = inputs.targets.filter(price => price < entry);
+    stopLoss = stops.length > 0 ? Math.min(...stops) : null;
+    target = targets.length > 0 ? Math.max(...targets) : null;
+  }
+
+  // Excursions run until the first hit, or across the whole horizon when nothing is hit
+  let firstHit: OutcomeFirstHit = 'none';
+  let barsToHit: number | null = null;
+  let mfePct: number | null = forward.length > 0 ? 0 : null;
+  let maePct: number | null = forward.length > 0 ? 0 : null;
+  for (let i = 0; i < Math.min(forward.length, MAX_HORIZON); i++) {
+    const bar = forward[i];
+    mfePct = Math.max(mfePct ?? 0, toPct(isShort ? bar.low : bar.high));
+    maePct = Math.min(maePct ?? 0, toPct(isShort ? bar.high : bar.low));
+
+    const stopHit = stopLoss !== null && (isShort ? bar.high >= stopLoss : bar.low <= stopLoss);
+    const targetHit = target !== null && (isShort ? bar.low <= target : bar.high >= target);
+    if (stopHit || targetHit) {
+      firstHit = stopHit && targetHit ? 'both' : stopHit ? 'stop' : 'target';
+      barsToHit = i + 1;
+      break;
+    }
+  }
+
+  const returns = { 1: null, 5: null, 20: null } as Record<OutcomeHorizon, number | null>;
+  OUTCOME_HORIZONS.forEach(horizon => {
+    const bar = forward[horizon - 1];
+    returns[horizon] = bar ? toPct(bar.close) : null;
+  });
+
+  return {
+    analysisId: inputs.analysisId,
+    symbol: inputs.symbol,
+    exchange: inputs.exchange,
+    interval: inputs.interval,
+    sector: inputs.sector,
+    signal: inputs.signal,
+    bias: inputs.bias,
+    confidence: inputs.confidence,
+    analysisTime: inputs.analysisTime,
+    direction,
+    entryPrice: entry,
+    stopLoss,
+    target,
+    status: forward.length >= MAX_HORIZON ? 'complete' : 'open',
+    reason: null,
+    firstHit,
+    barsToHit,
+    mfePct,
+    maePct,
+    returns,
+    barsObserved: forward.length,
+    scoredAt: now
+  };
+}
+
+// ===== ROLLUPS =====
+
+const getDimensionKey = (outcome: SignalOutcome, dimension: OutcomeDimension): string => {
+  if (dimension === 'signal') return outcome.signal ? titleCase(outcome.signal) : 'Unknown';
+  if (dimension === 'sector') return outcome.sector || 'Unknown';
+  return getIntervalLabel(outcome.interval);
+};
+
+// Hit rates only count directional signals that reached their target or stop. Returns are measured in
+// the signal's direction, so flat signals have none to average and are only counted.
+export function summarizeOutcomeGroup(key: string, outcomes: SignalOutcome[]): OutcomeGroupSummary {
+  const scored = outcomes.filter(outcome => outcome.status !== 'unscorable');
+  const directional = scored.filter(outcome => outcome.direction !== 'flat');
+  const targetHits = directional.filter(outcome => outcome.firstHit === 'target').length;
+  const stopHits = directional.filter(outcome => outcome.firstHit === 'stop' || outcome.firstHit === 'both').length;
+  const decided = targetHits + stopHits;
+
+  const avgReturns = {} as Record<OutcomeHorizon, number | null>;
+  OUTCOME_HORIZONS.forEach(horizon => {
+    avgReturns[horizon] = average(directional.map(outcome => outcome.returns[horizon]));
+  });
+
+  return {
+    key,
+    total: scored.length,
+    neutral: scored.length - directional.length,
+    decided,
+    targetHits,
+    stopHits,
+    hitRate: decided > 0 ? (targetHits / decided) * 100 : null,
+    avgReturns,
+    avgMfePct: average(directional.map(outcome => outcome.mfePct)),
+    avgMaePct: average(directional.map(outcome => outcome.maePct))
+  };
+}
+
+export function summarizeOutcomes(outcomes: SignalOutcome[], dimension: OutcomeDimension): OutcomeGroupSummary[] {
+  const groups = new Map<string, SignalOutcome[]>();
+  outcomes
+    .filter(outcome => outcome.status !== 'unscorable')
+    .forEach(outcome => {
+      const key = getDimensionKey(outcome, dimension);
+      groups.set(key, [...(groups.get(key) || []), outcome]);
+    });
+  return Array.from(groups.entries())
+    .map(([key, group]) => summarizeOutcomeGroup(key, group))
+    .sort((a, b) => b.total - a.total || a.key.localeCompare(b.key));
+}
+
+// Stated confidence against what actually happened; a calibrated model's hit rate tracks its confidence
+export function buildConfidenceCalibration(outcomes: SignalOutcome[]): CalibrationBucket[] {
+  const rated = outcomes.filter(
+    outcome => outcome.status !== 'unscorable' && outcome.direction !== 'flat' && isFiniteNumber(outcome.confidence)
+  );
+
+  return CALIBRATION_BUCKETS.map(({ min, max }) => {
+    const bucket = rated.filter(outcome => (outcome.confidence as number) >= min && (outcome.confidence as number) < max);
+    const decided = bucket.filter(outcome => outcome.firstHit !== 'none');
+    const complete = bucket.filter(outcome => outcome.returns[20] !== null);
+    return {
+      label: max > 100 ? `${min}%+` : min === 0 ? `<${max}%` : `${min}-${max}%`,
+      min,
+      max,
+      count: bucket.length,
+      avgConfidence: average(bucket.map(outcome => outcome.confidence)),
+      hitRate: decided.length > 0 ? (decided.filter(outcome => outcome.firstHit === 'target').length / decided.length) * 100 : null,
+      winRate: complete.length > 0 ? (complete.filter(outcome => (outcome.returns[20] as number) > 0).length / complete.length) * 100 : null
+    };
+  });
+}
@@ -0,0 +1,144 @@
+import { describe, expect, it } from 'vitest';
+import {
+  calcATR,
+  calcBollingerBands,
+  calcEMA,
+  calcMACD,
+  calcOBV,
+  calcRSI,
+  calcSMA,
+  calcStochastic
+} from './chartUtils';
+import {
+  StreamingATR,
+  StreamingBar,
+  StreamingBollingerBands,
+  StreamingEMA,
+  StreamingIndicator,
+  StreamingMACD,
+  StreamingOBV,
+  StreamingRSI,
+  StreamingSMA,
+  StreamingStochastic
+} from './streamingIndicators';
+
+// ===== FIXTURES =====
+
+const BAR_COUNT = 300;
+
+// Seeded so a failure reproduces with the same series
+const createRandom = (seed: number) => () => {
+  seed = (seed + 0x6d2b79f5) | 0;
+  let t = Math.imul(seed ^ (seed >>> 15), 1 | seed);
+  t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+  return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+};
+
+const createBar = (random: () => number, open: number): StreamingBar => {
+  // Round to paise so some consecutive closes repeat and some ranges are flat
+  const round = (value: number) => Math.round(value * 20) / 20;
+  const close = round(open * (1 + (random() - 0.5) * 0.04));
+  const high = round(Math.max(open, close) * (1 + random() * 0.01));
+  const low = round(Math.min(open, close) * (1 - random() * 0.01));
+  return { high, low, close, volume: Math.round(random() * 100000) };
+};
+
+// Each closed bar plus two intermediate states of it while it was forming
+const createSeries = (seed: number) => {
+  const random = createRandom(seed);
+  const bars: StreamingBar[] = [];
+  const forming: StreamingBar[][] = [];
+  let open = 1000;
+  for (let i = 0; i < BAR_COUNT; i++) {
+    const bar = createBar(random, open);
+    forming.push([createBar(random, open), createBar(random, open)]);
+    bars.push(bar);
+    open = bar.close;
+  }
+  return { bars, forming };
+};
+
+// ===== HELPERS =====
+
+// Appends each bar in its first forming state, revises it through the rest, then to its close
+function runStreaming<TInput, TOutput>(
+  indicator: StreamingIndicator<TInput, TOutput>,
+  bars: StreamingBar[],
+  forming: StreamingBar[][],
+  toInput: (bar: StreamingBar) => TInput
+): TOutput[] {
+  return bars.map((bar, index) => {
+    const [first, second] = forming[index];
+    indicator.append(toInput(first));
+    indicator.revise(toInput(second));
+    return indicator.revise(toInput(bar));
+  });
+}
+
+const expectSeries = (actual: (number | null)[], expected: (number | null)[]) => {
+  expect(actual).toHaveLength(expected.length);
+  expected.forEach((value, index) => {
+    if (value === null || !Number.isFinite(value)) {
+      expect(actual[index], `bar ${index}`).toBe(value);
+    } else {
+      expect(actual[index], `bar ${index}`).toBeCloseTo(value, 6);
+    }
+  });
+};
+
+const pick = <T, K extends keyof T>(rows: T[], key: K): T[K][] => rows.map(row => row[key]);
+
+// ===== PARITY =====
+
+describe.each([1, 7, 42])('streaming indicators match the batch calc* functions (seed %i)', seed => {
+  const { bars, forming } = createSeries(seed);
+  const closes = bars.map(bar => bar.close);
+  const highs = bars.map(bar => bar.high);
+  const lows = bars.map(bar => bar.low);
+  const volumes = bars.map(bar => bar.volume || 0);
+  const close = (bar: StreamingBar) => bar.close;
+  const whole = (bar: StreamingBar) => bar;
+
+  it('SMA', () => {
+    expectSeries(runStreaming(new StreamingSMA(20), bars, forming, close), calcSMA(closes, 20));
+  });
+
+  it('EMA', () => {
+    expectSeries(runStreaming(new StreamingEMA(21), bars, forming, close), calcEMA(closes, 21));
+  });
+
+  it('RSI', () => {
+    expectSeries(runStreaming(new StreamingRSI(14), bars, forming, close), calcRSI(closes, 14));
+  });
+
+  it('MACD', () => {
+    const actual = runStreaming(new StreamingMACD(12, 26, 9), bars, forming, close);
+    const expected = calcMACD(closes, 12, 26, 9);
+    expectSeries(pick(actual, 'macd'), expected.macd);
+    expectSeries(pick(actual, 'signal'), expected.signal);
+    expectSeries(pick(actual, 'histogram'), expected.histogram);
+  });
+
+  it('Bollinger Bands', () => {
+    const actual = runStreaming(new StreamingBollingerBands(20, 2), bars, forming, close);
+    const expected = calcBollingerBands(closes, 20, 2);
+    expectSeries(pick(actual, 'upper'), expected.upper);
+    expectSeries(pick(actual, 'middle'), expected.middle);
+    expectSeries(pick(actual, 'lower'), expected.lower);
+  });
+
+  it('Stochastic', () => {
+    const actual = runStreaming(new StreamingStochastic(14, 3), bars, forming, whole);
+    const expected = calcStochastic(highs, lows, closes, 14, 3);
+    expectSeries(pick(actual, 'k'), expected.k);
+    expectSeries(pick(actual, 'd'), expected.d);
+  });
+
+  it('ATR', () => {
+    expectSeries(runStreaming(new StreamingATR(14), bars, forming, whole), calcATR(highs, lows, closes, 14));
+  });
+
+  it('OBV', () => {
+    expectSeries(runStreaming(new StreamingOBV(), bars, forming, whole), calcOBV(closes, volumes));
+  });
+});
@@ -0,0 +1,1177 @@
+// Streaming technical indicators with O(1) updates
+// Every indicator can append a closed bar or revise the forming (last) bar without replaying history,
+// and produces the same series as the batch calc* functions in chartUtils.ts
+
+// ===== TYPES & INTERFACES =====
+
+export interface StreamingBar {
+  high: number;
+  low: number;
+  close: number;
+  volume?: number;
+}
+
+// Session-based indicators (VWAP, pivots) need the bar time in unix seconds
+export interface StreamingTimedBar extends StreamingBar {
+  time: number;
+}
+
+// Relative strength compares against a benchmark close aligned to the same bar
+export interface StreamingBenchmarkBar extends StreamingBar {
+  benchmark?: number | null;
+}
+
+export interface StreamingIndicator<TInput, TOutput> {
+  append(input: TInput): TOutput;
+  revise(input: TInput): TOutput;
+}
+
+// ===== BUILDING BLOCKS =====
+
+// Keeps the state before and after the last bar so the last bar can be recomputed from scratch
+class SnapshotStream<TState, TInput> {
+  private before: TState;
+  private after: TState;
+  private hasBar = false;
+
+  constructor(initial: TState, private step: (state: TState, input: TInput) => TState) {
+    this.before = initial;
+    this.after = initial;
+  }
+
+  append(input: TInput): TState {
+    if (this.hasBar) {
+      this.before = this.after;
+    }
+    this.after = this.step(this.before, input);
+    this.hasBar = true;
+    return this.after;
+  }
+
+  revise(input: TInput): TState {
+    if (!this.hasBar) return this.append(input);
+    this.after = this.step(this.before, input);
+    return this.after;
+  }
+}
+
+// Fixed-size ring buffer of the most recent values
+class RollingWindow {
+  private buffer: number[];
+  private start = 0;
+  private size = 0;
+
+  constructor(private capacity: number) {
+    this.buffer = new Array(capacity).fill(0);
+  }
+
+  get length(): number {
+    return this.size;
+  }
+
+  push(value: number): void {
+    if (this.size < this.capacity) {
+      this.buffer[(this.start + this.size) % this.capacity] = value;
+      this.size++;
+    } else {
+      this.buffer[this.start] = value;
+      this.start = (this.start + 1) % this.capacity;
+    }
+  }
+
+  setLast(value: number): void {
+    if (this.size === 0) return;
+    this.buffer[(this.start + this.size - 1) % this.capacity] = value;
+  }
+
+  // fromEnd(0) is the newest value
+  fromEnd(offset: number): number {
+    return this.buffer[(this.start + this.size - 1 - offset + this.capacity) % this.capacity];
+  }
+}
+
+// Sliding max/min over committed bars (indexes strictly increase)
+class MonotonicDeque {
+  private entries: { index: number; value: number }[] = [];
+
+  constructor(private mode: 'max' | 'min') {}
+
+  push(index: number, value: number): void {
+    while (this.entries.length > 0 && this.dominates(value, this.entries[this.entries.length - 1].value)) {
+      this.entries.pop();
+    }
+    this.entries.push({ index, value });
+  }
+
+  expireBefore(index: number): void {
+    while (this.entries.length > 0 && this.entries[0].index < index) {
+      this.entries.shift();
+    }
+  }
+
+  peek(): number | null {
+    return this.entries.length > 0 ? this.entries[0].value : null;
+  }
+
+  private dominates(value: number, existing: number): boolean {
+    return this.mode === 'max' ? value >= existing : value <= existing;
+  }
+}
+
+// Sum of the last `period` values, with the forming value revisable
+class RollingSum {
+  private window: RollingWindow;
+  private stream: SnapshotStream<{ count: number; sum: number }, number>;
+
+  constructor(period: number) {
+    this.window = new RollingWindow(period + 1);
+    this.stream = new SnapshotStream({ count: 0, sum: 0 }, (state, value) => ({
+      count: state.count + 1,
+      sum: state.count < period ? state.sum + value : state.sum - this.window.fromEnd(period) + value
+    }));
+  }
+
+  append(value: number): { count: number; sum: number } {
+    this.window.push(value);
+    return this.stream.append(value);
+  }
+
+  revise(value: number): { count: number; sum: number } {
+    if (this.window.length === 0) return this.append(value);
+    this.window.setLast(value);
+    return this.stream.revise(value);
+  }
+}
+
+// Highest high / lowest low of the last `period` bars including the forming one
+class RollingExtremes {
+  private highs = new MonotonicDeque('max');
+  private lows = new MonotonicDeque('min');
+  private forming: { high: number; low: number } | null = null;
+  private index = -1;
+
+  constructor(private period: number) {}
+
+  append(high: number, low: number): { high: number; low: number } | null {
+    // The previous forming bar is closed now - move it into the sliding windows
+    if (this.forming) {
+      this.highs.push(this.index, this.forming.high);
+      this.lows.push(this.index, this.forming.low);
+    }
+    this.index++;
+    this.forming = { high, low };
+    return this.current();
+  }
+
+  revise(high: number, low: number): { high: number; low: number } | null {
+    if (!this.forming) return this.append(high, low);
+    this.forming = { high, low };
+    return this.current();
+  }
+
+  private current(): { high: number; low: number } | null {
+    if (!this.forming || this.index < this.period - 1) return null;
+
+    const windowStart = this.index - this.period + 1;
+    this.highs.expireBefore(windowStart);
+    this.lows.expireBefore(windowStart);
+
+    const committedHigh = this.highs.peek();
+    const committedLow = this.lows.peek();
+    return {
+      high: committedHigh === null ? this.forming.high : Math.max(committedHigh, this.forming.high),
+      low: committedLow === null ? this.forming.low : Math.min(committedLow, this.forming.low)
+    };
+  }
+}
+
+// Sessions are trading days in IST so intraday VWAP and pivots reset at the open
+const IST_OFFSET_SECONDS = 5.5 * 60 * 60;
+
+const getSessionKey = (time: number): number => Math.floor((time + IST_OFFSET_SECONDS) / 86400);
+
+const typicalPrice = (bar: StreamingBar): number => (bar.high + bar.low + bar.close) / 3;
+
+// ===== INDICATORS =====
+
+// Matches calcSMA
+export class StreamingSMA implements StreamingIndicator<number, number | null> {
+  private sum: RollingSum;
+
+  constructor(private period: number) {
+    // Same summation order as calcSMA so results are bit-identical
+    this.sum = new RollingSum(period);
+  }
+
+  append(value: number): number | null {
+    return this.output(this.sum.append(value));
+  }
+
+  revise(value: number): number | null {
+    return this.output(this.sum.revise(value));
+  }
+
+  private output(state: { count: number; sum: number }): number | null {
+    return state.count >= this.period ? state.sum / this.period : null;
+  }
+}
+
+// Matches calcEMA (seeded with the first value, hidden until `period` bars)
+export class StreamingEMA implements StreamingIndicator<number, number | null> {
+  private stream: SnapshotStream<{ count: number; ema: number | null }, number>;
+
+  constructor(private period: number) {
+    const k = 2 / (period + 1);
+    this.stream = new SnapshotStream<{ count: number; ema: number | null }, number>(
+      { count: 0, ema: null },
+      (state, value) => ({
+        count: state.count + 1,
+        ema: state.ema === null ? value : value * k + state.ema * (1 - k)
+      })
+    );
+  }
+
+  append(value: number): number | null {
+    return this.output(this.stream.append(value));
+  }
+
+  revise(value: number): number | null {
+    return this.output(this.stream.revise(value));
+  }
+
+  private output(state: { count: number; ema: number | null }): number | null {
+    return state.count >= this.period ? state.ema : null;
+  }
+}
+
+interface RSIState {
+  count: number;
+  lastClose: number;
+  gains: number;
+  losses: number;
+  avgGain: number;
+  avgLoss: number;
+}
+
+// Matches calcRSI (simple average seed, then Wilder smoothing)
+export class StreamingRSI implements StreamingIndicator<number, number | null> {
+  private stream: SnapshotStream<RSIState, number>;
+
+  constructor(private period = 14) {
+    this.stream = new SnapshotStream<RSIState, number>(
+      { count: 0, lastClose: 0, gains: 0, losses: 0, avgGain: 0, avgLoss: 0 },
+      (state, close) => {
+        const index = state.count;
+        const next = { ...state, count: index + 1, lastClose: close };
+        if (index === 0) return next;
+
+        const change = close - state.lastClose;
+        const gain = change > 0 ? change : 0;
+        const loss = change > 0 ? 0 : -change;
+
+        if (index <= period) {
+          next.gains = state.gains + gain;
+          next.losses = state.losses + loss;
+          if (index === period) {
+            next.avgGain = next.gains / period;
+            next.avgLoss = next.losses / period;
+          }
+        } else {
+          next.avgGain = (state.avgGain * (period - 1) + gain) / period;
+          next.avgLoss = (state.avgLoss * (period - 1) + loss) / period;
+        }
+        return next;
+      }
+    );
+  }
+
+  append(close: number): number | null {
+    return this.output(this.stream.append(close));
+  }
+
+  revise(close: number): number | null {
+    return this.output(this.stream.revise(close));
+  }
+
+  private output(state: RSIState): number | null {
+    if (state.count <= this.period) return null;
+    const rs = state.avgGain / state.avgLoss;
+    return 100 - (100 / (1 + rs));
+  }
+}
+
+// Matches calcMACD (signal EMA runs over the MACD line with gaps filled by 0)
+export class StreamingMACD implements StreamingIndicator<number, { macd: number | null; signal: number | null; histogram: number | null }> {
+  private fast: StreamingEMA;
+  private slow: StreamingEMA;
+  private signal: StreamingEMA;
+
+  constructor(fastPeriod = 12, slowPeriod = 26, signalPeriod = 9) {
+    this.fast = new StreamingEMA(fastPeriod);
+    this.slow = new StreamingEMA(slowPeriod);
+    this.signal = new StreamingEMA(signalPeriod);
+  }
+
+  append(close: number) {
+    const macd = this.combine(this.fast.append(close), this.slow.append(close));
+    return this.output(macd, this.signal.append(macd || 0));
+  }
+
+  revise(close: number) {
+    const macd = this.combine(this.fast.revise(close), this.slow.revise(close));
+    return this.output(macd, this.signal.revise(macd || 0));
+  }
+
+  private combine(fast: number | null, slow: number | null): number | null {
+    return fast !== null && slow !== null ? fast - slow : null;
+  }
+
+  private output(macd: number | null, signal: number | null) {
+    return {
+      macd,
+      signal,
+      histogram: macd !== null && signal !== null ? macd - signal : null
+    };
+  }
+}
+
+// Matches calcBollingerBands; the deviation comes from running sums instead of a window pass
+export class StreamingBollingerBands implements StreamingIndicator<number, { upper: number | null; middle: number | null; lower: number | null }> {
+  private window: RollingWindow;
+  private sma: StreamingSMA;
+  private stream: SnapshotStream<{ count: number; sumSq: number }, number>;
+
+  constructor(private period = 20, private stdDev = 2) {
+    this.window = new RollingWindow(period + 1);
+    this.sma = new StreamingSMA(period);
+    this.stream = new SnapshotStream({ count: 0, sumSq: 0 }, (state, value) => {
+      const dropped = state.count < period ? 0 : this.window.fromEnd(period);
+      return {
+        count: state.count + 1,
+        sumSq: state.sumSq - dropped * dropped + value * value
+      };
+    });
+  }
+
+  append(value: number) {
+    this.window.push(value);
+    return this.output(this.sma.append(value), this.stream.append(value));
+  }
+
+  revise(value: number) {
+    if (this.window.length === 0) return this.append(value);
+    this.window.setLast(value);
+    return this.output(this.sma.revise(value), this.stream.revise(value));
+  }
+
+  private output(middle: number | null, state: { count: number; sumSq: number }) {
+    if (middle === null || state.count < this.period) {
+      return { upper: null, middle: null, lower: null };
+    }
+    // Clamp tiny negative variances caused by floating point cancellation
+    const variance = Math.max(0, state.sumSq / this.period - middle * middle);
+    const deviation = Math.sqrt(variance) * this.stdDev;
+    return { upper: middle + deviation, middle, lower: middle - deviation };
+  }
+}
+
+// Matches calcStochastic (flat ranges read 50, %D averages %K with gaps as 0)
+export class StreamingStochastic implements StreamingIndicator<StreamingBar, { k: number | null; d: number | null }> {
+  private extremes: RollingExtremes;
+  private d: StreamingSMA;
+
+  constructor(kPeriod = 14, dPeriod = 3) {
+    this.extremes = new RollingExtremes(kPeriod);
+    this.d = new StreamingSMA(dPeriod);
+  }
+
+  append(bar: StreamingBar) {
+    const k = this.computeK(bar, this.extremes.append(bar.high, bar.low));
+    return { k, d: this.d.append(k || 0) };
+  }
+
+  revise(bar: StreamingBar) {
+    const k = this.computeK(bar, this.extremes.revise(bar.high, bar.low));
+    return { k, d: this.d.revise(k || 0) };
+  }
+
+  private computeK(bar: StreamingBar, range: { high: number; low: number } | null): number | null {
+    if (!range) return null;
+    if (range.high === range.low) return 50;
+    return ((bar.close - range.low) / (range.high - range.low)) * 100;
+  }
+}
+
+interface ATRState {
+  count: number;
+  lastClose: number;
+  trSum: number;
+  atr: number | null;
+}
+
+// Matches calcATR (simple average seed, then Wilder smoothing)
+export class StreamingATR implements StreamingIndicator<StreamingBar, number | null> {
+  private stream: SnapshotStream<ATRState, StreamingBar>;
+
+  constructor(period = 14) {
+    this.stream = new SnapshotStream<ATRState, StreamingBar>(
+      { count: 0, lastClose: 0, trSum: 0, atr: null },
+      (state, bar) => {
+        const index = state.count;
+        const trueRange = index === 0
+          ? bar.high - bar.low
+          : Math.max(bar.high - bar.low, Math.abs(bar.high - state.lastClose), Math.abs(bar.low - state.lastClose));
+        const next: ATRState = { count: index + 1, lastClose: bar.close, trSum: state.trSum, atr: null };
+
+        if (index < period) {
+          next.trSum = state.trSum + trueRange;
+        }
+        if (index === 0) {
+          return next;
+        }
+        if (index === period - 1) {
+          next.atr = next.trSum / period;
+        } else if (index >= period) {
+          next.atr = ((state.atr! * (period - 1)) + trueRange) / period;
+        }
+        return next;
+      }
+    );
+  }
+
+  append(bar: StreamingBar): number | null {
+    return this.stream.append(bar).atr;
+  }
+
+  revise(bar: StreamingBar): number | null {
+    return this.stream.revise(bar).atr;
+  }
+}
+
+// Matches calcOBV
+export class StreamingOBV implements StreamingIndicator<StreamingBar, number> {
+  private stream: SnapshotStream<{ count: number; lastClose: number; obv: number }, StreamingBar>;
+
+  constructor() {
+    this.stream = new SnapshotStream({ count: 0, lastClose: 0, obv: 0 }, (state, bar) => {
+      const volume = bar.volume || 0;
+      let obv = volume;
+      if (state.count > 0) {
+        if (bar.close > state.lastClose) {
+          obv = state.obv + volume;
+        } else if (bar.close < state.lastClose) {
+          obv = state.obv - volume;
+        } else {
+          obv = state.obv;
+        }
+      }
+      return { count: state.count + 1, lastClose: bar.close, obv };
+    });
+  }
+
+  append(bar: StreamingBar): number {
+    return this.stream.append(bar).obv;
+  }
+
+  revise(bar: StreamingBar): number {
+    return this.stream.revise(bar).obv;
+  }
+}
+
+// ===== EXTENDED INDICATORS =====
+
+interface ADXState {
+  count: number;
+  lastHigh: number;
+  lastLow: number;
+  lastClose: number;
+  trSum: number;
+  plusDmSum: number;
+  minusDmSum: number;
+  plusDi: number | null;
+  minusDi: number | null;
+  dxSum: number;
+  adx: number | null;
+}
+
+// Wilder's ADX with +DI/-DI; smoothed sums are seeded over the first `period` moves
+export class StreamingADX implements StreamingIndicator<StreamingBar, { adx: number | null; plusDi: number | null; minusDi: number | null }> {
+  private stream: SnapshotStream<ADXState, StreamingBar>;
+
+  constructor(period = 14) {
+    this.stream = new SnapshotStream<ADXState, StreamingBar>(
+      {
+        count: 0, lastHigh: 0, lastLow: 0, lastClose: 0,
+        trSum: 0, plusDmSum: 0, minusDmSum: 0,
+        plusDi: null, minusDi: null, dxSum: 0, adx: null
+      },
+      (state, bar) => {
+        const index = state.count;
+        const next: ADXState = { ...state, count: index + 1, lastHigh: bar.high, lastLow: bar.low, lastClose: bar.close };
+        if (index === 0) return next;
+
+        const upMove = bar.high - state.lastHigh;
+        const downMove = state.lastLow - bar.low;
+        const plusDm = upMove > downMove && upMove > 0 ? upMove : 0;
+        const minusDm = downMove > upMove && downMove > 0 ? downMove : 0;
+        const trueRange = Math.max(bar.high - bar.low, Math.abs(bar.high - state.lastClose), Math.abs(bar.low - state.lastClose));
+
+        if (index <= period) {
+          next.trSum = state.trSum + trueRange;
+          next.plusDmSum = state.plusDmSum + plusDm;
+          next.minusDmSum = state.minusDmSum + minusDm;
+        } else {
+          next.trSum = state.trSum - state.trSum / period + trueRange;
+          next.plusDmSum = state.plusDmSum - state.plusDmSum / period + plusDm;
+          next.minusDmSum = state.minusDmSum - state.minusDmSum / period + minusDm;
+        }
+        if (index < period) return next;
+
+        next.plusDi = next.trSum === 0 ? 0 : (100 * next.plusDmSum) / next.trSum;
+        next.minusDi = next.trSum === 0 ? 0 : (100 * next.minusDmSum) / next.trSum;
+        const diSum = next.plusDi + next.minusDi;
+        const dx = diSum === 0 ? 0 : (100 * Math.abs(next.plusDi - next.minusDi)) / diSum;
+
+        // DX values from bar `period` onwards; the first ADX is their simple average
+        const dxIndex = index - period;
+        if (dxIndex < period - 1) {
+          next.dxSum = state.dxSum + dx;
+        } else if (dxIndex === period - 1) {
+          next.adx = (state.dxSum + dx) / period;
+        } else {
+          next.adx = (state.adx! * (period - 1) + dx) / period;
+        }
+        return next;
+      }
+    );
+  }
+
+  append(bar: StreamingBar) {
+    return this.output(this.stream.append(bar));
+  }
+
+  revise(bar: StreamingBar) {
+    return this.output(this.stream.revise(bar));
+  }
+
+  private output(state: ADXState) {
+    return { adx: state.adx, plusDi: state.plusDi, minusDi: state.minusDi };
+  }
+}
+
+// Ichimoku cloud as seen on the current bar: the spans are the values projected `displacement` bars ago.
+// The lagging (chikou) span is the current close plotted in the past, so it has no live value to stream.
+export class StreamingIchimoku implements StreamingIndicator<StreamingBar, {
+  tenkan: number | null;
+  kijun: number | null;
+  spanA: number | null;
+  spanB: number | null;
+}> {
+  private tenkan: RollingExtremes;
+  private kijun: RollingExtremes;
+  private senkou: RollingExtremes;
+  private spanAHistory: RollingWindow;
+  private spanBHistory: RollingWindow;
+
+  constructor(tenkanPeriod = 9, kijunPeriod = 26, senkouPeriod = 52, private displacement = 26) {
+    this.tenkan = new RollingExtremes(tenkanPeriod);
+    this.kijun = new RollingExtremes(kijunPeriod);
+    this.senkou = new RollingExtremes(senkouPeriod);
+    this.spanAHistory = new RollingWindow(displacement + 1);
+    this.spanBHistory = new RollingWindow(displacement + 1);
+  }
+
+  append(bar: StreamingBar) {
+    const lines = this.lines(
+      this.tenkan.append(bar.high, bar.low),
+      this.kijun.append(bar.high, bar.low),
+      this.senkou.append(bar.high, bar.low)
+    );
+    this.spanAHistory.push(lines.rawSpanA);
+    this.spanBHistory.push(lines.rawSpanB);
+    return this.output(lines);
+  }
+
+  revise(bar: StreamingBar) {
+    if (this.spanAHistory.length === 0) return this.append(bar);
+    const lines = this.lines(
+      this.tenkan.revise(bar.high, bar.low),
+      this.kijun.revise(bar.high, bar.low),
+      this.senkou.revise(bar.high, bar.low)
+    );
+    this.spanAHistory.setLast(lines.rawSpanA);
+    this.spanBHistory.setLast(lines.rawSpanB);
+    return this.output(lines);
+  }
+
+  private lines(
+    tenkanRange: { high: number; low: number } | null,
+    kijunRange: { high: number; low: number } | null,
+    senkouRange: { high: number; low: number } | null
+  ) {
+    const midpoint = (range: { high: number; low: number } | null) => range ? (range.high + range.low) / 2 : null;
+    const tenkan = midpoint(tenkanRange);
+    const kijun = midpoint(kijunRange);
+    const spanB = midpoint(senkouRange);
+    return {
+      tenkan,
+      kijun,
+      rawSpanA: tenkan !== null && kijun !== null ? (tenkan + kijun) / 2 : NaN,
+      rawSpanB: spanB ?? NaN
+    };
+  }
+
+  private output(lines: { tenkan: number | null; kijun: number | null }) {
+    const projected = (history: RollingWindow) => {
+      if (history.length <= this.displacement) return null;
+      const value = history.fromEnd(this.displacement);
+      return isNaN(value) ? null : value;
+    };
+    return {
+      tenkan: lines.tenkan,
+      kijun: lines.kijun,
+      spanA: projected(this.spanAHistory),
+      spanB: projected(this.spanBHistory)
+    };
+  }
+}
+
+// EMA midline with ATR bands
+export class StreamingKeltnerChannels implements StreamingIndicator<StreamingBar, { upper: number | null; middle: number | null; lower: number | null }> {
+  private ema: StreamingEMA;
+  private atr: StreamingATR;
+
+  constructor(period = 20, private multiplier = 2, atrPeriod = 10) {
+    this.ema = new StreamingEMA(period);
+    this.atr = new StreamingATR(atrPeriod);
+  }
+
+  append(bar: StreamingBar) {
+    return this.output(this.ema.append(bar.close), this.atr.append(bar));
+  }
+
+  revise(bar: StreamingBar) {
+    return this.output(this.ema.revise(bar.close), this.atr.revise(bar));
+  }
+
+  private output(middle: number | null, atr: number | null) {
+    if (middle === null || atr === null) {
+      return { upper: null, middle, lower: null };
+    }
+    return { upper: middle + atr * this.multiplier, middle, lower: middle - atr * this.multiplier };
+  }
+}
+
+export class StreamingDonchianChannels implements StreamingIndicator<StreamingBar, { upper: number | null; middle: number | null; lower: number | null }> {
+  private extremes: RollingExtremes;
+
+  constructor(period = 20) {
+    this.extremes = new RollingExtremes(period);
+  }
+
+  append(bar: StreamingBar) {
+    return this.output(this.extremes.append(bar.high, bar.low));
+  }
+
+  revise(bar: StreamingBar) {
+    return this.output(this.extremes.revise(bar.high, bar.low));
+  }
+
+  private output(range: { high: number; low: number } | null) {
+    if (!range) return { upper: null, middle: null, lower: null };
+    return { upper: range.high, middle: (range.high + range.low) / 2, lower: range.low };
+  }
+}
+
+// Detrended price oscillator: close from period/2 + 1 bars ago minus the current SMA
+export class StreamingDPO implements StreamingIndicator<number, number | null> {
+  private sma: StreamingSMA;
+  private closes: RollingWindow;
+  private shift: number;
+
+  constructor(period = 20) {
+    this.sma = new StreamingSMA(period);
+    this.shift = Math.floor(period / 2) + 1;
+    this.closes = new RollingWindow(this.shift + 1);
+  }
+
+  append(close: number): number | null {
+    this.closes.push(close);
+    return this.output(this.sma.append(close));
+  }
+
+  revise(close: number): number | null {
+    if (this.closes.length === 0) return this.append(close);
+    this.closes.setLast(close);
+    return this.output(this.sma.revise(close));
+  }
+
+  private output(sma: number | null): number | null {
+    if (sma === null || this.closes.length <= this.shift) return null;
+    return this.closes.fromEnd(this.shift) - sma;
+  }
+}
+
+// Williams %R on a -100..0 scale (flat ranges read -50)
+export class StreamingWilliamsR implements StreamingIndicator<StreamingBar, number | null> {
+  private extremes: RollingExtremes;
+
+  constructor(period = 14) {
+    this.extremes = new RollingExtremes(period);
+  }
+
+  append(bar: StreamingBar): number | null {
+    return this.output(bar, this.extremes.append(bar.high, bar.low));
+  }
+
+  revise(bar: StreamingBar): number | null {
+    return this.output(bar, this.extremes.revise(bar.high, bar.low));
+  }
+
+  private output(bar: StreamingBar, range: { high: number; low: number } | null): number | null {
+    if (!range) return null;
+    if (range.high === range.low) return -50;
+    return ((range.high - bar.close) / (range.high - range.low)) * -100;
+  }
+}
+
+// Stochastic of RSI, smoothed into %K and %D; each stage starts once its input exists
+export class StreamingStochRSI implements StreamingIndicator<number, { k: number | null; d: number | null }> {
+  private rsi: StreamingRSI;
+  private extremes: RollingExtremes;
+  private kSma: StreamingSMA;
+  private dSma: StreamingSMA;
+
+  constructor(rsiPeriod = 14, stochPeriod = 14, kPeriod = 3, dPeriod = 3) {
+    this.rsi = new StreamingRSI(rsiPeriod);
+    this.extremes = new RollingExtremes(stochPeriod);
+    this.kSma = new StreamingSMA(kPeriod);
+    this.dSma = new StreamingSMA(dPeriod);
+  }
+
+  append(close: number) {
+    return this.update(this.rsi.append(close), 'append');
+  }
+
+  revise(close: number) {
+    return this.update(this.rsi.revise(close), 'revise');
+  }
+
+  // Whether RSI/stoch/%K exist depends only on the bar count, so a revision touches the same stages as its append
+  private update(rawRsi: number | null, mode: 'append' | 'revise') {
+    if (rawRsi === null) return { k: null, d: null };
+    // A perfectly flat window gives 0/0; read it as neutral instead of skipping the bar
+    const rsi = isNaN(rawRsi) ? 50 : rawRsi;
+
+    const range = this.extremes[mode](rsi, rsi);
+    if (!range) return { k: null, d: null };
+
+    const stoch = range.high === range.low ? 50 : ((rsi - range.low) / (range.high - range.low)) * 100;
+    const k = this.kSma[mode](stoch);
+    if (k === null) return { k: null, d: null };
+
+    return { k, d: this.dSma[mode](k) };
+  }
+}
+
+// Accumulation/distribution line
+export class StreamingADLine implements StreamingIndicator<StreamingBar, number> {
+  private stream: SnapshotStream<number, StreamingBar>;
+
+  constructor() {
+    this.stream = new SnapshotStream<number, StreamingBar>(0, (ad, bar) => {
+      const range = bar.high - bar.low;
+      const multiplier = range === 0 ? 0 : ((bar.close - bar.low) - (bar.high - bar.close)) / range;
+      return ad + multiplier * (bar.volume || 0);
+    });
+  }
+
+  append(bar: StreamingBar): number {
+    return this.stream.append(bar);
+  }
+
+  revise(bar: StreamingBar): number {
+    return this.stream.revise(bar);
+  }
+}
+
+// Kaufman efficiency ratio: net move over the sum of bar-to-bar moves (0 = noise, 1 = straight line)
+export class StreamingEfficiencyRatio implements StreamingIndicator<number, number | null> {
+  private closes: RollingWindow;
+  private changes: RollingSum;
+
+  constructor(private period = 10) {
+    this.closes = new RollingWindow(period + 1);
+    this.changes = new RollingSum(period);
+  }
+
+  append(close: number): number | null {
+    const change = this.closes.length > 0 ? Math.abs(close - this.closes.fromEnd(0)) : 0;
+    this.closes.push(close);
+    return this.output(this.changes.append(change));
+  }
+
+  revise(close: number): number | null {
+    if (this.closes.length === 0) return this.append(close);
+    const change = this.closes.length > 1 ? Math.abs(close - this.closes.fromEnd(1)) : 0;
+    this.closes.setLast(close);
+    return this.output(this.changes.revise(change));
+  }
+
+  private output(state: { count: number; sum: number }): number | null {
+    if (state.count <= this.period) return null;
+    if (state.sum === 0) return 0;
+    return Math.abs(this.closes.fromEnd(0) - this.closes.fromEnd(this.period)) / state.sum;
+  }
+}
+
+// Relative strength vs a benchmark: the stock's `period` return divided by the benchmark's (1 = in line).
+// Bars without a benchmark close reuse the last one seen.
+export class StreamingRelativeStrength implements StreamingIndicator<StreamingBenchmarkBar, number | null> {
+  private closes: RollingWindow;
+  private benchmarks: RollingWindow;
+  private lastBenchmark: SnapshotStream<number, number | null | undefined>;
+
+  constructor(private period = 50) {
+    this.closes = new RollingWindow(period + 1);
+    this.benchmarks = new RollingWindow(period + 1);
+    this.lastBenchmark = new SnapshotStream<number, number | null | undefined>(NaN, (last, value) =>
+      value !== null && value !== undefined && value > 0 ? value : last
+    );
+  }
+
+  append(bar: StreamingBenchmarkBar): number | null {
+    this.closes.push(bar.close);
+    this.benchmarks.push(this.lastBenchmark.append(bar.benchmark));
+    return this.output();
+  }
+
+  revise(bar: StreamingBenchmarkBar): number | null {
+    if (this.closes.length === 0) return this.append(bar);
+    this.closes.setLast(bar.close);
+    this.benchmarks.setLast(this.lastBenchmark.revise(bar.benchmark));
+    return this.output();
+  }
+
+  private output(): number | null {
+    if (this.closes.length <= this.period) return null;
+    const stockReturn = this.closes.fromEnd(0) / this.closes.fromEnd(this.period);
+    const benchmarkReturn = this.benchmarks.fromEnd(0) / this.benchmarks.fromEnd(this.period);
+    if (!isFinite(stockReturn) || !isFinite(benchmarkReturn) || benchmarkReturn === 0) return null;
+    return stockReturn / benchmarkReturn;
+  }
+}
+
+// Session VWAP on typical price; resets every trading day (each daily bar is its own session)
+export class StreamingVWAP implements StreamingIndicator<StreamingTimedBar, number | null> {
+  private stream: SnapshotStream<{ session: number | null; priceVolume: number; volume: number; vwap: number | null }, StreamingTimedBar>;
+
+  constructor() {
+    this.stream = new SnapshotStream<{ session: number | null; priceVolume: number; volume: number; vwap: number | null }, StreamingTimedBar>(
+      { session: null, priceVolume: 0, volume: 0, vwap: null },
+      (state, bar) => {
+        const session = getSessionKey(bar.time);
+        const isNewSession = session !== state.session;
+        const price = typicalPrice(bar);
+        const barVolume = bar.volume || 0;
+        const priceVolume = (isNewSession ? 0 : state.priceVolume) + price * barVolume;
+        const volume = (isNewSession ? 0 : state.volume) + barVolume;
+        return { session, priceVolume, volume, vwap: volume > 0 ? priceVolume / volume : price };
+      }
+    );
+  }
+
+  append(bar: StreamingTimedBar): number | null {
+    return this.stream.append(bar).vwap;
+  }
+
+  revise(bar: StreamingTimedBar): number | null {
+    return this.stream.revise(bar).vwap;
+  }
+}
+
+interface SuperTrendState {
+  count: number;
+  lastClose: number;
+  upperBand: number | null;
+  lowerBand: number | null;
+  isUptrend: boolean;
+}
+
+// SuperTrend from ATR bands around the bar midpoint; only the active side is returned
+export class StreamingSuperTrend implements StreamingIndicator<StreamingBar, { up: number | null; down: number | null }> {
+  private atr: StreamingATR;
+  private stream: SnapshotStream<SuperTrendState, { bar: StreamingBar; atr: number | null }>;
+
+  constructor(period = 10, multiplier = 3) {
+    this.atr = new StreamingATR(period);
+    this.stream = new SnapshotStream<SuperTrendState, { bar: StreamingBar; atr: number | null }>(
+      { count: 0, lastClose: 0, upperBand: null, lowerBand: null, isUptrend: true },
+      (state, { bar, atr }) => {
+        const next: SuperTrendState = { ...state, count: state.count + 1, lastClose: bar.close };
+        if (atr === null) return next;
+
+        const midpoint = (bar.high + bar.low) / 2;
+        const basicUpper = midpoint + multiplier * atr;
+        const basicLower = midpoint - multiplier * atr;
+
+        // Bands only tighten while price stays inside them
+        next.upperBand = state.upperBand === null || basicUpper < state.upperBand || state.lastClose > state.upperBand
+          ? basicUpper
+          : state.upperBand;
+        next.lowerBand = state.lowerBand === null || basicLower > state.lowerBand || state.lastClose < state.lowerBand
+          ? basicLower
+          : state.lowerBand;
+
+        if (state.upperBand === null) {
+          next.isUptrend = bar.close >= midpoint;
+        } else if (state.isUptrend && bar.close < next.lowerBand) {
+          next.isUptrend = false;
+        } else if (!state.isUptrend && bar.close > next.upperBand) {
+          next.isUptrend = true;
+        }
+        return next;
+      }
+    );
+  }
+
+  append(bar: StreamingBar) {
+    return this.output(this.stream.append({ bar, atr: this.atr.append(bar) }));
+  }
+
+  revise(bar: StreamingBar) {
+    return this.output(this.stream.revise({ bar, atr: this.atr.revise(bar) }));
+  }
+
+  private output(state: SuperTrendState) {
+    if (state.upperBand === null || state.lowerBand === null) return { up: null, down: null };
+    return state.isUptrend
+      ? { up: state.lowerBand, down: null }
+      : { up: null, down: state.upperBand };
+  }
+}
+
+interface PSARState {
+  count: number;
+  isUptrend: boolean;
+  sar: number | null;
+  extremePoint: number;
+  acceleration: number;
+  lastClose: number;
+  lastHigh: number;
+  lastLow: number;
+  prevHigh: number;
+  prevLow: number;
+}
+
+// Wilder's Parabolic SAR; the trend is seeded from the direction of the second bar
+export class StreamingParabolicSAR implements StreamingIndicator<StreamingBar, number | null> {
+  private stream: SnapshotStream<PSARState, StreamingBar>;
+
+  constructor(step = 0.02, maxAcceleration = 0.2) {
+    this.stream = new SnapshotStream<PSARState, StreamingBar>(
+      {
+        count: 0, isUptrend: true, sar: null, extremePoint: 0, acceleration: step,
+        lastClose: 0, lastHigh: 0, lastLow: 0, prevHigh: 0, prevLow: 0
+      },
+      (state, bar) => {
+        const index = state.count;
+        const next: PSARState = {
+          ...state,
+          count: index + 1,
+          lastClose: bar.close,
+          lastHigh: bar.high,
+          lastLow: bar.low,
+          prevHigh: state.lastHigh,
+          prevLow: state.lastLow
+        };
+        if (index === 0) return next;
+
+        if (index === 1) {
+          next.isUptrend = bar.close >= state.lastClose;
+          next.sar = next.isUptrend ? Math.min(state.lastLow, bar.low) : Math.max(state.lastHigh, bar.high);
+          next.extremePoint = next.isUptrend ? bar.high : bar.low;
+          next.acceleration = step;
+          return next;
+        }
+
+        let sar = state.sar! + state.acceleration * (state.extremePoint - state.sar!);
+        if (state.isUptrend) {
+          // SAR may not move into the previous two bars' range
+          sar = Math.min(sar, state.lastLow, state.prevLow);
+          if (bar.low < sar) {
+            next.isUptrend = false;
+            next.sar = state.extremePoint;
+            next.extremePoint = bar.low;
+            next.acceleration = step;
+            return next;
+          }
+          if (bar.high > state.extremePoint) {
+            next.extremePoint = bar.high;
+            next.acceleration = Math.min(state.acceleration + step, maxAcceleration);
+          }
+        } else {
+          sar = Math.max(sar, state.lastHigh, state.prevHigh);
+          if (bar.high > sar) {
+            next.isUptrend = true;
+            next.sar = state.extremePoint;
+            next.extremePoint = bar.high;
+            next.acceleration = step;
+            return next;
+          }
+          if (bar.low < state.extremePoint) {
+            next.extremePoint = bar.low;
+            next.acceleration = Math.min(state.acceleration + step, maxAcceleration);
+          }
+        }
+        next.sar = sar;
+        return next;
+      }
+    );
+  }
+
+  append(bar: StreamingBar): number | null {
+    return this.stream.append(bar).sar;
+  }
+
+  revise(bar: StreamingBar): number | null {
+    return this.stream.revise(bar).sar;
+  }
+}
+
+// Commodity channel index; the mean deviation needs one pass over the window (O(period) per update)
+export class StreamingCCI implements StreamingIndicator<StreamingBar, number | null> {
+  private prices: RollingWindow;
+  private sma: StreamingSMA;
+
+  constructor(private period = 20) {
+    this.prices = new RollingWindow(period);
+    this.sma = new StreamingSMA(period);
+  }
+
+  append(bar: StreamingBar): number | null {
+    const price = typicalPrice(bar);
+    this.prices.push(price);
+    return this.output(price, this.sma.append(price));
+  }
+
+  revise(bar: StreamingBar): number | null {
+    if (this.prices.length === 0) return this.append(bar);
+    const price = typicalPrice(bar);
+    this.prices.setLast(price);
+    return this.output(price, this.sma.revise(price));
+  }
+
+  private output(price: number, sma: number | null): number | null {
+    if (sma === null) return null;
+    let deviation = 0;
+    for (let i = 0; i < this.period; i++) {
+      deviation += Math.abs(this.prices.fromEnd(i) - sma);
+    }
+    const meanDeviation = deviation / this.period;
+    return meanDeviation === 0 ? 0 : (price - sma) / (0.015 * meanDeviation);
+  }
+}
+
+// Money flow index: RSI-style ratio of up-bar vs down-bar typical price x volume
+export class StreamingMFI implements StreamingIndicator<StreamingBar, number | null> {
+  private prices: SnapshotStream<{ count: number; previous: number | null; current: number }, number>;
+  private positive: RollingSum;
+  private negative: RollingSum;
+
+  constructor(private period = 14) {
+    this.prices = new SnapshotStream<{ count: number; previous: number | null; current: number }, number>(
+      { count: 0, previous: null, current: 0 },
+      (state, price) => ({ count: state.count + 1, previous: state.count > 0 ? state.current : null, current: price })
+    );
+    this.positive = new RollingSum(period);
+    this.negative = new RollingSum(period);
+  }
+
+  append(bar: StreamingBar): number | null {
+    const flow = this.flow(this.prices.append(typicalPrice(bar)), bar);
+    return this.output(this.positive.append(flow.positive), this.negative.append(flow.negative));
+  }
+
+  revise(bar: StreamingBar): number | null {
+    const flow = this.flow(this.prices.revise(typicalPrice(bar)), bar);
+    return this.output(this.positive.revise(flow.positive), this.negative.revise(flow.negative));
+  }
+
+  private flow(prices: { previous: number | null; current: number }, bar: StreamingBar) {
+    const rawFlow = prices.current * (bar.volume || 0);
+    if (prices.previous === null || prices.current === prices.previous) return { positive: 0, negative: 0 };
+    return prices.current > prices.previous
+      ? { positive: rawFlow, negative: 0 }
+      : { positive: 0, negative: rawFlow };
+  }
+
+  private output(positive: { count: number; sum: number }, negative: { count: number; sum: number }): number | null {
+    // The first bar has no flow, so a full window needs period + 1 bars
+    if (positive.count <= this.period) return null;
+    if (negative.sum === 0) return positive.sum === 0 ? 50 : 100;
+    return 100 - 100 / (1 + positive.sum / negative.sum);
+  }
+}
+
+interface PivotLevels {
+  pivot: number | null;
+  r1: number | null;
+  r2: number | null;
+  s1: number | null;
+  s2: number | null;
+}
+
+interface PivotState {
+  session: number | null;
+  high: number;
+  low: number;
+  close: number;
+  levels: PivotLevels;
+}
+
+const EMPTY_PIVOTS: PivotLevels = { pivot: null, r1: null, r2: null, s1: null, s2: null };
+
+// Classic floor pivots from the previous session's high, low and close
+export class StreamingPivotPoints implements StreamingIndicator<StreamingTimedBar, PivotLevels> {
+  private stream: SnapshotStream<PivotState, StreamingTimedBar>;
+
+  constructor() {
+    this.stream = new SnapshotStream<PivotState, StreamingTimedBar>(
+      { session: null, high: 0, low: 0, close: 0, levels: EMPTY_PIVOTS },
+      (state, bar) => {
+        const session = getSessionKey(bar.time);
+        if (session === state.session) {
+          return {
+            ...state,
+            high: Math.max(state.high, bar.high),
+            low: Math.min(state.low, bar.low),
+            close: bar.close
+          };
+        }
+
+        let levels = EMPTY_PIVOTS;
+        if (state.session !== null) {
+          const pivot = (state.high + state.low + state.close) / 3;
+          const range = state.high - state.low;
+          levels = {
+            pivot,
+            r1: 2 * pivot - state.low,
+            r2: pivot + range,
+            s1: 2 * pivot - state.high,
+            s2: pivot - range
+          };
+        }
+        return { session, high: bar.high, low: bar.low, close: bar.close, levels };
+      }
+    );
+  }
+
+  append(bar: StreamingTimedBar): PivotLevels {
+    return this.stream.append(bar).levels;
+  }
+
+  revise(bar: StreamingTimedBar): PivotLevels {
+    return this.stream.revise(bar).levels;
+  }
+}
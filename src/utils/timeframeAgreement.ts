@@ -0,0 +1,113 @@
+// Pairwise agreement between the per-timeframe calls of a multi-timeframe analysis.
+// Reads every shape the backend has sent: timeframe_analyses (enhanced MTF), timeframes (data
+// service) and short/medium/long_term (indicator consensus).
+import { SignalBias, getSignalBias } from '@/utils/analysisSummary';
+
+export interface TimeframeSignal {
+  timeframe: string;
+  bias: SignalBias;
+  confidence: number | null; // 0-100
+}
+
+// agree: same call; conflict: bullish against bearish; partial: one side neutral
+export type TimeframeAgreementCell = 'agree' | 'conflict' | 'partial';
+
+export interface TimeframeAgreement {
+  signals: TimeframeSignal[];
+  matrix: TimeframeAgreementCell[][];
+  agreementPct: number | null; // Share of timeframe pairs that agree
+  conflicts: number;
+  dominantBias: SignalBias | null;
+}
+
+// Shortest to longest; unknown names sort last, alphabetically
+const TIMEFRAME_ORDER: Record<string, number> = {
+  '1min': 1,
+  '5min': 2,
+  '15min': 3,
+  '30min': 4,
+  '1hour': 5,
+  '1day': 6,
+  '1week': 7,
+  '1month': 8,
+  short_term: 1,
+  medium_term: 5,
+  long_term: 8
+};
+
+const TERM_KEYS = ['short_term', 'medium_term', 'long_term'];
+
+const toPercent = (value: unknown): number | null => {
+  if (typeof value !== 'number' || !Number.isFinite(value)) return null;
+  return value <= 1 ? value * 100 : value;
+};
+
+export function getTimeframeSignals(analysis: any): TimeframeSignal[] {
+  if (!analysis || typeof analysis !== 'object') return [];
+
+  let signals: TimeframeSignal[] = [];
+  const perTimeframe = analysis.timeframe_analyses || analysis.timeframes;
+  if (perTimeframe && typeof perTimeframe === 'object') {
+    signals = Object.entries(perTimeframe)
+      .filter(([, data]: [string, any]) => data && data.trend && data.trend !== 'unknown')
+      .map(([timeframe, data]: [string, any]) => ({
+        timeframe,
+        bias: getSignalBias(data.trend),
+        confidence: toPercent(data.confidence)
+      }));
+  } else {
+    signals = TERM_KEYS
+      .filter(key => analysis[key])
+      .map(key => {
+        const term = analysis[key];
+        return {
+          timeframe: key,
+          bias: getSignalBias(term.consensus?.direction || term.ai_trend),
+          confidence: toPercent(term.ai_confidence ?? term.consensus?.strength)
+        };
+      });
+  }
+
+  return signals.sort((a, b) => {
+    const orderA = TIMEFRAME_ORDER[a.timeframe.toLowerCase()] ?? 999;
+    const orderB = TIMEFRAME_ORDER[b.timeframe.toLowerCase()] ?? 999;
+    return orderA !== orderB ? orderA - orderB : a.timeframe.localeCompare(b.timeframe);
+  });
+}
+
+const compareBias = (a: SignalBias, b: SignalBias): TimeframeAgreementCell => {
+  if (a === b) return 'agree';
+  if (a === 'neutral' || b === 'neutral') return 'partial';
+  return 'conflict';
+};
+
+export function buildTimeframeAgreement(signals: TimeframeSignal[]): TimeframeAgreement {
+  const matrix = signals.map(row => signals.map(column => compareBias(row.bias, column.bias)));
+
+  let pairs = 0;
+  let agreeing = 0;
+  let conflicts = 0;
+  for (let i = 0; i < signals.length; i++) {
+    for (let j = i + 1; j < signals.length; j++) {
+      pairs++;
+      if (matrix[i][j] === 'agree') agreeing++;
+      if (matrix[i][j] === 'conflict') conflicts++;
+    }
+  }
+
+  const counts = signals.reduce<Record<SignalBias, number>>(
+    (totals, signal) => ({ ...totals, [signal.bias]: totals[signal.bias] + 1 }),
+    { bullish: 0, bearish: 0, neutral: 0 }
+  );
+  const ranked = (Object.keys(counts) as SignalBias[]).sort((a, b) => counts[b] - counts[a]);
+  // A tie at the top has no dominant call
+  const dominantBias = signals.length > 0 && counts[ranked[0]] > counts[ranked[1]] ? ranked[0] : null;
+
+  return {
+    signals,
+    matrix,
+    agreementPct: pairs > 0 ? (agreeing / pairs) * 100 : null,
+    conflicts,
+    dominantBias
+  };
+}